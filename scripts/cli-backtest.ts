@@ -8,15 +8,53 @@
  * Usage:
  *   npx ts-node scripts/cli-backtest.ts --symbol XAUUSD.s --strategy ORDER_BLOCK
  *   npx ts-node scripts/cli-backtest.ts --optimize --symbol XAUUSD.s
- *   npx ts-node scripts/cli-backtest.ts --compare-all --symbol XAUUSD.s
+ *   npx ts-node scripts/cli-backtest.ts --compare-all --symbol XAUUSD.s --workers 4
+ *   npx ts-node scripts/cli-backtest.ts --walk-forward --symbol XAUUSD.s
+ *   npx ts-node scripts/cli-backtest.ts --offline --symbol XAUUSD.s --start 2019-01-01
+ *   npx ts-node scripts/cli-backtest.ts --ticks --symbol XAUUSD.s --strategy ORDER_BLOCK
  */
 
 import { config } from 'dotenv';
 config(); // Load .env
 
-import { BacktestEngine, BacktestResult } from '../src/lib/backtest/engine';
+import { writeFileSync } from 'fs';
+import { cpus } from 'os';
+
+import { BacktestEngine, BacktestResult, PortfolioBacktestResult } from '../src/lib/backtest/engine';
+import { getDefaultExecutionCosts } from '../src/lib/backtest/execution-costs';
+import { aggregatePositionTrades } from '../src/lib/backtest/trade-management';
+import {
+  runWalkForward,
+  DEFAULT_WALK_FORWARD_SPACE,
+  WalkForwardResult,
+} from '../src/lib/backtest/walk-forward';
+import { symbolSpecStore } from '../src/lib/backtest/symbol-spec-store';
+import { runMonteCarlo, MonteCarloMethod, MonteCarloResult } from '../src/lib/backtest/monte-carlo';
+import {
+  runSweep,
+  packMTFData,
+  rankSweepResults,
+  sweepResultsToCSV,
+  sweepResultsToJSON,
+  SweepJob,
+  SweepProgressSnapshot,
+} from '../src/lib/backtest/sweep';
 import { metaApiClient } from '../src/lib/metaapi/client';
-import { BacktestConfig, StrategyType, Timeframe, KillZoneType } from '../src/lib/types';
+import { candleCache } from '../src/lib/cache/candle-cache';
+import { tickStore } from '../src/lib/cache/tick-store';
+import { BROKER_ALIGNMENT, ticksToCandles } from '../src/lib/history/resample';
+import { MTFData } from '../src/lib/analysis/multi-timeframe';
+import {
+  BacktestConfig,
+  Candle,
+  Tick,
+  StrategyType,
+  Timeframe,
+  KillZoneType,
+  ExecutionCostConfig,
+  TIERED_TP_PROFILES,
+  IntrabarFallback,
+} from '../src/lib/types';
 
 // Extended backtest config with additional parameters
 interface ExtendedBacktestConfig extends BacktestConfig {
@@ -59,6 +97,29 @@ function parseArgs(): {
   optimize: boolean;
   compareAll: boolean;
   verbose: boolean;
+  costs: boolean;
+  spread?: number;
+  commission?: number;
+  slippage?: number;
+  tiered?: string;
+  breakevenR?: number;
+  portfolio?: string[];
+  walkForward: boolean;
+  inSampleDays: number;
+  outOfSampleDays: number;
+  search: 'grid' | 'random';
+  samples: number;
+  monteCarlo?: number;
+  mcMethod: MonteCarloMethod;
+  mcJson?: string;
+  syncSpecs: boolean;
+  limitPullbackR?: number;
+  limitExpiry?: number;
+  intrabar?: IntrabarFallback;
+  workers: number;
+  sweepOut?: string;
+  offline: boolean;
+  ticks: boolean;
 } {
   const args = process.argv.slice(2);
   const result: any = {
@@ -71,6 +132,17 @@ function parseArgs(): {
     optimize: false,
     compareAll: false,
     verbose: false,
+    costs: false,
+    walkForward: false,
+    inSampleDays: 60,
+    outOfSampleDays: 20,
+    search: 'random',
+    samples: 30,
+    workers: Math.max(1, cpus().length - 1),
+    mcMethod: 'bootstrap',
+    syncSpecs: false,
+    offline: false,
+    ticks: false,
   };
 
   for (let i = 0; i < args.length; i++) {
@@ -108,6 +180,82 @@ function parseArgs(): {
       case '-v':
         result.verbose = true;
         break;
+      case '--costs':
+        result.costs = true;
+        break;
+      case '--spread':
+        result.costs = true;
+        result.spread = parseFloat(args[++i]);
+        break;
+      case '--commission':
+        result.costs = true;
+        result.commission = parseFloat(args[++i]);
+        break;
+      case '--slippage':
+        result.costs = true;
+        result.slippage = parseFloat(args[++i]);
+        break;
+      case '--tiered':
+        result.tiered = args[++i].toUpperCase();
+        break;
+      case '--breakeven':
+        result.breakevenR = parseFloat(args[++i]);
+        break;
+      case '--portfolio':
+        result.portfolio = args[++i].split(',').map((s: string) => s.trim()).filter(Boolean);
+        break;
+      case '--walk-forward':
+        result.walkForward = true;
+        break;
+      case '--is-days':
+        result.inSampleDays = parseInt(args[++i], 10);
+        break;
+      case '--oos-days':
+        result.outOfSampleDays = parseInt(args[++i], 10);
+        break;
+      case '--search':
+        result.search = args[++i] === 'grid' ? 'grid' : 'random';
+        break;
+      case '--samples':
+        result.samples = parseInt(args[++i], 10);
+        break;
+      case '--monte-carlo':
+        // Optional iteration count
+        result.monteCarlo = /^\d+$/.test(args[i + 1] ?? '') ? parseInt(args[++i], 10) : 1000;
+        break;
+      case '--mc-method':
+        result.mcMethod = args[++i] === 'shuffle' ? 'shuffle' : 'bootstrap';
+        break;
+      case '--limit-entry':
+        // Optional pullback in R
+        result.limitPullbackR = /^[\d.]+$/.test(args[i + 1] ?? '') ? parseFloat(args[++i]) : 0;
+        break;
+      case '--limit-expiry':
+        result.limitExpiry = parseInt(args[++i], 10);
+        break;
+      case '--intrabar':
+        // Optional fallback when M1 data can't decide
+        result.intrabar = args[i + 1] === 'optimistic' || args[i + 1] === 'pessimistic' ? args[++i] : 'pessimistic';
+        break;
+      case '--workers':
+        result.workers = Math.max(1, parseInt(args[++i], 10));
+        break;
+      case '--sweep-out':
+        result.sweepOut = args[++i];
+        break;
+      case '--sync-specs':
+        result.syncSpecs = true;
+        break;
+      case '--offline':
+        result.offline = true;
+        break;
+      case '--ticks':
+        result.ticks = true;
+        break;
+      case '--mc-json':
+        result.mcJson = args[++i];
+        result.monteCarlo = result.monteCarlo ?? 1000;
+        break;
       case '--help':
       case '-h':
         printHelp();
@@ -146,6 +294,29 @@ Options:
   --optimize, -o            Run parameter optimization
   --compare-all, -c         Compare all strategy variations
   --verbose, -v             Show detailed output
+  --costs                   Model execution costs (typical symbol spread)
+  --spread <price>          Fixed spread in price units (implies --costs)
+  --commission <amount>     Commission per lot per side (implies --costs)
+  --slippage <price>        Max random slippage in price units (implies --costs)
+  --tiered <profile>        Simulate tiered TP: ${Object.keys(TIERED_TP_PROFILES).join(', ')}
+  --breakeven <R>           Move SL to breakeven (+5 pips) at this R (ignored with --tiered)
+  --portfolio <symbols>     Comma-separated symbols traded together on one account
+  --walk-forward            Walk-forward optimisation per symbol (--symbol or --portfolio list)
+  --is-days <days>          Walk-forward in-sample window (default: 60)
+  --oos-days <days>         Walk-forward out-of-sample window (default: 20)
+  --search <grid|random>    Walk-forward parameter search (default: random)
+  --samples <n>             Parameter sets per fold with --search random (default: 30)
+  --monte-carlo [n]         Monte Carlo robustness analysis of the trade list (default: 1000 paths)
+  --mc-method <method>      bootstrap (resample trades) or shuffle (reorder trades)
+  --mc-json <file>          Write the Monte Carlo result as JSON (implies --monte-carlo)
+  --limit-entry [R]         Enter with limit orders, optionally R of the stop distance better than the signal
+  --limit-expiry <candles>  Cancel unfilled limit orders after this many M15 candles (default: 8)
+  --intrabar [fallback]     Resolve candles touching SL and TP with cached M1 data (fallback: pessimistic|optimistic)
+  --workers <n>             Worker threads for --optimize/--compare-all (default: CPU cores - 1)
+  --sweep-out <path>        Base path for the ranked sweep results .csv/.json (default: backtest-sweep-<symbol>)
+  --sync-specs              Fetch symbol specs from the broker and store them (otherwise loaded from the database)
+  --offline                 Use only cached candles (e.g. imported with npm run data:import), no MetaAPI connection
+  --ticks                   Single backtest on stored ticks (missing days fetched and stored), candles built from them
   --help, -h                Show this help
 
 Examples:
@@ -157,9 +328,76 @@ Examples:
 
   # Compare all variations
   npx ts-node scripts/cli-backtest.ts --compare-all --symbol XAUUSD.s --start 2024-01-01
+
+  # Compare all variations on 4 worker threads, ranked results in results/xau.csv and .json
+  npx ts-node scripts/cli-backtest.ts --compare-all --workers 4 --sweep-out results/xau
+
+  # Include spread and commission
+  npx ts-node scripts/cli-backtest.ts --strategy ORDER_BLOCK --costs --commission 3.5
+
+  # Portfolio of all live symbols sharing one balance
+  npx ts-node scripts/cli-backtest.ts --strategy ORDER_BLOCK --portfolio XAUUSD.s,XAGUSD.s,BTCUSD,ETHUSD
+
+  # Partial closes with the RUNNER profile
+  npx ts-node scripts/cli-backtest.ts --strategy ORDER_BLOCK --tiered RUNNER
+
+  # Walk-forward optimisation on 90-day in-sample / 30-day out-of-sample folds
+  npx ts-node scripts/cli-backtest.ts --walk-forward --portfolio XAUUSD.s,BTCUSD --start 2024-01-01 --is-days 90 --oos-days 30
+
+  # Five years of imported history, without the broker
+  npx ts-node scripts/cli-backtest.ts --offline --strategy ORDER_BLOCK --start 2019-01-01
+
+  # Tick-level fills on a month of stored ticks
+  npx ts-node scripts/cli-backtest.ts --ticks --strategy ORDER_BLOCK --start 2024-06-01 --end 2024-07-01
 `);
 }
 
+function buildExecutionCosts(args: ReturnType<typeof parseArgs>): ExecutionCostConfig | undefined {
+  if (!args.costs) return undefined;
+
+  const costs = getDefaultExecutionCosts(args.symbol);
+  if (args.spread !== undefined) {
+    costs.spread = { mode: 'fixed', spread: args.spread };
+  }
+  if (args.commission !== undefined) {
+    costs.commissionPerLot = args.commission;
+  }
+  if (args.slippage !== undefined) {
+    costs.slippage = { mode: 'random', maxSlippage: args.slippage };
+  }
+  return costs;
+}
+
+// Set from --offline in main()
+let offline = false;
+
+/**
+ * Candles from MetaAPI, or only from the candle cache when running offline
+ */
+async function loadCandles(
+  symbol: string,
+  timeframe: Timeframe,
+  startDate: Date,
+  endDate: Date,
+  cached: boolean = false
+): Promise<Candle[]> {
+  if (offline) {
+    return candleCache.getCachedCandles(symbol, timeframe, startDate, endDate);
+  }
+  return cached
+    ? metaApiClient.getHistoricalCandlesCached(symbol, timeframe, startDate, endDate)
+    : metaApiClient.getHistoricalCandles(symbol, timeframe, startDate, endDate);
+}
+
+/**
+ * Ticks from the tick store, fetching days it does not cover unless running offline
+ */
+async function loadTicks(symbol: string, startDate: Date, endDate: Date): Promise<Tick[]> {
+  return offline
+    ? tickStore.getTicks(symbol, startDate, endDate)
+    : metaApiClient.getHistoricalTicksCached(symbol, startDate, endDate);
+}
+
 // Strategy variations based on the winning findings
 const STRATEGY_VARIATIONS: BacktestVariation[] = [
   // OTE Filter comparisons
@@ -308,16 +546,15 @@ interface BacktestSummary {
   avgRR: number;
 }
 
-async function runSingleBacktest(
+function buildBacktestConfig(
   symbol: string,
   strategy: StrategyType,
   startDate: Date,
   endDate: Date,
   balance: number,
   riskPercent: number,
-  extendedConfig: Partial<ExtendedBacktestConfig> = {},
-  verbose: boolean = false
-): Promise<BacktestResult> {
+  extendedConfig: Partial<ExtendedBacktestConfig> = {}
+): BacktestConfig {
   const config: BacktestConfig = {
     strategy,
     symbol,
@@ -325,11 +562,16 @@ async function runSingleBacktest(
     endDate,
     initialBalance: balance,
     riskPercent,
-    useTickData: false,
+    useTickData: extendedConfig.useTickData ?? false,
     useKillZones: extendedConfig.useKillZones ?? true,
     killZones: extendedConfig.killZones,
     requireLiquiditySweep: extendedConfig.requireOTE ?? false,
     requirePremiumDiscount: extendedConfig.requireOTE ?? false,
+    executionCosts: extendedConfig.executionCosts,
+    tieredTP: extendedConfig.tieredTP,
+    breakeven: extendedConfig.breakeven,
+    limitEntry: extendedConfig.limitEntry,
+    intrabarFallback: extendedConfig.intrabarFallback,
   };
 
   // Add maxDailyDrawdownPercent if specified
@@ -337,6 +579,21 @@ async function runSingleBacktest(
     (config as any).maxDailyDrawdownPercent = extendedConfig.maxDailyDrawdownPercent;
   }
 
+  return config;
+}
+
+async function runSingleBacktest(
+  symbol: string,
+  strategy: StrategyType,
+  startDate: Date,
+  endDate: Date,
+  balance: number,
+  riskPercent: number,
+  extendedConfig: Partial<ExtendedBacktestConfig> = {},
+  verbose: boolean = false
+): Promise<BacktestResult> {
+  const config = buildBacktestConfig(symbol, strategy, startDate, endDate, balance, riskPercent, extendedConfig);
+
   // Create progress callback for verbose mode
   const onProgress = verbose
     ? (progress: any) => {
@@ -351,16 +608,35 @@ async function runSingleBacktest(
   // Fetch historical data
   if (verbose) console.log('Fetching historical data...');
 
+  if (config.useTickData) {
+    const ticks = await loadTicks(symbol, startDate, endDate);
+    if (ticks.length === 0) {
+      throw new Error(`No tick data for ${symbol} between ${startDate.toISOString()} and ${endDate.toISOString()}`);
+    }
+    // Candles from the same ticks, so signals and fills see the same prices
+    const htfCandles = ticksToCandles(ticks, 'H4', BROKER_ALIGNMENT);
+    const mtfCandles = ticksToCandles(ticks, 'H1', BROKER_ALIGNMENT);
+    const ltfCandles = ticksToCandles(ticks, 'M15', BROKER_ALIGNMENT);
+    if (verbose) {
+      console.log(`\nTicks: ${ticks.length}, candles built: H4=${htfCandles.length}, H1=${mtfCandles.length}, M15=${ltfCandles.length}`);
+    }
+    return engine.runTickBacktest(htfCandles, mtfCandles, ltfCandles, ticks);
+  }
+
   const [htfCandles, mtfCandles, ltfCandles] = await Promise.all([
-    metaApiClient.getHistoricalCandles(symbol, 'H4' as Timeframe, startDate, endDate),
-    metaApiClient.getHistoricalCandles(symbol, 'H1' as Timeframe, startDate, endDate),
-    metaApiClient.getHistoricalCandles(symbol, 'M15' as Timeframe, startDate, endDate),
+    loadCandles(symbol, 'H4', startDate, endDate),
+    loadCandles(symbol, 'H1', startDate, endDate),
+    loadCandles(symbol, 'M15', startDate, endDate),
   ]);
 
   if (verbose) {
     console.log(`\nCandles fetched: H4=${htfCandles.length}, H1=${mtfCandles.length}, M15=${ltfCandles.length}`);
   }
 
+  if (extendedConfig.intrabarFallback) {
+    await loadIntrabarData(engine, [symbol], startDate, endDate);
+  }
+
   const result = await engine.runCandleBacktest(htfCandles, mtfCandles, ltfCandles);
 
   if (verbose) {
@@ -370,6 +646,294 @@ async function runSingleBacktest(
   return result;
 }
 
+async function runPortfolio(
+  symbols: string[],
+  strategy: StrategyType,
+  startDate: Date,
+  endDate: Date,
+  balance: number,
+  riskPercent: number,
+  extendedConfig: Partial<ExtendedBacktestConfig> = {}
+): Promise<PortfolioBacktestResult> {
+  const config: BacktestConfig = {
+    strategy,
+    symbol: symbols[0],
+    symbols,
+    startDate,
+    endDate,
+    initialBalance: balance,
+    riskPercent,
+    useTickData: false,
+    useKillZones: extendedConfig.useKillZones ?? true,
+    killZones: extendedConfig.killZones,
+    executionCosts: extendedConfig.executionCosts,
+    tieredTP: extendedConfig.tieredTP,
+    breakeven: extendedConfig.breakeven,
+    limitEntry: extendedConfig.limitEntry,
+    intrabarFallback: extendedConfig.intrabarFallback,
+  };
+
+  const data: Record<string, MTFData> = {};
+  for (const symbol of symbols) {
+    console.log(`Fetching historical data for ${symbol}...`);
+    const [htfCandles, mtfCandles, ltfCandles] = await Promise.all([
+      loadCandles(symbol, 'H4', startDate, endDate),
+      loadCandles(symbol, 'H1', startDate, endDate),
+      loadCandles(symbol, 'M15', startDate, endDate),
+    ]);
+    data[symbol] = { htfCandles, mtfCandles, ltfCandles };
+  }
+
+  const engine = new BacktestEngine(config);
+  if (extendedConfig.intrabarFallback) {
+    await loadIntrabarData(engine, symbols, startDate, endDate);
+  }
+  return engine.runPortfolioBacktest(data);
+}
+
+/**
+ * Give the engine cached M1 candles to resolve candles that touch both SL and TP
+ */
+async function loadIntrabarData(
+  engine: BacktestEngine,
+  symbols: string[],
+  startDate: Date,
+  endDate: Date
+): Promise<void> {
+  for (const symbol of symbols) {
+    const candles = await candleCache.getCachedCandles(symbol, 'M1' as Timeframe, startDate, endDate);
+    console.log(`Intrabar data for ${symbol}: ${candles.length} cached M1 candles`);
+    engine.setIntrabarData(symbol, { candles });
+  }
+}
+
+/**
+ * Run strategy variations on worker threads. Candles are loaded once through CandleCache
+ * and shared with every worker; ranked results are written as CSV and JSON.
+ */
+async function runVariationSweep(
+  variations: BacktestVariation[],
+  startDate: Date,
+  endDate: Date,
+  sharedConfig: Partial<ExtendedBacktestConfig>,
+  args: ReturnType<typeof parseArgs>
+): Promise<BacktestSummary[]> {
+  const symbol = args.symbol;
+  const strategy = args.strategy || 'ORDER_BLOCK';
+
+  console.log('Loading candles...');
+  const htfCandles = await loadCandles(symbol, 'H4', startDate, endDate, true);
+  const mtfCandles = await loadCandles(symbol, 'H1', startDate, endDate, true);
+  const ltfCandles = await loadCandles(symbol, 'M15', startDate, endDate, true);
+  const intrabarCandles = sharedConfig.intrabarFallback
+    ? await candleCache.getCachedCandles(symbol, 'M1' as Timeframe, startDate, endDate)
+    : undefined;
+  console.log(`Candles loaded: H4=${htfCandles.length}, H1=${mtfCandles.length}, M15=${ltfCandles.length}${intrabarCandles ? `, M1=${intrabarCandles.length}` : ''}`);
+
+  const data = {
+    [symbol]: packMTFData(symbol, { htfCandles, mtfCandles, ltfCandles }, undefined, intrabarCandles),
+  };
+
+  const jobs: SweepJob[] = variations.map((variation, i) => ({
+    id: `variation-${i}`,
+    name: variation.name,
+    config: buildBacktestConfig(symbol, strategy, startDate, endDate, args.balance, args.risk, {
+      ...variation.config,
+      ...sharedConfig,
+    }),
+    params: {
+      requireOTE: variation.config.requireOTE,
+      rrMode: variation.config.rrMode,
+      fixedRR: variation.config.fixedRR,
+      atrMultiplier: variation.config.atrMultiplier,
+      minOBScore: variation.config.minOBScore,
+      relaxedScoreThreshold: variation.config.relaxedScoreThreshold,
+      useKillZones: variation.config.useKillZones,
+      killZones: variation.config.killZones?.join('+'),
+      maxDailyDrawdownPercent: variation.config.maxDailyDrawdownPercent,
+    },
+  }));
+
+  const workers = Math.min(args.workers, jobs.length);
+  console.log(`Running ${jobs.length} strategy variations on ${workers} worker thread(s)...\n`);
+
+  let lastRender = 0;
+  const renderProgress = (snapshot: SweepProgressSnapshot) => {
+    const now = Date.now();
+    if (now - lastRender < 250 && snapshot.completed < snapshot.total) return;
+    lastRender = now;
+    const trades = snapshot.jobs.reduce((sum, job) => sum + job.progress.tradesExecuted, 0);
+    process.stdout.write(
+      `\rProgress: ${snapshot.progress.toFixed(0).padStart(3)}% | Done: ${snapshot.completed}/${snapshot.total} | Running: ${snapshot.running} | Open-run trades: ${trades}   `
+    );
+  };
+
+  const results = await runSweep(jobs, data, {
+    workers,
+    onProgress: renderProgress,
+    onJobComplete: (result) => {
+      const status = result.error
+        ? `Error: ${result.error}`
+        : `Trades: ${result.metrics.totalTrades} | Win Rate: ${result.metrics.winRate.toFixed(1)}% | PnL: $${result.metrics.totalPnl.toFixed(2)}`;
+      process.stdout.write(`\r${' '.repeat(100)}\r    ${result.name}: ${status}\n`);
+    },
+  });
+  console.log('');
+
+  const ranked = rankSweepResults(results, 'totalPnl');
+  const outPath = args.sweepOut ?? `backtest-sweep-${symbol.replace(/[^A-Za-z0-9]+/g, '_')}`;
+  writeFileSync(`${outPath}.csv`, sweepResultsToCSV(ranked));
+  writeFileSync(`${outPath}.json`, sweepResultsToJSON(ranked));
+  console.log(`Ranked results written to ${outPath}.csv and ${outPath}.json`);
+
+  return results
+    .filter((result) => !result.error)
+    .map((result) => formatSummary(result, result.name, symbol));
+}
+
+async function runWalkForwardForSymbol(
+  symbol: string,
+  strategy: StrategyType,
+  startDate: Date,
+  endDate: Date,
+  balance: number,
+  riskPercent: number,
+  extendedConfig: Partial<ExtendedBacktestConfig>,
+  args: ReturnType<typeof parseArgs>
+): Promise<WalkForwardResult> {
+  const config: BacktestConfig = {
+    strategy,
+    symbol,
+    startDate,
+    endDate,
+    initialBalance: balance,
+    riskPercent,
+    useTickData: false,
+    useKillZones: extendedConfig.useKillZones ?? true,
+    killZones: extendedConfig.killZones,
+    executionCosts: extendedConfig.executionCosts,
+    breakeven: extendedConfig.breakeven,
+  };
+
+  console.log(`Fetching historical data for ${symbol}...`);
+  const [htfCandles, mtfCandles, ltfCandles] = await Promise.all([
+    loadCandles(symbol, 'H4', startDate, endDate),
+    loadCandles(symbol, 'H1', startDate, endDate),
+    loadCandles(symbol, 'M15', startDate, endDate),
+  ]);
+
+  return runWalkForward(
+    config,
+    { htfCandles, mtfCandles, ltfCandles },
+    DEFAULT_WALK_FORWARD_SPACE,
+    {
+      inSampleDays: args.inSampleDays,
+      outOfSampleDays: args.outOfSampleDays,
+      search: args.search,
+      randomSamples: args.samples,
+    },
+    (fold, totalFolds) => {
+      console.log(
+        `  Fold ${fold.index + 1}/${totalFolds}: IS PF ${fold.inSample.profitFactor.toFixed(2)} -> OOS PF ${fold.outOfSample.profitFactor.toFixed(2)}, ` +
+        `OOS PnL $${fold.outOfSample.totalPnl.toFixed(2)} (${fold.outOfSample.totalTrades} trades) ${JSON.stringify(fold.params)}`
+      );
+    }
+  );
+}
+
+function printWalkForwardResults(results: WalkForwardResult[]): void {
+  console.log('\n' + '='.repeat(60));
+  console.log('WALK-FORWARD OUT-OF-SAMPLE RESULTS');
+  console.log('='.repeat(60));
+  console.log('Symbol       | Folds | Trades | Win Rate |   PF |        PnL | WFE');
+  for (const r of results) {
+    const oos = r.outOfSample;
+    console.log(
+      `${r.symbol.padEnd(12)} | ${`${oos.profitableFolds}/${r.folds.length}`.padStart(5)} | ${oos.totalTrades.toString().padStart(6)} | ` +
+      `${oos.winRate.toFixed(1).padStart(7)}% | ${oos.profitFactor.toFixed(2).padStart(4)} | ${('$' + oos.totalPnl.toFixed(2)).padStart(10)} | ${oos.efficiency.toFixed(2)}`
+    );
+  }
+
+  for (const r of results) {
+    console.log('-'.repeat(60));
+    console.log(`${r.symbol} parameter stability:`);
+    for (const [param, stability] of Object.entries(r.stability)) {
+      console.log(
+        `  ${param.padEnd(18)} most common ${String(stability.mostCommon).padEnd(12)} ` +
+        `${(stability.consistency * 100).toFixed(0).padStart(3)}% of folds, ${stability.changes} changes`
+      );
+    }
+  }
+  console.log('='.repeat(60) + '\n');
+}
+
+function reportMonteCarlo(
+  result: BacktestResult,
+  args: ReturnType<typeof parseArgs>
+): void {
+  if (!args.monteCarlo) return;
+
+  const mc = runMonteCarlo(result.trades, result.config.initialBalance, {
+    iterations: args.monteCarlo,
+    method: args.mcMethod,
+  });
+  printMonteCarloResults(mc);
+
+  if (args.mcJson) {
+    writeFileSync(args.mcJson, JSON.stringify(mc, null, 2));
+    console.log(`Monte Carlo results written to ${args.mcJson}\n`);
+  }
+}
+
+function printMonteCarloResults(mc: MonteCarloResult): void {
+  console.log('\n' + '='.repeat(60));
+  console.log(`MONTE CARLO (${mc.iterations} ${mc.method} paths, ${mc.tradeCount} trades)`);
+  console.log('='.repeat(60));
+  console.log('                      Actual |      5% |     50% |     95%');
+  const row = (label: string, actual: number, d: MonteCarloResult['finalBalance'], digits: number) =>
+    console.log(
+      `${label.padEnd(20)} ${actual.toFixed(digits).padStart(7)} | ${d.p5.toFixed(digits).padStart(7)} | ` +
+      `${d.p50.toFixed(digits).padStart(7)} | ${d.p95.toFixed(digits).padStart(7)}`
+    );
+  row('Final Balance ($)', mc.original.finalBalance, mc.finalBalance, 0);
+  row('Max Drawdown (%)', mc.original.maxDrawdownPercent, mc.maxDrawdownPercent, 2);
+  row('Losing Streak', mc.original.longestLosingStreak, mc.longestLosingStreak, 0);
+  console.log('-'.repeat(60));
+  console.log(`Probability of Profit: ${mc.probabilityOfProfit.toFixed(1)}%`);
+  console.log(`Risk of Ruin (${mc.ruinDrawdownPercent}% DD): ${mc.riskOfRuin.toFixed(1)}%`);
+  console.log('='.repeat(60) + '\n');
+}
+
+function printPortfolioResults(result: PortfolioBacktestResult): void {
+  console.log('\n' + '='.repeat(60));
+  console.log('PORTFOLIO RESULTS');
+  console.log('='.repeat(60));
+  console.log(`Total Trades:    ${result.metrics.totalTrades}`);
+  console.log(`Win Rate:        ${result.metrics.winRate.toFixed(2)}%`);
+  console.log(`Profit Factor:   ${result.metrics.profitFactor.toFixed(2)}`);
+  console.log(`Final Balance:   $${result.metrics.finalBalance.toFixed(2)}`);
+  console.log(`Total PnL:       $${result.metrics.totalPnl.toFixed(2)} (${result.metrics.totalPnlPercent.toFixed(2)}%)`);
+  console.log(`Max Drawdown:    ${result.metrics.maxDrawdownPercent.toFixed(2)}%`);
+  if (result.metrics.limitOrders) {
+    console.log(`Limit Fill Rate: ${result.metrics.limitOrders.fillRate.toFixed(1)}% of ${result.metrics.limitOrders.placed} orders`);
+  }
+  console.log('-'.repeat(60));
+  console.log('Symbol       | Trades | Win Rate |        PnL | Contribution');
+  for (const s of result.symbols) {
+    console.log(
+      `${s.symbol.padEnd(12)} | ${s.trades.toString().padStart(6)} | ${s.winRate.toFixed(1).padStart(7)}% | ${('$' + s.totalPnl.toFixed(2)).padStart(10)} | ${s.contributionPercent.toFixed(2).padStart(11)}%`
+    );
+  }
+  console.log('-'.repeat(60));
+  console.log('Daily return correlation:');
+  const { symbols, matrix } = result.correlation;
+  console.log(' '.repeat(12) + symbols.map((s) => s.slice(0, 8).padStart(9)).join(''));
+  matrix.forEach((row, i) => {
+    console.log(symbols[i].slice(0, 11).padEnd(12) + row.map((v) => v.toFixed(2).padStart(9)).join(''));
+  });
+  console.log('='.repeat(60) + '\n');
+}
+
 function calculatePips(trades: any[], symbol: string): number {
   const pipSize = symbol.includes('JPY') ? 0.01 : symbol.includes('XAU') ? 0.1 : symbol.includes('BTC') ? 1 : 0.0001;
 
@@ -379,14 +943,18 @@ function calculatePips(trades: any[], symbol: string): number {
   }, 0);
 }
 
-function formatSummary(result: BacktestResult, name: string): BacktestSummary {
+function formatSummary(
+  result: Pick<BacktestResult, 'metrics' | 'trades'>,
+  name: string,
+  symbol: string
+): BacktestSummary {
   return {
     name,
     trades: result.metrics.totalTrades,
     winRate: result.metrics.winRate,
     profitFactor: result.metrics.profitFactor,
     totalPnl: result.metrics.totalPnl,
-    totalPips: calculatePips(result.trades, result.config.symbol),
+    totalPips: calculatePips(aggregatePositionTrades(result.trades), symbol),
     maxDrawdown: result.metrics.maxDrawdownPercent,
     sharpeRatio: result.metrics.sharpeRatio,
     avgRR: result.metrics.averageRR,
@@ -509,46 +1077,104 @@ async function main(): Promise<void> {
 ╚════════════════════════════════════════════════════════════╝
 `);
 
+  const executionCosts = buildExecutionCosts(args);
+  const tradeManagement: Partial<ExtendedBacktestConfig> = {
+    tieredTP: args.tiered ? TIERED_TP_PROFILES[args.tiered] : undefined,
+    breakeven: args.breakevenR !== undefined
+      ? { enabled: true, triggerR: args.breakevenR, bufferPips: 5 }
+      : undefined,
+    limitEntry: args.limitPullbackR !== undefined
+      ? { enabled: true, pullbackR: args.limitPullbackR, expiryCandles: args.limitExpiry }
+      : undefined,
+    intrabarFallback: args.intrabar,
+  };
+  if (args.tiered && !tradeManagement.tieredTP) {
+    console.error(`Unknown tiered TP profile: ${args.tiered}`);
+    process.exit(1);
+  }
+
+  if (args.offline && args.syncSpecs) {
+    console.error('--sync-specs needs the broker connection and cannot be used with --offline');
+    process.exit(1);
+  }
+  offline = args.offline;
+
   try {
-    // Connect to MetaAPI
-    console.log('Connecting to MetaAPI...');
-    await metaApiClient.connectAccountOnly();
-    console.log('Connected successfully.\n');
+    if (offline) {
+      console.log('Offline: using cached candles only.\n');
+    } else {
+      // Connect to MetaAPI
+      console.log('Connecting to MetaAPI...');
+      if (args.syncSpecs) {
+        // Symbol specifications need the streaming connection
+        await metaApiClient.connect();
+      } else {
+        await metaApiClient.connectAccountOnly();
+      }
+      console.log('Connected successfully.\n');
+    }
+
+    // Real contract specs - the engine refuses symbols it has no spec for
+    const specSymbols = args.portfolio ?? [args.symbol];
+    if (args.syncSpecs) {
+      await symbolSpecStore.syncFromBroker(specSymbols, (symbol) => metaApiClient.getSymbolInfo(symbol));
+    } else {
+      try {
+        await symbolSpecStore.load(specSymbols);
+      } catch (error: any) {
+        console.warn(`Could not load symbol specs from database: ${error.message}`);
+      }
+    }
 
     const startDate = new Date(args.startDate);
     const endDate = new Date(args.endDate);
     const summaries: BacktestSummary[] = [];
 
-    if (args.compareAll || args.optimize) {
-      // Run all strategy variations
-      console.log(`Running ${STRATEGY_VARIATIONS.length} strategy variations...\n`);
-
-      for (let i = 0; i < STRATEGY_VARIATIONS.length; i++) {
-        const variation = STRATEGY_VARIATIONS[i];
-        console.log(`[${i + 1}/${STRATEGY_VARIATIONS.length}] Testing: ${variation.name}`);
-
-        try {
-          const result = await runSingleBacktest(
-            args.symbol,
-            args.strategy || 'ORDER_BLOCK',
-            startDate,
-            endDate,
-            args.balance,
-            args.risk,
-            variation.config,
-            args.verbose
-          );
+    if (args.walkForward) {
+      const symbols = args.portfolio ?? [args.symbol];
+      const results: WalkForwardResult[] = [];
+
+      for (const symbol of symbols) {
+        console.log(`Running walk-forward (${args.inSampleDays}d IS / ${args.outOfSampleDays}d OOS, ${args.search} search): ${symbol}`);
+        results.push(await runWalkForwardForSymbol(
+          symbol,
+          args.strategy || 'ORDER_BLOCK',
+          startDate,
+          endDate,
+          args.balance,
+          args.risk,
+          { executionCosts, breakeven: tradeManagement.breakeven },
+          args
+        ));
+      }
 
-          summaries.push(formatSummary(result, variation.name));
+      printWalkForwardResults(results);
 
-          console.log(`    Trades: ${result.metrics.totalTrades} | Win Rate: ${result.metrics.winRate.toFixed(1)}% | PnL: $${result.metrics.totalPnl.toFixed(2)}`);
-        } catch (error: any) {
-          console.log(`    Error: ${error.message}`);
-        }
+    } else if (args.portfolio) {
+      console.log(`Running portfolio backtest: ${args.portfolio.join(', ')}\n`);
 
-        // Small delay between backtests
-        await new Promise(resolve => setTimeout(resolve, 500));
-      }
+      const result = await runPortfolio(
+        args.portfolio,
+        args.strategy || 'ORDER_BLOCK',
+        startDate,
+        endDate,
+        args.balance,
+        args.risk,
+        { ...tradeManagement, executionCosts }
+      );
+
+      printPortfolioResults(result);
+      reportMonteCarlo(result, args);
+
+    } else if (args.compareAll || args.optimize) {
+      // Run all strategy variations in parallel
+      summaries.push(...await runVariationSweep(
+        STRATEGY_VARIATIONS,
+        startDate,
+        endDate,
+        { ...tradeManagement, executionCosts },
+        args
+      ));
 
       // Print comparison table
       printResultsTable(summaries);
@@ -569,7 +1195,7 @@ async function main(): Promise<void> {
         endDate,
         args.balance,
         args.risk,
-        {},
+        { ...tradeManagement, executionCosts, useTickData: args.ticks },
         args.verbose
       );
 
@@ -593,6 +1219,25 @@ async function main(): Promise<void> {
       console.log(`Total PnL:       $${result.metrics.totalPnl.toFixed(2)} (${result.metrics.totalPnlPercent.toFixed(2)}%)`);
       console.log(`Max Drawdown:    ${result.metrics.maxDrawdownPercent.toFixed(2)}%`);
       console.log(`Sharpe Ratio:    ${result.metrics.sharpeRatio.toFixed(2)}`);
+      if (result.metrics.intrabar && result.metrics.intrabar.ambiguousBars > 0) {
+        const intrabar = result.metrics.intrabar;
+        console.log(`Ambiguous Bars:  ${intrabar.ambiguousBars} (${intrabar.resolvedBars} resolved intrabar, ${intrabar.fallbackBars} by fallback)`);
+      }
+      if (result.metrics.limitOrders) {
+        const orders = result.metrics.limitOrders;
+        console.log('-'.repeat(60));
+        console.log(`Limit Orders:    ${orders.placed} placed, ${orders.filled} filled (${orders.fillRate.toFixed(1)}%)`);
+        console.log(`Cancelled:       ${orders.expired} expired, ${orders.invalidated} invalidated`);
+      }
+      if (executionCosts && result.metrics.costs) {
+        const costs = result.metrics.costs;
+        console.log('-'.repeat(60));
+        console.log(`Spread Cost:     $${costs.spread.toFixed(2)}`);
+        console.log(`Commission:      $${costs.commission.toFixed(2)}`);
+        console.log(`Slippage:        $${costs.slippage.toFixed(2)}`);
+        console.log(`Swap:            $${costs.swap.toFixed(2)}`);
+        console.log(`Total Costs:     $${costs.total.toFixed(2)}`);
+      }
       console.log('='.repeat(60) + '\n');
 
       // Print recent trades
@@ -603,10 +1248,12 @@ async function main(): Promise<void> {
         for (const trade of recentTrades) {
           const emoji = trade.isWinner ? '✓' : '✗';
           console.log(
-            `${emoji} ${trade.direction.padEnd(4)} | Entry: ${trade.entryPrice.toFixed(2)} | Exit: ${trade.exitPrice.toFixed(2)} | PnL: $${trade.pnl.toFixed(2)} | ${trade.exitReason}`
+            `${emoji} ${trade.direction.padEnd(4)} | Entry: ${trade.entryPrice.toFixed(2)} | Exit: ${trade.exitPrice.toFixed(2)} | PnL: $${trade.pnl.toFixed(2)} | ${trade.leg ?? trade.exitReason}`
           );
         }
       }
+
+      reportMonteCarlo(result, args);
     } else {
       // Default: run winning strategy configuration
       console.log('Running with optimal configuration...\n');
@@ -620,6 +1267,8 @@ async function main(): Promise<void> {
         useKillZones: true,
         killZones: ['LONDON_OPEN', 'NY_OPEN', 'LONDON_NY_OVERLAP'] as KillZoneType[],
         maxDailyDrawdownPercent: 6,
+        ...tradeManagement,
+        executionCosts,
       };
 
       const result = await runSingleBacktest(
@@ -633,8 +1282,9 @@ async function main(): Promise<void> {
         true
       );
 
-      summaries.push(formatSummary(result, 'Optimal Config'));
+      summaries.push(formatSummary(result, 'Optimal Config', result.config.symbol));
       printResultsTable(summaries);
+      reportMonteCarlo(result, args);
     }
 
   } catch (error: any) {
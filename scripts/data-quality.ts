@@ -0,0 +1,202 @@
+#!/usr/bin/env npx ts-node
+/**
+ * Candle Data Quality Tool
+ *
+ * Scan the candle cache for lost bars, impossible OHLC, spikes, duplicates and
+ * disagreement with M1, and optionally repair what it finds.
+ *
+ * Usage:
+ *   npx ts-node scripts/data-quality.ts
+ *   npx ts-node scripts/data-quality.ts --symbol XAUUSD.s --timeframe M15 --verbose
+ *   npx ts-node scripts/data-quality.ts --symbol XAUUSD.s --timeframe H1 --repair resample
+ */
+
+import { config } from 'dotenv';
+config(); // Load .env
+
+import { writeFileSync } from 'fs';
+import { dataQuality, DataQualityReport, RepairMode } from '../src/lib/history/quality';
+import { metaApiClient } from '../src/lib/metaapi/client';
+import { prisma } from '../src/lib/db';
+import { Timeframe, TIMEFRAME_MINUTES } from '../src/lib/types';
+
+function parseArgs(): {
+  symbol?: string;
+  timeframe?: Timeframe;
+  startDate?: string;
+  endDate?: string;
+  repair?: RepairMode;
+  spikeMultiplier?: number;
+  json?: string;
+  verbose: boolean;
+} {
+  const args = process.argv.slice(2);
+  const result: any = { verbose: false };
+
+  for (let i = 0; i < args.length; i++) {
+    switch (args[i]) {
+      case '--symbol':
+      case '-s':
+        result.symbol = args[++i];
+        break;
+      case '--timeframe':
+      case '-t':
+        result.timeframe = args[++i].toUpperCase();
+        if (!(result.timeframe in TIMEFRAME_MINUTES)) {
+          console.error(`Unknown timeframe: ${result.timeframe}`);
+          process.exit(1);
+        }
+        break;
+      case '--start':
+        result.startDate = args[++i];
+        break;
+      case '--end':
+        result.endDate = args[++i];
+        break;
+      case '--repair':
+        result.repair = args[++i];
+        if (result.repair !== 'refetch' && result.repair !== 'resample') {
+          console.error(`Unknown repair mode: ${result.repair} (use refetch or resample)`);
+          process.exit(1);
+        }
+        break;
+      case '--spike':
+        result.spikeMultiplier = parseFloat(args[++i]);
+        break;
+      case '--json':
+        result.json = args[++i];
+        break;
+      case '--verbose':
+      case '-v':
+        result.verbose = true;
+        break;
+      case '--help':
+      case '-h':
+        printHelp();
+        process.exit(0);
+    }
+  }
+
+  return result;
+}
+
+function printHelp(): void {
+  console.log(`
+Candle Data Quality Tool - MT5 API Trader
+=========================================
+
+Usage:
+  npx ts-node scripts/data-quality.ts [options]
+
+Options:
+  --symbol, -s <symbol>       Only this symbol (default: every cached symbol)
+  --timeframe, -t <tf>        Only this timeframe (default: every cached timeframe)
+  --start <date>              Check from this date (YYYY-MM-DD, default: all cached data)
+  --end <date>                Check up to this date (YYYY-MM-DD, default: now)
+  --spike <multiple>          Flag bars larger than this many median bar ranges (default: 10)
+  --repair <refetch|resample> Rewrite problem ranges from MetaAPI, or rebuild them from cached M1
+  --json <file>               Write the reports as JSON
+  --verbose, -v               List every issue
+  --help, -h                  Show this help
+
+Examples:
+  # Report on the whole cache
+  npx ts-node scripts/data-quality.ts
+
+  # Rebuild H1 bars that disagree with M1
+  npx ts-node scripts/data-quality.ts --symbol XAUUSD.s --timeframe H1 --repair resample
+
+  # Refetch lost M15 bars from the broker
+  npx ts-node scripts/data-quality.ts --symbol XAUUSD.s --timeframe M15 --repair refetch
+`);
+}
+
+function printReport(report: DataQualityReport, verbose: boolean): void {
+  const closures = report.gaps.filter((g) => g.kind !== 'missing');
+  const missing = report.gaps.filter((g) => g.kind === 'missing');
+  const range = report.from && report.to
+    ? `${report.from.toISOString().split('T')[0]} to ${report.to.toISOString().split('T')[0]}`
+    : 'no data';
+
+  console.log(`\n${report.symbol} ${report.timeframe} - ${report.candles} candles, ${range}`);
+  console.log(`  Gaps:            ${missing.length} lost data, ${closures.length} market closures`);
+  console.log(`  OHLC issues:     ${report.ohlcIssues.length}`);
+  console.log(`  Spikes:          ${report.spikes.length}`);
+  console.log(`  Duplicates:      ${report.duplicates.length} (${report.duplicates.filter((d) => d.conflicting).length} conflicting)`);
+  if (report.timeframe !== 'M1') {
+    console.log(`  M1 mismatches:   ${report.mismatches.length} of ${report.comparedBars} bars compared`);
+  }
+
+  if (!verbose) return;
+  for (const gap of missing) {
+    console.log(`    gap        ${gap.from.toISOString()} -> ${gap.to.toISOString()} (${gap.missingBars} bars)`);
+  }
+  for (const issue of report.ohlcIssues) {
+    console.log(`    ohlc       ${issue.time.toISOString()} ${issue.problem}`);
+  }
+  for (const spike of report.spikes) {
+    console.log(`    spike      ${spike.time.toISOString()} ${spike.kind} ${spike.size.toFixed(5)} (median range ${spike.medianRange.toFixed(5)})`);
+  }
+  for (const dup of report.duplicates) {
+    console.log(`    duplicate  ${dup.time.toISOString()} after ${dup.previousTime.toISOString()}${dup.conflicting ? ' (conflicting)' : ''}`);
+  }
+  for (const mismatch of report.mismatches) {
+    console.log(`    mismatch   ${mismatch.time.toISOString()} ${mismatch.field} ${mismatch.value} vs M1 ${mismatch.expected}`);
+  }
+}
+
+async function main(): Promise<void> {
+  const args = parseArgs();
+  const startDate = args.startDate ? new Date(args.startDate) : undefined;
+  const endDate = args.endDate ? new Date(args.endDate) : undefined;
+
+  const series = (await dataQuality.getCachedSeries()).filter(
+    (s) => (!args.symbol || s.symbol === args.symbol) && (!args.timeframe || s.timeframe === args.timeframe)
+  );
+  if (series.length === 0) {
+    console.log('No cached candles match.');
+    return;
+  }
+
+  if (args.repair === 'refetch') {
+    console.log('Connecting to MetaAPI...');
+    await metaApiClient.connectAccountOnly();
+  }
+
+  const reports: DataQualityReport[] = [];
+  for (const { symbol, timeframe } of series) {
+    const report = await dataQuality.scan(symbol, timeframe, startDate, endDate, {
+      spikeMultiplier: args.spikeMultiplier,
+    });
+    reports.push(report);
+    printReport(report, args.verbose);
+
+    if (args.repair && report.issueCount > 0) {
+      if (args.repair === 'resample' && timeframe === 'M1') {
+        console.log('  Repair: skipped (M1 is the resampling source)');
+        continue;
+      }
+      const result = await dataQuality.repair(
+        report,
+        args.repair,
+        (sym, tf, start, end) => metaApiClient.getHistoricalCandles(sym, tf, start, end)
+      );
+      console.log(`  Repair: ${result.repaired}/${result.ranges} ranges rewritten, ${result.candlesWritten} candles`);
+    }
+  }
+
+  const totalIssues = reports.reduce((sum, r) => sum + r.issueCount, 0);
+  console.log(`\n${reports.length} series checked, ${totalIssues} issues`);
+
+  if (args.json) {
+    writeFileSync(args.json, JSON.stringify(reports, null, 2));
+    console.log(`Reports written to ${args.json}`);
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error('Data quality check failed:', error.message);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
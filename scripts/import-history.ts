@@ -0,0 +1,156 @@
+#!/usr/bin/env npx ts-node
+/**
+ * History Import Tool
+ *
+ * Load MT5 and Dukascopy history exports into the candle cache (every timeframe) and
+ * the tick store, for backtests with --offline.
+ *
+ * Usage:
+ *   npx ts-node scripts/import-history.ts --symbol XAUUSD.s exports/XAUUSD.s_M1_201901020100_202412312358.csv
+ *   npx ts-node scripts/import-history.ts --symbol EURUSD --format dukascopy-bi5 datafeed/EURUSD/2023
+ */
+
+import { config } from 'dotenv';
+config(); // Load .env
+
+import { historyImporter, HistoryFormat, ImportOptions } from '../src/lib/history/importer';
+import { SourceTimezone } from '../src/lib/history/parsers';
+import { prisma } from '../src/lib/db';
+import { Timeframe, TIMEFRAME_MINUTES } from '../src/lib/types';
+
+const FORMATS: HistoryFormat[] = ['mt5-bars', 'mt5-ticks', 'dukascopy-bars', 'dukascopy-ticks', 'dukascopy-bi5'];
+
+function parseTimezone(value: string): SourceTimezone {
+  const upper = value.toUpperCase();
+  if (upper === 'UTC' || upper === 'NY_CLOSE') return upper;
+  const minutes = parseInt(value, 10);
+  if (isNaN(minutes)) {
+    console.error(`Unknown timezone: ${value} (use UTC, NY_CLOSE or minutes east of UTC)`);
+    process.exit(1);
+  }
+  return minutes;
+}
+
+function parseTimeframe(value: string): Timeframe {
+  const timeframe = value.toUpperCase() as Timeframe;
+  if (!(timeframe in TIMEFRAME_MINUTES)) {
+    console.error(`Unknown timeframe: ${value}`);
+    process.exit(1);
+  }
+  return timeframe;
+}
+
+function parseArgs(): ImportOptions & { paths: string[] } {
+  const args = process.argv.slice(2);
+  const result: ImportOptions & { paths: string[] } = { symbol: '', paths: [] };
+
+  for (let i = 0; i < args.length; i++) {
+    switch (args[i]) {
+      case '--symbol':
+      case '-s':
+        result.symbol = args[++i];
+        break;
+      case '--format':
+        result.format = args[++i] as HistoryFormat;
+        if (!FORMATS.includes(result.format)) {
+          console.error(`Unknown format: ${result.format}`);
+          process.exit(1);
+        }
+        break;
+      case '--timeframe':
+        result.timeframe = parseTimeframe(args[++i]);
+        break;
+      case '--tz':
+        result.timezone = parseTimezone(args[++i]);
+        break;
+      case '--align':
+        result.alignment = parseTimezone(args[++i]);
+        break;
+      case '--point':
+        result.pointFactor = parseFloat(args[++i]);
+        break;
+      case '--timeframes':
+        result.timeframes = args[++i].split(',').map((tf) => parseTimeframe(tf.trim()));
+        break;
+      case '--dry-run':
+        result.dryRun = true;
+        break;
+      case '--help':
+      case '-h':
+        printHelp();
+        process.exit(0);
+      default:
+        result.paths.push(args[i]);
+    }
+  }
+
+  return result;
+}
+
+function printHelp(): void {
+  console.log(`
+History Import Tool - MT5 API Trader
+====================================
+
+Usage:
+  npx ts-node scripts/import-history.ts --symbol <symbol> [options] <files or directories...>
+
+Options:
+  --symbol, -s <symbol>     Symbol to store the data under (required, e.g. XAUUSD.s)
+  --format <format>         ${FORMATS.join(', ')} (default: detected)
+  --timeframe <tf>          Timeframe of bar files (default: from the file name, e.g. _M1_)
+  --tz <zone>               Timezone of the file timestamps: UTC, NY_CLOSE or minutes east of UTC
+                            (default: NY_CLOSE for MT5 exports, UTC for Dukascopy)
+  --align <zone>            Timezone H4/D1/W1 bars open on, i.e. the broker's server time (default: NY_CLOSE)
+  --point <factor>          Dukascopy bi5 points per price unit (default: 1000 for JPY/XAU/XAG, else 100000)
+  --timeframes <list>       Comma-separated timeframes to store (default: source timeframe and above)
+  --dry-run                 Parse and report gaps without writing to the database
+  --help, -h                Show this help
+
+Examples:
+  # MT5 "Export bars" M1 file (server time, resampled to M5..W1)
+  npx ts-node scripts/import-history.ts --symbol XAUUSD.s XAUUSD.s_M1_201901020100_202412312358.csv
+
+  # MT5 tick export into the tick store and M1..W1 candles
+  npx ts-node scripts/import-history.ts --symbol XAUUSD.s XAUUSD.s_202401020100_202401312358.csv
+
+  # Dukascopy datafeed tree of hourly tick files
+  npx ts-node scripts/import-history.ts --symbol EURUSD --format dukascopy-bi5 datafeed/EURUSD/2023
+`);
+}
+
+async function main(): Promise<void> {
+  const { paths, ...options } = parseArgs();
+  if (!options.symbol || paths.length === 0) {
+    printHelp();
+    process.exit(1);
+  }
+
+  const summary = await historyImporter.importFiles(paths, options);
+
+  console.log(`\nImported ${summary.files} ${summary.format} file(s) for ${summary.symbol}${options.dryRun ? ' (dry run)' : ''}`);
+  console.log(`  Range:   ${summary.from?.toISOString() ?? '-'} to ${summary.to?.toISOString() ?? '-'}`);
+  if (summary.ticks > 0) {
+    console.log(`  Ticks:   ${summary.ticks}`);
+  }
+  for (const [timeframe, count] of Object.entries(summary.candles)) {
+    console.log(`  ${timeframe.padEnd(8)} ${count} candles`);
+  }
+
+  if (summary.gaps.length > 0) {
+    console.log(`\n${summary.gaps.length} gap(s) outside weekends:`);
+    for (const gap of summary.gaps.slice(0, 20)) {
+      console.log(`  ${gap.from.toISOString()} -> ${gap.to.toISOString()} (${gap.missingBars} bars)`);
+    }
+    if (summary.gaps.length > 20) {
+      console.log(`  ... and ${summary.gaps.length - 20} more`);
+    }
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error('Import failed:', error.message);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,195 @@
+#!/usr/bin/env npx ts-node
+/**
+ * Paper Trading Tool
+ *
+ * Run the full trading bot against a simulated broker that replays cached candles
+ * (or stored ticks) - no MetaAPI connection. The bot still writes signals, trades and
+ * state through Prisma, so the script refuses to run until PAPER_DATABASE_URL names a
+ * scratch database other than DATABASE_URL, and then uses it for everything: fill its
+ * candle cache (or tick store) first. Leave the Telegram variables unset unless you
+ * want the notifications.
+ *
+ * This is the only paper mode: the bot's liveTrading flag does not stop orders reaching
+ * the broker account.
+ *
+ * Usage:
+ *   npx ts-node scripts/paper-trade.ts --symbols XAUUSD.s --start 2024-03-04 --end 2024-03-08
+ *   npx ts-node scripts/paper-trade.ts --symbols XAUUSD.s,BTCUSD --start 2024-03-04 --days 1 --speed 3600
+ */
+
+import { config } from 'dotenv';
+config(); // Load .env
+
+// Must run before the Prisma client is created by the imports below
+const paperDatabaseUrl = process.env.PAPER_DATABASE_URL;
+if (!paperDatabaseUrl || paperDatabaseUrl === process.env.DATABASE_URL) {
+  console.error('Paper trading writes signals, trades and bot state: set PAPER_DATABASE_URL to a scratch database other than DATABASE_URL');
+  process.exit(1);
+}
+process.env.DATABASE_URL = paperDatabaseUrl;
+
+import { TradingBot } from '../src/services/bot';
+import { SimulatedBroker } from '../src/lib/broker/simulated';
+import { candleCache } from '../src/lib/cache/candle-cache';
+import { tickStore } from '../src/lib/cache/tick-store';
+import { prisma } from '../src/lib/db';
+import { getSymbolTimeframes, DEFAULT_LIVE_CONFIG } from '../src/lib/strategies/strategy-profiles';
+import { Timeframe } from '../src/lib/types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function parseArgs(): {
+  symbols: string[];
+  startDate?: string;
+  endDate?: string;
+  days: number;
+  warmupDays: number;
+  speed?: number;
+  balance: number;
+  riskPercent?: number;
+  ticks: boolean;
+} {
+  const args = process.argv.slice(2);
+  const result: any = { symbols: ['XAUUSD.s'], days: 5, warmupDays: 14, balance: 10000, ticks: false };
+
+  for (let i = 0; i < args.length; i++) {
+    switch (args[i]) {
+      case '--symbols':
+      case '-s':
+        result.symbols = args[++i].split(',').map((s) => s.trim()).filter(Boolean);
+        break;
+      case '--start':
+        result.startDate = args[++i];
+        break;
+      case '--end':
+        result.endDate = args[++i];
+        break;
+      case '--days':
+      case '-d':
+        result.days = parseInt(args[++i], 10);
+        break;
+      case '--warmup':
+        result.warmupDays = parseInt(args[++i], 10);
+        break;
+      case '--speed':
+        result.speed = parseFloat(args[++i]);
+        break;
+      case '--balance':
+      case '-b':
+        result.balance = parseFloat(args[++i]);
+        break;
+      case '--risk':
+        result.riskPercent = parseFloat(args[++i]);
+        break;
+      case '--ticks':
+        result.ticks = true;
+        break;
+      case '--help':
+      case '-h':
+        printHelp();
+        process.exit(0);
+    }
+  }
+
+  return result;
+}
+
+function printHelp(): void {
+  console.log(`
+Paper Trading Tool - MT5 API Trader
+===================================
+
+Usage:
+  npx ts-node scripts/paper-trade.ts --start <date> [options]
+
+Options:
+  --symbols, -s <list>    Comma-separated symbols (default: XAUUSD.s)
+  --start <date>          Replay from this date (YYYY-MM-DD, required)
+  --end <date>            Replay up to this date (YYYY-MM-DD, default: start + --days)
+  --days, -d <n>          Days to replay when --end is not given (default: 5)
+  --warmup <days>         Cached history loaded before the start for analysis (default: 14)
+  --speed <x>             Simulated time per wall-clock time, e.g. 3600 = 1h/s (default: max)
+  --balance, -b <amount>  Starting balance (default: 10000)
+  --risk <percent>        Risk per trade (default: bot config)
+  --ticks                 Replay stored ticks instead of M1 candles
+  --help, -h              Show this help
+
+Reads history from and writes signals, trades and bot state to PAPER_DATABASE_URL,
+which must be set and differ from DATABASE_URL.
+Telegram notifications are sent if the Telegram variables are set.
+
+Examples:
+  # Replay a week of gold as fast as possible
+  npx ts-node scripts/paper-trade.ts --symbols XAUUSD.s --start 2024-03-04 --end 2024-03-09
+
+  # Watch one day at an hour per second, on ticks
+  npx ts-node scripts/paper-trade.ts --start 2024-03-04 --days 1 --speed 3600 --ticks
+`);
+}
+
+async function main(): Promise<void> {
+  const args = parseArgs();
+  if (!args.startDate) {
+    printHelp();
+    process.exitCode = 1;
+    return;
+  }
+
+  const startTime = new Date(args.startDate);
+  const endTime = args.endDate ? new Date(args.endDate) : new Date(startTime.getTime() + args.days * DAY_MS);
+  const warmupStart = new Date(startTime.getTime() - args.warmupDays * DAY_MS);
+
+  const broker = new SimulatedBroker({ startTime, endTime, balance: args.balance });
+
+  for (const symbol of args.symbols) {
+    const tfs = getSymbolTimeframes(DEFAULT_LIVE_CONFIG, symbol);
+    const timeframes = Array.from(new Set<Timeframe>([tfs.htf, tfs.mtf, tfs.ltf, 'M1']));
+    for (const timeframe of timeframes) {
+      const candles = await candleCache.getCachedCandles(symbol, timeframe, warmupStart, endTime);
+      console.log(`${symbol} ${timeframe}: ${candles.length} cached candles`);
+      broker.loadCandles(symbol, candles);
+    }
+
+    if (args.ticks) {
+      // A day before the start seeds the opening price
+      const ticks = await tickStore.getTicks(symbol, new Date(startTime.getTime() - DAY_MS), endTime);
+      console.log(`${symbol}: ${ticks.length} stored ticks`);
+      broker.loadTicks(symbol, ticks);
+    }
+  }
+
+  const bot = TradingBot.create(
+    { symbols: args.symbols, ...(args.riskPercent !== undefined && { riskPercent: args.riskPercent }) },
+    broker
+  );
+
+  console.log(`\nPaper trading ${args.symbols.join(', ')} from ${startTime.toISOString()} to ${endTime.toISOString()}`);
+  await bot.start();
+
+  const stop = () => broker.stop();
+  process.once('SIGINT', stop);
+  const steps = await broker.run({ speed: args.speed });
+  process.off('SIGINT', stop);
+
+  await bot.stop();
+  await broker.disconnect();
+
+  const account = await broker.getAccountInfo();
+  const summary = await broker.getAccountDealsSummary();
+  const trades = (await broker.getHistoricalDeals()).filter((d) => d.entryType === 'DEAL_ENTRY_IN').length;
+
+  console.log(`\n${'='.repeat(50)}`);
+  console.log(`Replayed ${steps} prices up to ${broker.now().toISOString()}`);
+  console.log(`Trades opened:   ${trades}`);
+  console.log(`Open positions:  ${(await broker.getPositions()).length}`);
+  console.log(`Trading profit:  ${summary.tradingProfit.toFixed(2)} ${account.currency}`);
+  console.log(`Commission/swap: ${summary.totalCommission.toFixed(2)} / ${summary.totalSwap.toFixed(2)}`);
+  console.log(`Balance:         ${account.balance.toFixed(2)} (equity ${account.equity.toFixed(2)})`);
+}
+
+main()
+  .catch((error) => {
+    console.error('Paper trading failed:', error.message);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { backtestStore } from '@/lib/backtest/backtest-store';
+import { buildTradeReplay } from '@/lib/backtest/replay';
+import { activeBroker } from '@/lib/broker/active';
+import { Timeframe } from '@/lib/types';
+
+export const dynamic = 'force-dynamic';
+
+// History loaded before the signal so the HTF window (100 H4 candles) is full across weekends
+const LOOKBACK_MS = 30 * 24 * 60 * 60 * 1000;
+const LTF_MS = 15 * 60 * 1000;
+const MAX_BARS = 200;
+
+/** Bar count query param: the default when absent, null when not a non-negative integer */
+function barCount(value: string | null, fallback: number): number | null {
+  if (value === null || value === '') return fallback;
+  if (!/^\d+$/.test(value)) return null;
+  return Math.min(parseInt(value, 10), MAX_BARS);
+}
+
+/**
+ * GET /api/backtest/replay
+ *
+ * Candle-by-candle replay of a stored backtest trade with the order blocks, FVGs,
+ * liquidity zones and premium/discount levels active on each candle
+ *
+ * Query params:
+ * - tradeId: Trade id from GET /api/backtest?id=...
+ * - before: LTF candles before the signal (default 20, max 200)
+ * - after: LTF candles after the exit (default 5, max 200)
+ *
+ * Replays are capped at 1000 frames - a longer trade is cut off and flagged `truncated`.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const tradeId = searchParams.get('tradeId');
+    if (!tradeId) {
+      return NextResponse.json({ error: 'Missing tradeId' }, { status: 400 });
+    }
+    const barsBefore = barCount(searchParams.get('before'), 20);
+    const barsAfter = barCount(searchParams.get('after'), 5);
+    if (barsBefore === null || barsAfter === null) {
+      return NextResponse.json({ error: 'before and after must be non-negative integers' }, { status: 400 });
+    }
+
+    const stored = await backtestStore.getTrade(tradeId);
+    if (!stored) {
+      return NextResponse.json({ error: `Backtest trade not found: ${tradeId}` }, { status: 404 });
+    }
+    const { trade } = stored;
+
+    const signalTime = trade.snapshot?.time ?? trade.entryTime;
+    const startDate = new Date(signalTime.getTime() - LOOKBACK_MS - barsBefore * LTF_MS);
+    const endDate = new Date(trade.exitTime.getTime() + (barsAfter + 1) * LTF_MS);
+
+    await activeBroker.connectAccountOnly();
+    const htfCandles = await activeBroker.getHistoricalCandlesCached(trade.symbol, 'H4' as Timeframe, startDate, endDate);
+    const mtfCandles = await activeBroker.getHistoricalCandlesCached(trade.symbol, 'H1' as Timeframe, startDate, endDate);
+    const ltfCandles = await activeBroker.getHistoricalCandlesCached(trade.symbol, 'M15' as Timeframe, startDate, endDate);
+
+    const replay = buildTradeReplay(trade, { htfCandles, mtfCandles, ltfCandles }, { barsBefore, barsAfter });
+
+    return NextResponse.json({
+      backtestId: stored.backtestId,
+      strategy: stored.config?.strategy ?? null,
+      hasSnapshot: trade.snapshot !== undefined,
+      replay: {
+        ...replay,
+        // The snapshot's analysis is already in the signal frame
+        trade: { ...replay.trade, snapshot: undefined },
+      },
+    });
+  } catch (error) {
+    console.error('Error building trade replay:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to build trade replay' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,187 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { backtestStore } from '@/lib/backtest/backtest-store';
+import { parseBacktestOptions } from '@/lib/backtest/config-options';
+import { strategies } from '@/lib/strategies';
+import { STRATEGY_PROFILES, getProfileBacktestOptions } from '@/lib/strategies/strategy-profiles';
+import { BacktestConfig, StrategyType, TIERED_TP_PROFILES } from '@/lib/types';
+import { backtestJobs } from '@/services/backtest-jobs';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/backtest
+ *
+ * Stored backtest runs
+ *
+ * Query params:
+ * - id: Full result for one run (trades, equity and drawdown curves)
+ * - ids: Comma-separated run ids to compare (metrics and equity curves)
+ * - symbol, strategy: Filter the list
+ * - limit, offset: Paging (default 20, max 100)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const id = searchParams.get('id');
+    const ids = searchParams.get('ids');
+
+    if (id) {
+      const run = await backtestStore.get(id);
+      if (!run) {
+        return NextResponse.json({ error: `Backtest not found: ${id}` }, { status: 404 });
+      }
+      return NextResponse.json({ run });
+    }
+
+    if (ids) {
+      const runs = await backtestStore.compare(ids.split(',').map((s) => s.trim()).filter(Boolean));
+      return NextResponse.json({ runs });
+    }
+
+    const { runs, total } = await backtestStore.list({
+      symbol: searchParams.get('symbol') || undefined,
+      strategy: searchParams.get('strategy') || undefined,
+      limit: Math.min(parseInt(searchParams.get('limit') || '20', 10), 100),
+      offset: parseInt(searchParams.get('offset') || '0', 10),
+    });
+
+    return NextResponse.json({ runs, total, active: backtestJobs.getActive() ?? null });
+  } catch (error) {
+    console.error('Error fetching backtests:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch backtests' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/backtest
+ *
+ * Start a backtest job - poll GET /api/backtest/status?jobId=... for progress
+ *
+ * Body:
+ * - symbol, startDate, endDate: Required
+ * - profile: (optional) STRATEGY_PROFILES id - its settings are the defaults for everything below
+ * - strategy: Strategy to test (default: profile strategy or ORDER_BLOCK)
+ * - initialBalance: Default 10000
+ * - riskPercent: Percent of balance risked per trade, up to 100 (default: profile risk or 2)
+ * - tieredTP: (optional) Tiered TP profile name
+ * - captureSnapshots: Keep the analysis behind each entry for GET /api/backtest/replay
+ * - useTickData: Simulate on stored ticks (fetched and stored on first use), with candles built from them
+ * - sizing: Position sizing mode (default: profile sizing or fixed riskPercent), symbolSizing: per-symbol overrides
+ * - Other BacktestConfig options (kill zones, RR mode, execution costs, breakeven, limit entries...)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { symbol, startDate, endDate, tieredTP, profile: profileId } = body;
+
+    if (!symbol || !startDate || !endDate) {
+      return NextResponse.json(
+        { error: 'Missing required fields: symbol, startDate, endDate' },
+        { status: 400 }
+      );
+    }
+
+    const profile = profileId ? STRATEGY_PROFILES[profileId] : undefined;
+    if (profileId && !profile) {
+      return NextResponse.json(
+        { error: `Unknown strategy profile: ${profileId}` },
+        { status: 400 }
+      );
+    }
+    const profileOptions = profile ? getProfileBacktestOptions(profile) : {};
+    const strategy = body.strategy ?? profileOptions.strategy ?? 'ORDER_BLOCK';
+
+    if (!strategies.has(strategy as StrategyType)) {
+      return NextResponse.json(
+        { error: `Unknown strategy: ${strategy}` },
+        { status: 400 }
+      );
+    }
+
+    const start = new Date(startDate);
+    const end = new Date(endDate);
+    if (isNaN(start.getTime()) || isNaN(end.getTime()) || start >= end) {
+      return NextResponse.json(
+        { error: 'startDate and endDate must be valid dates with startDate before endDate' },
+        { status: 400 }
+      );
+    }
+
+    if (tieredTP && !TIERED_TP_PROFILES[tieredTP]) {
+      return NextResponse.json(
+        { error: `Unknown tiered TP profile: ${tieredTP}` },
+        { status: 400 }
+      );
+    }
+
+    const { options, errors } = parseBacktestOptions(body);
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: 'Invalid backtest options', details: errors },
+        { status: 400 }
+      );
+    }
+
+    const config: BacktestConfig = {
+      ...profileOptions,
+      strategy,
+      symbol,
+      startDate: start,
+      endDate: end,
+      initialBalance: 10000,
+      riskPercent: profileOptions.riskPercent ?? 2,
+      useTickData: body.useTickData === true,
+      tieredTP: tieredTP ? TIERED_TP_PROFILES[tieredTP] : profileOptions.tieredTP,
+      ...options,
+    };
+
+    const active = backtestJobs.getActive();
+    if (active) {
+      return NextResponse.json(
+        { error: 'A backtest is already running', jobId: active.id },
+        { status: 409 }
+      );
+    }
+
+    const job = backtestJobs.start(config);
+    return NextResponse.json(
+      { success: true, jobId: job.id, status: job.status },
+      { status: 202 }
+    );
+  } catch (error) {
+    console.error('Error starting backtest:', error);
+    return NextResponse.json(
+      { error: 'Failed to start backtest' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/backtest?id=...
+ *
+ * Delete a stored run and its trades
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const id = request.nextUrl.searchParams.get('id');
+    if (!id) {
+      return NextResponse.json({ error: 'Missing id' }, { status: 400 });
+    }
+
+    const deleted = await backtestStore.delete(id);
+    if (!deleted) {
+      return NextResponse.json({ error: `Backtest not found: ${id}` }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting backtest:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete backtest' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { backtestJobs } from '@/services/backtest-jobs';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/backtest/status
+ *
+ * Progress of backtest jobs started through POST /api/backtest
+ *
+ * Query params:
+ * - jobId: One job (status, BacktestProgress, error); without it all recent jobs
+ *
+ * A COMPLETED job's results are at GET /api/backtest?id=<jobId>
+ */
+export async function GET(request: NextRequest) {
+  const jobId = request.nextUrl.searchParams.get('jobId');
+
+  if (jobId) {
+    const job = backtestJobs.get(jobId);
+    if (!job) {
+      return NextResponse.json({ error: `Backtest job not found: ${jobId}` }, { status: 404 });
+    }
+    return NextResponse.json({ job });
+  }
+
+  return NextResponse.json({ jobs: backtestJobs.list() });
+}
@@ -1,24 +1,58 @@
 import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/db';
+import { DEFAULT_BOT_CONFIG, EquityCircuitBreakerConfig } from '@/lib/types';
+import { equityDrawdowns } from '@/lib/risk/equity-circuit-breaker';
 
 export const dynamic = 'force-dynamic';
 
 /**
- * Returns the persisted bot and telegram listener state from DB.
- * Used by server.mjs auto-start to check what was running before shutdown.
+ * Returns the persisted bot, circuit breaker and telegram listener state from DB.
+ * Used by server.mjs auto-start to check what was running before shutdown,
+ * and by the dashboard to show drawdown locks.
  */
 export async function GET() {
   try {
-    const [botState, listenerState] = await Promise.all([
+    const [botState, listenerState, breakerState] = await Promise.all([
       prisma.botState.findUnique({ where: { id: 'singleton' } }),
       prisma.telegramListenerState.findUnique({ where: { id: 'singleton' } }),
+      prisma.circuitBreakerState.findUnique({ where: { id: 'singleton' } }),
     ]);
 
+    let limits: EquityCircuitBreakerConfig = DEFAULT_BOT_CONFIG.circuitBreaker!;
+    if (botState?.config) {
+      try {
+        limits = JSON.parse(botState.config).circuitBreaker ?? limits;
+      } catch {
+        // Keep defaults for an unreadable config
+      }
+    }
+
     return NextResponse.json({
       wasRunning: botState?.isRunning ?? false,
       startedAt: botState?.startedAt ?? null,
       lastHeartbeat: botState?.lastHeartbeat ?? null,
       telegramWasListening: listenerState?.isListening ?? false,
+      circuitBreaker: breakerState
+        ? {
+            // A daily or weekly lock lapses at period end even before the bot sees the next update
+            isLocked:
+              breakerState.isLocked && (!breakerState.lockedUntil || breakerState.lockedUntil > new Date()),
+            lockType: breakerState.lockType,
+            lockReason: breakerState.lockReason,
+            lockedAt: breakerState.lockedAt,
+            lockedUntil: breakerState.lockedUntil,
+            equity: breakerState.lastEquity,
+            peakEquity: breakerState.peakEquity,
+            drawdowns: equityDrawdowns(breakerState),
+            limits: {
+              enabled: limits.enabled,
+              daily: limits.maxDailyDrawdownPercent,
+              weekly: limits.maxWeeklyDrawdownPercent,
+              trailing: limits.maxTrailingDrawdownPercent,
+            },
+            updatedAt: breakerState.updatedAt,
+          }
+        : null,
     });
   } catch (error) {
     console.error('Bot state API error:', error);
@@ -86,6 +86,10 @@ export async function POST(request: NextRequest) {
           config: tradingBot.getStatus().config,
         });
 
+      case 'resetCircuitBreaker':
+        await tradingBot.resetCircuitBreaker();
+        return NextResponse.json({ message: 'Circuit breaker reset' });
+
       default:
         return NextResponse.json(
           { error: 'Invalid action' },
@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { metaApiClient } from '@/lib/metaapi/client';
+import { activeBroker } from '@/lib/broker/active';
 import { Timeframe } from '@/lib/types';
 
 export const dynamic = 'force-dynamic';
@@ -51,10 +51,10 @@ export async function GET(request: NextRequest) {
   const start = new Date(startDate);
   const end = new Date(endDate);
 
-  // 1. Try MetaAPI first
+  // 1. Try the broker first
   try {
-    await metaApiClient.connectAccountOnly();
-    const candles = await metaApiClient.getHistoricalCandles(symbol, timeframe, start, end);
+    await activeBroker.connectAccountOnly();
+    const candles = await activeBroker.getHistoricalCandles(symbol, timeframe, start, end);
 
     if (candles.length > 0) {
       return NextResponse.json({
@@ -62,7 +62,7 @@ export async function GET(request: NextRequest) {
         startDate: start.toISOString(),
         endDate: end.toISOString(),
         count: candles.length,
-        source: 'metaapi',
+        source: 'broker',
         candles: candles.map((c) => ({
           time: c.time.toISOString(),
           open: c.open, high: c.high, low: c.low, close: c.close, volume: c.volume,
@@ -70,7 +70,7 @@ export async function GET(request: NextRequest) {
       } satisfies CandleResponse);
     }
   } catch (error: any) {
-    console.warn('[Candles] MetaAPI failed, trying fallback:', error.message);
+    console.warn('[Candles] Broker failed, trying fallback:', error.message);
   }
 
   // 2. Fallback: Binance for crypto symbols
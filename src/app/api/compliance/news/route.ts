@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+
+export const dynamic = 'force-dynamic';
+
+const IMPACTS = ['HIGH', 'MEDIUM', 'LOW'];
+
+/**
+ * GET /api/compliance/news?days=7 — upcoming economic releases
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const days = parseInt(request.nextUrl.searchParams.get('days') || '7', 10);
+    const now = new Date();
+    const events = await prisma.economicEvent.findMany({
+      where: { time: { gte: now, lte: new Date(now.getTime() + days * 24 * 60 * 60 * 1000) } },
+      orderBy: { time: 'asc' },
+    });
+    return NextResponse.json({ events });
+  } catch (error) {
+    console.error('Error fetching economic events:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch economic events' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/compliance/news — import economic releases for news-trading bans
+ * Body: { events: [{ time: ISO string, currency: 'USD', impact: 'HIGH' | 'MEDIUM' | 'LOW', title: string }] }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const events: any[] = Array.isArray(body?.events) ? body.events : [];
+
+    const valid = events.filter(
+      (e) =>
+        typeof e?.title === 'string' &&
+        typeof e?.currency === 'string' &&
+        IMPACTS.includes(e?.impact) &&
+        !isNaN(new Date(e?.time).getTime())
+    );
+    if (valid.length === 0) {
+      return NextResponse.json(
+        { error: 'No valid events. Expected { events: [{ time, currency, impact, title }] }' },
+        { status: 400 }
+      );
+    }
+
+    for (const e of valid) {
+      const data = {
+        time: new Date(e.time),
+        currency: e.currency.toUpperCase(),
+        impact: e.impact,
+        title: e.title,
+      };
+      await prisma.economicEvent.upsert({
+        where: { time_currency_title: { time: data.time, currency: data.currency, title: data.title } },
+        update: { impact: data.impact },
+        create: data,
+      });
+    }
+
+    return NextResponse.json({ success: true, imported: valid.length, skipped: events.length - valid.length });
+  } catch (error) {
+    console.error('Error importing economic events:', error);
+    return NextResponse.json(
+      { error: 'Failed to import economic events' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { tradingBot } from '@/services/bot';
+import { propFirmRules } from '@/lib/risk/prop-firm-rules';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/compliance — headroom against each prop-firm challenge rule
+ */
+export async function GET() {
+  try {
+    const config = await propFirmRules.loadConfig();
+    if (!config.enabled) {
+      return NextResponse.json({ enabled: false, preset: config.preset, rules: [] });
+    }
+
+    // Rules are measured against the live account, which needs the bot's broker connection
+    if (!tradingBot.getStatus().isRunning) {
+      return NextResponse.json({ enabled: true, preset: config.preset, isRunning: false, rules: [] });
+    }
+
+    const compliance = await tradingBot.getCompliance();
+    return NextResponse.json({
+      enabled: true,
+      preset: config.preset,
+      isRunning: true,
+      rules: compliance.rules,
+    });
+  } catch (error) {
+    console.error('Compliance API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to evaluate prop-firm rules' },
+      { status: 500 }
+    );
+  }
+}
@@ -26,7 +26,12 @@ export async function GET(request: NextRequest) {
       take: limit,
     });
 
-    return NextResponse.json({ signals });
+    return NextResponse.json({
+      signals: signals.map((signal) => ({
+        ...signal,
+        rejection: signal.rejection ? JSON.parse(signal.rejection) : null,
+      })),
+    });
   } catch (error) {
     console.error('Signals API error:', error);
     return NextResponse.json(
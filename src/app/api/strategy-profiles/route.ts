@@ -14,6 +14,7 @@ import {
 } from '@/lib/strategies/strategy-profiles';
 import { tradingBot } from '@/services/bot';
 import { prisma } from '@/lib/db';
+import { DEFAULT_BOT_CONFIG } from '@/lib/types';
 
 export const dynamic = 'force-dynamic';
 
@@ -146,6 +147,7 @@ export async function POST(request: NextRequest) {
       confirmationType: profile.confirmationType,
       maxDailyDrawdown: profile.maxDailyDrawdown,
       maxOpenTrades: profile.maxConcurrentTrades,
+      sizing: { ...DEFAULT_BOT_CONFIG.sizing!, ...profile.sizing },
       symbolSettings: symbols?.map((symbol: string) => ({
         symbol,
         enabled: true,
@@ -201,7 +203,7 @@ export async function POST(request: NextRequest) {
       success: true,
       message: liveTrading
         ? 'Configuration updated - LIVE TRADING ENABLED'
-        : 'Configuration updated - Paper mode active',
+        : 'Configuration updated - live trading flag off (the running bot still trades the broker account)',
       config: newConfig,
       switchLogged: previousProfile !== newProfileId,
       warning: liveTrading
@@ -246,10 +248,10 @@ export async function PUT(request: NextRequest) {
 
       case 'disable_live':
         tradingBot.updateConfig({ liveTrading: false });
-        console.log('[Strategy Profiles] Live trading disabled, paper mode active');
+        console.log('[Strategy Profiles] Live trading flag disabled');
         return NextResponse.json({
           success: true,
-          message: 'Live trading disabled - Paper mode active',
+          message: 'Live trading flag disabled - the running bot still trades the broker account',
           liveTrading: false,
         });
 
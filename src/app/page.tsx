@@ -5,7 +5,7 @@ import Link from 'next/link';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Button } from '@/components/ui/button';
-import { Calculator, Bot, Radio, RefreshCw, Brain, Zap, ZapOff } from 'lucide-react';
+import { Calculator, Bot, Radio, RefreshCw, Brain, Zap, ZapOff, ShieldAlert } from 'lucide-react';
 import { KPICards } from '@/components/dashboard/KPICards';
 import { TradeTable } from '@/components/dashboard/TradeTable';
 import { SignalsList } from '@/components/dashboard/SignalsList';
@@ -15,6 +15,7 @@ import { AnalysisHistoryPanel } from '@/components/dashboard/AnalysisHistoryPane
 import { MarketAnalysisPanel } from '@/components/dashboard/MarketAnalysisPanel';
 import { TelegramSignalsPanel } from '@/components/dashboard/TelegramSignalsPanel';
 import { EquityCurveChart } from '@/components/dashboard/EquityCurveChart';
+import { CompliancePanel } from '@/components/dashboard/CompliancePanel';
 
 interface AccountData {
   account: {
@@ -93,6 +94,15 @@ interface TelegramListenerStatus {
   startedAt: string | null;
 }
 
+interface CircuitBreakerStatus {
+  isLocked: boolean;
+  lockType: 'DAILY' | 'WEEKLY' | 'TRAILING' | null;
+  lockReason: string | null;
+  lockedUntil: string | null;
+  drawdowns: { daily: number; weekly: number; trailing: number };
+  limits: { enabled: boolean; daily: number; weekly: number; trailing: number };
+}
+
 function formatUptime(startedAt: string | null): string {
   if (!startedAt) return '';
   const start = new Date(startedAt).getTime();
@@ -147,6 +157,8 @@ export default function Dashboard() {
   const [stats, setStats] = useState<StatsData | null>(null);
   const [analysisData, setAnalysisData] = useState<AnalysisData | null>(null);
   const [telegramStatus, setTelegramStatus] = useState<TelegramListenerStatus | null>(null);
+  const [circuitBreaker, setCircuitBreaker] = useState<CircuitBreakerStatus | null>(null);
+  const [isBreakerResetting, setIsBreakerResetting] = useState(false);
   const [selectedSymbol, setSelectedSymbol] = useState('XAUUSD.s');
   const [source, setSource] = useState<'all' | 'auto' | 'telegram'>('all');
   const [days, setDays] = useState(30);
@@ -159,7 +171,7 @@ export default function Dashboard() {
   const fetchData = useCallback(async () => {
     try {
       const sourceParam = source !== 'all' ? `&source=${source}` : '';
-      const [accountRes, openRes, closedRes, signalsRes, statsRes, analysisRes, telegramRes] = await Promise.all([
+      const [accountRes, openRes, closedRes, signalsRes, statsRes, analysisRes, telegramRes, botStateRes] = await Promise.all([
         fetch(`/api/account?source=${source}`),
         fetch('/api/trades?status=OPEN'),
         fetch('/api/trades?status=CLOSED&limit=100'),
@@ -167,11 +179,12 @@ export default function Dashboard() {
         fetch(`/api/stats?days=${days}${sourceParam}`),
         fetch('/api/analysis'),
         fetch('/api/telegram-listener?limit=0'),
+        fetch('/api/bot-state'),
       ]);
 
       if (!accountRes.ok) throw new Error('Failed to fetch account data');
 
-      const [account, open, closed, sigs, statistics, analysis, telegram] = await Promise.all([
+      const [account, open, closed, sigs, statistics, analysis, telegram, botState] = await Promise.all([
         accountRes.json(),
         openRes.json(),
         closedRes.json(),
@@ -179,6 +192,7 @@ export default function Dashboard() {
         statsRes.json(),
         analysisRes.json(),
         telegramRes.ok ? telegramRes.json() : null,
+        botStateRes.ok ? botStateRes.json() : null,
       ]);
 
       setAccountData(account);
@@ -190,6 +204,7 @@ export default function Dashboard() {
       if (telegram?.listener) {
         setTelegramStatus(telegram.listener);
       }
+      setCircuitBreaker(botState?.circuitBreaker ?? null);
       setError(null);
     } catch (err) {
       console.error('Error fetching data:', err);
@@ -269,6 +284,24 @@ export default function Dashboard() {
     }
   };
 
+  const handleResetCircuitBreaker = async () => {
+    setIsBreakerResetting(true);
+    try {
+      const res = await fetch('/api/bot', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'resetCircuitBreaker' }),
+      });
+      if (!res.ok) throw new Error('Failed to reset circuit breaker');
+      await fetchData();
+    } catch (err) {
+      console.error('Error resetting circuit breaker:', err);
+      setError('Failed to reset circuit breaker. Please try again.');
+    } finally {
+      setIsBreakerResetting(false);
+    }
+  };
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center min-h-screen">
@@ -367,6 +400,44 @@ export default function Dashboard() {
         </div>
       )}
 
+      {/* Equity Circuit Breaker */}
+      {circuitBreaker?.limits.enabled && (
+        <div
+          className={`mx-4 md:mx-6 flex flex-wrap items-center gap-x-4 gap-y-2 p-3 rounded-lg border text-sm ${
+            circuitBreaker.isLocked ? 'bg-red-500/10 border-red-500 text-red-500' : 'bg-muted/50'
+          }`}
+        >
+          <div className="flex items-center gap-2 font-medium">
+            <ShieldAlert className="h-4 w-4" />
+            {circuitBreaker.isLocked ? `Trading locked (${circuitBreaker.lockType?.toLowerCase()} drawdown)` : 'Drawdown limits'}
+          </div>
+          {(['daily', 'weekly', 'trailing'] as const).map((period) => (
+            <span key={period} className={circuitBreaker.isLocked ? '' : 'text-muted-foreground'}>
+              {period[0].toUpperCase() + period.slice(1)}: {circuitBreaker.drawdowns[period].toFixed(2)}% / {circuitBreaker.limits[period]}%
+            </span>
+          ))}
+          {circuitBreaker.isLocked && (
+            <>
+              <span className="text-xs">
+                {circuitBreaker.lockedUntil
+                  ? `Until ${new Date(circuitBreaker.lockedUntil).toLocaleString()}`
+                  : 'Until reset'}
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleResetCircuitBreaker}
+                disabled={isBreakerResetting}
+                className="ml-auto h-7 px-2 text-xs"
+                title={circuitBreaker.lockReason ?? undefined}
+              >
+                {isBreakerResetting ? '...' : 'Reset'}
+              </Button>
+            </>
+          )}
+        </div>
+      )}
+
       {/* Source & Timeframe Filters */}
       <div className="px-4 md:px-6">
         <div className="flex flex-wrap items-center gap-4">
@@ -418,6 +489,9 @@ export default function Dashboard() {
         />
       </div>
 
+      {/* Prop-Firm Challenge Compliance (hidden unless rules are enabled) */}
+      <CompliancePanel className="mx-4 md:mx-6" currency={accountData?.account.currency || 'USD'} />
+
       {/* Overall P&L Chart */}
       <div className="px-4 md:px-6">
         <EquityCurveChart
@@ -0,0 +1,729 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  Area,
+  AreaChart,
+  CartesianGrid,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+  Legend,
+} from 'recharts';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Play, RefreshCw, Trash2, GitCompare, X, Rewind } from 'lucide-react';
+import InteractiveTradeChart from '@/components/dashboard/InteractiveTradeChart';
+import TradeReplayView from '@/components/dashboard/TradeReplayView';
+import { STRATEGY_PROFILES } from '@/lib/strategies/strategy-profiles';
+import type { StoredBacktestTrade } from '@/lib/backtest/backtest-store';
+import type { BacktestMetrics, PerformanceMetrics, StrategyType } from '@/lib/types';
+
+const SYMBOLS = ['XAUUSD.s', 'XAGUSD.s', 'BTCUSD', 'ETHUSD'];
+
+const STRATEGIES: StrategyType[] = [
+  'ORDER_BLOCK',
+  'LIQUIDITY_SWEEP',
+  'BOS',
+  'FBO_CLASSIC',
+  'FBO_SWEEP',
+  'FBO_STRUCTURE',
+];
+
+// Select needs a non-empty value for "no profile"
+const NO_PROFILE = 'NONE';
+
+// Points drawn per curve - longer runs are thinned out
+const MAX_CURVE_POINTS = 500;
+
+// Dates arrive as ISO strings from the API
+type Serialized<T> = { [K in keyof T]: T[K] extends Date ? string : T[K] extends Date | null ? string | null : T[K] };
+
+interface RunSummary {
+  id: string;
+  strategy: string;
+  symbol: string;
+  startDate: string;
+  endDate: string;
+  initialBalance: number;
+  metrics: BacktestMetrics;
+  durationMs: number | null;
+  createdAt: string;
+}
+
+interface RunDetail extends RunSummary {
+  trades: Serialized<StoredBacktestTrade>[];
+  equityCurve: { date: string; equity: number }[];
+  drawdownCurve: { date: string; drawdown: number }[];
+}
+
+interface ComparedRun extends RunSummary {
+  equityCurve: { date: string; equity: number }[];
+}
+
+interface BacktestJob {
+  id: string;
+  status: 'PENDING' | 'RUNNING' | 'COMPLETED' | 'FAILED';
+  progress: {
+    phase: string;
+    progress: number;
+    candlesProcessed: number;
+    totalCandles: number;
+    tradesExecuted: number;
+    winRate: number;
+    totalPnl: number;
+    currentBalance: number;
+  } | null;
+  error: string | null;
+}
+
+function toDateInput(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function downsample<T>(points: T[], max: number = MAX_CURVE_POINTS): T[] {
+  if (points.length <= max) return points;
+  const step = points.length / max;
+  const result: T[] = [];
+  for (let i = 0; i < max; i++) {
+    result.push(points[Math.floor(i * step)]);
+  }
+  result.push(points[points.length - 1]);
+  return result;
+}
+
+function formatDate(value: string | number): string {
+  return new Date(value).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+}
+
+function formatMoney(value: number): string {
+  return `${value >= 0 ? '+' : ''}${value.toFixed(2)}`;
+}
+
+function runLabel(run: RunSummary): string {
+  return `${run.symbol} · ${run.strategy} · ${formatDate(run.startDate)}–${formatDate(run.endDate)}`;
+}
+
+type NumericMetric = {
+  [K in keyof BacktestMetrics]-?: BacktestMetrics[K] extends number ? K : never;
+}[keyof BacktestMetrics];
+
+const METRIC_ROWS: { key: NumericMetric; label: string; format: (v: number) => string }[] = [
+  { key: 'totalTrades', label: 'Trades', format: (v) => String(v) },
+  { key: 'winRate', label: 'Win Rate', format: (v) => `${v.toFixed(1)}%` },
+  { key: 'profitFactor', label: 'Profit Factor', format: (v) => v.toFixed(2) },
+  { key: 'totalPnl', label: 'Total PnL', format: formatMoney },
+  { key: 'totalPnlPercent', label: 'Return', format: (v) => `${v.toFixed(2)}%` },
+  { key: 'maxDrawdownPercent', label: 'Max Drawdown', format: (v) => `${v.toFixed(2)}%` },
+  { key: 'sharpeRatio', label: 'Sharpe', format: (v) => v.toFixed(2) },
+  { key: 'averageRR', label: 'Avg RR', format: (v) => v.toFixed(2) },
+];
+
+export default function BacktestLab() {
+  const [symbol, setSymbol] = useState(SYMBOLS[0]);
+  const [strategy, setStrategy] = useState<StrategyType>('ORDER_BLOCK');
+  const [profileId, setProfileId] = useState(NO_PROFILE);
+  const [startDate, setStartDate] = useState(() => toDateInput(new Date(Date.now() - 30 * 24 * 60 * 60 * 1000)));
+  const [endDate, setEndDate] = useState(() => toDateInput(new Date()));
+  const [initialBalance, setInitialBalance] = useState('10000');
+  const [riskPercent, setRiskPercent] = useState('2');
+  const [captureSnapshots, setCaptureSnapshots] = useState(true);
+
+  const [job, setJob] = useState<BacktestJob | null>(null);
+  const [runs, setRuns] = useState<RunSummary[]>([]);
+  const [selected, setSelected] = useState<RunDetail | null>(null);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [compared, setCompared] = useState<ComparedRun[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const jobId = job?.id;
+  const isRunning = job?.status === 'PENDING' || job?.status === 'RUNNING';
+
+  const fetchRuns = useCallback(async () => {
+    try {
+      const res = await fetch('/api/backtest?limit=50');
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to fetch backtests');
+      setRuns(data.runs);
+      // Pick up a job started elsewhere (or before a reload)
+      if (data.active) {
+        setJob((current) => current ?? data.active);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch backtests');
+    }
+  }, []);
+
+  const loadRun = useCallback(async (id: string) => {
+    try {
+      const res = await fetch(`/api/backtest?id=${encodeURIComponent(id)}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to load backtest');
+      setSelected(data.run);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load backtest');
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchRuns();
+  }, [fetchRuns]);
+
+  // Poll the running job until it finishes
+  useEffect(() => {
+    if (!jobId || !isRunning) return;
+
+    const interval = setInterval(async () => {
+      try {
+        const res = await fetch(`/api/backtest/status?jobId=${encodeURIComponent(jobId)}`);
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || 'Failed to fetch job status');
+        setJob(data.job);
+
+        if (data.job.status === 'COMPLETED') {
+          await fetchRuns();
+          await loadRun(data.job.id);
+        } else if (data.job.status === 'FAILED') {
+          setError(data.job.error || 'Backtest failed');
+        }
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to fetch job status');
+      }
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [jobId, isRunning, fetchRuns, loadRun]);
+
+  // Load metrics and curves once two runs are picked
+  useEffect(() => {
+    if (compareIds.length !== 2) {
+      setCompared([]);
+      return;
+    }
+
+    const fetchCompared = async () => {
+      try {
+        const res = await fetch(`/api/backtest?ids=${compareIds.map(encodeURIComponent).join(',')}`);
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || 'Failed to compare backtests');
+        setCompared(data.runs);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to compare backtests');
+      }
+    };
+    fetchCompared();
+  }, [compareIds]);
+
+  const handleProfileChange = (id: string) => {
+    setProfileId(id);
+    const profile = STRATEGY_PROFILES[id];
+    if (profile) {
+      setStrategy(profile.strategy);
+      setRiskPercent(String(profile.riskPercent));
+    }
+  };
+
+  const handleRun = async () => {
+    setError(null);
+    try {
+      const res = await fetch('/api/backtest', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          symbol,
+          strategy,
+          profile: profileId === NO_PROFILE ? undefined : profileId,
+          startDate: new Date(startDate).toISOString(),
+          endDate: new Date(endDate).toISOString(),
+          initialBalance: parseFloat(initialBalance),
+          riskPercent: parseFloat(riskPercent),
+          captureSnapshots,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to start backtest');
+      setJob({ id: data.jobId, status: data.status, progress: null, error: null });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start backtest');
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      const res = await fetch(`/api/backtest?id=${encodeURIComponent(id)}`, { method: 'DELETE' });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to delete backtest');
+      if (selected?.id === id) setSelected(null);
+      setCompareIds((ids) => ids.filter((other) => other !== id));
+      await fetchRuns();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete backtest');
+    }
+  };
+
+  const toggleCompare = (id: string) => {
+    setCompareIds((ids) => {
+      if (ids.includes(id)) return ids.filter((other) => other !== id);
+      // Keep the two most recently picked runs
+      return [...ids, id].slice(-2);
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="flex items-center justify-between rounded-lg border border-red-500/50 bg-red-500/10 p-3 text-sm text-red-500">
+          <span>{error}</span>
+          <Button variant="ghost" size="sm" onClick={() => setError(null)}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+
+      {/* Run a new backtest */}
+      <Card>
+        <CardHeader>
+          <CardTitle>New Backtest</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-4">
+            <div className="space-y-2">
+              <Label htmlFor="bt-symbol">Symbol</Label>
+              <Select value={symbol} onValueChange={setSymbol}>
+                <SelectTrigger id="bt-symbol">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SYMBOLS.map((s) => (
+                    <SelectItem key={s} value={s}>{s}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="bt-profile">Profile</Label>
+              <Select value={profileId} onValueChange={handleProfileChange}>
+                <SelectTrigger id="bt-profile">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_PROFILE}>None (strategy defaults)</SelectItem>
+                  {Object.entries(STRATEGY_PROFILES).map(([id, profile]) => (
+                    <SelectItem key={id} value={id}>{profile.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="bt-strategy">Strategy</Label>
+              <Select value={strategy} onValueChange={(value) => setStrategy(value as StrategyType)}>
+                <SelectTrigger id="bt-strategy">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {STRATEGIES.map((s) => (
+                    <SelectItem key={s} value={s}>{s}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="bt-risk">Risk %</Label>
+              <Input
+                id="bt-risk"
+                type="number"
+                step="0.1"
+                value={riskPercent}
+                onChange={(e) => setRiskPercent(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="bt-start">Start</Label>
+              <Input id="bt-start" type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="bt-end">End</Label>
+              <Input id="bt-end" type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="bt-balance">Initial Balance</Label>
+              <Input
+                id="bt-balance"
+                type="number"
+                value={initialBalance}
+                onChange={(e) => setInitialBalance(e.target.value)}
+              />
+            </div>
+            <div className="flex items-end">
+              <Button className="w-full" onClick={handleRun} disabled={isRunning}>
+                {isRunning ? (
+                  <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Play className="h-4 w-4 mr-2" />
+                )}
+                {isRunning ? 'Running...' : 'Run Backtest'}
+              </Button>
+            </div>
+          </div>
+          {profileId !== NO_PROFILE && STRATEGY_PROFILES[profileId] && (
+            <p className="text-xs text-muted-foreground">{STRATEGY_PROFILES[profileId].description}</p>
+          )}
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="bt-snapshots"
+              checked={captureSnapshots}
+              onCheckedChange={(checked) => setCaptureSnapshots(checked === true)}
+            />
+            <Label htmlFor="bt-snapshots" className="text-sm font-normal">
+              Capture entry snapshots for trade replay
+            </Label>
+          </div>
+
+          {/* Live progress */}
+          {job && isRunning && (
+            <div className="space-y-2 rounded-lg bg-muted/50 p-3">
+              <div className="flex items-center justify-between text-sm">
+                <span className="capitalize">{job.progress?.phase ?? 'loading candles'}</span>
+                <span>{(job.progress?.progress ?? 0).toFixed(0)}%</span>
+              </div>
+              <div className="h-2 w-full overflow-hidden rounded-full bg-muted">
+                <div
+                  className="h-full bg-primary transition-all"
+                  style={{ width: `${job.progress?.progress ?? 0}%` }}
+                />
+              </div>
+              {job.progress && (
+                <div className="grid grid-cols-2 gap-2 text-xs text-muted-foreground sm:grid-cols-4">
+                  <span>Candles: {job.progress.candlesProcessed}/{job.progress.totalCandles}</span>
+                  <span>Trades: {job.progress.tradesExecuted}</span>
+                  <span>Win rate: {job.progress.winRate.toFixed(1)}%</span>
+                  <span className={job.progress.totalPnl >= 0 ? 'text-green-500' : 'text-red-500'}>
+                    PnL: {formatMoney(job.progress.totalPnl)}
+                  </span>
+                </div>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Stored runs */}
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle>Runs</CardTitle>
+          <div className="flex items-center gap-2">
+            {compareIds.length > 0 && (
+              <Badge variant="outline" className="text-xs">
+                <GitCompare className="h-3 w-3 mr-1" />
+                {compareIds.length}/2 selected
+              </Badge>
+            )}
+            <Button variant="ghost" size="sm" onClick={fetchRuns}>
+              <RefreshCw className="h-4 w-4" />
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {runs.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No backtests yet</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Run</TableHead>
+                    <TableHead className="text-right">Trades</TableHead>
+                    <TableHead className="text-right">Win Rate</TableHead>
+                    <TableHead className="text-right">PF</TableHead>
+                    <TableHead className="text-right">PnL</TableHead>
+                    <TableHead className="text-right">Max DD</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {runs.map((run) => (
+                    <TableRow
+                      key={run.id}
+                      className={`cursor-pointer ${selected?.id === run.id ? 'bg-muted/50' : ''}`}
+                      onClick={() => loadRun(run.id)}
+                    >
+                      <TableCell>
+                        <div className="font-medium">{run.symbol} · {run.strategy}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {formatDate(run.startDate)}–{formatDate(run.endDate)} · run {formatDate(run.createdAt)}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right">{run.metrics.totalTrades}</TableCell>
+                      <TableCell className="text-right">{run.metrics.winRate.toFixed(1)}%</TableCell>
+                      <TableCell className="text-right">{run.metrics.profitFactor.toFixed(2)}</TableCell>
+                      <TableCell className={`text-right ${run.metrics.totalPnl >= 0 ? 'text-green-500' : 'text-red-500'}`}>
+                        {formatMoney(run.metrics.totalPnl)}
+                      </TableCell>
+                      <TableCell className="text-right">{run.metrics.maxDrawdownPercent.toFixed(2)}%</TableCell>
+                      <TableCell className="text-right whitespace-nowrap" onClick={(e) => e.stopPropagation()}>
+                        <Button
+                          variant={compareIds.includes(run.id) ? 'secondary' : 'ghost'}
+                          size="sm"
+                          title="Compare"
+                          onClick={() => toggleCompare(run.id)}
+                        >
+                          <GitCompare className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" title="Delete" onClick={() => handleDelete(run.id)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {compared.length === 2 && <RunComparison runs={compared} />}
+
+      {selected && <RunDetailView key={selected.id} run={selected} />}
+    </div>
+  );
+}
+
+function MetricsGrid({ metrics }: { metrics: BacktestMetrics }) {
+  return (
+    <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+      {METRIC_ROWS.map(({ key, label, format }) => (
+        <div key={key} className="rounded-lg bg-muted/50 p-3">
+          <p className="text-xs text-muted-foreground">{label}</p>
+          <p className="text-lg font-bold">{format(metrics[key])}</p>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function formatR(value: number | null): string {
+  return value === null ? '-' : `${value >= 0 ? '+' : ''}${value.toFixed(2)}R`;
+}
+
+function PerformanceGrid({ performance }: { performance: PerformanceMetrics }) {
+  const { benchmark, significance } = performance;
+  const items = [
+    { label: 'Sortino', value: performance.sortinoRatio.toFixed(2) },
+    { label: 'Calmar', value: performance.calmarRatio.toFixed(2) },
+    { label: 'Expectancy', value: formatR(performance.expectancyR) },
+    { label: 'Avg MAE / MFE', value: `${formatR(performance.averageMAER)} / ${formatR(performance.averageMFER)}` },
+    { label: 'Exposure', value: `${performance.exposurePercent.toFixed(1)}%` },
+    { label: 'Avg Hold', value: `${Math.round(performance.averageHoldingMinutes)} min` },
+    {
+      label: 'vs Buy & Hold',
+      value: benchmark ? `${benchmark.excessReturnPercent >= 0 ? '+' : ''}${benchmark.excessReturnPercent.toFixed(2)}%` : '-',
+    },
+    {
+      label: `Mean R ${Math.round(significance.confidenceLevel * 100)}% CI (p=${significance.pValue.toFixed(3)})`,
+      value: `${formatR(significance.lowerR)} to ${formatR(significance.upperR)}`,
+    },
+  ];
+
+  return (
+    <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+      {items.map(({ label, value }) => (
+        <div key={label} className="rounded-lg bg-muted/50 p-3">
+          <p className="text-xs text-muted-foreground">{label}</p>
+          <p className="text-sm font-bold">{value}</p>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function RunDetailView({ run }: { run: RunDetail }) {
+  const [replayTradeId, setReplayTradeId] = useState<string | null>(null);
+  const curve = useMemo(() => {
+    const drawdowns = new Map(run.drawdownCurve.map((point) => [point.date, point.drawdown]));
+    return downsample(run.equityCurve).map((point) => ({
+      time: new Date(point.date).getTime(),
+      equity: point.equity,
+      drawdown: -(drawdowns.get(point.date) ?? 0),
+    }));
+  }, [run]);
+
+  const range = useMemo(
+    () => ({ startDate: new Date(run.startDate), endDate: new Date(run.endDate) }),
+    [run.startDate, run.endDate]
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">{runLabel(run)}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <MetricsGrid metrics={run.metrics} />
+        {run.metrics.performance && <PerformanceGrid performance={run.metrics.performance} />}
+
+        <div className="grid grid-cols-1 gap-4 lg:grid-cols-2">
+          <div>
+            <p className="mb-2 text-sm font-medium">Equity</p>
+            <ResponsiveContainer width="100%" height={220}>
+              <AreaChart data={curve}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#333" />
+                <XAxis dataKey="time" type="number" domain={['dataMin', 'dataMax']} tickFormatter={formatDate} fontSize={11} />
+                <YAxis domain={['auto', 'auto']} fontSize={11} width={60} />
+                <Tooltip labelFormatter={(value) => new Date(value as number).toLocaleString()} />
+                <Area type="monotone" dataKey="equity" stroke="#22c55e" fill="#22c55e" fillOpacity={0.15} />
+              </AreaChart>
+            </ResponsiveContainer>
+          </div>
+          <div>
+            <p className="mb-2 text-sm font-medium">Drawdown %</p>
+            <ResponsiveContainer width="100%" height={220}>
+              <AreaChart data={curve}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#333" />
+                <XAxis dataKey="time" type="number" domain={['dataMin', 'dataMax']} tickFormatter={formatDate} fontSize={11} />
+                <YAxis fontSize={11} width={60} />
+                <Tooltip labelFormatter={(value) => new Date(value as number).toLocaleString()} />
+                <Area type="monotone" dataKey="drawdown" stroke="#ef4444" fill="#ef4444" fillOpacity={0.15} />
+              </AreaChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+
+        <InteractiveTradeChart
+          symbol={run.symbol}
+          timeframe="M15"
+          range={range}
+          entryPrice={null}
+          stopLoss={null}
+          takeProfit={null}
+          direction="BUY"
+          trades={run.trades}
+        />
+
+        {replayTradeId && (
+          <TradeReplayView key={replayTradeId} tradeId={replayTradeId} onClose={() => setReplayTradeId(null)} />
+        )}
+
+        <div className="max-h-96 overflow-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Entry</TableHead>
+                <TableHead>Dir</TableHead>
+                <TableHead className="text-right">Entry Price</TableHead>
+                <TableHead className="text-right">Exit Price</TableHead>
+                <TableHead className="text-right">Lots</TableHead>
+                <TableHead>Exit</TableHead>
+                <TableHead className="text-right">PnL</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {run.trades.map((trade) => (
+                <TableRow key={trade.id} className={replayTradeId === trade.id ? 'bg-muted/50' : ''}>
+                  <TableCell className="whitespace-nowrap text-xs">{new Date(trade.entryTime).toLocaleString()}</TableCell>
+                  <TableCell>
+                    <Badge variant={trade.direction === 'BUY' ? 'default' : 'destructive'}>{trade.direction}</Badge>
+                  </TableCell>
+                  <TableCell className="text-right">{trade.entryPrice.toFixed(2)}</TableCell>
+                  <TableCell className="text-right">{trade.exitPrice.toFixed(2)}</TableCell>
+                  <TableCell className="text-right">{trade.lotSize.toFixed(2)}</TableCell>
+                  <TableCell className="text-xs">
+                    {trade.exitReason}
+                    {trade.leg && <span className="text-muted-foreground"> · {trade.leg}</span>}
+                  </TableCell>
+                  <TableCell className={`text-right ${trade.pnl >= 0 ? 'text-green-500' : 'text-red-500'}`}>
+                    {formatMoney(trade.pnl)}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="ghost" size="sm" title="Replay" onClick={() => setReplayTradeId(trade.id)}>
+                      <Rewind className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function RunComparison({ runs }: { runs: ComparedRun[] }) {
+  const [a, b] = runs;
+  const colors = ['#3b82f6', '#f59e0b'];
+
+  // Returns in % so runs with different balances share an axis
+  const curves = useMemo(
+    () =>
+      runs.map((run) =>
+        downsample(run.equityCurve).map((point) => ({
+          time: new Date(point.date).getTime(),
+          returnPct: ((point.equity - run.initialBalance) / run.initialBalance) * 100,
+        }))
+      ),
+    [runs]
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <GitCompare className="h-4 w-4" />
+          Comparison
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Metric</TableHead>
+              <TableHead className="text-right" style={{ color: colors[0] }}>{runLabel(a)}</TableHead>
+              <TableHead className="text-right" style={{ color: colors[1] }}>{runLabel(b)}</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {METRIC_ROWS.map(({ key, label, format }) => (
+              <TableRow key={key}>
+                <TableCell>{label}</TableCell>
+                <TableCell className="text-right">{format(a.metrics[key])}</TableCell>
+                <TableCell className="text-right">{format(b.metrics[key])}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        <ResponsiveContainer width="100%" height={260}>
+          <LineChart>
+            <CartesianGrid strokeDasharray="3 3" stroke="#333" />
+            <XAxis dataKey="time" type="number" domain={['dataMin', 'dataMax']} tickFormatter={formatDate} fontSize={11} allowDuplicatedCategory={false} />
+            <YAxis fontSize={11} width={50} unit="%" />
+            <Tooltip labelFormatter={(value) => new Date(value as number).toLocaleString()} />
+            <Legend />
+            {curves.map((curve, i) => (
+              <Line
+                key={runs[i].id}
+                data={curve}
+                dataKey="returnPct"
+                name={runLabel(runs[i])}
+                stroke={colors[i]}
+                dot={false}
+                type="monotone"
+              />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      </CardContent>
+    </Card>
+  );
+}
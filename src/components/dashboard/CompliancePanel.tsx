@@ -0,0 +1,134 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { ShieldCheck } from 'lucide-react';
+
+interface RuleStatus {
+  rule: string;
+  label: string;
+  state: 'OK' | 'WARNING' | 'BREACHED' | 'PENDING';
+  unit: 'currency' | 'lots' | 'days' | 'minutes';
+  current: number;
+  limit: number;
+  headroom: number;
+  message: string;
+}
+
+interface ComplianceData {
+  enabled: boolean;
+  preset: string;
+  isRunning?: boolean;
+  rules: RuleStatus[];
+}
+
+function getStateBadge(state: RuleStatus['state']) {
+  switch (state) {
+    case 'OK':
+      return <Badge className="bg-green-500/20 text-green-500 text-xs">OK</Badge>;
+    case 'WARNING':
+      return <Badge className="bg-yellow-500/20 text-yellow-500 text-xs">WARNING</Badge>;
+    case 'BREACHED':
+      return <Badge className="bg-red-500/20 text-red-500 text-xs">BREACHED</Badge>;
+    default:
+      return <Badge className="bg-gray-500/20 text-gray-500 text-xs">PENDING</Badge>;
+  }
+}
+
+/** Share of the limit used, for the headroom bar (null when the rule has no bar) */
+function usedFraction(rule: RuleStatus): number | null {
+  if (rule.limit <= 0) return null;
+  if (rule.unit === 'minutes') return null;
+  return Math.min(1, Math.max(0, rule.current / rule.limit));
+}
+
+function formatHeadroom(rule: RuleStatus, currency: string): string {
+  switch (rule.unit) {
+    case 'currency':
+      return new Intl.NumberFormat('en-US', { style: 'currency', currency, minimumFractionDigits: 2 }).format(rule.headroom);
+    case 'lots':
+      return `${rule.headroom.toFixed(2)} lots`;
+    case 'days':
+      return rule.headroom > 0 ? `${rule.headroom} days to go` : 'met';
+    default:
+      return `${Math.round(rule.headroom)}m`;
+  }
+}
+
+export function CompliancePanel({ currency = 'USD', className }: { currency?: string; className?: string }) {
+  const [data, setData] = useState<ComplianceData | null>(null);
+
+  useEffect(() => {
+    const fetchCompliance = async () => {
+      try {
+        const res = await fetch('/api/compliance');
+        if (res.ok) {
+          setData(await res.json());
+        }
+      } catch (error) {
+        console.error('Error fetching compliance:', error);
+      }
+    };
+
+    fetchCompliance();
+    const interval = setInterval(fetchCompliance, 30000);
+    return () => clearInterval(interval);
+  }, []);
+
+  if (!data?.enabled) return null;
+
+  return (
+    <Card className={className}>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-lg flex items-center gap-2">
+            <ShieldCheck className="h-4 w-4" />
+            Challenge Rules
+          </CardTitle>
+          <Badge variant="outline">{data.preset}</Badge>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {data.isRunning === false ? (
+          <p className="text-sm text-muted-foreground">Start the bot to measure compliance against the live account.</p>
+        ) : (
+          <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+            {data.rules.map((rule) => {
+              const used = usedFraction(rule);
+              return (
+                <div key={rule.rule} className="rounded-lg border p-3 space-y-2">
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm font-medium">{rule.label}</span>
+                    {getStateBadge(rule.state)}
+                  </div>
+                  {used !== null && (
+                    <div className="h-1.5 rounded-full bg-muted overflow-hidden">
+                      <div
+                        className={`h-full ${
+                          rule.unit === 'days'
+                            ? 'bg-blue-500'
+                            : used >= 0.8
+                              ? 'bg-red-500'
+                              : used >= 0.5
+                                ? 'bg-yellow-500'
+                                : 'bg-green-500'
+                        }`}
+                        style={{ width: `${used * 100}%` }}
+                      />
+                    </div>
+                  )}
+                  <div className="flex items-center justify-between text-xs text-muted-foreground">
+                    <span>Headroom</span>
+                    <span className="font-medium text-foreground">{formatHeadroom(rule, currency)}</span>
+                  </div>
+                  <p className="text-xs text-muted-foreground">{rule.message}</p>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -11,8 +11,24 @@ import {
   CandlestickSeries,
   IPriceLine,
   MouseEventParams,
+  ISeriesMarkersPluginApi,
+  SeriesMarker,
+  createSeriesMarkers,
 } from 'lightweight-charts';
 import { Badge } from '@/components/ui/badge';
+import { Timeframe } from '@/lib/types';
+
+/**
+ * A closed trade drawn as entry/exit markers (e.g. from a backtest run)
+ */
+export interface ChartTrade {
+  direction: 'BUY' | 'SELL';
+  entryTime: Date | string;
+  exitTime: Date | string;
+  entryPrice: number;
+  exitPrice: number;
+  isWinner: boolean;
+}
 
 interface InteractiveTradeChartProps {
   symbol: string;
@@ -20,7 +36,13 @@ interface InteractiveTradeChartProps {
   stopLoss: number | null;
   takeProfit: number | null;
   direction: 'BUY' | 'SELL';
-  onPriceChange: (type: 'entry' | 'sl' | 'tp', price: number) => void;
+  /** Enables the Entry/SL/TP controls */
+  onPriceChange?: (type: 'entry' | 'sl' | 'tp', price: number) => void;
+  /** Candle timeframe (default M1) */
+  timeframe?: Timeframe;
+  /** Show a fixed historical range instead of the live last 4 hours */
+  range?: { startDate: Date; endDate: Date };
+  trades?: ChartTrade[];
 }
 
 interface CandleData {
@@ -38,10 +60,15 @@ export default function InteractiveTradeChart({
   takeProfit,
   direction,
   onPriceChange,
+  timeframe = 'M1',
+  range,
+  trades,
 }: InteractiveTradeChartProps) {
   const chartContainerRef = useRef<HTMLDivElement>(null);
   const chartRef = useRef<IChartApi | null>(null);
   const candlestickSeriesRef = useRef<ISeriesApi<'Candlestick'> | null>(null);
+  const markersRef = useRef<ISeriesMarkersPluginApi<Time> | null>(null);
+  const [candleTimes, setCandleTimes] = useState<number[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [currentBid, setCurrentBid] = useState<number | null>(null);
@@ -53,12 +80,17 @@ export default function InteractiveTradeChart({
   const slLineRef = useRef<IPriceLine | null>(null);
   const tpLineRef = useRef<IPriceLine | null>(null);
 
-  // Fetch M1 candle data and update bid/ask
+  const rangeStart = range?.startDate.getTime();
+  const rangeEnd = range?.endDate.getTime();
+
+  // Fetch candle data and update bid/ask
   useEffect(() => {
     const fetchData = async () => {
       try {
         setIsLoading(true);
-        const data = await fetchM1CandleData(symbol);
+        const data = rangeStart !== undefined && rangeEnd !== undefined
+          ? await fetchCandleData(symbol, timeframe, new Date(rangeStart), new Date(rangeEnd))
+          : await fetchM1CandleData(symbol);
 
         if (data && data.length > 0) {
           // Get latest candle for bid/ask simulation
@@ -74,13 +106,14 @@ export default function InteractiveTradeChart({
             candlestickSeriesRef.current.setData(data);
             chartRef.current?.timeScale().fitContent();
           }
+          setCandleTimes(data.map((c) => c.time as number));
 
           setError(null);
         } else {
           setError('No data available');
         }
       } catch (err) {
-        console.error('Error fetching M1 data:', err);
+        console.error(`Error fetching ${timeframe} data:`, err);
         setError('Failed to load chart data');
       } finally {
         setIsLoading(false);
@@ -89,11 +122,14 @@ export default function InteractiveTradeChart({
 
     fetchData();
 
+    // A historical range does not change - only live M1 data is refreshed
+    if (rangeStart !== undefined) return;
+
     // Refresh every 5 seconds for M1 data
     const interval = setInterval(fetchData, 5000);
 
     return () => clearInterval(interval);
-  }, [symbol]);
+  }, [symbol, timeframe, rangeStart, rangeEnd]);
 
   // Create chart instance
   const createChartInstance = (data: CandlestickData[]) => {
@@ -150,7 +186,7 @@ export default function InteractiveTradeChart({
 
       const price = (seriesData as any).close || param.point?.y;
       if (price && typeof price === 'number') {
-        onPriceChange(isDragging, price);
+        onPriceChange?.(isDragging, price);
       }
     });
 
@@ -226,6 +262,18 @@ export default function InteractiveTradeChart({
     }
   }, [entryPrice, stopLoss, takeProfit, direction]);
 
+  // Trade markers, snapped to the candle each entry/exit happened in
+  useEffect(() => {
+    if (!candlestickSeriesRef.current) return;
+
+    const markers = trades && candleTimes.length > 0 ? buildTradeMarkers(trades, candleTimes) : [];
+    if (!markersRef.current) {
+      markersRef.current = createSeriesMarkers(candlestickSeriesRef.current, markers);
+    } else {
+      markersRef.current.setMarkers(markers);
+    }
+  }, [trades, candleTimes]);
+
   // Mouse event handlers for dragging
   const handleMouseDown = (type: 'entry' | 'sl' | 'tp') => {
     setIsDragging(type);
@@ -269,14 +317,16 @@ export default function InteractiveTradeChart({
           </div>
         </div>
         <Badge variant="outline" className="text-xs">
-          M1 (1 Min)
+          {timeframe === 'M1' ? 'M1 (1 Min)' : timeframe}
         </Badge>
       </div>
 
       {/* Drag Instructions */}
-      <div className="text-xs text-muted-foreground text-center py-1">
-        💡 Click on Entry/SL/TP buttons below, then click on the chart to set price
-      </div>
+      {onPriceChange && (
+        <div className="text-xs text-muted-foreground text-center py-1">
+          💡 Click on Entry/SL/TP buttons below, then click on the chart to set price
+        </div>
+      )}
 
       {/* Chart Container */}
       <div className="relative w-full bg-[#1a1a1a] rounded-lg overflow-hidden" style={{ height: '400px' }}>
@@ -294,49 +344,51 @@ export default function InteractiveTradeChart({
       </div>
 
       {/* Price Line Controls */}
-      <div className="flex gap-2 justify-center">
-        <button
-          onMouseDown={() => handleMouseDown('entry')}
-          className={`px-3 py-1 text-xs font-medium rounded transition-colors ${
-            isDragging === 'entry'
-              ? 'bg-primary text-primary-foreground'
-              : 'bg-muted hover:bg-muted/80'
-          }`}
-        >
-          {isDragging === 'entry' ? 'Click on chart...' : 'Set Entry'}
-        </button>
-        <button
-          onMouseDown={() => handleMouseDown('sl')}
-          className={`px-3 py-1 text-xs font-medium rounded transition-colors ${
-            isDragging === 'sl'
-              ? 'bg-destructive text-destructive-foreground'
-              : 'bg-muted hover:bg-muted/80'
-          }`}
-        >
-          {isDragging === 'sl' ? 'Click on chart...' : 'Set Stop Loss'}
-        </button>
-        <button
-          onMouseDown={() => handleMouseDown('tp')}
-          className={`px-3 py-1 text-xs font-medium rounded transition-colors ${
-            isDragging === 'tp'
-              ? 'bg-green-600 text-white'
-              : 'bg-muted hover:bg-muted/80'
-          }`}
-        >
-          {isDragging === 'tp' ? 'Click on chart...' : 'Set Take Profit'}
-        </button>
-        {isDragging && (
+      {onPriceChange && (
+        <div className="flex gap-2 justify-center">
           <button
-            onClick={handleMouseUp}
-            className="px-3 py-1 text-xs font-medium rounded bg-muted hover:bg-muted/80"
+            onMouseDown={() => handleMouseDown('entry')}
+            className={`px-3 py-1 text-xs font-medium rounded transition-colors ${
+              isDragging === 'entry'
+                ? 'bg-primary text-primary-foreground'
+                : 'bg-muted hover:bg-muted/80'
+            }`}
           >
-            Cancel
+            {isDragging === 'entry' ? 'Click on chart...' : 'Set Entry'}
           </button>
-        )}
-      </div>
+          <button
+            onMouseDown={() => handleMouseDown('sl')}
+            className={`px-3 py-1 text-xs font-medium rounded transition-colors ${
+              isDragging === 'sl'
+                ? 'bg-destructive text-destructive-foreground'
+                : 'bg-muted hover:bg-muted/80'
+            }`}
+          >
+            {isDragging === 'sl' ? 'Click on chart...' : 'Set Stop Loss'}
+          </button>
+          <button
+            onMouseDown={() => handleMouseDown('tp')}
+            className={`px-3 py-1 text-xs font-medium rounded transition-colors ${
+              isDragging === 'tp'
+                ? 'bg-green-600 text-white'
+                : 'bg-muted hover:bg-muted/80'
+            }`}
+          >
+            {isDragging === 'tp' ? 'Click on chart...' : 'Set Take Profit'}
+          </button>
+          {isDragging && (
+            <button
+              onClick={handleMouseUp}
+              className="px-3 py-1 text-xs font-medium rounded bg-muted hover:bg-muted/80"
+            >
+              Cancel
+            </button>
+          )}
+        </div>
+      )}
 
       {/* Use Current Prices */}
-      {currentBid && currentAsk && (
+      {onPriceChange && currentBid && currentAsk && (
         <div className="flex gap-2 justify-center pt-2">
           <button
             onClick={() => onPriceChange('entry', currentAsk)}
@@ -363,49 +415,9 @@ async function fetchM1CandleData(symbol: string): Promise<CandlestickData[]> {
   startDate.setHours(startDate.getHours() - 4); // Last 4 hours for M1
 
   try {
-    const params = new URLSearchParams({
-      symbol,
-      timeframe: 'M1',
-      startDate: startDate.toISOString(),
-      endDate: endDate.toISOString(),
-    });
-
-    const url = `/api/candles?${params.toString()}`;
-    console.log('[InteractiveChart] Fetching M1 candles:', url);
-
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 15000);
-
-    const response = await fetch(url, { signal: controller.signal });
-    clearTimeout(timeoutId);
-
-    if (response.ok) {
-      const text = await response.text();
-      if (text && text.trim()) {
-        const data = JSON.parse(text);
-        console.log('[InteractiveChart] Received', data.count, 'M1 candles');
-
-        if (data.candles && data.candles.length > 0) {
-          const candles = data.candles
-            .map((c: any) => ({
-              time: Math.floor(new Date(c.time).getTime() / 1000) as Time,
-              open: c.open,
-              high: c.high,
-              low: c.low,
-              close: c.close,
-            }))
-            .sort((a: CandlestickData, b: CandlestickData) =>
-              (a.time as number) - (b.time as number)
-            )
-            .filter((c: CandlestickData, i: number, arr: CandlestickData[]) =>
-              i === 0 || (c.time as number) !== (arr[i - 1].time as number)
-            );
-
-          if (candles.length > 0) {
-            return candles;
-          }
-        }
-      }
+    const candles = await fetchCandleData(symbol, 'M1', startDate, endDate);
+    if (candles.length > 0) {
+      return candles;
     }
   } catch (err: any) {
     console.log('[InteractiveChart] API error, using demo data:', err.message);
@@ -415,6 +427,99 @@ async function fetchM1CandleData(symbol: string): Promise<CandlestickData[]> {
   return generateDemoM1Data(symbol);
 }
 
+// Fetch candles for a range - sorted, one per timestamp, empty when the API has none
+async function fetchCandleData(
+  symbol: string,
+  timeframe: Timeframe,
+  startDate: Date,
+  endDate: Date
+): Promise<CandlestickData[]> {
+  const params = new URLSearchParams({
+    symbol,
+    timeframe,
+    startDate: startDate.toISOString(),
+    endDate: endDate.toISOString(),
+  });
+
+  const url = `/api/candles?${params.toString()}`;
+  console.log(`[InteractiveChart] Fetching ${timeframe} candles:`, url);
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), 15000);
+
+  const response = await fetch(url, { signal: controller.signal });
+  clearTimeout(timeoutId);
+
+  if (!response.ok) {
+    throw new Error(`Candles request failed: ${response.status}`);
+  }
+
+  const text = await response.text();
+  if (!text || !text.trim()) return [];
+
+  const data = JSON.parse(text);
+  console.log('[InteractiveChart] Received', data.count, `${timeframe} candles`);
+
+  return (data.candles ?? [])
+    .map((c: any) => ({
+      time: Math.floor(new Date(c.time).getTime() / 1000) as Time,
+      open: c.open,
+      high: c.high,
+      low: c.low,
+      close: c.close,
+    }))
+    .sort((a: CandlestickData, b: CandlestickData) =>
+      (a.time as number) - (b.time as number)
+    )
+    .filter((c: CandlestickData, i: number, arr: CandlestickData[]) =>
+      i === 0 || (c.time as number) !== (arr[i - 1].time as number)
+    );
+}
+
+// Entry and exit markers for each trade, placed on the candle containing the time
+function buildTradeMarkers(trades: ChartTrade[], candleTimes: number[]): SeriesMarker<Time>[] {
+  const toCandleTime = (time: Date | string): number | null => {
+    const seconds = Math.floor(new Date(time).getTime() / 1000);
+    if (seconds < candleTimes[0]) return null;
+    // Last candle opening at or before the time
+    let lo = 0;
+    let hi = candleTimes.length - 1;
+    while (lo < hi) {
+      const mid = Math.ceil((lo + hi) / 2);
+      if (candleTimes[mid] <= seconds) lo = mid;
+      else hi = mid - 1;
+    }
+    return candleTimes[lo];
+  };
+
+  const markers: SeriesMarker<Time>[] = [];
+  for (const trade of trades) {
+    const entryTime = toCandleTime(trade.entryTime);
+    if (entryTime !== null) {
+      markers.push({
+        time: entryTime as Time,
+        position: trade.direction === 'BUY' ? 'belowBar' : 'aboveBar',
+        shape: trade.direction === 'BUY' ? 'arrowUp' : 'arrowDown',
+        color: trade.direction === 'BUY' ? '#22c55e' : '#ef4444',
+        text: `${trade.direction} ${trade.entryPrice.toFixed(2)}`,
+      });
+    }
+    const exitTime = toCandleTime(trade.exitTime);
+    if (exitTime !== null) {
+      markers.push({
+        time: exitTime as Time,
+        position: trade.direction === 'BUY' ? 'aboveBar' : 'belowBar',
+        shape: 'circle',
+        color: trade.isWinner ? '#22c55e' : '#ef4444',
+        text: `Exit ${trade.exitPrice.toFixed(2)}`,
+      });
+    }
+  }
+
+  // The markers plugin expects ascending time
+  return markers.sort((a, b) => (a.time as number) - (b.time as number));
+}
+
 // Generate demo M1 data
 function generateDemoM1Data(symbol: string): CandlestickData[] {
   const data: CandlestickData[] = [];
@@ -0,0 +1,415 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import {
+  createChart,
+  createSeriesMarkers,
+  CandlestickSeries,
+  ColorType,
+  IChartApi,
+  IPriceLine,
+  ISeriesApi,
+  ISeriesMarkersPluginApi,
+  SeriesMarker,
+  Time,
+} from 'lightweight-charts';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ChevronLeft, ChevronRight, ChevronsLeft, ChevronsRight, Pause, Play, X } from 'lucide-react';
+import type { ReplayFrame, ReplayLevels, TradeReplay } from '@/lib/backtest/replay';
+
+interface TradeReplayViewProps {
+  tradeId: string;
+  onClose: () => void;
+}
+
+// Nearest levels of each kind drawn on the chart - the side panel lists all of them
+const MAX_LEVELS_PER_KIND = 4;
+
+const PHASE_LABELS: Record<ReplayFrame['phase'], string> = {
+  BEFORE: 'Setup',
+  ENTRY: 'Entry',
+  OPEN: 'In trade',
+  EXIT: 'Exit',
+  AFTER: 'After exit',
+};
+
+// API dates arrive as ISO strings
+function toSeconds(time: Date | string): Time {
+  return Math.floor(new Date(time).getTime() / 1000) as Time;
+}
+
+function nearest<T>(items: T[], price: number, levelPrice: (item: T) => number): T[] {
+  return [...items]
+    .sort((a, b) => Math.abs(levelPrice(a) - price) - Math.abs(levelPrice(b) - price))
+    .slice(0, MAX_LEVELS_PER_KIND);
+}
+
+function biasVariant(bias: string): 'default' | 'destructive' | 'secondary' {
+  if (bias === 'BULLISH') return 'default';
+  if (bias === 'BEARISH') return 'destructive';
+  return 'secondary';
+}
+
+export default function TradeReplayView({ tradeId, onClose }: TradeReplayViewProps) {
+  const chartContainerRef = useRef<HTMLDivElement>(null);
+  const chartRef = useRef<IChartApi | null>(null);
+  const seriesRef = useRef<ISeriesApi<'Candlestick'> | null>(null);
+  const markersRef = useRef<ISeriesMarkersPluginApi<Time> | null>(null);
+  const priceLinesRef = useRef<IPriceLine[]>([]);
+
+  const [replay, setReplay] = useState<TradeReplay | null>(null);
+  const [hasSnapshot, setHasSnapshot] = useState(false);
+  const [frameIndex, setFrameIndex] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load the replay
+  useEffect(() => {
+    const fetchReplay = async () => {
+      try {
+        setIsLoading(true);
+        setError(null);
+        const res = await fetch(`/api/backtest/replay?tradeId=${encodeURIComponent(tradeId)}`);
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || 'Failed to load replay');
+        setReplay(data.replay);
+        setHasSnapshot(data.hasSnapshot);
+        setFrameIndex(data.replay.signalFrame);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load replay');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    fetchReplay();
+  }, [tradeId]);
+
+  // Create the chart once the container is shown
+  useEffect(() => {
+    if (!replay || !chartContainerRef.current || chartRef.current) return;
+
+    const chart = createChart(chartContainerRef.current, {
+      layout: {
+        background: { type: ColorType.Solid, color: '#1a1a1a' },
+        textColor: '#d1d5db',
+      },
+      grid: {
+        vertLines: { color: '#2d2d2d' },
+        horzLines: { color: '#2d2d2d' },
+      },
+      width: chartContainerRef.current.clientWidth,
+      height: 400,
+      timeScale: {
+        timeVisible: true,
+        borderColor: '#2d2d2d',
+      },
+      rightPriceScale: {
+        borderColor: '#2d2d2d',
+      },
+    });
+    const series = chart.addSeries(CandlestickSeries, {
+      upColor: '#22c55e',
+      downColor: '#ef4444',
+      borderDownColor: '#ef4444',
+      borderUpColor: '#22c55e',
+      wickDownColor: '#ef4444',
+      wickUpColor: '#22c55e',
+    });
+    chartRef.current = chart;
+    seriesRef.current = series;
+    markersRef.current = createSeriesMarkers(series, []);
+
+    const handleResize = () => {
+      if (chartContainerRef.current) {
+        chart.applyOptions({ width: chartContainerRef.current.clientWidth });
+      }
+    };
+    window.addEventListener('resize', handleResize);
+
+    return () => {
+      window.removeEventListener('resize', handleResize);
+      chart.remove();
+      chartRef.current = null;
+      seriesRef.current = null;
+      markersRef.current = null;
+      priceLinesRef.current = [];
+    };
+  }, [replay]);
+
+  // Draw the candles and levels up to the current frame
+  useEffect(() => {
+    const series = seriesRef.current;
+    if (!replay || !series) return;
+
+    const visible = replay.frames.slice(0, frameIndex + 1);
+    series.setData(visible.map(({ candle }) => ({
+      time: toSeconds(candle.time),
+      open: candle.open,
+      high: candle.high,
+      low: candle.low,
+      close: candle.close,
+    })));
+
+    for (const line of priceLinesRef.current) {
+      series.removePriceLine(line);
+    }
+    priceLinesRef.current = [];
+    const addLine = (price: number, color: string, title: string, lineStyle: number = 2) => {
+      priceLinesRef.current.push(series.createPriceLine({ price, color, lineWidth: 1, lineStyle, axisLabelVisible: false, title }));
+    };
+
+    const frame = replay.frames[frameIndex];
+    const { levels } = frame;
+    const price = frame.candle.close;
+
+    for (const ob of nearest(levels.orderBlocks, price, (o) => (o.high + o.low) / 2)) {
+      const color = ob.type === 'BULLISH' ? '#22c55e' : '#ef4444';
+      addLine(ob.high, color, `${ob.timeframe} OB`, 0);
+      addLine(ob.low, color, '', 0);
+    }
+    for (const fvg of nearest(levels.fvgs, price, (f) => (f.high + f.low) / 2)) {
+      const color = fvg.type === 'BULLISH' ? '#38bdf8' : '#f472b6';
+      addLine(fvg.high, color, `${fvg.timeframe} FVG`);
+      addLine(fvg.low, color, '');
+    }
+    for (const zone of nearest(levels.liquidityZones, price, (z) => z.price)) {
+      addLine(zone.price, '#eab308', `${zone.timeframe} liq ${zone.type === 'HIGH' ? 'high' : 'low'}`, 1);
+    }
+    if (levels.premiumDiscount) {
+      addLine(levels.premiumDiscount.equilibrium, '#a855f7', 'EQ', 3);
+    }
+
+    const { trade } = replay;
+    if (frame.phase !== 'BEFORE') {
+      priceLinesRef.current.push(
+        series.createPriceLine({ price: trade.entryPrice, color: '#e5e7eb', lineWidth: 2, lineStyle: 0, axisLabelVisible: true, title: 'Entry' }),
+        series.createPriceLine({ price: trade.stopLoss, color: '#ef4444', lineWidth: 2, lineStyle: 0, axisLabelVisible: true, title: 'SL' }),
+        series.createPriceLine({ price: trade.takeProfit, color: '#22c55e', lineWidth: 2, lineStyle: 0, axisLabelVisible: true, title: 'TP' })
+      );
+    }
+
+    const markers: SeriesMarker<Time>[] = [];
+    const isBuy = trade.direction === 'BUY';
+    const signal = replay.frames[replay.signalFrame];
+    if (replay.signalFrame <= frameIndex && replay.signalFrame !== replay.entryFrame) {
+      markers.push({ time: toSeconds(signal.candle.time), position: isBuy ? 'belowBar' : 'aboveBar', shape: 'square', color: '#a855f7', text: 'Signal' });
+    }
+    if (replay.entryFrame <= frameIndex) {
+      markers.push({
+        time: toSeconds(replay.frames[replay.entryFrame].candle.time),
+        position: isBuy ? 'belowBar' : 'aboveBar',
+        shape: isBuy ? 'arrowUp' : 'arrowDown',
+        color: isBuy ? '#22c55e' : '#ef4444',
+        text: trade.direction,
+      });
+    }
+    if (replay.exitFrame <= frameIndex) {
+      markers.push({
+        time: toSeconds(replay.frames[replay.exitFrame].candle.time),
+        position: isBuy ? 'aboveBar' : 'belowBar',
+        shape: 'circle',
+        color: trade.isWinner ? '#22c55e' : '#ef4444',
+        text: `${trade.exitReason} ${trade.pnl >= 0 ? '+' : ''}${trade.pnl.toFixed(2)}`,
+      });
+    }
+    markersRef.current?.setMarkers(markers.sort((a, b) => (a.time as number) - (b.time as number)));
+  }, [replay, frameIndex]);
+
+  // Autoplay
+  useEffect(() => {
+    if (!isPlaying || !replay) return;
+    const interval = setInterval(() => {
+      setFrameIndex((index) => {
+        if (index >= replay.frames.length - 1) {
+          setIsPlaying(false);
+          return index;
+        }
+        return index + 1;
+      });
+    }, 600);
+    return () => clearInterval(interval);
+  }, [isPlaying, replay]);
+
+  const frame = replay?.frames[frameIndex];
+  const lastFrame = replay ? replay.frames.length - 1 : 0;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="text-base">
+          Trade Replay
+          {replay && (
+            <span className="ml-2 text-sm font-normal text-muted-foreground">
+              {replay.trade.symbol} {replay.trade.direction} · {new Date(replay.trade.entryTime).toLocaleString()}
+            </span>
+          )}
+        </CardTitle>
+        <Button variant="ghost" size="sm" onClick={onClose}>
+          <X className="h-4 w-4" />
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading && <p className="text-sm text-muted-foreground">Loading candles and re-running analysis...</p>}
+        {error && <p className="text-sm text-red-500">{error}</p>}
+
+        {replay && frame && (
+          <>
+            <div className="grid grid-cols-1 gap-4 lg:grid-cols-3">
+              <div className="lg:col-span-2 space-y-2">
+                <div className="relative w-full bg-[#1a1a1a] rounded-lg overflow-hidden" style={{ height: '400px' }}>
+                  <div ref={chartContainerRef} style={{ width: '100%', height: '100%' }} />
+                </div>
+
+                {/* Step controls */}
+                <div className="flex items-center justify-center gap-2">
+                  <Button variant="outline" size="sm" onClick={() => setFrameIndex(0)} disabled={frameIndex === 0}>
+                    <ChevronsLeft className="h-4 w-4" />
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => setFrameIndex((i) => Math.max(0, i - 1))} disabled={frameIndex === 0}>
+                    <ChevronLeft className="h-4 w-4" />
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => setIsPlaying((playing) => !playing)}>
+                    {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => setFrameIndex((i) => Math.min(lastFrame, i + 1))} disabled={frameIndex === lastFrame}>
+                    <ChevronRight className="h-4 w-4" />
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => setFrameIndex(lastFrame)} disabled={frameIndex === lastFrame}>
+                    <ChevronsRight className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => setFrameIndex(replay.signalFrame)}>
+                    Signal
+                  </Button>
+                </div>
+                <p className="text-center text-xs text-muted-foreground">
+                  Candle {frameIndex + 1}/{replay.frames.length} · {new Date(frame.candle.time).toLocaleString()} ({replay.timeframes.ltf})
+                  {replay.truncated && ' · truncated before the exit'}
+                </p>
+              </div>
+
+              <ReplayDetails
+                frame={frame}
+                reason={replay.reason}
+                confidence={replay.confidence}
+                hasSnapshot={hasSnapshot}
+              />
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function ReplayDetails({
+  frame,
+  reason,
+  confidence,
+  hasSnapshot,
+}: {
+  frame: ReplayFrame;
+  reason: string | null;
+  confidence: number | null;
+  hasSnapshot: boolean;
+}) {
+  const { levels } = frame;
+
+  return (
+    <div className="space-y-3 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <Badge variant="outline">{PHASE_LABELS[frame.phase]}</Badge>
+        {frame.isSignal && <Badge>Signal candle</Badge>}
+        <span className="text-xs text-muted-foreground">Confluence {levels.confluenceScore}</span>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {(Object.keys(levels.bias) as (keyof ReplayLevels['bias'])[]).map((tf) => (
+          <Badge key={tf} variant={biasVariant(levels.bias[tf])} className="text-xs">
+            {tf.toUpperCase()} {levels.bias[tf]}
+          </Badge>
+        ))}
+      </div>
+
+      <div className="rounded-lg bg-muted/50 p-3">
+        <p className="text-xs text-muted-foreground">Signal reason</p>
+        {hasSnapshot ? (
+          <p>
+            {reason || '—'}
+            {confidence !== null && (
+              <span className="text-xs text-muted-foreground"> · confidence {(confidence * 100).toFixed(0)}%</span>
+            )}
+          </p>
+        ) : (
+          <p className="text-xs text-muted-foreground">
+            Not captured - run the backtest with entry snapshots to keep the reason
+          </p>
+        )}
+      </div>
+
+      {levels.premiumDiscount && (
+        <div>
+          <p className="text-xs text-muted-foreground">Premium / Discount</p>
+          <p>
+            EQ {levels.premiumDiscount.equilibrium.toFixed(2)} ·{' '}
+            <span className={frame.candle.close > levels.premiumDiscount.equilibrium ? 'text-red-500' : 'text-green-500'}>
+              {frame.candle.close > levels.premiumDiscount.equilibrium ? 'premium' : 'discount'}
+            </span>
+          </p>
+        </div>
+      )}
+
+      <LevelList
+        title="Order Blocks"
+        items={levels.orderBlocks.map((ob) => ({
+          key: ob.id,
+          label: `${ob.timeframe} ${ob.type === 'BULLISH' ? 'bull' : 'bear'}`,
+          value: `${ob.low.toFixed(2)} – ${ob.high.toFixed(2)}`,
+          bullish: ob.type === 'BULLISH',
+        }))}
+      />
+      <LevelList
+        title="Fair Value Gaps"
+        items={levels.fvgs.map((fvg) => ({
+          key: fvg.id,
+          label: `${fvg.timeframe} ${fvg.type === 'BULLISH' ? 'bull' : 'bear'}`,
+          value: `${fvg.low.toFixed(2)} – ${fvg.high.toFixed(2)}`,
+          bullish: fvg.type === 'BULLISH',
+        }))}
+      />
+      <LevelList
+        title="Liquidity"
+        items={levels.liquidityZones.map((zone) => ({
+          key: zone.id,
+          label: `${zone.timeframe} ${zone.type === 'HIGH' ? 'highs' : 'lows'}`,
+          value: zone.price.toFixed(2),
+          bullish: zone.type === 'LOW',
+        }))}
+      />
+    </div>
+  );
+}
+
+function LevelList({
+  title,
+  items,
+}: {
+  title: string;
+  items: { key: string; label: string; value: string; bullish: boolean }[];
+}) {
+  return (
+    <div>
+      <p className="text-xs text-muted-foreground">{title} ({items.length})</p>
+      <div className="max-h-28 overflow-auto">
+        {items.map((item) => (
+          <div key={item.key} className="flex justify-between text-xs">
+            <span className={item.bullish ? 'text-green-500' : 'text-red-500'}>{item.label}</span>
+            <span>{item.value}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -2,13 +2,14 @@
 
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
-import { LayoutDashboard, Radio, LineChart, Calculator, Brain } from 'lucide-react';
+import { LayoutDashboard, Radio, LineChart, Calculator, Brain, FlaskConical } from 'lucide-react';
 
 const navItems = [
   { label: 'Dashboard', icon: LayoutDashboard, href: '/' },
   { label: 'Signals', icon: Radio, href: '/#signals' },
   { label: 'Chart', icon: LineChart, href: '/#chart' },
   { label: 'Strategy', icon: Brain, href: '/strategy-analyst' },
+  { label: 'Backtest', icon: FlaskConical, href: '/backtest' },
   { label: 'Calculator', icon: Calculator, href: '/calculator' },
 ];
 
@@ -25,11 +26,13 @@ export function BottomNav() {
           const isActive =
             item.href === '/calculator'
               ? pathname === '/calculator'
-              : item.href === '/strategy-analyst'
-                ? pathname === '/strategy-analyst'
-                : item.href === '/'
-                  ? pathname === '/' && !item.href.includes('#')
-                  : false;
+              : item.href === '/backtest'
+                ? pathname === '/backtest'
+                : item.href === '/strategy-analyst'
+                  ? pathname === '/strategy-analyst'
+                  : item.href === '/'
+                    ? pathname === '/' && !item.href.includes('#')
+                    : false;
 
           return (
             <Link
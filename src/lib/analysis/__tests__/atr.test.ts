@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { calculateATR, trueRange } from '../atr';
+import { Candle } from '../../types';
+
+function makeCandle(open: number, high: number, low: number, close: number): Candle {
+  return {
+    time: new Date(),
+    open,
+    high,
+    low,
+    close,
+    volume: 100,
+    symbol: 'XAUUSD',
+    timeframe: 'M15',
+  };
+}
+
+describe('trueRange', () => {
+  it('should widen the range by a gap from the previous close', () => {
+    const candle = makeCandle(2005, 2010, 2004, 2008);
+
+    expect(trueRange(candle, 2006)).toBe(6);
+    expect(trueRange(candle, 2000)).toBe(10);
+    expect(trueRange(candle, 2014)).toBe(10);
+  });
+});
+
+describe('calculateATR', () => {
+  it('should average the true range of the last period candles', () => {
+    const candles = [
+      makeCandle(2000, 2002, 1998, 2000),
+      makeCandle(2000, 2004, 1999, 2003), // 5
+      makeCandle(2003, 2005, 2002, 2004), // 3
+      makeCandle(2010, 2012, 2009, 2011), // gap: 8
+    ];
+
+    expect(calculateATR(candles, 3)).toBeCloseTo(16 / 3);
+    expect(calculateATR(candles, 2)).toBeCloseTo(5.5);
+  });
+
+  it('should return 0 without a candle before the period', () => {
+    expect(calculateATR([makeCandle(2000, 2002, 1998, 2000)], 1)).toBe(0);
+  });
+});
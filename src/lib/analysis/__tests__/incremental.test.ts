@@ -0,0 +1,181 @@
+import { describe, it, expect } from 'vitest';
+import { CandleWindowCursor, IncrementalMTFAnalyzer } from '../incremental';
+import { performMTFAnalysis, MTFData } from '../multi-timeframe';
+import { runStrategy, StrategyContext } from '../../strategies';
+import { createRandom } from '../../backtest/random';
+import { Candle, StrategyType, Timeframe } from '../../types';
+
+const START = Date.UTC(2026, 0, 5, 0);
+const M15 = 15 * 60 * 1000;
+
+/**
+ * Seeded random-walk M15 candles with some trend so structure, OBs and FVGs appear
+ */
+function makeLTFCandles(count: number, seed: number): Candle[] {
+  const random = createRandom(seed);
+  const candles: Candle[] = [];
+  let price = 2000;
+  for (let i = 0; i < count; i++) {
+    const drift = Math.sin(i / 60) * 0.8;
+    const open = price;
+    const close = open + drift + (random() - 0.5) * 6;
+    const high = Math.max(open, close) + random() * 2;
+    const low = Math.min(open, close) - random() * 2;
+    candles.push({
+      time: new Date(START + i * M15),
+      open,
+      high,
+      low,
+      close,
+      volume: 100,
+      symbol: 'XAUUSD',
+      timeframe: 'M15',
+    });
+    price = close;
+  }
+  return candles;
+}
+
+function aggregate(candles: Candle[], factor: number, timeframe: Timeframe): Candle[] {
+  const result: Candle[] = [];
+  for (let i = 0; i + factor <= candles.length; i += factor) {
+    const group = candles.slice(i, i + factor);
+    result.push({
+      time: group[0].time,
+      open: group[0].open,
+      high: Math.max(...group.map((c) => c.high)),
+      low: Math.min(...group.map((c) => c.low)),
+      close: group[group.length - 1].close,
+      volume: group.reduce((sum, c) => sum + c.volume, 0),
+      symbol: group[0].symbol,
+      timeframe,
+    });
+  }
+  return result;
+}
+
+/**
+ * The original batch path: filter the full history every bar
+ */
+function batchWindows(data: MTFData, i: number, currentTime: Date): MTFData {
+  return {
+    htfCandles: data.htfCandles.filter((c) => c.time <= currentTime).slice(-100),
+    mtfCandles: data.mtfCandles.filter((c) => c.time <= currentTime).slice(-200),
+    ltfCandles: data.ltfCandles.slice(Math.max(0, i - 100), i + 1),
+  };
+}
+
+/**
+ * Drop generated ids and creation timestamps so results can be compared
+ */
+function normalize(value: unknown): unknown {
+  return JSON.parse(
+    JSON.stringify(value, (key, v) => (key === 'id' || key === 'createdAt' || key === 'expiresAt' ? undefined : v))
+  );
+}
+
+function makeContext(data: MTFData, analysis: StrategyContext['analysis']): StrategyContext {
+  const candle = data.ltfCandles[data.ltfCandles.length - 1];
+  return {
+    symbol: 'XAUUSD',
+    currentPrice: candle.close,
+    bid: candle.close,
+    ask: candle.close + 0.3,
+    analysis,
+    htfCandles: data.htfCandles,
+    mtfCandles: data.mtfCandles,
+    ltfCandles: data.ltfCandles,
+  };
+}
+
+describe('CandleWindowCursor', () => {
+  const ltfCandles = makeLTFCandles(1200, 7);
+  const data: MTFData = {
+    htfCandles: aggregate(ltfCandles, 16, 'H4'),
+    mtfCandles: aggregate(ltfCandles, 4, 'H1'),
+    ltfCandles,
+  };
+
+  it('should return the same windows as filtering the full history', () => {
+    const cursor = new CandleWindowCursor(data);
+    for (let i = 0; i < ltfCandles.length; i += 7) {
+      const time = ltfCandles[i].time;
+      expect(cursor.at(i, time)).toEqual(batchWindows(data, i, time));
+    }
+  });
+
+  it('should rescan when time moves backwards', () => {
+    const cursor = new CandleWindowCursor(data);
+    cursor.at(1000, ltfCandles[1000].time);
+    const time = ltfCandles[500].time;
+    expect(cursor.at(500, time)).toEqual(batchWindows(data, 500, time));
+  });
+});
+
+describe('IncrementalMTFAnalyzer', () => {
+  const ltfCandles = makeLTFCandles(1200, 42);
+  const data: MTFData = {
+    htfCandles: aggregate(ltfCandles, 16, 'H4'),
+    mtfCandles: aggregate(ltfCandles, 4, 'H1'),
+    ltfCandles,
+  };
+  const strategies: StrategyType[] = ['ORDER_BLOCK', 'LIQUIDITY_SWEEP', 'BOS'];
+
+  it('should produce the same analysis and signals as the batch path on every bar', () => {
+    const cursor = new CandleWindowCursor(data);
+    const analyzer = new IncrementalMTFAnalyzer('XAUUSD');
+    let signals = 0;
+
+    for (let i = 850; i < ltfCandles.length; i++) {
+      const time = ltfCandles[i].time;
+      const batch = batchWindows(data, i, time);
+      const windows = cursor.at(i, time);
+
+      const expected = performMTFAnalysis(batch, 'XAUUSD', 'H4', 'H1', 'M15');
+      const actual = analyzer.analyze(windows, 'H4', 'H1', 'M15');
+      expect(normalize(actual)).toEqual(normalize(expected));
+
+      for (const strategy of strategies) {
+        const expectedSignal = runStrategy(strategy, makeContext(batch, expected));
+        const actualSignal = runStrategy(strategy, makeContext(windows, actual));
+        expect(normalize(actualSignal)).toEqual(normalize(expectedSignal));
+        if (expectedSignal) signals++;
+      }
+    }
+
+    // The comparison is only meaningful if the series produced some signals
+    expect(signals).toBeGreaterThan(0);
+  });
+
+  it('should only re-analyze HTF and MTF when their candles close', () => {
+    const cursor = new CandleWindowCursor(data);
+    const analyzer = new IncrementalMTFAnalyzer('XAUUSD');
+
+    for (let i = 1008; i < 1168; i++) {
+      analyzer.analyze(cursor.at(i, ltfCandles[i].time), 'H4', 'H1', 'M15');
+    }
+
+    const stats = analyzer.getStats();
+    expect(stats.calls).toBe(160);
+    expect(stats.ltfRuns).toBe(160);
+    expect(stats.mtfRuns).toBe(40); // one H1 candle per 4 M15 bars
+    expect(stats.htfRuns).toBe(10); // one H4 candle per 16 M15 bars
+  });
+
+  it('should re-analyze when the forming candle changes', () => {
+    const analyzer = new IncrementalMTFAnalyzer('XAUUSD');
+    const windows = new CandleWindowCursor(data).at(1000, ltfCandles[1000].time);
+    analyzer.analyze(windows, 'H4', 'H1', 'M15');
+
+    const lastHTF = windows.htfCandles[windows.htfCandles.length - 1];
+    const updated: MTFData = {
+      ...windows,
+      htfCandles: [...windows.htfCandles.slice(0, -1), { ...lastHTF, close: lastHTF.close + 1 }],
+    };
+    analyzer.analyze(updated, 'H4', 'H1', 'M15');
+
+    const stats = analyzer.getStats();
+    expect(stats.htfRuns).toBe(2);
+    expect(stats.mtfRuns).toBe(1);
+  });
+});
@@ -6,8 +6,9 @@ import {
   checkOrderBlockMitigation,
   isPriceAtOrderBlock,
   getNearestOrderBlock,
+  scoreOrderBlock,
 } from '../order-blocks';
-import { Candle, OrderBlock, Timeframe } from '../../types';
+import { Candle, FairValueGap, OrderBlock, Timeframe } from '../../types';
 
 function makeCandle(
   time: Date,
@@ -284,3 +285,50 @@ describe('getNearestOrderBlock', () => {
     expect(getNearestOrderBlock(obs, 2000, 'BEARISH')).toBeUndefined();
   });
 });
+
+describe('scoreOrderBlock', () => {
+  const ob: OrderBlock = {
+    id: '1',
+    symbol: 'XAUUSD',
+    timeframe: 'H1',
+    type: 'BULLISH',
+    high: 2044,
+    low: 2035,
+    open: 2042,
+    close: 2036,
+    candleTime: t(20),
+    isValid: true,
+  };
+
+  const fvg: FairValueGap = {
+    id: 'fvg',
+    symbol: 'XAUUSD',
+    timeframe: 'H1',
+    type: 'BULLISH',
+    high: 2055,
+    low: 2044,
+    gapTime: t(21),
+    isFilled: false,
+  };
+
+  it('should score a fresh, tight OB with a strong displacement', () => {
+    // 3+ ATR displacement (40) + range under 1 ATR (20) + unmitigated (20)
+    expect(scoreOrderBlock(ob, buildCandlesWithBullishOB())).toBe(80);
+  });
+
+  it('should add FVG confluence only for FVGs of the same direction', () => {
+    const candles = buildCandlesWithBullishOB();
+    expect(scoreOrderBlock(ob, candles, [fvg])).toBe(100);
+    expect(scoreOrderBlock(ob, candles, [{ ...fvg, type: 'BEARISH' }])).toBe(80);
+  });
+
+  it('should drop the unmitigated points once price returns into the OB', () => {
+    const candles = buildCandlesWithBullishOB();
+    candles.push(makeCandle(t(25), 2088, 2089, 2040, 2045));
+    expect(scoreOrderBlock(ob, candles)).toBe(60);
+  });
+
+  it('should score 0 when the OB candle is not in the candles', () => {
+    expect(scoreOrderBlock({ ...ob, candleTime: t(100) }, buildCandlesWithBullishOB())).toBe(0);
+  });
+});
@@ -0,0 +1,33 @@
+import { Candle } from '../types';
+
+/**
+ * Average True Range
+ * Volatility measure shared by order block detection, backtest slippage and ATR sizing
+ */
+
+/**
+ * True range of a candle: its own range, widened by any gap from the previous close
+ */
+export function trueRange(candle: Candle, prevClose: number): number {
+  return Math.max(
+    candle.high - candle.low,
+    Math.abs(candle.high - prevClose),
+    Math.abs(candle.low - prevClose)
+  );
+}
+
+/**
+ * Average True Range over the last `period` candles (0 without enough candles)
+ */
+export function calculateATR(candles: Candle[], period: number = 14): number {
+  if (candles.length < period + 1) {
+    return 0;
+  }
+
+  let atrSum = 0;
+  for (let i = candles.length - period; i < candles.length; i++) {
+    atrSum += trueRange(candles[i], candles[i - 1].close);
+  }
+
+  return atrSum / period;
+}
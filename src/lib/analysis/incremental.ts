@@ -0,0 +1,170 @@
+import { Candle, Timeframe, MultiTimeframeAnalysis, InducementLevel } from '../types';
+import {
+  MTFData,
+  HTFAnalysis,
+  MTFAnalysis,
+  LTFAnalysis,
+  analyzeHTF,
+  analyzeMTF,
+  analyzeLTF,
+  findInducements,
+  combineMTFAnalysis,
+} from './multi-timeframe';
+
+/**
+ * Incremental Multi-Timeframe Analysis
+ * HTF and MTF candles close far less often than LTF candles, so their analysis only needs
+ * re-running when their window changes. Results match performMTFAnalysis on the same windows.
+ */
+
+export interface AnalysisWindowSizes {
+  htf: number;
+  mtf: number;
+  ltf: number;
+}
+
+/** Candles passed to the analysis per timeframe (LTF includes the current candle) */
+export const DEFAULT_ANALYSIS_WINDOWS: AnalysisWindowSizes = { htf: 100, mtf: 200, ltf: 101 };
+
+/**
+ * Sliding analysis windows over a full candle history.
+ * Keeps index pointers into the HTF/MTF arrays instead of filtering them every bar.
+ * Candles must be sorted by time.
+ */
+export class CandleWindowCursor {
+  private htfEnd = 0;
+  private mtfEnd = 0;
+  private lastTime = -Infinity;
+
+  constructor(
+    private data: MTFData,
+    private sizes: AnalysisWindowSizes = DEFAULT_ANALYSIS_WINDOWS
+  ) {}
+
+  /**
+   * Windows ending at LTF candle `ltfIndex`, with HTF/MTF candles opened at or before currentTime
+   */
+  at(ltfIndex: number, currentTime: Date): MTFData {
+    const time = currentTime.getTime();
+    if (time < this.lastTime) {
+      // Moved backwards - rescan from the start
+      this.htfEnd = 0;
+      this.mtfEnd = 0;
+    }
+    this.lastTime = time;
+
+    this.htfEnd = advancePointer(this.data.htfCandles, this.htfEnd, time);
+    this.mtfEnd = advancePointer(this.data.mtfCandles, this.mtfEnd, time);
+
+    return {
+      htfCandles: this.data.htfCandles.slice(Math.max(0, this.htfEnd - this.sizes.htf), this.htfEnd),
+      mtfCandles: this.data.mtfCandles.slice(Math.max(0, this.mtfEnd - this.sizes.mtf), this.mtfEnd),
+      ltfCandles: this.data.ltfCandles.slice(Math.max(0, ltfIndex - this.sizes.ltf + 1), ltfIndex + 1),
+    };
+  }
+}
+
+function advancePointer(candles: Candle[], end: number, time: number): number {
+  while (end < candles.length && candles[end].time.getTime() <= time) {
+    end++;
+  }
+  return end;
+}
+
+/**
+ * Identifies a candle window: closed candles never change, so the same span with the same
+ * last candle is the same window. The last candle's OHLC catches a still-forming candle.
+ */
+function windowKey(candles: Candle[], timeframe: Timeframe): string {
+  if (candles.length === 0) return `${timeframe}:empty`;
+  const first = candles[0];
+  const last = candles[candles.length - 1];
+  return [
+    timeframe,
+    candles.length,
+    first.time.getTime(),
+    last.time.getTime(),
+    last.open,
+    last.high,
+    last.low,
+    last.close,
+  ].join(':');
+}
+
+interface CachedResult<T> {
+  key: string;
+  result: T;
+}
+
+export interface IncrementalAnalysisStats {
+  htfRuns: number;
+  mtfRuns: number;
+  ltfRuns: number;
+  calls: number;
+}
+
+/**
+ * Per-symbol analyzer that reuses the HTF, MTF and LTF results whose windows did not change.
+ * Drop-in replacement for performMTFAnalysis in the backtest loop and the live bot.
+ */
+export class IncrementalMTFAnalyzer {
+  private htf: CachedResult<HTFAnalysis> | null = null;
+  private mtf: CachedResult<MTFAnalysis> | null = null;
+  private ltf: CachedResult<LTFAnalysis> | null = null;
+  private inducements: CachedResult<InducementLevel[]> | null = null;
+  private stats: IncrementalAnalysisStats = { htfRuns: 0, mtfRuns: 0, ltfRuns: 0, calls: 0 };
+
+  constructor(private symbol: string) {}
+
+  analyze(
+    data: MTFData,
+    htfTimeframe: Timeframe,
+    mtfTimeframe: Timeframe,
+    ltfTimeframe: Timeframe
+  ): MultiTimeframeAnalysis {
+    this.stats.calls++;
+
+    const htfKey = windowKey(data.htfCandles, htfTimeframe);
+    if (this.htf?.key !== htfKey) {
+      this.htf = { key: htfKey, result: analyzeHTF(data.htfCandles, this.symbol, htfTimeframe) };
+      this.stats.htfRuns++;
+    }
+
+    const mtfKey = windowKey(data.mtfCandles, mtfTimeframe);
+    if (this.mtf?.key !== mtfKey) {
+      this.mtf = { key: mtfKey, result: analyzeMTF(data.mtfCandles, this.symbol, mtfTimeframe) };
+      this.stats.mtfRuns++;
+    }
+
+    const ltfKey = windowKey(data.ltfCandles, ltfTimeframe);
+    if (this.ltf?.key !== ltfKey) {
+      this.ltf = { key: ltfKey, result: analyzeLTF(data.ltfCandles, this.symbol, ltfTimeframe) };
+      this.stats.ltfRuns++;
+    }
+
+    const inducementKey = `${htfKey}|${mtfKey}`;
+    if (this.inducements?.key !== inducementKey) {
+      this.inducements = {
+        key: inducementKey,
+        result: findInducements(this.htf.result, this.mtf.result, data.mtfCandles, this.symbol),
+      };
+    }
+
+    return combineMTFAnalysis(this.htf.result, this.mtf.result, this.ltf.result, this.inducements.result);
+  }
+
+  /**
+   * How often each timeframe was actually re-analyzed
+   */
+  getStats(): IncrementalAnalysisStats {
+    return { ...this.stats };
+  }
+
+  reset(): void {
+    this.htf = null;
+    this.mtf = null;
+    this.ltf = null;
+    this.inducements = null;
+    this.stats = { htfRuns: 0, mtfRuns: 0, ltfRuns: 0, calls: 0 };
+  }
+}
@@ -1,9 +1,11 @@
 // SMC Analysis Engine - Export all analysis modules
 
 export * from './market-structure';
+export * from './atr';
 export * from './order-blocks';
 export * from './fvg';
 export * from './liquidity';
 export * from './multi-timeframe';
 export * from './kill-zones';
 export * from './confirmation';
+export * from './incremental';
@@ -1,4 +1,4 @@
-import { Candle, Timeframe, MultiTimeframeAnalysis, Bias, PremiumDiscountZone, CHoCHEvent, InducementLevel, LiquidityZone } from '../types';
+import { Candle, Timeframe, MultiTimeframeAnalysis, Bias, PremiumDiscountZone, CHoCHEvent, InducementLevel, LiquidityZone, SwingPoint } from '../types';
 import { analyzeMarketStructure, identifySwingPoints, calculatePremiumDiscount, detectCHOCH } from './market-structure';
 import { identifyOrderBlocks, filterValidOrderBlocks } from './order-blocks';
 import { identifyFVGs, filterUnfilledFVGs } from './fvg';
@@ -15,6 +15,18 @@ export interface MTFData {
   ltfCandles: Candle[];
 }
 
+export type HTFAnalysis = MultiTimeframeAnalysis['htf'] & {
+  /** HTF swing points, used for premium/discount */
+  swingPoints: SwingPoint[];
+};
+
+export type MTFAnalysis = MultiTimeframeAnalysis['mtf'] & {
+  recentCHoCH?: CHoCHEvent;
+  recentLiquiditySweep?: MultiTimeframeAnalysis['recentLiquiditySweep'];
+};
+
+export type LTFAnalysis = MultiTimeframeAnalysis['ltf'];
+
 /**
  * Performs complete multi-timeframe analysis
  */
@@ -25,68 +37,61 @@ export function performMTFAnalysis(
   mtfTimeframe: Timeframe,
   ltfTimeframe: Timeframe
 ): MultiTimeframeAnalysis {
-  // HTF Analysis (Bias determination)
-  const htfSwingPoints = identifySwingPoints(data.htfCandles);
-  const htfStructure = analyzeMarketStructure(data.htfCandles);
-  const htfOrderBlocks = filterValidOrderBlocks(
-    identifyOrderBlocks(data.htfCandles, symbol, htfTimeframe),
-    data.htfCandles
-  );
-  const htfLiquidity = filterUnsweptLiquidity(
-    identifyLiquidityZones(data.htfCandles, symbol, htfTimeframe, htfSwingPoints),
-    data.htfCandles
-  );
+  const htf = analyzeHTF(data.htfCandles, symbol, htfTimeframe);
+  const mtf = analyzeMTF(data.mtfCandles, symbol, mtfTimeframe);
+  const ltf = analyzeLTF(data.ltfCandles, symbol, ltfTimeframe);
+  const inducements = findInducements(htf, mtf, data.mtfCandles, symbol);
 
-  // MTF Analysis (Structure and POIs)
-  const mtfSwingPoints = identifySwingPoints(data.mtfCandles);
-  const mtfStructure = analyzeMarketStructure(data.mtfCandles);
-  const mtfOrderBlocks = filterValidOrderBlocks(
-    identifyOrderBlocks(data.mtfCandles, symbol, mtfTimeframe),
-    data.mtfCandles
-  );
-  const mtfFVGs = filterUnfilledFVGs(
-    identifyFVGs(data.mtfCandles, symbol, mtfTimeframe),
-    data.mtfCandles
-  );
-  const mtfLiquidity = filterUnsweptLiquidity(
-    identifyLiquidityZones(data.mtfCandles, symbol, mtfTimeframe, mtfSwingPoints),
-    data.mtfCandles
-  );
+  return combineMTFAnalysis(htf, mtf, ltf, inducements);
+}
 
-  // LTF Analysis (Entry precision)
-  const ltfStructure = analyzeMarketStructure(data.ltfCandles);
-  const ltfFVGs = filterUnfilledFVGs(
-    identifyFVGs(data.ltfCandles, symbol, ltfTimeframe),
-    data.ltfCandles
+/**
+ * HTF Analysis (Bias determination)
+ */
+export function analyzeHTF(candles: Candle[], symbol: string, timeframe: Timeframe): HTFAnalysis {
+  const swingPoints = identifySwingPoints(candles);
+  const structure = analyzeMarketStructure(candles);
+  const orderBlocks = filterValidOrderBlocks(
+    identifyOrderBlocks(candles, symbol, timeframe),
+    candles
   );
-
-  // Calculate confluence score
-  const confluenceScore = calculateConfluenceScore(
-    htfStructure.bias,
-    mtfStructure.bias,
-    ltfStructure.bias,
-    htfOrderBlocks.length,
-    mtfOrderBlocks.length,
-    mtfFVGs.length,
-    htfLiquidity.length,
-    mtfLiquidity.length
+  const liquidityZones = filterUnsweptLiquidity(
+    identifyLiquidityZones(candles, symbol, timeframe, swingPoints),
+    candles
   );
 
-  // SMC Enhancements
+  return {
+    timeframe,
+    bias: structure.bias,
+    structure,
+    orderBlocks,
+    liquidityZones,
+    swingPoints,
+  };
+}
 
-  // 1. Calculate Premium/Discount zones from HTF swing points
-  let premiumDiscount: PremiumDiscountZone | undefined;
-  const htfHighs = htfSwingPoints.filter((s) => s.type === 'HIGH');
-  const htfLows = htfSwingPoints.filter((s) => s.type === 'LOW');
-  if (htfHighs.length > 0 && htfLows.length > 0) {
-    const recentHigh = htfHighs[htfHighs.length - 1];
-    const recentLow = htfLows[htfLows.length - 1];
-    premiumDiscount = calculatePremiumDiscount(recentHigh.price, recentLow.price);
-  }
+/**
+ * MTF Analysis (Structure and POIs), including the CHoCH and liquidity sweep checks
+ */
+export function analyzeMTF(candles: Candle[], symbol: string, timeframe: Timeframe): MTFAnalysis {
+  const swingPoints = identifySwingPoints(candles);
+  const structure = analyzeMarketStructure(candles);
+  const orderBlocks = filterValidOrderBlocks(
+    identifyOrderBlocks(candles, symbol, timeframe),
+    candles
+  );
+  const fvgs = filterUnfilledFVGs(
+    identifyFVGs(candles, symbol, timeframe),
+    candles
+  );
+  const liquidityZones = filterUnsweptLiquidity(
+    identifyLiquidityZones(candles, symbol, timeframe, swingPoints),
+    candles
+  );
 
-  // 2. Detect recent CHoCH events
+  // Detect recent CHoCH events
   let recentCHoCH: CHoCHEvent | undefined;
-  const chochResult = detectCHOCH(data.mtfCandles, mtfStructure);
+  const chochResult = detectCHOCH(candles, structure);
   if (chochResult) {
     recentCHoCH = {
       type: chochResult.type,
@@ -95,11 +100,63 @@ export function performMTFAnalysis(
     };
   }
 
-  // 3. Identify inducement levels (minor liquidity before major zones)
+  // Check for recent liquidity sweep reversals
+  let recentLiquiditySweep: MultiTimeframeAnalysis['recentLiquiditySweep'] | undefined;
+  for (const zone of liquidityZones) {
+    const sweepResult = detectLiquiditySweepReversal(zone, candles, 5);
+    if (sweepResult.isReversal && sweepResult.rejectionCandle) {
+      recentLiquiditySweep = {
+        zone,
+        sweepTime: sweepResult.rejectionCandle.time,
+        isReversal: true,
+      };
+      break; // Use the most recent sweep
+    }
+  }
+
+  return {
+    timeframe,
+    bias: structure.bias,
+    structure,
+    orderBlocks,
+    fvgs,
+    liquidityZones,
+    recentCHoCH,
+    recentLiquiditySweep,
+  };
+}
+
+/**
+ * LTF Analysis (Entry precision)
+ */
+export function analyzeLTF(candles: Candle[], symbol: string, timeframe: Timeframe): LTFAnalysis {
+  const structure = analyzeMarketStructure(candles);
+  const fvgs = filterUnfilledFVGs(
+    identifyFVGs(candles, symbol, timeframe),
+    candles
+  );
+
+  return {
+    timeframe,
+    bias: structure.bias,
+    structure,
+    fvgs,
+  };
+}
+
+/**
+ * Identify inducement levels (minor liquidity before major zones)
+ */
+export function findInducements(
+  htf: HTFAnalysis,
+  mtf: MTFAnalysis,
+  mtfCandles: Candle[],
+  symbol: string
+): InducementLevel[] {
   const inducements: InducementLevel[] = [];
-  const allLiquidity = [...htfLiquidity, ...mtfLiquidity];
+  const allLiquidity = [...htf.liquidityZones, ...mtf.liquidityZones];
   for (const majorZone of allLiquidity.slice(0, 5)) { // Check top 5 major zones
-    const inducement = identifyInducement(majorZone, data.mtfCandles, symbol, mtfTimeframe);
+    const inducement = identifyInducement(majorZone, mtfCandles, symbol, mtf.timeframe);
     if (inducement) {
       inducements.push({
         majorLiquidity: majorZone,
@@ -108,49 +165,63 @@ export function performMTFAnalysis(
       });
     }
   }
+  return inducements;
+}
 
-  // 4. Check for recent liquidity sweep reversals
-  let recentLiquiditySweep: MultiTimeframeAnalysis['recentLiquiditySweep'] | undefined;
-  for (const zone of mtfLiquidity) {
-    const sweepResult = detectLiquiditySweepReversal(zone, data.mtfCandles, 5);
-    if (sweepResult.isReversal && sweepResult.rejectionCandle) {
-      recentLiquiditySweep = {
-        zone,
-        sweepTime: sweepResult.rejectionCandle.time,
-        isReversal: true,
-      };
-      break; // Use the most recent sweep
-    }
+/**
+ * Combines per-timeframe results into the full analysis with confluence score
+ */
+export function combineMTFAnalysis(
+  htf: HTFAnalysis,
+  mtf: MTFAnalysis,
+  ltf: LTFAnalysis,
+  inducements: InducementLevel[]
+): MultiTimeframeAnalysis {
+  // Calculate confluence score
+  const confluenceScore = calculateConfluenceScore(
+    htf.bias,
+    mtf.bias,
+    ltf.bias,
+    htf.orderBlocks.length,
+    mtf.orderBlocks.length,
+    mtf.fvgs.length,
+    htf.liquidityZones.length,
+    mtf.liquidityZones.length
+  );
+
+  // Calculate Premium/Discount zones from HTF swing points
+  let premiumDiscount: PremiumDiscountZone | undefined;
+  const htfHighs = htf.swingPoints.filter((s) => s.type === 'HIGH');
+  const htfLows = htf.swingPoints.filter((s) => s.type === 'LOW');
+  if (htfHighs.length > 0 && htfLows.length > 0) {
+    const recentHigh = htfHighs[htfHighs.length - 1];
+    const recentLow = htfLows[htfLows.length - 1];
+    premiumDiscount = calculatePremiumDiscount(recentHigh.price, recentLow.price);
   }
 
   return {
     htf: {
-      timeframe: htfTimeframe,
-      bias: htfStructure.bias,
-      structure: htfStructure,
-      orderBlocks: htfOrderBlocks,
-      liquidityZones: htfLiquidity,
+      timeframe: htf.timeframe,
+      bias: htf.bias,
+      structure: htf.structure,
+      orderBlocks: htf.orderBlocks,
+      liquidityZones: htf.liquidityZones,
     },
     mtf: {
-      timeframe: mtfTimeframe,
-      bias: mtfStructure.bias,
-      structure: mtfStructure,
-      orderBlocks: mtfOrderBlocks,
-      fvgs: mtfFVGs,
-      liquidityZones: mtfLiquidity,
-    },
-    ltf: {
-      timeframe: ltfTimeframe,
-      bias: ltfStructure.bias,
-      structure: ltfStructure,
-      fvgs: ltfFVGs,
+      timeframe: mtf.timeframe,
+      bias: mtf.bias,
+      structure: mtf.structure,
+      orderBlocks: mtf.orderBlocks,
+      fvgs: mtf.fvgs,
+      liquidityZones: mtf.liquidityZones,
     },
+    ltf,
     confluenceScore,
     // SMC Enhancement data
     premiumDiscount,
-    recentCHoCH,
+    recentCHoCH: mtf.recentCHoCH,
     inducements,
-    recentLiquiditySweep,
+    recentLiquiditySweep: mtf.recentLiquiditySweep,
   };
 }
 
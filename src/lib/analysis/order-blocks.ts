@@ -1,5 +1,6 @@
-import { Candle, OrderBlock, Timeframe, SwingPoint } from '../types';
+import { Candle, OrderBlock, Timeframe, SwingPoint, FairValueGap } from '../types';
 import { v4 as uuidv4 } from 'uuid';
+import { calculateATR } from './atr';
 
 /**
  * Order Block Analysis for Smart Money Concepts
@@ -8,32 +9,6 @@ import { v4 as uuidv4 } from 'uuid';
 
 const MIN_MOVE_MULTIPLIER = 0.8; // Minimum move required after OB (ATR multiplier) - lowered from 1.5 for better detection
 
-/**
- * Calculates Average True Range for volatility measurement
- */
-function calculateATR(candles: Candle[], period: number = 14): number {
-  if (candles.length < period + 1) {
-    return 0;
-  }
-
-  let atrSum = 0;
-
-  for (let i = candles.length - period; i < candles.length; i++) {
-    const current = candles[i];
-    const prev = candles[i - 1];
-
-    const tr = Math.max(
-      current.high - current.low,
-      Math.abs(current.high - prev.close),
-      Math.abs(current.low - prev.close)
-    );
-
-    atrSum += tr;
-  }
-
-  return atrSum / period;
-}
-
 /**
  * Checks if a candle is bullish
  */
@@ -301,6 +276,55 @@ export function filterValidOrderBlocks(
   return validOBs;
 }
 
+/**
+ * Scores an order block's quality from 0 to 100:
+ * - Displacement (40): how far price moved away from the OB within 10 candles, full marks at 3 ATR
+ * - Tight zone (20): OB range of at most 1 ATR, scaled down for wider blocks
+ * - FVG confluence (20): a same-direction FVG overlaps the OB or the impulse leaving it
+ * - Unmitigated (20): price has not traded back into the OB since the impulse candle
+ * An OB whose candle is not in `candles` scores 0.
+ */
+export function scoreOrderBlock(
+  orderBlock: OrderBlock,
+  candles: Candle[],
+  fvgs: FairValueGap[] = []
+): number {
+  const obIndex = candles.findIndex(
+    (c) => c.time.getTime() === orderBlock.candleTime.getTime()
+  );
+  const atr = calculateATR(candles);
+
+  if (obIndex === -1 || atr === 0) {
+    return 0;
+  }
+
+  const isBullish = orderBlock.type === 'BULLISH';
+  const impulse = candles.slice(obIndex + 1, obIndex + 11);
+  const impulseHigh = Math.max(orderBlock.high, ...impulse.map((c) => c.high));
+  const impulseLow = Math.min(orderBlock.low, ...impulse.map((c) => c.low));
+
+  const displacement = isBullish ? impulseHigh - orderBlock.low : orderBlock.high - impulseLow;
+  const displacementScore = Math.min(displacement / (atr * 3), 1) * 40;
+
+  const range = orderBlock.high - orderBlock.low;
+  const zoneScore = range <= atr ? 20 : (atr / range) * 20;
+
+  const hasFVG = fvgs.some(
+    (fvg) =>
+      fvg.type === orderBlock.type &&
+      fvg.low <= (isBullish ? impulseHigh : orderBlock.high) &&
+      fvg.high >= (isBullish ? orderBlock.low : impulseLow)
+  );
+  const fvgScore = hasFVG ? 20 : 0;
+
+  const isMitigated = candles
+    .slice(obIndex + 2)
+    .some((c) => checkOrderBlockMitigation(orderBlock, c));
+  const mitigationScore = isMitigated ? 0 : 20;
+
+  return Math.round(displacementScore + zoneScore + fvgScore + mitigationScore);
+}
+
 /**
  * Gets the nearest valid order block for potential entry
  */
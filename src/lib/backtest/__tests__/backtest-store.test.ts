@@ -0,0 +1,190 @@
+import { describe, it, expect, vi } from 'vitest';
+
+const prisma = vi.hoisted(() => ({
+  backtestTrade: { findUnique: vi.fn(), findFirst: vi.fn() },
+}));
+
+vi.mock('../../db', () => ({ prisma }));
+
+import {
+  backtestStore,
+  toBacktestResultData,
+  toBacktestTradeData,
+  toBacktestTradeRows,
+  parseCurve,
+  parseMetrics,
+  parseSnapshot,
+} from '../backtest-store';
+import { BacktestResult } from '../engine';
+import { BacktestEntrySnapshot, BacktestTrade } from '../../types';
+
+function makeTrade(overrides: Partial<BacktestTrade> = {}): BacktestTrade {
+  return {
+    symbol: 'XAUUSD.s',
+    direction: 'BUY',
+    entryPrice: 2000,
+    exitPrice: 2020,
+    stopLoss: 1990,
+    takeProfit: 2020,
+    lotSize: 0.1,
+    entryTime: new Date(Date.UTC(2026, 1, 16, 10)),
+    exitTime: new Date(Date.UTC(2026, 1, 16, 12)),
+    pnl: 200,
+    pnlPercent: 2,
+    isWinner: true,
+    exitReason: 'TP',
+    ...overrides,
+  };
+}
+
+function makeResult(overrides: Partial<BacktestResult['metrics']> = {}): BacktestResult {
+  return {
+    id: 'run-1',
+    config: {
+      strategy: 'ORDER_BLOCK',
+      symbol: 'XAUUSD.s',
+      startDate: new Date(Date.UTC(2026, 0, 1)),
+      endDate: new Date(Date.UTC(2026, 1, 1)),
+      initialBalance: 10000,
+      riskPercent: 2,
+      useTickData: false,
+    },
+    metrics: {
+      totalTrades: 1,
+      winningTrades: 1,
+      losingTrades: 0,
+      winRate: 100,
+      profitFactor: Infinity,
+      maxDrawdown: 0,
+      maxDrawdownPercent: 0,
+      sharpeRatio: 1.5,
+      averageWin: 200,
+      averageLoss: 0,
+      averageRR: 2,
+      totalPnl: 200,
+      totalPnlPercent: 2,
+      finalBalance: 10200,
+      ...overrides,
+    },
+    trades: [makeTrade()],
+    equityCurve: [{ date: new Date(Date.UTC(2026, 0, 1)), equity: 10000 }, { date: new Date(Date.UTC(2026, 0, 2)), equity: 10200 }],
+    drawdownCurve: [{ date: new Date(Date.UTC(2026, 0, 1)), drawdown: 0 }],
+  };
+}
+
+describe('toBacktestResultData', () => {
+  it('should map metrics to columns and store non-finite values as zero', () => {
+    const data = toBacktestResultData(makeResult(), 1234);
+
+    expect(data.symbol).toBe('XAUUSD.s');
+    expect(data.maxDrawdownPct).toBe(0);
+    expect(data.totalPnlPct).toBe(2);
+    expect(data.profitFactor).toBe(0);
+    expect(JSON.parse(data.metrics).profitFactor).toBe(0);
+    expect(data.durationMs).toBe(1234);
+  });
+
+  it('should list portfolio symbols', () => {
+    const result = makeResult();
+    result.config.symbols = ['XAUUSD.s', 'BTCUSD'];
+
+    expect(toBacktestResultData(result).symbol).toBe('XAUUSD.s,BTCUSD');
+  });
+
+  it('should store curves that parse back with dates', () => {
+    const result = makeResult();
+    const data = toBacktestResultData(result);
+
+    expect(parseCurve(data.equityCurve)).toEqual(result.equityCurve);
+    expect(parseCurve(data.drawdownCurve)).toEqual(result.drawdownCurve);
+    expect(parseCurve(null)).toEqual([]);
+  });
+});
+
+describe('toBacktestTradeData', () => {
+  it('should keep partial-close leg details', () => {
+    const data = toBacktestTradeData(makeTrade({ positionId: 'pos-1', leg: 'TP1' }));
+
+    expect(data.positionId).toBe('pos-1');
+    expect(data.leg).toBe('TP1');
+    expect(toBacktestTradeData(makeTrade()).leg).toBeNull();
+  });
+
+  it('should keep the execution costs', () => {
+    const costs = { spread: 2.5, commission: 7, slippage: 0.4, swap: -1.2, total: 8.7 };
+
+    expect(JSON.parse(toBacktestTradeData(makeTrade({ costs })).costs!)).toEqual(costs);
+    expect(toBacktestTradeData(makeTrade()).costs).toBeNull();
+  });
+});
+
+const snapshot: BacktestEntrySnapshot = {
+  time: new Date(Date.UTC(2026, 1, 16, 10)),
+  reason: 'Bullish OB retest',
+  confidence: 0.75,
+  analysis: {
+    htf: { timeframe: 'H4', bias: 'BULLISH', structure: { bias: 'BULLISH', lastStructure: 'HH', swingPoints: [] }, orderBlocks: [], liquidityZones: [] },
+    mtf: { timeframe: 'H1', bias: 'BULLISH', structure: { bias: 'BULLISH', lastStructure: 'HL', swingPoints: [] }, orderBlocks: [], fvgs: [], liquidityZones: [] },
+    ltf: { timeframe: 'M15', bias: 'BULLISH', structure: { bias: 'BULLISH', lastStructure: 'HL', swingPoints: [] }, fvgs: [] },
+    confluenceScore: 80,
+    recentCHoCH: { type: 'BULLISH', price: 1995, time: new Date(Date.UTC(2026, 1, 16, 8)) },
+  },
+};
+
+describe('toBacktestTradeRows', () => {
+  it('should store the entry snapshot once per position', () => {
+    const rows = toBacktestTradeRows([
+      makeTrade({ positionId: 'pos-1', leg: 'TP1', snapshot }),
+      makeTrade({ positionId: 'pos-1', leg: 'REMAINDER', snapshot }),
+      makeTrade({ positionId: 'pos-2', snapshot }),
+    ]);
+
+    expect(rows.map((row) => row.snapshot !== null)).toEqual([true, false, true]);
+  });
+});
+
+describe('parseSnapshot', () => {
+  it('should round-trip an entry snapshot with its dates', () => {
+    const data = toBacktestTradeData(makeTrade({ snapshot }));
+
+    expect(parseSnapshot(data.snapshot)).toEqual(snapshot);
+    expect(toBacktestTradeData(makeTrade()).snapshot).toBeNull();
+    expect(parseSnapshot(null)).toBeUndefined();
+  });
+});
+
+describe('parseMetrics', () => {
+  it('should rebuild metrics from columns for rows without the JSON column', () => {
+    const data = toBacktestResultData(makeResult({ profitFactor: 1.8 }));
+    const row = { ...data, id: 'run-1', metrics: null, createdAt: new Date() };
+
+    const metrics = parseMetrics(row);
+
+    expect(metrics.profitFactor).toBe(1.8);
+    expect(metrics.maxDrawdownPercent).toBe(0);
+    expect(metrics.totalPnlPercent).toBe(2);
+    expect(metrics.costs).toBeUndefined();
+  });
+});
+
+describe('backtestStore.getTrade', () => {
+  const row = {
+    ...toBacktestTradeData(makeTrade({ positionId: 'pos-1', leg: 'REMAINDER' })),
+    id: 'trade-2',
+    backtestId: 'run-1',
+    backtest: { config: null },
+  };
+
+  it('should resolve the snapshot of a later leg from the first leg of its position', async () => {
+    prisma.backtestTrade.findUnique.mockResolvedValueOnce(row);
+    prisma.backtestTrade.findFirst.mockResolvedValueOnce({ snapshot: JSON.stringify(snapshot) });
+
+    const stored = await backtestStore.getTrade('trade-2');
+
+    expect(stored?.trade.snapshot).toEqual(snapshot);
+    expect(prisma.backtestTrade.findFirst).toHaveBeenCalledWith({
+      where: { backtestId: 'run-1', positionId: 'pos-1', snapshot: { not: null } },
+      select: { snapshot: true },
+    });
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { parseBacktestOptions } from '../config-options';
+
+describe('parseBacktestOptions', () => {
+  it('keeps well-typed options and ignores other fields', () => {
+    const body = {
+      symbol: 'XAUUSD.s',
+      useKillZones: true,
+      killZones: ['LONDON_OPEN', 'NY_OPEN'],
+      confirmationType: 'engulf',
+      fixedRR: 2.5,
+      executionCosts: {
+        spread: { mode: 'session', spread: 0.3, sessionSpreads: { ASIAN: 0.5 } },
+        commissionPerLot: 3.5,
+        swap: { 'XAUUSD.s': { long: -4.1, short: 1.2, tripleSwapDay: null } },
+      },
+      breakeven: { enabled: true, triggerR: 1, bufferPips: 2 },
+      sizing: { mode: 'KELLY', kellyFraction: 0.25 },
+      symbolSizing: { BTCUSD: { mode: 'ATR' } },
+      unknownOption: 'x',
+    };
+
+    const { options, errors } = parseBacktestOptions(body);
+
+    expect(errors).toEqual([]);
+    expect(options).toEqual({
+      useKillZones: true,
+      killZones: ['LONDON_OPEN', 'NY_OPEN'],
+      confirmationType: 'engulf',
+      fixedRR: 2.5,
+      executionCosts: body.executionCosts,
+      breakeven: body.breakeven,
+      sizing: body.sizing,
+      symbolSizing: body.symbolSizing,
+    });
+  });
+
+  it('reports each option of the wrong type', () => {
+    const { options, errors } = parseBacktestOptions({
+      fixedRR: '2',
+      killZones: ['LUNCH'],
+      rrMode: 'fixed',
+      executionCosts: { commissionPerLot: 3, spread: { mode: 'fixed' } },
+      breakeven: { enabled: true },
+      limitEntry: { enabled: true, pullback: 0.5 },
+      sizing: { mode: 'MARTINGALE' },
+      captureSnapshots: 'yes',
+    });
+
+    expect(options).toEqual({ rrMode: 'fixed' });
+    expect(errors.map((e) => e.split(':')[0])).toEqual([
+      'Invalid killZones',
+      'Invalid fixedRR',
+      'Invalid executionCosts',
+      'Invalid breakeven',
+      'Invalid limitEntry',
+      'Invalid captureSnapshots',
+      'Invalid sizing',
+    ]);
+  });
+
+  it('accepts a positive balance and a risk of at most 100 percent', () => {
+    expect(parseBacktestOptions({ initialBalance: 5000, riskPercent: 100 })).toEqual({
+      options: { initialBalance: 5000, riskPercent: 100 },
+      errors: [],
+    });
+
+    for (const body of [
+      { initialBalance: 0, riskPercent: 0 },
+      { initialBalance: -100, riskPercent: 101 },
+      { initialBalance: '5000', riskPercent: '1' },
+      { initialBalance: Infinity, riskPercent: NaN },
+    ]) {
+      const { options, errors } = parseBacktestOptions(body);
+      expect(options).toEqual({});
+      expect(errors.map((e) => e.split(':')[0])).toEqual(['Invalid initialBalance', 'Invalid riskPercent']);
+    }
+  });
+});
@@ -0,0 +1,368 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { BacktestEngine } from '../engine';
+import { BacktestConfig, Candle, Signal, SymbolInfo, Timeframe, TIERED_TP_PROFILES } from '../../types';
+import { StrategyContext } from '../../strategies';
+
+// Signals are scripted per symbol and entry time so the engine's fills can be checked exactly
+const scripted = vi.hoisted(() => ({
+  signals: new Map<string, { direction: 'BUY' | 'SELL'; stopLoss: number; takeProfit: number }>(),
+}));
+
+vi.mock('../../strategies', () => ({
+  runStrategy: (_strategy: string, context: StrategyContext): Signal | null => {
+    const candle = context.ltfCandles[context.ltfCandles.length - 1];
+    const planned = scripted.signals.get(`${context.symbol}@${candle.time.getTime()}`);
+    if (!planned) return null;
+    return {
+      id: `${context.symbol}-${candle.time.getTime()}`,
+      symbol: context.symbol,
+      direction: planned.direction,
+      strategy: 'ORDER_BLOCK',
+      entryPrice: candle.close,
+      stopLoss: planned.stopLoss,
+      takeProfit: planned.takeProfit,
+      confidence: 0.8,
+      timeframe: 'M15',
+      status: 'PENDING',
+      reason: 'test',
+      htfBias: 'BULLISH',
+      mtfStructure: 'BULLISH',
+      createdAt: candle.time,
+    };
+  },
+}));
+
+vi.mock('../../analysis/incremental', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../analysis/incremental')>()),
+  IncrementalMTFAnalyzer: class {
+    analyze() {
+      return {
+        htf: { bias: 'BULLISH' },
+        mtf: { bias: 'BULLISH', orderBlocks: [] },
+        ltf: { bias: 'BULLISH' },
+      };
+    }
+  },
+}));
+
+const START = Date.UTC(2026, 1, 16, 0);
+const M15 = 15 * 60 * 1000;
+
+function makeCandle(symbol: string, time: number, open: number, high: number, low: number, close: number, timeframe: Timeframe): Candle {
+  return { time: new Date(time), open, high, low, close, volume: 100, symbol, timeframe };
+}
+
+/**
+ * 100 flat warm-up bars at `price`, then the given [high, low, close] bars
+ */
+function makeData(symbol: string, price: number, bars: [number, number, number][]) {
+  const ltfCandles: Candle[] = [];
+  for (let i = 0; i <= 100; i++) {
+    ltfCandles.push(makeCandle(symbol, START + i * M15, price, price, price, price, 'M15'));
+  }
+  bars.forEach(([high, low, close], i) => {
+    ltfCandles.push(makeCandle(symbol, START + (101 + i) * M15, close, high, low, close, 'M15'));
+  });
+
+  const history = (count: number, step: number, timeframe: Timeframe) =>
+    Array.from({ length: count }, (_, i) => makeCandle(symbol, START - (count - i) * step, price, price, price, price, timeframe));
+
+  return {
+    htfCandles: history(60, 4 * 60 * 60 * 1000, 'H4'),
+    mtfCandles: history(120, 60 * 60 * 1000, 'H1'),
+    ltfCandles,
+  };
+}
+
+function makeConfig(overrides: Partial<BacktestConfig> = {}): BacktestConfig {
+  return {
+    strategy: 'ORDER_BLOCK',
+    symbol: 'XAUUSD.s',
+    startDate: new Date(START),
+    endDate: new Date(START + 200 * M15),
+    initialBalance: 10000,
+    riskPercent: 1,
+    useTickData: false,
+    useKillZones: false,
+    ...overrides,
+  };
+}
+
+const ENTRY_TIME = START + 100 * M15;
+
+describe('BacktestEngine', () => {
+  beforeEach(() => {
+    scripted.signals.clear();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('should record tiered TP partial closes as separate legs of one position', async () => {
+    // Risk 10 -> 0.1 lots; RUNNER closes 30% at 1R, 30% at 2R, moves SL to TP1 after TP2
+    scripted.signals.set(`XAUUSD.s@${ENTRY_TIME}`, { direction: 'BUY', stopLoss: 1990, takeProfit: 2100 });
+    const data = makeData('XAUUSD.s', 2000, [
+      [2011, 1999, 2010], // TP1 at 2010
+      [2021, 2012, 2020], // TP2 at 2020
+      [2015, 2005, 2008], // SL at TP1 level (2010)
+    ]);
+
+    const engine = new BacktestEngine(makeConfig({ tieredTP: TIERED_TP_PROFILES['RUNNER'] }));
+    const result = await engine.runCandleBacktest(data.htfCandles, data.mtfCandles, data.ltfCandles);
+
+    expect(result.trades.map((t) => t.leg)).toEqual(['TP1', 'TP2', 'REMAINDER']);
+    expect(result.trades.map((t) => t.lotSize)).toEqual([0.03, 0.03, 0.04]);
+    expect(result.trades.map((t) => t.exitPrice)).toEqual([2010, 2020, 2010]);
+    expect(new Set(result.trades.map((t) => t.positionId)).size).toBe(1);
+
+    // 0.03×10×100 + 0.03×20×100 + 0.04×10×100
+    expect(result.metrics.totalTrades).toBe(1);
+    expect(result.metrics.winningTrades).toBe(1);
+    expect(result.metrics.totalPnl).toBeCloseTo(130);
+  });
+
+  it('should track excursions per leg and report R against the initial risk', async () => {
+    scripted.signals.set(`XAUUSD.s@${ENTRY_TIME}`, { direction: 'BUY', stopLoss: 1990, takeProfit: 2100 });
+    const data = makeData('XAUUSD.s', 2000, [
+      [2011, 1999, 2010],
+      [2021, 2012, 2020],
+      [2015, 2005, 2008],
+    ]);
+
+    const engine = new BacktestEngine(makeConfig({ tieredTP: TIERED_TP_PROFILES['RUNNER'] }));
+    const result = await engine.runCandleBacktest(data.htfCandles, data.mtfCandles, data.ltfCandles);
+
+    expect(result.trades.map((t) => t.mae)).toEqual([1, 1, 1]);
+    expect(result.trades.map((t) => t.mfe)).toEqual([11, 21, 21]);
+
+    // 130 on a 100 risk (0.1 lots × 10 × 100)
+    const performance = result.metrics.performance;
+    expect(performance?.expectancyR).toBeCloseTo(1.3);
+    expect(performance?.averageMAER).toBeCloseTo(0.1);
+    expect(performance?.averageMFER).toBeCloseTo(2.1);
+    expect(performance?.significance.sampleSize).toBe(1);
+    expect(performance?.benchmark?.buyAndHoldReturnPercent).toBeCloseTo(0.4);
+    expect(performance?.benchmark?.strategyReturnPercent).toBeCloseTo(1.3);
+    expect(result.metrics.sharpeRatio).toBe(performance?.sharpeRatio);
+  });
+
+  it('should move SL to breakeven at the trigger R when tiered TP is off', async () => {
+    scripted.signals.set(`XAUUSD.s@${ENTRY_TIME}`, { direction: 'BUY', stopLoss: 1990, takeProfit: 2030 });
+    const data = makeData('XAUUSD.s', 2000, [
+      [2011, 1999, 2010], // reaches 1R -> SL to 2000.5
+      [2005, 1995, 1996], // stopped at breakeven
+    ]);
+
+    const engine = new BacktestEngine(makeConfig({
+      breakeven: { enabled: true, triggerR: 1, bufferPips: 5 },
+    }));
+    const result = await engine.runCandleBacktest(data.htfCandles, data.mtfCandles, data.ltfCandles);
+
+    expect(result.trades).toHaveLength(1);
+    expect(result.trades[0].exitReason).toBe('SL');
+    expect(result.trades[0].exitPrice).toBeCloseTo(2000.5);
+    expect(result.trades[0].leg).toBeUndefined();
+  });
+
+  it('should attach the entry snapshot to every leg when snapshots are captured', async () => {
+    scripted.signals.set(`XAUUSD.s@${ENTRY_TIME}`, { direction: 'BUY', stopLoss: 1990, takeProfit: 2100 });
+    const data = makeData('XAUUSD.s', 2000, [
+      [2011, 1999, 2010],
+      [2021, 2012, 2020],
+      [2015, 2005, 2008],
+    ]);
+
+    const engine = new BacktestEngine(makeConfig({ tieredTP: TIERED_TP_PROFILES['RUNNER'], captureSnapshots: true }));
+    const result = await engine.runCandleBacktest(data.htfCandles, data.mtfCandles, data.ltfCandles);
+
+    const snapshot = result.trades[0].snapshot;
+    expect(snapshot?.time.getTime()).toBe(ENTRY_TIME);
+    expect(snapshot?.reason).toBe('test');
+    expect(snapshot?.confidence).toBe(0.8);
+    expect(snapshot?.analysis.htf.bias).toBe('BULLISH');
+    expect(result.trades.every((t) => t.snapshot === snapshot)).toBe(true);
+
+    const plain = await new BacktestEngine(makeConfig()).runCandleBacktest(data.htfCandles, data.mtfCandles, data.ltfCandles);
+    expect(plain.trades[0].snapshot).toBeUndefined();
+  });
+
+  it('should share one account across symbols and enforce the open trade limit', async () => {
+    scripted.signals.set(`XAUUSD.s@${ENTRY_TIME}`, { direction: 'BUY', stopLoss: 1990, takeProfit: 2020 });
+    scripted.signals.set(`XAGUSD.s@${ENTRY_TIME}`, { direction: 'BUY', stopLoss: 29.98, takeProfit: 30.2 });
+    scripted.signals.set(`XAGUSD.s@${ENTRY_TIME + 2 * M15}`, { direction: 'BUY', stopLoss: 29.98, takeProfit: 30.2 });
+
+    const data = {
+      'XAUUSD.s': makeData('XAUUSD.s', 2000, [
+        [2005, 1998, 2003],
+        [2021, 2003, 2020], // TP
+        [2020, 2020, 2020],
+        [2020, 2020, 2020],
+      ]),
+      'XAGUSD.s': makeData('XAGUSD.s', 30, [
+        [30, 30, 30],
+        [30, 30, 30],
+        [30, 30, 30],
+        [30.25, 30, 30.2], // TP
+      ]),
+    };
+
+    const engine = new BacktestEngine(makeConfig({
+      symbols: ['XAUUSD.s', 'XAGUSD.s'],
+      maxConcurrentTrades: 1,
+    }));
+    const result = await engine.runPortfolioBacktest(data);
+
+    // XAGUSD.s is blocked while gold is open, then trades after it closes
+    expect(result.trades.map((t) => t.symbol)).toEqual(['XAUUSD.s', 'XAGUSD.s']);
+    expect(result.trades[1].entryTime.getTime()).toBe(ENTRY_TIME + 2 * M15);
+
+    // Second trade is sized off the balance after the first win ($102 risk / 2 pips -> 1.02 lots)
+    const gold = result.symbols.find((s) => s.symbol === 'XAUUSD.s');
+    expect(gold?.totalPnl).toBeCloseTo(200);
+    expect(result.trades[1].lotSize).toBeCloseTo(1.02);
+    expect(result.metrics.finalBalance).toBeCloseTo(10000 + 200 + 1.02 * 0.2 * 5000);
+    expect(result.correlation.symbols).toEqual(['XAUUSD.s', 'XAGUSD.s']);
+  });
+
+  it('should refuse to run a symbol without a spec', async () => {
+    const data = makeData('US30', 40000, [[40010, 39990, 40000]]);
+    const engine = new BacktestEngine(makeConfig({ symbol: 'US30' }));
+
+    await expect(engine.runCandleBacktest(data.htfCandles, data.mtfCandles, data.ltfCandles)).rejects.toThrow(
+      'No symbol specification for US30'
+    );
+  });
+
+  it('should size and value non-USD-quoted symbols in account currency', async () => {
+    // Tick value 0.67 USD per 0.001 tick on 100k units -> 1 JPY = 0.0067 USD
+    const gbpjpy: SymbolInfo = {
+      symbol: 'GBPJPY', description: '', digits: 3, pipSize: 0.01, contractSize: 100000,
+      minVolume: 0.01, maxVolume: 100, volumeStep: 0.01, tickSize: 0.001, tickValue: 0.67,
+      baseCurrency: 'GBP', profitCurrency: 'JPY',
+    };
+    scripted.signals.set(`GBPJPY@${ENTRY_TIME}`, { direction: 'BUY', stopLoss: 189.8, takeProfit: 190.4 });
+    const data = makeData('GBPJPY', 190, [[190.45, 189.95, 190.4]]);
+
+    const engine = new BacktestEngine(makeConfig({ symbol: 'GBPJPY', symbolSpecs: { GBPJPY: gbpjpy } }));
+    const result = await engine.runCandleBacktest(data.htfCandles, data.mtfCandles, data.ltfCandles);
+
+    // $100 risk / (20 pips × 6.7 USD per pip) -> 0.74 lots
+    expect(result.trades[0].lotSize).toBeCloseTo(0.74);
+    expect(result.trades[0].pnl).toBeCloseTo(0.4 * 0.74 * 100000 * 0.0067);
+  });
+
+  it('should fill limit entries only when price trades through the limit', async () => {
+    // Limit 0.5R below the 2000 signal entry -> 1995, sized off the 5 point stop: 0.2 lots
+    scripted.signals.set(`XAUUSD.s@${ENTRY_TIME}`, { direction: 'BUY', stopLoss: 1990, takeProfit: 2020 });
+    const data = makeData('XAUUSD.s', 2000, [
+      [2005, 1995, 2003], // touches the limit, no fill
+      [2004, 1994, 2000], // trades through -> filled at 1995
+      [2021, 2000, 2020], // TP
+    ]);
+
+    const engine = new BacktestEngine(makeConfig({ limitEntry: { enabled: true, pullbackR: 0.5 } }));
+    const result = await engine.runCandleBacktest(data.htfCandles, data.mtfCandles, data.ltfCandles);
+
+    expect(result.trades).toHaveLength(1);
+    expect(result.trades[0].entryPrice).toBe(1995);
+    expect(result.trades[0].entryTime.getTime()).toBe(ENTRY_TIME + 2 * M15);
+    expect(result.trades[0].lotSize).toBeCloseTo(0.2);
+    expect(result.trades[0].pnl).toBeCloseTo(25 * 0.2 * 100);
+    expect(result.metrics.limitOrders).toEqual({ placed: 1, filled: 1, expired: 0, invalidated: 0, fillRate: 100 });
+  });
+
+  it('should cancel limit orders on expiry and when the target is reached first', async () => {
+    scripted.signals.set(`XAUUSD.s@${ENTRY_TIME}`, { direction: 'BUY', stopLoss: 1990, takeProfit: 2020 });
+    scripted.signals.set(`XAUUSD.s@${ENTRY_TIME + 3 * M15}`, { direction: 'BUY', stopLoss: 1990, takeProfit: 2020 });
+    const data = makeData('XAUUSD.s', 2000, [
+      [2003, 1999, 2000],
+      [2003, 1999, 2000], // expires after 2 candles
+      [2003, 1999, 2000], // new order placed
+      [2021, 2001, 2015], // target reached before fill
+    ]);
+
+    const engine = new BacktestEngine(makeConfig({ limitEntry: { enabled: true, pullbackR: 0.5, expiryCandles: 2 } }));
+    const result = await engine.runCandleBacktest(data.htfCandles, data.mtfCandles, data.ltfCandles);
+
+    expect(result.trades).toHaveLength(0);
+    expect(result.metrics.limitOrders).toEqual({ placed: 2, filled: 0, expired: 1, invalidated: 1, fillRate: 0 });
+  });
+
+  it('should charge no exit spread when a tick backtest closes a BUY at the end of data', async () => {
+    scripted.signals.set(`XAUUSD.s@${ENTRY_TIME}`, { direction: 'BUY', stopLoss: 1990, takeProfit: 2100 });
+    const data = makeData('XAUUSD.s', 2000, []);
+    const ticks = [
+      { time: new Date(ENTRY_TIME), bid: 2000, ask: 2000.5, symbol: 'XAUUSD.s' },
+      { time: new Date(ENTRY_TIME + 10000), bid: 2005, ask: 2006, symbol: 'XAUUSD.s' },
+    ];
+
+    const engine = new BacktestEngine(makeConfig({ useTickData: true }));
+    const result = await engine.runTickBacktest(data.htfCandles, data.mtfCandles, data.ltfCandles, ticks);
+
+    const trade = result.trades[0];
+    expect(trade.exitReason).toBe('SIGNAL');
+    expect(trade.exitPrice).toBe(2005);
+    // Only the entry spread (0.5) is paid - the BUY exits on bid
+    expect(trade.costs?.spread).toBeCloseTo(0.5 * trade.lotSize * 100);
+  });
+
+  describe('intrabar resolution', () => {
+    const ambiguousBar: [number, number, number][] = [[2021, 1989, 2000]]; // touches SL and TP
+
+    beforeEach(() => {
+      scripted.signals.set(`XAUUSD.s@${ENTRY_TIME}`, { direction: 'BUY', stopLoss: 1990, takeProfit: 2020 });
+    });
+
+    it('should fall back to the stop loss and count the ambiguous bar', async () => {
+      const data = makeData('XAUUSD.s', 2000, ambiguousBar);
+      const result = await new BacktestEngine(makeConfig()).runCandleBacktest(data.htfCandles, data.mtfCandles, data.ltfCandles);
+
+      expect(result.trades[0].exitReason).toBe('SL');
+      expect(result.metrics.intrabar).toEqual({ ambiguousBars: 1, resolvedBars: 0, fallbackBars: 1 });
+    });
+
+    it('should use the optimistic fallback when configured', async () => {
+      const data = makeData('XAUUSD.s', 2000, ambiguousBar);
+      const engine = new BacktestEngine(makeConfig({ intrabarFallback: 'optimistic' }));
+      const result = await engine.runCandleBacktest(data.htfCandles, data.mtfCandles, data.ltfCandles);
+
+      expect(result.trades[0].exitReason).toBe('TP');
+    });
+
+    it('should take the level hit first on lower-timeframe candles', async () => {
+      const data = makeData('XAUUSD.s', 2000, ambiguousBar);
+      const barStart = ENTRY_TIME + M15;
+      const m1 = [
+        makeCandle('XAUUSD.s', barStart, 2000, 2005, 1999, 2004, 'M1'),
+        makeCandle('XAUUSD.s', barStart + 60000, 2004, 2021, 2003, 2015, 'M1'), // TP
+        makeCandle('XAUUSD.s', barStart + 120000, 2015, 2015, 1989, 2000, 'M1'),
+      ];
+
+      const engine = new BacktestEngine(makeConfig());
+      engine.setIntrabarData('XAUUSD.s', { candles: m1 });
+      const result = await engine.runCandleBacktest(data.htfCandles, data.mtfCandles, data.ltfCandles);
+
+      expect(result.trades[0].exitReason).toBe('TP');
+      expect(result.trades[0].exitPrice).toBe(2020);
+      expect(result.metrics.intrabar).toEqual({ ambiguousBars: 1, resolvedBars: 1, fallbackBars: 0 });
+    });
+
+    it('should stop the remainder at breakeven when TP1 came first on the same bar', async () => {
+      // BALANCED closes 50% at 1R (2010) and moves SL to entry + 5 pips
+      scripted.signals.set(`XAUUSD.s@${ENTRY_TIME}`, { direction: 'BUY', stopLoss: 1990, takeProfit: 2100 });
+      const data = makeData('XAUUSD.s', 2000, [[2011, 1989, 2000]]);
+      const barStart = ENTRY_TIME + M15;
+      const m1 = [
+        makeCandle('XAUUSD.s', barStart, 2000, 2011, 1999, 2009, 'M1'), // TP1
+        makeCandle('XAUUSD.s', barStart + 60000, 2009, 2009, 1989, 1995, 'M1'), // back through the stop
+      ];
+
+      const engine = new BacktestEngine(makeConfig({ tieredTP: TIERED_TP_PROFILES['BALANCED'] }));
+      engine.setIntrabarData('XAUUSD.s', { candles: m1 });
+      const result = await engine.runCandleBacktest(data.htfCandles, data.mtfCandles, data.ltfCandles);
+
+      expect(result.trades.map((t) => t.leg)).toEqual(['TP1', 'REMAINDER']);
+      expect(result.trades.map((t) => t.exitReason)).toEqual(['TP', 'SL']);
+      expect(result.trades[0].exitPrice).toBe(2010);
+      expect(result.trades[1].exitPrice).toBeCloseTo(2000.5);
+    });
+  });
+});
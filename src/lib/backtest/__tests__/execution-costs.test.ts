@@ -0,0 +1,185 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ExecutionCostModel,
+  countSwapNights,
+  sumCosts,
+  getDefaultExecutionCosts,
+} from '../execution-costs';
+import { Candle, Timeframe } from '../../types';
+
+function makeCandle(time: Date, open: number, high: number, low: number, close: number): Candle {
+  return {
+    time,
+    open,
+    high,
+    low,
+    close,
+    volume: 100,
+    symbol: 'XAUUSD.s',
+    timeframe: 'M1' as Timeframe,
+  };
+}
+
+describe('countSwapNights', () => {
+  it('should return 0 for an intraday trade', () => {
+    // Tue 2026-02-17 08:00 -> 16:00 UTC
+    const entry = new Date(Date.UTC(2026, 1, 17, 8));
+    const exit = new Date(Date.UTC(2026, 1, 17, 16));
+    expect(countSwapNights(entry, exit)).toBe(0);
+  });
+
+  it('should count one night for a position held over rollover', () => {
+    // Mon 21:00 -> Tue 02:00, rollover at 22:00 Monday
+    const entry = new Date(Date.UTC(2026, 1, 16, 21));
+    const exit = new Date(Date.UTC(2026, 1, 17, 2));
+    expect(countSwapNights(entry, exit)).toBe(1);
+  });
+
+  it('should charge triple swap on Wednesday rollover', () => {
+    // Wed 21:00 -> Thu 02:00
+    const entry = new Date(Date.UTC(2026, 1, 18, 21));
+    const exit = new Date(Date.UTC(2026, 1, 19, 2));
+    expect(countSwapNights(entry, exit)).toBe(3);
+  });
+
+  it('should skip weekend rollovers', () => {
+    // Fri 20:00 -> Mon 02:00 crosses Fri, Sat and Sun rollovers
+    const entry = new Date(Date.UTC(2026, 1, 20, 20));
+    const exit = new Date(Date.UTC(2026, 1, 23, 2));
+    expect(countSwapNights(entry, exit)).toBe(1);
+  });
+
+  it('should charge every night when tripleSwapDay is null', () => {
+    const entry = new Date(Date.UTC(2026, 1, 20, 20));
+    const exit = new Date(Date.UTC(2026, 1, 23, 2));
+    expect(countSwapNights(entry, exit, 22, null)).toBe(3);
+  });
+
+  it('should attribute early-morning rollovers to the previous day', () => {
+    // Rollover at 00:00 UTC Thursday closes Wednesday -> triple
+    const entry = new Date(Date.UTC(2026, 1, 18, 20));
+    const exit = new Date(Date.UTC(2026, 1, 19, 2));
+    expect(countSwapNights(entry, exit, 0)).toBe(3);
+  });
+});
+
+describe('ExecutionCostModel', () => {
+  it('should be disabled with no config', () => {
+    const model = new ExecutionCostModel(undefined, 'XAUUSD.s', 100);
+    expect(model.isEnabled()).toBe(false);
+    expect(model.getSpread(new Date())).toBe(0);
+    expect(model.getSlippage()).toBe(0);
+    expect(model.getCommission(1)).toBe(0);
+  });
+
+  it('should return a fixed spread', () => {
+    const model = new ExecutionCostModel(
+      { spread: { mode: 'fixed', spread: 0.25 } },
+      'XAUUSD.s',
+      100
+    );
+    expect(model.isEnabled()).toBe(true);
+    expect(model.getSpread(new Date(Date.UTC(2026, 1, 16, 3)))).toBe(0.25);
+  });
+
+  it('should look up spread by session with fallback', () => {
+    const model = new ExecutionCostModel(
+      { spread: { mode: 'session', spread: 0.3, sessionSpreads: { ASIAN: 0.5, OVERLAP: 0.15 } } },
+      'XAUUSD.s',
+      100
+    );
+    expect(model.getSpread(new Date(Date.UTC(2026, 1, 16, 3)))).toBe(0.5); // Asian
+    expect(model.getSpread(new Date(Date.UTC(2026, 1, 16, 13)))).toBe(0.15); // Overlap
+    expect(model.getSpread(new Date(Date.UTC(2026, 1, 16, 9)))).toBe(0.3); // London -> fallback
+  });
+
+  it('should calculate commission per side', () => {
+    const model = new ExecutionCostModel({ commissionPerLot: 3.5 }, 'XAUUSD.s', 100);
+    expect(model.getCommission(0.2)).toBeCloseTo(0.7);
+  });
+
+  it('should draw reproducible random slippage within bounds', () => {
+    const config = { slippage: { mode: 'random' as const, maxSlippage: 0.1, seed: 42 } };
+    const a = new ExecutionCostModel(config, 'XAUUSD.s', 100);
+    const b = new ExecutionCostModel(config, 'XAUUSD.s', 100);
+
+    for (let i = 0; i < 20; i++) {
+      const slipA = a.getSlippage();
+      expect(slipA).toBeGreaterThanOrEqual(0);
+      expect(slipA).toBeLessThan(0.1);
+      expect(b.getSlippage()).toBe(slipA);
+    }
+  });
+
+  it('should scale ATR slippage with volatility', () => {
+    const candles: Candle[] = [];
+    for (let i = 0; i < 20; i++) {
+      candles.push(makeCandle(new Date(Date.UTC(2026, 1, 16, 10, i)), 2000, 2002, 1998, 2000));
+    }
+    // ATR = 4, fraction 0.5 -> max slippage 2
+    const model = new ExecutionCostModel(
+      { slippage: { mode: 'atr', atrFraction: 0.5, atrPeriod: 14 } },
+      'XAUUSD.s',
+      100
+    );
+    const slip = model.getSlippage(candles);
+    expect(slip).toBeGreaterThan(0);
+    expect(slip).toBeLessThan(2);
+    // Not enough data for ATR -> no slippage
+    expect(model.getSlippage(candles.slice(0, 5))).toBe(0);
+  });
+
+  it('should charge negative swap rates as a cost', () => {
+    const model = new ExecutionCostModel(
+      { swap: { 'XAUUSD.s': { long: -5, short: 2 } } },
+      'XAUUSD.s',
+      100
+    );
+    const entry = new Date(Date.UTC(2026, 1, 16, 20));
+    const exit = new Date(Date.UTC(2026, 1, 17, 2));
+    expect(model.getSwap('BUY', 0.5, entry, exit)).toBeCloseTo(2.5);
+    expect(model.getSwap('SELL', 0.5, entry, exit)).toBeCloseTo(-1);
+  });
+
+  it('should ignore swap rates for other symbols', () => {
+    const model = new ExecutionCostModel(
+      { swap: { BTCUSD: { long: -20, short: -20 } } },
+      'XAUUSD.s',
+      100
+    );
+    expect(model.isEnabled()).toBe(false);
+    const entry = new Date(Date.UTC(2026, 1, 16, 22));
+    const exit = new Date(Date.UTC(2026, 1, 18, 2));
+    expect(model.getSwap('BUY', 1, entry, exit)).toBe(0);
+  });
+
+  it('should convert price distance to account currency', () => {
+    const model = new ExecutionCostModel(undefined, 'XAUUSD.s', 100);
+    // 0.25 spread × 0.2 lots × 100 oz = $5
+    expect(model.toAccountCurrency(0.25, 0.2)).toBeCloseTo(5);
+  });
+});
+
+describe('sumCosts', () => {
+  it('should add up breakdowns and skip undefined entries', () => {
+    const total = sumCosts([
+      { spread: 1, commission: 2, slippage: 0.5, swap: 1, total: 4.5 },
+      undefined,
+      { spread: 2, commission: 2, slippage: 0, swap: -1, total: 3 },
+    ]);
+    expect(total).toEqual({ spread: 3, commission: 4, slippage: 0.5, swap: 0, total: 7.5 });
+  });
+});
+
+describe('getDefaultExecutionCosts', () => {
+  it('should use the typical spread for known symbols', () => {
+    const costs = getDefaultExecutionCosts('XAUUSD.s');
+    expect(costs.spread).toEqual({ mode: 'fixed', spread: 0.25 });
+  });
+
+  it('should apply overrides', () => {
+    const costs = getDefaultExecutionCosts('BTCUSD', { commissionPerLot: 5 });
+    expect(costs.spread?.spread).toBe(15);
+    expect(costs.commissionPerLot).toBe(5);
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { resolveIntrabarOrder, sliceByTime } from '../intrabar';
+import { Candle, Tick } from '../../types';
+
+const START = Date.UTC(2026, 1, 16, 10);
+const MINUTE = 60 * 1000;
+
+function makeCandle(minute: number, high: number, low: number): Candle {
+  return { time: new Date(START + minute * MINUTE), open: low, high, low, close: high, volume: 10, symbol: 'XAUUSD.s', timeframe: 'M1' };
+}
+
+function makeTick(second: number, bid: number, ask: number = bid + 0.3): Tick {
+  return { time: new Date(START + second * 1000), bid, ask, symbol: 'XAUUSD.s' };
+}
+
+const barStart = new Date(START);
+const barEnd = new Date(START + 15 * MINUTE);
+
+describe('sliceByTime', () => {
+  it('should keep items in [start, end)', () => {
+    const candles = [makeCandle(-1, 1, 1), makeCandle(0, 1, 1), makeCandle(14, 1, 1), makeCandle(15, 1, 1)];
+    expect(sliceByTime(candles, barStart, barEnd)).toEqual([candles[1], candles[2]]);
+  });
+});
+
+describe('resolveIntrabarOrder', () => {
+  it('should use the first tick that reaches a level', () => {
+    const ticks = [makeTick(1, 2005), makeTick(2, 2020.5), makeTick(3, 1989)];
+    expect(resolveIntrabarOrder('BUY', 1990, 2020, barStart, barEnd, { ticks })).toEqual({ first: 'TARGET', resolved: true });
+  });
+
+  it('should check SELL levels on the ask', () => {
+    const ticks = [makeTick(1, 2009.8, 2010.1), makeTick(2, 1979, 1979.3)];
+    expect(resolveIntrabarOrder('SELL', 2010, 1980, barStart, barEnd, { ticks })).toEqual({ first: 'SL', resolved: true });
+  });
+
+  it('should walk lower-timeframe candles', () => {
+    const candles = [makeCandle(0, 2005, 1995), makeCandle(1, 2001, 1989), makeCandle(2, 2021, 1995)];
+    expect(resolveIntrabarOrder('BUY', 1990, 2020, barStart, barEnd, { candles })).toEqual({ first: 'SL', resolved: true });
+  });
+
+  it('should fall back when finer data is missing or also ambiguous', () => {
+    const candles = [makeCandle(0, 2021, 1989)];
+    expect(resolveIntrabarOrder('BUY', 1990, 2020, barStart, barEnd, { candles })).toEqual({ first: 'SL', resolved: false });
+    expect(resolveIntrabarOrder('BUY', 1990, 2020, barStart, barEnd, undefined, 0, 'optimistic')).toEqual({ first: 'TARGET', resolved: false });
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { calculateLimitPrice, resolvePendingOrder, finalizeLimitOrderStats } from '../limit-orders';
+import { Candle } from '../../types';
+
+function makeCandle(high: number, low: number): Candle {
+  return { time: new Date(Date.UTC(2026, 1, 16, 10)), open: low, high, low, close: high, volume: 100, symbol: 'XAUUSD.s', timeframe: 'M15' };
+}
+
+describe('calculateLimitPrice', () => {
+  it('should pull the limit back toward the stop loss', () => {
+    expect(calculateLimitPrice('BUY', 2000, 1990, 0.3)).toBeCloseTo(1997);
+    expect(calculateLimitPrice('SELL', 2000, 2010, 0.5)).toBeCloseTo(2005);
+    expect(calculateLimitPrice('BUY', 2000, 1990)).toBe(2000);
+  });
+});
+
+describe('resolvePendingOrder', () => {
+  const buy = { direction: 'BUY' as const, limitPrice: 1995, takeProfit: 2020 };
+  const sell = { direction: 'SELL' as const, limitPrice: 2005, takeProfit: 1980 };
+
+  it('should require price to trade through the limit', () => {
+    expect(resolvePendingOrder(buy, makeCandle(2000, 1995))).toBeNull();
+    expect(resolvePendingOrder(buy, makeCandle(2000, 1994.9))).toBe('FILLED');
+    expect(resolvePendingOrder(sell, makeCandle(2005.1, 2000))).toBe('FILLED');
+  });
+
+  it('should fill BUY limits on the ask', () => {
+    expect(resolvePendingOrder(buy, makeCandle(2000, 1994.5), 0.6)).toBeNull();
+  });
+
+  it('should invalidate orders when the target is reached before a fill', () => {
+    expect(resolvePendingOrder(buy, makeCandle(2020, 1999))).toBe('INVALIDATED');
+    expect(resolvePendingOrder(sell, makeCandle(2001, 1979.5), 0.4)).toBe('INVALIDATED');
+  });
+});
+
+describe('finalizeLimitOrderStats', () => {
+  it('should calculate the fill rate', () => {
+    expect(finalizeLimitOrderStats({ placed: 4, filled: 1, expired: 2, invalidated: 1, fillRate: 0 }).fillRate).toBe(25);
+    expect(finalizeLimitOrderStats({ placed: 0, filled: 0, expired: 0, invalidated: 0, fillRate: 0 }).fillRate).toBe(0);
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { runMonteCarlo, simulatePath, percentile, summarizeDistribution } from '../monte-carlo';
+import { BacktestTrade } from '../../types';
+
+function makeTrade(pnlPercent: number, overrides: Partial<BacktestTrade> = {}): BacktestTrade {
+  return {
+    symbol: 'XAUUSD.s',
+    direction: 'BUY',
+    entryPrice: 2000,
+    exitPrice: pnlPercent > 0 ? 2020 : 1990,
+    stopLoss: 1990,
+    takeProfit: 2020,
+    lotSize: 0.1,
+    entryTime: new Date(Date.UTC(2026, 1, 16, 10)),
+    exitTime: new Date(Date.UTC(2026, 1, 16, 12)),
+    pnl: pnlPercent * 100,
+    pnlPercent,
+    isWinner: pnlPercent > 0,
+    exitReason: pnlPercent > 0 ? 'TP' : 'SL',
+    ...overrides,
+  };
+}
+
+describe('simulatePath', () => {
+  it('should compound returns and track drawdown and losing streaks', () => {
+    const stats = simulatePath([10, -10, -10, 20], 1000);
+
+    expect(stats.finalBalance).toBeCloseTo(1000 * 1.1 * 0.9 * 0.9 * 1.2);
+    expect(stats.maxDrawdownPercent).toBeCloseTo(19);
+    expect(stats.longestLosingStreak).toBe(2);
+    expect(stats.ruined).toBe(false);
+  });
+
+  it('should flag ruin at the drawdown threshold', () => {
+    expect(simulatePath([-30, -30], 1000, 50).ruined).toBe(true);
+  });
+});
+
+describe('distribution helpers', () => {
+  it('should interpolate percentiles', () => {
+    expect(percentile([1, 2, 3, 4, 5], 50)).toBe(3);
+    expect(percentile([0, 10], 25)).toBe(2.5);
+  });
+
+  it('should bucket every value into the histogram', () => {
+    const distribution = summarizeDistribution([1, 2, 3, 4, 5, 6, 7, 8, 9, 10], 5);
+    expect(distribution.histogram).toHaveLength(5);
+    expect(distribution.histogram.reduce((sum, bin) => sum + bin.count, 0)).toBe(10);
+    expect(distribution.histogram[4].to).toBe(10);
+    expect(distribution.mean).toBe(5.5);
+  });
+});
+
+describe('runMonteCarlo', () => {
+  const trades = [2, -1, 2, -1, -1, 2, -1, 2, 2, -1].map((p) => makeTrade(p));
+
+  it('should keep the final balance fixed when shuffling trade order', () => {
+    const result = runMonteCarlo(trades, 10000, { method: 'shuffle', iterations: 200 });
+
+    expect(result.finalBalance.min).toBeCloseTo(result.original.finalBalance);
+    expect(result.finalBalance.max).toBeCloseTo(result.original.finalBalance);
+    expect(result.longestLosingStreak.max).toBeGreaterThanOrEqual(result.original.longestLosingStreak);
+    expect(result.probabilityOfProfit).toBe(100);
+  });
+
+  it('should be reproducible for the same seed', () => {
+    const a = runMonteCarlo(trades, 10000, { iterations: 100, seed: 42 });
+    const b = runMonteCarlo(trades, 10000, { iterations: 100, seed: 42 });
+
+    expect(a).toEqual(b);
+    expect(a.finalBalance.max).toBeGreaterThan(a.finalBalance.min);
+    expect(JSON.parse(JSON.stringify(a))).toEqual(a);
+  });
+
+  it('should treat partial-close legs of one position as a single draw', () => {
+    const legs = [
+      makeTrade(1, { positionId: 'a', leg: 'TP1' }),
+      makeTrade(0.5, { positionId: 'a', leg: 'REMAINDER' }),
+      makeTrade(-1),
+    ];
+    expect(runMonteCarlo(legs, 10000, { iterations: 10 }).tradeCount).toBe(2);
+  });
+});
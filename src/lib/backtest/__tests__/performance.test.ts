@@ -0,0 +1,165 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculatePerformanceMetrics,
+  calculateExposure,
+  calculateSharpe,
+  calculateSortino,
+  resampleDaily,
+  studentTPValue,
+  testMeanR,
+  toPerformanceTrade,
+  PerformanceTrade,
+} from '../performance';
+import { BacktestTrade } from '../../types';
+
+// Friday
+const DAY0 = Date.UTC(2026, 0, 2);
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+function makeTrade(from: number, to: number, r?: number): PerformanceTrade {
+  return { entryTime: new Date(from), exitTime: new Date(to), r };
+}
+
+describe('resampleDaily', () => {
+  it('should keep the last equity per day and carry it over flat weekdays only', () => {
+    const daily = resampleDaily([
+      { date: new Date(DAY0 + 20 * HOUR), equity: 10100 },
+      { date: new Date(DAY0 + 10 * HOUR), equity: 10050 },
+      { date: new Date(DAY0 + 4 * DAY + 12 * HOUR), equity: 10200 }, // Tuesday
+    ]);
+
+    expect(daily.map((p) => p.date.getUTCDay())).toEqual([5, 1, 2]);
+    expect(daily.map((p) => p.equity)).toEqual([10100, 10100, 10200]);
+  });
+});
+
+describe('ratios', () => {
+  it('should annualise the mean over the standard deviation', () => {
+    const returns = [0.01, -0.01, 0.02];
+    const mean = 0.02 / 3;
+    const stdDev = Math.sqrt(((0.01 - mean) ** 2 + (-0.01 - mean) ** 2 + (0.02 - mean) ** 2) / 2);
+
+    expect(calculateSharpe(returns)).toBeCloseTo((mean / stdDev) * Math.sqrt(252));
+    expect(calculateSortino(returns, 365)).toBeCloseTo((mean / Math.sqrt(0.0001 / 3)) * Math.sqrt(365));
+  });
+
+  it('should return 0 without any variation or downside', () => {
+    expect(calculateSharpe([0.01, 0.01])).toBe(0);
+    expect(calculateSortino([0.01, 0.02])).toBe(0);
+  });
+});
+
+describe('calculateExposure', () => {
+  it('should count overlapping trades once and clip to the period', () => {
+    const trades = [
+      makeTrade(DAY0, DAY0 + 2 * HOUR),
+      makeTrade(DAY0 + HOUR, DAY0 + 3 * HOUR),
+      makeTrade(DAY0 + 9 * HOUR, DAY0 + 12 * HOUR),
+    ];
+
+    expect(calculateExposure(trades, new Date(DAY0), new Date(DAY0 + 10 * HOUR))).toBeCloseTo(40);
+  });
+});
+
+describe('significance', () => {
+  it('should match Student t tail probabilities', () => {
+    expect(studentTPValue(1, 1)).toBeCloseTo(0.5); // Cauchy
+    expect(studentTPValue(2.228139, 10)).toBeCloseTo(0.05, 4);
+    expect(studentTPValue(0, 5)).toBe(1);
+  });
+
+  it('should separate a real edge from noise', () => {
+    const edge = testMeanR([1.2, 0.8, 1.1, 0.9, 1.0, 1.3, 0.7, 1.0]);
+    expect(edge.pValue).toBeLessThan(0.001);
+    expect(edge.lowerR).toBeGreaterThan(0.7);
+    expect(edge.upperR).toBeLessThan(1.3);
+
+    const noise = testMeanR([1, -1, 1, -1, 2, -1, -1]);
+    expect(noise.pValue).toBeGreaterThan(0.5);
+    expect(noise.lowerR).toBeLessThan(0);
+    expect(noise.upperR).toBeGreaterThan(0);
+  });
+
+  it('should be reproducible with a seed and degenerate with one trade', () => {
+    const sample = [2, -1, -1, 3, -1];
+    expect(testMeanR(sample, { seed: 7 })).toEqual(testMeanR(sample, { seed: 7 }));
+
+    expect(testMeanR([2])).toMatchObject({ sampleSize: 1, meanR: 2, pValue: 1, lowerR: 2, upperR: 2 });
+  });
+});
+
+describe('toPerformanceTrade', () => {
+  it('should scale the result by the risk and excursions by the stop distance', () => {
+    const trade = {
+      entryPrice: 2000,
+      stopLoss: 1990,
+      entryTime: new Date(DAY0),
+      exitTime: new Date(DAY0 + HOUR),
+      pnl: 150,
+      mae: 4,
+      mfe: 20,
+    } as BacktestTrade;
+
+    expect(toPerformanceTrade(trade, 100)).toMatchObject({ r: 1.5, maeR: 0.4, mfeR: 2 });
+    expect(toPerformanceTrade({ ...trade, mae: undefined }, 0)).toMatchObject({ r: undefined, maeR: undefined });
+  });
+});
+
+describe('calculatePerformanceMetrics', () => {
+  const equityCurve = [
+    { date: new Date(DAY0), equity: 10000 },
+    { date: new Date(DAY0 + 3 * DAY), equity: 10100 },
+    { date: new Date(DAY0 + 4 * DAY), equity: 9999 },
+    { date: new Date(DAY0 + 5 * DAY), equity: 10200 },
+  ];
+  const trades = [
+    makeTrade(DAY0 + 3 * DAY, DAY0 + 3 * DAY + HOUR, 1),
+    makeTrade(DAY0 + 4 * DAY, DAY0 + 4 * DAY + HOUR, -1),
+    makeTrade(DAY0 + 5 * DAY, DAY0 + 5 * DAY + 2 * HOUR, 2),
+    makeTrade(DAY0 + 5 * DAY, DAY0 + 5 * DAY + 2 * HOUR), // risk unknown
+  ];
+
+  it('should report R statistics, holding time and the benchmark', () => {
+    const metrics = calculatePerformanceMetrics({
+      trades,
+      equityCurve,
+      startDate: new Date(DAY0),
+      endDate: new Date(DAY0 + 6 * DAY),
+      benchmarkPrices: [
+        { symbol: 'XAUUSD.s', startPrice: 2000, endPrice: 2020 },
+        { symbol: 'EURUSD', startPrice: 1.1, endPrice: 1.1 },
+      ],
+    });
+
+    expect(metrics.expectancyR).toBeCloseTo(2 / 3);
+    expect(metrics.averageWinR).toBeCloseTo(1.5);
+    expect(metrics.averageLossR).toBeCloseTo(-1);
+    expect(metrics.averageMAER).toBeNull();
+    expect(metrics.significance.sampleSize).toBe(3);
+    expect(metrics.averageHoldingMinutes).toBeCloseTo(90);
+    expect(metrics.exposurePercent).toBeCloseTo((4 / 144) * 100);
+    expect(metrics.benchmark).toEqual({
+      buyAndHoldReturnPercent: expect.closeTo(0.5),
+      strategyReturnPercent: expect.closeTo(2),
+      excessReturnPercent: expect.closeTo(1.5),
+    });
+    expect(metrics.sharpeRatio).toBeGreaterThan(0);
+    expect(metrics.calmarRatio).toBeCloseTo(metrics.annualizedReturnPercent / ((101 / 10100) * 100));
+  });
+
+  it('should return zero ratios without an equity curve', () => {
+    const metrics = calculatePerformanceMetrics({
+      trades,
+      equityCurve: [],
+      startDate: new Date(DAY0),
+      endDate: new Date(DAY0 + 5 * DAY),
+      benchmarkPrices: [{ symbol: 'XAUUSD.s', startPrice: 2000, endPrice: 2020 }],
+    });
+
+    expect(metrics.sharpeRatio).toBe(0);
+    expect(metrics.calmarRatio).toBe(0);
+    expect(metrics.benchmark).toBeNull();
+    expect(metrics.expectancyR).toBeCloseTo(2 / 3);
+  });
+});
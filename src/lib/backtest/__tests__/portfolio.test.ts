@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import {
+  checkPortfolioLimits,
+  calculateSymbolContributions,
+  calculateReturnCorrelation,
+} from '../portfolio';
+import { BacktestTrade } from '../../types';
+
+const LIMITS = { maxOpenTrades: 2, maxTradesPerSymbol: 1, allowContraryTrades: false };
+
+function makeTrade(symbol: string, day: number, pnl: number, overrides: Partial<BacktestTrade> = {}): BacktestTrade {
+  return {
+    symbol,
+    direction: 'BUY',
+    entryPrice: 100,
+    exitPrice: 101,
+    stopLoss: 99,
+    takeProfit: 102,
+    lotSize: 0.1,
+    entryTime: new Date(Date.UTC(2026, 1, day, 8)),
+    exitTime: new Date(Date.UTC(2026, 1, day, 12)),
+    pnl,
+    pnlPercent: pnl / 100,
+    isWinner: pnl > 0,
+    exitReason: pnl > 0 ? 'TP' : 'SL',
+    ...overrides,
+  };
+}
+
+describe('checkPortfolioLimits', () => {
+  it('should allow a trade under all limits', () => {
+    expect(checkPortfolioLimits('XAUUSD.s', 'BUY', [], LIMITS)).toEqual({ canOpen: true });
+  });
+
+  it('should enforce the maximum open trades', () => {
+    const open = [
+      { symbol: 'BTCUSD', direction: 'BUY' as const },
+      { symbol: 'ETHUSD', direction: 'SELL' as const },
+    ];
+    const result = checkPortfolioLimits('XAUUSD.s', 'BUY', open, LIMITS);
+    expect(result.canOpen).toBe(false);
+    expect(result.reason).toContain('Maximum open trades');
+  });
+
+  it('should enforce the per-symbol limit', () => {
+    const result = checkPortfolioLimits('XAUUSD.s', 'BUY', [{ symbol: 'XAUUSD.s', direction: 'BUY' }], LIMITS);
+    expect(result.canOpen).toBe(false);
+    expect(result.reason).toContain('Maximum trades for XAUUSD.s');
+  });
+
+  it('should reject contrary trades unless allowed', () => {
+    const open = [{ symbol: 'XAUUSD.s', direction: 'SELL' as const }];
+    const limits = { ...LIMITS, maxTradesPerSymbol: 2 };
+    expect(checkPortfolioLimits('XAUUSD.s', 'BUY', open, limits).reason).toContain('Contradictory');
+    expect(checkPortfolioLimits('XAUUSD.s', 'BUY', open, { ...limits, allowContraryTrades: true }).canOpen).toBe(true);
+  });
+});
+
+describe('calculateSymbolContributions', () => {
+  it('should split P&L and win rate by symbol', () => {
+    const trades = [
+      makeTrade('XAUUSD.s', 16, 200),
+      makeTrade('XAUUSD.s', 17, -100),
+      makeTrade('BTCUSD', 17, 50),
+    ];
+    const [gold, btc, eth] = calculateSymbolContributions(trades, ['XAUUSD.s', 'BTCUSD', 'ETHUSD'], 10000);
+
+    expect(gold).toEqual({
+      symbol: 'XAUUSD.s',
+      trades: 2,
+      winningTrades: 1,
+      winRate: 50,
+      totalPnl: 100,
+      contributionPercent: 1,
+    });
+    expect(btc.contributionPercent).toBeCloseTo(0.5);
+    expect(eth.trades).toBe(0);
+  });
+
+  it('should count partial-close legs as one trade', () => {
+    const trades = [
+      makeTrade('XAUUSD.s', 16, 60, { positionId: 'p1', leg: 'TP1' }),
+      makeTrade('XAUUSD.s', 16, -20, { positionId: 'p1', leg: 'REMAINDER' }),
+    ];
+    const [gold] = calculateSymbolContributions(trades, ['XAUUSD.s'], 10000);
+    expect(gold.trades).toBe(1);
+    expect(gold.winningTrades).toBe(1);
+  });
+});
+
+describe('calculateReturnCorrelation', () => {
+  it('should correlate daily P&L between symbols', () => {
+    const trades = [
+      makeTrade('XAUUSD.s', 16, 100),
+      makeTrade('XAGUSD.s', 16, 50),
+      makeTrade('XAUUSD.s', 17, -100),
+      makeTrade('XAGUSD.s', 17, -50),
+      makeTrade('BTCUSD', 16, -30),
+      makeTrade('BTCUSD', 17, 30),
+    ];
+    const { symbols, matrix } = calculateReturnCorrelation(trades, ['XAUUSD.s', 'XAGUSD.s', 'BTCUSD']);
+
+    expect(symbols).toEqual(['XAUUSD.s', 'XAGUSD.s', 'BTCUSD']);
+    expect(matrix[0][0]).toBe(1);
+    expect(matrix[0][1]).toBeCloseTo(1);
+    expect(matrix[0][2]).toBeCloseTo(-1);
+    expect(matrix[2][1]).toBeCloseTo(-1);
+  });
+
+  it('should report 0 for symbols without trades', () => {
+    const { matrix } = calculateReturnCorrelation(
+      [makeTrade('XAUUSD.s', 16, 100), makeTrade('XAUUSD.s', 17, -50)],
+      ['XAUUSD.s', 'ETHUSD']
+    );
+    expect(matrix[0][1]).toBe(0);
+  });
+});
@@ -0,0 +1,165 @@
+import { describe, it, expect } from 'vitest';
+import { buildTradeReplay, extractReplayLevels } from '../replay';
+import { createRandom } from '../random';
+import { CandleWindowCursor } from '../../analysis/incremental';
+import { performMTFAnalysis, MTFData } from '../../analysis/multi-timeframe';
+import { BacktestTrade, Candle, MultiTimeframeAnalysis, Timeframe } from '../../types';
+
+const START = Date.UTC(2026, 0, 5, 0);
+const M15 = 15 * 60 * 1000;
+
+function makeData(count: number, seed: number): MTFData {
+  const random = createRandom(seed);
+  const ltfCandles: Candle[] = [];
+  let price = 2000;
+  for (let i = 0; i < count; i++) {
+    const open = price;
+    const close = open + Math.sin(i / 60) * 0.8 + (random() - 0.5) * 6;
+    ltfCandles.push({
+      time: new Date(START + i * M15),
+      open,
+      high: Math.max(open, close) + random() * 2,
+      low: Math.min(open, close) - random() * 2,
+      close,
+      volume: 100,
+      symbol: 'XAUUSD.s',
+      timeframe: 'M15',
+    });
+    price = close;
+  }
+
+  const aggregate = (factor: number, timeframe: Timeframe): Candle[] => {
+    const result: Candle[] = [];
+    for (let i = 0; i + factor <= ltfCandles.length; i += factor) {
+      const group = ltfCandles.slice(i, i + factor);
+      result.push({
+        time: group[0].time,
+        open: group[0].open,
+        high: Math.max(...group.map((c) => c.high)),
+        low: Math.min(...group.map((c) => c.low)),
+        close: group[group.length - 1].close,
+        volume: group.reduce((sum, c) => sum + c.volume, 0),
+        symbol: 'XAUUSD.s',
+        timeframe,
+      });
+    }
+    return result;
+  };
+
+  return { htfCandles: aggregate(16, 'H4'), mtfCandles: aggregate(4, 'H1'), ltfCandles };
+}
+
+function makeTrade(entryIndex: number, exitIndex: number, overrides: Partial<BacktestTrade> = {}): BacktestTrade {
+  return {
+    symbol: 'XAUUSD.s',
+    direction: 'BUY',
+    entryPrice: 2000,
+    exitPrice: 1990,
+    stopLoss: 1990,
+    takeProfit: 2020,
+    lotSize: 0.1,
+    entryTime: new Date(START + entryIndex * M15),
+    exitTime: new Date(START + exitIndex * M15),
+    pnl: -100,
+    pnlPercent: -1,
+    isWinner: false,
+    exitReason: 'SL',
+    ...overrides,
+  };
+}
+
+/**
+ * Drop generated ids so analyses from separate runs can be compared
+ */
+function normalize(value: unknown): unknown {
+  return JSON.parse(JSON.stringify(value, (key, v) => (key === 'id' ? undefined : v)));
+}
+
+describe('extractReplayLevels', () => {
+  it('should keep only active levels from every timeframe', () => {
+    const base = { symbol: 'XAUUSD.s', high: 2010, low: 2000 };
+    const analysis = {
+      htf: {
+        bias: 'BULLISH',
+        orderBlocks: [{ ...base, id: 'ob-h4', timeframe: 'H4', isValid: true }],
+        liquidityZones: [{ id: 'liq-swept', price: 2050, isSwept: true }],
+      },
+      mtf: {
+        bias: 'BULLISH',
+        orderBlocks: [{ ...base, id: 'ob-mitigated', timeframe: 'H1', isValid: false }],
+        fvgs: [{ ...base, id: 'fvg-h1', timeframe: 'H1', isFilled: false }],
+        liquidityZones: [{ id: 'liq-h1', price: 1980, isSwept: false }],
+      },
+      ltf: {
+        bias: 'BEARISH',
+        fvgs: [{ ...base, id: 'fvg-filled', timeframe: 'M15', isFilled: true }],
+      },
+      confluenceScore: 60,
+    } as unknown as MultiTimeframeAnalysis;
+
+    const levels = extractReplayLevels(analysis);
+
+    expect(levels.bias).toEqual({ htf: 'BULLISH', mtf: 'BULLISH', ltf: 'BEARISH' });
+    expect(levels.orderBlocks.map((ob) => ob.id)).toEqual(['ob-h4']);
+    expect(levels.fvgs.map((fvg) => fvg.id)).toEqual(['fvg-h1']);
+    expect(levels.liquidityZones.map((zone) => zone.id)).toEqual(['liq-h1']);
+    expect(levels.confluenceScore).toBe(60);
+  });
+});
+
+describe('buildTradeReplay', () => {
+  const data = makeData(1200, 11);
+
+  it('should step from before the signal to after the exit with the trade phases', () => {
+    const replay = buildTradeReplay(makeTrade(1000, 1004), data, { barsBefore: 3, barsAfter: 2 });
+
+    expect(replay.frames).toHaveLength(3 + 5 + 2);
+    expect(replay.frames[0].candle).toBe(data.ltfCandles[997]);
+    expect(replay.frames.map((f) => f.phase)).toEqual([
+      'BEFORE', 'BEFORE', 'BEFORE', 'ENTRY', 'OPEN', 'OPEN', 'OPEN', 'EXIT', 'AFTER', 'AFTER',
+    ]);
+    expect([replay.signalFrame, replay.entryFrame, replay.exitFrame]).toEqual([3, 3, 7]);
+    expect(replay.reason).toBeNull();
+    expect(replay.truncated).toBe(false);
+  });
+
+  it('should stop at maxFrames and flag the replay as truncated', () => {
+    const replay = buildTradeReplay(makeTrade(1000, 1100), data, { barsBefore: 3, barsAfter: 2, maxFrames: 10 });
+
+    expect(replay.frames).toHaveLength(10);
+    expect(replay.frames[9].candle).toBe(data.ltfCandles[1006]);
+    expect(replay.exitFrame).toBe(103);
+    expect(replay.truncated).toBe(true);
+  });
+
+  it('should show the analysis that existed on each candle', () => {
+    const replay = buildTradeReplay(makeTrade(1000, 1004), data, { barsBefore: 3, barsAfter: 2 });
+    const time = data.ltfCandles[1002].time;
+    const expected = performMTFAnalysis(new CandleWindowCursor(data).at(1002, time), 'XAUUSD.s', 'H4', 'H1', 'M15');
+
+    expect(normalize(replay.frames[5].levels)).toEqual(normalize(extractReplayLevels(expected)));
+  });
+
+  it('should use the captured snapshot on the signal candle', () => {
+    const analysis = performMTFAnalysis(new CandleWindowCursor(data).at(990, data.ltfCandles[990].time), 'XAUUSD.s', 'H4', 'H1', 'M15');
+    const marked = { ...analysis, confluenceScore: -1 };
+    const trade = makeTrade(1000, 1004, {
+      // Limit order placed on 990 and filled on 1000
+      snapshot: { time: data.ltfCandles[990].time, reason: 'Bullish OB', confidence: 0.7, analysis: marked },
+    });
+
+    const replay = buildTradeReplay(trade, data, { barsBefore: 2, barsAfter: 0 });
+
+    expect(replay.frames[0].candle).toBe(data.ltfCandles[988]);
+    expect([replay.signalFrame, replay.entryFrame, replay.exitFrame]).toEqual([2, 12, 16]);
+    expect(replay.frames[2].isSignal).toBe(true);
+    expect(replay.frames[2].levels.confluenceScore).toBe(-1);
+    expect(replay.frames[3].levels.confluenceScore).not.toBe(-1);
+    expect(replay.reason).toBe('Bullish OB');
+    expect(replay.confidence).toBe(0.7);
+  });
+
+  it('should refuse a trade before the loaded candles', () => {
+    expect(() => buildTradeReplay(makeTrade(-10, -5), data)).toThrow('No M15 candles cover the trade');
+  });
+});
@@ -0,0 +1,179 @@
+import { describe, it, expect } from 'vitest';
+import {
+  packCandles,
+  unpackCandles,
+  packMTFData,
+  runSweep,
+  rankSweepResults,
+  sweepResultsToCSV,
+  sweepResultsToJSON,
+  createFailedSweepResult,
+  SweepProgressTracker,
+  SweepJob,
+  SweepJobResult,
+} from '../sweep';
+import { BacktestProgress } from '../engine';
+import { BacktestMetrics, Candle, Timeframe } from '../../types';
+
+const START = Date.UTC(2026, 1, 16, 0);
+const M15 = 15 * 60 * 1000;
+
+function makeCandle(time: number, open: number, high: number, low: number, close: number, timeframe: Timeframe): Candle {
+  return { time: new Date(time), open, high, low, close, volume: 100, symbol: 'XAUUSD.s', timeframe };
+}
+
+function makeJob(id: string, overrides: Partial<SweepJob> = {}): SweepJob {
+  return {
+    id,
+    name: `Job ${id}`,
+    config: {
+      strategy: 'ORDER_BLOCK',
+      symbol: 'XAUUSD.s',
+      startDate: new Date(START),
+      endDate: new Date(START + 400 * M15),
+      initialBalance: 10000,
+      riskPercent: 1,
+      useTickData: false,
+      useKillZones: false,
+    },
+    ...overrides,
+  };
+}
+
+function makeResult(jobId: string, metrics: Partial<BacktestMetrics>, params = {}): SweepJobResult {
+  const failed = createFailedSweepResult(makeJob(jobId), '');
+  return { ...failed, params, metrics: { ...failed.metrics, ...metrics }, error: undefined };
+}
+
+function makeProgress(progress: number): BacktestProgress {
+  return {
+    phase: 'analyzing',
+    progress,
+    candlesProcessed: progress,
+    totalCandles: 100,
+    tradesExecuted: 0,
+    winningTrades: 0,
+    losingTrades: 0,
+    currentBalance: 10000,
+    totalPnl: 0,
+    winRate: 0,
+    profitFactor: 0,
+    maxDrawdown: 0,
+  };
+}
+
+describe('shared candles', () => {
+  it('should round-trip candles through a SharedArrayBuffer', () => {
+    const candles = [
+      makeCandle(START, 2000, 2005.5, 1998.25, 2003, 'M15'),
+      makeCandle(START + M15, 2003, 2004, 1990.125, 1991, 'M15'),
+    ];
+
+    const shared = packCandles(candles, 'XAUUSD.s', 'M15');
+
+    expect(shared.buffer).toBeInstanceOf(SharedArrayBuffer);
+    expect(unpackCandles(shared)).toEqual(candles);
+  });
+
+  it('should only pack intrabar candles when given', () => {
+    const data = { htfCandles: [], mtfCandles: [], ltfCandles: [] };
+
+    expect(packMTFData('XAUUSD.s', data).intrabar).toBeUndefined();
+    expect(packMTFData('XAUUSD.s', data, undefined, []).intrabar?.timeframe).toBe('M1');
+  });
+});
+
+describe('SweepProgressTracker', () => {
+  it('should combine finished jobs with the progress of running ones', () => {
+    const tracker = new SweepProgressTracker(4);
+    tracker.update(makeJob('a'), makeProgress(50));
+    tracker.update(makeJob('b'), makeProgress(50));
+    const snapshot = tracker.complete(makeResult('a', {}));
+
+    expect(snapshot.completed).toBe(1);
+    expect(snapshot.running).toBe(1);
+    expect(snapshot.progress).toBeCloseTo(((1 + 0.5) / 4) * 100);
+    expect(snapshot.jobs.map((job) => job.jobId)).toEqual(['b']);
+  });
+
+  it('should count failed jobs', () => {
+    const tracker = new SweepProgressTracker(1);
+
+    expect(tracker.complete(createFailedSweepResult(makeJob('a'), 'boom')).failed).toBe(1);
+  });
+});
+
+describe('rankSweepResults', () => {
+  it('should rank by objective and put failed runs last', () => {
+    const ranked = rankSweepResults([
+      makeResult('low', { totalTrades: 10, totalPnl: 100 }),
+      createFailedSweepResult(makeJob('failed'), 'No data'),
+      makeResult('high', { totalTrades: 10, totalPnl: 500 }),
+    ]);
+
+    expect(ranked.map((r) => [r.rank, r.jobId])).toEqual([[1, 'high'], [2, 'low'], [3, 'failed']]);
+    expect(ranked[2].score).toBe(-Infinity);
+  });
+
+  it('should rank runs below the minimum trade count last', () => {
+    const ranked = rankSweepResults(
+      [makeResult('few', { totalTrades: 2, profitFactor: 9 }), makeResult('many', { totalTrades: 30, profitFactor: 1.5 })],
+      'profitFactor',
+      5
+    );
+
+    expect(ranked[0].jobId).toBe('many');
+  });
+});
+
+describe('sweep output', () => {
+  const ranked = rankSweepResults([
+    makeResult('a', { totalTrades: 12, totalPnl: 250.123456, profitFactor: Infinity }, { rrMode: 'fixed', fixedRR: 2 }),
+    makeResult('b', { totalTrades: 8, totalPnl: -40 }, { rrMode: 'atr_trailing', note: 'a, "b"' }),
+  ]);
+
+  it('should write one CSV row per result with parameter columns', () => {
+    const lines = sweepResultsToCSV(ranked).trim().split('\n');
+
+    expect(lines[0]).toBe(
+      'rank,name,rrMode,fixedRR,note,totalTrades,winRate,profitFactor,totalPnl,totalPnlPercent,maxDrawdownPercent,sharpeRatio,averageRR,score,durationMs,error'
+    );
+    expect(lines[1]).toBe('1,Job a,fixed,2,,12,0,,250.1235,0,0,0,0,250.1235,0,');
+    expect(lines[2]).toContain('"a, ""b"""');
+  });
+
+  it('should write JSON without trades and with non-finite numbers as null', () => {
+    const json = JSON.parse(sweepResultsToJSON(ranked));
+
+    expect(json[0].trades).toBeUndefined();
+    expect(json[0].metrics.profitFactor).toBeNull();
+    expect(json[1].rank).toBe(2);
+  });
+});
+
+describe('runSweep', () => {
+  it('should run jobs on worker threads against the shared candles', async () => {
+    const ltfCandles: Candle[] = [];
+    for (let i = 0; i < 200; i++) {
+      const price = 2000 + Math.sin(i / 10) * 5;
+      ltfCandles.push(makeCandle(START + i * M15, price, price + 1, price - 1, price, 'M15'));
+    }
+    const data = {
+      'XAUUSD.s': packMTFData('XAUUSD.s', { htfCandles: [], mtfCandles: [], ltfCandles }),
+    };
+    const snapshots: number[] = [];
+
+    const results = await runSweep(
+      [makeJob('a'), makeJob('b'), makeJob('c', { config: { ...makeJob('c').config, symbol: 'EURUSD' } })],
+      data,
+      { workers: 2, onProgress: (snapshot) => snapshots.push(snapshot.completed) }
+    );
+
+    expect(results.map((r) => r.jobId)).toEqual(['a', 'b', 'c']);
+    expect(results[0].error).toBeUndefined();
+    expect(results[0].metrics.totalTrades).toBe(0);
+    expect(results[0].metrics.finalBalance).toBe(10000);
+    expect(results[2].error).toContain('No candle data shared for EURUSD');
+    expect(snapshots[snapshots.length - 1]).toBe(3);
+  }, 30000);
+});
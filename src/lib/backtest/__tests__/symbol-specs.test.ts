@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { SymbolSpecRegistry, BUILTIN_SYMBOL_SPECS, getQuoteToAccountRate } from '../symbol-specs';
+import { SymbolInfo } from '../../types';
+
+function makeSpec(overrides: Partial<SymbolInfo>): SymbolInfo {
+  return {
+    symbol: 'EURUSD',
+    description: '',
+    digits: 5,
+    pipSize: 0.0001,
+    contractSize: 100000,
+    minVolume: 0.01,
+    maxVolume: 100,
+    volumeStep: 0.01,
+    tickSize: 0.00001,
+    tickValue: 1,
+    baseCurrency: 'EUR',
+    profitCurrency: 'USD',
+    ...overrides,
+  };
+}
+
+describe('SymbolSpecRegistry', () => {
+  it('should prefer registered broker specs over built-ins', () => {
+    const registry = new SymbolSpecRegistry(Object.values(BUILTIN_SYMBOL_SPECS));
+    expect(registry.isBuiltin('XAUUSD.s')).toBe(true);
+
+    registry.register({ ...BUILTIN_SYMBOL_SPECS['XAUUSD.s'], contractSize: 10 });
+    expect(registry.get('XAUUSD.s')?.contractSize).toBe(10);
+    expect(registry.isBuiltin('XAUUSD.s')).toBe(false);
+    expect(registry.get('US30')).toBeUndefined();
+  });
+});
+
+describe('getQuoteToAccountRate', () => {
+  it('should return 1 when P&L is already in account currency', () => {
+    expect(getQuoteToAccountRate(makeSpec({}), 'USD', 1.1)).toBe(1);
+  });
+
+  it('should invert the price when the base is the account currency', () => {
+    const usdjpy = makeSpec({ symbol: 'USDJPY', baseCurrency: 'USD', profitCurrency: 'JPY' });
+    expect(getQuoteToAccountRate(usdjpy, 'USD', 150)).toBeCloseTo(1 / 150);
+  });
+
+  it('should use a conversion pair when one is priced', () => {
+    const gbpjpy = makeSpec({ symbol: 'GBPJPY', baseCurrency: 'GBP', profitCurrency: 'JPY' });
+    const prices: Record<string, number> = { USDJPY: 160 };
+    const lookup = (base: string, quote: string) => prices[base + quote];
+
+    expect(getQuoteToAccountRate(gbpjpy, 'USD', 200, lookup)).toBeCloseTo(1 / 160);
+  });
+
+  it('should fall back to the tick value snapshot', () => {
+    const eurgbp = makeSpec({ symbol: 'EURGBP', profitCurrency: 'GBP', tickValue: 1.27 });
+    expect(getQuoteToAccountRate(eurgbp, 'USD', 0.85)).toBeCloseTo(1.27);
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateTieredTPLevels,
+  calculatePartialCloseVolume,
+  calculateBreakevenStopLoss,
+  isLevelReached,
+  isStopLossImprovement,
+  roundVolume,
+  aggregatePositionTrades,
+} from '../trade-management';
+import { BacktestTrade, TIERED_TP_PROFILES } from '../../types';
+
+function makeTrade(overrides: Partial<BacktestTrade>): BacktestTrade {
+  return {
+    symbol: 'XAUUSD.s',
+    direction: 'BUY',
+    entryPrice: 2000,
+    exitPrice: 2010,
+    stopLoss: 1990,
+    takeProfit: 2020,
+    lotSize: 0.1,
+    entryTime: new Date(Date.UTC(2026, 1, 16, 10)),
+    exitTime: new Date(Date.UTC(2026, 1, 16, 12)),
+    pnl: 100,
+    pnlPercent: 1,
+    isWinner: true,
+    exitReason: 'TP',
+    ...overrides,
+  };
+}
+
+describe('calculateTieredTPLevels', () => {
+  it('should place BUY levels above entry at R multiples', () => {
+    const levels = calculateTieredTPLevels('BUY', 2000, 1990, TIERED_TP_PROFILES['RUNNER']);
+    expect(levels).toEqual({ tp1Price: 2010, tp2Price: 2020, tp3Price: 2040 });
+  });
+
+  it('should place SELL levels below entry', () => {
+    const levels = calculateTieredTPLevels('SELL', 2000, 2010, TIERED_TP_PROFILES['SCALP_QUICK']);
+    expect(levels).toEqual({ tp1Price: 1995, tp2Price: 1990, tp3Price: 1985 });
+  });
+});
+
+describe('calculatePartialCloseVolume', () => {
+  it('should close a percentage of the original volume rounded to the step', () => {
+    expect(calculatePartialCloseVolume(0.5, 30, 0.01, 0.01)).toBe(0.15);
+    expect(calculatePartialCloseVolume(0.07, 30, 0.01, 0.01)).toBe(0.02);
+  });
+
+  it('should return 0 when the partial is below the minimum volume', () => {
+    expect(calculatePartialCloseVolume(0.01, 30, 0.01, 0.01)).toBe(0);
+  });
+
+  it('should avoid floating point dust', () => {
+    expect(roundVolume(0.1 + 0.2, 0.01)).toBe(0.3);
+  });
+});
+
+describe('breakeven helpers', () => {
+  it('should add the buffer in the trade direction', () => {
+    expect(calculateBreakevenStopLoss('BUY', 2000, 5, 0.1)).toBeCloseTo(2000.5);
+    expect(calculateBreakevenStopLoss('SELL', 2000, 5, 0.1)).toBeCloseTo(1999.5);
+  });
+
+  it('should check levels and SL improvements by direction', () => {
+    expect(isLevelReached('BUY', 2010, 2010)).toBe(true);
+    expect(isLevelReached('SELL', 2010, 2005)).toBe(false);
+    expect(isStopLossImprovement('BUY', 1990, 2000.5)).toBe(true);
+    expect(isStopLossImprovement('SELL', 1999.5, 2010)).toBe(false);
+  });
+});
+
+describe('aggregatePositionTrades', () => {
+  it('should pass through trades without a positionId', () => {
+    const trades = [makeTrade({}), makeTrade({ pnl: -50, isWinner: false })];
+    expect(aggregatePositionTrades(trades)).toEqual(trades);
+  });
+
+  it('should merge legs into one trade per position', () => {
+    const tp1 = makeTrade({ positionId: 'a', leg: 'TP1', lotSize: 0.3, exitPrice: 2010, takeProfit: 2010, pnl: 300, pnlPercent: 3 });
+    const other = makeTrade({ positionId: 'b', pnl: -100, pnlPercent: -1, isWinner: false, exitReason: 'SL' });
+    const remainder = makeTrade({
+      positionId: 'a',
+      leg: 'REMAINDER',
+      lotSize: 0.7,
+      exitPrice: 2000.5,
+      takeProfit: 2040,
+      pnl: 35,
+      pnlPercent: 0.34,
+      exitReason: 'SL',
+      exitTime: new Date(Date.UTC(2026, 1, 16, 15)),
+      costs: { spread: 1, commission: 2, slippage: 0, swap: 0, total: 3 },
+    });
+
+    const result = aggregatePositionTrades([tp1, other, remainder]);
+
+    expect(result).toHaveLength(2);
+    expect(result[1]).toBe(other);
+
+    const merged = result[0];
+    expect(merged.lotSize).toBe(1);
+    expect(merged.pnl).toBe(335);
+    expect(merged.pnlPercent).toBeCloseTo(3.34);
+    expect(merged.isWinner).toBe(true);
+    expect(merged.exitReason).toBe('SL');
+    expect(merged.exitTime).toEqual(remainder.exitTime);
+    expect(merged.exitPrice).toBeCloseTo(2010 * 0.3 + 2000.5 * 0.7);
+    expect(merged.takeProfit).toBeCloseTo(2010 * 0.3 + 2040 * 0.7);
+    expect(merged.leg).toBeUndefined();
+    expect(merged.costs?.total).toBe(3);
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createWalkForwardFolds,
+  expandSearchSpace,
+  applyWalkForwardParams,
+  scoreMetrics,
+  calculateParameterStability,
+  sliceWindow,
+  DEFAULT_WALK_FORWARD_SPACE,
+  WalkForwardParams,
+} from '../walk-forward';
+import { createRandom } from '../random';
+import { BacktestConfig, BacktestMetrics, Candle, TIERED_TP_PROFILES } from '../../types';
+
+const DAY = 24 * 60 * 60 * 1000;
+const START = Date.UTC(2026, 0, 1);
+
+function makeCandle(time: number): Candle {
+  return { time: new Date(time), open: 1, high: 1, low: 1, close: 1, volume: 1, symbol: 'XAUUSD.s', timeframe: 'M15' };
+}
+
+function makeMetrics(overrides: Partial<BacktestMetrics>): BacktestMetrics {
+  return {
+    totalTrades: 10,
+    winningTrades: 5,
+    losingTrades: 5,
+    winRate: 50,
+    profitFactor: 1.5,
+    maxDrawdown: 100,
+    maxDrawdownPercent: 1,
+    sharpeRatio: 1,
+    averageWin: 30,
+    averageLoss: 20,
+    averageRR: 1.5,
+    totalPnl: 50,
+    totalPnlPercent: 0.5,
+    finalBalance: 10050,
+    ...overrides,
+  };
+}
+
+describe('createWalkForwardFolds', () => {
+  it('should roll in-sample and out-of-sample windows by the OOS length', () => {
+    const folds = createWalkForwardFolds(new Date(START), new Date(START + 100 * DAY), 60, 20);
+
+    expect(folds).toHaveLength(2);
+    expect(folds[0].outOfSampleStart).toEqual(folds[0].inSampleEnd);
+    expect(folds[0].outOfSampleEnd.getTime()).toBe(START + 80 * DAY);
+    expect(folds[1].inSampleStart.getTime()).toBe(START + 20 * DAY);
+    expect(folds[1].outOfSampleEnd.getTime()).toBe(START + 100 * DAY);
+  });
+
+  it('should return no folds when the range is shorter than one fold', () => {
+    expect(createWalkForwardFolds(new Date(START), new Date(START + 30 * DAY), 60, 20)).toEqual([]);
+  });
+});
+
+describe('expandSearchSpace', () => {
+  const space = { riskReward: [1.5, 2, 3], confirmationType: ['none' as const, 'close' as const] };
+
+  it('should return every combination in grid mode', () => {
+    const grid = expandSearchSpace(space, 'grid');
+    expect(grid).toHaveLength(6);
+    expect(grid).toContainEqual({ riskReward: 3, confirmationType: 'close' });
+  });
+
+  it('should draw distinct, reproducible samples in random mode', () => {
+    const a = expandSearchSpace(space, 'random', 4, createRandom(7));
+    const b = expandSearchSpace(space, 'random', 4, createRandom(7));
+
+    expect(a).toHaveLength(4);
+    expect(a).toEqual(b);
+    expect(new Set(a.map((p) => JSON.stringify(p))).size).toBe(4);
+  });
+});
+
+describe('applyWalkForwardParams', () => {
+  it('should map parameters onto the backtest config', () => {
+    const base = { symbol: 'XAUUSD.s', rrMode: 'atr_trailing' } as BacktestConfig;
+    const config = applyWalkForwardParams(base, { riskReward: 2.5, tieredProfile: 'RUNNER', confirmationType: 'engulf' });
+
+    expect(config.rrMode).toBe('fixed');
+    expect(config.fixedRR).toBe(2.5);
+    expect(config.tieredTP).toBe(TIERED_TP_PROFILES['RUNNER']);
+    expect(config.confirmationType).toBe('engulf');
+    expect(base.rrMode).toBe('atr_trailing');
+  });
+
+  it('should only search parameters that change the backtest config', () => {
+    const base = { symbol: 'XAUUSD.s' } as BacktestConfig;
+    for (const [key, values] of Object.entries(DEFAULT_WALK_FORWARD_SPACE)) {
+      const configs = values.map((value) =>
+        JSON.stringify(applyWalkForwardParams(base, { [key]: value } as WalkForwardParams))
+      );
+      expect(new Set(configs).size, key).toBe(values.length);
+    }
+  });
+});
+
+describe('scoreMetrics', () => {
+  it('should reject runs with too few trades', () => {
+    expect(scoreMetrics(makeMetrics({ totalTrades: 3 }), 'profitFactor', 5)).toBe(-Infinity);
+    expect(scoreMetrics(makeMetrics({}), 'totalPnl')).toBe(50);
+  });
+});
+
+describe('calculateParameterStability', () => {
+  it('should report the most common value, consistency and changes', () => {
+    const stability = calculateParameterStability([
+      { riskReward: 2, tieredProfile: 'RUNNER' },
+      { riskReward: 2, tieredProfile: 'BALANCED' },
+      { riskReward: 3, tieredProfile: 'RUNNER' },
+      { riskReward: 2, tieredProfile: 'RUNNER' },
+    ]);
+
+    expect(stability.riskReward.mostCommon).toBe(2);
+    expect(stability.riskReward.consistency).toBe(0.75);
+    expect(stability.riskReward.changes).toBe(2);
+    expect(stability.tieredProfile.mostCommon).toBe('RUNNER');
+  });
+});
+
+describe('sliceWindow', () => {
+  it('should keep LTF warm-up before the window and drop candles after it', () => {
+    const ltfCandles = Array.from({ length: 300 }, (_, i) => makeCandle(START + i * 15 * 60 * 1000));
+    const data = { htfCandles: ltfCandles, mtfCandles: ltfCandles, ltfCandles };
+
+    const start = ltfCandles[150].time;
+    const end = ltfCandles[250].time;
+    const window = sliceWindow(data, start, end);
+
+    expect(window.ltfCandles[0]).toBe(ltfCandles[50]);
+    expect(window.ltfCandles).toHaveLength(200);
+    expect(window.htfCandles).toHaveLength(250);
+  });
+});
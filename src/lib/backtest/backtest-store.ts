@@ -0,0 +1,384 @@
+import { prisma } from '../db';
+import {
+  BacktestConfig,
+  BacktestEntrySnapshot,
+  BacktestMetrics,
+  BacktestTrade,
+  BacktestTradeLeg,
+  Direction,
+  TradeCostBreakdown,
+} from '../types';
+import { BacktestResult } from './engine';
+
+/**
+ * Backtest Store
+ * Persists finished backtest runs (metrics, trades, equity and drawdown curves) in Postgres
+ */
+
+export interface StoredBacktestSummary {
+  id: string;
+  strategy: string;
+  symbol: string;
+  startDate: Date;
+  endDate: Date;
+  initialBalance: number;
+  metrics: BacktestMetrics;
+  durationMs: number | null;
+  createdAt: Date;
+}
+
+export interface StoredBacktestTrade extends BacktestTrade {
+  id: string;
+}
+
+export interface StoredBacktest extends StoredBacktestSummary {
+  config: BacktestConfig | null;
+  /** Without entry snapshots - load one with getTrade() */
+  trades: StoredBacktestTrade[];
+  equityCurve: { date: Date; equity: number }[];
+  drawdownCurve: { date: Date; drawdown: number }[];
+}
+
+export interface BacktestListFilter {
+  symbol?: string;
+  strategy?: string;
+  limit?: number;
+  offset?: number;
+}
+
+type BacktestResultRow = Awaited<ReturnType<typeof prisma.backtestResult.findFirstOrThrow>>;
+type BacktestTradeRow = Awaited<ReturnType<typeof prisma.backtestTrade.findFirstOrThrow>>;
+
+// Everything except the large JSON columns (config and curves)
+const SUMMARY_SELECT = {
+  id: true,
+  strategy: true,
+  symbol: true,
+  startDate: true,
+  endDate: true,
+  initialBalance: true,
+  finalBalance: true,
+  totalTrades: true,
+  winningTrades: true,
+  losingTrades: true,
+  winRate: true,
+  profitFactor: true,
+  maxDrawdown: true,
+  maxDrawdownPct: true,
+  sharpeRatio: true,
+  averageWin: true,
+  averageLoss: true,
+  averageRR: true,
+  totalPnl: true,
+  totalPnlPct: true,
+  metrics: true,
+  durationMs: true,
+  createdAt: true,
+} as const;
+
+type BacktestSummaryRow = Omit<BacktestResultRow, 'config' | 'equityCurve' | 'drawdownCurve'>;
+
+// Everything except the entry snapshot
+const TRADE_SELECT = {
+  id: true,
+  symbol: true,
+  direction: true,
+  entryPrice: true,
+  exitPrice: true,
+  stopLoss: true,
+  takeProfit: true,
+  lotSize: true,
+  entryTime: true,
+  exitTime: true,
+  pnl: true,
+  pnlPercent: true,
+  isWinner: true,
+  exitReason: true,
+  positionId: true,
+  leg: true,
+  mae: true,
+  mfe: true,
+  costs: true,
+} as const;
+
+type BacktestTradeSummaryRow = Omit<BacktestTradeRow, 'backtestId' | 'snapshot'>;
+
+/**
+ * Columns for a BacktestResult row
+ */
+export function toBacktestResultData(result: BacktestResult, durationMs?: number) {
+  const { config } = result;
+  // Postgres floats and JSON both lack Infinity (e.g. profit factor without losses)
+  const metrics: BacktestMetrics = {
+    ...result.metrics,
+    profitFactor: finiteOrZero(result.metrics.profitFactor),
+    sharpeRatio: finiteOrZero(result.metrics.sharpeRatio),
+    averageRR: finiteOrZero(result.metrics.averageRR),
+  };
+  return {
+    strategy: config.strategy,
+    symbol: config.symbols?.join(',') ?? config.symbol,
+    startDate: config.startDate,
+    endDate: config.endDate,
+    initialBalance: config.initialBalance,
+    finalBalance: metrics.finalBalance,
+    totalTrades: metrics.totalTrades,
+    winningTrades: metrics.winningTrades,
+    losingTrades: metrics.losingTrades,
+    winRate: metrics.winRate,
+    profitFactor: metrics.profitFactor,
+    maxDrawdown: metrics.maxDrawdown,
+    maxDrawdownPct: metrics.maxDrawdownPercent,
+    sharpeRatio: metrics.sharpeRatio,
+    averageWin: metrics.averageWin,
+    averageLoss: metrics.averageLoss,
+    averageRR: metrics.averageRR,
+    totalPnl: metrics.totalPnl,
+    totalPnlPct: metrics.totalPnlPercent,
+    config: JSON.stringify(config),
+    metrics: JSON.stringify(metrics),
+    equityCurve: JSON.stringify(result.equityCurve),
+    drawdownCurve: JSON.stringify(result.drawdownCurve),
+    durationMs: durationMs ?? null,
+  };
+}
+
+export function toBacktestTradeData(trade: BacktestTrade, withSnapshot: boolean = true) {
+  return {
+    symbol: trade.symbol,
+    direction: trade.direction,
+    entryPrice: trade.entryPrice,
+    exitPrice: trade.exitPrice,
+    stopLoss: trade.stopLoss,
+    takeProfit: trade.takeProfit,
+    lotSize: trade.lotSize,
+    entryTime: trade.entryTime,
+    exitTime: trade.exitTime,
+    pnl: trade.pnl,
+    pnlPercent: trade.pnlPercent,
+    isWinner: trade.isWinner,
+    exitReason: trade.exitReason,
+    positionId: trade.positionId ?? null,
+    leg: trade.leg ?? null,
+    mae: trade.mae ?? null,
+    mfe: trade.mfe ?? null,
+    costs: trade.costs ? JSON.stringify(trade.costs) : null,
+    snapshot: withSnapshot && trade.snapshot ? JSON.stringify(trade.snapshot) : null,
+  };
+}
+
+/**
+ * Trade rows for a run. Partial-close legs share their position's entry snapshot, so it is
+ * stored on the first leg only - getTrade() resolves it for the others.
+ */
+export function toBacktestTradeRows(trades: BacktestTrade[]) {
+  const withSnapshot = new Set<string>();
+  return trades.map((trade) => {
+    const isFirstLeg = !trade.positionId || !withSnapshot.has(trade.positionId);
+    if (trade.positionId && trade.snapshot) withSnapshot.add(trade.positionId);
+    return toBacktestTradeData(trade, isFirstLeg);
+  });
+}
+
+function finiteOrZero(value: number): number {
+  return isFinite(value) ? value : 0;
+}
+
+/**
+ * Parse a JSON curve column, reviving the dates
+ */
+export function parseCurve<T extends { date: Date }>(json: string | null): T[] {
+  if (!json) return [];
+  const points = JSON.parse(json) as (Omit<T, 'date'> & { date: string })[];
+  return points.map((point) => ({ ...point, date: new Date(point.date) }) as T);
+}
+
+// JSON.stringify output for a Date
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/;
+
+/**
+ * Parse a JSON entry snapshot, reviving the dates throughout the analysis
+ */
+export function parseSnapshot(json: string | null): BacktestEntrySnapshot | undefined {
+  if (!json) return undefined;
+  return JSON.parse(json, (_key, value) =>
+    typeof value === 'string' && ISO_DATE.test(value) ? new Date(value) : value
+  ) as BacktestEntrySnapshot;
+}
+
+/**
+ * Metrics from the JSON column, or rebuilt from the columns for rows saved without it
+ */
+export function parseMetrics(row: BacktestSummaryRow): BacktestMetrics {
+  if (row.metrics) {
+    return JSON.parse(row.metrics) as BacktestMetrics;
+  }
+  return {
+    totalTrades: row.totalTrades,
+    winningTrades: row.winningTrades,
+    losingTrades: row.losingTrades,
+    winRate: row.winRate,
+    profitFactor: row.profitFactor,
+    maxDrawdown: row.maxDrawdown,
+    maxDrawdownPercent: row.maxDrawdownPct,
+    sharpeRatio: row.sharpeRatio,
+    averageWin: row.averageWin,
+    averageLoss: row.averageLoss,
+    averageRR: row.averageRR,
+    totalPnl: row.totalPnl,
+    totalPnlPercent: row.totalPnlPct,
+    finalBalance: row.finalBalance,
+  };
+}
+
+function toSummary(row: BacktestSummaryRow): StoredBacktestSummary {
+  return {
+    id: row.id,
+    strategy: row.strategy,
+    symbol: row.symbol,
+    startDate: row.startDate,
+    endDate: row.endDate,
+    initialBalance: row.initialBalance,
+    metrics: parseMetrics(row),
+    durationMs: row.durationMs,
+    createdAt: row.createdAt,
+  };
+}
+
+function toTrade(row: BacktestTradeSummaryRow): StoredBacktestTrade {
+  return {
+    id: row.id,
+    symbol: row.symbol,
+    direction: row.direction as Direction,
+    entryPrice: row.entryPrice,
+    exitPrice: row.exitPrice,
+    stopLoss: row.stopLoss,
+    takeProfit: row.takeProfit,
+    lotSize: row.lotSize,
+    entryTime: row.entryTime,
+    exitTime: row.exitTime,
+    pnl: row.pnl,
+    pnlPercent: row.pnlPercent,
+    isWinner: row.isWinner,
+    exitReason: row.exitReason as BacktestTrade['exitReason'],
+    positionId: row.positionId ?? undefined,
+    leg: (row.leg as BacktestTradeLeg | null) ?? undefined,
+    mae: row.mae ?? undefined,
+    mfe: row.mfe ?? undefined,
+    costs: row.costs ? (JSON.parse(row.costs) as TradeCostBreakdown) : undefined,
+  };
+}
+
+class BacktestStore {
+  /**
+   * Store a finished run with its trades; returns the run id
+   */
+  async save(result: BacktestResult, options: { id?: string; durationMs?: number } = {}): Promise<string> {
+    const row = await prisma.backtestResult.create({
+      data: {
+        id: options.id,
+        ...toBacktestResultData(result, options.durationMs),
+        trades: {
+          createMany: { data: toBacktestTradeRows(result.trades) },
+        },
+      },
+      select: { id: true },
+    });
+    console.log(`[BacktestStore] Saved backtest ${row.id} (${result.trades.length} trades)`);
+    return row.id;
+  }
+
+  /**
+   * Newest runs first, without trades and curves
+   */
+  async list(filter: BacktestListFilter = {}): Promise<{ runs: StoredBacktestSummary[]; total: number }> {
+    const where = {
+      symbol: filter.symbol,
+      strategy: filter.strategy,
+    };
+    const [rows, total] = await Promise.all([
+      prisma.backtestResult.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        take: filter.limit ?? 20,
+        skip: filter.offset ?? 0,
+        select: SUMMARY_SELECT,
+      }),
+      prisma.backtestResult.count({ where }),
+    ]);
+    return { runs: rows.map(toSummary), total };
+  }
+
+  async get(id: string): Promise<StoredBacktest | null> {
+    const row = await prisma.backtestResult.findUnique({
+      where: { id },
+      include: { trades: { orderBy: { entryTime: 'asc' }, select: TRADE_SELECT } },
+    });
+    if (!row) return null;
+
+    return {
+      ...toSummary(row),
+      config: row.config ? (JSON.parse(row.config) as BacktestConfig) : null,
+      trades: row.trades.map(toTrade),
+      equityCurve: parseCurve<{ date: Date; equity: number }>(row.equityCurve),
+      drawdownCurve: parseCurve<{ date: Date; drawdown: number }>(row.drawdownCurve),
+    };
+  }
+
+  /**
+   * One trade with its entry snapshot, and the config of the run it belongs to.
+   * Later legs of a position take the snapshot stored on its first leg.
+   */
+  async getTrade(tradeId: string): Promise<{ trade: StoredBacktestTrade; backtestId: string; config: BacktestConfig | null } | null> {
+    const row = await prisma.backtestTrade.findUnique({
+      where: { id: tradeId },
+      include: { backtest: { select: { config: true } } },
+    });
+    if (!row) return null;
+
+    let snapshot = row.snapshot;
+    if (!snapshot && row.positionId) {
+      const firstLeg = await prisma.backtestTrade.findFirst({
+        where: { backtestId: row.backtestId, positionId: row.positionId, snapshot: { not: null } },
+        select: { snapshot: true },
+      });
+      snapshot = firstLeg?.snapshot ?? null;
+    }
+
+    return {
+      trade: { ...toTrade(row), snapshot: parseSnapshot(snapshot) },
+      backtestId: row.backtestId,
+      config: row.backtest.config ? (JSON.parse(row.backtest.config) as BacktestConfig) : null,
+    };
+  }
+
+  /**
+   * Several runs side by side - metrics and equity curves, no trades
+   */
+  async compare(ids: string[]): Promise<(StoredBacktestSummary & { equityCurve: { date: Date; equity: number }[] })[]> {
+    const rows = await prisma.backtestResult.findMany({
+      where: { id: { in: ids } },
+      select: { ...SUMMARY_SELECT, equityCurve: true },
+    });
+    const byId = new Map(rows.map((row) => [row.id, row]));
+    return ids
+      .map((id) => byId.get(id))
+      .filter((row): row is NonNullable<typeof row> => row !== undefined)
+      .map((row) => ({
+        ...toSummary(row),
+        equityCurve: parseCurve<{ date: Date; equity: number }>(row.equityCurve),
+      }));
+  }
+
+  /**
+   * Delete a run and its trades; false when it did not exist
+   */
+  async delete(id: string): Promise<boolean> {
+    const { count } = await prisma.backtestResult.deleteMany({ where: { id } });
+    return count > 0;
+  }
+}
+
+// Export singleton instance
+export const backtestStore = new BacktestStore();
+export default backtestStore;
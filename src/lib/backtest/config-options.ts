@@ -0,0 +1,115 @@
+import { BacktestConfig, ConfirmationType, KillZoneType, Session, SizingMode } from '../types';
+
+/**
+ * Backtest Config Options
+ * Type checks for the BacktestConfig fields a request may set directly, so a
+ * malformed body is refused up front instead of surfacing as NaN halfway through a run.
+ */
+
+type Check = (value: unknown) => boolean;
+
+const KILL_ZONE_TYPES: KillZoneType[] = ['LONDON_OPEN', 'NY_OPEN', 'LONDON_NY_OVERLAP', 'ASIAN'];
+const CONFIRMATION_TYPES: ConfirmationType[] = ['none', 'close', 'strong', 'engulf'];
+const SESSIONS: Session[] = ['ASIAN', 'LONDON', 'NEW_YORK', 'OVERLAP', 'OFF_HOURS'];
+const SIZING_MODES: SizingMode[] = ['FIXED', 'ATR', 'KELLY', 'EQUITY_CURVE', 'ANTI_MARTINGALE'];
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+const isBoolean: Check = (value) => typeof value === 'boolean';
+const isNumber: Check = (value) => typeof value === 'number' && Number.isFinite(value);
+const isPositive: Check = (value) => isNumber(value) && (value as number) > 0;
+const isString: Check = (value) => typeof value === 'string' && value.length > 0;
+const oneOf = (values: readonly unknown[]): Check => (value) => values.includes(value);
+const nullable = (check: Check): Check => (value) => value === null || check(value);
+const arrayOf = (check: Check): Check => (value) => Array.isArray(value) && value.every(check);
+const recordOf = (check: Check): Check => (value) => isPlainObject(value) && Object.values(value).every(check);
+
+/** An object with only known fields, each of the right type, and every required field present */
+const shape = (fields: Record<string, Check>, required: string[] = []): Check => (value) =>
+  isPlainObject(value) &&
+  required.every((key) => value[key] !== undefined) &&
+  Object.entries(value).every(([key, field]) => key in fields && (field === undefined || fields[key](field)));
+
+const sizingCheck = shape({
+  mode: oneOf(SIZING_MODES),
+  atrPeriod: isNumber,
+  atrLookback: isNumber,
+  kellyFraction: isNumber,
+  kellyLookback: isNumber,
+  kellyMinTrades: isNumber,
+  equityDrawdownPercent: isNumber,
+  equityReduceFactor: isNumber,
+  streakStep: isNumber,
+  maxStreakSteps: isNumber,
+  minRiskMultiplier: isNumber,
+  maxRiskMultiplier: isNumber,
+});
+
+const BACKTEST_OPTION_CHECKS: { [K in keyof BacktestConfig]?: Check } = {
+  initialBalance: isPositive,
+  riskPercent: (value) => isPositive(value) && (value as number) <= 100,
+  useKillZones: isBoolean,
+  killZones: arrayOf(oneOf(KILL_ZONE_TYPES)),
+  requireLiquiditySweep: isBoolean,
+  requirePremiumDiscount: isBoolean,
+  requireOTE: isBoolean,
+  oteThreshold: isNumber,
+  minOBScore: isNumber,
+  relaxedScoreThreshold: isNumber,
+  confirmationType: oneOf(CONFIRMATION_TYPES),
+  rrMode: oneOf(['fixed', 'atr_trailing', 'structure']),
+  fixedRR: isNumber,
+  atrMultiplier: isNumber,
+  maxConcurrentTrades: isNumber,
+  maxDrawdownPercent: isNumber,
+  maxDailyDrawdownPercent: isNumber,
+  executionCosts: shape({
+    spread: shape(
+      {
+        mode: oneOf(['fixed', 'session']),
+        spread: isNumber,
+        sessionSpreads: shape(Object.fromEntries(SESSIONS.map((session) => [session, isNumber]))),
+      },
+      ['mode', 'spread']
+    ),
+    commissionPerLot: isNumber,
+    slippage: shape(
+      { mode: oneOf(['none', 'random', 'atr']), maxSlippage: isNumber, atrFraction: isNumber, atrPeriod: isNumber, seed: isNumber },
+      ['mode']
+    ),
+    swap: recordOf(shape({ long: isNumber, short: isNumber, tripleSwapDay: nullable(isNumber) }, ['long', 'short'])),
+    rolloverHourUTC: isNumber,
+  }),
+  breakeven: shape({ enabled: isBoolean, triggerR: isNumber, bufferPips: isNumber }, ['enabled', 'triggerR', 'bufferPips']),
+  limitEntry: shape({ enabled: isBoolean, expiryCandles: isNumber, pullbackR: isNumber }, ['enabled']),
+  accountCurrency: isString,
+  captureSnapshots: isBoolean,
+  sizing: sizingCheck,
+  symbolSizing: recordOf(sizingCheck),
+};
+
+/**
+ * The BacktestConfig fields set in a request body, with an error for each one
+ * of the wrong type. Fields not listed in BACKTEST_OPTION_CHECKS are ignored.
+ */
+export function parseBacktestOptions(body: Record<string, unknown>): {
+  options: Partial<BacktestConfig>;
+  errors: string[];
+} {
+  const options: Record<string, unknown> = {};
+  const errors: string[] = [];
+
+  for (const [key, check] of Object.entries(BACKTEST_OPTION_CHECKS)) {
+    const value = body[key];
+    if (value === undefined) continue;
+    if (check!(value)) {
+      options[key] = value;
+    } else {
+      errors.push(`Invalid ${key}: ${JSON.stringify(value)}`);
+    }
+  }
+
+  return { options: options as Partial<BacktestConfig>, errors };
+}
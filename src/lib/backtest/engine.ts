@@ -9,11 +9,50 @@ import {
   BacktestTrade,
   KillZoneType,
   MultiTimeframeAnalysis,
+  TradeCostBreakdown,
+  BacktestTradeLeg,
+  BacktestEntrySnapshot,
+  Signal,
+  SymbolInfo,
+  LimitOrderStats,
+  IntrabarStats,
+  TIMEFRAME_MINUTES,
 } from '../types';
-import { performMTFAnalysis, MTFData } from '../analysis/multi-timeframe';
+import { MTFData } from '../analysis/multi-timeframe';
+import { CandleWindowCursor, IncrementalMTFAnalyzer } from '../analysis/incremental';
 import { runStrategy, StrategyContext } from '../strategies';
 import { calculatePositionSize, calculateRiskReward } from '../risk/position-sizing';
+import { resolveSizingConfig, resolveRiskPercent, balanceCurveFrom } from '../risk/sizing-modes';
 import { isInKillZone, getKillZoneBonus, isHighProbabilityTime, shouldAvoidTrading } from '../analysis/kill-zones';
+import { checkConfirmation } from '../analysis/confirmation';
+import { ExecutionCostModel, sumCosts } from './execution-costs';
+import { symbolSpecRegistry, getQuoteToAccountRate } from './symbol-specs';
+import {
+  calculateLimitPrice,
+  resolvePendingOrder,
+  createLimitOrderStats,
+  finalizeLimitOrderStats,
+} from './limit-orders';
+import { IntrabarData, resolveIntrabarOrder } from './intrabar';
+import {
+  PortfolioLimits,
+  SymbolContribution,
+  ReturnCorrelation,
+  checkPortfolioLimits,
+  calculateSymbolContributions,
+  calculateReturnCorrelation,
+} from './portfolio';
+import {
+  TieredTPLevels,
+  calculateTieredTPLevels,
+  calculatePartialCloseVolume,
+  calculateBreakevenStopLoss,
+  isLevelReached,
+  isStopLossImprovement,
+  roundVolume,
+  aggregatePositionTrades,
+} from './trade-management';
+import { BenchmarkPrice, calculatePerformanceMetrics, toPerformanceTrade } from './performance';
 import { v4 as uuidv4 } from 'uuid';
 
 /**
@@ -31,6 +70,11 @@ export interface BacktestResult {
   drawdownCurve: { date: Date; drawdown: number }[];
 }
 
+export interface PortfolioBacktestResult extends BacktestResult {
+  symbols: SymbolContribution[];
+  correlation: ReturnCorrelation;
+}
+
 export interface BacktestProgress {
   phase: 'initializing' | 'analyzing' | 'complete';
   progress: number; // 0-100
@@ -54,12 +98,70 @@ export type ProgressCallback = (progress: BacktestProgress) => void;
 
 interface SimulatedPosition {
   id: string;
+  symbol: string;
   direction: Direction;
   entryPrice: number;
   stopLoss: number;
   takeProfit: number;
-  lotSize: number;
+  lotSize: number; // Remaining volume after partial closes
   entryTime: Date;
+  // Entry-side execution costs in account currency (for the original volume)
+  entrySpreadCost: number;
+  entrySlippageCost: number;
+  entryCommission: number;
+  // Trade management
+  initialStopLoss: number;
+  originalLotSize: number;
+  tieredTP: (TieredTPLevels & { tp1Hit: boolean; tp2Hit: boolean }) | null;
+  breakevenMoved: boolean;
+  realizedPnl: number;
+  snapshot?: BacktestEntrySnapshot;
+  // Furthest price moved against / in favour of the entry so far
+  maxAdverse: number;
+  maxFavorable: number;
+}
+
+type ExitResult = {
+  price: number;
+  reason: 'TP' | 'SL';
+  spread: number;
+  slippage: number;
+  /**
+   * Stop hit later on a candle whose target (e.g. TP1) came first - partials are taken before
+   * it and the remainder fills at the stop they leave, not at `price`
+   */
+  afterTarget?: boolean;
+};
+
+// Limit entry waiting for price to trade through it
+interface PendingOrder {
+  symbol: string;
+  direction: Direction;
+  limitPrice: number;
+  stopLoss: number;
+  takeProfit: number;
+  lotSize: number;
+  placedIndex: number; // LTF index of the signal candle
+  snapshot?: BacktestEntrySnapshot;
+}
+
+interface EntryCandidate {
+  signal: Signal;
+  entryPrice: number; // Signal entry, or the limit price in limit-entry mode
+  takeProfit: number;
+  lotSize: number;
+  ltfSlice: Candle[];
+  snapshot?: BacktestEntrySnapshot;
+}
+
+interface DebugStats {
+  totalIterations: number;
+  skippedKillZone: number;
+  skippedInsufficientData: number;
+  skippedNeutralBias: number;
+  skippedNoOrderBlocks: number;
+  skippedPriceNotAtOB: number;
+  signalsGenerated: number;
 }
 
 // Daily tracking for max daily drawdown
@@ -70,26 +172,39 @@ interface DailyTracker {
   isLocked: boolean; // True if daily drawdown limit hit
 }
 
-// Default symbol info for backtesting (will be updated with real data in production)
-const DEFAULT_SYMBOL_INFO = {
-  'XAUUSD.s': { pipSize: 0.1, contractSize: 100, minVolume: 0.01, maxVolume: 100, volumeStep: 0.01, tickSize: 0.01, tickValue: 1 },
-  'XAGUSD.s': { pipSize: 0.01, contractSize: 5000, minVolume: 0.01, maxVolume: 100, volumeStep: 0.01, tickSize: 0.001, tickValue: 1 },
-  BTCUSD: { pipSize: 1, contractSize: 1, minVolume: 0.01, maxVolume: 10, volumeStep: 0.01, tickSize: 0.01, tickValue: 1 },
-  ETHUSD: { pipSize: 1, contractSize: 1, minVolume: 0.01, maxVolume: 100, volumeStep: 0.01, tickSize: 0.1, tickValue: 1 },
-};
+/**
+ * Per-symbol analysis windows and cached analysis for one data set
+ */
+interface AnalysisPipeline {
+  data: MTFData;
+  cursor: CandleWindowCursor;
+  analyzer: IncrementalMTFAnalyzer;
+}
+
+// Built-in spec warnings are shown once per process (optimisers create many engines)
+const warnedBuiltinSpecs = new Set<string>();
 
 export class BacktestEngine {
   private config: BacktestConfig;
   private balance: number;
   private equity: number;
-  private openPosition: SimulatedPosition | null = null;
+  private openPositions: SimulatedPosition[] = [];
+  private pendingOrders: PendingOrder[] = [];
+  private limitOrderStats: LimitOrderStats = createLimitOrderStats();
+  private intrabarData: Map<string, IntrabarData> = new Map();
+  private intrabarStats: IntrabarStats = { ambiguousBars: 0, resolvedBars: 0, fallbackBars: 0 };
+  private lastPrices: Map<string, { bid: number; spread?: number }> = new Map();
   private trades: BacktestTrade[] = [];
   private equityCurve: { date: Date; equity: number }[] = [];
+  private benchmarkPrices: BenchmarkPrice[] = [];
   private peakEquity: number;
   private onProgress?: ProgressCallback;
   private grossProfit: number = 0;
   private grossLoss: number = 0;
   private maxDrawdownValue: number = 0;
+  private costModels: Map<string, ExecutionCostModel> = new Map();
+  private analysisPipelines: Map<string, AnalysisPipeline> = new Map();
+  private debugStats: DebugStats = BacktestEngine.createDebugStats();
 
   // Daily drawdown tracking
   private dailyTracker: DailyTracker | null = null;
@@ -109,6 +224,154 @@ export class BacktestEngine {
     }
   }
 
+  private static createDebugStats(): DebugStats {
+    return {
+      totalIterations: 0,
+      skippedKillZone: 0,
+      skippedInsufficientData: 0,
+      skippedNeutralBias: 0,
+      skippedNoOrderBlocks: 0,
+      skippedPriceNotAtOB: 0,
+      signalsGenerated: 0,
+    };
+  }
+
+  /**
+   * Contract spec for a symbol: config.symbolSpecs first, then the symbol spec registry
+   */
+  private getSymbolInfo(symbol: string = this.config.symbol): SymbolInfo {
+    const spec = this.config.symbolSpecs?.[symbol] ?? symbolSpecRegistry.get(symbol);
+    if (!spec) {
+      throw new Error(
+        `No symbol specification for ${symbol} - sync it from the broker (symbolSpecStore.syncFromBroker) or pass config.symbolSpecs`
+      );
+    }
+    return spec;
+  }
+
+  /**
+   * Refuse to run without a spec for every symbol - lot sizes and P&L would be wrong otherwise
+   */
+  private validateSymbolSpecs(symbols: string[]): void {
+    for (const symbol of symbols) {
+      this.getSymbolInfo(symbol);
+      if (!this.config.symbolSpecs?.[symbol] && symbolSpecRegistry.isBuiltin(symbol) && !warnedBuiltinSpecs.has(symbol)) {
+        warnedBuiltinSpecs.add(symbol);
+        console.warn(`[Backtest] WARNING: ${symbol} uses the built-in approximate spec - sync broker specs for exact sizing`);
+      }
+    }
+  }
+
+  /**
+   * Rate converting P&L in the symbol's quote currency to the account currency.
+   * Cross rates come from the last prices of other symbols in the run.
+   */
+  private getConversionRate(symbol: string, price: number): number {
+    return getQuoteToAccountRate(
+      this.getSymbolInfo(symbol),
+      this.config.accountCurrency ?? 'USD',
+      price,
+      (base, quote) => {
+        for (const [other, last] of Array.from(this.lastPrices.entries())) {
+          const spec = this.config.symbolSpecs?.[other] ?? symbolSpecRegistry.get(other);
+          if (spec?.baseCurrency === base && spec.profitCurrency === quote) return last.bid;
+        }
+        return undefined;
+      }
+    );
+  }
+
+  /**
+   * Ticks or lower-timeframe candles (e.g. M1 from CandleCache) used to decide candles
+   * on which both the stop loss and the target were touched
+   */
+  setIntrabarData(symbol: string, data: IntrabarData): void {
+    this.intrabarData.set(symbol, data);
+  }
+
+  /**
+   * Cost model per symbol (each keeps its own seeded slippage sequence)
+   */
+  private getCostModel(symbol: string): ExecutionCostModel {
+    let model = this.costModels.get(symbol);
+    if (!model) {
+      model = new ExecutionCostModel(
+        this.config.executionCosts,
+        symbol,
+        this.getSymbolInfo(symbol).contractSize
+      );
+      this.costModels.set(symbol, model);
+    }
+    return model;
+  }
+
+  /**
+   * Build a simulated position with entry costs and tiered TP levels.
+   * Tiered levels are measured from the fill price, like the live bot.
+   */
+  private createPosition(
+    symbol: string,
+    direction: Direction,
+    entryPrice: number,
+    stopLoss: number,
+    takeProfit: number,
+    lotSize: number,
+    entryTime: Date,
+    entrySpread: number,
+    entrySlippage: number,
+    snapshot?: BacktestEntrySnapshot
+  ): SimulatedPosition {
+    const tieredTP = this.config.tieredTP?.enabled
+      ? {
+          ...calculateTieredTPLevels(direction, entryPrice, stopLoss, this.config.tieredTP),
+          tp1Hit: false,
+          tp2Hit: false,
+        }
+      : null;
+
+    const costModel = this.getCostModel(symbol);
+    const rate = this.getConversionRate(symbol, entryPrice);
+
+    return {
+      id: uuidv4(),
+      symbol,
+      direction,
+      entryPrice,
+      stopLoss,
+      takeProfit,
+      lotSize,
+      entryTime,
+      entrySpreadCost: costModel.toAccountCurrency(entrySpread, lotSize, rate),
+      entrySlippageCost: costModel.toAccountCurrency(entrySlippage, lotSize, rate),
+      entryCommission: costModel.getCommission(lotSize),
+      initialStopLoss: stopLoss,
+      originalLotSize: lotSize,
+      tieredTP,
+      breakevenMoved: false,
+      realizedPnl: 0,
+      snapshot,
+      maxAdverse: 0,
+      maxFavorable: 0,
+    };
+  }
+
+  /**
+   * Analysis and reason behind an entry, kept only when replay snapshots are on
+   */
+  private createSnapshot(
+    signal: Signal,
+    analysis: MultiTimeframeAnalysis,
+    time: Date
+  ): BacktestEntrySnapshot | undefined {
+    if (!this.config.captureSnapshots) return undefined;
+    return {
+      time,
+      reason: signal.reason ?? '',
+      confidence: signal.confidence,
+      analysis,
+    };
+  }
+
   /**
    * Check if price is in the OTE (Optimal Trade Entry) zone
    * OTE zone is typically the 0.618-0.786 Fibonacci retracement level
@@ -185,9 +448,10 @@ export class BacktestEngine {
   ): void {
     if (!this.onProgress) return;
 
-    const winningTrades = this.trades.filter((t) => t.isWinner).length;
-    const losingTrades = this.trades.filter((t) => !t.isWinner).length;
-    const winRate = this.trades.length > 0 ? (winningTrades / this.trades.length) * 100 : 0;
+    const trades = aggregatePositionTrades(this.trades);
+    const winningTrades = trades.filter((t) => t.isWinner).length;
+    const losingTrades = trades.filter((t) => !t.isWinner).length;
+    const winRate = trades.length > 0 ? (winningTrades / trades.length) * 100 : 0;
     const profitFactor = this.grossLoss > 0 ? this.grossProfit / this.grossLoss : this.grossProfit > 0 ? Infinity : 0;
 
     this.onProgress({
@@ -196,7 +460,7 @@ export class BacktestEngine {
       currentDate,
       candlesProcessed,
       totalCandles,
-      tradesExecuted: this.trades.length,
+      tradesExecuted: trades.length,
       winningTrades,
       losingTrades,
       currentBalance: this.balance,
@@ -217,43 +481,91 @@ export class BacktestEngine {
     mtfCandles: Candle[],
     ltfCandles: Candle[]
   ): Promise<BacktestResult> {
-    this.reset();
-
     const symbol = this.config.symbol;
-    const symbolInfo = DEFAULT_SYMBOL_INFO[symbol as keyof typeof DEFAULT_SYMBOL_INFO] || DEFAULT_SYMBOL_INFO['XAUUSD.s'];
-    const totalCandles = ltfCandles.length - 100;
-    let lastProgressUpdate = 0;
-
-    // Debug counters
-    const debugStats = {
-      totalIterations: 0,
-      skippedKillZone: 0,
-      skippedInsufficientData: 0,
-      skippedNeutralBias: 0,
-      skippedNoOrderBlocks: 0,
-      skippedPriceNotAtOB: 0,
-      signalsGenerated: 0,
-    };
 
     console.log(`[Backtest Debug] Starting backtest for ${symbol}, strategy: ${this.config.strategy}`);
     console.log(`[Backtest Debug] Candles: HTF=${htfCandles.length}, MTF=${mtfCandles.length}, LTF=${ltfCandles.length}`);
 
-    // Emit initial progress
-    this.emitProgress('initializing', 0, totalCandles);
+    // Single-symbol runs hold one position at a time
+    await this.runCandleSimulation(
+      { [symbol]: { htfCandles, mtfCandles, ltfCandles } },
+      { maxOpenTrades: 1, maxTradesPerSymbol: 1, allowContraryTrades: false }
+    );
+
+    return this.buildResult();
+  }
+
+  /**
+   * Run a portfolio backtest: all symbols replay on a merged LTF timeline against one
+   * account, with TradeManager-style open trade limits and the shared daily drawdown lock.
+   * Limits come from maxConcurrentTrades (default 5), maxTradesPerSymbol (default 1)
+   * and allowContraryTrades, matching the live bot defaults.
+   */
+  async runPortfolioBacktest(data: Record<string, MTFData>): Promise<PortfolioBacktestResult> {
+    const symbols = (this.config.symbols ?? Object.keys(data)).filter((s) => data[s]);
+
+    console.log(`[Backtest Debug] Starting portfolio backtest for ${symbols.join(', ')}, strategy: ${this.config.strategy}`);
+
+    await this.runCandleSimulation(
+      Object.fromEntries(symbols.map((s) => [s, data[s]])),
+      {
+        maxOpenTrades: this.config.maxConcurrentTrades ?? 5,
+        maxTradesPerSymbol: this.config.maxTradesPerSymbol ?? 1,
+        allowContraryTrades: this.config.allowContraryTrades ?? false,
+      }
+    );
+
+    return {
+      ...this.buildResult(),
+      symbols: calculateSymbolContributions(this.trades, symbols, this.config.initialBalance),
+      correlation: calculateReturnCorrelation(this.trades, symbols),
+    };
+  }
+
+  /**
+   * Candle replay shared by single-symbol and portfolio runs.
+   * Each step: mark prices, update equity, manage open positions, then look for entries
+   * on symbols that did not close a trade on this bar.
+   */
+  private async runCandleSimulation(
+    data: Record<string, MTFData>,
+    limits: PortfolioLimits
+  ): Promise<void> {
+    this.reset();
+
+    // Symbols need 100 LTF candles of warm-up
+    const symbols = Object.keys(data).filter((s) => data[s].ltfCandles.length > 100);
+    this.validateSymbolSpecs(symbols);
+    this.benchmarkPrices = symbols.map((symbol) => {
+      const candles = data[symbol].ltfCandles;
+      return { symbol, startPrice: candles[100].open, endPrice: candles[candles.length - 1].close };
+    });
+
+    // Merged timeline of LTF candle times with per-symbol index lookup
+    const indexByTime = new Map<string, Map<number, number>>();
+    const times = new Set<number>();
+    for (const symbol of symbols) {
+      const byTime = new Map<number, number>();
+      data[symbol].ltfCandles.forEach((c, i) => {
+        byTime.set(c.time.getTime(), i);
+        times.add(c.time.getTime());
+      });
+      indexByTime.set(symbol, byTime);
+    }
+    const timeline = Array.from(times).sort((a, b) => a - b);
 
-    // Create candle index maps for faster lookup
-    const htfByTime = new Map<number, number>();
-    htfCandles.forEach((c, i) => htfByTime.set(c.time.getTime(), i));
+    const firstTradableTime = Math.min(...symbols.map((s) => data[s].ltfCandles[100].time.getTime()));
+    const startIndex = timeline.findIndex((t) => t >= firstTradableTime);
+    const totalCandles = startIndex >= 0 ? timeline.length - startIndex : 0;
+    let lastProgressUpdate = 0;
 
-    const mtfByTime = new Map<number, number>();
-    mtfCandles.forEach((c, i) => mtfByTime.set(c.time.getTime(), i));
+    // Emit initial progress
+    this.emitProgress('initializing', 0, totalCandles);
 
-    // Iterate through LTF candles (entry timeframe)
-    for (let i = 100; i < ltfCandles.length; i++) {
-      const currentLTFCandle = ltfCandles[i];
-      const currentTime = currentLTFCandle.time;
-      const candlesProcessed = i - 100;
-      debugStats.totalIterations++;
+    for (let t = Math.max(startIndex, 0); startIndex >= 0 && t < timeline.length; t++) {
+      const currentTime = new Date(timeline[t]);
+      const candlesProcessed = t - startIndex;
+      this.debugStats.totalIterations++;
 
       // Emit progress every 2% or when a trade closes
       const currentProgress = Math.floor((candlesProcessed / totalCandles) * 50);
@@ -264,175 +576,136 @@ export class BacktestEngine {
         await new Promise((resolve) => setTimeout(resolve, 0));
       }
 
+      // Symbols with a bar at this time (past warm-up)
+      const active: { symbol: string; index: number }[] = [];
+      for (const symbol of symbols) {
+        const index = indexByTime.get(symbol)?.get(timeline[t]);
+        if (index !== undefined && index >= 100) {
+          active.push({ symbol, index });
+          this.lastPrices.set(symbol, { bid: data[symbol].ltfCandles[index].close });
+        }
+      }
+
       // Update equity curve
-      this.updateEquityCurve(currentTime, currentLTFCandle.close);
-
-      // Check if open position should be closed
-      if (this.openPosition) {
-        const exitResult = this.checkPositionExit(currentLTFCandle);
-        if (exitResult) {
-          const lastTrade = this.closePosition(
-            exitResult.price,
+      this.updateEquityCurve(currentTime);
+
+      // Check if open positions should be closed
+      const closedThisBar = new Set<string>();
+      for (const { symbol, index } of active) {
+        const candle = data[symbol].ltfCandles[index];
+        const recentCandles = data[symbol].ltfCandles.slice(Math.max(0, index - 100), index + 1);
+
+        for (const pos of this.openPositions.filter((p) => p.symbol === symbol)) {
+          const exitResult = this.checkPositionExit(pos, candle, recentCandles);
+          // Best exit price reached on this bar (bid high for BUY, ask low for SELL)
+          const exitSpread = pos.direction === 'SELL' ? this.getCostModel(symbol).getSpread(currentTime) : 0;
+          const bestPrice = pos.direction === 'BUY' ? candle.high : candle.low + exitSpread;
+          this.trackExcursions(pos, candle.high + exitSpread, candle.low + exitSpread);
+
+          const lastTrade = this.updateOpenPosition(
+            pos,
+            exitResult,
+            bestPrice,
             currentTime,
-            exitResult.reason,
-            symbolInfo.contractSize
+            this.getSymbolInfo(symbol).contractSize,
+            exitSpread
           );
-          // Emit progress immediately after trade closes
-          this.emitProgress('analyzing', candlesProcessed, totalCandles, currentTime, lastTrade);
+          if (pos.lotSize === 0) {
+            closedThisBar.add(symbol);
+          }
+          if (lastTrade) {
+            // Emit progress immediately after trade closes
+            this.emitProgress('analyzing', candlesProcessed, totalCandles, currentTime, lastTrade);
+          }
         }
-        continue; // Don't look for new entries while in a position
       }
 
-      // Daily drawdown check - skip new entries if daily limit hit
-      if (!this.checkDailyDrawdown(currentTime)) {
-        continue; // Skip - daily drawdown limit reached
-      }
-
-      // Kill zone filter: Skip if outside trading hours
-      if (this.config.useKillZones) {
-        const killZones = this.config.killZones || ['LONDON_OPEN', 'NY_OPEN', 'LONDON_NY_OVERLAP'];
-        if (!isInKillZone(currentTime, killZones as KillZoneType[])) {
-          debugStats.skippedKillZone++;
-          continue; // Skip - not in kill zone
+      // Fill, invalidate or expire pending limit orders
+      for (const { symbol, index } of active) {
+        if (this.resolvePendingOrders(symbol, data[symbol].ltfCandles, index, currentTime)) {
+          closedThisBar.add(symbol);
         }
       }
 
-      // Get historical data up to current candle
-      const htfSlice = htfCandles.filter((c) => c.time <= currentTime).slice(-100);
-      const mtfSlice = mtfCandles.filter((c) => c.time <= currentTime).slice(-200);
-      const ltfSlice = ltfCandles.slice(Math.max(0, i - 100), i + 1);
-
-      if (htfSlice.length < 50 || mtfSlice.length < 100 || ltfSlice.length < 50) {
-        debugStats.skippedInsufficientData++;
-        continue;
-      }
+      // Look for new entries
+      for (const { symbol, index } of active) {
+        if (closedThisBar.has(symbol)) continue;
 
-      // Perform MTF analysis
-      const analysis = performMTFAnalysis(
-        { htfCandles: htfSlice, mtfCandles: mtfSlice, ltfCandles: ltfSlice },
-        symbol,
-        this.config.strategy === 'ORDER_BLOCK' ? 'H4' : 'H4',
-        'H1',
-        'M15'
-      );
-
-      // Debug: Log first analysis result
-      if (debugStats.totalIterations === 1) {
-        console.log(`[Backtest Debug] First analysis - HTF bias: ${analysis.htf.bias}, MTF bias: ${analysis.mtf.bias}, LTF bias: ${analysis.ltf.bias}`);
-        console.log(`[Backtest Debug] MTF Order Blocks: ${analysis.mtf.orderBlocks.length} (Bullish: ${analysis.mtf.orderBlocks.filter(ob => ob.type === 'BULLISH').length}, Bearish: ${analysis.mtf.orderBlocks.filter(ob => ob.type === 'BEARISH').length})`);
-        console.log(`[Backtest Debug] Current price: ${currentLTFCandle.close}`);
-      }
-
-      // SMC Enhancement filters
-      // Check for liquidity sweep requirement
-      if (this.config.requireLiquiditySweep && !analysis.recentLiquiditySweep?.isReversal) {
-        continue; // Skip - no recent liquidity sweep
-      }
+        // Any position blocks single-symbol runs, so check limits before the daily tracker
+        if (!this.hasCapacity(symbol, limits)) continue;
 
-      // Check for premium/discount zone requirement
-      if (this.config.requirePremiumDiscount && analysis.premiumDiscount) {
-        const { premium, discount, equilibrium } = analysis.premiumDiscount;
-        const currentPrice = currentLTFCandle.close;
-        // Must be in discount (below equilibrium) for potential buys or premium (above) for sells
-        const inTradingZone = currentPrice < equilibrium || currentPrice > equilibrium;
-        if (!inTradingZone) {
-          continue; // Skip - price at equilibrium, not optimal
+        // Daily drawdown check - skip new entries if daily limit hit
+        if (!this.checkDailyDrawdown(currentTime)) {
+          continue; // Skip - daily drawdown limit reached
         }
-      }
-
-      // Create strategy context
-      const context: StrategyContext = {
-        symbol,
-        currentPrice: currentLTFCandle.close,
-        bid: currentLTFCandle.close,
-        ask: currentLTFCandle.close + symbolInfo.pipSize,
-        analysis,
-        htfCandles: htfSlice,
-        mtfCandles: mtfSlice,
-        ltfCandles: ltfSlice,
-      };
 
-      // Run strategy
-      const signal = runStrategy(this.config.strategy, context);
+        const entry = this.evaluateEntry(symbol, data[symbol], index, currentTime);
+        if (!entry) continue;
 
-      if (signal) {
-        debugStats.signalsGenerated++;
+        // Re-check limits with the signal direction (contrary trades)
+        const limitCheck = checkPortfolioLimits(symbol, entry.signal.direction, this.getExposure(), limits);
+        if (!limitCheck.canOpen) continue;
 
-        // OTE (Optimal Trade Entry) filter
-        if (this.config.requireOTE) {
-          const isInOTE = this.checkOTEZone(signal.direction, currentLTFCandle.close, analysis);
-          if (!isInOTE) {
-            continue; // Skip - not in OTE zone
-          }
-        }
-
-        // Apply kill zone confidence bonus
-        if (this.config.useKillZones) {
-          const bonus = getKillZoneBonus(currentTime);
-          signal.confidence = Math.min(signal.confidence + bonus, 1);
-        }
-
-        // Apply fixed RR if configured
-        let adjustedTakeProfit = signal.takeProfit;
-        if (this.config.rrMode === 'fixed' && this.config.fixedRR) {
-          const risk = Math.abs(signal.entryPrice - signal.stopLoss);
-          if (signal.direction === 'BUY') {
-            adjustedTakeProfit = signal.entryPrice + (risk * this.config.fixedRR);
-          } else {
-            adjustedTakeProfit = signal.entryPrice - (risk * this.config.fixedRR);
-          }
-        }
-
-        // Calculate position size
-        const positionInfo = calculatePositionSize(
-          this.balance,
-          this.config.riskPercent,
-          signal.entryPrice,
-          signal.stopLoss,
-          {
+        // Limit-entry mode - wait for price to come to the order
+        if (this.config.limitEntry?.enabled) {
+          this.pendingOrders.push({
             symbol,
-            description: '',
-            digits: 2,
-            pipSize: symbolInfo.pipSize,
-            contractSize: symbolInfo.contractSize,
-            minVolume: symbolInfo.minVolume,
-            maxVolume: symbolInfo.maxVolume,
-            volumeStep: symbolInfo.volumeStep,
-            tickSize: symbolInfo.tickSize,
-            tickValue: symbolInfo.tickValue,
-          }
-        );
-
-        // Skip if SL is too wide to size properly (would exceed intended risk)
-        if (positionInfo.wasClampedToMin) {
+            direction: entry.signal.direction,
+            limitPrice: entry.entryPrice,
+            stopLoss: entry.signal.stopLoss,
+            takeProfit: entry.takeProfit,
+            lotSize: entry.lotSize,
+            placedIndex: index,
+            snapshot: entry.snapshot,
+          });
+          this.limitOrderStats.placed++;
           continue;
         }
 
-        // Open position
-        this.openPosition = {
-          id: uuidv4(),
-          direction: signal.direction,
-          entryPrice: signal.entryPrice,
-          stopLoss: signal.stopLoss,
-          takeProfit: adjustedTakeProfit,
-          lotSize: positionInfo.lotSize,
-          entryTime: currentTime,
-        };
+        // Open position - BUY fills at ask (bid + spread), both sides pay entry slippage
+        const costModel = this.getCostModel(symbol);
+        const spread = costModel.getSpread(currentTime);
+        const slippage = costModel.getSlippage(entry.ltfSlice);
+        const fillPrice = entry.signal.direction === 'BUY'
+          ? entry.entryPrice + spread + slippage
+          : entry.entryPrice - slippage;
+
+        this.openPositions.push(this.createPosition(
+          symbol,
+          entry.signal.direction,
+          fillPrice,
+          entry.signal.stopLoss,
+          entry.takeProfit,
+          entry.lotSize,
+          currentTime,
+          entry.signal.direction === 'BUY' ? spread : 0,
+          slippage,
+          entry.snapshot
+        ));
       }
     }
 
-    // Close any remaining position at end
-    if (this.openPosition) {
-      const lastCandle = ltfCandles[ltfCandles.length - 1];
+    // Orders still pending when the data runs out never filled
+    this.limitOrderStats.expired += this.pendingOrders.length;
+    this.pendingOrders = [];
+
+    // Close any remaining positions at end (SELL closes at ask)
+    for (const pos of [...this.openPositions]) {
+      const candles = data[pos.symbol].ltfCandles;
+      const lastCandle = candles[candles.length - 1];
+      const spread = pos.direction === 'SELL' ? this.getCostModel(pos.symbol).getSpread(lastCandle.time) : 0;
       this.closePosition(
-        lastCandle.close,
+        pos,
+        lastCandle.close + spread,
         lastCandle.time,
         'SIGNAL',
-        symbolInfo.contractSize
+        this.getSymbolInfo(pos.symbol).contractSize,
+        spread
       );
     }
 
     // Log debug stats
+    const debugStats = this.debugStats;
     console.log(`[Backtest Debug] === BACKTEST SUMMARY ===`);
     console.log(`[Backtest Debug] Total iterations: ${debugStats.totalIterations}`);
     console.log(`[Backtest Debug] Skipped (kill zone): ${debugStats.skippedKillZone}`);
@@ -441,16 +714,265 @@ export class BacktestEngine {
     console.log(`[Backtest Debug] Trades executed: ${this.trades.length}`);
     console.log(`[Backtest Debug] Days locked out (${this.maxDailyDrawdownPercent}% daily DD limit): ${this.daysLockedOut}`);
 
-    // Calculate metrics
-    const metrics = this.calculateMetrics();
-
     // Emit complete
     this.emitProgress('complete', totalCandles, totalCandles);
+  }
+
+  /**
+   * Quick capacity check before running analysis (direction-independent limits)
+   */
+  private hasCapacity(symbol: string, limits: PortfolioLimits): boolean {
+    const exposure = this.getExposure();
+    if (exposure.length >= limits.maxOpenTrades) return false;
+    return exposure.filter((p) => p.symbol === symbol).length < limits.maxTradesPerSymbol;
+  }
+
+  /**
+   * Open positions plus pending limit orders - a pending order reserves its slot
+   */
+  private getExposure(): { symbol: string; direction: Direction }[] {
+    return [...this.openPositions, ...this.pendingOrders];
+  }
+
+  /**
+   * Resolve a symbol's pending limit orders on LTF candle i. Filled orders open at the
+   * limit price without slippage; a stop loss hit on the fill candle closes them right away
+   * (the take profit is not checked on that candle since the order of the moves is unknown).
+   * Returns true when a position was opened and stopped out on this candle.
+   */
+  private resolvePendingOrders(
+    symbol: string,
+    ltfCandles: Candle[],
+    i: number,
+    currentTime: Date
+  ): boolean {
+    const limitEntry = this.config.limitEntry;
+    if (!limitEntry?.enabled) return false;
+
+    const candle = ltfCandles[i];
+    const costModel = this.getCostModel(symbol);
+    const spread = costModel.getSpread(currentTime);
+    let stoppedOut = false;
+
+    for (const order of this.pendingOrders.filter((o) => o.symbol === symbol && i > o.placedIndex)) {
+      const outcome = resolvePendingOrder(order, candle, spread);
+
+      if (outcome === 'FILLED') {
+        const pos = this.createPosition(
+          symbol,
+          order.direction,
+          order.limitPrice,
+          order.stopLoss,
+          order.takeProfit,
+          order.lotSize,
+          currentTime,
+          order.direction === 'BUY' ? spread : 0,
+          0,
+          order.snapshot
+        );
+        this.openPositions.push(pos);
+        this.limitOrderStats.filled++;
+
+        const isBuy = order.direction === 'BUY';
+        if (isBuy ? candle.low <= order.stopLoss : candle.high + spread >= order.stopLoss) {
+          const slippage = costModel.getSlippage(ltfCandles.slice(Math.max(0, i - 100), i + 1));
+          this.closePosition(
+            pos,
+            isBuy ? order.stopLoss - slippage : order.stopLoss + slippage,
+            currentTime,
+            'SL',
+            this.getSymbolInfo(symbol).contractSize,
+            isBuy ? 0 : spread,
+            slippage
+          );
+          stoppedOut = true;
+        }
+      } else if (outcome === 'INVALIDATED') {
+        this.limitOrderStats.invalidated++;
+      } else if (i - order.placedIndex >= (limitEntry.expiryCandles ?? 8)) {
+        this.limitOrderStats.expired++;
+      } else {
+        continue;
+      }
+
+      this.pendingOrders = this.pendingOrders.filter((o) => o !== order);
+    }
+
+    return stoppedOut;
+  }
+
+  /**
+   * Run filters, MTF analysis and the strategy for one symbol at LTF index i.
+   * Returns a sized entry, or null when there is nothing to trade.
+   */
+  private evaluateEntry(
+    symbol: string,
+    data: MTFData,
+    i: number,
+    currentTime: Date
+  ): EntryCandidate | null {
+    const currentLTFCandle = data.ltfCandles[i];
+    const symbolInfo = this.getSymbolInfo(symbol);
+    const debugStats = this.debugStats;
+
+    // Kill zone filter: Skip if outside trading hours
+    if (this.config.useKillZones) {
+      const killZones = this.config.killZones || ['LONDON_OPEN', 'NY_OPEN', 'LONDON_NY_OVERLAP'];
+      if (!isInKillZone(currentTime, killZones as KillZoneType[])) {
+        debugStats.skippedKillZone++;
+        return null; // Skip - not in kill zone
+      }
+    }
+
+    // Get historical data up to current candle
+    const pipeline = this.getAnalysisPipeline(symbol, data);
+    const windows = pipeline.cursor.at(i, currentTime);
+    const htfSlice = windows.htfCandles;
+    const mtfSlice = windows.mtfCandles;
+    const ltfSlice = windows.ltfCandles;
+
+    if (htfSlice.length < 50 || mtfSlice.length < 100 || ltfSlice.length < 50) {
+      debugStats.skippedInsufficientData++;
+      return null;
+    }
+
+    // Perform MTF analysis (reuses HTF/MTF results until their next candle)
+    const analysis = pipeline.analyzer.analyze(windows, 'H4', 'H1', 'M15');
+
+    // Debug: Log first analysis result
+    if (debugStats.totalIterations === 1) {
+      console.log(`[Backtest Debug] First analysis - HTF bias: ${analysis.htf.bias}, MTF bias: ${analysis.mtf.bias}, LTF bias: ${analysis.ltf.bias}`);
+      console.log(`[Backtest Debug] MTF Order Blocks: ${analysis.mtf.orderBlocks.length} (Bullish: ${analysis.mtf.orderBlocks.filter(ob => ob.type === 'BULLISH').length}, Bearish: ${analysis.mtf.orderBlocks.filter(ob => ob.type === 'BEARISH').length})`);
+      console.log(`[Backtest Debug] Current price: ${currentLTFCandle.close}`);
+    }
+
+    // SMC Enhancement filters
+    // Check for liquidity sweep requirement
+    if (this.config.requireLiquiditySweep && !analysis.recentLiquiditySweep?.isReversal) {
+      return null; // Skip - no recent liquidity sweep
+    }
+
+    // Check for premium/discount zone requirement
+    if (this.config.requirePremiumDiscount && analysis.premiumDiscount) {
+      const { equilibrium } = analysis.premiumDiscount;
+      const currentPrice = currentLTFCandle.close;
+      // Must be in discount (below equilibrium) for potential buys or premium (above) for sells
+      const inTradingZone = currentPrice < equilibrium || currentPrice > equilibrium;
+      if (!inTradingZone) {
+        return null; // Skip - price at equilibrium, not optimal
+      }
+    }
+
+    // Create strategy context
+    const context: StrategyContext = {
+      symbol,
+      currentPrice: currentLTFCandle.close,
+      bid: currentLTFCandle.close,
+      ask: currentLTFCandle.close + symbolInfo.pipSize,
+      analysis,
+      htfCandles: htfSlice,
+      mtfCandles: mtfSlice,
+      ltfCandles: ltfSlice,
+      minOBScore: this.config.minOBScore,
+      atrMultiplier: this.config.atrMultiplier,
+    };
+
+    // Run strategy
+    const signal = runStrategy(this.config.strategy, context);
+    if (!signal) return null;
+
+    debugStats.signalsGenerated++;
+
+    // OTE (Optimal Trade Entry) filter
+    if (this.config.requireOTE) {
+      const isInOTE = this.checkOTEZone(signal.direction, currentLTFCandle.close, analysis);
+      if (!isInOTE) {
+        return null; // Skip - not in OTE zone
+      }
+    }
+
+    // Confirmation candle filter - the entry candle itself must confirm
+    const confirmationType = this.config.confirmationType;
+    if (confirmationType && confirmationType !== 'none') {
+      const prevCandle = i > 0 ? data.ltfCandles[i - 1] : null;
+      if (!checkConfirmation(confirmationType, currentLTFCandle, prevCandle, signal.direction)) {
+        return null; // Skip - no confirmation
+      }
+    }
+
+    // Apply kill zone confidence bonus
+    if (this.config.useKillZones) {
+      const bonus = getKillZoneBonus(currentTime);
+      signal.confidence = Math.min(signal.confidence + bonus, 1);
+    }
+
+    // Limit entries are sized and targeted from the limit price
+    const entryPrice = this.config.limitEntry?.enabled
+      ? calculateLimitPrice(signal.direction, signal.entryPrice, signal.stopLoss, this.config.limitEntry.pullbackR)
+      : signal.entryPrice;
+
+    // Apply fixed RR if configured
+    let adjustedTakeProfit = signal.takeProfit;
+    if (this.config.rrMode === 'fixed' && this.config.fixedRR) {
+      const risk = Math.abs(entryPrice - signal.stopLoss);
+      if (signal.direction === 'BUY') {
+        adjustedTakeProfit = entryPrice + (risk * this.config.fixedRR);
+      } else {
+        adjustedTakeProfit = entryPrice - (risk * this.config.fixedRR);
+      }
+    }
+
+    // Calculate position size
+    const positionInfo = calculatePositionSize(
+      this.balance,
+      this.getRiskPercent(symbol, mtfSlice),
+      entryPrice,
+      signal.stopLoss,
+      symbolInfo,
+      this.getConversionRate(symbol, entryPrice)
+    );
+
+    // Skip if SL is too wide to size properly (would exceed intended risk)
+    if (positionInfo.wasClampedToMin) {
+      return null;
+    }
 
+    return {
+      signal,
+      entryPrice,
+      takeProfit: adjustedTakeProfit,
+      lotSize: positionInfo.lotSize,
+      ltfSlice,
+      snapshot: this.createSnapshot(signal, analysis, currentTime),
+    };
+  }
+
+  /**
+   * Risk for the next entry on a symbol from the sizing mode, fed the same history as the live bot:
+   * MTF candles, closed positions on the symbol and the balance after each closed fill
+   */
+  private getRiskPercent(symbol: string, mtfCandles: Candle[]): number {
+    const config = resolveSizingConfig(this.config.sizing, this.config.symbolSizing?.[symbol]);
+    if (config.mode === 'FIXED') return this.config.riskPercent;
+
+    // Partial-close legs of a position still open are not a result yet
+    const openIds = new Set(this.openPositions.map((p) => p.id));
+    const closedOnSymbol = this.trades.filter(
+      (t) => t.symbol === symbol && !(t.positionId && openIds.has(t.positionId))
+    );
+
+    return resolveRiskPercent(this.config.riskPercent, config, {
+      candles: mtfCandles,
+      pairResults: aggregatePositionTrades(closedOnSymbol).map((t) => t.pnl),
+      balanceCurve: balanceCurveFrom(this.config.initialBalance, this.trades.map((t) => t.pnl)),
+    }).riskPercent;
+  }
+
+  private buildResult(): BacktestResult {
     return {
       id: uuidv4(),
       config: this.config,
-      metrics,
+      metrics: this.calculateMetrics(),
       trades: this.trades,
       equityCurve: this.equityCurve,
       drawdownCurve: this.calculateDrawdownCurve(),
@@ -469,7 +991,13 @@ export class BacktestEngine {
     this.reset();
 
     const symbol = this.config.symbol;
-    const symbolInfo = DEFAULT_SYMBOL_INFO[symbol as keyof typeof DEFAULT_SYMBOL_INFO] || DEFAULT_SYMBOL_INFO['XAUUSD.s'];
+    this.validateSymbolSpecs([symbol]);
+    const symbolInfo = this.getSymbolInfo();
+    if (ticks.length > 0) {
+      this.benchmarkPrices = [{ symbol, startPrice: ticks[0].bid, endPrice: ticks[ticks.length - 1].bid }];
+    }
+
+    const pipeline = this.getAnalysisPipeline(symbol, { htfCandles, mtfCandles, ltfCandles });
 
     // Group ticks by candle periods
     let ltfIndex = 0;
@@ -480,17 +1008,20 @@ export class BacktestEngine {
       const tickTime = tick.time.getTime();
 
       // Update equity with current tick price
-      if (this.openPosition) {
-        // Check stop loss / take profit
-        const exitResult = this.checkPositionExitTick(tick);
-        if (exitResult) {
-          this.closePosition(
-            exitResult.price,
-            tick.time,
-            exitResult.reason,
-            symbolInfo.contractSize
-          );
-        }
+      for (const pos of [...this.openPositions]) {
+        // Check stop loss / take profit, partial closes and breakeven
+        const exitResult = this.checkPositionExitTick(pos, tick);
+        const isBuy = pos.direction === 'BUY';
+        const exitPrice = isBuy ? tick.bid : tick.ask;
+        this.trackExcursions(pos, exitPrice, exitPrice);
+        this.updateOpenPosition(
+          pos,
+          exitResult,
+          exitPrice,
+          tick.time,
+          symbolInfo.contractSize,
+          isBuy ? 0 : tick.ask - tick.bid
+        );
       }
 
       // Only check for new signals every 5 seconds (to avoid over-trading)
@@ -500,7 +1031,7 @@ export class BacktestEngine {
       lastSignalCheck = tickTime;
 
       // Don't look for entries while in position
-      if (this.openPosition) {
+      if (this.openPositions.length > 0) {
         continue;
       }
 
@@ -518,22 +1049,17 @@ export class BacktestEngine {
 
       // Get historical data
       const currentTime = new Date(tickTime);
-      const htfSlice = htfCandles.filter((c) => c.time <= currentTime).slice(-100);
-      const mtfSlice = mtfCandles.filter((c) => c.time <= currentTime).slice(-200);
-      const ltfSlice = ltfCandles.slice(Math.max(0, ltfIndex - 100), ltfIndex + 1);
+      const windows = pipeline.cursor.at(ltfIndex, currentTime);
+      const htfSlice = windows.htfCandles;
+      const mtfSlice = windows.mtfCandles;
+      const ltfSlice = windows.ltfCandles;
 
       if (htfSlice.length < 50 || mtfSlice.length < 100 || ltfSlice.length < 50) {
         continue;
       }
 
       // Perform analysis
-      const analysis = performMTFAnalysis(
-        { htfCandles: htfSlice, mtfCandles: mtfSlice, ltfCandles: ltfSlice },
-        symbol,
-        'H4',
-        'H1',
-        'M15'
-      );
+      const analysis = pipeline.analyzer.analyze(windows, 'H4', 'H1', 'M15');
 
       const context: StrategyContext = {
         symbol,
@@ -544,6 +1070,8 @@ export class BacktestEngine {
         htfCandles: htfSlice,
         mtfCandles: mtfSlice,
         ltfCandles: ltfSlice,
+        minOBScore: this.config.minOBScore,
+        atrMultiplier: this.config.atrMultiplier,
       };
 
       const signal = runStrategy(this.config.strategy, context);
@@ -551,157 +1079,457 @@ export class BacktestEngine {
       if (signal) {
         const positionInfo = calculatePositionSize(
           this.balance,
-          this.config.riskPercent,
+          this.getRiskPercent(symbol, mtfSlice),
           signal.direction === 'BUY' ? tick.ask : tick.bid,
           signal.stopLoss,
-          {
-            symbol,
-            description: '',
-            digits: 2,
-            pipSize: symbolInfo.pipSize,
-            contractSize: symbolInfo.contractSize,
-            minVolume: symbolInfo.minVolume,
-            maxVolume: symbolInfo.maxVolume,
-            volumeStep: symbolInfo.volumeStep,
-            tickSize: symbolInfo.tickSize,
-            tickValue: symbolInfo.tickValue,
-          }
+          symbolInfo,
+          this.getConversionRate(symbol, signal.direction === 'BUY' ? tick.ask : tick.bid)
         );
 
-        this.openPosition = {
-          id: uuidv4(),
-          direction: signal.direction,
-          entryPrice: signal.direction === 'BUY' ? tick.ask : tick.bid,
-          stopLoss: signal.stopLoss,
-          takeProfit: signal.takeProfit,
-          lotSize: positionInfo.lotSize,
-          entryTime: tick.time,
-        };
+        // Ticks carry the real spread, so only slippage and commission are modelled
+        const slippage = this.getCostModel(symbol).getSlippage(ltfSlice);
+        this.openPositions.push(this.createPosition(
+          symbol,
+          signal.direction,
+          signal.direction === 'BUY' ? tick.ask + slippage : tick.bid - slippage,
+          signal.stopLoss,
+          signal.takeProfit,
+          positionInfo.lotSize,
+          tick.time,
+          signal.direction === 'BUY' ? tick.ask - tick.bid : 0,
+          slippage,
+          this.createSnapshot(signal, analysis, currentTime)
+        ));
       }
 
       // Update equity curve every minute
-      this.updateEquityCurve(currentTime, (tick.bid + tick.ask) / 2);
+      this.lastPrices.set(symbol, { bid: tick.bid, spread: tick.ask - tick.bid });
+      this.updateEquityCurve(currentTime);
     }
 
     // Close remaining position
-    if (this.openPosition && ticks.length > 0) {
+    if (ticks.length > 0) {
       const lastTick = ticks[ticks.length - 1];
-      this.closePosition(
-        this.openPosition.direction === 'BUY' ? lastTick.bid : lastTick.ask,
-        lastTick.time,
-        'SIGNAL',
-        symbolInfo.contractSize
-      );
+      for (const pos of [...this.openPositions]) {
+        const isBuy = pos.direction === 'BUY';
+        this.closePosition(
+          pos,
+          isBuy ? lastTick.bid : lastTick.ask,
+          lastTick.time,
+          'SIGNAL',
+          symbolInfo.contractSize,
+          isBuy ? 0 : lastTick.ask - lastTick.bid
+        );
+      }
     }
 
-    const metrics = this.calculateMetrics();
-
-    return {
-      id: uuidv4(),
-      config: this.config,
-      metrics,
-      trades: this.trades,
-      equityCurve: this.equityCurve,
-      drawdownCurve: this.calculateDrawdownCurve(),
-    };
+    return this.buildResult();
   }
 
   private reset(): void {
     this.balance = this.config.initialBalance;
     this.equity = this.config.initialBalance;
     this.peakEquity = this.config.initialBalance;
-    this.openPosition = null;
+    this.openPositions = [];
+    this.pendingOrders = [];
+    this.limitOrderStats = createLimitOrderStats();
+    this.intrabarStats = { ambiguousBars: 0, resolvedBars: 0, fallbackBars: 0 };
+    this.lastPrices = new Map();
     this.trades = [];
     this.equityCurve = [];
+    this.benchmarkPrices = [];
     this.grossProfit = 0;
     this.grossLoss = 0;
     this.maxDrawdownValue = 0;
     this.dailyTracker = null;
     this.daysLockedOut = 0;
+    this.costModels = new Map();
+    this.analysisPipelines = new Map();
+    this.debugStats = BacktestEngine.createDebugStats();
   }
 
-  private checkPositionExit(candle: Candle): { price: number; reason: 'TP' | 'SL' } | null {
-    if (!this.openPosition) return null;
+  /**
+   * Incremental analysis for a symbol's data - HTF/MTF are only re-analyzed when a candle closes
+   */
+  private getAnalysisPipeline(symbol: string, data: MTFData): AnalysisPipeline {
+    let pipeline = this.analysisPipelines.get(symbol);
+    if (!pipeline || pipeline.data !== data) {
+      pipeline = {
+        data,
+        cursor: new CandleWindowCursor(data),
+        analyzer: new IncrementalMTFAnalyzer(symbol),
+      };
+      this.analysisPipelines.set(symbol, pipeline);
+    }
+    return pipeline;
+  }
 
-    const pos = this.openPosition;
+  /**
+   * Check SL/TP on an LTF candle. Candle prices are bid: BUY exits are checked on bid,
+   * SELL exits on ask (bid + spread). Stop-loss fills include adverse slippage.
+   * A candle touching both the stop and the next target is resolved with intrabar data.
+   */
+  private checkPositionExit(
+    pos: SimulatedPosition,
+    candle: Candle,
+    recentCandles: Candle[]
+  ): ExitResult | null {
+    const costModel = this.getCostModel(pos.symbol);
+    const target = this.getNextTarget(pos);
 
     if (pos.direction === 'BUY') {
+      const takeProfitHit = candle.high >= pos.takeProfit;
       // Check stop loss
       if (candle.low <= pos.stopLoss) {
-        return { price: pos.stopLoss, reason: 'SL' };
+        const slippage = costModel.getSlippage(recentCandles);
+        const stop: ExitResult = { price: pos.stopLoss - slippage, reason: 'SL', spread: 0, slippage };
+        if (candle.high < target || this.resolveAmbiguousBar(pos, candle, target, 0) === 'SL') {
+          return stop;
+        }
+        if (!takeProfitHit) return { ...stop, afterTarget: true };
       }
       // Check take profit
-      if (candle.high >= pos.takeProfit) {
-        return { price: pos.takeProfit, reason: 'TP' };
+      if (takeProfitHit) {
+        return { price: pos.takeProfit, reason: 'TP', spread: 0, slippage: 0 };
       }
     } else {
+      const spread = costModel.getSpread(candle.time);
+      const takeProfitHit = candle.low + spread <= pos.takeProfit;
       // Check stop loss
-      if (candle.high >= pos.stopLoss) {
-        return { price: pos.stopLoss, reason: 'SL' };
+      if (candle.high + spread >= pos.stopLoss) {
+        const slippage = costModel.getSlippage(recentCandles);
+        const stop: ExitResult = { price: pos.stopLoss + slippage, reason: 'SL', spread, slippage };
+        if (candle.low + spread > target || this.resolveAmbiguousBar(pos, candle, target, spread) === 'SL') {
+          return stop;
+        }
+        if (!takeProfitHit) return { ...stop, afterTarget: true };
       }
       // Check take profit
-      if (candle.low <= pos.takeProfit) {
-        return { price: pos.takeProfit, reason: 'TP' };
+      if (takeProfitHit) {
+        return { price: pos.takeProfit, reason: 'TP', spread, slippage: 0 };
       }
     }
 
     return null;
   }
 
-  private checkPositionExitTick(tick: Tick): { price: number; reason: 'TP' | 'SL' } | null {
-    if (!this.openPosition) return null;
+  /**
+   * The next level that takes profit: the first unhit tiered TP level, or the hard TP
+   */
+  private getNextTarget(pos: SimulatedPosition): number {
+    const tiered = pos.tieredTP;
+    if (!tiered) return pos.takeProfit;
 
-    const pos = this.openPosition;
+    const level = !tiered.tp1Hit ? tiered.tp1Price : !tiered.tp2Hit ? tiered.tp2Price : tiered.tp3Price;
+    // Levels beyond the hard TP are never reached before it
+    return isLevelReached(pos.direction, level, pos.takeProfit) ? pos.takeProfit : level;
+  }
+
+  /**
+   * Decide which of stop loss and target came first on a candle that touched both
+   */
+  private resolveAmbiguousBar(
+    pos: SimulatedPosition,
+    candle: Candle,
+    target: number,
+    spread: number
+  ): 'SL' | 'TARGET' {
+    const minutes = TIMEFRAME_MINUTES[candle.timeframe] ?? 15;
+    const resolution = resolveIntrabarOrder(
+      pos.direction,
+      pos.stopLoss,
+      target,
+      candle.time,
+      new Date(candle.time.getTime() + minutes * 60 * 1000),
+      this.intrabarData.get(pos.symbol),
+      spread,
+      this.config.intrabarFallback
+    );
+
+    this.intrabarStats.ambiguousBars++;
+    if (resolution.resolved) {
+      this.intrabarStats.resolvedBars++;
+    } else {
+      this.intrabarStats.fallbackBars++;
+    }
+    return resolution.first;
+  }
+
+  private checkPositionExitTick(pos: SimulatedPosition, tick: Tick): ExitResult | null {
+    const costModel = this.getCostModel(pos.symbol);
 
     if (pos.direction === 'BUY') {
       // Check stop loss (exit at bid)
       if (tick.bid <= pos.stopLoss) {
-        return { price: pos.stopLoss, reason: 'SL' };
+        const slippage = costModel.getSlippage();
+        return { price: pos.stopLoss - slippage, reason: 'SL', spread: 0, slippage };
       }
       // Check take profit (exit at bid)
       if (tick.bid >= pos.takeProfit) {
-        return { price: pos.takeProfit, reason: 'TP' };
+        return { price: pos.takeProfit, reason: 'TP', spread: 0, slippage: 0 };
       }
     } else {
+      const spread = tick.ask - tick.bid;
       // Check stop loss (exit at ask)
       if (tick.ask >= pos.stopLoss) {
-        return { price: pos.stopLoss, reason: 'SL' };
+        const slippage = costModel.getSlippage();
+        return { price: pos.stopLoss + slippage, reason: 'SL', spread, slippage };
       }
       // Check take profit (exit at ask)
       if (tick.ask <= pos.takeProfit) {
-        return { price: pos.takeProfit, reason: 'TP' };
+        return { price: pos.takeProfit, reason: 'TP', spread, slippage: 0 };
       }
     }
 
     return null;
   }
 
+  /**
+   * Resolve an open position for one bar/tick: stop loss first (pessimistic, unless intrabar
+   * data shows the target came first), then tiered partial closes and breakeven, then the
+   * hard TP or the later stop for the remaining volume. A stop reached after the target on
+   * the same bar fills at the stop left by the partials (e.g. breakeven after TP1).
+   */
+  private updateOpenPosition(
+    pos: SimulatedPosition,
+    exitResult: ExitResult | null,
+    bestPrice: number,
+    time: Date,
+    contractSize: number,
+    exitSpread: number
+  ): BacktestTrade | undefined {
+    if (exitResult?.reason === 'SL' && !exitResult.afterTarget) {
+      return this.closePosition(
+        pos,
+        exitResult.price,
+        time,
+        exitResult.reason,
+        contractSize,
+        exitResult.spread,
+        exitResult.slippage
+      );
+    }
+
+    let lastTrade = this.managePosition(pos, bestPrice, time, contractSize, exitSpread);
+
+    if (exitResult && pos.lotSize > 0) {
+      const exitPrice = !exitResult.afterTarget
+        ? exitResult.price
+        : pos.direction === 'BUY'
+          ? pos.stopLoss - exitResult.slippage
+          : pos.stopLoss + exitResult.slippage;
+      lastTrade = this.closePosition(
+        pos,
+        exitPrice,
+        time,
+        exitResult.reason,
+        contractSize,
+        exitResult.spread,
+        exitResult.slippage
+      );
+    }
+
+    return lastTrade;
+  }
+
+  /**
+   * Record how far price went against and for the position, given the range of its exit
+   * price (bid for BUY, ask for SELL). Adverse moves stop at the stop loss and favourable
+   * ones at the take profit - the position would have closed there.
+   */
+  private trackExcursions(pos: SimulatedPosition, high: number, low: number): void {
+    const isBuy = pos.direction === 'BUY';
+    const stopDistance = isBuy ? pos.entryPrice - pos.stopLoss : pos.stopLoss - pos.entryPrice;
+    const targetDistance = Math.abs(pos.takeProfit - pos.entryPrice);
+
+    let adverse = Math.max(0, isBuy ? pos.entryPrice - low : high - pos.entryPrice);
+    let favorable = Math.max(0, isBuy ? high - pos.entryPrice : pos.entryPrice - low);
+    if (stopDistance > 0) adverse = Math.min(adverse, stopDistance);
+    if (targetDistance > 0) favorable = Math.min(favorable, targetDistance);
+
+    pos.maxAdverse = Math.max(pos.maxAdverse, adverse);
+    pos.maxFavorable = Math.max(pos.maxFavorable, favorable);
+  }
+
+  /**
+   * Apply tiered TP or breakeven to a position, given the best exit price reached
+   * (bid for BUY, ask for SELL). Like the live bot, breakeven is skipped when tiered TP is on.
+   */
+  private managePosition(
+    pos: SimulatedPosition,
+    bestPrice: number,
+    time: Date,
+    contractSize: number,
+    exitSpread: number
+  ): BacktestTrade | undefined {
+    if (pos.tieredTP) {
+      return this.processTieredTP(pos, bestPrice, time, contractSize, exitSpread);
+    }
+
+    const breakeven = this.config.breakeven;
+    if (breakeven?.enabled && !pos.breakevenMoved) {
+      const riskInPrice = Math.abs(pos.entryPrice - pos.initialStopLoss);
+      const triggerPrice = pos.direction === 'BUY'
+        ? pos.entryPrice + riskInPrice * breakeven.triggerR
+        : pos.entryPrice - riskInPrice * breakeven.triggerR;
+
+      if (riskInPrice > 0 && isLevelReached(pos.direction, bestPrice, triggerPrice)) {
+        const newStopLoss = calculateBreakevenStopLoss(
+          pos.direction,
+          pos.entryPrice,
+          breakeven.bufferPips,
+          this.getSymbolInfo(pos.symbol).pipSize
+        );
+        if (isStopLossImprovement(pos.direction, pos.stopLoss, newStopLoss)) {
+          pos.stopLoss = newStopLoss;
+        }
+        pos.breakevenMoved = true;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Execute tiered partial closes in order (TP1 -> TP2 -> TP3), mirroring TieredTPManager.
+   * Several levels can fill on one bar. Levels at or beyond the hard TP are left to the TP exit.
+   */
+  private processTieredTP(
+    pos: SimulatedPosition,
+    bestPrice: number,
+    time: Date,
+    contractSize: number,
+    exitSpread: number
+  ): BacktestTrade | undefined {
+    const tiered = pos.tieredTP;
+    const config = this.config.tieredTP;
+    if (!tiered || !config) return undefined;
+
+    const symbolInfo = this.getSymbolInfo(pos.symbol);
+    const isReachable = (level: number) =>
+      isLevelReached(pos.direction, bestPrice, level) && !isLevelReached(pos.direction, level, pos.takeProfit);
+    let lastTrade: BacktestTrade | undefined;
+
+    if (!tiered.tp1Hit && isReachable(tiered.tp1Price)) {
+      const volume = calculatePartialCloseVolume(
+        pos.originalLotSize,
+        config.tp1.percent,
+        symbolInfo.volumeStep,
+        symbolInfo.minVolume
+      );
+      // Too small to split - the live manager keeps retrying, so later levels never trigger
+      if (volume === 0) return undefined;
+
+      lastTrade = this.closeLeg(pos, volume, tiered.tp1Price, time, 'TP', contractSize, exitSpread, 0, 'TP1');
+      tiered.tp1Hit = true;
+      if (config.moveSlOnTP1) {
+        pos.stopLoss = calculateBreakevenStopLoss(pos.direction, pos.entryPrice, config.beBufferPips, symbolInfo.pipSize);
+      }
+      if (pos.lotSize === 0) return lastTrade;
+    }
+
+    if (tiered.tp1Hit && !tiered.tp2Hit && isReachable(tiered.tp2Price)) {
+      const volume = calculatePartialCloseVolume(
+        pos.originalLotSize,
+        config.tp2.percent,
+        symbolInfo.volumeStep,
+        symbolInfo.minVolume
+      );
+      if (volume === 0) return lastTrade;
+
+      lastTrade = this.closeLeg(pos, volume, tiered.tp2Price, time, 'TP', contractSize, exitSpread, 0, 'TP2');
+      tiered.tp2Hit = true;
+      if (config.moveSlOnTP2) {
+        pos.stopLoss = tiered.tp1Price;
+      }
+      if (pos.lotSize === 0) return lastTrade;
+    }
+
+    if (tiered.tp1Hit && tiered.tp2Hit && isReachable(tiered.tp3Price)) {
+      lastTrade = this.closeLeg(pos, pos.lotSize, tiered.tp3Price, time, 'TP', contractSize, exitSpread, 0, 'TP3');
+    }
+
+    return lastTrade;
+  }
+
+  /**
+   * Close whatever volume is left on a position
+   */
   private closePosition(
+    pos: SimulatedPosition,
     exitPrice: number,
     exitTime: Date,
     reason: 'TP' | 'SL' | 'SIGNAL',
-    contractSize: number
+    contractSize: number,
+    exitSpread: number = 0,
+    exitSlippage: number = 0
   ): BacktestTrade | undefined {
-    if (!this.openPosition) return undefined;
+    return this.closeLeg(
+      pos,
+      pos.lotSize,
+      exitPrice,
+      exitTime,
+      reason,
+      contractSize,
+      exitSpread,
+      exitSlippage,
+      pos.tieredTP ? 'REMAINDER' : undefined
+    );
+  }
 
-    const pos = this.openPosition;
+  /**
+   * Close part (or all) of a position and record the fill as a trade leg.
+   * Spread and slippage are already reflected in the fill prices and are reported
+   * for attribution only; commission and swap are deducted from the P&L here.
+   * Entry-side costs are allocated to each leg pro rata by volume.
+   */
+  private closeLeg(
+    pos: SimulatedPosition,
+    volume: number,
+    exitPrice: number,
+    exitTime: Date,
+    reason: 'TP' | 'SL' | 'SIGNAL',
+    contractSize: number,
+    exitSpread: number,
+    exitSlippage: number,
+    leg?: BacktestTradeLeg
+  ): BacktestTrade | undefined {
+    if (pos.lotSize === 0) return undefined;
 
-    // Calculate P&L
+    const symbolInfo = this.getSymbolInfo(pos.symbol);
+    const costModel = this.getCostModel(pos.symbol);
+
+    // A leftover below the broker minimum can't stay open - close it with this leg
+    const remaining = roundVolume(pos.lotSize - volume, symbolInfo.volumeStep);
+    const closesPosition = remaining < symbolInfo.minVolume;
+    const lotSize = closesPosition ? pos.lotSize : volume;
+    const share = pos.originalLotSize > 0 ? lotSize / pos.originalLotSize : 1;
+
+    // Calculate P&L (converted from the quote currency at the exit price)
+    const rate = this.getConversionRate(pos.symbol, exitPrice);
     let pnl: number;
     if (pos.direction === 'BUY') {
-      pnl = (exitPrice - pos.entryPrice) * pos.lotSize * contractSize;
+      pnl = (exitPrice - pos.entryPrice) * lotSize * contractSize * rate;
     } else {
-      pnl = (pos.entryPrice - exitPrice) * pos.lotSize * contractSize;
+      pnl = (pos.entryPrice - exitPrice) * lotSize * contractSize * rate;
     }
 
-    const pnlPercent = (pnl / this.balance) * 100;
+    // Deduct commission (both sides) and overnight swap
+    const commission = pos.entryCommission * share + costModel.getCommission(lotSize);
+    const swap = costModel.getSwap(pos.direction, lotSize, pos.entryTime, exitTime);
+    pnl -= commission + swap;
+
+    const spreadCost = pos.entrySpreadCost * share + costModel.toAccountCurrency(exitSpread, lotSize, rate);
+    const slippageCost = pos.entrySlippageCost * share + costModel.toAccountCurrency(exitSlippage, lotSize, rate);
+    const costs: TradeCostBreakdown = {
+      spread: spreadCost,
+      commission,
+      slippage: slippageCost,
+      swap,
+      total: spreadCost + commission + slippageCost + swap,
+    };
 
-    // Track gross profit/loss
-    if (pnl > 0) {
-      this.grossProfit += pnl;
-    } else {
-      this.grossLoss += Math.abs(pnl);
-    }
+    const pnlPercent = (pnl / this.balance) * 100;
 
     // Update balance
     this.balance += pnl;
@@ -716,42 +1544,72 @@ export class BacktestEngine {
       this.maxDrawdownValue = currentDrawdown;
     }
 
-    // Record trade
+    // Record trade leg (partial legs report their own target as the TP)
     const trade: BacktestTrade = {
-      symbol: this.config.symbol,
+      symbol: pos.symbol,
       direction: pos.direction,
       entryPrice: pos.entryPrice,
       exitPrice,
-      stopLoss: pos.stopLoss,
-      takeProfit: pos.takeProfit,
-      lotSize: pos.lotSize,
+      stopLoss: pos.initialStopLoss,
+      takeProfit: leg && leg !== 'REMAINDER' ? exitPrice : pos.takeProfit,
+      lotSize,
       entryTime: pos.entryTime,
       exitTime,
       pnl,
       pnlPercent,
       isWinner: pnl > 0,
       exitReason: reason,
+      costs,
+      positionId: pos.id,
+      leg,
+      snapshot: pos.snapshot,
+      mae: pos.maxAdverse,
+      mfe: pos.maxFavorable,
     };
     this.trades.push(trade);
 
-    this.openPosition = null;
+    pos.realizedPnl += pnl;
+    pos.lotSize = closesPosition ? 0 : remaining;
+
+    if (closesPosition) {
+      // Track gross profit/loss per position
+      if (pos.realizedPnl > 0) {
+        this.grossProfit += pos.realizedPnl;
+      } else {
+        this.grossLoss += Math.abs(pos.realizedPnl);
+      }
+      this.openPositions = this.openPositions.filter((p) => p !== pos);
+    }
+
     return trade;
   }
 
-  private updateEquityCurve(date: Date, currentPrice: number): void {
+  /**
+   * Mark open positions to market at the last known bid per symbol; SELL positions are
+   * valued at the ask. Commission paid on entry and swap accrued so far are included.
+   */
+  private updateEquityCurve(date: Date): void {
     let currentEquity = this.balance;
 
-    if (this.openPosition) {
-      const pos = this.openPosition;
-      const symbolInfo = DEFAULT_SYMBOL_INFO[this.config.symbol as keyof typeof DEFAULT_SYMBOL_INFO] || DEFAULT_SYMBOL_INFO['XAUUSD.s'];
+    for (const pos of this.openPositions) {
+      const price = this.lastPrices.get(pos.symbol);
+      if (!price) continue;
+
+      const symbolInfo = this.getSymbolInfo(pos.symbol);
+      const costModel = this.getCostModel(pos.symbol);
+      const rate = this.getConversionRate(pos.symbol, price.bid);
 
       let floatingPnL: number;
       if (pos.direction === 'BUY') {
-        floatingPnL = (currentPrice - pos.entryPrice) * pos.lotSize * symbolInfo.contractSize;
+        floatingPnL = (price.bid - pos.entryPrice) * pos.lotSize * symbolInfo.contractSize * rate;
       } else {
-        floatingPnL = (pos.entryPrice - currentPrice) * pos.lotSize * symbolInfo.contractSize;
+        const askPrice = price.bid + (price.spread ?? costModel.getSpread(date));
+        floatingPnL = (pos.entryPrice - askPrice) * pos.lotSize * symbolInfo.contractSize * rate;
       }
 
+      floatingPnL -= pos.entryCommission * (pos.lotSize / pos.originalLotSize);
+      floatingPnL -= costModel.getSwap(pos.direction, pos.lotSize, pos.entryTime, date);
+
       currentEquity += floatingPnL;
     }
 
@@ -781,10 +1639,12 @@ export class BacktestEngine {
   }
 
   private calculateMetrics(): BacktestMetrics {
-    const winningTrades = this.trades.filter((t) => t.isWinner);
-    const losingTrades = this.trades.filter((t) => !t.isWinner);
+    // Partial-close legs count as one trade per position
+    const trades = aggregatePositionTrades(this.trades);
+    const winningTrades = trades.filter((t) => t.isWinner);
+    const losingTrades = trades.filter((t) => !t.isWinner);
 
-    const totalPnl = this.trades.reduce((sum, t) => sum + t.pnl, 0);
+    const totalPnl = trades.reduce((sum, t) => sum + t.pnl, 0);
     const totalPnlPercent = (totalPnl / this.config.initialBalance) * 100;
 
     const avgWin = winningTrades.length > 0
@@ -816,17 +1676,18 @@ export class BacktestEngine {
       if (ddPct > maxDrawdownPct) maxDrawdownPct = ddPct;
     }
 
-    // Calculate Sharpe Ratio (simplified)
-    const returns = this.trades.map((t) => t.pnlPercent);
-    const avgReturn = returns.length > 0 ? returns.reduce((a, b) => a + b, 0) / returns.length : 0;
-    const stdDev = returns.length > 1
-      ? Math.sqrt(returns.reduce((sum, r) => sum + Math.pow(r - avgReturn, 2), 0) / (returns.length - 1))
-      : 0;
-    const sharpeRatio = stdDev > 0 ? (avgReturn / stdDev) * Math.sqrt(252) : 0; // Annualized
+    // Daily Sharpe/Sortino/Calmar, R statistics and benchmark
+    const performance = calculatePerformanceMetrics({
+      trades: trades.map((t) => toPerformanceTrade(t, this.getRiskAmount(t))),
+      equityCurve: this.getPerformanceCurve(),
+      startDate: this.equityCurve[0]?.date ?? this.config.startDate,
+      endDate: this.equityCurve[this.equityCurve.length - 1]?.date ?? this.config.endDate,
+      benchmarkPrices: this.benchmarkPrices,
+    });
 
     // Average R:R
-    const avgRR = this.trades.length > 0
-      ? this.trades.reduce((sum, t) => {
+    const avgRR = trades.length > 0
+      ? trades.reduce((sum, t) => {
           const rr = calculateRiskReward(
             t.direction,
             t.entryPrice,
@@ -834,26 +1695,56 @@ export class BacktestEngine {
             t.takeProfit
           );
           return sum + rr;
-        }, 0) / this.trades.length
+        }, 0) / trades.length
       : 0;
 
     return {
-      totalTrades: this.trades.length,
+      totalTrades: trades.length,
       winningTrades: winningTrades.length,
       losingTrades: losingTrades.length,
-      winRate: this.trades.length > 0 ? (winningTrades.length / this.trades.length) * 100 : 0,
+      winRate: trades.length > 0 ? (winningTrades.length / trades.length) * 100 : 0,
       profitFactor: isFinite(profitFactor) ? profitFactor : 0,
       maxDrawdown,
       maxDrawdownPercent: maxDrawdownPct,
-      sharpeRatio: isFinite(sharpeRatio) ? sharpeRatio : 0,
+      sharpeRatio: performance.sharpeRatio,
       averageWin: avgWin,
       averageLoss: avgLoss,
       averageRR: avgRR,
       totalPnl,
       totalPnlPercent,
       finalBalance: this.balance,
+      costs: sumCosts(this.trades.map((t) => t.costs)),
+      limitOrders: this.config.limitEntry?.enabled ? finalizeLimitOrderStats(this.limitOrderStats) : undefined,
+      intrabar: { ...this.intrabarStats },
+      performance,
     };
   }
+
+  /**
+   * Account-currency loss at the initial stop for a (position-aggregated) trade
+   */
+  private getRiskAmount(trade: BacktestTrade): number {
+    const contractSize = this.getSymbolInfo(trade.symbol).contractSize;
+    const rate = this.getConversionRate(trade.symbol, trade.entryPrice);
+    return Math.abs(trade.entryPrice - trade.stopLoss) * trade.lotSize * contractSize * rate;
+  }
+
+  /**
+   * Equity curve from the initial balance to the final balance (the hourly curve can miss
+   * the last closes)
+   */
+  private getPerformanceCurve(): { date: Date; equity: number }[] {
+    const first = this.equityCurve[0];
+    if (!first) return [];
+
+    const lastExit = this.trades.reduce((latest, t) => Math.max(latest, t.exitTime.getTime()), 0);
+    const lastPoint = this.equityCurve[this.equityCurve.length - 1];
+    return [
+      { date: first.date, equity: this.config.initialBalance },
+      ...this.equityCurve,
+      { date: new Date(Math.max(lastPoint.date.getTime(), lastExit)), equity: this.balance },
+    ];
+  }
 }
 
 /**
@@ -875,3 +1766,15 @@ export async function runBacktest(
 
   return engine.runCandleBacktest(htfCandles, mtfCandles, ltfCandles);
 }
+
+/**
+ * Helper to run a multi-symbol portfolio backtest on one account
+ */
+export async function runPortfolioBacktest(
+  config: BacktestConfig,
+  data: Record<string, MTFData>,
+  onProgress?: ProgressCallback
+): Promise<PortfolioBacktestResult> {
+  const engine = new BacktestEngine(config, onProgress);
+  return engine.runPortfolioBacktest(data);
+}
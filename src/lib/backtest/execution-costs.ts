@@ -0,0 +1,205 @@
+import {
+  Candle,
+  Direction,
+  ExecutionCostConfig,
+  SwapRates,
+  TradeCostBreakdown,
+} from '../types';
+import { calculateATR } from '../analysis/atr';
+import { getCurrentSession } from '../analysis/kill-zones';
+import { SYMBOL_TRADING_LIMITS } from '../strategies/strategy-profiles';
+import { createRandom } from './random';
+
+/**
+ * Execution Cost Model
+ * Applies spread, commission, slippage and overnight swap to backtest fills
+ *
+ * Conventions:
+ * - Candle prices are bid prices; the ask is bid + spread
+ * - BUY opens at ask and closes at bid, SELL opens at bid and closes at ask
+ * - Slippage is always adverse and only applies to market entries and stop-loss exits
+ *   (take-profits are limit orders and fill at their level)
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Broker midnight on GMT+2 servers
+const DEFAULT_ROLLOVER_HOUR_UTC = 22;
+
+export const ZERO_COSTS: TradeCostBreakdown = {
+  spread: 0,
+  commission: 0,
+  slippage: 0,
+  swap: 0,
+  total: 0,
+};
+
+/**
+ * Count swap nights charged between two times
+ * Each rollover belongs to the trading day it closes (rollovers before 12:00 UTC close
+ * the previous day). Saturday/Sunday rollovers are skipped and the triple-swap day
+ * counts 3x; when tripleSwapDay is null (e.g. crypto) every rollover is charged once.
+ */
+export function countSwapNights(
+  entryTime: Date,
+  exitTime: Date,
+  rolloverHourUTC: number = DEFAULT_ROLLOVER_HOUR_UTC,
+  tripleSwapDay: number | null = 3
+): number {
+  if (exitTime.getTime() <= entryTime.getTime()) return 0;
+
+  // First rollover strictly after entry
+  const first = new Date(Date.UTC(
+    entryTime.getUTCFullYear(),
+    entryTime.getUTCMonth(),
+    entryTime.getUTCDate(),
+    rolloverHourUTC
+  ));
+  if (first.getTime() <= entryTime.getTime()) {
+    first.setTime(first.getTime() + DAY_MS);
+  }
+
+  let nights = 0;
+  for (let t = first.getTime(); t <= exitTime.getTime(); t += DAY_MS) {
+    if (tripleSwapDay === null) {
+      nights++;
+      continue;
+    }
+
+    const day = new Date(t - 12 * 60 * 60 * 1000).getUTCDay();
+    if (day === 0 || day === 6) continue;
+    nights += day === tripleSwapDay ? 3 : 1;
+  }
+
+  return nights;
+}
+
+export class ExecutionCostModel {
+  private config: ExecutionCostConfig;
+  private symbol: string;
+  private contractSize: number;
+  private random: () => number;
+
+  constructor(config: ExecutionCostConfig | undefined, symbol: string, contractSize: number) {
+    this.config = config || {};
+    this.symbol = symbol;
+    this.contractSize = contractSize;
+    this.random = createRandom(this.config.slippage?.seed ?? 1);
+  }
+
+  /**
+   * Whether any cost component is configured
+   */
+  isEnabled(): boolean {
+    return !!(
+      this.config.spread ||
+      this.config.commissionPerLot ||
+      (this.config.slippage && this.config.slippage.mode !== 'none') ||
+      this.getSwapRates()
+    );
+  }
+
+  /**
+   * Spread in price units at the given time
+   */
+  getSpread(time: Date): number {
+    const spread = this.config.spread;
+    if (!spread) return 0;
+
+    if (spread.mode === 'session') {
+      const session = getCurrentSession(time);
+      return spread.sessionSpreads?.[session] ?? spread.spread;
+    }
+
+    return spread.spread;
+  }
+
+  /**
+   * Draw an adverse slippage amount in price units
+   * @param recentCandles - Entry timeframe candles up to the fill (used by ATR mode)
+   */
+  getSlippage(recentCandles: Candle[] = []): number {
+    const slippage = this.config.slippage;
+    if (!slippage || slippage.mode === 'none') return 0;
+
+    let maxSlippage = 0;
+    if (slippage.mode === 'random') {
+      maxSlippage = slippage.maxSlippage ?? 0;
+    } else {
+      const atr = calculateATR(recentCandles, slippage.atrPeriod ?? 14);
+      maxSlippage = atr * (slippage.atrFraction ?? 0.1);
+    }
+
+    return maxSlippage > 0 ? this.random() * maxSlippage : 0;
+  }
+
+  /**
+   * Commission for one side of a trade in account currency
+   */
+  getCommission(lotSize: number): number {
+    return (this.config.commissionPerLot ?? 0) * lotSize;
+  }
+
+  /**
+   * Swap charged while holding a position, in account currency (positive = cost)
+   */
+  getSwap(direction: Direction, lotSize: number, entryTime: Date, exitTime: Date): number {
+    const rates = this.getSwapRates();
+    if (!rates) return 0;
+
+    const nights = countSwapNights(
+      entryTime,
+      exitTime,
+      this.config.rolloverHourUTC ?? DEFAULT_ROLLOVER_HOUR_UTC,
+      rates.tripleSwapDay === undefined ? 3 : rates.tripleSwapDay
+    );
+    const ratePerNight = direction === 'BUY' ? rates.long : rates.short;
+
+    // Rates are quoted as credits (negative = charged), costs are positive
+    return -ratePerNight * nights * lotSize;
+  }
+
+  /**
+   * Convert a price distance on a position into account currency
+   * @param conversionRate - Quote currency to account currency rate (1 for USD-quoted symbols)
+   */
+  toAccountCurrency(priceDistance: number, lotSize: number, conversionRate: number = 1): number {
+    return priceDistance * lotSize * this.contractSize * conversionRate;
+  }
+
+  private getSwapRates(): SwapRates | undefined {
+    return this.config.swap?.[this.symbol];
+  }
+}
+
+/**
+ * Sum cost breakdowns (e.g. for backtest metrics)
+ */
+export function sumCosts(breakdowns: (TradeCostBreakdown | undefined)[]): TradeCostBreakdown {
+  const total = { ...ZERO_COSTS };
+  for (const costs of breakdowns) {
+    if (!costs) continue;
+    total.spread += costs.spread;
+    total.commission += costs.commission;
+    total.slippage += costs.slippage;
+    total.swap += costs.swap;
+    total.total += costs.total;
+  }
+  return total;
+}
+
+/**
+ * Default cost model for a symbol using its typical broker spread
+ * Commission and slippage are opt-in because they vary by account type
+ */
+export function getDefaultExecutionCosts(
+  symbol: string,
+  overrides: Partial<ExecutionCostConfig> = {}
+): ExecutionCostConfig {
+  const typicalSpread = SYMBOL_TRADING_LIMITS[symbol]?.typicalSpread ?? 0;
+
+  return {
+    spread: { mode: 'fixed', spread: typicalSpread },
+    ...overrides,
+  };
+}
@@ -1 +1,15 @@
 export * from './engine';
+export * from './execution-costs';
+export * from './trade-management';
+export * from './portfolio';
+export * from './random';
+export * from './walk-forward';
+export * from './monte-carlo';
+export * from './symbol-specs';
+export * from './symbol-spec-store';
+export * from './backtest-store';
+export * from './limit-orders';
+export * from './intrabar';
+export * from './sweep';
+export * from './replay';
+export * from './performance';
@@ -0,0 +1,73 @@
+import { Candle, Direction, IntrabarFallback, Tick } from '../types';
+
+/**
+ * Intrabar Fill Resolution
+ * When one backtest candle touches both the stop loss and the target, finer data
+ * (ticks or lower-timeframe candles, e.g. M1 from CandleCache) decides which was hit first
+ */
+
+export interface IntrabarData {
+  /** Lower-timeframe candles (bid), sorted by time */
+  candles?: Candle[];
+  /** Ticks sorted by time */
+  ticks?: Tick[];
+}
+
+export interface IntrabarResolution {
+  first: 'SL' | 'TARGET';
+  /** False when finer data was missing or also ambiguous and the fallback decided */
+  resolved: boolean;
+}
+
+/**
+ * Items with start <= time < end (binary search on sorted data)
+ */
+export function sliceByTime<T extends { time: Date }>(items: T[], start: Date, end: Date): T[] {
+  const lowerBound = (t: number) => {
+    let lo = 0;
+    let hi = items.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >>> 1;
+      if (items[mid].time.getTime() < t) lo = mid + 1;
+      else hi = mid;
+    }
+    return lo;
+  };
+  return items.slice(lowerBound(start.getTime()), lowerBound(end.getTime()));
+}
+
+/**
+ * Decide whether the stop loss or the target was reached first between start and end.
+ * Ticks are checked first, then candles; a finer candle that touches both levels is
+ * still ambiguous. `spread` converts candle bids to asks for SELL positions.
+ */
+export function resolveIntrabarOrder(
+  direction: Direction,
+  stopLoss: number,
+  target: number,
+  start: Date,
+  end: Date,
+  data: IntrabarData | undefined,
+  spread: number = 0,
+  fallback: IntrabarFallback = 'pessimistic'
+): IntrabarResolution {
+  const isBuy = direction === 'BUY';
+
+  const ticks = data?.ticks ? sliceByTime(data.ticks, start, end) : [];
+  for (const tick of ticks) {
+    const price = isBuy ? tick.bid : tick.ask;
+    if (isBuy ? price <= stopLoss : price >= stopLoss) return { first: 'SL', resolved: true };
+    if (isBuy ? price >= target : price <= target) return { first: 'TARGET', resolved: true };
+  }
+
+  const candles = data?.candles ? sliceByTime(data.candles, start, end) : [];
+  for (const candle of candles) {
+    const slHit = isBuy ? candle.low <= stopLoss : candle.high + spread >= stopLoss;
+    const targetHit = isBuy ? candle.high >= target : candle.low + spread <= target;
+    if (slHit && targetHit) break;
+    if (slHit) return { first: 'SL', resolved: true };
+    if (targetHit) return { first: 'TARGET', resolved: true };
+  }
+
+  return { first: fallback === 'optimistic' ? 'TARGET' : 'SL', resolved: false };
+}
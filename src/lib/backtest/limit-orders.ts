@@ -0,0 +1,56 @@
+import { Candle, Direction, LimitOrderStats } from '../types';
+
+/**
+ * Backtest Limit Orders
+ * Pure helpers for pending limit entries (the backtest side of metaApiClient.placeLimitOrder)
+ */
+
+export type PendingOrderOutcome = 'FILLED' | 'INVALIDATED';
+
+/**
+ * Limit price: the signal entry moved `pullbackR` of the stop distance toward the stop loss
+ */
+export function calculateLimitPrice(
+  direction: Direction,
+  entryPrice: number,
+  stopLoss: number,
+  pullbackR: number = 0
+): number {
+  const pullback = Math.abs(entryPrice - stopLoss) * pullbackR;
+  return direction === 'BUY' ? entryPrice - pullback : entryPrice + pullback;
+}
+
+/**
+ * Resolve a pending order against one candle (bid prices).
+ * A BUY limit fills when the ask trades through the limit, a SELL limit when the bid does -
+ * a touch is not enough. An unfilled order is invalidated once price reaches the target,
+ * since the move it was waiting for has happened without it.
+ */
+export function resolvePendingOrder(
+  order: { direction: Direction; limitPrice: number; takeProfit: number },
+  candle: Candle,
+  spread: number = 0
+): PendingOrderOutcome | null {
+  if (order.direction === 'BUY') {
+    if (candle.low + spread < order.limitPrice) return 'FILLED';
+    if (candle.high >= order.takeProfit) return 'INVALIDATED';
+  } else {
+    if (candle.high > order.limitPrice) return 'FILLED';
+    if (candle.low + spread <= order.takeProfit) return 'INVALIDATED';
+  }
+  return null;
+}
+
+export function createLimitOrderStats(): LimitOrderStats {
+  return { placed: 0, filled: 0, expired: 0, invalidated: 0, fillRate: 0 };
+}
+
+/**
+ * Stats with the fill rate calculated
+ */
+export function finalizeLimitOrderStats(stats: LimitOrderStats): LimitOrderStats {
+  return {
+    ...stats,
+    fillRate: stats.placed > 0 ? (stats.filled / stats.placed) * 100 : 0,
+  };
+}
@@ -0,0 +1,218 @@
+import { BacktestTrade } from '../types';
+import { aggregatePositionTrades } from './trade-management';
+import { createRandom } from './random';
+
+/**
+ * Monte Carlo Robustness Analysis
+ * Re-samples a backtest trade list to show how much of the result depends on the
+ * particular order and selection of trades. Trades compound by their pnlPercent, so
+ * position sizing off the running balance is preserved.
+ */
+
+export type MonteCarloMethod = 'bootstrap' | 'shuffle';
+
+export interface MonteCarloOptions {
+  /** Number of simulated equity paths (default 1000) */
+  iterations?: number;
+  /** bootstrap: draw trades with replacement; shuffle: reorder the same trades */
+  method?: MonteCarloMethod;
+  seed?: number;
+  /** Drawdown from the running peak that counts as ruin (default 50%) */
+  ruinDrawdownPercent?: number;
+  /** Histogram buckets per distribution (default 20) */
+  histogramBins?: number;
+}
+
+export interface HistogramBin {
+  from: number;
+  to: number;
+  count: number;
+}
+
+export interface MonteCarloDistribution {
+  mean: number;
+  stdDev: number;
+  min: number;
+  max: number;
+  p5: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p95: number;
+  histogram: HistogramBin[];
+}
+
+export interface PathStats {
+  finalBalance: number;
+  maxDrawdownPercent: number;
+  longestLosingStreak: number;
+  ruined: boolean;
+}
+
+/**
+ * Plain JSON payload - safe to return from an API route and chart on the dashboard
+ */
+export interface MonteCarloResult {
+  method: MonteCarloMethod;
+  iterations: number;
+  tradeCount: number;
+  initialBalance: number;
+  ruinDrawdownPercent: number;
+  /** Stats of the backtest's own trade order */
+  original: PathStats;
+  finalBalance: MonteCarloDistribution;
+  maxDrawdownPercent: MonteCarloDistribution;
+  longestLosingStreak: MonteCarloDistribution;
+  /** Percentage of paths that hit the ruin drawdown */
+  riskOfRuin: number;
+  /** Percentage of paths that finished above the initial balance */
+  probabilityOfProfit: number;
+}
+
+/**
+ * Walk one equity path, compounding each trade's pnlPercent
+ */
+export function simulatePath(
+  returnsPercent: number[],
+  initialBalance: number,
+  ruinDrawdownPercent: number = 50
+): PathStats {
+  let balance = initialBalance;
+  let peak = initialBalance;
+  let maxDrawdownPercent = 0;
+  let streak = 0;
+  let longestLosingStreak = 0;
+
+  for (const returnPercent of returnsPercent) {
+    balance = Math.max(0, balance * (1 + returnPercent / 100));
+
+    if (returnPercent < 0) {
+      streak++;
+      longestLosingStreak = Math.max(longestLosingStreak, streak);
+    } else {
+      streak = 0;
+    }
+
+    peak = Math.max(peak, balance);
+    const drawdownPercent = peak > 0 ? ((peak - balance) / peak) * 100 : 0;
+    maxDrawdownPercent = Math.max(maxDrawdownPercent, drawdownPercent);
+  }
+
+  return {
+    finalBalance: balance,
+    maxDrawdownPercent,
+    longestLosingStreak,
+    ruined: maxDrawdownPercent >= ruinDrawdownPercent,
+  };
+}
+
+/**
+ * Percentile of an ascending-sorted array (linear interpolation)
+ */
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+/**
+ * Summary statistics and equal-width histogram of a sample
+ */
+export function summarizeDistribution(values: number[], bins: number = 20): MonteCarloDistribution {
+  const sorted = [...values].sort((a, b) => a - b);
+  const n = sorted.length;
+  const mean = n > 0 ? sorted.reduce((sum, v) => sum + v, 0) / n : 0;
+  const variance = n > 0 ? sorted.reduce((sum, v) => sum + (v - mean) ** 2, 0) / n : 0;
+  const min = n > 0 ? sorted[0] : 0;
+  const max = n > 0 ? sorted[n - 1] : 0;
+
+  const histogram: HistogramBin[] = [];
+  if (n > 0) {
+    const binCount = max > min ? bins : 1;
+    const width = (max - min) / binCount;
+    for (let i = 0; i < binCount; i++) {
+      histogram.push({ from: min + i * width, to: i === binCount - 1 ? max : min + (i + 1) * width, count: 0 });
+    }
+    for (const value of sorted) {
+      const index = width > 0 ? Math.min(binCount - 1, Math.floor((value - min) / width)) : 0;
+      histogram[index].count++;
+    }
+  }
+
+  return {
+    mean,
+    stdDev: Math.sqrt(variance),
+    min,
+    max,
+    p5: percentile(sorted, 5),
+    p25: percentile(sorted, 25),
+    p50: percentile(sorted, 50),
+    p75: percentile(sorted, 75),
+    p95: percentile(sorted, 95),
+    histogram,
+  };
+}
+
+/**
+ * Run a Monte Carlo analysis over BacktestEngine trades.
+ * Partial-close legs are merged so each position is one draw.
+ */
+export function runMonteCarlo(
+  trades: BacktestTrade[],
+  initialBalance: number,
+  options: MonteCarloOptions = {}
+): MonteCarloResult {
+  const iterations = options.iterations ?? 1000;
+  const method = options.method ?? 'bootstrap';
+  const ruinDrawdownPercent = options.ruinDrawdownPercent ?? 50;
+  const bins = options.histogramBins ?? 20;
+  const random = createRandom(options.seed ?? 1);
+
+  const returns = aggregatePositionTrades(trades).map((t) => t.pnlPercent);
+  const n = returns.length;
+
+  const finalBalances: number[] = [];
+  const drawdowns: number[] = [];
+  const streaks: number[] = [];
+  let ruinedPaths = 0;
+  let profitablePaths = 0;
+
+  const path = new Array<number>(n);
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    if (method === 'bootstrap') {
+      for (let i = 0; i < n; i++) {
+        path[i] = returns[Math.floor(random() * n)];
+      }
+    } else {
+      // Fisher-Yates shuffle of the original returns
+      for (let i = 0; i < n; i++) path[i] = returns[i];
+      for (let i = n - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [path[i], path[j]] = [path[j], path[i]];
+      }
+    }
+
+    const stats = simulatePath(path, initialBalance, ruinDrawdownPercent);
+    finalBalances.push(stats.finalBalance);
+    drawdowns.push(stats.maxDrawdownPercent);
+    streaks.push(stats.longestLosingStreak);
+    if (stats.ruined) ruinedPaths++;
+    if (stats.finalBalance > initialBalance) profitablePaths++;
+  }
+
+  return {
+    method,
+    iterations,
+    tradeCount: n,
+    initialBalance,
+    ruinDrawdownPercent,
+    original: simulatePath(returns, initialBalance, ruinDrawdownPercent),
+    finalBalance: summarizeDistribution(finalBalances, bins),
+    maxDrawdownPercent: summarizeDistribution(drawdowns, bins),
+    longestLosingStreak: summarizeDistribution(streaks, bins),
+    riskOfRuin: iterations > 0 ? (ruinedPaths / iterations) * 100 : 0,
+    probabilityOfProfit: iterations > 0 ? (profitablePaths / iterations) * 100 : 0,
+  };
+}
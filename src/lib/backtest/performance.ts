@@ -0,0 +1,331 @@
+import { BacktestTrade, BenchmarkComparison, PerformanceMetrics, RSignificance } from '../types';
+import { createRandom } from './random';
+import { percentile } from './monte-carlo';
+
+/**
+ * Performance Metrics
+ * Risk-adjusted ratios from the equity curve resampled to daily closes (per-trade
+ * returns are not a time series - an M1 scalper and a swing strategy would get the
+ * same annualisation), trade statistics in R, exposure, a buy-and-hold benchmark and
+ * a significance check on mean R. Shared by the backtest engine and live statistics.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const YEAR_MS = 365.25 * DAY_MS;
+
+export interface PerformanceTrade {
+  entryTime: Date;
+  exitTime: Date;
+  /** Result as a multiple of the initial risk (omitted when the risk is unknown) */
+  r?: number;
+  maeR?: number;
+  mfeR?: number;
+}
+
+export interface BenchmarkPrice {
+  symbol: string;
+  startPrice: number;
+  endPrice: number;
+}
+
+export interface PerformanceInput {
+  trades: PerformanceTrade[];
+  /** Account equity over time, starting with the initial balance */
+  equityCurve: { date: Date; equity: number }[];
+  startDate: Date;
+  endDate: Date;
+  /** First and last price of each traded symbol (omit for no benchmark) */
+  benchmarkPrices?: BenchmarkPrice[];
+}
+
+export interface PerformanceOptions {
+  /** Trading days per year for annualising daily ratios (default 252) */
+  periodsPerYear?: number;
+  /** Resamples for the mean R confidence interval (default 1000) */
+  bootstrapSamples?: number;
+  /** Confidence interval width (default 0.95) */
+  confidenceLevel?: number;
+  seed?: number;
+}
+
+/**
+ * Trade result in R from its account-currency risk, with excursions scaled by the stop distance
+ */
+export function toPerformanceTrade(trade: BacktestTrade, riskAmount: number): PerformanceTrade {
+  const stopDistance = Math.abs(trade.entryPrice - trade.stopLoss);
+  return {
+    entryTime: trade.entryTime,
+    exitTime: trade.exitTime,
+    r: riskAmount > 0 ? trade.pnl / riskAmount : undefined,
+    maeR: trade.mae !== undefined && stopDistance > 0 ? trade.mae / stopDistance : undefined,
+    mfeR: trade.mfe !== undefined && stopDistance > 0 ? trade.mfe / stopDistance : undefined,
+  };
+}
+
+/**
+ * Last equity of each UTC day, in date order. Weekdays without a point carry the previous
+ * close forward (a flat day is still a trading day); weekends only appear when they have data.
+ */
+export function resampleDaily(equityCurve: { date: Date; equity: number }[]): { date: Date; equity: number }[] {
+  const byDay = new Map<number, number>();
+  const sorted = [...equityCurve].sort((a, b) => a.date.getTime() - b.date.getTime());
+  for (const point of sorted) {
+    byDay.set(Math.floor(point.date.getTime() / DAY_MS), point.equity);
+  }
+  if (byDay.size === 0) return [];
+
+  const days = Array.from(byDay.keys());
+  const result: { date: Date; equity: number }[] = [];
+  let equity = byDay.get(days[0]) as number;
+  for (let day = days[0]; day <= days[days.length - 1]; day++) {
+    const close = byDay.get(day);
+    const weekday = new Date(day * DAY_MS).getUTCDay();
+    if (close === undefined && (weekday === 0 || weekday === 6)) continue;
+    equity = close ?? equity;
+    result.push({ date: new Date(day * DAY_MS), equity });
+  }
+  return result;
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
+
+function sampleStdDev(values: number[]): number {
+  if (values.length < 2) return 0;
+  const avg = mean(values);
+  return Math.sqrt(values.reduce((sum, v) => sum + (v - avg) ** 2, 0) / (values.length - 1));
+}
+
+export function calculateSharpe(returns: number[], periodsPerYear: number = 252): number {
+  const stdDev = sampleStdDev(returns);
+  return stdDev > 0 ? (mean(returns) / stdDev) * Math.sqrt(periodsPerYear) : 0;
+}
+
+/**
+ * Downside deviation counts every period, with gains as zero
+ */
+export function calculateSortino(returns: number[], periodsPerYear: number = 252): number {
+  if (returns.length < 2) return 0;
+  const downside = Math.sqrt(returns.reduce((sum, r) => sum + Math.min(r, 0) ** 2, 0) / returns.length);
+  return downside > 0 ? (mean(returns) / downside) * Math.sqrt(periodsPerYear) : 0;
+}
+
+function maxDrawdownPercent(equityCurve: { equity: number }[]): number {
+  let peak = equityCurve[0]?.equity ?? 0;
+  let maxDrawdown = 0;
+  for (const point of equityCurve) {
+    peak = Math.max(peak, point.equity);
+    if (peak > 0) {
+      maxDrawdown = Math.max(maxDrawdown, ((peak - point.equity) / peak) * 100);
+    }
+  }
+  return maxDrawdown;
+}
+
+/**
+ * Percentage of [start, end] covered by at least one trade (overlapping trades count once)
+ */
+export function calculateExposure(trades: PerformanceTrade[], startDate: Date, endDate: Date): number {
+  const start = startDate.getTime();
+  const end = endDate.getTime();
+  if (end <= start) return 0;
+
+  const intervals = trades
+    .map((t) => [Math.max(t.entryTime.getTime(), start), Math.min(t.exitTime.getTime(), end)])
+    .filter(([from, to]) => to > from)
+    .sort((a, b) => a[0] - b[0]);
+
+  let covered = 0;
+  let currentFrom = -Infinity;
+  let currentTo = -Infinity;
+  for (const [from, to] of intervals) {
+    if (from > currentTo) {
+      if (currentTo > currentFrom) covered += currentTo - currentFrom;
+      currentFrom = from;
+      currentTo = to;
+    } else {
+      currentTo = Math.max(currentTo, to);
+    }
+  }
+  if (currentTo > currentFrom) covered += currentTo - currentFrom;
+
+  return (covered / (end - start)) * 100;
+}
+
+/**
+ * Equal-weight buy and hold of the given symbols
+ */
+export function calculateBuyAndHold(prices: BenchmarkPrice[]): number {
+  const valid = prices.filter((p) => p.startPrice > 0);
+  return mean(valid.map((p) => (p.endPrice / p.startPrice - 1) * 100));
+}
+
+const LANCZOS = [
+  0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313,
+  -176.61502916214059, 12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6,
+  1.5056327351493116e-7,
+];
+
+function logGamma(x: number): number {
+  if (x < 0.5) {
+    return Math.log(Math.PI / Math.sin(Math.PI * x)) - logGamma(1 - x);
+  }
+  const z = x - 1;
+  let sum = LANCZOS[0];
+  for (let i = 1; i < LANCZOS.length; i++) {
+    sum += LANCZOS[i] / (z + i);
+  }
+  const t = z + 7.5;
+  return 0.5 * Math.log(2 * Math.PI) + (z + 0.5) * Math.log(t) - t + Math.log(sum);
+}
+
+/**
+ * Continued fraction for the incomplete beta function (modified Lentz)
+ */
+function betaContinuedFraction(x: number, a: number, b: number): number {
+  const TINY = 1e-30;
+  const clamp = (v: number) => (Math.abs(v) < TINY ? TINY : v);
+
+  let c = 1;
+  let d = 1 / clamp(1 - ((a + b) * x) / (a + 1));
+  let h = d;
+  for (let m = 1; m <= 200; m++) {
+    const m2 = 2 * m;
+    let aa = (m * (b - m) * x) / ((a + m2 - 1) * (a + m2));
+    d = 1 / clamp(1 + aa * d);
+    c = clamp(1 + aa / c);
+    h *= d * c;
+
+    aa = (-(a + m) * (a + b + m) * x) / ((a + m2) * (a + m2 + 1));
+    d = 1 / clamp(1 + aa * d);
+    c = clamp(1 + aa / c);
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < 1e-12) break;
+  }
+  return h;
+}
+
+/**
+ * Regularized incomplete beta function I_x(a, b)
+ */
+function incompleteBeta(x: number, a: number, b: number): number {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+  const front = Math.exp(
+    logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x)
+  );
+  return x < (a + 1) / (a + b + 2)
+    ? (front * betaContinuedFraction(x, a, b)) / a
+    : 1 - (front * betaContinuedFraction(1 - x, b, a)) / b;
+}
+
+/**
+ * Two-sided p-value of a Student's t statistic
+ */
+export function studentTPValue(t: number, degreesOfFreedom: number): number {
+  if (degreesOfFreedom <= 0) return 1;
+  if (!isFinite(t)) return 0;
+  return incompleteBeta(degreesOfFreedom / (degreesOfFreedom + t * t), degreesOfFreedom / 2, 0.5);
+}
+
+/**
+ * One-sample t-test of mean R against zero plus a bootstrapped confidence interval.
+ * Fewer than two trades, or identical results, give t = 0 and p = 1.
+ */
+export function testMeanR(rMultiples: number[], options: PerformanceOptions = {}): RSignificance {
+  const { bootstrapSamples = 1000, confidenceLevel = 0.95, seed = 42 } = options;
+  const n = rMultiples.length;
+  const meanR = mean(rMultiples);
+  const stdDevR = sampleStdDev(rMultiples);
+
+  const tStatistic = stdDevR > 0 ? meanR / (stdDevR / Math.sqrt(n)) : 0;
+  const pValue = stdDevR > 0 ? studentTPValue(tStatistic, n - 1) : 1;
+
+  let lowerR = meanR;
+  let upperR = meanR;
+  if (n > 1) {
+    const random = createRandom(seed);
+    const means: number[] = [];
+    for (let i = 0; i < bootstrapSamples; i++) {
+      let sum = 0;
+      for (let j = 0; j < n; j++) {
+        sum += rMultiples[Math.floor(random() * n)];
+      }
+      means.push(sum / n);
+    }
+    means.sort((a, b) => a - b);
+    const tail = ((1 - confidenceLevel) / 2) * 100;
+    lowerR = percentile(means, tail);
+    upperR = percentile(means, 100 - tail);
+  }
+
+  return { sampleSize: n, meanR, stdDevR, tStatistic, pValue, confidenceLevel, lowerR, upperR };
+}
+
+export function calculatePerformanceMetrics(
+  input: PerformanceInput,
+  options: PerformanceOptions = {}
+): PerformanceMetrics {
+  const { periodsPerYear = 252 } = options;
+  const { trades, startDate, endDate } = input;
+
+  // Daily returns
+  const daily = resampleDaily(input.equityCurve);
+  const returns: number[] = [];
+  for (let i = 1; i < daily.length; i++) {
+    if (daily[i - 1].equity > 0) {
+      returns.push(daily[i].equity / daily[i - 1].equity - 1);
+    }
+  }
+
+  // Returns and drawdown from the full-resolution curve
+  const curve = [...input.equityCurve].sort((a, b) => a.date.getTime() - b.date.getTime());
+  const first = curve[0];
+  const last = curve[curve.length - 1];
+  const years = first && last ? (last.date.getTime() - first.date.getTime()) / YEAR_MS : 0;
+  const annualizedReturnPercent = years > 0 && first.equity > 0 && last.equity > 0
+    ? ((last.equity / first.equity) ** (1 / years) - 1) * 100
+    : 0;
+  const drawdownPercent = maxDrawdownPercent(curve);
+  const calmarRatio = drawdownPercent > 0 ? annualizedReturnPercent / drawdownPercent : 0;
+
+  // R statistics
+  const rMultiples = trades.filter((t) => t.r !== undefined).map((t) => t.r as number);
+  const wins = rMultiples.filter((r) => r > 0);
+  const losses = rMultiples.filter((r) => r <= 0);
+  const maes = trades.filter((t) => t.maeR !== undefined).map((t) => t.maeR as number);
+  const mfes = trades.filter((t) => t.mfeR !== undefined).map((t) => t.mfeR as number);
+
+  const holdingMinutes = trades.map((t) => (t.exitTime.getTime() - t.entryTime.getTime()) / 60000);
+
+  let benchmark: BenchmarkComparison | null = null;
+  if (input.benchmarkPrices && input.benchmarkPrices.length > 0 && first && first.equity > 0) {
+    const buyAndHoldReturnPercent = calculateBuyAndHold(input.benchmarkPrices);
+    const strategyReturnPercent = (last.equity / first.equity - 1) * 100;
+    benchmark = {
+      buyAndHoldReturnPercent,
+      strategyReturnPercent,
+      excessReturnPercent: strategyReturnPercent - buyAndHoldReturnPercent,
+    };
+  }
+
+  const finite = (value: number) => (isFinite(value) ? value : 0);
+
+  return {
+    sharpeRatio: finite(calculateSharpe(returns, periodsPerYear)),
+    sortinoRatio: finite(calculateSortino(returns, periodsPerYear)),
+    calmarRatio: finite(calmarRatio),
+    annualizedReturnPercent: finite(annualizedReturnPercent),
+    expectancyR: mean(rMultiples),
+    averageWinR: mean(wins),
+    averageLossR: mean(losses),
+    averageMAER: maes.length > 0 ? mean(maes) : null,
+    averageMFER: mfes.length > 0 ? mean(mfes) : null,
+    exposurePercent: calculateExposure(trades, startDate, endDate),
+    averageHoldingMinutes: mean(holdingMinutes),
+    benchmark,
+    significance: testMeanR(rMultiples, options),
+  };
+}
@@ -0,0 +1,142 @@
+import { BacktestTrade, Direction } from '../types';
+import { aggregatePositionTrades } from './trade-management';
+
+/**
+ * Portfolio Backtest Helpers
+ * Account-level trade limits and per-symbol analytics for multi-symbol backtests
+ */
+
+export interface PortfolioLimits {
+  maxOpenTrades: number;
+  maxTradesPerSymbol: number;
+  allowContraryTrades: boolean;
+}
+
+export interface SymbolContribution {
+  symbol: string;
+  trades: number;
+  winningTrades: number;
+  winRate: number;
+  totalPnl: number;
+  /** P&L as a percentage of the initial balance - sums to the portfolio return */
+  contributionPercent: number;
+}
+
+export interface ReturnCorrelation {
+  symbols: string[];
+  /** Pearson correlation of daily realised P&L, indexed like `symbols` */
+  matrix: number[][];
+}
+
+/**
+ * Same checks as TradeManager.canOpenTrade, without the database-backed loss limit
+ */
+export function checkPortfolioLimits(
+  symbol: string,
+  direction: Direction,
+  openPositions: { symbol: string; direction: Direction }[],
+  limits: PortfolioLimits
+): { canOpen: boolean; reason?: string } {
+  if (openPositions.length >= limits.maxOpenTrades) {
+    return {
+      canOpen: false,
+      reason: `Maximum open trades reached (${limits.maxOpenTrades})`,
+    };
+  }
+
+  const symbolPositions = openPositions.filter((p) => p.symbol === symbol);
+  if (symbolPositions.length >= limits.maxTradesPerSymbol) {
+    return {
+      canOpen: false,
+      reason: `Maximum trades for ${symbol} reached (${limits.maxTradesPerSymbol})`,
+    };
+  }
+
+  if (!limits.allowContraryTrades && symbolPositions.some((p) => p.direction !== direction)) {
+    return {
+      canOpen: false,
+      reason: `Contradictory ${direction} trade on ${symbol} - already have opposite position`,
+    };
+  }
+
+  return { canOpen: true };
+}
+
+/**
+ * Break down portfolio results by symbol (partial-close legs count as one trade)
+ */
+export function calculateSymbolContributions(
+  trades: BacktestTrade[],
+  symbols: string[],
+  initialBalance: number
+): SymbolContribution[] {
+  const positions = aggregatePositionTrades(trades);
+
+  return symbols.map((symbol) => {
+    const symbolTrades = positions.filter((t) => t.symbol === symbol);
+    const winningTrades = symbolTrades.filter((t) => t.isWinner).length;
+    const totalPnl = symbolTrades.reduce((sum, t) => sum + t.pnl, 0);
+
+    return {
+      symbol,
+      trades: symbolTrades.length,
+      winningTrades,
+      winRate: symbolTrades.length > 0 ? (winningTrades / symbolTrades.length) * 100 : 0,
+      totalPnl,
+      contributionPercent: initialBalance > 0 ? (totalPnl / initialBalance) * 100 : 0,
+    };
+  });
+}
+
+/**
+ * Correlation of daily realised P&L between symbols.
+ * Days are the UTC dates on which any trade closed; a symbol with no closes that day counts 0.
+ * Pairs without variance (e.g. a symbol that never traded) report 0.
+ */
+export function calculateReturnCorrelation(
+  trades: BacktestTrade[],
+  symbols: string[]
+): ReturnCorrelation {
+  const dailyPnl = new Map<string, Map<string, number>>(); // day -> symbol -> pnl
+
+  for (const trade of trades) {
+    const day = trade.exitTime.toISOString().split('T')[0];
+    let bySymbol = dailyPnl.get(day);
+    if (!bySymbol) {
+      bySymbol = new Map();
+      dailyPnl.set(day, bySymbol);
+    }
+    bySymbol.set(trade.symbol, (bySymbol.get(trade.symbol) ?? 0) + trade.pnl);
+  }
+
+  const days = Array.from(dailyPnl.keys()).sort();
+  const series = symbols.map((symbol) => days.map((day) => dailyPnl.get(day)?.get(symbol) ?? 0));
+
+  const matrix = symbols.map((_, i) =>
+    symbols.map((__, j) => (i === j ? 1 : pearson(series[i], series[j])))
+  );
+
+  return { symbols, matrix };
+}
+
+function pearson(a: number[], b: number[]): number {
+  const n = a.length;
+  if (n < 2) return 0;
+
+  const meanA = a.reduce((sum, v) => sum + v, 0) / n;
+  const meanB = b.reduce((sum, v) => sum + v, 0) / n;
+
+  let covariance = 0;
+  let varianceA = 0;
+  let varianceB = 0;
+  for (let i = 0; i < n; i++) {
+    const da = a[i] - meanA;
+    const db = b[i] - meanB;
+    covariance += da * db;
+    varianceA += da * da;
+    varianceB += db * db;
+  }
+
+  if (varianceA === 0 || varianceB === 0) return 0;
+  return covariance / Math.sqrt(varianceA * varianceB);
+}
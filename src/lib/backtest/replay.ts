@@ -0,0 +1,165 @@
+import {
+  BacktestTrade,
+  Bias,
+  Candle,
+  FairValueGap,
+  LiquidityZone,
+  MultiTimeframeAnalysis,
+  OrderBlock,
+  PremiumDiscountZone,
+  Timeframe,
+} from '../types';
+import { MTFData } from '../analysis/multi-timeframe';
+import { CandleWindowCursor, IncrementalMTFAnalyzer } from '../analysis/incremental';
+
+/**
+ * Trade Replay
+ * Steps candle by candle through a backtest trade, re-running the MTF analysis on each
+ * LTF candle so the levels on screen are the ones that existed at that moment.
+ */
+
+/**
+ * Levels the strategies trade from - only the ones still active (valid, unfilled, unswept)
+ */
+export interface ReplayLevels {
+  bias: { htf: Bias; mtf: Bias; ltf: Bias };
+  confluenceScore: number;
+  /** HTF and MTF order blocks (see `timeframe`) */
+  orderBlocks: OrderBlock[];
+  /** MTF and LTF fair value gaps */
+  fvgs: FairValueGap[];
+  /** HTF and MTF liquidity */
+  liquidityZones: LiquidityZone[];
+  premiumDiscount?: PremiumDiscountZone;
+}
+
+export type ReplayPhase = 'BEFORE' | 'ENTRY' | 'OPEN' | 'EXIT' | 'AFTER';
+
+export interface ReplayFrame {
+  candle: Candle;
+  phase: ReplayPhase;
+  /** The strategy fired on this candle (the entry candle, or where a limit order was placed) */
+  isSignal: boolean;
+  levels: ReplayLevels;
+}
+
+export interface TradeReplay {
+  trade: BacktestTrade;
+  reason: string | null;
+  confidence: number | null;
+  timeframes: { htf: Timeframe; mtf: Timeframe; ltf: Timeframe };
+  frames: ReplayFrame[];
+  signalFrame: number;
+  entryFrame: number;
+  /** Past the last frame when the replay is truncated before the exit */
+  exitFrame: number;
+  /** The replay was cut off at maxFrames */
+  truncated: boolean;
+}
+
+export interface TradeReplayOptions {
+  /** LTF candles shown before the signal (default 20) */
+  barsBefore?: number;
+  /** LTF candles shown after the exit (default 5) */
+  barsAfter?: number;
+  /** Frames returned at most - longer replays stop after the cap (default 1000) */
+  maxFrames?: number;
+  /** Timeframes of `data` - the backtest engine uses H4/H1/M15 */
+  timeframes?: { htf: Timeframe; mtf: Timeframe; ltf: Timeframe };
+}
+
+export function extractReplayLevels(analysis: MultiTimeframeAnalysis): ReplayLevels {
+  return {
+    bias: { htf: analysis.htf.bias, mtf: analysis.mtf.bias, ltf: analysis.ltf.bias },
+    confluenceScore: analysis.confluenceScore,
+    orderBlocks: [...analysis.htf.orderBlocks, ...analysis.mtf.orderBlocks].filter((ob) => ob.isValid),
+    fvgs: [...analysis.mtf.fvgs, ...analysis.ltf.fvgs].filter((fvg) => !fvg.isFilled),
+    liquidityZones: [...analysis.htf.liquidityZones, ...analysis.mtf.liquidityZones].filter((zone) => !zone.isSwept),
+    premiumDiscount: analysis.premiumDiscount,
+  };
+}
+
+/**
+ * Index of the last candle opening at or before `time` (-1 when all are later)
+ */
+function indexAtOrBefore(candles: Candle[], time: Date): number {
+  const target = time.getTime();
+  let lo = 0;
+  let hi = candles.length - 1;
+  let result = -1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (candles[mid].time.getTime() <= target) {
+      result = mid;
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return result;
+}
+
+function getPhase(i: number, entryIndex: number, exitIndex: number): ReplayPhase {
+  if (i < entryIndex) return 'BEFORE';
+  if (i === entryIndex) return 'ENTRY';
+  if (i < exitIndex) return 'OPEN';
+  if (i === exitIndex) return 'EXIT';
+  return 'AFTER';
+}
+
+/**
+ * Replay a trade on the candles it was backtested on. `data` must reach far enough back
+ * before the signal for full analysis windows (100 HTF candles).
+ * The signal candle uses the captured entry snapshot when the trade has one.
+ * At most `maxFrames` candles are analyzed, so a trade held for months stays cheap to replay.
+ */
+export function buildTradeReplay(
+  trade: BacktestTrade,
+  data: MTFData,
+  options: TradeReplayOptions = {}
+): TradeReplay {
+  const { barsBefore = 20, barsAfter = 5, maxFrames = 1000 } = options;
+  const timeframes = options.timeframes ?? { htf: 'H4', mtf: 'H1', ltf: 'M15' };
+  const candles = data.ltfCandles;
+
+  const entryIndex = indexAtOrBefore(candles, trade.entryTime);
+  const exitIndex = indexAtOrBefore(candles, trade.exitTime);
+  const signalIndex = trade.snapshot ? indexAtOrBefore(candles, trade.snapshot.time) : entryIndex;
+  if (entryIndex < 0 || signalIndex < 0 || exitIndex < 0) {
+    throw new Error(`No ${timeframes.ltf} candles cover the trade at ${trade.entryTime.toISOString()}`);
+  }
+
+  const first = Math.max(0, signalIndex - barsBefore);
+  const end = Math.min(candles.length - 1, exitIndex + barsAfter);
+  const last = Math.min(end, first + maxFrames - 1);
+  const cursor = new CandleWindowCursor(data);
+  const analyzer = new IncrementalMTFAnalyzer(trade.symbol);
+  const frames: ReplayFrame[] = [];
+
+  for (let i = first; i <= last; i++) {
+    const candle = candles[i];
+    const isSignal = i === signalIndex;
+    const analysis = isSignal && trade.snapshot
+      ? trade.snapshot.analysis
+      : analyzer.analyze(cursor.at(i, candle.time), timeframes.htf, timeframes.mtf, timeframes.ltf);
+
+    frames.push({
+      candle,
+      phase: getPhase(i, entryIndex, exitIndex),
+      isSignal,
+      levels: extractReplayLevels(analysis),
+    });
+  }
+
+  return {
+    trade,
+    reason: trade.snapshot?.reason ?? null,
+    confidence: trade.snapshot?.confidence ?? null,
+    timeframes,
+    frames,
+    signalFrame: signalIndex - first,
+    entryFrame: entryIndex - first,
+    exitFrame: exitIndex - first,
+    truncated: last < end,
+  };
+}
@@ -0,0 +1,86 @@
+import { parentPort, workerData } from 'worker_threads';
+import { BacktestEngine } from './engine';
+import { symbolSpecRegistry } from './symbol-specs';
+import { MTFData } from '../analysis/multi-timeframe';
+import { Candle } from '../types';
+import {
+  SweepJob,
+  SweepJobResult,
+  SweepWorkerData,
+  SweepWorkerMessage,
+  SweepWorkerRequest,
+  createFailedSweepResult,
+  unpackCandles,
+} from './sweep';
+
+/**
+ * Sweep Worker
+ * Runs backtest jobs posted by runSweep against the shared candle buffers
+ */
+
+const { data, symbolSpecs } = workerData as SweepWorkerData;
+symbolSpecRegistry.registerAll(symbolSpecs);
+
+// Decode each symbol once per worker, on first use
+const decoded = new Map<string, { mtf: MTFData; intrabar?: Candle[] }>();
+
+function getData(symbol: string): { mtf: MTFData; intrabar?: Candle[] } {
+  let entry = decoded.get(symbol);
+  if (!entry) {
+    const shared = data[symbol];
+    if (!shared) {
+      throw new Error(`No candle data shared for ${symbol}`);
+    }
+    entry = {
+      mtf: {
+        htfCandles: unpackCandles(shared.htf),
+        mtfCandles: unpackCandles(shared.mtf),
+        ltfCandles: unpackCandles(shared.ltf),
+      },
+      intrabar: shared.intrabar ? unpackCandles(shared.intrabar) : undefined,
+    };
+    decoded.set(symbol, entry);
+  }
+  return entry;
+}
+
+function post(message: SweepWorkerMessage): void {
+  parentPort?.postMessage(message);
+}
+
+async function runJob(job: SweepJob): Promise<SweepJobResult> {
+  const startedAt = Date.now();
+  const { mtf, intrabar } = getData(job.config.symbol);
+
+  const engine = new BacktestEngine(job.config, (progress) => {
+    post({ type: 'progress', jobId: job.id, progress });
+  });
+  if (intrabar) {
+    engine.setIntrabarData(job.config.symbol, { candles: intrabar });
+  }
+
+  const result = await engine.runCandleBacktest(mtf.htfCandles, mtf.mtfCandles, mtf.ltfCandles);
+  return {
+    jobId: job.id,
+    name: job.name,
+    params: job.params ?? {},
+    metrics: result.metrics,
+    trades: result.trades,
+    durationMs: Date.now() - startedAt,
+  };
+}
+
+parentPort?.on('message', async (request: SweepWorkerRequest) => {
+  if (request.type === 'stop') {
+    parentPort?.close();
+    return;
+  }
+
+  const { job } = request;
+  try {
+    post({ type: 'result', result: await runJob(job) });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    post({ type: 'result', result: createFailedSweepResult(job, message) });
+  }
+});
@@ -0,0 +1,351 @@
+import { Worker } from 'worker_threads';
+import path from 'path';
+import { BacktestConfig, BacktestMetrics, BacktestTrade, Candle, SymbolInfo, Timeframe } from '../types';
+import { MTFData } from '../analysis/multi-timeframe';
+import { BacktestProgress } from './engine';
+import { symbolSpecRegistry } from './symbol-specs';
+import { scoreMetrics, WalkForwardObjective } from './walk-forward';
+
+/**
+ * Parallel Parameter Sweeps
+ * Runs many BacktestEngine variations across worker threads. Candles are packed once into
+ * SharedArrayBuffers that every worker reads without copying.
+ */
+
+export interface SweepJob {
+  id: string;
+  name: string;
+  /** Single-symbol config; data for config.symbol must be passed to runSweep */
+  config: BacktestConfig;
+  /** Parameters shown in the results table */
+  params?: Record<string, string | number | boolean | undefined>;
+}
+
+export interface SweepJobResult {
+  jobId: string;
+  name: string;
+  params: Record<string, string | number | boolean | undefined>;
+  metrics: BacktestMetrics;
+  trades: BacktestTrade[];
+  durationMs: number;
+  error?: string;
+}
+
+export interface RankedSweepResult extends SweepJobResult {
+  rank: number;
+  score: number;
+}
+
+export interface SweepProgressSnapshot {
+  total: number;
+  completed: number;
+  failed: number;
+  running: number;
+  /** Overall progress 0-100, counting partial progress of running jobs */
+  progress: number;
+  /** Latest progress of each running job */
+  jobs: { jobId: string; name: string; progress: BacktestProgress }[];
+}
+
+export interface SweepOptions {
+  /** Worker threads (default 1) */
+  workers?: number;
+  /** Worker entry file - defaults to sweep-worker.ts next to this module */
+  workerPath?: string;
+  onProgress?: (snapshot: SweepProgressSnapshot) => void;
+  onJobComplete?: (result: SweepJobResult) => void;
+}
+
+/**
+ * Candles in a SharedArrayBuffer: time, open, high, low, close, volume per candle
+ */
+export interface SharedCandles {
+  symbol: string;
+  timeframe: Timeframe;
+  buffer: SharedArrayBuffer;
+  length: number;
+}
+
+export interface SharedMTFData {
+  htf: SharedCandles;
+  mtf: SharedCandles;
+  ltf: SharedCandles;
+  /** M1 candles for intrabar SL/TP resolution */
+  intrabar?: SharedCandles;
+}
+
+export interface SweepWorkerData {
+  data: Record<string, SharedMTFData>;
+  symbolSpecs: SymbolInfo[];
+}
+
+export type SweepWorkerRequest = { type: 'run'; job: SweepJob } | { type: 'stop' };
+
+export type SweepWorkerMessage =
+  | { type: 'progress'; jobId: string; progress: BacktestProgress }
+  | { type: 'result'; result: SweepJobResult };
+
+const FIELDS_PER_CANDLE = 6;
+
+export function packCandles(candles: Candle[], symbol: string, timeframe: Timeframe): SharedCandles {
+  const buffer = new SharedArrayBuffer(candles.length * FIELDS_PER_CANDLE * Float64Array.BYTES_PER_ELEMENT);
+  const view = new Float64Array(buffer);
+  candles.forEach((candle, i) => {
+    const offset = i * FIELDS_PER_CANDLE;
+    view[offset] = candle.time.getTime();
+    view[offset + 1] = candle.open;
+    view[offset + 2] = candle.high;
+    view[offset + 3] = candle.low;
+    view[offset + 4] = candle.close;
+    view[offset + 5] = candle.volume;
+  });
+  return { symbol, timeframe, buffer, length: candles.length };
+}
+
+export function unpackCandles(shared: SharedCandles): Candle[] {
+  const view = new Float64Array(shared.buffer);
+  const candles: Candle[] = new Array(shared.length);
+  for (let i = 0; i < shared.length; i++) {
+    const offset = i * FIELDS_PER_CANDLE;
+    candles[i] = {
+      time: new Date(view[offset]),
+      open: view[offset + 1],
+      high: view[offset + 2],
+      low: view[offset + 3],
+      close: view[offset + 4],
+      volume: view[offset + 5],
+      symbol: shared.symbol,
+      timeframe: shared.timeframe,
+    };
+  }
+  return candles;
+}
+
+/**
+ * Pack preloaded (e.g. CandleCache) data for the workers
+ */
+export function packMTFData(
+  symbol: string,
+  data: MTFData,
+  timeframes: { htf: Timeframe; mtf: Timeframe; ltf: Timeframe } = { htf: 'H4', mtf: 'H1', ltf: 'M15' },
+  intrabarCandles?: Candle[]
+): SharedMTFData {
+  return {
+    htf: packCandles(data.htfCandles, symbol, timeframes.htf),
+    mtf: packCandles(data.mtfCandles, symbol, timeframes.mtf),
+    ltf: packCandles(data.ltfCandles, symbol, timeframes.ltf),
+    intrabar: intrabarCandles ? packCandles(intrabarCandles, symbol, 'M1') : undefined,
+  };
+}
+
+/**
+ * Aggregates BacktestProgress from all workers into one overall view
+ */
+export class SweepProgressTracker {
+  private running: Map<string, { name: string; progress: BacktestProgress }> = new Map();
+  private completed = 0;
+  private failed = 0;
+
+  constructor(private total: number) {}
+
+  update(job: SweepJob, progress: BacktestProgress): SweepProgressSnapshot {
+    this.running.set(job.id, { name: job.name, progress });
+    return this.snapshot();
+  }
+
+  complete(result: SweepJobResult): SweepProgressSnapshot {
+    this.running.delete(result.jobId);
+    this.completed++;
+    if (result.error) this.failed++;
+    return this.snapshot();
+  }
+
+  snapshot(): SweepProgressSnapshot {
+    const partial = Array.from(this.running.values())
+      .reduce((sum, job) => sum + job.progress.progress / 100, 0);
+    return {
+      total: this.total,
+      completed: this.completed,
+      failed: this.failed,
+      running: this.running.size,
+      progress: this.total > 0 ? ((this.completed + partial) / this.total) * 100 : 100,
+      jobs: Array.from(this.running.entries()).map(([jobId, job]) => ({ jobId, ...job })),
+    };
+  }
+}
+
+/**
+ * Rank results by objective (best first); failed runs and runs below minTrades go last
+ */
+export function rankSweepResults(
+  results: SweepJobResult[],
+  objective: WalkForwardObjective = 'totalPnl',
+  minTrades: number = 1
+): RankedSweepResult[] {
+  return results
+    .map((result) => ({
+      ...result,
+      score: result.error ? -Infinity : scoreMetrics(result.metrics, objective, minTrades),
+    }))
+    .sort((a, b) => b.score - a.score)
+    .map((result, i) => ({ ...result, rank: i + 1 }));
+}
+
+const CSV_METRICS: (keyof BacktestMetrics)[] = [
+  'totalTrades',
+  'winRate',
+  'profitFactor',
+  'totalPnl',
+  'totalPnlPercent',
+  'maxDrawdownPercent',
+  'sharpeRatio',
+  'averageRR',
+];
+
+function csvCell(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'number') return isFinite(value) ? String(Number(value.toFixed(4))) : '';
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Ranked results as CSV - one column per parameter and per metric
+ */
+export function sweepResultsToCSV(ranked: RankedSweepResult[]): string {
+  const paramKeys = Array.from(new Set(ranked.flatMap((r) => Object.keys(r.params))));
+  const header = ['rank', 'name', ...paramKeys, ...CSV_METRICS, 'score', 'durationMs', 'error'];
+  const rows = ranked.map((r) => [
+    r.rank,
+    r.name,
+    ...paramKeys.map((key) => r.params[key]),
+    ...CSV_METRICS.map((key) => r.metrics[key]),
+    r.score,
+    r.durationMs,
+    r.error,
+  ]);
+  return [header, ...rows].map((row) => row.map(csvCell).join(',')).join('\n') + '\n';
+}
+
+/**
+ * Ranked results as JSON (trades omitted; non-finite numbers become null)
+ */
+export function sweepResultsToJSON(ranked: RankedSweepResult[]): string {
+  return JSON.stringify(
+    ranked.map(({ trades: _trades, ...rest }) => rest),
+    (_key, value) => (typeof value === 'number' && !isFinite(value) ? null : value),
+    2
+  );
+}
+
+/**
+ * Worker entry: the TypeScript source is loaded through tsx, a compiled build runs as is
+ */
+function defaultWorkerPath(): string {
+  return path.join(__dirname, 'sweep-worker.ts');
+}
+
+/**
+ * Result for a job that threw - zero metrics so it still appears in the table
+ */
+export function createFailedSweepResult(job: SweepJob, error: string): SweepJobResult {
+  return {
+    jobId: job.id,
+    name: job.name,
+    params: job.params ?? {},
+    metrics: {
+      totalTrades: 0,
+      winningTrades: 0,
+      losingTrades: 0,
+      winRate: 0,
+      profitFactor: 0,
+      maxDrawdown: 0,
+      maxDrawdownPercent: 0,
+      sharpeRatio: 0,
+      averageWin: 0,
+      averageLoss: 0,
+      averageRR: 0,
+      totalPnl: 0,
+      totalPnlPercent: 0,
+      finalBalance: job.config.initialBalance,
+    },
+    trades: [],
+    durationMs: 0,
+    error,
+  };
+}
+
+/**
+ * Run all jobs on a pool of worker threads. Results are returned in job order;
+ * a job that throws is reported with `error` instead of failing the sweep.
+ */
+export async function runSweep(
+  jobs: SweepJob[],
+  data: Record<string, SharedMTFData>,
+  options: SweepOptions = {}
+): Promise<SweepJobResult[]> {
+  const workerPath = options.workerPath ?? defaultWorkerPath();
+  const workerCount = Math.max(1, Math.min(options.workers ?? 1, jobs.length));
+  const tracker = new SweepProgressTracker(jobs.length);
+  const results = new Map<string, SweepJobResult>();
+  const queue = [...jobs];
+
+  // Workers get the registry's broker specs (the built-ins exist in every thread already)
+  const symbolSpecs = Object.keys(data)
+    .filter((symbol) => symbolSpecRegistry.has(symbol) && !symbolSpecRegistry.isBuiltin(symbol))
+    .map((symbol) => symbolSpecRegistry.get(symbol) as SymbolInfo);
+  const workerData: SweepWorkerData = { data, symbolSpecs };
+
+  const runWorker = () =>
+    new Promise<void>((resolve, reject) => {
+      const worker = workerPath.endsWith('.ts')
+        ? new Worker(`require('tsx/cjs'); require(${JSON.stringify(workerPath)});`, { eval: true, workerData })
+        : new Worker(workerPath, { workerData });
+      let current: SweepJob | undefined;
+
+      const next = () => {
+        current = queue.shift();
+        if (current) {
+          worker.postMessage({ type: 'run', job: current } satisfies SweepWorkerRequest);
+        } else {
+          worker.postMessage({ type: 'stop' } satisfies SweepWorkerRequest);
+        }
+      };
+
+      worker.on('message', (message: SweepWorkerMessage) => {
+        if (message.type === 'progress') {
+          const job = jobs.find((j) => j.id === message.jobId);
+          if (job) options.onProgress?.(tracker.update(job, message.progress));
+          return;
+        }
+        results.set(message.result.jobId, message.result);
+        options.onJobComplete?.(message.result);
+        options.onProgress?.(tracker.complete(message.result));
+        next();
+      });
+      worker.on('error', (error) => {
+        // Report the job that was running and keep the sweep going without this worker
+        if (current) {
+          const failed = createFailedSweepResult(current, error.message);
+          results.set(current.id, failed);
+          options.onJobComplete?.(failed);
+          options.onProgress?.(tracker.complete(failed));
+          current = undefined;
+        }
+        reject(error);
+      });
+      worker.on('exit', () => resolve());
+
+      next();
+    });
+
+  const outcomes = await Promise.allSettled(Array.from({ length: workerCount }, runWorker));
+  const crashed = outcomes.filter((o): o is PromiseRejectedResult => o.status === 'rejected');
+  if (crashed.length === workerCount && queue.length > 0) {
+    throw new Error(`All sweep workers failed: ${crashed[0].reason?.message ?? crashed[0].reason}`);
+  }
+
+  return jobs
+    .map((job) => results.get(job.id))
+    .filter((result): result is SweepJobResult => result !== undefined);
+}
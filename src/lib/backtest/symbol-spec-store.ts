@@ -0,0 +1,97 @@
+import { prisma } from '../db';
+import { SymbolInfo } from '../types';
+import { symbolSpecRegistry } from './symbol-specs';
+
+/**
+ * Symbol Spec Store
+ * Persists broker symbol specifications in Postgres and loads them into the registry,
+ * so backtests use real contract sizes without a broker connection
+ */
+class SymbolSpecStore {
+  /**
+   * Load stored specs into the registry (all symbols when none are given)
+   */
+  async load(symbols?: string[]): Promise<SymbolInfo[]> {
+    const rows = await prisma.symbolSpec.findMany({
+      where: symbols ? { symbol: { in: symbols } } : undefined,
+    });
+
+    const specs: SymbolInfo[] = rows.map((row) => ({
+      symbol: row.symbol,
+      description: row.description,
+      digits: row.digits,
+      pipSize: row.pipSize,
+      contractSize: row.contractSize,
+      minVolume: row.minVolume,
+      maxVolume: row.maxVolume,
+      volumeStep: row.volumeStep,
+      tickSize: row.tickSize,
+      tickValue: row.tickValue,
+      minSlPips: row.minSlPips ?? undefined,
+      baseCurrency: row.baseCurrency ?? undefined,
+      profitCurrency: row.profitCurrency ?? undefined,
+    }));
+
+    symbolSpecRegistry.registerAll(specs);
+    console.log(`[SymbolSpecs] Loaded ${specs.length} symbol specs from database`);
+    return specs;
+  }
+
+  /**
+   * Upsert specs
+   */
+  async save(specs: SymbolInfo[]): Promise<void> {
+    await prisma.$transaction(
+      specs.map((spec) => {
+        const data = {
+          description: spec.description,
+          digits: spec.digits,
+          pipSize: spec.pipSize,
+          contractSize: spec.contractSize,
+          minVolume: spec.minVolume,
+          maxVolume: spec.maxVolume,
+          volumeStep: spec.volumeStep,
+          tickSize: spec.tickSize,
+          tickValue: spec.tickValue,
+          minSlPips: spec.minSlPips ?? null,
+          baseCurrency: spec.baseCurrency ?? null,
+          profitCurrency: spec.profitCurrency ?? null,
+        };
+        return prisma.symbolSpec.upsert({
+          where: { symbol: spec.symbol },
+          update: data,
+          create: { symbol: spec.symbol, ...data },
+        });
+      })
+    );
+  }
+
+  /**
+   * Fetch specs from the broker (e.g. metaApiClient.getSymbolInfo), persist and register them.
+   * Symbols the broker does not know are logged and skipped.
+   */
+  async syncFromBroker(
+    symbols: string[],
+    fetchSpec: (symbol: string) => Promise<SymbolInfo>
+  ): Promise<SymbolInfo[]> {
+    const specs: SymbolInfo[] = [];
+    for (const symbol of symbols) {
+      try {
+        specs.push(await fetchSpec(symbol));
+      } catch (error) {
+        console.error(`[SymbolSpecs] Failed to fetch spec for ${symbol}:`, error);
+      }
+    }
+
+    if (specs.length > 0) {
+      await this.save(specs);
+      symbolSpecRegistry.registerAll(specs);
+    }
+    console.log(`[SymbolSpecs] Synced ${specs.length}/${symbols.length} symbol specs from broker`);
+    return specs;
+  }
+}
+
+// Export singleton instance
+export const symbolSpecStore = new SymbolSpecStore();
+export default symbolSpecStore;
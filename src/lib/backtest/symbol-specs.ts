@@ -0,0 +1,105 @@
+import { SymbolInfo } from '../types';
+
+/**
+ * Symbol Specification Registry
+ * Contract specs the backtester sizes and values trades with. Specs are synced from the
+ * broker (see symbol-spec-store) so backtests run offline with the real contract sizes.
+ */
+
+/**
+ * Approximate specs for the symbols the bot trades, used until broker specs are synced
+ */
+export const BUILTIN_SYMBOL_SPECS: Record<string, SymbolInfo> = {
+  'XAUUSD.s': {
+    symbol: 'XAUUSD.s', description: 'Gold', digits: 2, pipSize: 0.1, contractSize: 100,
+    minVolume: 0.01, maxVolume: 100, volumeStep: 0.01, tickSize: 0.01, tickValue: 1,
+    baseCurrency: 'XAU', profitCurrency: 'USD',
+  },
+  'XAGUSD.s': {
+    symbol: 'XAGUSD.s', description: 'Silver', digits: 3, pipSize: 0.01, contractSize: 5000,
+    minVolume: 0.01, maxVolume: 100, volumeStep: 0.01, tickSize: 0.001, tickValue: 1,
+    baseCurrency: 'XAG', profitCurrency: 'USD',
+  },
+  BTCUSD: {
+    symbol: 'BTCUSD', description: 'Bitcoin', digits: 2, pipSize: 1, contractSize: 1,
+    minVolume: 0.01, maxVolume: 10, volumeStep: 0.01, tickSize: 0.01, tickValue: 1,
+    baseCurrency: 'BTC', profitCurrency: 'USD',
+  },
+  ETHUSD: {
+    symbol: 'ETHUSD', description: 'Ethereum', digits: 2, pipSize: 1, contractSize: 1,
+    minVolume: 0.01, maxVolume: 100, volumeStep: 0.01, tickSize: 0.1, tickValue: 1,
+    baseCurrency: 'ETH', profitCurrency: 'USD',
+  },
+};
+
+export class SymbolSpecRegistry {
+  private specs: Map<string, SymbolInfo> = new Map();
+
+  constructor(specs: SymbolInfo[] = []) {
+    this.registerAll(specs);
+  }
+
+  register(spec: SymbolInfo): void {
+    this.specs.set(spec.symbol, spec);
+  }
+
+  registerAll(specs: SymbolInfo[]): void {
+    for (const spec of specs) {
+      this.register(spec);
+    }
+  }
+
+  get(symbol: string): SymbolInfo | undefined {
+    return this.specs.get(symbol);
+  }
+
+  has(symbol: string): boolean {
+    return this.specs.has(symbol);
+  }
+
+  /**
+   * True when the spec is still the built-in approximation rather than broker data
+   */
+  isBuiltin(symbol: string): boolean {
+    return this.specs.get(symbol) === BUILTIN_SYMBOL_SPECS[symbol];
+  }
+
+  list(): SymbolInfo[] {
+    return Array.from(this.specs.values());
+  }
+}
+
+// Export singleton instance
+export const symbolSpecRegistry = new SymbolSpecRegistry(Object.values(BUILTIN_SYMBOL_SPECS));
+
+/**
+ * Rate that converts an amount in the symbol's profit (quote) currency to the account currency.
+ *
+ * Resolution order:
+ * 1. Profit currency is the account currency (XAUUSD on a USD account) - 1
+ * 2. Base currency is the account currency (USDJPY on a USD account) - 1 / price
+ * 3. A conversion pair priced by `lookupPrice` (GBPJPY via USDJPY) - direct or inverted
+ * 4. The spec's own tick value, which the broker quotes in account currency at sync time
+ */
+export function getQuoteToAccountRate(
+  spec: SymbolInfo,
+  accountCurrency: string,
+  price: number,
+  lookupPrice?: (base: string, quote: string) => number | undefined
+): number {
+  const profitCurrency = spec.profitCurrency;
+  if (!profitCurrency || profitCurrency === accountCurrency) return 1;
+
+  if (spec.baseCurrency === accountCurrency && price > 0) {
+    return 1 / price;
+  }
+
+  const direct = lookupPrice?.(profitCurrency, accountCurrency);
+  if (direct && direct > 0) return direct;
+
+  const inverse = lookupPrice?.(accountCurrency, profitCurrency);
+  if (inverse && inverse > 0) return 1 / inverse;
+
+  const tickUnitValue = spec.tickSize * spec.contractSize;
+  return tickUnitValue > 0 ? spec.tickValue / tickUnitValue : 1;
+}
@@ -0,0 +1,140 @@
+import { BacktestTrade, Direction, TieredTPConfig } from '../types';
+import { sumCosts } from './execution-costs';
+
+/**
+ * Backtest Trade Management
+ * Pure helpers that mirror the live TieredTPManager and BreakevenManager so the
+ * backtester can simulate partial closes and stop-loss moves the same way the bot does
+ */
+
+export interface TieredTPLevels {
+  tp1Price: number;
+  tp2Price: number;
+  tp3Price: number;
+}
+
+/**
+ * TP levels at R multiples of the initial risk (same as TieredTPManager.initializePosition)
+ */
+export function calculateTieredTPLevels(
+  direction: Direction,
+  entryPrice: number,
+  stopLoss: number,
+  config: TieredTPConfig
+): TieredTPLevels {
+  const riskInPrice = Math.abs(entryPrice - stopLoss);
+  const sign = direction === 'BUY' ? 1 : -1;
+
+  return {
+    tp1Price: entryPrice + sign * riskInPrice * config.tp1.rr,
+    tp2Price: entryPrice + sign * riskInPrice * config.tp2.rr,
+    tp3Price: entryPrice + sign * riskInPrice * config.tp3.rr,
+  };
+}
+
+/**
+ * Round a volume to the symbol's volume step
+ */
+export function roundVolume(volume: number, volumeStep: number): number {
+  return parseFloat((Math.round(volume / volumeStep) * volumeStep).toFixed(8));
+}
+
+/**
+ * Volume to close for a partial TP, as a percentage of the original volume.
+ * Returns 0 when the rounded volume is below the broker minimum - the live manager
+ * skips the partial close (and does not mark the level hit) in that case.
+ */
+export function calculatePartialCloseVolume(
+  originalVolume: number,
+  percent: number,
+  volumeStep: number,
+  minVolume: number
+): number {
+  const rounded = roundVolume(originalVolume * (percent / 100), volumeStep);
+  return rounded < minVolume ? 0 : rounded;
+}
+
+/**
+ * Breakeven stop loss: entry plus buffer pips in the direction of the trade
+ */
+export function calculateBreakevenStopLoss(
+  direction: Direction,
+  entryPrice: number,
+  bufferPips: number,
+  pipSize: number
+): number {
+  const bufferInPrice = bufferPips * pipSize;
+  return direction === 'BUY' ? entryPrice + bufferInPrice : entryPrice - bufferInPrice;
+}
+
+/**
+ * Check if a price has reached a level in the favourable direction
+ */
+export function isLevelReached(direction: Direction, price: number, level: number): boolean {
+  return direction === 'BUY' ? price >= level : price <= level;
+}
+
+/**
+ * Check if a new stop loss locks in more than the current one
+ */
+export function isStopLossImprovement(direction: Direction, currentSL: number, newSL: number): boolean {
+  return direction === 'BUY' ? newSL > currentSL : newSL < currentSL;
+}
+
+/**
+ * Merge partial-close legs back into one trade per position.
+ * Legs are linked by positionId; trades without one are passed through unchanged.
+ * Exit and target prices are volume-weighted so R:R stays comparable with single-TP runs.
+ */
+export function aggregatePositionTrades(trades: BacktestTrade[]): BacktestTrade[] {
+  const result: BacktestTrade[] = [];
+  const legsByPosition = new Map<string, BacktestTrade[]>();
+
+  for (const trade of trades) {
+    if (!trade.positionId) {
+      result.push(trade);
+      continue;
+    }
+
+    const legs = legsByPosition.get(trade.positionId);
+    if (legs) {
+      legs.push(trade);
+    } else {
+      const newLegs = [trade];
+      legsByPosition.set(trade.positionId, newLegs);
+      // Keep position order by first leg
+      result.push(trade);
+    }
+  }
+
+  return result.map((trade) => {
+    const legs = trade.positionId ? legsByPosition.get(trade.positionId) : undefined;
+    if (!legs || legs.length === 1) {
+      return trade;
+    }
+
+    const lastLeg = legs[legs.length - 1];
+    const lotSize = legs.reduce((sum, leg) => sum + leg.lotSize, 0);
+    const weighted = (pick: (leg: BacktestTrade) => number) =>
+      lotSize > 0 ? legs.reduce((sum, leg) => sum + pick(leg) * leg.lotSize, 0) / lotSize : pick(lastLeg);
+    const pnl = legs.reduce((sum, leg) => sum + leg.pnl, 0);
+    const hasCosts = legs.some((leg) => leg.costs);
+
+    return {
+      ...trade,
+      exitPrice: weighted((leg) => leg.exitPrice),
+      takeProfit: weighted((leg) => leg.takeProfit),
+      lotSize: roundVolume(lotSize, 1e-8),
+      exitTime: lastLeg.exitTime,
+      pnl,
+      pnlPercent: legs.reduce((sum, leg) => sum + leg.pnlPercent, 0),
+      isWinner: pnl > 0,
+      exitReason: lastLeg.exitReason,
+      leg: undefined,
+      // Excursions run up to each fill - the last leg saw the whole position
+      mae: lastLeg.mae,
+      mfe: lastLeg.mfe,
+      costs: hasCosts ? sumCosts(legs.map((leg) => leg.costs)) : undefined,
+    };
+  });
+}
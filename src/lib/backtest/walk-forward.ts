@@ -0,0 +1,368 @@
+import {
+  BacktestConfig,
+  BacktestMetrics,
+  BacktestTrade,
+  ConfirmationType,
+  TIERED_TP_PROFILES,
+} from '../types';
+import { MTFData } from '../analysis/multi-timeframe';
+import { BacktestEngine } from './engine';
+import { aggregatePositionTrades } from './trade-management';
+import { createRandom } from './random';
+
+/**
+ * Walk-Forward Optimisation
+ * Splits a date range into rolling in-sample / out-of-sample folds, picks the best
+ * parameters on each in-sample window and measures them on the unseen window that follows.
+ * Only out-of-sample results say anything about how a profile will hold up live.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// LTF candles the engine needs before it starts trading
+const WARMUP_CANDLES = 100;
+
+/**
+ * Tunable strategy profile parameters.
+ * minOBScore and atrMultiplier are passed through as BacktestConfig fields.
+ */
+export interface WalkForwardParams {
+  minOBScore?: number;
+  riskReward?: number;
+  atrMultiplier?: number;
+  confirmationType?: ConfirmationType;
+  /** Key of TIERED_TP_PROFILES */
+  tieredProfile?: string;
+}
+
+export type WalkForwardSearchSpace = {
+  [K in keyof WalkForwardParams]?: NonNullable<WalkForwardParams[K]>[];
+};
+
+export type WalkForwardObjective = 'profitFactor' | 'totalPnl' | 'sharpeRatio' | 'winRate';
+
+export interface WalkForwardOptions {
+  inSampleDays: number;
+  outOfSampleDays: number;
+  /** Days to roll forward between folds (default: outOfSampleDays) */
+  stepDays?: number;
+  search: 'grid' | 'random';
+  /** Parameter sets drawn per fold in random mode (default 20) */
+  randomSamples?: number;
+  seed?: number;
+  objective?: WalkForwardObjective;
+  /** In-sample runs with fewer trades are never selected (default 5) */
+  minTrades?: number;
+}
+
+export interface WalkForwardFold {
+  index: number;
+  inSampleStart: Date;
+  inSampleEnd: Date;
+  outOfSampleStart: Date;
+  outOfSampleEnd: Date;
+}
+
+export interface WalkForwardFoldResult extends WalkForwardFold {
+  params: WalkForwardParams;
+  candidatesTested: number;
+  inSample: BacktestMetrics;
+  outOfSample: BacktestMetrics;
+  outOfSampleTrades: BacktestTrade[];
+}
+
+export interface ParameterStability {
+  values: (string | number)[];
+  mostCommon: string | number;
+  /** Share of folds that picked the most common value (0-1) */
+  consistency: number;
+  /** Number of times the selected value changed between consecutive folds */
+  changes: number;
+}
+
+export interface WalkForwardResult {
+  symbol: string;
+  folds: WalkForwardFoldResult[];
+  outOfSample: {
+    totalTrades: number;
+    winRate: number;
+    profitFactor: number;
+    totalPnl: number;
+    profitableFolds: number;
+    /** Out-of-sample return per day relative to in-sample (1 = no decay) */
+    efficiency: number;
+  };
+  stability: Record<string, ParameterStability>;
+}
+
+export const DEFAULT_WALK_FORWARD_SPACE: WalkForwardSearchSpace = {
+  minOBScore: [40, 50, 60, 70],
+  riskReward: [1.5, 2, 2.5, 3],
+  atrMultiplier: [1, 1.5, 2],
+  confirmationType: ['none', 'close', 'strong', 'engulf'],
+  tieredProfile: ['DISABLED', 'RUNNER', 'BALANCED', 'SCALP_QUICK'],
+};
+
+/**
+ * Rolling folds: in-sample window followed directly by its out-of-sample window.
+ * Folds whose out-of-sample window would run past `end` are dropped.
+ */
+export function createWalkForwardFolds(
+  start: Date,
+  end: Date,
+  inSampleDays: number,
+  outOfSampleDays: number,
+  stepDays: number = outOfSampleDays
+): WalkForwardFold[] {
+  const folds: WalkForwardFold[] = [];
+  if (inSampleDays <= 0 || outOfSampleDays <= 0 || stepDays <= 0) return folds;
+
+  for (let foldStart = start.getTime(); ; foldStart += stepDays * DAY_MS) {
+    const inSampleEnd = foldStart + inSampleDays * DAY_MS;
+    const outOfSampleEnd = inSampleEnd + outOfSampleDays * DAY_MS;
+    if (outOfSampleEnd > end.getTime()) break;
+
+    folds.push({
+      index: folds.length,
+      inSampleStart: new Date(foldStart),
+      inSampleEnd: new Date(inSampleEnd),
+      outOfSampleStart: new Date(inSampleEnd),
+      outOfSampleEnd: new Date(outOfSampleEnd),
+    });
+  }
+
+  return folds;
+}
+
+/**
+ * Expand the search space into parameter sets.
+ * Grid mode returns every combination; random mode draws `samples` distinct combinations.
+ */
+export function expandSearchSpace(
+  space: WalkForwardSearchSpace,
+  mode: 'grid' | 'random' = 'grid',
+  samples: number = 20,
+  random: () => number = createRandom(1)
+): WalkForwardParams[] {
+  const keys = (Object.keys(space) as (keyof WalkForwardParams)[]).filter(
+    (key) => (space[key]?.length ?? 0) > 0
+  );
+
+  let combinations: WalkForwardParams[] = [{}];
+  for (const key of keys) {
+    const next: WalkForwardParams[] = [];
+    for (const combination of combinations) {
+      for (const value of space[key] ?? []) {
+        next.push({ ...combination, [key]: value });
+      }
+    }
+    combinations = next;
+  }
+
+  if (mode === 'grid' || samples >= combinations.length) {
+    return combinations;
+  }
+
+  // Partial Fisher-Yates shuffle for distinct draws
+  const pool = [...combinations];
+  for (let i = 0; i < samples; i++) {
+    const j = i + Math.floor(random() * (pool.length - i));
+    [pool[i], pool[j]] = [pool[j], pool[i]];
+  }
+  return pool.slice(0, samples);
+}
+
+/**
+ * Apply a parameter set to a base backtest config
+ */
+export function applyWalkForwardParams(
+  base: BacktestConfig,
+  params: WalkForwardParams
+): BacktestConfig {
+  const config: BacktestConfig = { ...base };
+
+  if (params.minOBScore !== undefined) config.minOBScore = params.minOBScore;
+  if (params.atrMultiplier !== undefined) config.atrMultiplier = params.atrMultiplier;
+  if (params.confirmationType !== undefined) config.confirmationType = params.confirmationType;
+  if (params.riskReward !== undefined) {
+    config.rrMode = 'fixed';
+    config.fixedRR = params.riskReward;
+  }
+  if (params.tieredProfile !== undefined) {
+    config.tieredTP = TIERED_TP_PROFILES[params.tieredProfile] ?? TIERED_TP_PROFILES['DISABLED'];
+  }
+
+  return config;
+}
+
+/**
+ * Score in-sample metrics for parameter selection (higher is better)
+ */
+export function scoreMetrics(
+  metrics: BacktestMetrics,
+  objective: WalkForwardObjective = 'profitFactor',
+  minTrades: number = 5
+): number {
+  if (metrics.totalTrades < minTrades) return -Infinity;
+  return metrics[objective];
+}
+
+/**
+ * How consistently each parameter was selected across folds
+ */
+export function calculateParameterStability(
+  selected: WalkForwardParams[]
+): Record<string, ParameterStability> {
+  const stability: Record<string, ParameterStability> = {};
+  const keys = new Set(selected.flatMap((params) => Object.keys(params)));
+
+  for (const key of Array.from(keys)) {
+    const values = selected
+      .map((params) => params[key as keyof WalkForwardParams])
+      .filter((value): value is string | number => value !== undefined);
+    if (values.length === 0) continue;
+
+    const counts = new Map<string | number, number>();
+    for (const value of values) {
+      counts.set(value, (counts.get(value) ?? 0) + 1);
+    }
+
+    let mostCommon = values[0];
+    for (const [value, count] of Array.from(counts.entries())) {
+      if (count > (counts.get(mostCommon) ?? 0)) mostCommon = value;
+    }
+
+    let changes = 0;
+    for (let i = 1; i < values.length; i++) {
+      if (values[i] !== values[i - 1]) changes++;
+    }
+
+    stability[key] = {
+      values,
+      mostCommon,
+      consistency: (counts.get(mostCommon) ?? 0) / values.length,
+      changes,
+    };
+  }
+
+  return stability;
+}
+
+/**
+ * Cut candle data to a window. LTF keeps warm-up candles before `start` so the engine
+ * trades from the window start; HTF/MTF keep all history (the engine only looks back).
+ */
+export function sliceWindow(data: MTFData, start: Date, end: Date): MTFData {
+  const before = (c: { time: Date }) => c.time.getTime() < end.getTime();
+  const firstIndex = data.ltfCandles.findIndex((c) => c.time.getTime() >= start.getTime());
+  const from = firstIndex === -1 ? data.ltfCandles.length : Math.max(0, firstIndex - WARMUP_CANDLES);
+
+  return {
+    htfCandles: data.htfCandles.filter(before),
+    mtfCandles: data.mtfCandles.filter(before),
+    ltfCandles: data.ltfCandles.slice(from).filter(before),
+  };
+}
+
+/**
+ * Run walk-forward optimisation for one symbol (baseConfig.symbol)
+ */
+export async function runWalkForward(
+  baseConfig: BacktestConfig,
+  data: MTFData,
+  space: WalkForwardSearchSpace,
+  options: WalkForwardOptions,
+  onFold?: (fold: WalkForwardFoldResult, totalFolds: number) => void
+): Promise<WalkForwardResult> {
+  const folds = createWalkForwardFolds(
+    baseConfig.startDate,
+    baseConfig.endDate,
+    options.inSampleDays,
+    options.outOfSampleDays,
+    options.stepDays
+  );
+  const random = createRandom(options.seed ?? 1);
+  const objective = options.objective ?? 'profitFactor';
+  const minTrades = options.minTrades ?? 5;
+
+  const results: WalkForwardFoldResult[] = [];
+
+  for (const fold of folds) {
+    const candidates = expandSearchSpace(space, options.search, options.randomSamples ?? 20, random);
+    const inSampleData = sliceWindow(data, fold.inSampleStart, fold.inSampleEnd);
+
+    let best: { params: WalkForwardParams; metrics: BacktestMetrics; score: number } | null = null;
+    for (const params of candidates) {
+      const config = applyWalkForwardParams(
+        { ...baseConfig, startDate: fold.inSampleStart, endDate: fold.inSampleEnd },
+        params
+      );
+      const result = await new BacktestEngine(config).runCandleBacktest(
+        inSampleData.htfCandles,
+        inSampleData.mtfCandles,
+        inSampleData.ltfCandles
+      );
+      const score = scoreMetrics(result.metrics, objective, minTrades);
+      // Ties keep the earlier candidate so selections stay stable
+      if (!best || score > best.score) {
+        best = { params, metrics: result.metrics, score };
+      }
+    }
+    if (!best) continue;
+
+    const outOfSampleData = sliceWindow(data, fold.outOfSampleStart, fold.outOfSampleEnd);
+    const outOfSampleConfig = applyWalkForwardParams(
+      { ...baseConfig, startDate: fold.outOfSampleStart, endDate: fold.outOfSampleEnd },
+      best.params
+    );
+    const outOfSample = await new BacktestEngine(outOfSampleConfig).runCandleBacktest(
+      outOfSampleData.htfCandles,
+      outOfSampleData.mtfCandles,
+      outOfSampleData.ltfCandles
+    );
+
+    const foldResult: WalkForwardFoldResult = {
+      ...fold,
+      params: best.params,
+      candidatesTested: candidates.length,
+      inSample: best.metrics,
+      outOfSample: outOfSample.metrics,
+      outOfSampleTrades: outOfSample.trades,
+    };
+    results.push(foldResult);
+    onFold?.(foldResult, folds.length);
+  }
+
+  return {
+    symbol: baseConfig.symbol,
+    folds: results,
+    outOfSample: summarizeOutOfSample(results, options),
+    stability: calculateParameterStability(results.map((r) => r.params)),
+  };
+}
+
+function summarizeOutOfSample(
+  folds: WalkForwardFoldResult[],
+  options: WalkForwardOptions
+): WalkForwardResult['outOfSample'] {
+  const trades = aggregatePositionTrades(folds.flatMap((f) => f.outOfSampleTrades));
+  const winners = trades.filter((t) => t.isWinner);
+  const grossProfit = winners.reduce((sum, t) => sum + t.pnl, 0);
+  const grossLoss = Math.abs(trades.filter((t) => !t.isWinner).reduce((sum, t) => sum + t.pnl, 0));
+  const profitFactor = grossLoss > 0 ? grossProfit / grossLoss : 0;
+
+  // Average daily return out-of-sample vs in-sample
+  const average = (values: number[]) =>
+    values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+  const inSampleDaily = average(folds.map((f) => f.inSample.totalPnlPercent / options.inSampleDays));
+  const outOfSampleDaily = average(folds.map((f) => f.outOfSample.totalPnlPercent / options.outOfSampleDays));
+
+  return {
+    totalTrades: trades.length,
+    winRate: trades.length > 0 ? (winners.length / trades.length) * 100 : 0,
+    profitFactor,
+    totalPnl: trades.reduce((sum, t) => sum + t.pnl, 0),
+    profitableFolds: folds.filter((f) => f.outOfSample.totalPnl > 0).length,
+    efficiency: inSampleDaily > 0 ? outOfSampleDaily / inSampleDaily : 0,
+  };
+}
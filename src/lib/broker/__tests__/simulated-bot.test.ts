@@ -0,0 +1,131 @@
+import { describe, it, expect, vi } from 'vitest';
+
+const { tradeManager, runAllStrategies } = vi.hoisted(() => ({
+  tradeManager: {
+    recordSignal: vi.fn(async () => {}),
+    updateSignalStatus: vi.fn(async () => {}),
+    canOpenTrade: vi.fn(async () => ({ canOpen: true })),
+    recordTrade: vi.fn(async () => {}),
+    closeTradeFromBroker: vi.fn(async () => {}),
+    syncWithBrokerPositions: vi.fn(async () => ({ imported: 0, closed: 0 })),
+    syncHistoricalTrades: vi.fn(async () => ({ imported: 0, skipped: 0 })),
+    backfillMissingCloseData: vi.fn(async () => 0),
+  },
+  runAllStrategies: vi.fn(),
+}));
+
+// Every table reads as empty and accepts writes
+vi.mock('../../db', () => ({
+  prisma: new Proxy({}, { get: () => new Proxy({}, { get: () => async () => null }) }),
+}));
+vi.mock('../../metaapi/client', () => ({ metaApiClient: {} }));
+vi.mock('../../risk/trade-manager', () => ({ tradeManager }));
+vi.mock('../../strategies', () => ({ runAllStrategies }));
+vi.mock('../../../services/telegram', () => ({
+  telegramNotifier: { initialize: () => {}, isEnabled: () => false },
+}));
+vi.mock('../../../services/telegram-listener', () => ({ telegramListener: { initialize: () => {} } }));
+vi.mock('../../../services/telegram-signal-analyzer', () => ({ telegramSignalAnalyzer: { initialize: () => {} } }));
+vi.mock('../../../services/telegram-trade-executor', () => ({ telegramTradeExecutor: { initialize: () => {} } }));
+vi.mock('../../../services/telegram-tp-monitor', () => ({
+  telegramTPMonitor: {
+    initializeFromPositions: async () => {},
+    checkAndExecuteTP: async () => {},
+    onPositionClosed: () => {},
+  },
+}));
+vi.mock('../../../services/analysis-scheduler', () => ({ analysisScheduler: { start: () => {}, stop: () => {} } }));
+
+import { TradingBot } from '../../../services/bot';
+import { SimulatedBroker } from '../simulated';
+import { Candle, Signal } from '../../types';
+
+const SYMBOL = 'XAUUSD.s';
+const MINUTE = 60 * 1000;
+const START = new Date(Date.UTC(2024, 2, 6, 14, 0)); // Wednesday
+
+function bar(minute: number, open: number, high: number, low: number, close: number): Candle {
+  return {
+    time: new Date(START.getTime() + minute * MINUTE),
+    open,
+    high,
+    low,
+    close,
+    volume: 10,
+    symbol: SYMBOL,
+    timeframe: 'M1',
+  };
+}
+
+/** Nine days of gently oscillating M1 history, enough for 200 H1 bars, ending flat at 2000 */
+function history(): Candle[] {
+  const candles: Candle[] = [];
+  const bars = 9 * 24 * 60;
+  for (let i = bars; i >= 1; i--) {
+    const open = i <= 5 ? 2000 : 2000 + 3 * Math.sin(i / 45);
+    const close = i <= 5 ? 2000 : 2000 + 3 * Math.sin((i - 1) / 45);
+    candles.push(bar(-i, open, Math.max(open, close) + 0.1, Math.min(open, close) - 0.1, close));
+  }
+  return candles;
+}
+
+function buySignal(): Signal {
+  return {
+    id: 'sig-1',
+    symbol: SYMBOL,
+    direction: 'BUY',
+    strategy: 'BOS',
+    timeframe: 'M1',
+    entryPrice: 2000.2,
+    stopLoss: 1997.2,
+    takeProfit: 2006.2,
+    confidence: 0.8,
+    status: 'PENDING',
+    htfBias: 'BULLISH',
+    mtfStructure: 'BOS',
+    createdAt: START,
+  };
+}
+
+describe('TradingBot on a SimulatedBroker', () => {
+  it('opens a trade from a signal, takes TP1, trails to breakeven and records the close', async () => {
+    runAllStrategies.mockReturnValueOnce(buySignal()).mockReturnValue(null);
+
+    const broker = new SimulatedBroker({
+      startTime: START,
+      costs: { [SYMBOL]: { spread: { mode: 'fixed', spread: 0.2 } } },
+    });
+    broker.loadCandles(SYMBOL, [
+      ...history(),
+      bar(0, 2000, 2000.5, 1999.8, 2000),
+      bar(1, 2000, 2004, 2000, 2004), // through TP1 at 1R
+      bar(2, 2004, 2004, 1999, 1999), // back through the breakeven stop
+      bar(3, 1999, 1999.5, 1998.8, 1999),
+    ]);
+    const bot = TradingBot.create({ symbols: [SYMBOL] }, broker);
+
+    await bot.start();
+    await vi.waitFor(() => expect(tradeManager.recordTrade).toHaveBeenCalled());
+    await broker.run();
+    await bot.stop();
+
+    const [[trade]] = tradeManager.recordTrade.mock.calls as unknown as [[{ mt5PositionId: string; lotSize: number }]];
+    expect(trade.lotSize).toBe(0.16);
+    const deals = broker.getDealsByPosition(trade.mt5PositionId);
+    expect(deals.map((d) => [d.entryType, d.volume])).toEqual([
+      ['DEAL_ENTRY_IN', 0.16],
+      ['DEAL_ENTRY_OUT', 0.05],
+      ['DEAL_ENTRY_OUT', 0.11],
+    ]);
+    expect(deals[2].brokerComment).toBe('[sl 2000.7]');
+    expect(deals[2].profit).toBeCloseTo(5.5, 6);
+    expect(tradeManager.closeTradeFromBroker).toHaveBeenCalledWith(
+      trade.mt5PositionId,
+      expect.any(Number),
+      expect.any(Number),
+      expect.any(Date)
+    );
+    expect(await broker.getPositions()).toEqual([]);
+    expect(broker.now().getTime()).toBe(START.getTime() + 3 * MINUTE + 45_000);
+  });
+});
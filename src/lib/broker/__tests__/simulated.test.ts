@@ -0,0 +1,225 @@
+import { describe, it, expect } from 'vitest';
+import { SimulatedBroker, SimulatedBrokerOptions } from '../simulated';
+import { CandleUpdate, PositionUpdate, SymbolPrice } from '../../metaapi/sync-listener';
+import { Candle, Tick } from '../../types';
+
+const SYMBOL = 'XAUUSD.s';
+const MINUTE = 60 * 1000;
+const START = new Date(Date.UTC(2024, 2, 4, 10, 0)); // Monday
+
+function bar(minute: number, open: number, high: number, low: number, close: number): Candle {
+  return {
+    time: new Date(START.getTime() + minute * MINUTE),
+    open,
+    high,
+    low,
+    close,
+    volume: 10,
+    symbol: SYMBOL,
+    timeframe: 'M1',
+  };
+}
+
+function flat(from: number, to: number, price: number): Candle[] {
+  const candles: Candle[] = [];
+  for (let minute = from; minute <= to; minute++) {
+    candles.push(bar(minute, price, price, price, price));
+  }
+  return candles;
+}
+
+function makeBroker(replay: Candle[], options: Partial<SimulatedBrokerOptions> = {}): SimulatedBroker {
+  const broker = new SimulatedBroker({
+    startTime: START,
+    costs: { [SYMBOL]: { spread: { mode: 'fixed', spread: 0.2 } } },
+    ...options,
+  });
+  broker.loadCandles(SYMBOL, [...flat(-60, -1, 2000), ...replay]);
+  return broker;
+}
+
+async function steps(broker: SimulatedBroker, count: number): Promise<void> {
+  for (let i = 0; i < count; i++) {
+    await broker.step();
+  }
+}
+
+describe('SimulatedBroker price feed', () => {
+  it('serves history before the start and only completed bars during the replay', async () => {
+    const broker = makeBroker([bar(0, 2000, 2003, 1999, 2002), bar(1, 2002, 2006, 2001, 2005)]);
+
+    const price = await broker.getCurrentPrice(SYMBOL);
+    expect(price.bid).toBe(2000);
+    expect(price.ask).toBeCloseTo(2000.2, 10);
+    expect(await broker.getCandles(SYMBOL, 'M1', 500)).toHaveLength(60);
+
+    await steps(broker, 3);
+    expect(broker.now()).toEqual(new Date(START.getTime() + 30_000));
+    expect((await broker.getCurrentPrice(SYMBOL)).bid).toBe(2003);
+    expect(await broker.getCandles(SYMBOL, 'M1', 500)).toHaveLength(60);
+    expect(await broker.getCandles(SYMBOL, 'M5', 500)).toHaveLength(12);
+
+    await steps(broker, 2);
+    const m1 = await broker.getCandles(SYMBOL, 'M1', 500);
+    expect(m1).toHaveLength(61);
+    expect(m1[60].close).toBe(2002);
+    expect(await broker.getCandles(SYMBOL, 'M1', 10)).toHaveLength(10);
+  });
+
+  it('replays ticks and builds M1 candles from them', async () => {
+    const ticks: Tick[] = [-90_000, -30_000, 10_000, 70_000].map((offset, i) => ({
+      time: new Date(START.getTime() + offset),
+      bid: 2000 + i,
+      ask: 2000.3 + i,
+      symbol: SYMBOL,
+    }));
+    const broker = new SimulatedBroker({ startTime: START });
+    broker.loadTicks(SYMBOL, ticks);
+
+    expect(await broker.getCurrentPrice(SYMBOL)).toEqual({ bid: 2001, ask: 2001.3 });
+    expect(await broker.getHistoricalTicksCached(SYMBOL, new Date(0), new Date(START.getTime() + MINUTE))).toHaveLength(2);
+
+    await broker.step();
+    expect(await broker.getCurrentPrice(SYMBOL)).toEqual({ bid: 2002, ask: 2002.3 });
+    expect(await broker.getHistoricalTicksCached(SYMBOL, new Date(0), new Date(START.getTime() + MINUTE))).toHaveLength(3);
+    expect((await broker.getCandles(SYMBOL, 'M1')).map((c) => c.close)).toEqual([2000, 2001]);
+
+    expect(await broker.step()).toBe(true);
+    expect(await broker.step()).toBe(false);
+  });
+
+  it('emits completed candles for subscribed timeframes and throttles quotes', async () => {
+    const broker = makeBroker(flat(0, 9, 2000));
+    const candles: CandleUpdate[] = [];
+    const quotes: SymbolPrice[] = [];
+    broker.addEventListener({
+      onCandleUpdate: (updates) => candles.push(...updates),
+      onPriceUpdate: (_symbol, price) => quotes.push(price),
+    });
+    await broker.subscribeToMarketData(SYMBOL, [
+      { type: 'quotes', intervalInMilliseconds: 30_000 },
+      { type: 'candles', timeframe: '5m' },
+    ]);
+
+    const replayed = await broker.run();
+
+    expect(replayed).toBe(40);
+    expect(candles.map((c) => [c.timeframe, c.time.toISOString()])).toEqual([
+      ['5m', '2024-03-04T09:55:00.000Z'],
+      ['5m', '2024-03-04T10:00:00.000Z'],
+    ]);
+    expect(quotes).toHaveLength(20);
+  });
+
+  it('stops at the end time', async () => {
+    const broker = makeBroker(flat(0, 9, 2000), { endTime: new Date(START.getTime() + 2 * MINUTE) });
+
+    expect(await broker.run()).toBe(9);
+    expect(broker.now()).toEqual(new Date(START.getTime() + 2 * MINUTE));
+  });
+});
+
+describe('SimulatedBroker trading', () => {
+  it('fills a market buy at the ask and closes it at the stop loss', async () => {
+    const broker = makeBroker([bar(0, 2000, 2001, 1994, 1995)]);
+    const removed: string[] = [];
+    broker.addEventListener({ onPositionUpdate: (_positions, ids) => removed.push(...ids) });
+
+    const { positionId } = await broker.placeMarketOrder(SYMBOL, 'BUY', 0.1, 1995, 2010, 'SMC BOS');
+    const [position] = await broker.getPositions();
+    expect(position.openPrice).toBeCloseTo(2000.2, 10);
+    expect(position.profit).toBeCloseTo(-2, 6);
+
+    await broker.run();
+
+    expect(await broker.getPositions()).toEqual([]);
+    expect(removed).toEqual([positionId]);
+    const deals = await broker.getHistoricalDeals();
+    expect(deals.map((d) => [d.type, d.entryType, d.price])).toEqual([
+      ['DEAL_TYPE_BUY', 'DEAL_ENTRY_IN', deals[0].price],
+      ['DEAL_TYPE_SELL', 'DEAL_ENTRY_OUT', 1995],
+    ]);
+    expect(deals[0].comment).toBe('SMC BOS');
+    expect(deals[1].brokerComment).toBe('[sl 1995]');
+    expect(deals[1].profit).toBeCloseTo(-52, 6);
+    expect((await broker.getAccountInfo()).balance).toBeCloseTo(9948, 6);
+  });
+
+  it('fills a sell limit when the price reaches it and takes profit at the target', async () => {
+    const broker = makeBroker([bar(0, 2000, 2006, 1999, 2003), bar(1, 2003, 2003, 1990, 1992)]);
+    const completedOrders: string[] = [];
+    broker.addEventListener({ onOrderUpdate: (_orders, ids) => completedOrders.push(...ids) });
+
+    const { orderId } = await broker.placeLimitOrder(SYMBOL, 'SELL', 0.1, 2004, 2015, 1996);
+    await expect(broker.placeLimitOrder(SYMBOL, 'SELL', 0.1, 1999)).rejects.toThrow('Invalid price');
+
+    await broker.run();
+
+    expect(completedOrders).toEqual([orderId]);
+    const deals = broker.getDealsByPosition(orderId);
+    expect(deals.map((d) => d.price)).toEqual([2004, 1996]);
+    expect(deals[1].brokerComment).toBe('[tp 1996]');
+    expect(deals[1].profit).toBeCloseTo(80, 6);
+
+    const summary = await broker.getAccountDealsSummary();
+    expect(summary.deposits).toBe(10000);
+    expect(summary.tradingProfit).toBeCloseTo(80, 6);
+  });
+
+  it('modifies and partially closes positions, rejecting invalid requests', async () => {
+    const broker = makeBroker(flat(0, 1, 2000));
+    const { positionId } = await broker.placeMarketOrder(SYMBOL, 'BUY', 0.1, 1990, 2020);
+
+    await broker.modifyPosition(positionId!, 1995);
+    await expect(broker.modifyPosition(positionId!, 2001)).rejects.toThrow('Invalid stops');
+    await broker.closePositionPartially(positionId!, 0.04);
+    await expect(broker.closePositionPartially(positionId!, 0.5)).rejects.toThrow('Invalid volume');
+    await expect(broker.placeMarketOrder(SYMBOL, 'BUY', 0.015)).rejects.toThrow('Invalid volume');
+
+    const [position] = await broker.getPositions();
+    expect(position.stopLoss).toBe(1995);
+    expect(position.takeProfit).toBe(2020);
+    expect(position.volume).toBeCloseTo(0.06, 10);
+    const partial = broker.getDealsByPosition(positionId!)[1];
+    expect(partial.volume).toBe(0.04);
+    expect(partial.profit).toBeCloseTo(-0.8, 6);
+
+    await broker.closePosition(positionId!);
+    expect(await broker.getPositions()).toEqual([]);
+  });
+
+  it('rejects orders without enough free margin and stops out losing positions', async () => {
+    const broker = makeBroker([bar(0, 2000, 2000, 1980, 1985)], { balance: 1000 });
+
+    await expect(broker.placeMarketOrder(SYMBOL, 'BUY', 1)).rejects.toThrow('Not enough money');
+    await broker.placeMarketOrder(SYMBOL, 'BUY', 0.4);
+    expect((await broker.getAccountInfo()).margin).toBeCloseTo(800.08, 6);
+
+    await broker.run();
+
+    expect(await broker.getPositions()).toEqual([]);
+    const [, exit] = await broker.getHistoricalDeals();
+    expect(exit.brokerComment).toMatch(/^\[so /);
+    expect((await broker.getAccountInfo()).balance).toBeCloseTo(192, 6);
+  });
+
+  it('waits for async handlers and delivers the changes they make in the same step', async () => {
+    const broker = makeBroker(flat(0, 1, 2000));
+    const volumes: number[] = [];
+    broker.addEventListener({
+      onPositionUpdate: async (positions: PositionUpdate[]) => {
+        volumes.push(positions[0].volume);
+        if (positions[0].volume === 0.1) {
+          await new Promise((resolve) => setTimeout(resolve, 5));
+          await broker.closePositionPartially(positions[0].id, 0.05);
+        }
+      },
+    });
+    await broker.connect();
+    await broker.placeMarketOrder(SYMBOL, 'BUY', 0.1);
+
+    await broker.step();
+
+    expect(volumes).toEqual([0.1, 0.05]);
+  });
+});
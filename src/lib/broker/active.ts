@@ -0,0 +1,11 @@
+import { metaApiClient } from '../metaapi/client';
+import { ctraderClient } from '../ctrader/client';
+import { BrokerAdapter } from './types';
+
+/**
+ * Active Broker
+ * The execution path the trading services default to, picked by the BROKER environment
+ * variable: 'ctrader' for cTrader Open API accounts, anything else (or unset) for MetaAPI.
+ */
+export const activeBroker: BrokerAdapter = process.env.BROKER === 'ctrader' ? ctraderClient : metaApiClient;
+export default activeBroker;
@@ -0,0 +1,57 @@
+import { AccountDealsSummary, BrokerDeal } from './types';
+
+/**
+ * Account summary from a deal history
+ * Deposits, withdrawals, swap, commission, trading profit — all from deals
+ */
+export function summarizeDeals(deals: BrokerDeal[]): AccountDealsSummary {
+  let deposits = 0;
+  let withdrawals = 0;
+  let totalSwap = 0;
+  let totalCommission = 0;
+  let tradingProfit = 0;
+  const operations: AccountDealsSummary['operations'] = [];
+  const dealTimeline: AccountDealsSummary['dealTimeline'] = [];
+
+  for (const deal of deals) {
+    // Accumulate swap and commission from every deal
+    totalSwap += deal.swap || 0;
+    totalCommission += deal.commission || 0;
+
+    // Each deal's effect on balance = profit + swap + commission
+    const balanceChange = (deal.profit || 0) + (deal.swap || 0) + (deal.commission || 0);
+
+    if (deal.type === 'DEAL_TYPE_BALANCE') {
+      const profit = deal.profit || 0;
+      if (profit > 0) {
+        deposits += profit;
+        operations.push({ type: 'deposit', amount: profit, time: new Date(deal.time), comment: deal.comment || null });
+        dealTimeline.push({ timestamp: new Date(deal.time), balanceChange, event: 'deposit', amount: profit });
+      } else if (profit < 0) {
+        withdrawals += Math.abs(profit);
+        operations.push({ type: 'withdrawal', amount: Math.abs(profit), time: new Date(deal.time), comment: deal.comment || null });
+        dealTimeline.push({ timestamp: new Date(deal.time), balanceChange, event: 'withdrawal', amount: Math.abs(profit) });
+      }
+    } else if (deal.type === 'DEAL_TYPE_BUY' || deal.type === 'DEAL_TYPE_SELL') {
+      tradingProfit += deal.profit || 0;
+      // Only include deals with non-zero balance effect (skip zero-change entries)
+      if (balanceChange !== 0) {
+        dealTimeline.push({ timestamp: new Date(deal.time), balanceChange, symbol: deal.symbol });
+      }
+    }
+  }
+
+  // Sort timeline chronologically
+  dealTimeline.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+  return {
+    deposits,
+    withdrawals,
+    totalSwap,
+    totalCommission,
+    tradingProfit,
+    dealCount: deals.length,
+    operations,
+    dealTimeline,
+  };
+}
@@ -0,0 +1,1000 @@
+import {
+  AccountInfo,
+  Candle,
+  Direction,
+  ExecutionCostConfig,
+  Position,
+  SymbolInfo,
+  Tick,
+  Timeframe,
+  TIMEFRAME_MAP,
+  TIMEFRAME_MINUTES,
+} from '../types';
+import {
+  AccountInfoUpdate,
+  CandleUpdate,
+  OrderUpdate,
+  PositionUpdate,
+  SymbolPrice,
+} from '../metaapi/sync-listener';
+import { SourceTimezone } from '../history/parsers';
+import { BROKER_ALIGNMENT, bucketStart, resampleCandles, ticksToCandles } from '../history/resample';
+import { ExecutionCostModel, getDefaultExecutionCosts } from '../backtest/execution-costs';
+import { getQuoteToAccountRate, symbolSpecRegistry } from '../backtest/symbol-specs';
+import { sliceByTime } from '../backtest/intrabar';
+import {
+  AccountDealsSummary,
+  BrokerAdapter,
+  BrokerDeal,
+  BrokerEventCallbacks,
+  MarketDataSubscription,
+} from './types';
+import { summarizeDeals } from './deals';
+
+/**
+ * Simulated Broker
+ * In-process broker that replays loaded candles or ticks as its price feed. It fills
+ * market and limit orders, triggers stop losses and take profits, tracks margin and
+ * books MetaAPI-shaped deals, and pushes the same events TradingBotSyncListener does,
+ * so the TradingBot runs against it unchanged - for paper trading and for CI runs
+ * with no network.
+ *
+ * Conventions:
+ * - Loaded candles are bid prices; the ask is bid + the cost model's spread
+ * - Candles replay as open, low/high (high/low for bearish bars), close
+ * - Data before `startTime` is history the bot can query; replay starts there
+ * - Events are delivered between price steps, and async handlers are awaited before
+ *   the replay moves on, so runs are deterministic
+ */
+
+const MINUTE_MS = 60 * 1000;
+const MAX_FLUSH_ROUNDS = 10;
+const YIELD_EVERY_STEPS = 100;
+
+const TIMEFRAME_BY_METAAPI = Object.fromEntries(
+  Object.entries(TIMEFRAME_MAP).map(([tf, metaApi]) => [metaApi, tf as Timeframe])
+) as Record<string, Timeframe>;
+
+export interface SimulatedBrokerOptions {
+  /** Replay starts here; loaded data before it is history */
+  startTime: Date;
+  /** Replay stops after this time (default: end of the loaded data) */
+  endTime?: Date;
+  balance?: number; // Default: 10000
+  leverage?: number; // Default: 100
+  currency?: string; // Default: USD
+  /** Margin level (%) at which the worst losing position is closed (default 50) */
+  stopOutLevel?: number;
+  /** Spread, commission and swap per symbol (default: typical spread, no commission) */
+  costs?: Record<string, ExecutionCostConfig>;
+  /** Contract specs by symbol (overrides the symbol spec registry) */
+  symbolSpecs?: Record<string, SymbolInfo>;
+  /** Clock H4/D1/W1 bars open on (default: broker server time) */
+  alignment?: SourceTimezone;
+}
+
+export interface ReplayOptions {
+  /** Stop after this time (default: endTime or end of data) */
+  until?: Date;
+  /** Simulated ms per wall-clock ms, e.g. 3600 for an hour per second (default: as fast as possible) */
+  speed?: number;
+}
+
+interface PricePoint {
+  symbol: string;
+  time: Date;
+  bid: number;
+  ask: number;
+  /** Reached by trading through the prices since the last point (candle legs), not by a gap */
+  intrabar?: boolean;
+}
+
+interface SymbolFeed {
+  series: Map<Timeframe, Candle[]>;
+  ticks?: Tick[];
+  /** Candles the replay walks when there are no ticks */
+  path?: Candle[];
+  cursor: number;
+  price?: PricePoint;
+  lastQuote?: number;
+  costs: ExecutionCostModel;
+}
+
+interface SimPosition {
+  id: string;
+  symbol: string;
+  direction: Direction;
+  volume: number;
+  openPrice: number;
+  openTime: Date;
+  stopLoss?: number;
+  takeProfit?: number;
+  comment?: string;
+  margin: number;
+}
+
+interface SimOrder {
+  id: string;
+  symbol: string;
+  direction: Direction;
+  volume: number;
+  price: number;
+  stopLoss?: number;
+  takeProfit?: number;
+  comment?: string;
+  time: Date;
+}
+
+type BrokerEvent = (callbacks: BrokerEventCallbacks) => unknown;
+
+/**
+ * Costs are booked on deals as negative amounts
+ */
+function charge(cost: number): number {
+  return cost === 0 ? 0 : -cost;
+}
+
+export class SimulatedBroker implements BrokerAdapter {
+  readonly name = 'simulated';
+  private options: SimulatedBrokerOptions;
+  private time: Date;
+  private feeds: Map<string, SymbolFeed> = new Map();
+  private subscriptions: Map<string, MarketDataSubscription[]> = new Map();
+  private listeners: BrokerEventCallbacks[] = [];
+  private queue: BrokerEvent[] = [];
+  private positions: Map<string, SimPosition> = new Map();
+  private orders: Map<string, SimOrder> = new Map();
+  private deals: BrokerDeal[] = [];
+  private balance: number;
+  private nextId = 1;
+  private connected = false;
+  private positionsChanged = false;
+  private removedPositionIds: string[] = [];
+  private ordersChanged = false;
+  private completedOrderIds: string[] = [];
+  private stopRequested = false;
+
+  constructor(options: SimulatedBrokerOptions) {
+    this.options = options;
+    this.time = new Date(options.startTime);
+    this.balance = options.balance ?? 10000;
+    this.deals.push({
+      id: this.createId(),
+      type: 'DEAL_TYPE_BALANCE',
+      profit: this.balance,
+      time: new Date(options.startTime),
+      comment: 'Initial deposit',
+    });
+  }
+
+  // ============================================
+  // Price Feed
+  // ============================================
+
+  /**
+   * Load bid candles for a symbol. The finest timeframe loaded drives the replay (unless
+   * ticks are loaded); other timeframes are served as-is, missing ones are resampled.
+   */
+  loadCandles(symbol: string, candles: Candle[]): void {
+    if (candles.length === 0) return;
+    const timeframe = candles[0].timeframe;
+    const feed = this.getOrCreateFeed(symbol);
+    const sorted = [...candles].sort((a, b) => a.time.getTime() - b.time.getTime());
+    feed.series.set(timeframe, sorted);
+
+    if (!feed.ticks && (!feed.path || TIMEFRAME_MINUTES[timeframe] < TIMEFRAME_MINUTES[feed.path[0].timeframe])) {
+      feed.path = sorted;
+      this.resetFeed(symbol, feed);
+    }
+  }
+
+  /**
+   * Load ticks for a symbol; they drive the replay and back M1 candles if none are loaded
+   */
+  loadTicks(symbol: string, ticks: Tick[]): void {
+    if (ticks.length === 0) return;
+    const feed = this.getOrCreateFeed(symbol);
+    feed.ticks = [...ticks].sort((a, b) => a.time.getTime() - b.time.getTime());
+    feed.path = undefined;
+    if (!feed.series.has('M1')) {
+      feed.series.set('M1', ticksToCandles(feed.ticks, 'M1', this.alignment));
+    }
+    this.resetFeed(symbol, feed);
+  }
+
+  /**
+   * Advance to the next price and deliver the events it causes
+   * @returns false when the replay is finished
+   */
+  async step(until?: Date): Promise<boolean> {
+    const next = this.peekNext();
+    const limit = until ?? this.options.endTime;
+    if (!next || (limit && next.point.time > limit)) return false;
+
+    const { feed, point } = next;
+    const previous = feed.price;
+    feed.cursor++;
+    feed.price = point;
+    this.time = point.time;
+
+    this.fillPendingOrders(point);
+    this.checkStops(point);
+    this.checkStopOut();
+
+    const subscriptions = this.subscriptions.get(point.symbol);
+    if (subscriptions && previous) {
+      this.queueCompletedCandles(point.symbol, subscriptions, previous.time, point.time);
+    }
+    if (subscriptions && this.isQuoteDue(feed, subscriptions, point.time)) {
+      feed.lastQuote = point.time.getTime();
+      const price: SymbolPrice = { symbol: point.symbol, bid: point.bid, ask: point.ask, time: point.time };
+      this.queue.push((cb) => cb.onPriceUpdate?.(point.symbol, price));
+      if (this.hasPositionsOn(point.symbol)) {
+        this.positionsChanged = true;
+      }
+    }
+
+    await this.flush();
+    return true;
+  }
+
+  /**
+   * Replay until the data (or `until`) runs out or stop() is called
+   * @returns Number of price steps replayed
+   */
+  async run(options: ReplayOptions = {}): Promise<number> {
+    const speed = options.speed ?? Infinity;
+    const wallStart = Date.now();
+    const simStart = this.time.getTime();
+    this.stopRequested = false;
+
+    let steps = 0;
+    while (!this.stopRequested) {
+      const next = this.peekNext();
+      const wait = next && isFinite(speed)
+        ? wallStart + (next.point.time.getTime() - simStart) / speed - Date.now()
+        : 0;
+      if (wait > 0) {
+        await new Promise((resolve) => setTimeout(resolve, wait));
+      } else if (steps % YIELD_EVERY_STEPS === 0) {
+        // Let timers (e.g. the bot heartbeat) run between bursts of steps
+        await new Promise((resolve) => setImmediate(resolve));
+      }
+
+      if (!(await this.step(options.until))) break;
+      steps++;
+    }
+
+    return steps;
+  }
+
+  /**
+   * Stop a run() after the current step
+   */
+  stop(): void {
+    this.stopRequested = true;
+  }
+
+  now(): Date {
+    return new Date(this.time);
+  }
+
+  // ============================================
+  // Connection
+  // ============================================
+
+  async connect(): Promise<void> {
+    this.connected = true;
+    this.queue.push((cb) => cb.onConnected?.());
+    this.positionsChanged = true;
+    console.log(`[SimBroker] Connected at ${this.time.toISOString()} with ${this.feeds.size} symbols`);
+  }
+
+  async connectAccountOnly(): Promise<void> {
+    this.connected = true;
+  }
+
+  async disconnect(): Promise<void> {
+    this.connected = false;
+    this.queue.push((cb) => cb.onDisconnected?.());
+    await this.flush();
+  }
+
+  isConnectionActive(): boolean {
+    return this.connected;
+  }
+
+  // ============================================
+  // Account State
+  // ============================================
+
+  async getAccountInfo(): Promise<AccountInfo> {
+    return this.accountInfo();
+  }
+
+  async getPositions(): Promise<Position[]> {
+    return Array.from(this.positions.values()).map((pos) => {
+      const { price, profit } = this.valuePosition(pos);
+      return {
+        id: pos.id,
+        symbol: pos.symbol,
+        type: pos.direction,
+        volume: pos.volume,
+        openPrice: pos.openPrice,
+        currentPrice: price,
+        stopLoss: pos.stopLoss,
+        takeProfit: pos.takeProfit,
+        profit,
+        swap: 0,
+        openTime: pos.openTime,
+        comment: pos.comment,
+      };
+    });
+  }
+
+  async getSymbolInfo(symbol: string): Promise<SymbolInfo> {
+    return this.getSpec(symbol);
+  }
+
+  async calculateMargin(symbol: string, _type: Direction, volume: number, price: number): Promise<number> {
+    return this.requiredMargin(symbol, volume, price);
+  }
+
+  // ============================================
+  // Market Data
+  // ============================================
+
+  async getCandles(symbol: string, timeframe: Timeframe, count: number = 500, startTime?: Date): Promise<Candle[]> {
+    const completed = this.getCompletedCandles(symbol, timeframe);
+    if (startTime) {
+      return completed.filter((c) => c.time >= startTime).slice(0, count);
+    }
+    return completed.slice(-count);
+  }
+
+  async getHistoricalCandles(symbol: string, timeframe: Timeframe, startDate: Date, endDate: Date): Promise<Candle[]> {
+    return this.getCompletedCandles(symbol, timeframe).filter((c) => c.time >= startDate && c.time <= endDate);
+  }
+
+  async getHistoricalCandlesCached(symbol: string, timeframe: Timeframe, startDate: Date, endDate: Date): Promise<Candle[]> {
+    return this.getHistoricalCandles(symbol, timeframe, startDate, endDate);
+  }
+
+  async getHistoricalTicksCached(symbol: string, startDate: Date, endDate: Date): Promise<Tick[]> {
+    const ticks = this.feeds.get(symbol)?.ticks ?? [];
+    const end = endDate < this.time ? endDate : this.time;
+    return sliceByTime(ticks, startDate, new Date(end.getTime() + 1));
+  }
+
+  async getCurrentPrice(symbol: string): Promise<{ bid: number; ask: number }> {
+    const price = this.feeds.get(symbol)?.price;
+    if (!price) {
+      throw new Error(`Price not available for ${symbol}`);
+    }
+    return { bid: price.bid, ask: price.ask };
+  }
+
+  // ============================================
+  // Orders and Positions
+  // ============================================
+
+  async placeMarketOrder(
+    symbol: string,
+    type: Direction,
+    volume: number,
+    stopLoss?: number,
+    takeProfit?: number,
+    comment?: string
+  ): Promise<{ orderId: string; positionId?: string }> {
+    const price = await this.getCurrentPrice(symbol);
+    const entryPrice = type === 'BUY' ? price.ask : price.bid;
+    this.validateVolume(symbol, volume);
+    this.validateStops(type, type === 'BUY' ? price.bid : price.ask, stopLoss, takeProfit);
+
+    const orderId = this.createId();
+    const position = this.openPosition(orderId, symbol, type, volume, entryPrice, stopLoss, takeProfit, comment || 'SMC Bot Trade');
+    return { orderId, positionId: position.id };
+  }
+
+  async placeLimitOrder(
+    symbol: string,
+    type: Direction,
+    volume: number,
+    price: number,
+    stopLoss?: number,
+    takeProfit?: number,
+    comment?: string
+  ): Promise<{ orderId: string }> {
+    const current = await this.getCurrentPrice(symbol);
+    this.validateVolume(symbol, volume);
+    if (type === 'BUY' ? price >= current.ask : price <= current.bid) {
+      throw new Error(`Invalid price: ${type} limit at ${price} must be ${type === 'BUY' ? 'below the ask' : 'above the bid'}`);
+    }
+    this.validateStops(type, price, stopLoss, takeProfit);
+
+    const order: SimOrder = {
+      id: this.createId(),
+      symbol,
+      direction: type,
+      volume,
+      price,
+      stopLoss,
+      takeProfit,
+      comment: comment || 'SMC Bot Limit',
+      time: this.now(),
+    };
+    this.orders.set(order.id, order);
+    this.ordersChanged = true;
+    return { orderId: order.id };
+  }
+
+  async cancelOrder(orderId: string): Promise<void> {
+    if (!this.orders.delete(orderId)) {
+      throw new Error(`Order ${orderId} not found`);
+    }
+    this.completedOrderIds.push(orderId);
+    this.ordersChanged = true;
+  }
+
+  /**
+   * Change SL/TP; an undefined level keeps the current one
+   */
+  async modifyPosition(positionId: string, stopLoss?: number, takeProfit?: number): Promise<void> {
+    const position = this.getPosition(positionId);
+    const price = this.getPrice(position.symbol);
+    const nextStopLoss = stopLoss ?? position.stopLoss;
+    const nextTakeProfit = takeProfit ?? position.takeProfit;
+    this.validateStops(position.direction, position.direction === 'BUY' ? price.bid : price.ask, nextStopLoss, nextTakeProfit);
+
+    position.stopLoss = nextStopLoss;
+    position.takeProfit = nextTakeProfit;
+    this.positionsChanged = true;
+  }
+
+  async closePosition(positionId: string): Promise<void> {
+    const position = this.getPosition(positionId);
+    const price = this.getPrice(position.symbol);
+    this.closeVolume(position, position.volume, position.direction === 'BUY' ? price.bid : price.ask);
+  }
+
+  async closePositionPartially(positionId: string, volume: number): Promise<void> {
+    const position = this.getPosition(positionId);
+    if (volume <= 0 || volume > position.volume) {
+      throw new Error(`Invalid volume ${volume} for position ${positionId} (open: ${position.volume})`);
+    }
+    const price = this.getPrice(position.symbol);
+    this.closeVolume(position, volume, position.direction === 'BUY' ? price.bid : price.ask);
+  }
+
+  // ============================================
+  // Deal History
+  // ============================================
+
+  async getHistoricalDeals(startTime?: Date, endTime?: Date): Promise<BrokerDeal[]> {
+    return (await this.getAllDeals(startTime, endTime)).filter(
+      (d) => d.type === 'DEAL_TYPE_BUY' || d.type === 'DEAL_TYPE_SELL'
+    );
+  }
+
+  async getAllDeals(startTime?: Date, endTime?: Date): Promise<BrokerDeal[]> {
+    return this.deals.filter((d) => {
+      const time = new Date(d.time);
+      if (startTime && time < startTime) return false;
+      if (endTime && time > endTime) return false;
+      return true;
+    });
+  }
+
+  getDealsByPosition(positionId: string): BrokerDeal[] {
+    return this.deals.filter((d) => d.positionId === positionId);
+  }
+
+  async getAccountDealsSummary(startTime?: Date, endTime?: Date): Promise<AccountDealsSummary> {
+    return summarizeDeals(await this.getAllDeals(startTime, endTime));
+  }
+
+  // ============================================
+  // Streaming
+  // ============================================
+
+  async subscribeToMarketData(symbol: string, subscriptions: MarketDataSubscription[]): Promise<void> {
+    if (!this.feeds.has(symbol)) {
+      throw new Error(`No price data loaded for ${symbol}`);
+    }
+    this.subscriptions.set(symbol, subscriptions);
+  }
+
+  async unsubscribeFromMarketData(symbol: string): Promise<void> {
+    this.subscriptions.delete(symbol);
+  }
+
+  addEventListener(callbacks: BrokerEventCallbacks): () => void {
+    this.listeners.push(callbacks);
+    return () => {
+      const index = this.listeners.indexOf(callbacks);
+      if (index > -1) this.listeners.splice(index, 1);
+    };
+  }
+
+  /**
+   * Deliver queued events, awaiting async handlers; events those handlers cause
+   * (e.g. a partial close) are delivered in the next round
+   */
+  async flush(): Promise<void> {
+    for (let round = 0; round < MAX_FLUSH_ROUNDS; round++) {
+      this.queueStateChanges();
+      if (this.queue.length === 0) return;
+
+      const events = this.queue.splice(0);
+      const pending: unknown[] = [];
+      for (const event of events) {
+        for (const listener of [...this.listeners]) {
+          pending.push(event(listener));
+        }
+      }
+
+      const results = await Promise.allSettled(pending);
+      for (const result of results) {
+        if (result.status === 'rejected') {
+          console.error('[SimBroker] Event handler failed:', result.reason);
+        }
+      }
+    }
+  }
+
+  // ============================================
+  // Internals
+  // ============================================
+
+  private get alignment(): SourceTimezone {
+    return this.options.alignment ?? BROKER_ALIGNMENT;
+  }
+
+  private createId(): string {
+    return String(this.nextId++);
+  }
+
+  private getOrCreateFeed(symbol: string): SymbolFeed {
+    let feed = this.feeds.get(symbol);
+    if (!feed) {
+      const spec = this.getSpec(symbol);
+      feed = {
+        series: new Map(),
+        cursor: 0,
+        costs: new ExecutionCostModel(
+          this.options.costs?.[symbol] ?? getDefaultExecutionCosts(symbol),
+          symbol,
+          spec.contractSize
+        ),
+      };
+      this.feeds.set(symbol, feed);
+    }
+    return feed;
+  }
+
+  /**
+   * Point the cursor at the first replayed price and seed the price from the last bar before it
+   */
+  private resetFeed(symbol: string, feed: SymbolFeed): void {
+    const start = this.options.startTime.getTime();
+    feed.cursor = 0;
+    feed.price = undefined;
+
+    if (feed.ticks) {
+      while (feed.cursor < feed.ticks.length && feed.ticks[feed.cursor].time.getTime() < start) {
+        const tick = feed.ticks[feed.cursor++];
+        feed.price = { symbol, time: tick.time, bid: tick.bid, ask: tick.ask };
+      }
+      return;
+    }
+
+    const path = feed.path ?? [];
+    let bar = 0;
+    while (bar < path.length && path[bar].time.getTime() < start) bar++;
+    feed.cursor = bar * 4;
+    if (bar > 0) {
+      const last = path[bar - 1];
+      feed.price = this.toPoint(symbol, feed, new Date(last.time.getTime() + this.barMs(last) - 1), last.close);
+    }
+  }
+
+  private pointAt(symbol: string, feed: SymbolFeed, index: number): PricePoint | undefined {
+    if (feed.ticks) {
+      const tick = feed.ticks[index];
+      return tick && { symbol, time: tick.time, bid: tick.bid, ask: tick.ask };
+    }
+
+    const bar = feed.path?.[Math.floor(index / 4)];
+    if (!bar) return undefined;
+    const leg = index % 4;
+    const bullish = bar.close >= bar.open;
+    const prices = bullish
+      ? [bar.open, bar.low, bar.high, bar.close]
+      : [bar.open, bar.high, bar.low, bar.close];
+    const time = new Date(bar.time.getTime() + (this.barMs(bar) * leg) / 4);
+    return { ...this.toPoint(symbol, feed, time, prices[leg]), intrabar: leg > 0 };
+  }
+
+  private toPoint(symbol: string, feed: SymbolFeed, time: Date, bid: number): PricePoint {
+    return { symbol, time, bid, ask: bid + feed.costs.getSpread(time) };
+  }
+
+  private barMs(candle: Candle): number {
+    return TIMEFRAME_MINUTES[candle.timeframe] * MINUTE_MS;
+  }
+
+  private peekNext(): { feed: SymbolFeed; point: PricePoint } | undefined {
+    let next: { feed: SymbolFeed; point: PricePoint } | undefined;
+    for (const [symbol, feed] of this.feeds) {
+      const point = this.pointAt(symbol, feed, feed.cursor);
+      if (point && (!next || point.time < next.point.time)) {
+        next = { feed, point };
+      }
+    }
+    return next;
+  }
+
+  private getSpec(symbol: string): SymbolInfo {
+    const spec = this.options.symbolSpecs?.[symbol] ?? symbolSpecRegistry.get(symbol);
+    if (!spec) {
+      throw new Error(`Symbol ${symbol} not found`);
+    }
+    return spec;
+  }
+
+  private getPrice(symbol: string): PricePoint {
+    const price = this.feeds.get(symbol)?.price;
+    if (!price) {
+      throw new Error(`Price not available for ${symbol}`);
+    }
+    return price;
+  }
+
+  private getPosition(positionId: string): SimPosition {
+    const position = this.positions.get(positionId);
+    if (!position) {
+      throw new Error(`Position ${positionId} not found`);
+    }
+    return position;
+  }
+
+  /**
+   * Candles of a timeframe that have closed by the current time
+   */
+  private getCompletedCandles(symbol: string, timeframe: Timeframe): Candle[] {
+    const feed = this.feeds.get(symbol);
+    if (!feed) return [];
+
+    let series = feed.series.get(timeframe);
+    if (!series) {
+      const source = Array.from(feed.series.keys())
+        .filter((tf) => TIMEFRAME_MINUTES[tf] < TIMEFRAME_MINUTES[timeframe])
+        .sort((a, b) => TIMEFRAME_MINUTES[a] - TIMEFRAME_MINUTES[b])[0];
+      if (!source) return [];
+      series = resampleCandles(feed.series.get(source)!, timeframe, this.alignment);
+      feed.series.set(timeframe, series);
+    }
+
+    const openBar = bucketStart(this.time.getTime(), timeframe, this.alignment);
+    return sliceByTime(series, new Date(0), new Date(openBar));
+  }
+
+  private queueCompletedCandles(
+    symbol: string,
+    subscriptions: MarketDataSubscription[],
+    previous: Date,
+    current: Date
+  ): void {
+    const updates: CandleUpdate[] = [];
+    for (const subscription of subscriptions) {
+      const timeframe = subscription.type === 'candles' && subscription.timeframe
+        ? TIMEFRAME_BY_METAAPI[subscription.timeframe]
+        : undefined;
+      if (!timeframe) continue;
+
+      const closedBar = bucketStart(previous.getTime(), timeframe, this.alignment);
+      if (bucketStart(current.getTime(), timeframe, this.alignment) === closedBar) continue;
+
+      const candle = this.getCompletedCandles(symbol, timeframe).find((c) => c.time.getTime() === closedBar);
+      if (candle) {
+        updates.push({
+          symbol,
+          timeframe: subscription.timeframe!,
+          time: candle.time,
+          open: candle.open,
+          high: candle.high,
+          low: candle.low,
+          close: candle.close,
+          volume: candle.volume,
+        });
+      }
+    }
+
+    if (updates.length > 0) {
+      this.queue.push((cb) => cb.onCandleUpdate?.(updates));
+    }
+  }
+
+  private isQuoteDue(feed: SymbolFeed, subscriptions: MarketDataSubscription[], time: Date): boolean {
+    const quotes = subscriptions.find((s) => s.type === 'quotes' || s.type === 'ticks');
+    if (!quotes) return false;
+    if (feed.lastQuote === undefined) return true;
+    return time.getTime() - feed.lastQuote >= (quotes.intervalInMilliseconds ?? 0);
+  }
+
+  private hasPositionsOn(symbol: string): boolean {
+    for (const position of this.positions.values()) {
+      if (position.symbol === symbol) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Queue one position, order and account event for everything changed since the last flush
+   */
+  private queueStateChanges(): void {
+    if (this.positionsChanged || this.removedPositionIds.length > 0) {
+      const updates = Array.from(this.positions.values()).map((pos) => this.toPositionUpdate(pos));
+      const removed = this.removedPositionIds.splice(0);
+      this.queue.push((cb) => cb.onPositionUpdate?.(updates, removed));
+
+      const account: AccountInfoUpdate = this.accountInfo();
+      this.queue.push((cb) => cb.onAccountUpdate?.(account));
+      this.positionsChanged = false;
+    }
+
+    if (this.ordersChanged) {
+      const updates: OrderUpdate[] = Array.from(this.orders.values()).map((order) => ({
+        id: order.id,
+        symbol: order.symbol,
+        type: order.direction === 'BUY' ? 'ORDER_TYPE_BUY_LIMIT' : 'ORDER_TYPE_SELL_LIMIT',
+        openPrice: order.price,
+        volume: order.volume,
+        stopLoss: order.stopLoss,
+        takeProfit: order.takeProfit,
+        state: 'ORDER_STATE_PLACED',
+      }));
+      const completed = this.completedOrderIds.splice(0);
+      this.queue.push((cb) => cb.onOrderUpdate?.(updates, completed));
+      this.ordersChanged = false;
+    }
+  }
+
+  private toPositionUpdate(position: SimPosition): PositionUpdate {
+    const { price, profit } = this.valuePosition(position);
+    return {
+      id: position.id,
+      symbol: position.symbol,
+      type: position.direction === 'BUY' ? 'POSITION_TYPE_BUY' : 'POSITION_TYPE_SELL',
+      volume: position.volume,
+      openPrice: position.openPrice,
+      currentPrice: price,
+      stopLoss: position.stopLoss,
+      takeProfit: position.takeProfit,
+      profit,
+      swap: 0,
+      time: position.openTime,
+      comment: position.comment,
+    };
+  }
+
+  private accountInfo(): AccountInfo {
+    let openProfit = 0;
+    let margin = 0;
+    for (const position of this.positions.values()) {
+      openProfit += this.valuePosition(position).profit;
+      margin += position.margin;
+    }
+    const equity = this.balance + openProfit;
+
+    return {
+      balance: this.balance,
+      equity,
+      margin,
+      freeMargin: equity - margin,
+      marginLevel: margin > 0 ? (equity / margin) * 100 : undefined,
+      leverage: this.options.leverage ?? 100,
+      currency: this.options.currency ?? 'USD',
+    };
+  }
+
+  /**
+   * Exit price (bid for longs, ask for shorts) and open profit in account currency
+   */
+  private valuePosition(position: SimPosition): { price: number; profit: number } {
+    const price = this.getPrice(position.symbol);
+    const exit = position.direction === 'BUY' ? price.bid : price.ask;
+    return { price: exit, profit: this.calculateProfit(position, position.volume, exit) };
+  }
+
+  private calculateProfit(position: SimPosition, volume: number, exitPrice: number): number {
+    const spec = this.getSpec(position.symbol);
+    const distance = position.direction === 'BUY' ? exitPrice - position.openPrice : position.openPrice - exitPrice;
+    return distance * volume * spec.contractSize * this.conversionRate(spec, exitPrice);
+  }
+
+  private conversionRate(spec: SymbolInfo, price: number): number {
+    return getQuoteToAccountRate(spec, this.options.currency ?? 'USD', price, (base, quote) => {
+      for (const [symbol, feed] of this.feeds) {
+        if (symbol.startsWith(`${base}${quote}`) && feed.price) return feed.price.bid;
+      }
+      return undefined;
+    });
+  }
+
+  private requiredMargin(symbol: string, volume: number, price: number): number {
+    const spec = this.getSpec(symbol);
+    return (volume * spec.contractSize * price * this.conversionRate(spec, price)) / (this.options.leverage ?? 100);
+  }
+
+  private validateVolume(symbol: string, volume: number): void {
+    const spec = this.getSpec(symbol);
+    const steps = volume / spec.volumeStep;
+    if (volume < spec.minVolume || volume > spec.maxVolume || Math.abs(steps - Math.round(steps)) > 1e-6) {
+      throw new Error(`Invalid volume ${volume} for ${symbol} (min ${spec.minVolume}, max ${spec.maxVolume}, step ${spec.volumeStep})`);
+    }
+  }
+
+  /**
+   * Stops must sit on the losing side and targets on the winning side of the reference price
+   */
+  private validateStops(direction: Direction, reference: number, stopLoss?: number, takeProfit?: number): void {
+    const isBuy = direction === 'BUY';
+    if (stopLoss && (isBuy ? stopLoss >= reference : stopLoss <= reference)) {
+      throw new Error(`Invalid stops: ${direction} stop loss ${stopLoss} is on the wrong side of ${reference}`);
+    }
+    if (takeProfit && (isBuy ? takeProfit <= reference : takeProfit >= reference)) {
+      throw new Error(`Invalid stops: ${direction} take profit ${takeProfit} is on the wrong side of ${reference}`);
+    }
+  }
+
+  private openPosition(
+    id: string,
+    symbol: string,
+    direction: Direction,
+    volume: number,
+    price: number,
+    stopLoss: number | undefined,
+    takeProfit: number | undefined,
+    comment: string
+  ): SimPosition {
+    const margin = this.requiredMargin(symbol, volume, price);
+    if (margin > this.accountInfo().freeMargin) {
+      throw new Error(`Not enough money: ${volume} lots of ${symbol} need ${margin.toFixed(2)} margin`);
+    }
+
+    const position: SimPosition = {
+      id,
+      symbol,
+      direction,
+      volume,
+      openPrice: price,
+      openTime: this.now(),
+      stopLoss,
+      takeProfit,
+      comment,
+      margin,
+    };
+    this.positions.set(id, position);
+
+    const commission = charge(this.getOrCreateFeed(symbol).costs.getCommission(volume));
+    this.balance += commission;
+    this.deals.push({
+      id: this.createId(),
+      type: direction === 'BUY' ? 'DEAL_TYPE_BUY' : 'DEAL_TYPE_SELL',
+      entryType: 'DEAL_ENTRY_IN',
+      symbol,
+      volume,
+      price,
+      profit: 0,
+      swap: 0,
+      commission,
+      time: this.now(),
+      positionId: id,
+      orderId: id,
+      stopLoss,
+      takeProfit,
+      comment,
+    });
+    this.positionsChanged = true;
+    console.log(`[SimBroker] Opened ${direction} ${volume} ${symbol} @ ${price} (position ${id})`);
+    return position;
+  }
+
+  private closeVolume(position: SimPosition, volume: number, price: number, brokerComment?: string): void {
+    const spec = this.getSpec(position.symbol);
+    const costs = this.getOrCreateFeed(position.symbol).costs;
+    const remaining = parseFloat((position.volume - volume).toFixed(8));
+    const closesAll = remaining < spec.minVolume / 2;
+    const closedVolume = closesAll ? position.volume : volume;
+
+    const profit = this.calculateProfit(position, closedVolume, price);
+    const swap = charge(costs.getSwap(position.direction, closedVolume, position.openTime, this.time));
+    const commission = charge(costs.getCommission(closedVolume));
+    this.balance += profit + swap + commission;
+
+    this.deals.push({
+      id: this.createId(),
+      type: position.direction === 'BUY' ? 'DEAL_TYPE_SELL' : 'DEAL_TYPE_BUY',
+      entryType: 'DEAL_ENTRY_OUT',
+      symbol: position.symbol,
+      volume: closedVolume,
+      price,
+      profit,
+      swap,
+      commission,
+      time: this.now(),
+      positionId: position.id,
+      orderId: this.createId(),
+      comment: position.comment,
+      brokerComment,
+    });
+
+    if (closesAll) {
+      this.positions.delete(position.id);
+      this.removedPositionIds.push(position.id);
+      console.log(`[SimBroker] Closed position ${position.id} ${position.symbol} @ ${price}${brokerComment ? ` ${brokerComment}` : ''}, profit ${profit.toFixed(2)}`);
+    } else {
+      position.margin *= remaining / position.volume;
+      position.volume = remaining;
+    }
+    this.positionsChanged = true;
+  }
+
+  /**
+   * Fill limit orders the price has reached, at the limit (or better after a gap)
+   */
+  private fillPendingOrders(point: PricePoint): void {
+    for (const order of Array.from(this.orders.values())) {
+      if (order.symbol !== point.symbol) continue;
+      const isBuy = order.direction === 'BUY';
+      const market = isBuy ? point.ask : point.bid;
+      if (isBuy ? market > order.price : market < order.price) continue;
+
+      this.orders.delete(order.id);
+      this.completedOrderIds.push(order.id);
+      this.ordersChanged = true;
+      const fill = point.intrabar ? order.price : market;
+      try {
+        this.openPosition(order.id, order.symbol, order.direction, order.volume, fill, order.stopLoss, order.takeProfit, order.comment ?? '');
+      } catch (error) {
+        console.warn(`[SimBroker] Limit order ${order.id} rejected on fill:`, error);
+      }
+    }
+  }
+
+  /**
+   * Close positions whose stop loss or take profit the price reached. Stops fill at the
+   * level, or at the price when it gapped through; targets fill at their level.
+   */
+  private checkStops(point: PricePoint): void {
+    for (const position of Array.from(this.positions.values())) {
+      if (position.symbol !== point.symbol) continue;
+      const isBuy = position.direction === 'BUY';
+      const exit = isBuy ? point.bid : point.ask;
+
+      if (position.stopLoss && (isBuy ? exit <= position.stopLoss : exit >= position.stopLoss)) {
+        const fill = point.intrabar ? position.stopLoss : exit;
+        this.closeVolume(position, position.volume, fill, `[sl ${position.stopLoss}]`);
+      } else if (position.takeProfit && (isBuy ? exit >= position.takeProfit : exit <= position.takeProfit)) {
+        this.closeVolume(position, position.volume, position.takeProfit, `[tp ${position.takeProfit}]`);
+      }
+    }
+  }
+
+  /**
+   * Close the worst losing position while the margin level is below the stop-out level
+   */
+  private checkStopOut(): void {
+    const stopOutLevel = this.options.stopOutLevel ?? 50;
+    let account = this.accountInfo();
+    while (account.marginLevel !== undefined && account.marginLevel < stopOutLevel) {
+      const worst = Array.from(this.positions.values())
+        .map((pos) => ({ pos, ...this.valuePosition(pos) }))
+        .sort((a, b) => a.profit - b.profit)[0];
+      if (!worst) return;
+      this.closeVolume(worst.pos, worst.pos.volume, worst.price, `[so ${account.marginLevel.toFixed(1)}%]`);
+      account = this.accountInfo();
+    }
+  }
+}
@@ -0,0 +1,139 @@
+import {
+  AccountInfo,
+  Candle,
+  Direction,
+  Position,
+  SymbolInfo,
+  Tick,
+  Timeframe,
+} from '../types';
+import { SyncListenerCallbacks } from '../metaapi/sync-listener';
+
+/**
+ * Broker Adapter
+ * Everything the bot, the trade managers and the backtest jobs need from a broker.
+ * MetaAPIClient is the reference implementation; other brokers (or a simulated one)
+ * plug in by implementing this interface and being passed to the services.
+ */
+
+// Market data subscription types
+export interface MarketDataSubscription {
+  type: 'quotes' | 'candles' | 'ticks' | 'marketDepth';
+  timeframe?: string;
+  intervalInMilliseconds?: number;
+}
+
+/**
+ * Deal in MetaAPI's shape, which trade sync and the stats routes read.
+ * Adapters for other brokers map their deals onto these fields.
+ */
+export interface BrokerDeal {
+  id: string;
+  type: string; // DEAL_TYPE_BUY, DEAL_TYPE_SELL, DEAL_TYPE_BALANCE, ...
+  entryType?: string; // DEAL_ENTRY_IN, DEAL_ENTRY_OUT, ...
+  symbol?: string;
+  volume?: number;
+  price?: number;
+  profit?: number;
+  swap?: number;
+  commission?: number;
+  time: Date | string;
+  positionId?: string;
+  orderId?: string;
+  stopLoss?: number;
+  takeProfit?: number;
+  comment?: string;
+  brokerComment?: string;
+  [field: string]: any;
+}
+
+export interface AccountDealsSummary {
+  deposits: number;
+  withdrawals: number;
+  totalSwap: number;
+  totalCommission: number;
+  tradingProfit: number;
+  dealCount: number;
+  operations: Array<{ type: 'deposit' | 'withdrawal'; amount: number; time: Date; comment: string | null }>;
+  dealTimeline: Array<{
+    timestamp: Date;
+    balanceChange: number;
+    event?: 'deposit' | 'withdrawal';
+    amount?: number;
+    symbol?: string;
+  }>;
+}
+
+export type BrokerEventCallbacks = SyncListenerCallbacks;
+
+export interface BrokerAdapter {
+  /** Short name for logs, e.g. 'metaapi' */
+  readonly name: string;
+
+  // Connection
+  /** Full connection with streaming, for live trading */
+  connect(): Promise<void>;
+  /** Account access without streaming, enough for historical data */
+  connectAccountOnly(): Promise<void>;
+  disconnect(): Promise<void>;
+  isConnectionActive(): boolean;
+  /** Broker clock; a simulated broker returns its replay time */
+  now(): Date;
+
+  // Account state
+  getAccountInfo(): Promise<AccountInfo>;
+  getPositions(): Promise<Position[]>;
+  getSymbolInfo(symbol: string): Promise<SymbolInfo>;
+  /** Margin the broker would hold for the order, in account currency (per-symbol margin rates included) */
+  calculateMargin(symbol: string, type: Direction, volume: number, price: number): Promise<number>;
+
+  // Market data
+  /** Latest `count` candles, or `count` candles from `startTime` */
+  getCandles(symbol: string, timeframe: Timeframe, count?: number, startTime?: Date): Promise<Candle[]>;
+  getHistoricalCandles(symbol: string, timeframe: Timeframe, startDate: Date, endDate: Date): Promise<Candle[]>;
+  /** Historical candles through the candle cache, fetching only what is missing */
+  getHistoricalCandlesCached(symbol: string, timeframe: Timeframe, startDate: Date, endDate: Date): Promise<Candle[]>;
+  /** Historical ticks through the tick store, fetching only what is missing */
+  getHistoricalTicksCached(symbol: string, startDate: Date, endDate: Date): Promise<Tick[]>;
+  getCurrentPrice(symbol: string): Promise<{ bid: number; ask: number }>;
+
+  // Orders and positions
+  placeMarketOrder(
+    symbol: string,
+    type: Direction,
+    volume: number,
+    stopLoss?: number,
+    takeProfit?: number,
+    comment?: string
+  ): Promise<{ orderId: string; positionId?: string }>;
+  placeLimitOrder(
+    symbol: string,
+    type: Direction,
+    volume: number,
+    price: number,
+    stopLoss?: number,
+    takeProfit?: number,
+    comment?: string
+  ): Promise<{ orderId: string }>;
+  cancelOrder(orderId: string): Promise<void>;
+  modifyPosition(positionId: string, stopLoss?: number, takeProfit?: number): Promise<void>;
+  closePosition(positionId: string): Promise<void>;
+  closePositionPartially(positionId: string, volume: number): Promise<void>;
+
+  // Deal history
+  /** Trading deals only (buys and sells) */
+  getHistoricalDeals(startTime?: Date, endTime?: Date): Promise<BrokerDeal[]>;
+  /** Every deal, including balance operations */
+  getAllDeals(startTime?: Date, endTime?: Date): Promise<BrokerDeal[]>;
+  getDealsByPosition(positionId: string): BrokerDeal[];
+  getAccountDealsSummary(startTime?: Date, endTime?: Date): Promise<AccountDealsSummary>;
+
+  // Streaming
+  subscribeToMarketData(symbol: string, subscriptions: MarketDataSubscription[]): Promise<void>;
+  unsubscribeFromMarketData(symbol: string): Promise<void>;
+  /**
+   * Receive price, candle, position, order and account events pushed by the broker.
+   * Returns a function that removes the listener.
+   */
+  addEventListener(callbacks: BrokerEventCallbacks): () => void;
+}
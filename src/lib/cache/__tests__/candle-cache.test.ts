@@ -0,0 +1,41 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../../db', () => ({ prisma: {} }));
+
+import { candleCache } from '../candle-cache';
+import { Candle } from '../../types';
+
+const MINUTE = 60 * 1000;
+
+function makeCandle(time: number, symbol: string = 'XAUUSD.s'): Candle {
+  return { time: new Date(time), open: 100, high: 101, low: 99, close: 100, volume: 1, symbol, timeframe: 'M15' };
+}
+
+describe('candleCache.findMissingRanges', () => {
+  // Friday 19 January 2024 21:30 to Monday 22 January 2024 12:00
+  const start = new Date(Date.UTC(2024, 0, 19, 21, 30));
+  const end = new Date(Date.UTC(2024, 0, 22, 12, 0));
+
+  it('does not refetch the weekend closure', () => {
+    const candles = [
+      makeCandle(Date.UTC(2024, 0, 19, 21, 30)),
+      makeCandle(Date.UTC(2024, 0, 19, 21, 45)),
+      makeCandle(Date.UTC(2024, 0, 21, 22, 0)),
+      makeCandle(Date.UTC(2024, 0, 22, 9, 0)),
+      makeCandle(Date.UTC(2024, 0, 22, 12, 0)),
+    ];
+
+    expect(candleCache.findMissingRanges(candles, start, end, 'M15')).toEqual([
+      { start: new Date(Date.UTC(2024, 0, 21, 22, 15)), end: new Date(Date.UTC(2024, 0, 22, 8, 45)) },
+      { start: new Date(Date.UTC(2024, 0, 22, 9, 15)), end: new Date(Date.UTC(2024, 0, 22, 11, 45)) },
+    ]);
+  });
+
+  it('refetches weekend gaps of symbols that trade through them', () => {
+    const candles = [makeCandle(start.getTime(), 'BTCUSD'), makeCandle(end.getTime() - 15 * MINUTE, 'BTCUSD'), makeCandle(end.getTime(), 'BTCUSD')];
+
+    expect(candleCache.findMissingRanges(candles, start, end, 'M15')).toEqual([
+      { start: new Date(start.getTime() + 15 * MINUTE), end: new Date(end.getTime() - 30 * MINUTE) },
+    ]);
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// In-memory TickDay table
+const rows = vi.hoisted(() => new Map<string, any>());
+vi.mock('../../db', () => {
+  const key = (where: any) => `${where.symbol_day.symbol}|${where.symbol_day.day.getTime()}`;
+  return {
+    prisma: {
+      tickDay: {
+        findUnique: async ({ where }: any) => rows.get(key(where)) ?? null,
+        upsert: async ({ where, update, create }: any) => {
+          const existing = rows.get(key(where));
+          rows.set(key(where), existing ? { ...existing, ...update } : { ...create });
+        },
+        findMany: async ({ where }: any) =>
+          Array.from(rows.values())
+            .filter((r) => r.symbol === where.symbol && r.day >= where.day.gte && r.day <= where.day.lte)
+            .sort((a, b) => a.day.getTime() - b.day.getTime()),
+      },
+    },
+  };
+});
+
+import { dayStart, encodeTickDay, decodeTickDay, mergeTicks, findMissingTickRanges, tickStore } from '../tick-store';
+import { Tick } from '../../types';
+
+const DAY = new Date(Date.UTC(2024, 0, 15));
+const HOUR = 60 * 60 * 1000;
+
+function makeTick(offsetMs: number, bid: number, day: Date = DAY): Tick {
+  return { time: new Date(day.getTime() + offsetMs), bid, ask: bid + 0.25, symbol: 'XAUUSD.s' };
+}
+
+describe('tick store encoding', () => {
+  it('finds the UTC day of a time', () => {
+    expect(dayStart(new Date(Date.UTC(2024, 0, 15, 23, 59, 59, 999)))).toEqual(DAY);
+    expect(dayStart(Date.UTC(2024, 0, 16))).toEqual(new Date(Date.UTC(2024, 0, 16)));
+  });
+
+  it('round-trips a day of ticks', () => {
+    const ticks = [makeTick(0, 2050.12), makeTick(1_250, 2050.37), makeTick(86_399_999, 2049.99)];
+
+    const decoded = decodeTickDay(encodeTickDay(ticks, DAY), DAY, 'XAUUSD.s');
+
+    expect(decoded).toEqual(ticks);
+  });
+
+  it('replaces stored ticks inside the span of new ticks', () => {
+    const existing = [makeTick(1_000, 1), makeTick(2_000, 2), makeTick(3_000, 3), makeTick(5_000, 5)];
+    const incoming = [makeTick(2_000, 20), makeTick(4_000, 40)];
+
+    const merged = mergeTicks(existing, incoming);
+
+    expect(merged.map((t) => t.bid)).toEqual([1, 20, 40, 5]);
+    expect(mergeTicks(existing, [])).toBe(existing);
+  });
+
+  it('replaces stored ticks inside an explicit span, even with no new ticks', () => {
+    const existing = [makeTick(1_000, 1), makeTick(2_000, 2), makeTick(3_000, 3)];
+    const span = { start: new Date(DAY.getTime() + 1_500), end: new Date(DAY.getTime() + 2_500) };
+
+    expect(mergeTicks(existing, [], span).map((t) => t.bid)).toEqual([1, 3]);
+  });
+});
+
+describe('findMissingTickRanges', () => {
+  const day = (d: number) => new Date(Date.UTC(2024, 0, d));
+
+  it('returns the uncovered parts of each day, merged across days', () => {
+    const stored = [
+      { day: day(15), coveredFrom: day(15), coveredTo: new Date(day(16).getTime() - 1) },
+      { day: day(16), coveredFrom: day(16), coveredTo: new Date(day(16).getTime() + 12 * HOUR) },
+    ];
+
+    const missing = findMissingTickRanges(stored, new Date(day(15).getTime() + 6 * HOUR), new Date(day(17).getTime() + 6 * HOUR));
+
+    expect(missing).toEqual([
+      { start: new Date(day(16).getTime() + 12 * HOUR + 1), end: new Date(day(17).getTime() + 6 * HOUR) },
+    ]);
+  });
+
+  it('reports a gap before the covered part of a day', () => {
+    const stored = [{ day: day(15), coveredFrom: new Date(day(15).getTime() + 8 * HOUR), coveredTo: new Date(day(16).getTime() - 1) }];
+
+    expect(findMissingTickRanges(stored, day(15), new Date(day(15).getTime() + 10 * HOUR))).toEqual([
+      { start: day(15), end: new Date(day(15).getTime() + 8 * HOUR - 1) },
+    ]);
+  });
+});
+
+describe('tickStore.getHistoricalTicks', () => {
+  // Friday 19 January 2024 to Sunday 21 January 2024
+  const FRIDAY = new Date(Date.UTC(2024, 0, 19));
+  const SUNDAY = new Date(Date.UTC(2024, 0, 21));
+
+  beforeEach(() => {
+    rows.clear();
+  });
+
+  it('fetches uncovered spans once and remembers empty days', async () => {
+    const fetch = vi.fn(async (symbol: string, start: Date, end: Date) =>
+      [makeTick(13 * HOUR, 2030, FRIDAY), makeTick(20 * HOUR, 2031, FRIDAY), makeTick(22 * HOUR, 2040, SUNDAY)]
+        .filter((t) => t.time >= start && t.time <= end)
+    );
+    const start = new Date(FRIDAY.getTime() + 12 * HOUR);
+    const end = new Date(SUNDAY.getTime() + 12 * HOUR);
+
+    const first = await tickStore.getHistoricalTicks('XAUUSD.s', start, end, fetch);
+    const second = await tickStore.getHistoricalTicks('XAUUSD.s', start, end, fetch);
+
+    expect(first.map((t) => t.bid)).toEqual([2030, 2031]);
+    expect(second).toEqual(first);
+    expect(fetch).toHaveBeenCalledTimes(1);
+    // Saturday is stored as an empty, covered day
+    expect(rows.size).toBe(3);
+
+    const extended = await tickStore.getHistoricalTicks('XAUUSD.s', start, new Date(SUNDAY.getTime() + 24 * HOUR - 1), fetch);
+
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(fetch.mock.calls[1][1]).toEqual(new Date(end.getTime() + 1));
+    expect(extended.map((t) => t.bid)).toEqual([2030, 2031, 2040]);
+  });
+
+});
@@ -1,5 +1,6 @@
 import { prisma } from '../db';
 import { Candle, Timeframe, TIMEFRAME_MINUTES } from '../types';
+import { classifyGap } from '../history/resample';
 
 interface DateRange {
   start: Date;
@@ -72,8 +73,8 @@ class CandleCache {
     const allCandles = [...cachedCandles, ...newCandles];
     allCandles.sort((a, b) => a.time.getTime() - b.time.getTime());
 
-    // Remove duplicates (in case of overlap)
-    const uniqueCandles = this.removeDuplicates(allCandles);
+    // Remove duplicates (in case of overlap) - the freshly fetched bar wins
+    const uniqueCandles = this.removeDuplicates(allCandles, `${symbol} ${timeframe}`);
 
     this.stats.totalCandles = uniqueCandles.length;
     return uniqueCandles;
@@ -163,6 +164,57 @@ class CandleCache {
     }
   }
 
+  /**
+   * Replace the cached candles between the first and last of `candles` (ascending) -
+   * bulk path for offline imports, much faster than upserting candle by candle
+   */
+  async importCandles(
+    candles: Candle[],
+    symbol: string,
+    timeframe: Timeframe
+  ): Promise<void> {
+    if (candles.length === 0) return;
+    await this.replaceRange(candles, symbol, timeframe, candles[0].time, candles[candles.length - 1].time);
+  }
+
+  /**
+   * Replace every cached candle between two times (inclusive) with `candles` - also removes
+   * bars that are not in `candles`, such as misaligned duplicates
+   */
+  async replaceRange(
+    candles: Candle[],
+    symbol: string,
+    timeframe: Timeframe,
+    startDate: Date,
+    endDate: Date
+  ): Promise<void> {
+    const deleted = await prisma.cachedCandle.deleteMany({
+      where: {
+        symbol,
+        timeframe,
+        time: { gte: startDate, lte: endDate },
+      },
+    });
+    console.log(`[Cache] Writing ${candles.length} candles for ${symbol} ${timeframe} (replacing ${deleted.count})`);
+
+    const batchSize = 5000;
+    for (let i = 0; i < candles.length; i += batchSize) {
+      await prisma.cachedCandle.createMany({
+        data: candles.slice(i, i + batchSize).map((candle) => ({
+          symbol,
+          timeframe,
+          time: candle.time,
+          open: candle.open,
+          high: candle.high,
+          low: candle.low,
+          close: candle.close,
+          volume: candle.volume,
+        })),
+        skipDuplicates: true,
+      });
+    }
+  }
+
   /**
    * Find gaps in the cached data that need to be fetched from API
    */
@@ -195,9 +247,9 @@ class CandleCache {
       const currTime = candles[i].time.getTime();
       const gap = currTime - prevTime;
 
-      // If gap is larger than expected (accounting for weekends/market closures)
-      // We use 3x interval as threshold to avoid flagging normal weekend gaps
-      if (gap > intervalMs * 3) {
+      // If gap is larger than expected and not a market closure (weekend, daily break,
+      // holiday) - closures have no data to fetch
+      if (gap > intervalMs * 3 && classifyGap(candles[i].symbol, prevTime, currTime, timeframe) === 'missing') {
         missingRanges.push({
           start: new Date(prevTime + intervalMs),
           end: new Date(currTime - intervalMs),
@@ -218,16 +270,29 @@ class CandleCache {
   }
 
   /**
-   * Remove duplicate candles (same time)
+   * Remove duplicate candles (same time), keeping the last one and warning when
+   * the duplicates disagree
    */
-  private removeDuplicates(candles: Candle[]): Candle[] {
-    const seen = new Set<string>();
-    return candles.filter((c) => {
-      const key = c.time.getTime().toString();
-      if (seen.has(key)) return false;
-      seen.add(key);
-      return true;
-    });
+  private removeDuplicates(candles: Candle[], label: string): Candle[] {
+    const byTime = new Map<number, Candle>();
+    let conflicts = 0;
+    for (const candle of candles) {
+      const time = candle.time.getTime();
+      const previous = byTime.get(time);
+      if (
+        previous &&
+        (previous.open !== candle.open || previous.high !== candle.high ||
+          previous.low !== candle.low || previous.close !== candle.close)
+      ) {
+        conflicts++;
+      }
+      byTime.set(time, candle);
+    }
+
+    if (conflicts > 0) {
+      console.warn(`[Cache] ${conflicts} cached ${label} candles differ from the fetched ones - using the fetched values`);
+    }
+    return Array.from(byTime.values());
   }
 
   /**
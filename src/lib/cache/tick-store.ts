@@ -0,0 +1,260 @@
+import { gunzipSync, gzipSync } from 'zlib';
+import { prisma } from '../db';
+import { Tick } from '../types';
+
+/**
+ * Tick Store
+ * Historical ticks in one gzip-compressed row per symbol and UTC day. Each tick packs
+ * into 20 bytes (ms into the day, bid, ask) before compression, so a busy day of
+ * gold ticks stays a few MB. Every row records the span it covers, so days without
+ * ticks (weekends, holidays) are not fetched again.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RECORD_SIZE = 20;
+
+interface DateRange {
+  start: Date;
+  end: Date;
+}
+
+export interface TickDayCoverage {
+  day: Date;
+  coveredFrom: Date;
+  coveredTo: Date;
+}
+
+export function dayStart(time: Date | number): Date {
+  const ms = typeof time === 'number' ? time : time.getTime();
+  return new Date(Math.floor(ms / DAY_MS) * DAY_MS);
+}
+
+/**
+ * Pack one day of ascending ticks
+ */
+export function encodeTickDay(ticks: Tick[], day: Date): Buffer {
+  const buffer = Buffer.alloc(ticks.length * RECORD_SIZE);
+  ticks.forEach((tick, i) => {
+    const offset = i * RECORD_SIZE;
+    buffer.writeUInt32LE(tick.time.getTime() - day.getTime(), offset);
+    buffer.writeDoubleLE(tick.bid, offset + 4);
+    buffer.writeDoubleLE(tick.ask, offset + 12);
+  });
+  return gzipSync(buffer);
+}
+
+export function decodeTickDay(data: Uint8Array, day: Date, symbol: string): Tick[] {
+  const buffer = gunzipSync(data);
+  const ticks: Tick[] = [];
+  for (let offset = 0; offset + RECORD_SIZE <= buffer.length; offset += RECORD_SIZE) {
+    ticks.push({
+      time: new Date(day.getTime() + buffer.readUInt32LE(offset)),
+      bid: buffer.readDoubleLE(offset + 4),
+      ask: buffer.readDoubleLE(offset + 12),
+      symbol,
+    });
+  }
+  return ticks;
+}
+
+/**
+ * Existing ticks outside `span` (default: the new ticks' time span), plus the new ticks
+ */
+export function mergeTicks(existing: Tick[], incoming: Tick[], span?: DateRange): Tick[] {
+  if (!span && incoming.length === 0) return existing;
+  const first = span ? span.start.getTime() : incoming[0].time.getTime();
+  const last = span ? span.end.getTime() : incoming[incoming.length - 1].time.getTime();
+  const kept = existing.filter((t) => t.time.getTime() < first || t.time.getTime() > last);
+  return [...kept, ...incoming].sort((a, b) => a.time.getTime() - b.time.getTime());
+}
+
+/**
+ * Union of two covered spans; a new span that does not touch the old one replaces it,
+ * since a row can only describe one contiguous span
+ */
+function mergeCoverage(existing: DateRange, incoming: DateRange): DateRange {
+  if (incoming.start.getTime() > existing.end.getTime() + 1 || incoming.end.getTime() + 1 < existing.start.getTime()) {
+    return incoming;
+  }
+  return {
+    start: existing.start < incoming.start ? existing.start : incoming.start,
+    end: existing.end > incoming.end ? existing.end : incoming.end,
+  };
+}
+
+/**
+ * Parts of [startDate, endDate] not covered by the stored days, merged into contiguous ranges
+ */
+export function findMissingTickRanges(days: TickDayCoverage[], startDate: Date, endDate: Date): DateRange[] {
+  const byDay = new Map(days.map((d) => [d.day.getTime(), d]));
+  const missing: DateRange[] = [];
+  const add = (start: number, end: number) => {
+    if (start > end) return;
+    const previous = missing[missing.length - 1];
+    if (previous && previous.end.getTime() + 1 >= start) {
+      previous.end = new Date(end);
+    } else {
+      missing.push({ start: new Date(start), end: new Date(end) });
+    }
+  };
+
+  for (let day = dayStart(startDate).getTime(); day <= endDate.getTime(); day += DAY_MS) {
+    const start = Math.max(day, startDate.getTime());
+    const end = Math.min(day + DAY_MS - 1, endDate.getTime());
+    const stored = byDay.get(day);
+    if (!stored) {
+      add(start, end);
+      continue;
+    }
+    add(start, Math.min(end, stored.coveredFrom.getTime() - 1));
+    add(Math.max(start, stored.coveredTo.getTime() + 1), end);
+  }
+  return missing;
+}
+
+class TickStore {
+  /**
+   * Get historical ticks, reading stored days first and only fetching the uncovered parts
+   */
+  async getHistoricalTicks(
+    symbol: string,
+    startDate: Date,
+    endDate: Date,
+    fetchFromApi: (symbol: string, start: Date, end: Date) => Promise<Tick[]>
+  ): Promise<Tick[]> {
+    const stored = await this.getStoredDays(symbol, startDate, endDate);
+    const missingRanges = findMissingTickRanges(stored, startDate, endDate);
+
+    if (missingRanges.length === 0) {
+      console.log(`[TickStore] Full cache hit for ${symbol}: ${stored.length} days`);
+    } else {
+      console.log(`[TickStore] ${missingRanges.length} ranges to fetch for ${symbol}`);
+    }
+
+    for (const range of missingRanges) {
+      console.log(`[TickStore] Fetching ${symbol} ticks from ${range.start.toISOString()} to ${range.end.toISOString()}`);
+      const fetched = await fetchFromApi(symbol, range.start, range.end);
+      const inRange = fetched
+        .filter((t) => t.time >= range.start && t.time <= range.end)
+        .sort((a, b) => a.time.getTime() - b.time.getTime());
+      await this.saveTicks(symbol, inRange, 'metaapi', range);
+    }
+
+    return this.getTicks(symbol, startDate, endDate);
+  }
+
+  /**
+   * Store ascending ticks, merged into the days already stored. Stored ticks inside the
+   * covered span (default: the new ticks' time span) are replaced, so re-importing a file
+   * is idempotent, and days in the span without ticks are recorded as empty.
+   */
+  async saveTicks(symbol: string, ticks: Tick[], source: string, coverage?: DateRange): Promise<number> {
+    const span = coverage ?? (ticks.length > 0
+      ? { start: ticks[0].time, end: ticks[ticks.length - 1].time }
+      : null);
+    if (!span) return 0;
+
+    const byDay = new Map<number, Tick[]>();
+    for (const tick of ticks) {
+      if (tick.time < span.start || tick.time > span.end) continue;
+      const day = dayStart(tick.time).getTime();
+      const dayTicks = byDay.get(day);
+      if (dayTicks) {
+        dayTicks.push(tick);
+      } else {
+        byDay.set(day, [tick]);
+      }
+    }
+
+    let days = 0;
+    for (let dayMs = dayStart(span.start).getTime(); dayMs <= span.end.getTime(); dayMs += DAY_MS) {
+      const day = new Date(dayMs);
+      const dayTicks = byDay.get(dayMs) ?? [];
+      const covered = {
+        start: new Date(Math.max(dayMs, span.start.getTime())),
+        end: new Date(Math.min(dayMs + DAY_MS - 1, span.end.getTime())),
+      };
+
+      const existing = await prisma.tickDay.findUnique({ where: { symbol_day: { symbol, day } } });
+      const merged = existing ? mergeTicks(decodeTickDay(existing.data, day, symbol), dayTicks, covered) : dayTicks;
+      const coveredSpan = existing
+        ? mergeCoverage({ start: existing.coveredFrom, end: existing.coveredTo }, covered)
+        : covered;
+      const data = {
+        count: merged.length,
+        firstTime: merged[0]?.time ?? null,
+        lastTime: merged[merged.length - 1]?.time ?? null,
+        coveredFrom: coveredSpan.start,
+        coveredTo: coveredSpan.end,
+        data: encodeTickDay(merged, day),
+        source,
+      };
+
+      await prisma.tickDay.upsert({
+        where: { symbol_day: { symbol, day } },
+        update: data,
+        create: { symbol, day, ...data },
+      });
+      days++;
+    }
+
+    return days;
+  }
+
+  /**
+   * Stored ticks between two times (inclusive), ascending
+   */
+  async getTicks(symbol: string, startDate: Date, endDate: Date): Promise<Tick[]> {
+    const days = await prisma.tickDay.findMany({
+      where: { symbol, day: { gte: dayStart(startDate), lte: endDate } },
+      orderBy: { day: 'asc' },
+    });
+
+    const start = startDate.getTime();
+    const end = endDate.getTime();
+    return days.flatMap((row) =>
+      decodeTickDay(row.data, row.day, symbol).filter((t) => t.time.getTime() >= start && t.time.getTime() <= end)
+    );
+  }
+
+  /**
+   * Days with stored ticks, without loading them
+   */
+  async getStoredDays(
+    symbol: string,
+    startDate: Date,
+    endDate: Date
+  ): Promise<(TickDayCoverage & { count: number })[]> {
+    return prisma.tickDay.findMany({
+      where: { symbol, day: { gte: dayStart(startDate), lte: endDate } },
+      orderBy: { day: 'asc' },
+      select: { day: true, count: true, coveredFrom: true, coveredTo: true },
+    });
+  }
+
+  /**
+   * Tick and day counts per symbol
+   */
+  async getInfo(): Promise<Record<string, { days: number; ticks: number }>> {
+    const rows = await prisma.tickDay.groupBy({
+      by: ['symbol'],
+      _count: { day: true },
+      _sum: { count: true },
+    });
+
+    const info: Record<string, { days: number; ticks: number }> = {};
+    for (const row of rows) {
+      info[row.symbol] = { days: row._count.day, ticks: row._sum.count ?? 0 };
+    }
+    return info;
+  }
+
+  async clear(symbol?: string): Promise<number> {
+    const result = await prisma.tickDay.deleteMany({ where: symbol ? { symbol } : {} });
+    console.log(`[TickStore] Cleared ${result.count} tick days`);
+    return result.count;
+  }
+}
+
+export const tickStore = new TickStore();
+export default tickStore;
@@ -0,0 +1,356 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+// The cached history helpers are not exercised here
+vi.mock('../../db', () => ({
+  prisma: new Proxy({}, { get: () => new Proxy({}, { get: () => async () => null }) }),
+}));
+
+import { CTraderClient, CTraderConfig } from '../client';
+import { MockCTraderServer, MockCTraderServerOptions } from './mock-server';
+import { PayloadType, TrendbarPeriod } from '../proto';
+import { CandleUpdate, OrderUpdate, PositionUpdate } from '../../metaapi/sync-listener';
+import { Candle, Tick } from '../../types';
+
+const SYMBOL = 'XAUUSD.s';
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+let server: MockCTraderServer;
+let client: CTraderClient;
+
+async function start(
+  serverOptions: MockCTraderServerOptions = {},
+  config: Partial<CTraderConfig> = {}
+): Promise<void> {
+  server = new MockCTraderServer(serverOptions);
+  const port = await server.listen();
+  client = new CTraderClient({
+    host: '127.0.0.1',
+    port,
+    tls: false,
+    clientId: 'client',
+    clientSecret: 'secret',
+    accessToken: 'token',
+    accountId: 1001,
+    symbolMap: { EURUSDm: 'EURUSD' },
+    requestTimeoutMs: 2000,
+    historyRequestDelayMs: 0,
+    reconnectDelayMs: 20,
+    ...config,
+  });
+}
+
+function requestsOf(payloadType: number) {
+  return server.requests.filter((r) => r.payloadType === payloadType).map((r) => r.message);
+}
+
+function hourBars(count: number, end: number): Candle[] {
+  const first = Math.floor(end / HOUR) * HOUR - count * HOUR;
+  return Array.from({ length: count }, (_, i) => ({
+    time: new Date(first + i * HOUR),
+    open: 2000 + i,
+    high: 2002.5 + i,
+    low: 1999.25 + i,
+    close: 2001 + i,
+    volume: 100 + i,
+    symbol: SYMBOL,
+    timeframe: 'H1' as const,
+  }));
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(async () => {
+  await client?.disconnect();
+  await server?.close();
+  vi.restoreAllMocks();
+});
+
+describe('CTraderClient', () => {
+  it('authorizes the account and maps symbols and account state', async () => {
+    await start({ balance: 2500 });
+    await client.connect();
+
+    expect(client.isConnectionActive()).toBe(true);
+    expect(requestsOf(PayloadType.APPLICATION_AUTH_REQ)).toEqual([{ clientId: 'client', clientSecret: 'secret' }]);
+    expect(await client.getAccountInfo()).toEqual({
+      balance: 2500,
+      equity: 2500,
+      margin: 0,
+      freeMargin: 2500,
+      marginLevel: undefined,
+      leverage: 100,
+      currency: 'USD',
+    });
+
+    // Suffix stripped
+    expect(await client.getSymbolInfo(SYMBOL)).toMatchObject({
+      symbol: SYMBOL,
+      digits: 2,
+      contractSize: 100,
+      minVolume: 0.01,
+      maxVolume: 100,
+      volumeStep: 0.01,
+      tickSize: 0.01,
+      baseCurrency: 'XAU',
+      profitCurrency: 'USD',
+    });
+    // Symbol map
+    expect(await client.getSymbolInfo('EURUSDm')).toMatchObject({ symbol: 'EURUSDm', digits: 5, contractSize: 100000 });
+    await expect(client.getSymbolInfo('FOO')).rejects.toThrow('Symbol FOO not found');
+  });
+
+  it('rejects a connection to an unknown trading account', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    await start({}, { accountId: 999 });
+
+    await expect(client.connect()).rejects.toThrow(/CH_CTID_TRADER_ACCOUNT_NOT_FOUND/);
+    expect(client.isConnectionActive()).toBe(false);
+  });
+
+  it('pages historical trendbars into candles', async () => {
+    await start({ trendbarPageSize: 4 });
+    const now = Date.now();
+    server.setTrendbars('XAUUSD', TrendbarPeriod.H1, hourBars(10, now));
+    await client.connectAccountOnly();
+
+    const candles = await client.getHistoricalCandles(SYMBOL, 'H1', new Date(now - 12 * HOUR), new Date(now));
+    expect(candles).toHaveLength(10);
+    expect(candles[0]).toEqual({ ...hourBars(10, now)[0] });
+    expect(requestsOf(PayloadType.GET_TRENDBARS_REQ).length).toBeGreaterThanOrEqual(3);
+
+    const latest = await client.getCandles(SYMBOL, 'H1', 3);
+    expect(latest.map((c) => c.close)).toEqual([2008, 2009, 2010]);
+  });
+
+  it('places market orders with relative stops and pins exact levels', async () => {
+    await start();
+    server.pushPrice('XAUUSD', 2000, 2000.2);
+    await client.connect();
+
+    const updates: PositionUpdate[][] = [];
+    client.addEventListener({ onPositionUpdate: (positions) => updates.push(positions) });
+
+    // Not streamed yet: the quote is fetched first, so the stops ride on the order as distances
+    const first = await client.placeMarketOrder(SYMBOL, 'BUY', 0.16, 1997.2, 2006.2);
+    const [order] = requestsOf(PayloadType.NEW_ORDER_REQ);
+    expect(order).toMatchObject({
+      symbolId: 41,
+      orderType: 1,
+      tradeSide: 1,
+      volume: 1600,
+      relativeStopLoss: 300000,
+      relativeTakeProfit: 600000,
+      comment: 'SMC Bot Trade',
+    });
+    expect(order.stopLoss).toBeUndefined();
+    expect(requestsOf(PayloadType.SUBSCRIBE_SPOTS_REQ)).toHaveLength(1);
+    expect(requestsOf(PayloadType.AMEND_POSITION_SLTP_REQ)).toHaveLength(0);
+
+    // A level the relative distance lands off is amended after the fill
+    const second = await client.placeMarketOrder(SYMBOL, 'SELL', 0.1, 2003.005, 1994);
+    expect(requestsOf(PayloadType.NEW_ORDER_REQ)[1]).toMatchObject({ relativeStopLoss: 300500, relativeTakeProfit: 600000 });
+    expect(requestsOf(PayloadType.AMEND_POSITION_SLTP_REQ)).toEqual([
+      { ctidTraderAccountId: 1001, positionId: Number(second.positionId), stopLoss: 2003.005, takeProfit: 1994 },
+    ]);
+
+    const positions = await client.getPositions();
+    expect(positions.map((p) => [p.id, p.type, p.volume, p.openPrice, p.stopLoss, p.takeProfit])).toEqual([
+      [first.positionId, 'BUY', 0.16, 2000.2, 1997.2, 2006.2],
+      [second.positionId, 'SELL', 0.1, 2000, 2003.005, 1994],
+    ]);
+
+    server.pushPrice('XAUUSD', 2003, 2003.2);
+    await vi.waitFor(() => expect(updates[updates.length - 1][0].currentPrice).toBe(2003));
+    expect(updates[updates.length - 1][0].profit).toBeCloseTo(44.8, 6);
+    expect((await client.getPositions())[0].profit).toBeCloseTo(44.8, 6);
+  });
+
+  it('closes a position whose stops could not be set', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    await start();
+    server.pushPrice('XAUUSD', 2000, 2000.2);
+    await client.connect();
+
+    server.failNext(PayloadType.AMEND_POSITION_SLTP_REQ, 'TRADING_BAD_STOPS');
+    await expect(client.placeMarketOrder(SYMBOL, 'BUY', 0.1, 1997.005, 2006)).rejects.toThrow(
+      /closed: stops could not be set \(cTrader TRADING_BAD_STOPS/
+    );
+    expect(requestsOf(PayloadType.CLOSE_POSITION_REQ)).toHaveLength(1);
+    await vi.waitFor(async () => expect(await client.getPositions()).toEqual([]));
+  });
+
+  it('asks the server for the margin of an order', async () => {
+    await start();
+    server.pushPrice('XAUUSD', 2000, 2000.2);
+    await client.connect();
+
+    expect(await client.calculateMargin(SYMBOL, 'BUY', 0.5)).toBe(1000.1);
+    expect(await client.calculateMargin(SYMBOL, 'SELL', 0.5)).toBe(1000);
+    expect(requestsOf(PayloadType.EXPECTED_MARGIN_REQ)[0]).toMatchObject({ symbolId: 41, volume: [5000] });
+  });
+
+  it('closes partially, moves the stop and records the server-side stop-out', async () => {
+    await start();
+    server.pushPrice('XAUUSD', 2000, 2000.2);
+    await client.connect();
+    const removed: string[] = [];
+    client.addEventListener({ onPositionUpdate: (_, removedIds) => removed.push(...removedIds) });
+
+    const { positionId } = await client.placeMarketOrder(SYMBOL, 'BUY', 0.16, 1997.2, 2006.2);
+    server.pushPrice('XAUUSD', 2003, 2003.2);
+    await client.closePositionPartially(positionId!, 0.05);
+    expect((await client.getPositions())[0].volume).toBeCloseTo(0.11, 10);
+
+    await client.modifyPosition(positionId!, 2000.7);
+    expect((await client.getPositions())[0]).toMatchObject({ stopLoss: 2000.7, takeProfit: 2006.2 });
+
+    server.pushPrice('XAUUSD', 2000.6, 2000.8);
+    await vi.waitFor(() => expect(removed).toEqual([positionId]));
+
+    const deals = client.getDealsByPosition(positionId!);
+    expect(deals.map((d) => [d.type, d.entryType, d.volume, d.symbol])).toEqual([
+      ['DEAL_TYPE_BUY', 'DEAL_ENTRY_IN', 0.16, SYMBOL],
+      ['DEAL_TYPE_SELL', 'DEAL_ENTRY_OUT', 0.05, SYMBOL],
+      ['DEAL_TYPE_SELL', 'DEAL_ENTRY_OUT', 0.11, SYMBOL],
+    ]);
+    expect(deals[1].profit).toBeCloseTo(14, 6);
+    expect(deals[2].profit).toBeCloseTo(5.5, 6);
+    expect(deals[2].price).toBe(2000.7);
+    expect(await client.getPositions()).toEqual([]);
+    expect((await client.getAccountInfo()).balance).toBeCloseTo(10019.5, 6);
+  });
+
+  it('tracks limit orders through cancel and fill', async () => {
+    await start();
+    server.pushPrice('XAUUSD', 2000, 2000.2);
+    await client.connect();
+    const orders: OrderUpdate[][] = [];
+    const completed: string[] = [];
+    client.addEventListener({
+      onOrderUpdate: (list, completedIds) => {
+        orders.push(list);
+        completed.push(...completedIds);
+      },
+    });
+
+    const buy = await client.placeLimitOrder(SYMBOL, 'BUY', 0.1, 1995, 1990, 2005);
+    const sell = await client.placeLimitOrder(SYMBOL, 'SELL', 0.1, 2010);
+    expect(orders[orders.length - 1].map((o) => [o.id, o.type, o.openPrice, o.volume])).toEqual([
+      [buy.orderId, 'ORDER_TYPE_BUY_LIMIT', 1995, 0.1],
+      [sell.orderId, 'ORDER_TYPE_SELL_LIMIT', 2010, 0.1],
+    ]);
+
+    await client.cancelOrder(sell.orderId);
+    expect(completed).toEqual([sell.orderId]);
+
+    server.pushPrice('XAUUSD', 1994.8, 1995);
+    await vi.waitFor(() => expect(completed).toEqual([sell.orderId, buy.orderId]));
+    const [position] = await client.getPositions();
+    expect(position).toMatchObject({ type: 'BUY', volume: 0.1, openPrice: 1995, stopLoss: 1990, takeProfit: 2005 });
+  });
+
+  it('streams quotes and emits a candle when its live trendbar closes', async () => {
+    await start();
+    await client.connect();
+    const candles: CandleUpdate[] = [];
+    const bids: number[] = [];
+    client.addEventListener({
+      onCandleUpdate: (update) => candles.push(...update),
+      onPriceUpdate: (_, price) => bids.push(price.bid),
+    });
+
+    await client.subscribeToMarketData(SYMBOL, [{ type: 'quotes' }, { type: 'candles', timeframe: '1m' }]);
+    const minute = Math.floor(Date.now() / MINUTE) * MINUTE;
+    server.pushPrice('XAUUSD', 2000, 2000.2, new Date(minute + 10_000));
+    server.pushPrice('XAUUSD', 2001.5, 2001.7, new Date(minute + 20_000));
+    server.pushPrice('XAUUSD', 2001, 2001.2, new Date(minute + 30_000));
+    server.pushPrice('XAUUSD', 1999, 1999.2, new Date(minute + MINUTE + 5_000));
+
+    await vi.waitFor(() => expect(candles).toHaveLength(1));
+    expect(candles[0]).toMatchObject({
+      symbol: SYMBOL,
+      timeframe: '1m',
+      time: new Date(minute),
+      open: 2000,
+      high: 2001.5,
+      low: 2000,
+      close: 2001,
+    });
+    expect(bids).toEqual([2000, 2001.5, 2001, 1999]);
+
+    await client.unsubscribeFromMarketData(SYMBOL);
+    expect(requestsOf(PayloadType.UNSUBSCRIBE_LIVE_TRENDBAR_REQ)).toEqual([
+      { ctidTraderAccountId: 1001, period: TrendbarPeriod.M1, symbolId: 41 },
+    ]);
+    expect(requestsOf(PayloadType.UNSUBSCRIBE_SPOTS_REQ)).toHaveLength(1);
+  });
+
+  it('surfaces server and order errors', async () => {
+    await start();
+    await client.connect();
+
+    server.failNext(PayloadType.TRADER_REQ, 'INTERNAL_ERROR');
+    await expect(client.getAccountInfo()).rejects.toThrow('cTrader INTERNAL_ERROR: Mock failure');
+    await expect(client.placeMarketOrder('EURUSDm', 'BUY', 0.1)).rejects.toThrow(/MARKET_CLOSED/);
+    await expect(client.closePosition('999')).rejects.toThrow('Position 999 not found');
+  });
+
+  it('summarizes deposits from history and live balance events', async () => {
+    await start();
+    server.deposit(500, 'Initial deposit', new Date(Date.now() - 10 * 24 * HOUR));
+    await client.connect();
+
+    server.deposit(-200, 'Payout');
+    await vi.waitFor(async () => expect(await client.getAllDeals()).toHaveLength(2));
+
+    const summary = await client.getAccountDealsSummary();
+    expect(summary).toMatchObject({ deposits: 500, withdrawals: 200, tradingProfit: 0, dealCount: 2 });
+    expect(summary.operations.map((o) => o.comment)).toEqual(['Initial deposit', 'Payout']);
+    expect(await client.getHistoricalDeals()).toEqual([]);
+  });
+
+  it('merges paged bid and ask tick history into quotes', async () => {
+    await start({ tickPageSize: 2 });
+    const base = Math.floor(Date.now() / HOUR) * HOUR - 2 * HOUR;
+    const ticks: Tick[] = [0, 1, 2, 3, 4].map((i) => ({
+      time: new Date(base + i * 1000),
+      bid: 2000 + i * 0.11,
+      ask: 2000.2 + i * 0.11,
+      symbol: SYMBOL,
+    }));
+    server.setTicks('XAUUSD', ticks);
+    await client.connectAccountOnly();
+
+    const result = await client.getHistoricalTicks(SYMBOL, new Date(base - HOUR), new Date(base + HOUR));
+    expect(result.map((t) => [t.time.getTime(), t.bid, t.ask])).toEqual(
+      ticks.map((t) => [t.time.getTime(), expect.closeTo(t.bid, 6), expect.closeTo(t.ask, 6)])
+    );
+    expect(requestsOf(PayloadType.GET_TICKDATA_REQ)).toHaveLength(6);
+  });
+
+  it('reconnects after the server drops the connection', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    await start();
+    server.pushPrice('XAUUSD', 2000, 2000.2);
+    await client.connect();
+    const { positionId } = await client.placeMarketOrder(SYMBOL, 'BUY', 0.1);
+
+    const events: string[] = [];
+    client.addEventListener({
+      onDisconnected: () => events.push('disconnected'),
+      onConnected: () => events.push('connected'),
+    });
+
+    server.dropConnections();
+    await vi.waitFor(() => expect(events).toEqual(['disconnected', 'connected']));
+
+    expect(client.isConnectionActive()).toBe(true);
+    expect((await client.getPositions()).map((p) => p.id)).toEqual([positionId]);
+    await client.closePosition(positionId!);
+    expect(await client.getPositions()).toEqual([]);
+  });
+});
@@ -0,0 +1,760 @@
+import * as net from 'net';
+import { Candle, Tick } from '../../types';
+import {
+  CashFlowOperation,
+  decodeFrames,
+  DealStatus,
+  encodeFrame,
+  ExecutionType,
+  Frame,
+  OrderStatus,
+  OrderType,
+  PayloadType,
+  PositionStatus,
+  PRICE_SCALE,
+  ProtoObject,
+  TradeSide,
+  TrendbarPeriod,
+} from '../proto';
+
+/**
+ * Mock cTrader Open API Server
+ * A plain-TCP stand-in for the Open API proxy, for testing CTraderClient without a broker.
+ * One trading account with a few symbols: market orders fill at the pushed quote, limit
+ * orders and SL/TP trigger on pushPrice(), and history requests page like the real server.
+ * Profit is booked in the symbol's quote currency, which is assumed to be the deposit currency.
+ */
+
+export interface MockSymbol {
+  id: number;
+  name: string;
+  baseAsset: string;
+  quoteAsset: string;
+  digits: number;
+  /** Volume of one lot, in cents of units */
+  lotSize: number;
+}
+
+export interface MockCTraderServerOptions {
+  accountId?: number; // Default: 1001
+  /** Starting balance in the deposit currency (default 10000) */
+  balance?: number;
+  symbols?: MockSymbol[];
+  /** Ticks per GET_TICKDATA page (default 1000) */
+  tickPageSize?: number;
+  /** Bars per GET_TRENDBARS page (default 5000) */
+  trendbarPageSize?: number;
+}
+
+const DEFAULT_SYMBOLS: MockSymbol[] = [
+  { id: 1, name: 'EURUSD', baseAsset: 'EUR', quoteAsset: 'USD', digits: 5, lotSize: 10000000 },
+  { id: 41, name: 'XAUUSD', baseAsset: 'XAU', quoteAsset: 'USD', digits: 2, lotSize: 10000 },
+];
+
+const DEPOSIT_ASSET = 'USD';
+const MONEY_DIGITS = 2;
+const LEVERAGE = 100;
+
+const PERIOD_MINUTES: Record<number, number> = {
+  [TrendbarPeriod.M1]: 1,
+  [TrendbarPeriod.M5]: 5,
+  [TrendbarPeriod.M15]: 15,
+  [TrendbarPeriod.M30]: 30,
+  [TrendbarPeriod.H1]: 60,
+  [TrendbarPeriod.H4]: 240,
+  [TrendbarPeriod.D1]: 1440,
+  [TrendbarPeriod.W1]: 10080,
+};
+
+interface Session {
+  socket: net.Socket;
+  buffer: Buffer;
+  spots: Set<number>;
+  trendbars: Set<string>; // `${symbolId}:${period}`
+}
+
+interface StoredQuote {
+  time: number;
+  price: number; // Scaled by PRICE_SCALE
+}
+
+export class MockCTraderServer {
+  /** Every request received, in order */
+  readonly requests: Frame[] = [];
+
+  private server: net.Server;
+  private sessions: Set<Session> = new Set();
+  private accountId: number;
+  private balance: number; // In cents
+  private symbols: MockSymbol[];
+  private tickPageSize: number;
+  private trendbarPageSize: number;
+  private nextId = 1;
+  private clock: number = Date.now();
+
+  private prices: Map<number, { bid: number; ask: number }> = new Map();
+  private positions: Map<number, ProtoObject> = new Map();
+  private orders: Map<number, ProtoObject> = new Map();
+  private deals: ProtoObject[] = [];
+  private cashFlow: ProtoObject[] = [];
+  private storedTrendbars: Map<string, ProtoObject[]> = new Map();
+  private liveBars: Map<string, ProtoObject> = new Map();
+  private ticks: Map<string, StoredQuote[]> = new Map(); // `${symbolId}:${quoteType}`, oldest first
+  private failures: Map<number, string> = new Map();
+
+  constructor(options: MockCTraderServerOptions = {}) {
+    this.accountId = options.accountId ?? 1001;
+    this.balance = Math.round((options.balance ?? 10000) * 100);
+    this.symbols = options.symbols ?? DEFAULT_SYMBOLS;
+    this.tickPageSize = options.tickPageSize ?? 1000;
+    this.trendbarPageSize = options.trendbarPageSize ?? 5000;
+    this.server = net.createServer((socket) => this.accept(socket));
+  }
+
+  // ============================================
+  // Control
+  // ============================================
+
+  /**
+   * Start listening on 127.0.0.1
+   * @returns the port (a free one when port is 0)
+   */
+  listen(port: number = 0): Promise<number> {
+    return new Promise((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(port, '127.0.0.1', () => {
+        this.server.off('error', reject);
+        resolve((this.server.address() as net.AddressInfo).port);
+      });
+    });
+  }
+
+  close(): Promise<void> {
+    this.dropConnections();
+    return new Promise((resolve) => this.server.close(() => resolve()));
+  }
+
+  /** Cut every client connection, as a server restart would */
+  dropConnections(): void {
+    for (const session of this.sessions) session.socket.destroy();
+    this.sessions.clear();
+  }
+
+  /** Answer the next request of this type with an OA error */
+  failNext(payloadType: number, errorCode: string): void {
+    this.failures.set(payloadType, errorCode);
+  }
+
+  /** Historical bars served by GET_TRENDBARS */
+  setTrendbars(symbol: string, period: number, candles: Candle[]): void {
+    const symbolId = this.symbol(symbol).id;
+    this.storedTrendbars.set(
+      `${symbolId}:${period}`,
+      candles.map((c) => this.toTrendbar(period, c.time.getTime(), c.open, c.high, c.low, c.close, c.volume))
+    );
+  }
+
+  /** Historical quotes served by GET_TICKDATA, one list per side */
+  setTicks(symbol: string, ticks: Tick[]): void {
+    const symbolId = this.symbol(symbol).id;
+    const sorted = [...ticks].sort((a, b) => a.time.getTime() - b.time.getTime());
+    this.ticks.set(`${symbolId}:1`, sorted.map((t) => ({ time: t.time.getTime(), price: Math.round(t.bid * PRICE_SCALE) })));
+    this.ticks.set(`${symbolId}:2`, sorted.map((t) => ({ time: t.time.getTime(), price: Math.round(t.ask * PRICE_SCALE) })));
+  }
+
+  /** Balance operation, pushed to connected clients and kept in the cash flow history */
+  deposit(amount: number, note?: string, time: Date = new Date(this.clock)): void {
+    const delta = Math.round(Math.abs(amount) * 100);
+    this.balance += amount < 0 ? -delta : delta;
+    const operation = {
+      operationType: amount < 0 ? CashFlowOperation.WITHDRAW : CashFlowOperation.DEPOSIT,
+      balanceHistoryId: this.nextId++,
+      balance: this.balance,
+      delta,
+      changeBalanceTimestamp: time.getTime(),
+      externalNote: note,
+      moneyDigits: MONEY_DIGITS,
+    };
+    this.cashFlow.push(operation);
+    this.broadcast(PayloadType.EXECUTION_EVENT, {
+      executionType: ExecutionType.DEPOSIT_WITHDRAW,
+      depositWithdraw: operation,
+    });
+  }
+
+  /**
+   * New quote: streamed to spot subscribers with their live bars, then pending orders and
+   * SL/TP levels are checked against it
+   */
+  pushPrice(symbol: string, bid: number, ask: number, time: Date = new Date()): void {
+    const entry = this.symbol(symbol);
+    this.clock = time.getTime();
+    this.prices.set(entry.id, { bid, ask });
+
+    for (const [key, bar] of this.liveBars) {
+      if (Number(key.split(':')[0]) === entry.id) this.liveBars.set(key, this.updateLiveBar(bar, bid));
+    }
+
+    for (const session of this.sessions) {
+      if (!session.spots.has(entry.id)) continue;
+      const trendbar = Array.from(session.trendbars)
+        .filter((key) => Number(key.split(':')[0]) === entry.id)
+        .map((key) => this.liveBar(key, bid));
+      this.write(session, PayloadType.SPOT_EVENT, {
+        ctidTraderAccountId: this.accountId,
+        symbolId: entry.id,
+        bid: Math.round(bid * PRICE_SCALE),
+        ask: Math.round(ask * PRICE_SCALE),
+        trendbar,
+        timestamp: this.clock,
+      });
+    }
+
+    for (const order of Array.from(this.orders.values())) {
+      if (order.tradeData.symbolId !== entry.id) continue;
+      const isBuy = order.tradeData.tradeSide === TradeSide.BUY;
+      if (isBuy ? ask <= order.limitPrice : bid >= order.limitPrice) this.fillLimit(order);
+    }
+
+    for (const position of Array.from(this.positions.values())) {
+      if (position.tradeData.symbolId !== entry.id) continue;
+      const isBuy = position.tradeData.tradeSide === TradeSide.BUY;
+      const price = isBuy ? bid : ask;
+      const { stopLoss, takeProfit } = position;
+      if (stopLoss !== undefined && (isBuy ? price <= stopLoss : price >= stopLoss)) {
+        this.closeVolume(position, position.tradeData.volume, stopLoss);
+      } else if (takeProfit !== undefined && (isBuy ? price >= takeProfit : price <= takeProfit)) {
+        this.closeVolume(position, position.tradeData.volume, takeProfit);
+      }
+    }
+  }
+
+  // ============================================
+  // Connections
+  // ============================================
+
+  private accept(socket: net.Socket): void {
+    const session: Session = { socket, buffer: Buffer.alloc(0), spots: new Set(), trendbars: new Set() };
+    this.sessions.add(session);
+
+    socket.on('data', (chunk: Buffer) => {
+      session.buffer = Buffer.concat([session.buffer, chunk]);
+      const { frames, rest } = decodeFrames(session.buffer);
+      session.buffer = Buffer.from(rest);
+      for (const frame of frames) this.handle(session, frame);
+    });
+    socket.on('error', () => socket.destroy());
+    socket.on('close', () => this.sessions.delete(session));
+  }
+
+  private write(session: Session, payloadType: number, message: ProtoObject, clientMsgId?: string): void {
+    if (!session.socket.destroyed) session.socket.write(encodeFrame(payloadType, message, clientMsgId));
+  }
+
+  /** Account event: tagged with the request's clientMsgId for the session that caused it */
+  private broadcast(payloadType: number, message: ProtoObject, origin?: Session, clientMsgId?: string): void {
+    for (const session of this.sessions) {
+      this.write(
+        session,
+        payloadType,
+        { ctidTraderAccountId: this.accountId, ...message },
+        session === origin ? clientMsgId : undefined
+      );
+    }
+  }
+
+  // ============================================
+  // Requests
+  // ============================================
+
+  private handle(session: Session, frame: Frame): void {
+    const { payloadType, message, clientMsgId } = frame;
+    if (payloadType === PayloadType.HEARTBEAT_EVENT) return;
+    this.requests.push(frame);
+
+    const reply = (type: number, body: ProtoObject = {}) =>
+      this.write(session, type, { ctidTraderAccountId: this.accountId, ...body }, clientMsgId);
+    const orderError = (errorCode: string, description?: string) =>
+      reply(PayloadType.ORDER_ERROR_EVENT, { errorCode, description });
+
+    const failure = this.failures.get(payloadType);
+    if (failure) {
+      this.failures.delete(payloadType);
+      reply(PayloadType.OA_ERROR_RES, { errorCode: failure, description: 'Mock failure' });
+      return;
+    }
+
+    if (
+      message.ctidTraderAccountId !== undefined &&
+      message.ctidTraderAccountId !== this.accountId &&
+      payloadType !== PayloadType.APPLICATION_AUTH_REQ
+    ) {
+      reply(PayloadType.OA_ERROR_RES, {
+        errorCode: 'CH_CTID_TRADER_ACCOUNT_NOT_FOUND',
+        description: `Trading account ${message.ctidTraderAccountId} not found`,
+      });
+      return;
+    }
+
+    switch (payloadType) {
+      case PayloadType.APPLICATION_AUTH_REQ:
+        this.write(session, PayloadType.APPLICATION_AUTH_RES, {}, clientMsgId);
+        break;
+      case PayloadType.ACCOUNT_AUTH_REQ:
+        reply(PayloadType.ACCOUNT_AUTH_RES);
+        break;
+      case PayloadType.ASSET_LIST_REQ:
+        reply(PayloadType.ASSET_LIST_RES, { asset: this.assets() });
+        break;
+      case PayloadType.SYMBOLS_LIST_REQ:
+        reply(PayloadType.SYMBOLS_LIST_RES, {
+          symbol: this.symbols.map((s) => ({
+            symbolId: s.id,
+            symbolName: s.name,
+            enabled: true,
+            baseAssetId: this.assetId(s.baseAsset),
+            quoteAssetId: this.assetId(s.quoteAsset),
+            description: `${s.baseAsset} vs ${s.quoteAsset}`,
+          })),
+        });
+        break;
+      case PayloadType.SYMBOL_BY_ID_REQ:
+        reply(PayloadType.SYMBOL_BY_ID_RES, {
+          symbol: this.symbols
+            .filter((s) => message.symbolId.includes(s.id))
+            .map((s) => ({
+              symbolId: s.id,
+              digits: s.digits,
+              pipPosition: s.digits - 1,
+              minVolume: s.lotSize / 100,
+              maxVolume: s.lotSize * 100,
+              stepVolume: s.lotSize / 100,
+              lotSize: s.lotSize,
+            })),
+        });
+        break;
+      case PayloadType.TRADER_REQ:
+        reply(PayloadType.TRADER_RES, { trader: this.trader() });
+        break;
+      case PayloadType.RECONCILE_REQ:
+        reply(PayloadType.RECONCILE_RES, {
+          position: Array.from(this.positions.values()),
+          order: Array.from(this.orders.values()),
+        });
+        break;
+      case PayloadType.DEAL_LIST_REQ:
+        reply(PayloadType.DEAL_LIST_RES, {
+          deal: this.deals.filter((d) => this.inRange(d.executionTimestamp, message)),
+          hasMore: false,
+        });
+        break;
+      case PayloadType.CASH_FLOW_HISTORY_LIST_REQ:
+        reply(PayloadType.CASH_FLOW_HISTORY_LIST_RES, {
+          depositWithdraw: this.cashFlow.filter((c) => this.inRange(c.changeBalanceTimestamp, message)),
+        });
+        break;
+      case PayloadType.GET_TRENDBARS_REQ: {
+        const bars = (this.storedTrendbars.get(`${message.symbolId}:${message.period}`) ?? []).filter((b) =>
+          this.inRange(b.utcTimestampInMinutes * 60000, message)
+        );
+        reply(PayloadType.GET_TRENDBARS_RES, {
+          period: message.period,
+          symbolId: message.symbolId,
+          trendbar: bars.slice(0, this.trendbarPageSize),
+          hasMore: bars.length > this.trendbarPageSize,
+        });
+        break;
+      }
+      case PayloadType.GET_TICKDATA_REQ: {
+        // Newest first; the first tick is absolute and the rest are deltas from the one before
+        const quotes = (this.ticks.get(`${message.symbolId}:${message.type}`) ?? [])
+          .filter((q) => this.inRange(q.time, message))
+          .reverse();
+        const page = quotes.slice(0, this.tickPageSize);
+        reply(PayloadType.GET_TICKDATA_RES, {
+          tickData: page.map((q, i) =>
+            i === 0
+              ? { timestamp: q.time, tick: q.price }
+              : { timestamp: q.time - page[i - 1].time, tick: q.price - page[i - 1].price }
+          ),
+          hasMore: quotes.length > page.length,
+        });
+        break;
+      }
+      case PayloadType.SUBSCRIBE_SPOTS_REQ:
+        for (const id of message.symbolId) session.spots.add(id);
+        reply(PayloadType.SUBSCRIBE_SPOTS_RES);
+        // The current quote follows a subscription
+        for (const id of message.symbolId) {
+          const price = this.prices.get(id);
+          if (!price) continue;
+          reply(PayloadType.SPOT_EVENT, {
+            symbolId: id,
+            bid: Math.round(price.bid * PRICE_SCALE),
+            ask: Math.round(price.ask * PRICE_SCALE),
+            timestamp: this.clock,
+          });
+        }
+        break;
+      case PayloadType.UNSUBSCRIBE_SPOTS_REQ:
+        for (const id of message.symbolId) session.spots.delete(id);
+        reply(PayloadType.UNSUBSCRIBE_SPOTS_RES);
+        break;
+      case PayloadType.SUBSCRIBE_LIVE_TRENDBAR_REQ:
+        if (!session.spots.has(message.symbolId)) {
+          reply(PayloadType.OA_ERROR_RES, { errorCode: 'INVALID_REQUEST', description: 'Subscribe to spots first' });
+          break;
+        }
+        session.trendbars.add(`${message.symbolId}:${message.period}`);
+        reply(PayloadType.SUBSCRIBE_LIVE_TRENDBAR_RES);
+        break;
+      case PayloadType.UNSUBSCRIBE_LIVE_TRENDBAR_REQ:
+        session.trendbars.delete(`${message.symbolId}:${message.period}`);
+        reply(PayloadType.UNSUBSCRIBE_LIVE_TRENDBAR_RES);
+        break;
+      case PayloadType.GET_POSITION_UNREALIZED_PNL_REQ:
+        reply(PayloadType.GET_POSITION_UNREALIZED_PNL_RES, {
+          positionUnrealizedPnL: Array.from(this.positions.values()).map((p) => {
+            const pnl = this.unrealized(p);
+            return { positionId: p.positionId, grossUnrealizedPnL: pnl, netUnrealizedPnL: pnl };
+          }),
+          moneyDigits: MONEY_DIGITS,
+        });
+        break;
+      case PayloadType.EXPECTED_MARGIN_REQ: {
+        const price = this.prices.get(message.symbolId);
+        if (!price) {
+          reply(PayloadType.OA_ERROR_RES, { errorCode: 'MARKET_CLOSED', description: 'No quotes for the symbol' });
+          break;
+        }
+        reply(PayloadType.EXPECTED_MARGIN_RES, {
+          margin: message.volume.map((volume: number) => ({
+            volume,
+            buyMargin: this.margin(volume, price.ask),
+            sellMargin: this.margin(volume, price.bid),
+          })),
+          moneyDigits: MONEY_DIGITS,
+        });
+        break;
+      }
+      case PayloadType.NEW_ORDER_REQ:
+        this.newOrder(session, message, clientMsgId, orderError);
+        break;
+      case PayloadType.CANCEL_ORDER_REQ: {
+        const order = this.orders.get(message.orderId);
+        if (!order) {
+          orderError('OA_ORDER_NOT_FOUND', `Order ${message.orderId} not found`);
+          break;
+        }
+        this.orders.delete(message.orderId);
+        order.orderStatus = OrderStatus.CANCELLED;
+        this.broadcast(PayloadType.EXECUTION_EVENT, { executionType: ExecutionType.ORDER_CANCELLED, order }, session, clientMsgId);
+        break;
+      }
+      case PayloadType.AMEND_POSITION_SLTP_REQ: {
+        const position = this.positions.get(message.positionId);
+        if (!position) {
+          orderError('POSITION_NOT_FOUND', `Position ${message.positionId} not found`);
+          break;
+        }
+        position.stopLoss = message.stopLoss;
+        position.takeProfit = message.takeProfit;
+        this.broadcast(
+          PayloadType.EXECUTION_EVENT,
+          { executionType: ExecutionType.ORDER_REPLACED, position },
+          session,
+          clientMsgId
+        );
+        break;
+      }
+      case PayloadType.CLOSE_POSITION_REQ: {
+        const position = this.positions.get(message.positionId);
+        if (!position) {
+          orderError('POSITION_NOT_FOUND', `Position ${message.positionId} not found`);
+          break;
+        }
+        if (message.volume > position.tradeData.volume) {
+          orderError('TRADING_BAD_VOLUME', 'Volume exceeds the position');
+          break;
+        }
+        const price = this.prices.get(position.tradeData.symbolId)!;
+        const exit = position.tradeData.tradeSide === TradeSide.BUY ? price.bid : price.ask;
+        this.closeVolume(position, message.volume, exit, session, clientMsgId);
+        break;
+      }
+      default:
+        reply(PayloadType.OA_ERROR_RES, { errorCode: 'UNSUPPORTED_MESSAGE', description: `Payload ${payloadType}` });
+    }
+  }
+
+  private newOrder(
+    session: Session,
+    message: ProtoObject,
+    clientMsgId: string | undefined,
+    orderError: (errorCode: string, description?: string) => void
+  ): void {
+    const entry = this.symbols.find((s) => s.id === message.symbolId);
+    if (!entry) {
+      orderError('SYMBOL_NOT_FOUND', `Symbol ${message.symbolId} not found`);
+      return;
+    }
+    if (!message.volume || message.volume % (entry.lotSize / 100) !== 0) {
+      orderError('TRADING_BAD_VOLUME', `Invalid volume ${message.volume}`);
+      return;
+    }
+
+    const tradeData = {
+      symbolId: entry.id,
+      volume: message.volume,
+      tradeSide: message.tradeSide,
+      openTimestamp: this.clock,
+      comment: message.comment,
+      label: message.label,
+    };
+    const order: ProtoObject = {
+      orderId: this.nextId++,
+      tradeData,
+      orderType: message.orderType,
+      orderStatus: OrderStatus.ACCEPTED,
+      limitPrice: message.limitPrice,
+      stopLoss: message.stopLoss,
+      takeProfit: message.takeProfit,
+      utcLastUpdateTimestamp: this.clock,
+    };
+
+    if (message.orderType === OrderType.LIMIT) {
+      this.orders.set(order.orderId, order);
+      this.broadcast(PayloadType.EXECUTION_EVENT, { executionType: ExecutionType.ORDER_ACCEPTED, order }, session, clientMsgId);
+      return;
+    }
+
+    if (message.stopLoss !== undefined || message.takeProfit !== undefined) {
+      orderError('TRADING_BAD_STOPS', 'SL/TP in absolute values are allowed only for order types: [LIMIT, STOP, STOP_LIMIT]');
+      return;
+    }
+    const price = this.prices.get(entry.id);
+    if (!price) {
+      orderError('MARKET_CLOSED', 'No quotes for the symbol');
+      return;
+    }
+
+    const isBuy = message.tradeSide === TradeSide.BUY;
+    const fill = isBuy ? price.ask : price.bid;
+    const level = (distance: number | undefined, sign: number) =>
+      distance ? this.round(entry, fill + (sign * distance) / PRICE_SCALE) : undefined;
+    const position = this.open(
+      order,
+      fill,
+      level(message.relativeStopLoss, isBuy ? -1 : 1),
+      level(message.relativeTakeProfit, isBuy ? 1 : -1)
+    );
+
+    this.broadcast(
+      PayloadType.EXECUTION_EVENT,
+      { executionType: ExecutionType.ORDER_ACCEPTED, order, position: { ...position, positionStatus: PositionStatus.CREATED } },
+      session,
+      clientMsgId
+    );
+    this.fill(order, position, fill, session, clientMsgId);
+  }
+
+  // ============================================
+  // Execution
+  // ============================================
+
+  private fillLimit(order: ProtoObject): void {
+    this.orders.delete(order.orderId);
+    const position = this.open(order, order.limitPrice, order.stopLoss, order.takeProfit);
+    this.fill(order, position, order.limitPrice);
+  }
+
+  private open(order: ProtoObject, price: number, stopLoss?: number, takeProfit?: number): ProtoObject {
+    const position: ProtoObject = {
+      positionId: this.nextId++,
+      tradeData: { ...order.tradeData, openTimestamp: this.clock },
+      positionStatus: PositionStatus.OPEN,
+      swap: 0,
+      price,
+      stopLoss,
+      takeProfit,
+      utcLastUpdateTimestamp: this.clock,
+      commission: 0,
+      usedMargin: this.margin(order.tradeData.volume, price),
+      moneyDigits: MONEY_DIGITS,
+    };
+    order.positionId = position.positionId;
+    this.positions.set(position.positionId, position);
+    return position;
+  }
+
+  private fill(order: ProtoObject, position: ProtoObject, price: number, origin?: Session, clientMsgId?: string): void {
+    order.orderStatus = OrderStatus.FILLED;
+    order.executionPrice = price;
+    order.executedVolume = order.tradeData.volume;
+    const deal = this.deal(order, position, price, order.tradeData.volume, order.tradeData.tradeSide);
+    this.broadcast(
+      PayloadType.EXECUTION_EVENT,
+      { executionType: ExecutionType.ORDER_FILLED, order, position, deal },
+      origin,
+      clientMsgId
+    );
+  }
+
+  /** Close some or all of a position at a price and book the profit */
+  private closeVolume(position: ProtoObject, volume: number, price: number, origin?: Session, clientMsgId?: string): void {
+    const isBuy = position.tradeData.tradeSide === TradeSide.BUY;
+    const grossProfit = Math.round(((isBuy ? price - position.price : position.price - price) * volume) / 100 * 100);
+    this.balance += grossProfit;
+
+    const remaining = position.tradeData.volume - volume;
+    position.tradeData = { ...position.tradeData, volume: remaining };
+    position.utcLastUpdateTimestamp = this.clock;
+    if (remaining === 0) {
+      position.positionStatus = PositionStatus.CLOSED;
+      this.positions.delete(position.positionId);
+    }
+
+    const side = isBuy ? TradeSide.SELL : TradeSide.BUY;
+    const order: ProtoObject = {
+      orderId: this.nextId++,
+      tradeData: { ...position.tradeData, volume, tradeSide: side },
+      orderType: OrderType.MARKET,
+      orderStatus: OrderStatus.FILLED,
+      executionPrice: price,
+      executedVolume: volume,
+      closingOrder: true,
+      positionId: position.positionId,
+    };
+    const deal = this.deal(order, position, price, volume, side, {
+      entryPrice: position.price,
+      grossProfit,
+      swap: 0,
+      commission: 0,
+      balance: this.balance,
+      closedVolume: volume,
+      moneyDigits: MONEY_DIGITS,
+    });
+
+    this.broadcast(
+      PayloadType.EXECUTION_EVENT,
+      { executionType: ExecutionType.ORDER_FILLED, order, position, deal },
+      origin,
+      clientMsgId
+    );
+  }
+
+  private deal(
+    order: ProtoObject,
+    position: ProtoObject,
+    price: number,
+    volume: number,
+    tradeSide: number,
+    closePositionDetail?: ProtoObject
+  ): ProtoObject {
+    const deal = {
+      dealId: this.nextId++,
+      orderId: order.orderId,
+      positionId: position.positionId,
+      volume,
+      filledVolume: volume,
+      symbolId: position.tradeData.symbolId,
+      createTimestamp: this.clock,
+      executionTimestamp: this.clock,
+      executionPrice: price,
+      tradeSide,
+      dealStatus: DealStatus.FILLED,
+      commission: 0,
+      closePositionDetail,
+      moneyDigits: MONEY_DIGITS,
+    };
+    this.deals.push(deal);
+    return deal;
+  }
+
+  // ============================================
+  // Helpers
+  // ============================================
+
+  private symbol(name: string): MockSymbol {
+    const entry = this.symbols.find((s) => s.name === name);
+    if (!entry) throw new Error(`Mock symbol ${name} not configured`);
+    return entry;
+  }
+
+  private assets(): ProtoObject[] {
+    const names = Array.from(new Set([DEPOSIT_ASSET, ...this.symbols.flatMap((s) => [s.baseAsset, s.quoteAsset])]));
+    return names.map((name, i) => ({ assetId: i + 1, name, displayName: name, digits: 2 }));
+  }
+
+  private assetId(name: string): number {
+    return this.assets().find((a) => a.name === name)!.assetId;
+  }
+
+  /** Margin for a volume in cents of units, in money units */
+  private margin(volume: number, price: number): number {
+    return Math.round(((volume / 100) * price * 100) / LEVERAGE);
+  }
+
+  private trader(): ProtoObject {
+    return {
+      ctidTraderAccountId: this.accountId,
+      balance: this.balance,
+      depositAssetId: this.assetId(DEPOSIT_ASSET),
+      leverageInCents: LEVERAGE * 100,
+      moneyDigits: MONEY_DIGITS,
+    };
+  }
+
+  private unrealized(position: ProtoObject): number {
+    const price = this.prices.get(position.tradeData.symbolId);
+    if (!price) return 0;
+    const isBuy = position.tradeData.tradeSide === TradeSide.BUY;
+    const move = isBuy ? price.bid - position.price : position.price - price.ask;
+    return Math.round(((move * position.tradeData.volume) / 100) * 100);
+  }
+
+  private inRange(time: number, message: ProtoObject): boolean {
+    return time >= (message.fromTimestamp ?? 0) && time <= (message.toTimestamp ?? Infinity);
+  }
+
+  private round(entry: MockSymbol, price: number): number {
+    return Number(price.toFixed(entry.digits));
+  }
+
+  private toTrendbar(period: number, time: number, open: number, high: number, low: number, close: number, volume = 0): ProtoObject {
+    const base = Math.round(low * PRICE_SCALE);
+    return {
+      volume,
+      period,
+      low: base,
+      deltaOpen: Math.round(open * PRICE_SCALE) - base,
+      deltaClose: Math.round(close * PRICE_SCALE) - base,
+      deltaHigh: Math.round(high * PRICE_SCALE) - base,
+      utcTimestampInMinutes: Math.floor(time / 60000),
+    };
+  }
+
+  /** The forming bar for a live trendbar subscription, opened on the bid */
+  private liveBar(key: string, bid: number): ProtoObject {
+    const period = Number(key.split(':')[1]);
+    const minutes = PERIOD_MINUTES[period] ?? 1;
+    const start = Math.floor(this.clock / 60000 / minutes) * minutes;
+    const current = this.liveBars.get(key);
+    if (current && current.utcTimestampInMinutes === start) return current;
+
+    const bar = this.toTrendbar(period, start * 60000, bid, bid, bid, bid);
+    this.liveBars.set(key, bar);
+    return bar;
+  }
+
+  private updateLiveBar(bar: ProtoObject, bid: number): ProtoObject {
+    const minutes = PERIOD_MINUTES[bar.period] ?? 1;
+    const start = Math.floor(this.clock / 60000 / minutes) * minutes;
+    if (bar.utcTimestampInMinutes !== start) return bar;
+
+    const low = bar.low / PRICE_SCALE;
+    const open = (bar.low + bar.deltaOpen) / PRICE_SCALE;
+    const high = (bar.low + bar.deltaHigh) / PRICE_SCALE;
+    return this.toTrendbar(bar.period, start * 60000, open, Math.max(high, bid), Math.min(low, bid), bid, bar.volume + 1);
+  }
+}
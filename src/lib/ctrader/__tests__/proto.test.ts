@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import {
+  decodeFrames,
+  decodeMessage,
+  encodeFrame,
+  encodeMessage,
+  MESSAGES,
+  PayloadType,
+  Schema,
+} from '../proto';
+
+describe('cTrader protobuf codec', () => {
+  it('round-trips nested, repeated and optional fields', () => {
+    const schema = MESSAGES[PayloadType.RECONCILE_RES];
+    const message = {
+      ctidTraderAccountId: 1001,
+      position: [
+        {
+          positionId: 7,
+          tradeData: { symbolId: 41, volume: 1600, tradeSide: 1, openTimestamp: 1709733600000, comment: 'SMC Bot Trade' },
+          positionStatus: 1,
+          price: 2000.25,
+          stopLoss: 1997.2,
+        },
+      ],
+      order: [],
+    };
+
+    const decoded = decodeMessage(schema, encodeMessage(schema, message));
+
+    expect(decoded).toEqual(message);
+    expect(decoded.position[0].takeProfit).toBeUndefined();
+  });
+
+  it('encodes negative int64 as ten-byte two\'s complement and decodes it back', () => {
+    const schema: Schema = { delta: [1, 'int64'] };
+    const bytes = encodeMessage(schema, { delta: -150 });
+
+    expect(bytes.length).toBe(11);
+    expect(decodeMessage(schema, bytes).delta).toBe(-150);
+  });
+
+  it('decodes packed repeated scalars and skips unknown fields', () => {
+    // symbolId 3 packed [1, 300], then unknown field 9 (varint) and 10 (length-delimited)
+    const bytes = Uint8Array.from([0x1a, 0x03, 0x01, 0xac, 0x02, 0x48, 0x05, 0x52, 0x02, 0x68, 0x69, 0x10, 0x2a]);
+    const decoded = decodeMessage(MESSAGES[PayloadType.SUBSCRIBE_SPOTS_REQ], bytes);
+
+    expect(decoded).toEqual({ symbolId: [1, 300], ctidTraderAccountId: 42 });
+  });
+
+  it('frames messages with a big-endian length prefix and splits a stream', () => {
+    const heartbeat = encodeFrame(PayloadType.HEARTBEAT_EVENT);
+    expect(Array.from(heartbeat)).toEqual([0, 0, 0, 2, 0x08, 0x33]);
+
+    const auth = encodeFrame(PayloadType.APPLICATION_AUTH_REQ, { clientId: 'id', clientSecret: 'secret' }, '5');
+    const stream = Buffer.concat([heartbeat, auth]);
+
+    const partial = decodeFrames(stream.subarray(0, stream.length - 3));
+    expect(partial.frames).toEqual([{ payloadType: PayloadType.HEARTBEAT_EVENT, message: {}, clientMsgId: undefined }]);
+    expect(partial.rest.length).toBe(auth.length - 3);
+
+    const { frames, rest } = decodeFrames(stream);
+    expect(rest.length).toBe(0);
+    expect(frames[1]).toEqual({
+      payloadType: PayloadType.APPLICATION_AUTH_REQ,
+      message: { clientId: 'id', clientSecret: 'secret' },
+      clientMsgId: '5',
+    });
+  });
+
+  it('initialises repeated fields of an empty payload', () => {
+    const { frames } = decodeFrames(encodeFrame(PayloadType.DEAL_LIST_RES));
+    expect(frames[0].message).toEqual({ deal: [] });
+  });
+});
@@ -0,0 +1,1321 @@
+import {
+  AccountInfo,
+  Candle,
+  Direction,
+  Position,
+  SymbolInfo,
+  Tick,
+  Timeframe,
+  TIMEFRAME_MAP,
+  TIMEFRAME_MINUTES,
+  TIMEFRAME_REVERSE_MAP,
+} from '../types';
+import { candleCache } from '../cache/candle-cache';
+import { tickStore } from '../cache/tick-store';
+import { getSymbolPipInfo } from '../risk/position-sizing';
+import {
+  AccountDealsSummary,
+  BrokerAdapter,
+  BrokerDeal,
+  BrokerEventCallbacks,
+  MarketDataSubscription,
+} from '../broker/types';
+import { summarizeDeals } from '../broker/deals';
+import { CandleUpdate, OrderUpdate, PositionUpdate, SymbolPrice } from '../metaapi/sync-listener';
+import { CTraderConnection } from './connection';
+import {
+  CashFlowOperation,
+  DealStatus,
+  ExecutionType,
+  Frame,
+  OrderStatus,
+  OrderType,
+  PayloadType,
+  PositionStatus,
+  PRICE_SCALE,
+  ProtoObject,
+  QuoteType,
+  TradeSide,
+  TrendbarPeriod,
+} from './proto';
+
+/**
+ * cTrader Open API Client
+ * Broker adapter for cTrader accounts over the Open API (protobuf over TCP/TLS).
+ * Positions, pending orders and deals are kept locally from the reconcile on connect and the
+ * execution events after it, the way MetaAPI's terminal state and history storage are.
+ */
+
+export interface CTraderConfig {
+  host: string; // Default: demo.ctraderapi.com (live.ctraderapi.com for live accounts)
+  port: number; // Default: 5035
+  tls: boolean; // Default: true
+  clientId: string;
+  clientSecret: string;
+  accessToken: string;
+  /** ctidTraderAccountId of the trading account */
+  accountId: number;
+  /** Bot symbol -> cTrader symbol name; unmapped symbols also match without an MT5-style suffix */
+  symbolMap: Record<string, string>;
+  /** Days of deal history loaded on connect (default 90) */
+  historyDays: number;
+  requestTimeoutMs: number; // Default: 15000
+  /** Pause between paged history requests, which cTrader rate limits (default 250) */
+  historyRequestDelayMs: number;
+  /** Wait before reconnecting a dropped streaming connection (default 5000) */
+  reconnectDelayMs: number;
+}
+
+const DEFAULT_CONFIG = {
+  host: 'demo.ctraderapi.com',
+  port: 5035,
+  tls: true,
+  symbolMap: {},
+  historyDays: 90,
+  requestTimeoutMs: 15000,
+  historyRequestDelayMs: 250,
+  reconnectDelayMs: 5000,
+};
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+const WEEK_MS = 7 * DAY_MS;
+
+const TIMEFRAME_PERIODS: Record<Timeframe, number> = {
+  M1: TrendbarPeriod.M1,
+  M5: TrendbarPeriod.M5,
+  M15: TrendbarPeriod.M15,
+  M30: TrendbarPeriod.M30,
+  H1: TrendbarPeriod.H1,
+  H4: TrendbarPeriod.H4,
+  D1: TrendbarPeriod.D1,
+  W1: TrendbarPeriod.W1,
+};
+
+const PERIOD_TIMEFRAMES = Object.fromEntries(
+  Object.entries(TIMEFRAME_PERIODS).map(([tf, period]) => [period, tf])
+) as Record<number, Timeframe>;
+
+/**
+ * Longest trendbar request per timeframe, within the Open API's per-period range limits
+ */
+const TRENDBAR_WINDOW_MS: Record<Timeframe, number> = {
+  M1: 3.5 * DAY_MS,
+  M5: 3.5 * DAY_MS,
+  M15: 5000 * 15 * MINUTE_MS,
+  M30: 35 * WEEK_MS,
+  H1: 35 * WEEK_MS,
+  H4: 365 * DAY_MS,
+  D1: 365 * DAY_MS,
+  W1: 5 * 365 * DAY_MS,
+};
+
+interface SymbolEntry {
+  id: number;
+  name: string;
+  description?: string;
+  baseAsset?: string;
+  quoteAsset?: string;
+  spec?: ProtoObject;
+}
+
+/**
+ * Config from CTRADER_* environment variables
+ * CTRADER_SYMBOL_MAP is a list like "XAUUSD.s=XAUUSD,XAGUSD.s=XAGUSD"
+ */
+export function ctraderConfigFromEnv(env: NodeJS.ProcessEnv = process.env): Partial<CTraderConfig> {
+  const config: Partial<CTraderConfig> = {};
+  if (env.CTRADER_HOST) config.host = env.CTRADER_HOST;
+  if (env.CTRADER_PORT) config.port = parseInt(env.CTRADER_PORT, 10);
+  if (env.CTRADER_CLIENT_ID) config.clientId = env.CTRADER_CLIENT_ID;
+  if (env.CTRADER_CLIENT_SECRET) config.clientSecret = env.CTRADER_CLIENT_SECRET;
+  if (env.CTRADER_ACCESS_TOKEN) config.accessToken = env.CTRADER_ACCESS_TOKEN;
+  if (env.CTRADER_ACCOUNT_ID) config.accountId = parseInt(env.CTRADER_ACCOUNT_ID, 10);
+  if (env.CTRADER_SYMBOL_MAP) {
+    config.symbolMap = Object.fromEntries(
+      env.CTRADER_SYMBOL_MAP.split(',')
+        .map((pair) => pair.split('=').map((s) => s.trim()))
+        .filter(([from, to]) => from && to)
+    );
+  }
+  return config;
+}
+
+function money(value: number | undefined, digits: number | undefined): number {
+  return (value ?? 0) / Math.pow(10, digits ?? 2);
+}
+
+function sleep(ms: number): Promise<void> {
+  return ms > 0 ? new Promise((resolve) => setTimeout(resolve, ms)) : Promise.resolve();
+}
+
+function isExecution(...types: number[]): (frame: Frame) => boolean {
+  return (frame) => frame.payloadType === PayloadType.EXECUTION_EVENT && types.includes(frame.message.executionType);
+}
+
+function isPendingOrder(order: ProtoObject): boolean {
+  return (order.orderType === OrderType.LIMIT || order.orderType === OrderType.STOP) && !order.closingOrder;
+}
+
+export class CTraderClient implements BrokerAdapter {
+  readonly name = 'ctrader';
+  private overrides: Partial<CTraderConfig>;
+  private config: CTraderConfig | null = null;
+  private connection: CTraderConnection | null = null;
+  private isConnecting = false;
+  private isConnected = false;
+  private isAccountReady = false;
+  private wantStreaming = false;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+
+  // Account and symbols
+  private trader: ProtoObject | null = null;
+  private assets: Map<number, string> = new Map();
+  private symbols: Map<number, SymbolEntry> = new Map();
+  private symbolIdsByName: Map<string, number> = new Map();
+  private botSymbols: Map<number, string> = new Map(); // symbolId -> symbol name the bot uses
+
+  // Trading state, kept from execution events
+  private positions: Map<string, ProtoObject> = new Map();
+  private orders: Map<string, ProtoObject> = new Map();
+  private deals: BrokerDeal[] = [];
+  private dealIds: Set<string> = new Set();
+
+  // Streaming
+  private listeners: BrokerEventCallbacks[] = [];
+  private subscriptions: Map<string, MarketDataSubscription[]> = new Map();
+  private spotSymbolIds: Set<number> = new Set();
+  private liveTrendbars: Set<string> = new Set(); // `${symbolId}:${period}`
+  private lastTrendbars: Map<string, ProtoObject> = new Map();
+  private prices: Map<string, SymbolPrice> = new Map();
+  private lastQuoteAt: Map<string, number> = new Map();
+  private priceWaiters: Map<string, Array<() => void>> = new Map();
+
+  constructor(config: Partial<CTraderConfig> = {}) {
+    this.overrides = config;
+  }
+
+  // ============================================
+  // Connection
+  // ============================================
+
+  /**
+   * Connect with streaming: positions, orders and deal history are loaded and kept in sync
+   */
+  async connect(): Promise<void> {
+    if (this.isConnected) {
+      console.log('Already connected to cTrader');
+      return;
+    }
+
+    if (this.isConnecting) {
+      console.log('Connection already in progress...');
+      return;
+    }
+
+    this.isConnecting = true;
+    this.wantStreaming = true;
+
+    try {
+      await this.connectAccountOnly();
+
+      console.log('[cTrader] Reconciling positions and orders...');
+      await this.reconcile();
+      await this.loadDealHistory();
+
+      // Restore streams after a reconnect, and price every open position
+      const subscriptions = Array.from(this.subscriptions.entries());
+      for (const [symbol, subs] of subscriptions) {
+        await this.subscribeToMarketData(symbol, subs, true);
+      }
+      for (const position of this.positions.values()) {
+        await this.subscribeSpots(position.tradeData.symbolId);
+      }
+
+      this.isConnected = true;
+      console.log(`Successfully connected to cTrader account ${this.requireConfig().accountId}`);
+      this.emit('onConnected');
+    } catch (error) {
+      console.error('Failed to connect to cTrader:', error);
+      throw error;
+    } finally {
+      this.isConnecting = false;
+    }
+  }
+
+  /**
+   * Authenticated session for historical data and symbol specs, without loading trading state
+   */
+  async connectAccountOnly(): Promise<void> {
+    if (this.isAccountReady && this.connection?.isOpen()) {
+      console.log('Account already ready');
+      return;
+    }
+
+    const config = this.resolveConfig();
+    const connection = new CTraderConnection({
+      host: config.host,
+      port: config.port,
+      tls: config.tls,
+      requestTimeoutMs: config.requestTimeoutMs,
+      heartbeatIntervalMs: 10000,
+    });
+    connection.onFrame = (frame) => this.handleFrame(frame);
+    connection.onClose = (error) => this.handleClose(connection, error);
+
+    try {
+      console.log(`[cTrader] Connecting to ${config.host}:${config.port}...`);
+      await connection.open();
+      this.connection = connection;
+
+      await connection.request(PayloadType.APPLICATION_AUTH_REQ, {
+        clientId: config.clientId,
+        clientSecret: config.clientSecret,
+      });
+      await connection.request(PayloadType.ACCOUNT_AUTH_REQ, {
+        ctidTraderAccountId: config.accountId,
+        accessToken: config.accessToken,
+      });
+
+      await this.loadSymbols();
+      this.trader = (await this.request(PayloadType.TRADER_REQ)).trader;
+
+      this.isAccountReady = true;
+      console.log(`[cTrader] Account ${config.accountId} authorized (${this.symbols.size} symbols)`);
+    } catch (error) {
+      this.connection = null;
+      connection.onClose = null;
+      connection.close();
+      console.error('Failed to connect account:', error);
+      throw error;
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    this.wantStreaming = false;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    if (this.connection) {
+      this.connection.close();
+      this.connection = null;
+    }
+    this.isConnected = false;
+    this.isAccountReady = false;
+    this.subscriptions.clear();
+    console.log('Disconnected from cTrader');
+  }
+
+  isConnectionActive(): boolean {
+    return this.isConnected;
+  }
+
+  now(): Date {
+    return new Date();
+  }
+
+  private resolveConfig(): CTraderConfig {
+    const config = { ...DEFAULT_CONFIG, ...ctraderConfigFromEnv(), ...this.overrides };
+    if (!config.clientId || !config.clientSecret || !config.accessToken || !config.accountId) {
+      throw new Error(
+        'CTRADER_CLIENT_ID, CTRADER_CLIENT_SECRET, CTRADER_ACCESS_TOKEN and CTRADER_ACCOUNT_ID must be set in environment variables'
+      );
+    }
+    this.config = config as CTraderConfig;
+    return this.config;
+  }
+
+  private requireConfig(): CTraderConfig {
+    if (!this.config) throw new Error('cTrader client is not configured. Call connect() first.');
+    return this.config;
+  }
+
+  private ensureConnected(): void {
+    if (!this.isConnected || !this.connection) {
+      throw new Error('Not connected to cTrader. Call connect() first.');
+    }
+  }
+
+  private ensureAccountReady(): void {
+    if (!this.isAccountReady || !this.connection) {
+      throw new Error('Account not ready. Call connectAccountOnly() first.');
+    }
+  }
+
+  /**
+   * Account-scoped request; resolves with the response message
+   */
+  private async request(
+    payloadType: number,
+    message: ProtoObject = {},
+    done?: (frame: Frame) => boolean
+  ): Promise<ProtoObject> {
+    if (!this.connection) throw new Error('Not connected to cTrader. Call connect() first.');
+    const frame = await this.connection.request(
+      payloadType,
+      { ctidTraderAccountId: this.requireConfig().accountId, ...message },
+      done
+    );
+    return frame.message;
+  }
+
+  private handleClose(connection: CTraderConnection, error?: Error): void {
+    if (this.connection !== connection) return;
+
+    const wasConnected = this.isConnected;
+    this.connection = null;
+    this.isConnected = false;
+    this.isAccountReady = false;
+    this.spotSymbolIds.clear();
+    this.liveTrendbars.clear();
+    this.lastTrendbars.clear();
+
+    if (wasConnected) this.emit('onDisconnected');
+    if (!error || !this.wantStreaming) return;
+
+    const delay = this.requireConfig().reconnectDelayMs;
+    console.warn(`[cTrader] Connection lost, reconnecting in ${delay}ms...`);
+    this.scheduleReconnect(delay);
+  }
+
+  private scheduleReconnect(delay: number): void {
+    if (this.reconnectTimer) return;
+    this.reconnectTimer = setTimeout(async () => {
+      this.reconnectTimer = null;
+      if (!this.wantStreaming || this.isConnected) return;
+      try {
+        await this.connect();
+      } catch (error) {
+        this.emit('onError', error instanceof Error ? error : new Error(String(error)));
+        this.scheduleReconnect(delay);
+      }
+    }, delay);
+  }
+
+  // ============================================
+  // Account State
+  // ============================================
+
+  async getAccountInfo(): Promise<AccountInfo> {
+    this.ensureConnected();
+    this.trader = (await this.request(PayloadType.TRADER_REQ)).trader;
+    const trader = this.trader!;
+    const digits = trader.moneyDigits;
+
+    const balance = money(trader.balance, digits);
+    const pnl = await this.getUnrealizedPnL();
+    const unrealized = Array.from(pnl.values()).reduce((sum, p) => sum + p.net, 0);
+    const margin = Array.from(this.positions.values()).reduce(
+      (sum, p) => sum + money(p.usedMargin, p.moneyDigits ?? digits),
+      0
+    );
+    const equity = balance + unrealized;
+
+    return {
+      balance,
+      equity,
+      margin,
+      freeMargin: equity - margin,
+      marginLevel: margin > 0 ? (equity / margin) * 100 : undefined,
+      leverage: (trader.leverageInCents ?? 0) / 100,
+      currency: this.depositCurrency(),
+    };
+  }
+
+  async getPositions(): Promise<Position[]> {
+    this.ensureConnected();
+    const pnl = await this.getUnrealizedPnL();
+
+    return Array.from(this.positions.values()).map((raw) => {
+      const position = this.toPositionUpdate(raw);
+      return {
+        id: position.id,
+        symbol: position.symbol,
+        type: position.type === 'POSITION_TYPE_BUY' ? 'BUY' : 'SELL',
+        volume: position.volume,
+        openPrice: position.openPrice,
+        currentPrice: position.currentPrice ?? position.openPrice,
+        stopLoss: position.stopLoss,
+        takeProfit: position.takeProfit,
+        profit: pnl.get(position.id)?.gross ?? position.profit ?? 0,
+        swap: position.swap || 0,
+        openTime: position.time,
+        comment: position.comment,
+      };
+    });
+  }
+
+  async getSymbolInfo(symbol: string): Promise<SymbolInfo> {
+    this.ensureAccountReady();
+    const entry = this.resolveSymbol(symbol);
+    const spec = entry.spec!;
+    const lotSize = spec.lotSize;
+    const contractSize = lotSize / 100; // Volumes are in cents of units
+    const tickSize = Math.pow(10, -spec.digits);
+
+    // Same pip convention as the MetaAPI client, so SL limits in pips mean the same thing
+    const pipInfo = getSymbolPipInfo(symbol);
+
+    return {
+      symbol,
+      description: entry.description || entry.name,
+      digits: spec.digits,
+      pipSize: pipInfo.pipSize,
+      contractSize,
+      minVolume: spec.minVolume / lotSize,
+      maxVolume: spec.maxVolume / lotSize,
+      volumeStep: spec.stepVolume / lotSize,
+      tickSize,
+      tickValue: tickSize * contractSize,
+      baseCurrency: entry.baseAsset,
+      profitCurrency: entry.quoteAsset,
+    };
+  }
+
+  /**
+   * Margin from the server, which applies the symbol's leverage tiers and margin rates
+   */
+  async calculateMargin(symbol: string, type: Direction, volume: number): Promise<number> {
+    this.ensureConnected();
+    const entry = this.resolveSymbol(symbol);
+    const res = await this.request(PayloadType.EXPECTED_MARGIN_REQ, {
+      symbolId: entry.id,
+      volume: [this.toVolume(entry, volume)],
+    });
+    const expected = res.margin[0];
+    if (!expected) throw new Error(`No margin estimate for ${symbol}`);
+    return money(type === 'BUY' ? expected.buyMargin : expected.sellMargin, res.moneyDigits ?? this.trader?.moneyDigits);
+  }
+
+  private depositCurrency(): string {
+    return this.assets.get(this.trader?.depositAssetId) ?? 'USD';
+  }
+
+  private async getUnrealizedPnL(): Promise<Map<string, { gross: number; net: number }>> {
+    const pnl = new Map<string, { gross: number; net: number }>();
+    if (this.positions.size === 0) return pnl;
+
+    const res = await this.request(PayloadType.GET_POSITION_UNREALIZED_PNL_REQ);
+    for (const p of res.positionUnrealizedPnL) {
+      pnl.set(String(p.positionId), {
+        gross: money(p.grossUnrealizedPnL, res.moneyDigits),
+        net: money(p.netUnrealizedPnL, res.moneyDigits),
+      });
+    }
+    return pnl;
+  }
+
+  private async loadSymbols(): Promise<void> {
+    const assets = await this.request(PayloadType.ASSET_LIST_REQ);
+    this.assets = new Map(assets.asset.map((a: ProtoObject) => [a.assetId, a.displayName || a.name]));
+
+    const list = await this.request(PayloadType.SYMBOLS_LIST_REQ, { includeArchivedSymbols: false });
+    this.symbols.clear();
+    this.symbolIdsByName.clear();
+    for (const light of list.symbol) {
+      if (light.enabled === false) continue;
+      this.symbols.set(light.symbolId, {
+        id: light.symbolId,
+        name: light.symbolName,
+        description: light.description,
+        baseAsset: this.assets.get(light.baseAssetId),
+        quoteAsset: this.assets.get(light.quoteAssetId),
+      });
+      this.symbolIdsByName.set(String(light.symbolName).toUpperCase(), light.symbolId);
+    }
+
+    // Full specs for every symbol up front, so events can be mapped without waiting on requests
+    const ids = Array.from(this.symbols.keys());
+    for (let i = 0; i < ids.length; i += 200) {
+      const res = await this.request(PayloadType.SYMBOL_BY_ID_REQ, { symbolId: ids.slice(i, i + 200) });
+      for (const spec of res.symbol) {
+        const entry = this.symbols.get(spec.symbolId);
+        if (entry) entry.spec = spec;
+      }
+    }
+  }
+
+  /**
+   * cTrader symbol for a bot symbol: the symbol map, the name itself, then the name without a suffix
+   */
+  private resolveSymbol(symbol: string): SymbolEntry {
+    const candidates = [this.config?.symbolMap[symbol], symbol, symbol.split('.')[0]];
+    for (const name of candidates) {
+      const id = name ? this.symbolIdsByName.get(name.toUpperCase()) : undefined;
+      const entry = id !== undefined ? this.symbols.get(id) : undefined;
+      if (entry?.spec) {
+        this.botSymbols.set(entry.id, symbol);
+        return entry;
+      }
+    }
+    throw new Error(`Symbol ${symbol} not found`);
+  }
+
+  private botSymbol(symbolId: number): string {
+    return this.botSymbols.get(symbolId) ?? this.symbols.get(symbolId)?.name ?? String(symbolId);
+  }
+
+  private lotSize(symbolId: number): number {
+    return this.symbols.get(symbolId)?.spec?.lotSize || 100;
+  }
+
+  private toVolume(entry: SymbolEntry, lots: number): number {
+    return Math.round(lots * entry.spec!.lotSize);
+  }
+
+  // ============================================
+  // Market Data
+  // ============================================
+
+  async getCandles(
+    symbol: string,
+    timeframe: Timeframe,
+    count: number = 500,
+    startTime?: Date
+  ): Promise<Candle[]> {
+    this.ensureAccountReady();
+
+    // Room for weekends and closed sessions
+    const span = count * TIMEFRAME_MINUTES[timeframe] * MINUTE_MS * 1.5 + 3 * DAY_MS;
+
+    if (startTime) {
+      const end = new Date(Math.min(Date.now(), startTime.getTime() + span));
+      const candles = await this.getHistoricalCandles(symbol, timeframe, startTime, end);
+      return candles.slice(0, count);
+    }
+
+    const end = new Date();
+    const candles = await this.getHistoricalCandles(symbol, timeframe, new Date(end.getTime() - span), end);
+    return candles.slice(-count);
+  }
+
+  async getHistoricalCandles(
+    symbol: string,
+    timeframe: Timeframe,
+    startDate: Date,
+    endDate: Date
+  ): Promise<Candle[]> {
+    this.ensureAccountReady();
+    const entry = this.resolveSymbol(symbol);
+    const period = TIMEFRAME_PERIODS[timeframe];
+    const barMs = TIMEFRAME_MINUTES[timeframe] * MINUTE_MS;
+    const byTime = new Map<number, Candle>();
+
+    let from = startDate.getTime();
+    const end = endDate.getTime();
+    let first = true;
+
+    while (from <= end) {
+      const to = Math.min(from + TRENDBAR_WINDOW_MS[timeframe], end);
+      if (!first) await sleep(this.requireConfig().historyRequestDelayMs);
+      first = false;
+
+      const res = await this.request(PayloadType.GET_TRENDBARS_REQ, {
+        symbolId: entry.id,
+        period,
+        fromTimestamp: from,
+        toTimestamp: to,
+      });
+
+      const candles = res.trendbar
+        .map((bar: ProtoObject) => this.toCandle(symbol, timeframe, bar))
+        .sort((a: Candle, b: Candle) => a.time.getTime() - b.time.getTime());
+      for (const candle of candles) {
+        const time = candle.time.getTime();
+        if (time >= startDate.getTime() && time <= end) byTime.set(time, candle);
+      }
+
+      // A truncated window continues after its last bar; otherwise move to the next window
+      const last = candles.length ? candles[candles.length - 1].time.getTime() : undefined;
+      from = res.hasMore && last !== undefined && last + barMs > from ? last + barMs : to + 1;
+    }
+
+    return Array.from(byTime.values()).sort((a, b) => a.time.getTime() - b.time.getTime());
+  }
+
+  async getHistoricalCandlesCached(
+    symbol: string,
+    timeframe: Timeframe,
+    startDate: Date,
+    endDate: Date
+  ): Promise<Candle[]> {
+    this.ensureAccountReady();
+    return candleCache.getHistoricalCandles(symbol, timeframe, startDate, endDate, (sym, tf, start, end) =>
+      this.getHistoricalCandles(sym, tf, start, end)
+    );
+  }
+
+  /**
+   * Bid and ask tick history merged into quotes, fetched a day at a time
+   */
+  async getHistoricalTicks(symbol: string, startDate: Date, endDate: Date): Promise<Tick[]> {
+    this.ensureAccountReady();
+    const entry = this.resolveSymbol(symbol);
+    const ticks: Tick[] = [];
+
+    for (let from = startDate.getTime(); from <= endDate.getTime(); from += DAY_MS) {
+      const to = Math.min(from + DAY_MS - 1, endDate.getTime());
+      const bids = await this.getQuotes(entry.id, QuoteType.BID, from, to);
+      const asks = await this.getQuotes(entry.id, QuoteType.ASK, from, to);
+      ticks.push(...this.mergeQuotes(symbol, bids, asks));
+    }
+
+    return ticks;
+  }
+
+  async getHistoricalTicksCached(symbol: string, startDate: Date, endDate: Date): Promise<Tick[]> {
+    this.ensureAccountReady();
+    return tickStore.getHistoricalTicks(symbol, startDate, endDate, (sym, start, end) =>
+      this.getHistoricalTicks(sym, start, end)
+    );
+  }
+
+  async getCurrentPrice(symbol: string): Promise<{ bid: number; ask: number }> {
+    this.ensureConnected();
+    let price = this.prices.get(symbol);
+
+    if (!price) {
+      // Not streamed yet: subscribe and take the first spot
+      const entry = this.resolveSymbol(symbol);
+      const arrived = this.waitForPrice(symbol, this.requireConfig().requestTimeoutMs);
+      await this.subscribeSpots(entry.id);
+      await arrived;
+      price = this.prices.get(symbol);
+    }
+
+    if (!price) {
+      throw new Error(`Price not available for ${symbol}`);
+    }
+
+    return { bid: price.bid, ask: price.ask };
+  }
+
+  private toCandle(symbol: string, timeframe: Timeframe, bar: ProtoObject): Candle {
+    const low = bar.low ?? 0;
+    return {
+      time: new Date(bar.utcTimestampInMinutes * MINUTE_MS),
+      open: (low + (bar.deltaOpen ?? 0)) / PRICE_SCALE,
+      high: (low + (bar.deltaHigh ?? 0)) / PRICE_SCALE,
+      low: low / PRICE_SCALE,
+      close: (low + (bar.deltaClose ?? 0)) / PRICE_SCALE,
+      volume: bar.volume ?? 0,
+      symbol,
+      timeframe,
+    };
+  }
+
+  /**
+   * One side of the tick history, oldest first; pages walk back from the newest tick
+   */
+  private async getQuotes(
+    symbolId: number,
+    type: number,
+    from: number,
+    to: number
+  ): Promise<Array<{ time: number; price: number }>> {
+    const quotes: Array<{ time: number; price: number }> = [];
+    let until = to;
+
+    for (;;) {
+      const res = await this.request(PayloadType.GET_TICKDATA_REQ, {
+        symbolId,
+        type,
+        fromTimestamp: from,
+        toTimestamp: until,
+      });
+      await sleep(this.requireConfig().historyRequestDelayMs);
+
+      let time = 0;
+      let price = 0;
+      let oldest = Infinity;
+      res.tickData.forEach((tick: ProtoObject, i: number) => {
+        // First entry is absolute, the rest are deltas from the one before
+        time = i === 0 ? tick.timestamp : time + tick.timestamp;
+        price = i === 0 ? tick.tick : price + tick.tick;
+        quotes.push({ time, price: price / PRICE_SCALE });
+        oldest = Math.min(oldest, time);
+      });
+
+      if (!res.hasMore || res.tickData.length === 0 || oldest <= from) break;
+      until = oldest - 1;
+    }
+
+    return quotes.sort((a, b) => a.time - b.time);
+  }
+
+  private mergeQuotes(
+    symbol: string,
+    bids: Array<{ time: number; price: number }>,
+    asks: Array<{ time: number; price: number }>
+  ): Tick[] {
+    const events = [
+      ...bids.map((q) => ({ ...q, side: 'bid' as const })),
+      ...asks.map((q) => ({ ...q, side: 'ask' as const })),
+    ].sort((a, b) => a.time - b.time);
+
+    const ticks: Tick[] = [];
+    let bid: number | undefined;
+    let ask: number | undefined;
+    for (const event of events) {
+      if (event.side === 'bid') bid = event.price;
+      else ask = event.price;
+      if (bid === undefined || ask === undefined) continue;
+
+      const last = ticks[ticks.length - 1];
+      if (last && last.time.getTime() === event.time) {
+        last.bid = bid;
+        last.ask = ask;
+      } else {
+        ticks.push({ time: new Date(event.time), bid, ask, symbol });
+      }
+    }
+    return ticks;
+  }
+
+  private waitForPrice(symbol: string, timeoutMs: number): Promise<void> {
+    return new Promise((resolve) => {
+      const timer = setTimeout(resolve, timeoutMs);
+      const waiters = this.priceWaiters.get(symbol) ?? [];
+      waiters.push(() => {
+        clearTimeout(timer);
+        resolve();
+      });
+      this.priceWaiters.set(symbol, waiters);
+    });
+  }
+
+  // ============================================
+  // Orders and Positions
+  // ============================================
+
+  async placeMarketOrder(
+    symbol: string,
+    type: Direction,
+    volume: number,
+    stopLoss?: number,
+    takeProfit?: number,
+    comment?: string
+  ): Promise<{ orderId: string; positionId?: string }> {
+    this.ensureConnected();
+    const entry = this.resolveSymbol(symbol);
+
+    // Market orders only take stops as distances from the fill; estimate them from the current
+    // quote (subscribing first for a symbol that isn't streamed yet)
+    const price = stopLoss || takeProfit ? await this.getCurrentPrice(symbol) : undefined;
+    const reference = price && (type === 'BUY' ? price.ask : price.bid);
+    const distance = (level?: number) =>
+      level && reference !== undefined ? Math.round(Math.abs(reference - level) * PRICE_SCALE) : undefined;
+
+    const res = await this.request(
+      PayloadType.NEW_ORDER_REQ,
+      {
+        symbolId: entry.id,
+        orderType: OrderType.MARKET,
+        tradeSide: type === 'BUY' ? TradeSide.BUY : TradeSide.SELL,
+        volume: this.toVolume(entry, volume),
+        relativeStopLoss: distance(stopLoss),
+        relativeTakeProfit: distance(takeProfit),
+        comment: comment || 'SMC Bot Trade',
+      },
+      isExecution(ExecutionType.ORDER_FILLED, ExecutionType.ORDER_PARTIAL_FILL)
+    );
+
+    const positionId = String(res.position.positionId);
+
+    // Then pin the stops to the exact levels asked for. A position the stops can't be set on
+    // is closed rather than reported as placed.
+    const position = this.positions.get(positionId);
+    if (position && ((stopLoss && position.stopLoss !== stopLoss) || (takeProfit && position.takeProfit !== takeProfit))) {
+      try {
+        await this.amendPosition(positionId, stopLoss || position.stopLoss, takeProfit || position.takeProfit);
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        console.error(`[cTrader] Failed to set stops on position ${positionId}, closing it:`, error);
+        try {
+          await this.closePosition(positionId);
+        } catch (closeError) {
+          console.error(`[cTrader] Failed to close position ${positionId}:`, closeError);
+          throw new Error(`Position ${positionId} is open without its stops (${reason}) and could not be closed`);
+        }
+        throw new Error(`Position ${positionId} closed: stops could not be set (${reason})`);
+      }
+    }
+
+    return { orderId: String(res.order.orderId), positionId };
+  }
+
+  async placeLimitOrder(
+    symbol: string,
+    type: Direction,
+    volume: number,
+    price: number,
+    stopLoss?: number,
+    takeProfit?: number,
+    comment?: string
+  ): Promise<{ orderId: string }> {
+    this.ensureConnected();
+    const entry = this.resolveSymbol(symbol);
+
+    const res = await this.request(
+      PayloadType.NEW_ORDER_REQ,
+      {
+        symbolId: entry.id,
+        orderType: OrderType.LIMIT,
+        tradeSide: type === 'BUY' ? TradeSide.BUY : TradeSide.SELL,
+        volume: this.toVolume(entry, volume),
+        limitPrice: price,
+        stopLoss: stopLoss || undefined,
+        takeProfit: takeProfit || undefined,
+        comment: comment || 'SMC Bot Limit',
+      },
+      isExecution(ExecutionType.ORDER_ACCEPTED)
+    );
+
+    return { orderId: String(res.order.orderId) };
+  }
+
+  async cancelOrder(orderId: string): Promise<void> {
+    this.ensureConnected();
+    await this.request(
+      PayloadType.CANCEL_ORDER_REQ,
+      { orderId: Number(orderId) },
+      isExecution(ExecutionType.ORDER_CANCELLED)
+    );
+  }
+
+  /**
+   * Change SL/TP; a level left undefined keeps its current value
+   */
+  async modifyPosition(positionId: string, stopLoss?: number, takeProfit?: number): Promise<void> {
+    this.ensureConnected();
+    const position = this.getPosition(positionId);
+    await this.amendPosition(positionId, stopLoss ?? position.stopLoss, takeProfit ?? position.takeProfit);
+  }
+
+  async closePosition(positionId: string): Promise<void> {
+    this.ensureConnected();
+    const position = this.getPosition(positionId);
+    await this.request(
+      PayloadType.CLOSE_POSITION_REQ,
+      { positionId: Number(positionId), volume: position.tradeData.volume },
+      isExecution(ExecutionType.ORDER_FILLED, ExecutionType.ORDER_PARTIAL_FILL)
+    );
+  }
+
+  async closePositionPartially(positionId: string, volume: number): Promise<void> {
+    this.ensureConnected();
+    const position = this.getPosition(positionId);
+    const entry = this.symbols.get(position.tradeData.symbolId)!;
+    await this.request(
+      PayloadType.CLOSE_POSITION_REQ,
+      { positionId: Number(positionId), volume: this.toVolume(entry, volume) },
+      isExecution(ExecutionType.ORDER_FILLED, ExecutionType.ORDER_PARTIAL_FILL)
+    );
+  }
+
+  private async amendPosition(positionId: string, stopLoss?: number, takeProfit?: number): Promise<void> {
+    // cTrader removes a level that is left out, so both are always sent
+    await this.request(
+      PayloadType.AMEND_POSITION_SLTP_REQ,
+      { positionId: Number(positionId), stopLoss: stopLoss || undefined, takeProfit: takeProfit || undefined },
+      isExecution(ExecutionType.ORDER_REPLACED)
+    );
+  }
+
+  private getPosition(positionId: string): ProtoObject {
+    const position = this.positions.get(positionId);
+    if (!position) throw new Error(`Position ${positionId} not found`);
+    return position;
+  }
+
+  private async reconcile(): Promise<void> {
+    const res = await this.request(PayloadType.RECONCILE_REQ);
+    this.positions = new Map(
+      res.position
+        .filter((p: ProtoObject) => p.positionStatus === PositionStatus.OPEN)
+        .map((p: ProtoObject) => [String(p.positionId), p])
+    );
+    this.orders = new Map(
+      res.order.filter(isPendingOrder).map((o: ProtoObject) => [String(o.orderId), o])
+    );
+    console.log(`[cTrader] ${this.positions.size} open positions, ${this.orders.size} pending orders`);
+  }
+
+  // ============================================
+  // Deal History
+  // ============================================
+
+  async getHistoricalDeals(startTime?: Date, endTime?: Date): Promise<BrokerDeal[]> {
+    return (await this.getAllDeals(startTime, endTime)).filter(
+      (d) => d.type === 'DEAL_TYPE_BUY' || d.type === 'DEAL_TYPE_SELL'
+    );
+  }
+
+  async getAllDeals(startTime?: Date, endTime?: Date): Promise<BrokerDeal[]> {
+    this.ensureConnected();
+    return this.deals
+      .filter((d) => {
+        const time = new Date(d.time);
+        if (startTime && time < startTime) return false;
+        if (endTime && time > endTime) return false;
+        return true;
+      })
+      .sort((a, b) => new Date(a.time).getTime() - new Date(b.time).getTime());
+  }
+
+  getDealsByPosition(positionId: string): BrokerDeal[] {
+    return this.deals.filter((d) => d.positionId === positionId);
+  }
+
+  async getAccountDealsSummary(startTime?: Date, endTime?: Date): Promise<AccountDealsSummary> {
+    return summarizeDeals(await this.getAllDeals(startTime, endTime));
+  }
+
+  /**
+   * Deals and balance operations over the configured history, a week per request
+   */
+  private async loadDealHistory(): Promise<void> {
+    const config = this.requireConfig();
+    const to = Date.now();
+    const from = to - config.historyDays * DAY_MS;
+
+    for (let start = from; start < to; start += WEEK_MS) {
+      const end = Math.min(start + WEEK_MS, to);
+      await this.loadDeals(start, end);
+      const cashFlow = await this.request(PayloadType.CASH_FLOW_HISTORY_LIST_REQ, {
+        fromTimestamp: start,
+        toTimestamp: end,
+      });
+      for (const operation of cashFlow.depositWithdraw) this.addDeal(this.toBalanceDeal(operation));
+      await sleep(config.historyRequestDelayMs);
+    }
+
+    console.log(`[cTrader] Loaded ${this.deals.length} deals from the last ${config.historyDays} days`);
+  }
+
+  /**
+   * Deals in a window; a truncated window is split in half until each half fits
+   */
+  private async loadDeals(from: number, to: number): Promise<void> {
+    const res = await this.request(PayloadType.DEAL_LIST_REQ, { fromTimestamp: from, toTimestamp: to });
+    for (const deal of res.deal) this.addFilledDeal(deal);
+
+    if (res.hasMore && to - from > MINUTE_MS) {
+      const middle = Math.floor((from + to) / 2);
+      await sleep(this.requireConfig().historyRequestDelayMs);
+      await this.loadDeals(from, middle);
+      await this.loadDeals(middle + 1, to);
+    }
+  }
+
+  private addFilledDeal(deal: ProtoObject): void {
+    if (deal.dealStatus === DealStatus.FILLED || deal.dealStatus === DealStatus.PARTIALLY_FILLED) {
+      this.addDeal(this.toBrokerDeal(deal));
+    }
+  }
+
+  private addDeal(deal: BrokerDeal): void {
+    if (this.dealIds.has(deal.id)) return;
+    this.dealIds.add(deal.id);
+    this.deals.push(deal);
+  }
+
+  private toBrokerDeal(deal: ProtoObject): BrokerDeal {
+    const close = deal.closePositionDetail;
+    const digits = close?.moneyDigits ?? deal.moneyDigits;
+    return {
+      id: String(deal.dealId),
+      type: deal.tradeSide === TradeSide.BUY ? 'DEAL_TYPE_BUY' : 'DEAL_TYPE_SELL',
+      entryType: close ? 'DEAL_ENTRY_OUT' : 'DEAL_ENTRY_IN',
+      symbol: this.botSymbol(deal.symbolId),
+      volume: (deal.filledVolume ?? deal.volume) / this.lotSize(deal.symbolId),
+      price: deal.executionPrice,
+      profit: close ? money(close.grossProfit, digits) : 0,
+      swap: close ? money(close.swap, digits) : 0,
+      commission: money(deal.commission, deal.moneyDigits),
+      time: new Date(deal.executionTimestamp ?? deal.createTimestamp),
+      positionId: String(deal.positionId),
+      orderId: String(deal.orderId),
+    };
+  }
+
+  private toBalanceDeal(operation: ProtoObject): BrokerDeal {
+    const amount = Math.abs(money(operation.delta, operation.moneyDigits));
+    return {
+      id: `balance-${operation.balanceHistoryId}`,
+      type: 'DEAL_TYPE_BALANCE',
+      profit: operation.operationType === CashFlowOperation.WITHDRAW ? -amount : amount,
+      time: new Date(operation.changeBalanceTimestamp),
+      comment: operation.externalNote,
+    };
+  }
+
+  // ============================================
+  // Streaming
+  // ============================================
+
+  async subscribeToMarketData(
+    symbol: string,
+    subscriptions: MarketDataSubscription[],
+    resubscribe: boolean = false
+  ): Promise<void> {
+    if (!resubscribe) this.ensureConnected();
+    const entry = this.resolveSymbol(symbol);
+
+    console.log(`[cTrader] Subscribing to market data for ${symbol}:`, subscriptions);
+
+    // Live trendbars ride on the spot stream
+    await this.subscribeSpots(entry.id);
+    for (const sub of subscriptions) {
+      const timeframe = sub.type === 'candles' && sub.timeframe ? TIMEFRAME_REVERSE_MAP[sub.timeframe] : undefined;
+      if (!timeframe) continue;
+      const period = TIMEFRAME_PERIODS[timeframe];
+      const key = `${entry.id}:${period}`;
+      if (this.liveTrendbars.has(key)) continue;
+      await this.request(PayloadType.SUBSCRIBE_LIVE_TRENDBAR_REQ, { symbolId: entry.id, period });
+      this.liveTrendbars.add(key);
+    }
+
+    this.subscriptions.set(symbol, subscriptions);
+  }
+
+  async unsubscribeFromMarketData(symbol: string): Promise<void> {
+    this.ensureConnected();
+    const subscriptions = this.subscriptions.get(symbol);
+    if (!subscriptions) return;
+
+    console.log(`[cTrader] Unsubscribing from market data for ${symbol}`);
+    const entry = this.resolveSymbol(symbol);
+
+    for (const key of Array.from(this.liveTrendbars)) {
+      const [symbolId, period] = key.split(':').map(Number);
+      if (symbolId !== entry.id) continue;
+      await this.request(PayloadType.UNSUBSCRIBE_LIVE_TRENDBAR_REQ, { symbolId, period });
+      this.liveTrendbars.delete(key);
+      this.lastTrendbars.delete(key);
+    }
+
+    // Keep pricing symbols with open positions
+    const hasPositions = Array.from(this.positions.values()).some((p) => p.tradeData.symbolId === entry.id);
+    if (!hasPositions && this.spotSymbolIds.has(entry.id)) {
+      await this.request(PayloadType.UNSUBSCRIBE_SPOTS_REQ, { symbolId: [entry.id] });
+      this.spotSymbolIds.delete(entry.id);
+    }
+
+    this.subscriptions.delete(symbol);
+  }
+
+  addEventListener(callbacks: BrokerEventCallbacks): () => void {
+    this.listeners.push(callbacks);
+    return () => {
+      const index = this.listeners.indexOf(callbacks);
+      if (index > -1) this.listeners.splice(index, 1);
+    };
+  }
+
+  private async subscribeSpots(symbolId: number): Promise<void> {
+    if (this.spotSymbolIds.has(symbolId)) return;
+    this.spotSymbolIds.add(symbolId);
+    try {
+      await this.request(PayloadType.SUBSCRIBE_SPOTS_REQ, { symbolId: [symbolId] });
+    } catch (error) {
+      this.spotSymbolIds.delete(symbolId);
+      throw error;
+    }
+  }
+
+  private emit<K extends keyof BrokerEventCallbacks>(
+    event: K,
+    ...args: Parameters<NonNullable<BrokerEventCallbacks[K]>>
+  ): void {
+    for (const listener of this.listeners) {
+      const handler = listener[event] as ((...params: any[]) => unknown) | undefined;
+      if (!handler) continue;
+      try {
+        Promise.resolve(handler(...args)).catch((error) =>
+          console.error(`[cTrader] ${event} handler failed:`, error)
+        );
+      } catch (error) {
+        console.error(`[cTrader] ${event} handler failed:`, error);
+      }
+    }
+  }
+
+  private handleFrame(frame: Frame): void {
+    switch (frame.payloadType) {
+      case PayloadType.SPOT_EVENT:
+        this.handleSpot(frame.message);
+        break;
+      case PayloadType.EXECUTION_EVENT:
+        this.handleExecution(frame.message);
+        break;
+      case PayloadType.TRADER_UPDATE_EVENT:
+        this.trader = frame.message.trader;
+        break;
+      case PayloadType.ORDER_ERROR_EVENT:
+        if (!frame.clientMsgId) {
+          this.emit('onError', new Error(`cTrader ${frame.message.errorCode}: ${frame.message.description || ''}`));
+        }
+        break;
+      case PayloadType.ACCOUNT_DISCONNECT_EVENT:
+      case PayloadType.CLIENT_DISCONNECT_EVENT:
+      case PayloadType.ACCOUNTS_TOKEN_INVALIDATED_EVENT:
+        console.warn(`[cTrader] Server ended the session (${frame.message.reason || frame.payloadType})`);
+        this.connection?.drop();
+        break;
+    }
+  }
+
+  private handleSpot(spot: ProtoObject): void {
+    if (!this.symbols.has(spot.symbolId)) return;
+    const symbol = this.botSymbol(spot.symbolId);
+    const previous = this.prices.get(symbol);
+
+    // Spot events leave out a side that did not change
+    const bid = spot.bid !== undefined ? spot.bid / PRICE_SCALE : previous?.bid;
+    const ask = spot.ask !== undefined ? spot.ask / PRICE_SCALE : previous?.ask;
+    if (bid !== undefined && ask !== undefined) {
+      const price: SymbolPrice = { symbol, bid, ask, time: spot.timestamp ? new Date(spot.timestamp) : new Date() };
+      this.prices.set(symbol, price);
+
+      const waiters = this.priceWaiters.get(symbol);
+      if (waiters) {
+        this.priceWaiters.delete(symbol);
+        waiters.forEach((wake) => wake());
+      }
+
+      if (this.isQuoteDue(symbol, price.time.getTime())) {
+        if (this.subscriptions.has(symbol)) this.emit('onPriceUpdate', symbol, price);
+        const priced = Array.from(this.positions.values()).some((p) => p.tradeData.symbolId === spot.symbolId);
+        if (priced) this.emitPositions([]);
+      }
+    }
+
+    // The live trendbar is the forming bar; when it rolls over, the previous one is complete
+    const completed: CandleUpdate[] = [];
+    for (const bar of spot.trendbar) {
+      const key = `${spot.symbolId}:${bar.period}`;
+      const last = this.lastTrendbars.get(key);
+      if (last && last.utcTimestampInMinutes !== bar.utcTimestampInMinutes) {
+        const timeframe = PERIOD_TIMEFRAMES[bar.period];
+        if (timeframe) {
+          const candle = this.toCandle(symbol, timeframe, last);
+          completed.push({ ...candle, timeframe: TIMEFRAME_MAP[timeframe] });
+        }
+      }
+      this.lastTrendbars.set(key, bar);
+    }
+    if (completed.length) this.emit('onCandleUpdate', completed);
+  }
+
+  private isQuoteDue(symbol: string, time: number): boolean {
+    const quotes = this.subscriptions.get(symbol)?.find((s) => s.type === 'quotes');
+    const interval = quotes?.intervalInMilliseconds ?? 0;
+    const last = this.lastQuoteAt.get(symbol);
+    if (last !== undefined && time - last < interval) return false;
+    this.lastQuoteAt.set(symbol, time);
+    return true;
+  }
+
+  private handleExecution(event: ProtoObject): void {
+    const { position, order, deal, depositWithdraw } = event;
+
+    // Deals first, so a listener reacting to a closed position finds its exit deal
+    if (deal) this.addFilledDeal(deal);
+    if (depositWithdraw) this.addDeal(this.toBalanceDeal(depositWithdraw));
+
+    if (position) {
+      const id = String(position.positionId);
+      const removed: string[] = [];
+      if (position.positionStatus === PositionStatus.CLOSED) {
+        if (this.positions.delete(id)) removed.push(id);
+      } else if (position.positionStatus === PositionStatus.OPEN) {
+        this.positions.set(id, position);
+        if (this.isConnected) {
+          this.subscribeSpots(position.tradeData.symbolId).catch((error) =>
+            console.error(`[cTrader] Failed to subscribe to prices for position ${id}:`, error)
+          );
+        }
+      }
+      if (this.isConnected) this.emitPositions(removed);
+    }
+
+    if (order && isPendingOrder(order)) {
+      const id = String(order.orderId);
+      const completed: string[] = [];
+      if (order.orderStatus === OrderStatus.ACCEPTED) {
+        this.orders.set(id, order);
+      } else if (this.orders.delete(id)) {
+        completed.push(id);
+      }
+      if (this.isConnected) {
+        this.emit('onOrderUpdate', Array.from(this.orders.values()).map((o) => this.toOrderUpdate(o)), completed);
+      }
+    }
+  }
+
+  private emitPositions(removedIds: string[]): void {
+    const positions = Array.from(this.positions.values()).map((p) => this.toPositionUpdate(p));
+    this.emit('onPositionUpdate', positions, removedIds);
+  }
+
+  private toPositionUpdate(position: ProtoObject): PositionUpdate {
+    const { tradeData } = position;
+    const symbol = this.botSymbol(tradeData.symbolId);
+    const isBuy = tradeData.tradeSide === TradeSide.BUY;
+    const price = this.prices.get(symbol);
+    const currentPrice = price ? (isBuy ? price.bid : price.ask) : undefined;
+
+    return {
+      id: String(position.positionId),
+      symbol,
+      type: isBuy ? 'POSITION_TYPE_BUY' : 'POSITION_TYPE_SELL',
+      volume: tradeData.volume / this.lotSize(tradeData.symbolId),
+      openPrice: position.price,
+      currentPrice,
+      stopLoss: position.stopLoss,
+      takeProfit: position.takeProfit,
+      profit: currentPrice !== undefined ? this.estimateProfit(position, currentPrice) : undefined,
+      swap: money(position.swap, position.moneyDigits),
+      time: new Date(tradeData.openTimestamp),
+      comment: tradeData.comment,
+    };
+  }
+
+  /**
+   * Gross P&L in the deposit currency from the streamed price; undefined when neither side of
+   * the symbol is the deposit currency (getPositions asks the server instead)
+   */
+  private estimateProfit(position: ProtoObject, price: number): number | undefined {
+    const { tradeData } = position;
+    const units = tradeData.volume / 100;
+    const move = tradeData.tradeSide === TradeSide.BUY ? price - position.price : position.price - price;
+    const entry = this.symbols.get(tradeData.symbolId);
+    const currency = this.depositCurrency();
+
+    if (entry?.quoteAsset === currency) return move * units;
+    if (entry?.baseAsset === currency) return (move * units) / price;
+    return undefined;
+  }
+
+  private toOrderUpdate(order: ProtoObject): OrderUpdate {
+    const { tradeData } = order;
+    const side = tradeData.tradeSide === TradeSide.BUY ? 'BUY' : 'SELL';
+    const kind = order.orderType === OrderType.LIMIT ? 'LIMIT' : 'STOP';
+    return {
+      id: String(order.orderId),
+      symbol: this.botSymbol(tradeData.symbolId),
+      type: `ORDER_TYPE_${side}_${kind}`,
+      openPrice: order.limitPrice ?? order.executionPrice,
+      volume: tradeData.volume / this.lotSize(tradeData.symbolId),
+      stopLoss: order.stopLoss,
+      takeProfit: order.takeProfit,
+      state: 'ORDER_STATE_PLACED',
+    };
+  }
+}
+
+// Export singleton instance
+export const ctraderClient = new CTraderClient();
+export default ctraderClient;
@@ -0,0 +1,211 @@
+import * as net from 'net';
+import * as tls from 'tls';
+import {
+  decodeFrames,
+  encodeFrame,
+  ExecutionType,
+  Frame,
+  PayloadType,
+  ProtoObject,
+} from './proto';
+
+/**
+ * cTrader Open API Connection
+ * One TCP (TLS in production) socket: length-prefixed protobuf frames, requests matched to
+ * responses by clientMsgId, heartbeats, and every inbound frame handed to onFrame.
+ */
+
+export interface CTraderConnectionOptions {
+  host: string;
+  port: number;
+  tls: boolean;
+  requestTimeoutMs: number;
+  heartbeatIntervalMs: number;
+}
+
+interface PendingRequest {
+  done: (frame: Frame) => boolean;
+  resolve: (frame: Frame) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * The error carried by a frame, if it reports a failed request
+ */
+export function frameError(frame: Frame): Error | null {
+  const { payloadType, message } = frame;
+  if (
+    payloadType === PayloadType.ERROR_RES ||
+    payloadType === PayloadType.OA_ERROR_RES ||
+    payloadType === PayloadType.ORDER_ERROR_EVENT
+  ) {
+    return new Error(`cTrader ${message.errorCode}${message.description ? `: ${message.description}` : ''}`);
+  }
+  if (
+    payloadType === PayloadType.EXECUTION_EVENT &&
+    (message.executionType === ExecutionType.ORDER_REJECTED ||
+      message.executionType === ExecutionType.ORDER_CANCEL_REJECTED)
+  ) {
+    return new Error(`cTrader order rejected: ${message.errorCode || 'unknown reason'}`);
+  }
+  return null;
+}
+
+export class CTraderConnection {
+  /** Every inbound frame, before the request it answers (if any) resolves */
+  onFrame: ((frame: Frame) => void) | null = null;
+  /** Socket closed; error is set unless close() was called */
+  onClose: ((error?: Error) => void) | null = null;
+
+  private options: CTraderConnectionOptions;
+  private socket: net.Socket | null = null;
+  private buffer: Buffer = Buffer.alloc(0);
+  private pending: Map<string, PendingRequest> = new Map();
+  private nextMsgId = 1;
+  private heartbeat: NodeJS.Timeout | null = null;
+  private closing = false;
+
+  constructor(options: CTraderConnectionOptions) {
+    this.options = options;
+  }
+
+  async open(): Promise<void> {
+    const { host, port } = this.options;
+    this.closing = false;
+
+    await new Promise<void>((resolve, reject) => {
+      const onError = (error: Error) => reject(error);
+      const socket = this.options.tls
+        ? tls.connect({ host, port, servername: host }, () => {
+            socket.off('error', onError);
+            resolve();
+          })
+        : net.connect({ host, port }, () => {
+            socket.off('error', onError);
+            resolve();
+          });
+      socket.once('error', onError);
+      this.socket = socket;
+    });
+
+    const socket = this.socket!;
+    socket.setNoDelay(true);
+    socket.on('data', (chunk: Buffer) => this.handleData(chunk));
+    socket.on('error', (error) => console.error('[cTrader] Socket error:', error.message));
+    socket.on('close', () => this.handleClose());
+
+    this.heartbeat = setInterval(() => {
+      if (this.isOpen()) this.send(PayloadType.HEARTBEAT_EVENT);
+    }, this.options.heartbeatIntervalMs);
+    this.heartbeat.unref();
+  }
+
+  close(): void {
+    this.closing = true;
+    this.socket?.end();
+    this.socket?.destroy();
+  }
+
+  /**
+   * Drop the socket as if the server had, so the owner reconnects
+   */
+  drop(): void {
+    this.socket?.destroy();
+  }
+
+  isOpen(): boolean {
+    return !!this.socket && !this.socket.destroyed;
+  }
+
+  send(payloadType: number, message: ProtoObject = {}, clientMsgId?: string): void {
+    if (!this.isOpen()) {
+      throw new Error('cTrader connection is not open');
+    }
+    this.socket!.write(encodeFrame(payloadType, message, clientMsgId));
+  }
+
+  /**
+   * Send a request and wait for the first frame with its clientMsgId that `done` accepts.
+   * Error responses (and rejected orders) reject instead.
+   */
+  request(
+    payloadType: number,
+    message: ProtoObject = {},
+    done: (frame: Frame) => boolean = () => true
+  ): Promise<Frame> {
+    const clientMsgId = String(this.nextMsgId++);
+
+    return new Promise<Frame>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(clientMsgId);
+        reject(new Error(`cTrader request ${payloadType} timed out after ${this.options.requestTimeoutMs}ms`));
+      }, this.options.requestTimeoutMs);
+
+      this.pending.set(clientMsgId, { done, resolve, reject, timer });
+
+      try {
+        this.send(payloadType, message, clientMsgId);
+      } catch (error) {
+        clearTimeout(timer);
+        this.pending.delete(clientMsgId);
+        reject(error);
+      }
+    });
+  }
+
+  private handleData(chunk: Buffer): void {
+    this.buffer = this.buffer.length ? Buffer.concat([this.buffer, chunk]) : chunk;
+
+    let decoded: { frames: Frame[]; rest: Buffer };
+    try {
+      decoded = decodeFrames(this.buffer);
+    } catch (error) {
+      console.error('[cTrader] Undecodable frame, dropping connection:', error);
+      this.socket?.destroy();
+      return;
+    }
+    this.buffer = Buffer.from(decoded.rest);
+
+    for (const frame of decoded.frames) {
+      try {
+        this.onFrame?.(frame);
+      } catch (error) {
+        console.error('[cTrader] Frame handler failed:', error);
+      }
+      this.settle(frame);
+    }
+  }
+
+  private settle(frame: Frame): void {
+    if (!frame.clientMsgId) return;
+    const request = this.pending.get(frame.clientMsgId);
+    if (!request) return;
+
+    const error = frameError(frame);
+    if (!error && !request.done(frame)) return;
+
+    clearTimeout(request.timer);
+    this.pending.delete(frame.clientMsgId);
+    if (error) request.reject(error);
+    else request.resolve(frame);
+  }
+
+  private handleClose(): void {
+    if (this.heartbeat) {
+      clearInterval(this.heartbeat);
+      this.heartbeat = null;
+    }
+    this.socket = null;
+    this.buffer = Buffer.alloc(0);
+
+    const error = this.closing ? undefined : new Error('cTrader connection closed');
+    for (const request of this.pending.values()) {
+      clearTimeout(request.timer);
+      request.reject(error ?? new Error('cTrader connection closed'));
+    }
+    this.pending.clear();
+
+    this.onClose?.(error);
+  }
+}
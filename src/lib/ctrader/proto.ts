@@ -0,0 +1,666 @@
+/**
+ * cTrader Open API Protocol
+ * Minimal protobuf codec plus the subset of OpenApiMessages.proto / OpenApiModelMessages.proto
+ * the broker adapter uses. Field numbers follow Open API 2.x; fields we never read or send
+ * are left out and skipped on decode.
+ *
+ * Frames on the wire: 4-byte big-endian length, then a ProtoMessage
+ * { payloadType, payload (the encoded message), clientMsgId }.
+ */
+
+// ============================================
+// Schemas
+// ============================================
+
+type ScalarKind = 'int32' | 'uint32' | 'int64' | 'uint64' | 'bool' | 'enum' | 'double' | 'string' | 'bytes';
+
+// [field number, kind, 'repeated'?]; kind is a nested schema for message fields
+export type Field = [number, ScalarKind | Schema] | [number, ScalarKind | Schema, 'repeated'];
+export interface Schema {
+  [name: string]: Field;
+}
+
+/** Decoded message: field name -> value (numbers for 64-bit ints, arrays for repeated) */
+export type ProtoObject = Record<string, any>;
+
+// ============================================
+// Enums
+// ============================================
+
+export const PayloadType = {
+  ERROR_RES: 50,
+  HEARTBEAT_EVENT: 51,
+  APPLICATION_AUTH_REQ: 2100,
+  APPLICATION_AUTH_RES: 2101,
+  ACCOUNT_AUTH_REQ: 2102,
+  ACCOUNT_AUTH_RES: 2103,
+  NEW_ORDER_REQ: 2106,
+  CANCEL_ORDER_REQ: 2108,
+  AMEND_POSITION_SLTP_REQ: 2110,
+  CLOSE_POSITION_REQ: 2111,
+  ASSET_LIST_REQ: 2112,
+  ASSET_LIST_RES: 2113,
+  SYMBOLS_LIST_REQ: 2114,
+  SYMBOLS_LIST_RES: 2115,
+  SYMBOL_BY_ID_REQ: 2116,
+  SYMBOL_BY_ID_RES: 2117,
+  TRADER_REQ: 2121,
+  TRADER_RES: 2122,
+  TRADER_UPDATE_EVENT: 2123,
+  RECONCILE_REQ: 2124,
+  RECONCILE_RES: 2125,
+  EXECUTION_EVENT: 2126,
+  SUBSCRIBE_SPOTS_REQ: 2127,
+  SUBSCRIBE_SPOTS_RES: 2128,
+  UNSUBSCRIBE_SPOTS_REQ: 2129,
+  UNSUBSCRIBE_SPOTS_RES: 2130,
+  SPOT_EVENT: 2131,
+  ORDER_ERROR_EVENT: 2132,
+  DEAL_LIST_REQ: 2133,
+  DEAL_LIST_RES: 2134,
+  SUBSCRIBE_LIVE_TRENDBAR_REQ: 2135,
+  UNSUBSCRIBE_LIVE_TRENDBAR_REQ: 2136,
+  GET_TRENDBARS_REQ: 2137,
+  GET_TRENDBARS_RES: 2138,
+  EXPECTED_MARGIN_REQ: 2139,
+  EXPECTED_MARGIN_RES: 2140,
+  OA_ERROR_RES: 2142,
+  CASH_FLOW_HISTORY_LIST_REQ: 2143,
+  CASH_FLOW_HISTORY_LIST_RES: 2144,
+  GET_TICKDATA_REQ: 2145,
+  GET_TICKDATA_RES: 2146,
+  ACCOUNTS_TOKEN_INVALIDATED_EVENT: 2147,
+  CLIENT_DISCONNECT_EVENT: 2148,
+  ACCOUNT_LOGOUT_REQ: 2162,
+  ACCOUNT_LOGOUT_RES: 2163,
+  ACCOUNT_DISCONNECT_EVENT: 2164,
+  SUBSCRIBE_LIVE_TRENDBAR_RES: 2165,
+  UNSUBSCRIBE_LIVE_TRENDBAR_RES: 2166,
+  GET_POSITION_UNREALIZED_PNL_REQ: 2187,
+  GET_POSITION_UNREALIZED_PNL_RES: 2188,
+} as const;
+
+export const OrderType = { MARKET: 1, LIMIT: 2, STOP: 3 } as const;
+export const TradeSide = { BUY: 1, SELL: 2 } as const;
+export const OrderStatus = { ACCEPTED: 1, FILLED: 2, REJECTED: 3, EXPIRED: 4, CANCELLED: 5 } as const;
+export const PositionStatus = { OPEN: 1, CLOSED: 2, CREATED: 3, ERROR: 4 } as const;
+export const DealStatus = { FILLED: 2, PARTIALLY_FILLED: 3, REJECTED: 4 } as const;
+export const QuoteType = { BID: 1, ASK: 2 } as const;
+export const CashFlowOperation = { DEPOSIT: 0, WITHDRAW: 1 } as const;
+
+export const ExecutionType = {
+  ORDER_ACCEPTED: 2,
+  ORDER_FILLED: 3,
+  ORDER_REPLACED: 4,
+  ORDER_CANCELLED: 5,
+  ORDER_EXPIRED: 6,
+  ORDER_REJECTED: 7,
+  ORDER_CANCEL_REJECTED: 8,
+  SWAP: 9,
+  DEPOSIT_WITHDRAW: 10,
+  ORDER_PARTIAL_FILL: 11,
+} as const;
+
+export const TrendbarPeriod = {
+  M1: 1, M2: 2, M3: 3, M4: 4, M5: 5, M10: 6, M15: 7, M30: 8,
+  H1: 9, H4: 10, H12: 11, D1: 12, W1: 13, MN1: 14,
+} as const;
+
+/** Prices in spot events, trendbars and tick data are integers in 1/100000 */
+export const PRICE_SCALE = 100000;
+
+// ============================================
+// Model Messages
+// ============================================
+
+const ASSET: Schema = {
+  assetId: [1, 'int64'],
+  name: [2, 'string'],
+  displayName: [3, 'string'],
+  digits: [4, 'int32'],
+};
+
+const LIGHT_SYMBOL: Schema = {
+  symbolId: [1, 'int64'],
+  symbolName: [2, 'string'],
+  enabled: [3, 'bool'],
+  baseAssetId: [4, 'int64'],
+  quoteAssetId: [5, 'int64'],
+  symbolCategoryId: [6, 'int64'],
+  description: [7, 'string'],
+};
+
+const SYMBOL: Schema = {
+  symbolId: [1, 'int64'],
+  digits: [2, 'int32'],
+  pipPosition: [3, 'int32'],
+  swapLong: [7, 'double'],
+  swapShort: [8, 'double'],
+  maxVolume: [9, 'int64'], // In cents of units, like every volume
+  minVolume: [10, 'int64'],
+  stepVolume: [11, 'int64'],
+  lotSize: [30, 'int64'],
+};
+
+const TRADER: Schema = {
+  ctidTraderAccountId: [1, 'int64'],
+  balance: [2, 'int64'], // Money fields are integers scaled by 10^moneyDigits
+  depositAssetId: [8, 'int64'],
+  leverageInCents: [10, 'uint32'],
+  traderLogin: [14, 'int64'],
+  brokerName: [16, 'string'],
+  moneyDigits: [20, 'uint32'],
+};
+
+const TRADE_DATA: Schema = {
+  symbolId: [1, 'int64'],
+  volume: [2, 'int64'],
+  tradeSide: [3, 'enum'],
+  openTimestamp: [4, 'int64'],
+  label: [5, 'string'],
+  comment: [7, 'string'],
+  closeTimestamp: [9, 'int64'],
+};
+
+const POSITION: Schema = {
+  positionId: [1, 'int64'],
+  tradeData: [2, TRADE_DATA],
+  positionStatus: [3, 'enum'],
+  swap: [4, 'int64'],
+  price: [5, 'double'],
+  stopLoss: [6, 'double'],
+  takeProfit: [7, 'double'],
+  utcLastUpdateTimestamp: [8, 'int64'],
+  commission: [9, 'int64'],
+  marginRate: [10, 'double'],
+  usedMargin: [13, 'uint64'],
+  moneyDigits: [15, 'uint32'],
+};
+
+const ORDER: Schema = {
+  orderId: [1, 'int64'],
+  tradeData: [2, TRADE_DATA],
+  orderType: [3, 'enum'],
+  orderStatus: [4, 'enum'],
+  executionPrice: [7, 'double'],
+  executedVolume: [8, 'int64'],
+  utcLastUpdateTimestamp: [9, 'int64'],
+  closingOrder: [12, 'bool'],
+  limitPrice: [13, 'double'],
+  stopLoss: [15, 'double'],
+  takeProfit: [16, 'double'],
+  positionId: [19, 'int64'],
+};
+
+const CLOSE_POSITION_DETAIL: Schema = {
+  entryPrice: [1, 'double'],
+  grossProfit: [2, 'int64'],
+  swap: [3, 'int64'],
+  commission: [4, 'int64'],
+  balance: [5, 'int64'],
+  closedVolume: [7, 'int64'],
+  moneyDigits: [9, 'uint32'],
+};
+
+const DEAL: Schema = {
+  dealId: [1, 'int64'],
+  orderId: [2, 'int64'],
+  positionId: [3, 'int64'],
+  volume: [4, 'int64'],
+  filledVolume: [5, 'int64'],
+  symbolId: [6, 'int64'],
+  createTimestamp: [7, 'int64'],
+  executionTimestamp: [8, 'int64'],
+  executionPrice: [10, 'double'],
+  tradeSide: [11, 'enum'],
+  dealStatus: [12, 'enum'],
+  commission: [14, 'int64'],
+  closePositionDetail: [16, CLOSE_POSITION_DETAIL],
+  moneyDigits: [17, 'uint32'],
+};
+
+const DEPOSIT_WITHDRAW: Schema = {
+  operationType: [1, 'enum'],
+  balanceHistoryId: [2, 'int64'],
+  balance: [3, 'int64'],
+  delta: [4, 'int64'],
+  changeBalanceTimestamp: [5, 'int64'],
+  externalNote: [6, 'string'],
+  moneyDigits: [9, 'uint32'],
+};
+
+const TRENDBAR: Schema = {
+  volume: [3, 'int64'],
+  period: [4, 'enum'],
+  low: [5, 'int64'],
+  deltaOpen: [6, 'uint64'],
+  deltaClose: [7, 'uint64'],
+  deltaHigh: [8, 'uint64'],
+  utcTimestampInMinutes: [9, 'uint32'],
+};
+
+// First entry is absolute, the rest are deltas from the previous entry (newest first)
+const TICK_DATA: Schema = {
+  timestamp: [1, 'int64'],
+  tick: [2, 'int64'],
+};
+
+const EXPECTED_MARGIN: Schema = {
+  volume: [1, 'int64'],
+  buyMargin: [2, 'int64'],
+  sellMargin: [3, 'int64'],
+};
+
+const POSITION_UNREALIZED_PNL: Schema = {
+  positionId: [1, 'int64'],
+  grossUnrealizedPnL: [2, 'int64'],
+  netUnrealizedPnL: [3, 'int64'],
+};
+
+// ============================================
+// Messages by Payload Type
+// ============================================
+
+const ACCOUNT_ONLY: Schema = { ctidTraderAccountId: [2, 'int64'] };
+const FROM_TO: Schema = { ctidTraderAccountId: [2, 'int64'], fromTimestamp: [3, 'int64'], toTimestamp: [4, 'int64'] };
+const SPOTS_REQ: Schema = { ctidTraderAccountId: [2, 'int64'], symbolId: [3, 'int64', 'repeated'] };
+const LIVE_TRENDBAR_REQ: Schema = { ctidTraderAccountId: [2, 'int64'], period: [3, 'enum'], symbolId: [4, 'int64'] };
+
+export const MESSAGES: Record<number, Schema> = {
+  [PayloadType.ERROR_RES]: {
+    errorCode: [2, 'string'],
+    description: [3, 'string'],
+    maintenanceEndTimestamp: [4, 'uint64'],
+  },
+  [PayloadType.HEARTBEAT_EVENT]: {},
+  [PayloadType.APPLICATION_AUTH_REQ]: { clientId: [2, 'string'], clientSecret: [3, 'string'] },
+  [PayloadType.APPLICATION_AUTH_RES]: {},
+  [PayloadType.ACCOUNT_AUTH_REQ]: { ctidTraderAccountId: [2, 'int64'], accessToken: [3, 'string'] },
+  [PayloadType.ACCOUNT_AUTH_RES]: ACCOUNT_ONLY,
+  [PayloadType.NEW_ORDER_REQ]: {
+    ctidTraderAccountId: [2, 'int64'],
+    symbolId: [3, 'int64'],
+    orderType: [4, 'enum'],
+    tradeSide: [5, 'enum'],
+    volume: [6, 'int64'],
+    limitPrice: [7, 'double'],
+    stopLoss: [11, 'double'], // Absolute stops are not accepted on MARKET orders
+    takeProfit: [12, 'double'],
+    comment: [13, 'string'],
+    label: [16, 'string'],
+    positionId: [17, 'int64'],
+    relativeStopLoss: [19, 'int64'], // Distance from the fill in 1/100000, MARKET orders only
+    relativeTakeProfit: [20, 'int64'],
+  },
+  [PayloadType.CANCEL_ORDER_REQ]: { ctidTraderAccountId: [2, 'int64'], orderId: [3, 'int64'] },
+  [PayloadType.AMEND_POSITION_SLTP_REQ]: {
+    ctidTraderAccountId: [2, 'int64'],
+    positionId: [3, 'int64'],
+    stopLoss: [4, 'double'],
+    takeProfit: [5, 'double'],
+  },
+  [PayloadType.CLOSE_POSITION_REQ]: {
+    ctidTraderAccountId: [2, 'int64'],
+    positionId: [3, 'int64'],
+    volume: [4, 'int64'],
+  },
+  [PayloadType.ASSET_LIST_REQ]: ACCOUNT_ONLY,
+  [PayloadType.ASSET_LIST_RES]: { ctidTraderAccountId: [2, 'int64'], asset: [3, ASSET, 'repeated'] },
+  [PayloadType.SYMBOLS_LIST_REQ]: { ctidTraderAccountId: [2, 'int64'], includeArchivedSymbols: [3, 'bool'] },
+  [PayloadType.SYMBOLS_LIST_RES]: { ctidTraderAccountId: [2, 'int64'], symbol: [3, LIGHT_SYMBOL, 'repeated'] },
+  [PayloadType.SYMBOL_BY_ID_REQ]: SPOTS_REQ,
+  [PayloadType.SYMBOL_BY_ID_RES]: { ctidTraderAccountId: [2, 'int64'], symbol: [3, SYMBOL, 'repeated'] },
+  [PayloadType.TRADER_REQ]: ACCOUNT_ONLY,
+  [PayloadType.TRADER_RES]: { ctidTraderAccountId: [2, 'int64'], trader: [3, TRADER] },
+  [PayloadType.TRADER_UPDATE_EVENT]: { ctidTraderAccountId: [2, 'int64'], trader: [3, TRADER] },
+  [PayloadType.RECONCILE_REQ]: ACCOUNT_ONLY,
+  [PayloadType.RECONCILE_RES]: {
+    ctidTraderAccountId: [2, 'int64'],
+    position: [3, POSITION, 'repeated'],
+    order: [4, ORDER, 'repeated'],
+  },
+  [PayloadType.EXECUTION_EVENT]: {
+    ctidTraderAccountId: [2, 'int64'],
+    executionType: [3, 'enum'],
+    position: [4, POSITION],
+    order: [5, ORDER],
+    deal: [6, DEAL],
+    depositWithdraw: [8, DEPOSIT_WITHDRAW],
+    errorCode: [9, 'string'],
+  },
+  [PayloadType.SUBSCRIBE_SPOTS_REQ]: SPOTS_REQ,
+  [PayloadType.SUBSCRIBE_SPOTS_RES]: ACCOUNT_ONLY,
+  [PayloadType.UNSUBSCRIBE_SPOTS_REQ]: SPOTS_REQ,
+  [PayloadType.UNSUBSCRIBE_SPOTS_RES]: ACCOUNT_ONLY,
+  [PayloadType.SPOT_EVENT]: {
+    ctidTraderAccountId: [2, 'int64'],
+    symbolId: [3, 'int64'],
+    bid: [4, 'uint64'],
+    ask: [5, 'uint64'],
+    trendbar: [6, TRENDBAR, 'repeated'],
+    timestamp: [8, 'int64'],
+  },
+  [PayloadType.ORDER_ERROR_EVENT]: {
+    errorCode: [2, 'string'],
+    orderId: [3, 'int64'],
+    ctidTraderAccountId: [5, 'int64'],
+    positionId: [6, 'int64'],
+    description: [7, 'string'],
+  },
+  [PayloadType.DEAL_LIST_REQ]: { ...FROM_TO, maxRows: [5, 'int32'] },
+  [PayloadType.DEAL_LIST_RES]: {
+    ctidTraderAccountId: [2, 'int64'],
+    deal: [3, DEAL, 'repeated'],
+    hasMore: [4, 'bool'],
+  },
+  [PayloadType.SUBSCRIBE_LIVE_TRENDBAR_REQ]: LIVE_TRENDBAR_REQ,
+  [PayloadType.SUBSCRIBE_LIVE_TRENDBAR_RES]: ACCOUNT_ONLY,
+  [PayloadType.UNSUBSCRIBE_LIVE_TRENDBAR_REQ]: LIVE_TRENDBAR_REQ,
+  [PayloadType.UNSUBSCRIBE_LIVE_TRENDBAR_RES]: ACCOUNT_ONLY,
+  [PayloadType.GET_TRENDBARS_REQ]: {
+    ...FROM_TO,
+    period: [5, 'enum'],
+    symbolId: [6, 'int64'],
+    count: [7, 'uint32'],
+  },
+  [PayloadType.GET_TRENDBARS_RES]: {
+    ctidTraderAccountId: [2, 'int64'],
+    period: [3, 'enum'],
+    trendbar: [5, TRENDBAR, 'repeated'],
+    symbolId: [6, 'int64'],
+    hasMore: [7, 'bool'],
+  },
+  [PayloadType.EXPECTED_MARGIN_REQ]: {
+    ctidTraderAccountId: [2, 'int64'],
+    symbolId: [3, 'int64'],
+    volume: [4, 'int64', 'repeated'],
+  },
+  [PayloadType.EXPECTED_MARGIN_RES]: {
+    ctidTraderAccountId: [2, 'int64'],
+    margin: [3, EXPECTED_MARGIN, 'repeated'],
+    moneyDigits: [4, 'uint32'],
+  },
+  [PayloadType.OA_ERROR_RES]: {
+    ctidTraderAccountId: [2, 'int64'],
+    errorCode: [3, 'string'],
+    description: [4, 'string'],
+  },
+  [PayloadType.CASH_FLOW_HISTORY_LIST_REQ]: FROM_TO,
+  [PayloadType.CASH_FLOW_HISTORY_LIST_RES]: {
+    ctidTraderAccountId: [2, 'int64'],
+    depositWithdraw: [3, DEPOSIT_WITHDRAW, 'repeated'],
+  },
+  [PayloadType.GET_TICKDATA_REQ]: {
+    ctidTraderAccountId: [2, 'int64'],
+    symbolId: [3, 'int64'],
+    type: [4, 'enum'],
+    fromTimestamp: [5, 'int64'],
+    toTimestamp: [6, 'int64'],
+  },
+  [PayloadType.GET_TICKDATA_RES]: {
+    ctidTraderAccountId: [2, 'int64'],
+    tickData: [3, TICK_DATA, 'repeated'],
+    hasMore: [4, 'bool'],
+  },
+  [PayloadType.ACCOUNTS_TOKEN_INVALIDATED_EVENT]: {
+    ctidTraderAccountIds: [2, 'int64', 'repeated'],
+    reason: [3, 'string'],
+  },
+  [PayloadType.CLIENT_DISCONNECT_EVENT]: { reason: [2, 'string'] },
+  [PayloadType.ACCOUNT_LOGOUT_REQ]: ACCOUNT_ONLY,
+  [PayloadType.ACCOUNT_LOGOUT_RES]: ACCOUNT_ONLY,
+  [PayloadType.ACCOUNT_DISCONNECT_EVENT]: ACCOUNT_ONLY,
+  [PayloadType.GET_POSITION_UNREALIZED_PNL_REQ]: ACCOUNT_ONLY,
+  [PayloadType.GET_POSITION_UNREALIZED_PNL_RES]: {
+    ctidTraderAccountId: [2, 'int64'],
+    positionUnrealizedPnL: [3, POSITION_UNREALIZED_PNL, 'repeated'],
+    moneyDigits: [4, 'uint32'],
+  },
+};
+
+const FRAME: Schema = {
+  payloadType: [1, 'uint32'],
+  payload: [2, 'bytes'],
+  clientMsgId: [3, 'string'],
+};
+
+// ============================================
+// Wire Format
+// ============================================
+
+const WIRE_VARINT = 0;
+const WIRE_FIXED64 = 1;
+const WIRE_LENGTH = 2;
+const WIRE_FIXED32 = 5;
+
+function wireType(kind: ScalarKind | Schema): number {
+  if (typeof kind !== 'string' || kind === 'string' || kind === 'bytes') return WIRE_LENGTH;
+  return kind === 'double' ? WIRE_FIXED64 : WIRE_VARINT;
+}
+
+function writeVarint(out: number[], value: bigint): void {
+  let v = BigInt.asUintN(64, value);
+  while (v > BigInt(0x7f)) {
+    out.push(Number(v & BigInt(0x7f)) | 0x80);
+    v >>= BigInt(7);
+  }
+  out.push(Number(v));
+}
+
+function writeBytes(out: number[], bytes: Uint8Array): void {
+  writeVarint(out, BigInt(bytes.length));
+  for (const b of bytes) out.push(b);
+}
+
+function writeValue(out: number[], id: number, kind: ScalarKind | Schema, value: any): void {
+  writeVarint(out, BigInt((id << 3) | wireType(kind)));
+
+  if (typeof kind !== 'string') {
+    writeBytes(out, encodeMessage(kind, value));
+    return;
+  }
+
+  switch (kind) {
+    case 'double': {
+      const buf = Buffer.alloc(8);
+      buf.writeDoubleLE(value);
+      for (const b of buf) out.push(b);
+      break;
+    }
+    case 'string':
+      writeBytes(out, Buffer.from(String(value), 'utf8'));
+      break;
+    case 'bytes':
+      writeBytes(out, value);
+      break;
+    case 'bool':
+      writeVarint(out, BigInt(value ? 1 : 0));
+      break;
+    default:
+      writeVarint(out, BigInt(Math.trunc(value)));
+  }
+}
+
+/**
+ * Encode a message; undefined and null fields are left out
+ */
+export function encodeMessage(schema: Schema, message: ProtoObject): Uint8Array {
+  const out: number[] = [];
+  for (const [name, [id, kind, repeated]] of Object.entries(schema)) {
+    const value = message[name];
+    if (value === undefined || value === null) continue;
+    if (repeated) {
+      for (const item of value as any[]) writeValue(out, id, kind, item);
+    } else {
+      writeValue(out, id, kind, value);
+    }
+  }
+  return Uint8Array.from(out);
+}
+
+class Reader {
+  pos = 0;
+  constructor(private buf: Buffer) {}
+
+  get done(): boolean {
+    return this.pos >= this.buf.length;
+  }
+
+  varint(): bigint {
+    let result = BigInt(0);
+    let shift = BigInt(0);
+    for (;;) {
+      if (this.pos >= this.buf.length) throw new Error('Truncated varint');
+      const byte = this.buf[this.pos++];
+      result |= BigInt(byte & 0x7f) << shift;
+      if ((byte & 0x80) === 0) return result;
+      shift += BigInt(7);
+    }
+  }
+
+  bytes(): Buffer {
+    const length = Number(this.varint());
+    if (this.pos + length > this.buf.length) throw new Error('Truncated field');
+    const bytes = this.buf.subarray(this.pos, this.pos + length);
+    this.pos += length;
+    return bytes;
+  }
+
+  double(): number {
+    const value = this.buf.readDoubleLE(this.pos);
+    this.pos += 8;
+    return value;
+  }
+
+  skip(wire: number): void {
+    if (wire === WIRE_VARINT) this.varint();
+    else if (wire === WIRE_FIXED64) this.pos += 8;
+    else if (wire === WIRE_LENGTH) this.bytes();
+    else if (wire === WIRE_FIXED32) this.pos += 4;
+    else throw new Error(`Unsupported wire type ${wire}`);
+  }
+}
+
+function fromVarint(kind: ScalarKind, raw: bigint): number | boolean {
+  switch (kind) {
+    case 'bool':
+      return raw !== BigInt(0);
+    case 'int32':
+    case 'enum':
+      return Number(BigInt.asIntN(32, raw));
+    case 'int64':
+      return Number(BigInt.asIntN(64, raw));
+    default:
+      return Number(raw);
+  }
+}
+
+function readValue(reader: Reader, kind: ScalarKind | Schema): any {
+  if (typeof kind !== 'string') return decodeMessage(kind, reader.bytes());
+  switch (kind) {
+    case 'double':
+      return reader.double();
+    case 'string':
+      return reader.bytes().toString('utf8');
+    case 'bytes':
+      return Buffer.from(reader.bytes());
+    default:
+      return fromVarint(kind, reader.varint());
+  }
+}
+
+const fieldIndex = new WeakMap<Schema, Map<number, [string, Field]>>();
+
+function indexFields(schema: Schema): Map<number, [string, Field]> {
+  let index = fieldIndex.get(schema);
+  if (!index) {
+    index = new Map(Object.entries(schema).map(([name, field]) => [field[0], [name, field]]));
+    fieldIndex.set(schema, index);
+  }
+  return index;
+}
+
+/**
+ * Decode a message; unknown fields are skipped, repeated fields always come back as arrays
+ */
+export function decodeMessage(schema: Schema, bytes: Uint8Array): ProtoObject {
+  const index = indexFields(schema);
+  const reader = new Reader(Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength));
+  const message: ProtoObject = {};
+
+  for (const [name, [, , repeated]] of Object.entries(schema)) {
+    if (repeated) message[name] = [];
+  }
+
+  while (!reader.done) {
+    const tag = Number(reader.varint());
+    const id = tag >>> 3;
+    const wire = tag & 7;
+    const entry = index.get(id);
+    if (!entry) {
+      reader.skip(wire);
+      continue;
+    }
+
+    const [name, [, kind, repeated]] = entry;
+    if (repeated && wire === WIRE_LENGTH && typeof kind === 'string' && wireType(kind) !== WIRE_LENGTH) {
+      // Packed repeated scalars
+      const packed = new Reader(reader.bytes());
+      while (!packed.done) message[name].push(readValue(packed, kind));
+    } else if (repeated) {
+      message[name].push(readValue(reader, kind));
+    } else {
+      message[name] = readValue(reader, kind);
+    }
+  }
+
+  return message;
+}
+
+// ============================================
+// Frames
+// ============================================
+
+export interface Frame {
+  payloadType: number;
+  message: ProtoObject;
+  clientMsgId?: string;
+}
+
+/**
+ * Length-prefixed frame for a message of a known payload type
+ */
+export function encodeFrame(payloadType: number, message: ProtoObject = {}, clientMsgId?: string): Buffer {
+  const schema = MESSAGES[payloadType];
+  if (!schema) throw new Error(`Unknown cTrader payload type ${payloadType}`);
+  const payload = encodeMessage(schema, message);
+  const body = encodeMessage(FRAME, { payloadType, payload: payload.length ? payload : undefined, clientMsgId });
+  const frame = Buffer.alloc(4 + body.length);
+  frame.writeUInt32BE(body.length, 0);
+  frame.set(body, 4);
+  return frame;
+}
+
+/**
+ * Split a stream buffer into complete frames
+ * @returns the decoded frames and the bytes left over for the next read
+ */
+export function decodeFrames(buffer: Buffer): { frames: Frame[]; rest: Buffer } {
+  const frames: Frame[] = [];
+  let offset = 0;
+
+  while (buffer.length - offset >= 4) {
+    const length = buffer.readUInt32BE(offset);
+    if (buffer.length - offset - 4 < length) break;
+    const outer = decodeMessage(FRAME, buffer.subarray(offset + 4, offset + 4 + length));
+    const schema = MESSAGES[outer.payloadType];
+    frames.push({
+      payloadType: outer.payloadType,
+      message: schema ? decodeMessage(schema, outer.payload ?? new Uint8Array()) : {},
+      clientMsgId: outer.clientMsgId,
+    });
+    offset += 4 + length;
+  }
+
+  return { frames, rest: buffer.subarray(offset) };
+}
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { createHash } from 'crypto';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { parseBi5Path, decodeBi5Ticks, decodeBi5Candles, defaultPointFactor } from '../dukascopy';
+import { decompressLzma } from '../lzma';
+
+// lzma.compress(records, format=lzma.FORMAT_ALONE) of two tick records:
+// (1500 ms, ask 108512, bid 108505, 1.5, 2.25) and (61000 ms, ask 108520, bid 108511, 1, 1)
+const TICKS_BI5 = 'XQAAgAD//////////wAAYBQ56RTC9OvEumUjCvhpyBpOeSwi1XPWR1G0Lqv2dTCw//axtAA=';
+// Three M1 candle records, the middle one a flat zero-volume filler
+const CANDLES_BI5 = 'XQAAgAD//////////wAAaP6xRIiGLG75ex5Fy6rpFWVhSqNmEYfpl4WE68wpOS6jFnI//Y+EAA==';
+
+function fromBase64(value: string): Uint8Array {
+  return new Uint8Array(Buffer.from(value, 'base64'));
+}
+
+describe('decompressLzma', () => {
+  it('decodes an lzma-alone stream with unknown size', () => {
+    expect(decompressLzma(fromBase64(TICKS_BI5))).toHaveLength(40);
+  });
+
+  it('decodes a stream through every match and rep path', () => {
+    // fixtures/ticks.lzma: 1000 random-walk tick records (xz's lzma-alone format, end marker
+    // instead of a size) whose stream uses aligned distances, rep0-rep3, short reps and long matches
+    const input = new Uint8Array(readFileSync(join(__dirname, 'fixtures', 'ticks.lzma')));
+    const output = decompressLzma(input);
+
+    expect(output).toHaveLength(20_000);
+    expect(createHash('sha256').update(output).digest('hex')).toBe(
+      'beb878fb887e417b406b676eb5d2f36eb802eb048d9f86be4078b96e38f09241'
+    );
+  });
+
+  it('returns nothing for an empty file', () => {
+    expect(decompressLzma(new Uint8Array(0))).toHaveLength(0);
+  });
+});
+
+describe('parseBi5Path', () => {
+  it('reads hourly tick files with 0-based months', () => {
+    expect(parseBi5Path('datafeed/EURUSD/2024/00/02/13h_ticks.bi5')).toEqual({
+      kind: 'ticks',
+      start: new Date(Date.UTC(2024, 0, 2, 13)),
+    });
+  });
+
+  it('reads candle files of each period', () => {
+    expect(parseBi5Path('EURUSD\\2024\\05\\17\\BID_candles_min_1.bi5')).toEqual({
+      kind: 'candles',
+      start: new Date(Date.UTC(2024, 5, 17)),
+      timeframe: 'M1',
+      side: 'BID',
+    });
+    expect(parseBi5Path('EURUSD/2024/05/ASK_candles_hour_1.bi5')).toMatchObject({
+      start: new Date(Date.UTC(2024, 5, 1)),
+      timeframe: 'H1',
+      side: 'ASK',
+    });
+    expect(parseBi5Path('EURUSD/2024/BID_candles_day_1.bi5')).toMatchObject({
+      start: new Date(Date.UTC(2024, 0, 1)),
+      timeframe: 'D1',
+    });
+  });
+
+  it('rejects other files', () => {
+    expect(() => parseBi5Path('EURUSD/2024/00/02/ticks.bi5')).toThrow('Not a Dukascopy bi5 file name');
+    expect(() => parseBi5Path('13h_ticks.bi5')).toThrow('Cannot read the date');
+  });
+});
+
+describe('bi5 records', () => {
+  it('uses 3 decimals for JPY and metals', () => {
+    expect(defaultPointFactor('USDJPY')).toBe(1e3);
+    expect(defaultPointFactor('XAUUSD.s')).toBe(1e3);
+    expect(defaultPointFactor('EURUSD')).toBe(1e5);
+  });
+
+  it('decodes tick records from the hour start', () => {
+    const hour = new Date(Date.UTC(2024, 0, 2, 13));
+    const ticks = decodeBi5Ticks(fromBase64(TICKS_BI5), hour, 'EURUSD', 1e5);
+
+    expect(ticks).toHaveLength(2);
+    expect(ticks[0].time).toEqual(new Date(Date.UTC(2024, 0, 2, 13, 0, 1, 500)));
+    expect(ticks[0].ask).toBeCloseTo(1.08512, 10);
+    expect(ticks[0].bid).toBeCloseTo(1.08505, 10);
+    expect(ticks[1].time).toEqual(new Date(Date.UTC(2024, 0, 2, 13, 1, 1)));
+  });
+
+  it('decodes candle records and drops filler candles', () => {
+    const day = new Date(Date.UTC(2024, 0, 2));
+    const candles = decodeBi5Candles(fromBase64(CANDLES_BI5), day, 'EURUSD', 'M1', 1e5);
+
+    expect(candles).toHaveLength(2);
+    expect(candles[0].time).toEqual(day);
+    expect(candles[0].open).toBeCloseTo(1.085, 10);
+    expect(candles[0].close).toBeCloseTo(1.0851, 10);
+    expect(candles[0].low).toBeCloseTo(1.0849, 10);
+    expect(candles[0].high).toBeCloseTo(1.0853, 10);
+    expect(candles[0].volume).toBe(12.5);
+    expect(candles[1].time).toEqual(new Date(Date.UTC(2024, 0, 2, 0, 2)));
+  });
+});
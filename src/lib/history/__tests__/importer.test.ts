@@ -0,0 +1,105 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { mkdtemp, mkdir, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+vi.mock('../../db', () => ({ prisma: {} }));
+
+import { historyImporter, inferTimeframe, detectFormat } from '../importer';
+
+const MT5_HEADER = '<DATE>\t<TIME>\t<OPEN>\t<HIGH>\t<LOW>\t<CLOSE>\t<TICKVOL>\t<VOL>\t<SPREAD>';
+// Ticks of 2024-01-02 13:00 UTC, see dukascopy.test.ts
+const TICKS_BI5 = 'XQAAgAD//////////wAAYBQ56RTC9OvEumUjCvhpyBpOeSwi1XPWR1G0Lqv2dTCw//axtAA=';
+
+function mt5Bars(count: number): string {
+  const rows = Array.from({ length: count }, (_, i) => {
+    const minute = String(i).padStart(2, '0');
+    return `2024.01.15\t02:${minute}:00\t2050.00\t2051.00\t2049.00\t2050.50\t100\t0\t15`;
+  });
+  return [MT5_HEADER, ...rows].join('\r\n');
+}
+
+describe('format detection', () => {
+  it('infers the timeframe from MT5 and Dukascopy file names', () => {
+    expect(inferTimeframe('exports/XAUUSD.s_M15_202401020000_202412312345.csv')).toBe('M15');
+    expect(inferTimeframe('XAUUSD.s_H4_2024.csv')).toBe('H4');
+    expect(inferTimeframe('EURUSD_Candlestick_1_M_BID_01.01.2024-31.12.2024.csv')).toBe('M1');
+    expect(inferTimeframe('EURUSD_Candlestick_4_Hour_ASK_01.01.2024-31.12.2024.csv')).toBe('H4');
+    expect(inferTimeframe('EURUSD_Ticks_01.01.2024.csv')).toBeUndefined();
+  });
+
+  it('tells the formats apart by their headers', () => {
+    expect(detectFormat('a.csv', MT5_HEADER)).toBe('mt5-bars');
+    expect(detectFormat('a.csv', '<DATE>\t<TIME>\t<BID>\t<ASK>\t<LAST>\t<VOLUME>\t<FLAGS>')).toBe('mt5-ticks');
+    expect(detectFormat('a.csv', 'Gmt time,Open,High,Low,Close,Volume')).toBe('dukascopy-bars');
+    expect(detectFormat('a.csv', 'Gmt time,Ask,Bid,AskVolume,BidVolume')).toBe('dukascopy-ticks');
+    expect(detectFormat('13h_ticks.bi5', '')).toBe('dukascopy-bi5');
+    expect(() => detectFormat('a.csv', 'foo,bar')).toThrow('Unrecognised history file');
+  });
+});
+
+describe('historyImporter (dry run)', () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'history-import-'));
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('imports MT5 bars and resamples them to every higher timeframe', async () => {
+    const path = join(dir, 'XAUUSD.s_M1_202401150200_202401150209.csv');
+    await writeFile(path, mt5Bars(10));
+
+    const summary = await historyImporter.importFiles([path], { symbol: 'XAUUSD.s', dryRun: true });
+
+    expect(summary.format).toBe('mt5-bars');
+    expect(summary.from).toEqual(new Date(Date.UTC(2024, 0, 15, 0, 0)));
+    expect(summary.to).toEqual(new Date(Date.UTC(2024, 0, 15, 0, 9)));
+    expect(summary.candles).toEqual({ M1: 10, M5: 2, M15: 1, M30: 1, H1: 1, H4: 1, D1: 1, W1: 1 });
+    expect(summary.gaps).toEqual([]);
+  });
+
+  it('reads UTF-16 exports', async () => {
+    const path = join(dir, 'utf16', 'XAUUSD.s_M5_2024.csv');
+    await mkdir(join(dir, 'utf16'));
+    await writeFile(path, Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from(mt5Bars(3), 'utf16le')]));
+
+    const summary = await historyImporter.importFiles([join(dir, 'utf16')], {
+      symbol: 'XAUUSD.s',
+      timeframe: 'M5',
+      timeframes: ['M5', 'H1'],
+      dryRun: true,
+    });
+
+    expect(summary.files).toBe(1);
+    expect(summary.candles).toEqual({ M5: 3, H1: 1 });
+  });
+
+  it('imports a Dukascopy datafeed tree of tick files', async () => {
+    const hourDir = join(dir, 'EURUSD', '2024', '00', '02');
+    await mkdir(hourDir, { recursive: true });
+    await writeFile(join(hourDir, '13h_ticks.bi5'), Buffer.from(TICKS_BI5, 'base64'));
+
+    const summary = await historyImporter.importFiles([join(dir, 'EURUSD')], {
+      symbol: 'EURUSD',
+      timeframes: ['M1'],
+      dryRun: true,
+    });
+
+    expect(summary.format).toBe('dukascopy-bi5');
+    expect(summary.ticks).toBe(2);
+    expect(summary.candles).toEqual({ M1: 2 });
+    expect(summary.from).toEqual(new Date(Date.UTC(2024, 0, 2, 13, 0)));
+  });
+
+  it('needs a timeframe for bar files without one in the name', async () => {
+    const path = join(dir, 'bars.csv');
+    await writeFile(path, mt5Bars(1));
+    await expect(historyImporter.importFiles([path], { symbol: 'XAUUSD.s', dryRun: true })).rejects.toThrow(
+      'Cannot tell the timeframe'
+    );
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, it, expect } from 'vitest';
+import {
+  isUSDaylightSaving,
+  parseTimestamp,
+  parseMT5Bars,
+  parseMT5Ticks,
+  parseDukascopyCandles,
+  parseDukascopyTicks,
+  toUTC,
+} from '../parsers';
+
+async function collect<T>(items: AsyncIterable<T>): Promise<T[]> {
+  const result: T[] = [];
+  for await (const item of items) result.push(item);
+  return result;
+}
+
+describe('timezones', () => {
+  it('follows the US daylight saving switch', () => {
+    // 2024: second Sunday of March is the 10th, first Sunday of November the 3rd
+    expect(isUSDaylightSaving(Date.UTC(2024, 2, 10, 6, 59))).toBe(false);
+    expect(isUSDaylightSaving(Date.UTC(2024, 2, 10, 7))).toBe(true);
+    expect(isUSDaylightSaving(Date.UTC(2024, 10, 3, 5, 59))).toBe(true);
+    expect(isUSDaylightSaving(Date.UTC(2024, 10, 3, 6))).toBe(false);
+  });
+
+  it('converts NY_CLOSE server time to UTC with the seasonal offset', () => {
+    expect(toUTC(Date.UTC(2024, 0, 15, 2), 'NY_CLOSE').toISOString()).toBe('2024-01-15T00:00:00.000Z');
+    expect(toUTC(Date.UTC(2024, 6, 15, 3), 'NY_CLOSE').toISOString()).toBe('2024-07-15T00:00:00.000Z');
+  });
+
+  it('converts fixed offsets in minutes', () => {
+    expect(toUTC(Date.UTC(2024, 0, 15, 5, 30), 330).toISOString()).toBe('2024-01-15T00:00:00.000Z');
+    expect(toUTC(Date.UTC(2024, 0, 15), -300).toISOString()).toBe('2024-01-15T05:00:00.000Z');
+  });
+});
+
+describe('parseTimestamp', () => {
+  it('reads MT5, ISO and Dukascopy date layouts', () => {
+    const expected = Date.UTC(2024, 0, 15, 13, 45, 30, 250);
+    expect(parseTimestamp('2024.01.15', '13:45:30.250').wallClockMs).toBe(expected);
+    expect(parseTimestamp('2024-01-15T13:45:30.250').wallClockMs).toBe(expected);
+    expect(parseTimestamp('15.01.2024 13:45:30.250').wallClockMs).toBe(expected);
+    expect(parseTimestamp('2024.01.15').wallClockMs).toBe(Date.UTC(2024, 0, 15));
+  });
+
+  it('applies and reports an explicit zone', () => {
+    const zoned = parseTimestamp('15.01.2024 02:00:00.000 GMT+0200');
+    expect(zoned).toEqual({ wallClockMs: Date.UTC(2024, 0, 15), zoned: true });
+    expect(parseTimestamp('2024-01-15 00:00:00 UTC').zoned).toBe(true);
+    expect(parseTimestamp('2024.01.15', '00:00').zoned).toBe(false);
+  });
+
+  it('rejects unknown dates', () => {
+    expect(() => parseTimestamp('15 Jan 2024')).toThrow('Unrecognised date');
+  });
+});
+
+describe('parseMT5Bars', () => {
+  it('reads an Export bars file in server time', async () => {
+    const lines = [
+      '<DATE>\t<TIME>\t<OPEN>\t<HIGH>\t<LOW>\t<CLOSE>\t<TICKVOL>\t<VOL>\t<SPREAD>',
+      '2024.01.15\t02:00:00\t2050.10\t2052.00\t2049.50\t2051.20\t1234\t0\t15',
+      '2024.07.15\t03:00:00\t2400.00\t2401.00\t2399.00\t2400.50\t0\t77\t12',
+    ];
+
+    const candles = await collect(parseMT5Bars(lines, { symbol: 'XAUUSD.s', timeframe: 'M1' }));
+
+    expect(candles).toHaveLength(2);
+    expect(candles[0]).toEqual({
+      time: new Date(Date.UTC(2024, 0, 15)),
+      open: 2050.1,
+      high: 2052,
+      low: 2049.5,
+      close: 2051.2,
+      volume: 1234,
+      symbol: 'XAUUSD.s',
+      timeframe: 'M1',
+    });
+    expect(candles[1].time).toEqual(new Date(Date.UTC(2024, 6, 15)));
+    expect(candles[1].volume).toBe(77);
+  });
+
+  it('honours an explicit timezone', async () => {
+    const lines = ['<DATE>,<TIME>,<OPEN>,<HIGH>,<LOW>,<CLOSE>,<TICKVOL>', '2024.01.15,02:00,1,2,0.5,1.5,10'];
+    const [candle] = await collect(parseMT5Bars(lines, { symbol: 'X', timeframe: 'H1', timezone: 'UTC' }));
+    expect(candle.time).toEqual(new Date(Date.UTC(2024, 0, 15, 2)));
+  });
+});
+
+describe('parseMT5Ticks', () => {
+  it('carries bid and ask forward and skips incomplete rows', async () => {
+    const lines = [
+      '<DATE>\t<TIME>\t<BID>\t<ASK>\t<LAST>\t<VOLUME>\t<FLAGS>',
+      '2024.01.15\t02:00:00.100\t2050.10\t\t\t\t2',
+      '2024.01.15\t02:00:00.200\t\t2050.40\t\t\t4',
+      '2024.01.15\t02:00:00.300\t2050.20\t\t\t\t2',
+      '2024.01.15\t02:00:00.400\t\t\t2050.30\t1\t8',
+    ];
+
+    const ticks = await collect(parseMT5Ticks(lines, { symbol: 'XAUUSD.s' }));
+
+    expect(ticks).toEqual([
+      { time: new Date(Date.UTC(2024, 0, 15, 0, 0, 0, 200)), bid: 2050.1, ask: 2050.4, symbol: 'XAUUSD.s' },
+      { time: new Date(Date.UTC(2024, 0, 15, 0, 0, 0, 300)), bid: 2050.2, ask: 2050.4, symbol: 'XAUUSD.s' },
+    ]);
+  });
+});
+
+describe('Dukascopy CSV', () => {
+  it('reads GMT candle exports', async () => {
+    const lines = [
+      'Gmt time,Open,High,Low,Close,Volume',
+      '15.01.2024 00:00:00.000,1.09501,1.09520,1.09490,1.09510,152.3',
+    ];
+    const [candle] = await collect(parseDukascopyCandles(lines, { symbol: 'EURUSD', timeframe: 'M1' }));
+    expect(candle.time).toEqual(new Date(Date.UTC(2024, 0, 15)));
+    expect(candle.close).toBe(1.0951);
+    expect(candle.volume).toBe(152.3);
+  });
+
+  it('uses the zone suffix of local-time exports', async () => {
+    const lines = [
+      'Local time,Open,High,Low,Close,Volume',
+      '15.01.2024 02:00:00.000 GMT+0200,1.09501,1.09520,1.09490,1.09510,0',
+    ];
+    const [candle] = await collect(parseDukascopyCandles(lines, { symbol: 'EURUSD', timeframe: 'M1', timezone: 'NY_CLOSE' }));
+    expect(candle.time).toEqual(new Date(Date.UTC(2024, 0, 15)));
+  });
+
+  it('reads tick exports', async () => {
+    const lines = ['Gmt time,Ask,Bid,AskVolume,BidVolume', '15.01.2024 00:00:01.250,1.09512,1.09505,1.5,2.25'];
+    const ticks = await collect(parseDukascopyTicks(lines, { symbol: 'EURUSD' }));
+    expect(ticks).toEqual([
+      { time: new Date(Date.UTC(2024, 0, 15, 0, 0, 1, 250)), bid: 1.09505, ask: 1.09512, symbol: 'EURUSD' },
+    ]);
+  });
+
+  it('names the missing column', async () => {
+    const lines = ['Gmt time,Open,High,Low,Volume', '15.01.2024 00:00:00.000,1,1,1,0'];
+    await expect(collect(parseDukascopyCandles(lines, { symbol: 'EURUSD', timeframe: 'M1' }))).rejects.toThrow(
+      'Missing column close'
+    );
+  });
+});
@@ -0,0 +1,191 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const cache = vi.hoisted(() => ({
+  getCachedCandles: vi.fn(),
+  replaceRange: vi.fn(),
+}));
+vi.mock('../../db', () => ({ prisma: {} }));
+vi.mock('../../cache/candle-cache', () => ({ candleCache: cache }));
+
+import {
+  findOhlcIssues,
+  findSpikes,
+  findDuplicates,
+  compareWithM1,
+  validateCandles,
+  getRepairRanges,
+  dataQuality,
+} from '../quality';
+import { Candle, Timeframe } from '../../types';
+
+const MINUTE = 60 * 1000;
+// Tuesday 16 January 2024, 10:00 UTC
+const START = Date.UTC(2024, 0, 16, 10);
+
+function makeCandle(time: number, open: number, high: number, low: number, close: number, timeframe: Timeframe = 'M1'): Candle {
+  return { time: new Date(time), open, high, low, close, volume: 1, symbol: 'XAUUSD.s', timeframe };
+}
+
+function flatBars(count: number, timeframe: Timeframe = 'M1', start: number = START): Candle[] {
+  const step = timeframe === 'M1' ? MINUTE : 15 * MINUTE;
+  return Array.from({ length: count }, (_, i) => makeCandle(start + i * step, 100, 100.5, 99.5, 100, timeframe));
+}
+
+describe('bar checks', () => {
+  it('finds impossible OHLC', () => {
+    const candles = [
+      makeCandle(START, 100, 101, 99, 100.5),
+      makeCandle(START + MINUTE, 100, 99, 101, 100),
+      makeCandle(START + 2 * MINUTE, 100, 100.2, 99, 100.5),
+      makeCandle(START + 3 * MINUTE, 100, 101, 100.1, 100.5),
+      makeCandle(START + 4 * MINUTE, 0, 101, 99, 100),
+    ];
+
+    expect(findOhlcIssues(candles).map((i) => i.problem)).toEqual([
+      'high-below-low',
+      'high-below-body',
+      'low-above-body',
+      'non-positive',
+    ]);
+  });
+
+  it('finds bars far larger than the median and jumps between adjacent bars', () => {
+    const candles = flatBars(30);
+    candles[10] = makeCandle(START + 10 * MINUTE, 100, 115, 99.5, 100);
+    candles[20] = makeCandle(START + 20 * MINUTE, 112, 112.5, 111.5, 112);
+
+    const spikes = findSpikes(candles, 'M1');
+
+    expect(spikes.map((s) => [s.time.getTime(), s.kind])).toEqual([
+      [START + 10 * MINUTE, 'range'],
+      [START + 20 * MINUTE, 'jump'],
+      [START + 21 * MINUTE, 'jump'],
+    ]);
+    expect(spikes[0].medianRange).toBe(1);
+  });
+
+  it('ignores jumps over a gap', () => {
+    const candles = [...flatBars(10), makeCandle(START + 60 * MINUTE, 120, 120.5, 119.5, 120)];
+    expect(findSpikes(candles, 'M1')).toEqual([]);
+  });
+
+  it('finds duplicate and misaligned bars', () => {
+    const candles = [
+      makeCandle(START, 100, 101, 99, 100),
+      makeCandle(START, 100, 101, 99, 100),
+      makeCandle(START + MINUTE, 100, 101, 99, 100),
+      makeCandle(START + MINUTE + 30_000, 100, 102, 99, 101),
+    ];
+
+    expect(findDuplicates(candles, 'M1')).toEqual([
+      { time: new Date(START), previousTime: new Date(START), conflicting: false },
+      { time: new Date(START + MINUTE + 30_000), previousTime: new Date(START + MINUTE), conflicting: true },
+    ]);
+  });
+
+  it('allows weekly bars shifted by a DST change', () => {
+    const week = 7 * 24 * 60 * MINUTE;
+    const candles = [makeCandle(START, 100, 101, 99, 100, 'W1'), makeCandle(START + week - 60 * MINUTE, 100, 101, 99, 100, 'W1')];
+    expect(findDuplicates(candles, 'W1')).toEqual([]);
+  });
+});
+
+describe('compareWithM1', () => {
+  it('compares only bars with complete M1 data', () => {
+    const m1 = flatBars(30);
+    m1[3] = makeCandle(START + 3 * MINUTE, 100, 101.2, 99.5, 100);
+    m1.splice(20, 1);
+    const m15 = [
+      makeCandle(START, 100, 101.2, 99.5, 100, 'M15'),
+      makeCandle(START + 15 * MINUTE, 100, 100.5, 99.5, 100, 'M15'),
+    ];
+
+    expect(compareWithM1(m15, m1, 'M15', 'UTC')).toEqual({ mismatches: [], comparedBars: 1 });
+
+    m15[0] = makeCandle(START, 100, 101, 99.5, 100, 'M15');
+    expect(compareWithM1(m15, m1, 'M15', 'UTC').mismatches).toEqual([
+      { time: new Date(START), field: 'high', value: 101, expected: 101.2 },
+    ]);
+  });
+});
+
+describe('validateCandles', () => {
+  it('counts lost data but not market closures', () => {
+    // Friday evening into Sunday evening, then a lost hour on Monday
+    const friday = Date.UTC(2024, 0, 19, 21, 58);
+    const candles = [
+      makeCandle(friday, 100, 100.5, 99.5, 100),
+      makeCandle(friday + MINUTE, 100, 100.5, 99.5, 100),
+      makeCandle(Date.UTC(2024, 0, 21, 22), 100, 100.5, 99.5, 100),
+      makeCandle(Date.UTC(2024, 0, 22, 10), 100, 100.5, 99.5, 100),
+    ];
+
+    const report = validateCandles(candles, 'XAUUSD.s', 'M1');
+
+    expect(report.gaps.map((g) => g.kind)).toEqual(['weekend', 'missing']);
+    expect(report.issueCount).toBe(1);
+    expect(report.comparedBars).toBe(0);
+  });
+
+  it('treats weekend gaps in crypto as lost data', () => {
+    const candles = [
+      makeCandle(Date.UTC(2024, 0, 20, 10), 40000, 40010, 39990, 40000),
+      makeCandle(Date.UTC(2024, 0, 20, 12), 40000, 40010, 39990, 40000),
+    ];
+    expect(validateCandles(candles, 'BTCUSD', 'M1').gaps[0].kind).toBe('missing');
+  });
+});
+
+describe('repair', () => {
+  beforeEach(() => {
+    cache.getCachedCandles.mockReset();
+    cache.replaceRange.mockReset();
+  });
+
+  it('merges touching problem ranges', () => {
+    const candles = flatBars(10, 'M15');
+    candles[2] = makeCandle(START + 30 * MINUTE, 100, 99, 101, 100, 'M15');
+    candles[3] = makeCandle(START + 45 * MINUTE, 100, 99, 101, 100, 'M15');
+    candles.splice(6, 2);
+
+    const ranges = getRepairRanges(validateCandles(candles, 'XAUUSD.s', 'M15'));
+
+    expect(ranges).toEqual([
+      { start: new Date(START + 30 * MINUTE), end: new Date(START + 60 * MINUTE - 1) },
+      { start: new Date(START + 90 * MINUTE), end: new Date(START + 120 * MINUTE - 1) },
+    ]);
+  });
+
+  it('rebuilds problem bars from cached M1', async () => {
+    const m15 = flatBars(4, 'M15');
+    m15[1] = makeCandle(START + 15 * MINUTE, 100, 99, 101, 100, 'M15');
+    const report = validateCandles(m15, 'XAUUSD.s', 'M15');
+    cache.getCachedCandles.mockResolvedValue(flatBars(15, 'M1', START + 15 * MINUTE));
+
+    const result = await dataQuality.repair(report, 'resample', undefined, 'UTC');
+
+    expect(result).toEqual({ mode: 'resample', ranges: 1, repaired: 1, candlesWritten: 1 });
+    const [written, symbol, timeframe, start, end] = cache.replaceRange.mock.calls[0];
+    expect(written).toHaveLength(1);
+    expect(written[0]).toMatchObject({ time: new Date(START + 15 * MINUTE), high: 100.5, low: 99.5, timeframe: 'M15' });
+    expect([symbol, timeframe, start, end]).toEqual(['XAUUSD.s', 'M15', new Date(START + 15 * MINUTE), new Date(START + 30 * MINUTE - 1)]);
+  });
+
+  it('leaves ranges the broker has no data for', async () => {
+    const candles = flatBars(4, 'M15');
+    candles.splice(1, 1);
+    const fetch = vi.fn().mockResolvedValue([]);
+
+    const result = await dataQuality.repair(validateCandles(candles, 'XAUUSD.s', 'M15'), 'refetch', fetch);
+
+    expect(fetch).toHaveBeenCalledWith('XAUUSD.s', 'M15', new Date(START + 15 * MINUTE), new Date(START + 30 * MINUTE - 1));
+    expect(result.repaired).toBe(0);
+    expect(cache.replaceRange).not.toHaveBeenCalled();
+  });
+
+  it('refuses to resample M1', async () => {
+    await expect(dataQuality.repair(validateCandles(flatBars(2), 'XAUUSD.s', 'M1'), 'resample')).rejects.toThrow(
+      'cannot be rebuilt by resampling'
+    );
+  });
+});
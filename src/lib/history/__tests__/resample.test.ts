@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import { bucketStart, resampleCandles, ticksToCandles, detectGaps, classifyGap } from '../resample';
+import { Candle, Tick, Timeframe } from '../../types';
+
+const MINUTE = 60 * 1000;
+
+function makeCandle(time: number, price: number, timeframe: Timeframe = 'M1'): Candle {
+  return { time: new Date(time), open: price, high: price + 1, low: price - 1, close: price + 0.5, volume: 10, symbol: 'XAUUSD.s', timeframe };
+}
+
+function makeTick(time: number, bid: number): Tick {
+  return { time: new Date(time), bid, ask: bid + 0.2, symbol: 'XAUUSD.s' };
+}
+
+describe('bucketStart', () => {
+  it('aligns H4 and D1 to the NY close in both seasons', () => {
+    // Winter: server time is UTC+2, so bars open at 22:00 UTC
+    expect(bucketStart(Date.UTC(2024, 0, 15, 0, 30), 'H4', 'NY_CLOSE')).toBe(Date.UTC(2024, 0, 14, 22));
+    expect(bucketStart(Date.UTC(2024, 0, 15, 23), 'D1', 'NY_CLOSE')).toBe(Date.UTC(2024, 0, 15, 22));
+    // Summer: UTC+3, bars open at 21:00 UTC
+    expect(bucketStart(Date.UTC(2024, 6, 15, 0, 30), 'H4', 'NY_CLOSE')).toBe(Date.UTC(2024, 6, 14, 21));
+  });
+
+  it('starts weeks on Sunday', () => {
+    // Wednesday 17 January 2024
+    expect(bucketStart(Date.UTC(2024, 0, 17, 12), 'W1')).toBe(Date.UTC(2024, 0, 14));
+  });
+});
+
+describe('resampleCandles', () => {
+  it('aggregates OHLCV into the higher timeframe', () => {
+    const start = Date.UTC(2024, 0, 15, 10);
+    const candles = [0, 1, 2, 3, 4, 5].map((i) => makeCandle(start + i * MINUTE, 100 + i));
+
+    const result = resampleCandles(candles, 'M5');
+
+    expect(result).toHaveLength(2);
+    expect(result[0]).toEqual({
+      time: new Date(start),
+      open: 100,
+      high: 105,
+      low: 99,
+      close: 104.5,
+      volume: 50,
+      symbol: 'XAUUSD.s',
+      timeframe: 'M5',
+    });
+    expect(result[1].time).toEqual(new Date(start + 5 * MINUTE));
+    expect(result[1].volume).toBe(10);
+  });
+
+  it('refuses to resample down', () => {
+    expect(() => resampleCandles([makeCandle(0, 100, 'H1')], 'M15')).toThrow('Cannot resample H1 candles down to M15');
+  });
+});
+
+describe('ticksToCandles', () => {
+  it('builds bid candles with the tick count as volume', () => {
+    const start = Date.UTC(2024, 0, 15, 10);
+    const ticks = [makeTick(start + 10_000, 100), makeTick(start + 30_000, 101.5), makeTick(start + 50_000, 99.8), makeTick(start + 65_000, 100.2)];
+
+    const candles = ticksToCandles(ticks);
+
+    expect(candles).toHaveLength(2);
+    expect(candles[0]).toMatchObject({ time: new Date(start), open: 100, high: 101.5, low: 99.8, close: 99.8, volume: 3 });
+    expect(candles[1]).toMatchObject({ time: new Date(start + MINUTE), open: 100.2, close: 100.2, volume: 1 });
+  });
+});
+
+describe('detectGaps', () => {
+  it('flags the weekend closure separately from gaps in the week', () => {
+    const candles = [
+      makeCandle(Date.UTC(2024, 0, 16, 10, 0), 100),
+      makeCandle(Date.UTC(2024, 0, 16, 10, 5), 100),
+      // Friday close to Sunday open
+      makeCandle(Date.UTC(2024, 0, 19, 21, 59), 100),
+      makeCandle(Date.UTC(2024, 0, 21, 22, 0), 100),
+      makeCandle(Date.UTC(2024, 0, 21, 22, 1), 100),
+    ];
+
+    const gaps = detectGaps(candles, 'M1');
+
+    expect(gaps).toHaveLength(3);
+    expect(gaps[0]).toEqual({
+      from: new Date(Date.UTC(2024, 0, 16, 10, 0)),
+      to: new Date(Date.UTC(2024, 0, 16, 10, 5)),
+      missingBars: 4,
+      weekend: false,
+    });
+    expect(gaps[1].weekend).toBe(false);
+    expect(gaps[2]).toMatchObject({ missingBars: 48 * 60, weekend: true });
+  });
+});
+
+describe('classifyGap', () => {
+  it('recognises market closures', () => {
+    // Friday 21:59 to Sunday 22:00
+    expect(classifyGap('XAUUSD.s', Date.UTC(2024, 0, 19, 21, 59), Date.UTC(2024, 0, 21, 22), 'M1')).toBe('weekend');
+    // Gold's daily break, 21:59 to 23:00
+    expect(classifyGap('XAUUSD.s', Date.UTC(2024, 0, 16, 21, 59), Date.UTC(2024, 0, 16, 23), 'M1')).toBe('daily-break');
+    // Christmas Day
+    expect(classifyGap('XAUUSD.s', Date.UTC(2024, 11, 24, 21), Date.UTC(2024, 11, 25, 23), 'H1')).toBe('holiday');
+  });
+
+  it('calls everything else lost data', () => {
+    expect(classifyGap('XAUUSD.s', Date.UTC(2024, 0, 16, 10), Date.UTC(2024, 0, 16, 12), 'M15')).toBe('missing');
+    // The break window does not extend past midnight
+    expect(classifyGap('XAUUSD.s', Date.UTC(2024, 0, 16, 22, 59), Date.UTC(2024, 0, 17, 0, 30), 'M1')).toBe('missing');
+    // Crypto trades through the weekend
+    expect(classifyGap('BTCUSD', Date.UTC(2024, 0, 19, 21, 59), Date.UTC(2024, 0, 21, 22), 'M1')).toBe('missing');
+  });
+});
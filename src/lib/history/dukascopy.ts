@@ -0,0 +1,131 @@
+import { Candle, Tick, Timeframe } from '../types';
+import { decompressLzma } from './lzma';
+
+/**
+ * Dukascopy bi5 Files
+ * LZMA-compressed big-endian records as served by the Dukascopy datafeed:
+ *   .../EURUSD/2024/00/02/13h_ticks.bi5             ticks of one hour (month is 0-based)
+ *   .../EURUSD/2024/00/02/BID_candles_min_1.bi5     M1 candles of one day
+ *   .../EURUSD/2024/00/BID_candles_hour_1.bi5       H1 candles of one month
+ *   .../EURUSD/2024/BID_candles_day_1.bi5           D1 candles of one year
+ * Prices are integers in points; times are offsets from the file's start, in UTC.
+ */
+
+const TICK_RECORD_SIZE = 20;
+const CANDLE_RECORD_SIZE = 24;
+
+export interface Bi5File {
+  kind: 'ticks' | 'candles';
+  /** UTC start the record offsets count from */
+  start: Date;
+  timeframe?: Timeframe;
+  side?: 'BID' | 'ASK';
+}
+
+const CANDLE_FILES: Record<string, Timeframe> = {
+  min_1: 'M1',
+  hour_1: 'H1',
+  day_1: 'D1',
+};
+
+/**
+ * Work out what a bi5 file holds from its datafeed path
+ */
+export function parseBi5Path(path: string): Bi5File {
+  const parts = path.replace(/\\/g, '/').split('/');
+  const name = parts[parts.length - 1];
+  const numbers = (count: number) => parts.slice(-1 - count, -1).map((p) => parseInt(p, 10));
+
+  const ticks = name.match(/^(\d{2})h_ticks\.bi5$/i);
+  if (ticks) {
+    const [year, month, day] = numbers(3);
+    return { kind: 'ticks', start: checked(Date.UTC(year, month, day, parseInt(ticks[1], 10)), path) };
+  }
+
+  const candles = name.match(/^(BID|ASK)_candles_(min_1|hour_1|day_1)\.bi5$/i);
+  if (candles) {
+    const timeframe = CANDLE_FILES[candles[2].toLowerCase()];
+    const side = candles[1].toUpperCase() as 'BID' | 'ASK';
+    if (timeframe === 'M1') {
+      const [year, month, day] = numbers(3);
+      return { kind: 'candles', start: checked(Date.UTC(year, month, day), path), timeframe, side };
+    }
+    if (timeframe === 'H1') {
+      const [year, month] = numbers(2);
+      return { kind: 'candles', start: checked(Date.UTC(year, month, 1), path), timeframe, side };
+    }
+    const [year] = numbers(1);
+    return { kind: 'candles', start: checked(Date.UTC(year, 0, 1), path), timeframe, side };
+  }
+
+  throw new Error(`Not a Dukascopy bi5 file name: ${name}`);
+}
+
+function checked(time: number, path: string): Date {
+  if (isNaN(time)) {
+    throw new Error(`Cannot read the date from the Dukascopy path: ${path}`);
+  }
+  return new Date(time);
+}
+
+/**
+ * Points per price unit. Dukascopy quotes JPY crosses and metals with 3 decimals and
+ * other FX with 5; pass the factor explicitly for anything else.
+ */
+export function defaultPointFactor(symbol: string): number {
+  return /JPY|XAU|XAG/i.test(symbol) ? 1e3 : 1e5;
+}
+
+function toDataView(data: Uint8Array): DataView {
+  return new DataView(data.buffer, data.byteOffset, data.byteLength);
+}
+
+/**
+ * Tick records: ms offset, ask, bid (uint32 points), ask volume, bid volume (float32)
+ */
+export function decodeBi5Ticks(compressed: Uint8Array, hourStart: Date, symbol: string, pointFactor: number): Tick[] {
+  const view = toDataView(decompressLzma(compressed));
+  const ticks: Tick[] = [];
+  for (let offset = 0; offset + TICK_RECORD_SIZE <= view.byteLength; offset += TICK_RECORD_SIZE) {
+    ticks.push({
+      time: new Date(hourStart.getTime() + view.getUint32(offset)),
+      ask: view.getUint32(offset + 4) / pointFactor,
+      bid: view.getUint32(offset + 8) / pointFactor,
+      symbol,
+    });
+  }
+  return ticks;
+}
+
+/**
+ * Candle records: seconds offset, open, close, low, high (uint32 points), volume (float32).
+ * The datafeed pads closed-market periods with flat zero-volume candles - those are dropped.
+ */
+export function decodeBi5Candles(
+  compressed: Uint8Array,
+  start: Date,
+  symbol: string,
+  timeframe: Timeframe,
+  pointFactor: number
+): Candle[] {
+  const view = toDataView(decompressLzma(compressed));
+  const candles: Candle[] = [];
+  for (let offset = 0; offset + CANDLE_RECORD_SIZE <= view.byteLength; offset += CANDLE_RECORD_SIZE) {
+    const volume = view.getFloat32(offset + 20);
+    const low = view.getUint32(offset + 12);
+    const high = view.getUint32(offset + 16);
+    if (volume === 0 && low === high) continue;
+
+    candles.push({
+      time: new Date(start.getTime() + view.getUint32(offset) * 1000),
+      open: view.getUint32(offset + 4) / pointFactor,
+      close: view.getUint32(offset + 8) / pointFactor,
+      low: low / pointFactor,
+      high: high / pointFactor,
+      volume,
+      symbol,
+      timeframe,
+    });
+  }
+  return candles;
+}
@@ -0,0 +1,298 @@
+import { createReadStream, promises as fs } from 'fs';
+import { basename, extname, join } from 'path';
+import { createInterface } from 'readline';
+import { Candle, Tick, Timeframe, TIMEFRAME_MINUTES } from '../types';
+import { candleCache } from '../cache/candle-cache';
+import { tickStore, dayStart } from '../cache/tick-store';
+import {
+  SourceTimezone,
+  parseHeader,
+  parseMT5Bars,
+  parseMT5Ticks,
+  parseDukascopyCandles,
+  parseDukascopyTicks,
+} from './parsers';
+import { Bi5File, parseBi5Path, decodeBi5Ticks, decodeBi5Candles, defaultPointFactor } from './dukascopy';
+import { ALL_TIMEFRAMES, BROKER_ALIGNMENT, CandleGap, detectGaps, resampleCandles, ticksToCandles } from './resample';
+
+/**
+ * History Importer
+ * Loads broker/datafeed exports into CachedCandle (every timeframe, resampled from the
+ * finest one in the files) and ticks into the tick store, so backtests can run on years
+ * of history without MetaAPI.
+ */
+
+export type HistoryFormat = 'mt5-bars' | 'mt5-ticks' | 'dukascopy-bars' | 'dukascopy-ticks' | 'dukascopy-bi5';
+
+export interface ImportOptions {
+  /** Symbol to store the data under (the broker's name, e.g. XAUUSD.s) */
+  symbol: string;
+  /** Detected from the file extension and header when omitted */
+  format?: HistoryFormat;
+  /** Timeframe of bar files; inferred from names like XAUUSD_M1_2024.csv when omitted */
+  timeframe?: Timeframe;
+  /** Clock of the file timestamps (default NY_CLOSE for MT5 exports, UTC for Dukascopy) */
+  timezone?: SourceTimezone;
+  /** Clock H4/D1/W1 bars open on - the broker's server time so they match MetaAPI's (default NY_CLOSE) */
+  alignment?: SourceTimezone;
+  /** Dukascopy bi5 points per price unit (default 1e3 for JPY/metals, 1e5 otherwise) */
+  pointFactor?: number;
+  /** Timeframes to store (default: the source timeframe and every higher one) */
+  timeframes?: Timeframe[];
+  /** Parse and report without writing to the database */
+  dryRun?: boolean;
+}
+
+export interface ImportSummary {
+  symbol: string;
+  format: HistoryFormat;
+  files: number;
+  ticks: number;
+  /** Candles stored per timeframe */
+  candles: Partial<Record<Timeframe, number>>;
+  from: Date | null;
+  to: Date | null;
+  /** Missing bars of the source timeframe outside weekend closures */
+  gaps: CandleGap[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type Source =
+  | { kind: 'ticks'; ticks: AsyncIterable<Tick> }
+  | { kind: 'candles'; timeframe: Timeframe; candles: AsyncIterable<Candle> };
+
+// Dukascopy export names: EURUSD_Candlestick_15_M_BID_..., XAUUSD_Candlestick_4_Hour_ASK_...
+const DUKASCOPY_PERIODS: Record<string, Timeframe> = {
+  '1_M': 'M1',
+  '5_M': 'M5',
+  '15_M': 'M15',
+  '30_M': 'M30',
+  '1_H': 'H1',
+  '4_H': 'H4',
+  '1_D': 'D1',
+  '1_W': 'W1',
+};
+
+/**
+ * Timeframe from an MT5 ("XAUUSD.s_M15_202401020000_...") or Dukascopy export file name
+ */
+export function inferTimeframe(path: string): Timeframe | undefined {
+  const name = basename(path);
+  const mt5 = name.match(/(?:^|[_\-. ])(M1|M5|M15|M30|H1|H4|D1|W1)(?=[_\-. ])/i);
+  if (mt5) return mt5[1].toUpperCase() as Timeframe;
+
+  const dukascopy = name.match(/_(\d+)_(M|H|D|W)[a-z]*_/i);
+  return dukascopy ? DUKASCOPY_PERIODS[`${dukascopy[1]}_${dukascopy[2].toUpperCase()}`] : undefined;
+}
+
+/**
+ * Format from the extension and the header line
+ */
+export function detectFormat(path: string, headerLine: string): HistoryFormat {
+  if (extname(path).toLowerCase() === '.bi5') return 'dukascopy-bi5';
+
+  const { columns } = parseHeader(headerLine);
+  const isMT5 = headerLine.includes('<DATE>') || headerLine.includes('<date>');
+  if (columns.has('bid') && columns.has('ask')) return isMT5 ? 'mt5-ticks' : 'dukascopy-ticks';
+  if (columns.has('open') && columns.has('close')) return isMT5 ? 'mt5-bars' : 'dukascopy-bars';
+  throw new Error(`Unrecognised history file: ${path}`);
+}
+
+/**
+ * Expand directories into the files below them, in path order (chronological for
+ * Dukascopy's year/month/day layout)
+ */
+export async function listHistoryFiles(paths: string[]): Promise<string[]> {
+  const files: string[] = [];
+  for (const path of paths) {
+    const stat = await fs.stat(path);
+    if (stat.isDirectory()) {
+      const entries = (await fs.readdir(path)).sort();
+      files.push(...(await listHistoryFiles(entries.map((entry) => join(path, entry)))));
+    } else if (/\.(csv|txt|bi5)$/i.test(path)) {
+      files.push(path);
+    }
+  }
+  return files;
+}
+
+/**
+ * Lines of a text file; MT5 writes UTF-16LE exports on some terminals
+ */
+async function openLines(path: string): Promise<AsyncIterable<string>> {
+  const handle = await fs.open(path, 'r');
+  const bom = Buffer.alloc(2);
+  await handle.read(bom, 0, 2, 0);
+  await handle.close();
+
+  const encoding = bom[0] === 0xff && bom[1] === 0xfe ? 'utf16le' : 'utf8';
+  return createInterface({ input: createReadStream(path, { encoding }), crlfDelay: Infinity });
+}
+
+async function readHeader(path: string): Promise<string> {
+  for await (const line of await openLines(path)) {
+    if (line.trim()) return line;
+  }
+  return '';
+}
+
+async function* fromArray<T>(items: T[]): AsyncGenerator<T> {
+  yield* items;
+}
+
+async function* concat<T>(sources: (() => Promise<AsyncIterable<T>>)[]): AsyncGenerator<T> {
+  for (const source of sources) {
+    yield* await source();
+  }
+}
+
+function openSource(files: string[], format: HistoryFormat, options: ImportOptions): Source {
+  const { symbol, timezone } = options;
+
+  if (format === 'dukascopy-bi5') {
+    // Bid candles of the finest timeframe present (the datafeed keeps ASK twins and
+    // coarser files next to them), or ticks
+    const bi5Files = files.map((path) => ({ path, file: parseBi5Path(path) }));
+    const layout: Bi5File = bi5Files.find(({ file }) => file.kind === 'ticks')?.file
+      ?? bi5Files
+        .map(({ file }) => file)
+        .sort((a, b) => TIMEFRAME_MINUTES[a.timeframe as Timeframe] - TIMEFRAME_MINUTES[b.timeframe as Timeframe])[0];
+    const selected = bi5Files.filter(({ file }) =>
+      file.kind === layout.kind && file.timeframe === layout.timeframe && file.side !== 'ASK'
+    );
+
+    const pointFactor = options.pointFactor ?? defaultPointFactor(symbol);
+    const decode = ({ path, file }: { path: string; file: Bi5File }) => async () => {
+      const data = new Uint8Array(await fs.readFile(path));
+      return layout.kind === 'ticks'
+        ? fromArray<Tick | Candle>(decodeBi5Ticks(data, file.start, symbol, pointFactor))
+        : fromArray<Tick | Candle>(decodeBi5Candles(data, file.start, symbol, file.timeframe as Timeframe, pointFactor));
+    };
+    const items = concat(selected.map(decode));
+    return layout.kind === 'ticks'
+      ? { kind: 'ticks', ticks: items as AsyncIterable<Tick> }
+      : { kind: 'candles', timeframe: layout.timeframe as Timeframe, candles: items as AsyncIterable<Candle> };
+  }
+
+  if (format === 'mt5-ticks' || format === 'dukascopy-ticks') {
+    const parse = format === 'mt5-ticks' ? parseMT5Ticks : parseDukascopyTicks;
+    return { kind: 'ticks', ticks: concat(files.map((path) => async () => parse(await openLines(path), { symbol, timezone }))) };
+  }
+
+  const timeframe = options.timeframe ?? inferTimeframe(files[0]);
+  if (!timeframe) {
+    throw new Error(`Cannot tell the timeframe of ${basename(files[0])} - pass it explicitly`);
+  }
+  const parse = format === 'mt5-bars' ? parseMT5Bars : parseDukascopyCandles;
+  return {
+    kind: 'candles',
+    timeframe,
+    candles: concat(files.map((path) => async () => parse(await openLines(path), { symbol, timezone, timeframe }))),
+  };
+}
+
+/**
+ * Ascending, one candle per time (the later file wins on overlaps)
+ */
+function sortUnique(candles: Candle[]): Candle[] {
+  const byTime = new Map<number, Candle>();
+  for (const candle of candles) {
+    byTime.set(candle.time.getTime(), candle);
+  }
+  return Array.from(byTime.values()).sort((a, b) => a.time.getTime() - b.time.getTime());
+}
+
+class HistoryImporter {
+  /**
+   * Import files (or directories of files) of one symbol and format. Ticks are stored
+   * day by day as they stream in and turned into M1 candles; candles of every requested
+   * timeframe are then resampled from the finest source timeframe.
+   */
+  async importFiles(paths: string[], options: ImportOptions): Promise<ImportSummary> {
+    const files = await listHistoryFiles(paths);
+    if (files.length === 0) {
+      throw new Error('No history files found');
+    }
+
+    const format = options.format ?? detectFormat(files[0], await readHeader(files[0]));
+    console.log(`[Import] ${files.length} ${format} file(s) for ${options.symbol}`);
+
+    const source = openSource(files, format, options);
+    let ticks = 0;
+    let baseTimeframe: Timeframe;
+    let baseCandles: Candle[];
+
+    if (source.kind === 'ticks') {
+      baseTimeframe = 'M1';
+      baseCandles = [];
+      let dayTicks: Tick[] = [];
+      // The files cover everything from the first tick to the last, including the days
+      // between two flushes that had no ticks (weekends)
+      let coveredUntil: number | null = null;
+      const flush = async (last: boolean) => {
+        if (dayTicks.length === 0) return;
+        dayTicks.sort((a, b) => a.time.getTime() - b.time.getTime());
+        const coverage = {
+          start: new Date(coveredUntil !== null ? coveredUntil + 1 : dayTicks[0].time.getTime()),
+          end: last ? dayTicks[dayTicks.length - 1].time : new Date(dayStart(dayTicks[0].time).getTime() + DAY_MS - 1),
+        };
+        coveredUntil = coverage.end.getTime();
+        if (!options.dryRun) {
+          await tickStore.saveTicks(options.symbol, dayTicks, format, coverage);
+        }
+        baseCandles.push(...ticksToCandles(dayTicks, 'M1'));
+        ticks += dayTicks.length;
+        dayTicks = [];
+      };
+
+      for await (const tick of source.ticks) {
+        if (isNaN(tick.bid) || isNaN(tick.ask)) continue;
+        if (dayTicks.length > 0 && dayStart(tick.time).getTime() !== dayStart(dayTicks[0].time).getTime()) {
+          await flush(false);
+        }
+        dayTicks.push(tick);
+      }
+      await flush(true);
+      baseCandles = sortUnique(baseCandles);
+    } else {
+      baseTimeframe = source.timeframe;
+      const candles: Candle[] = [];
+      for await (const candle of source.candles) {
+        if ([candle.open, candle.high, candle.low, candle.close].some(isNaN)) continue;
+        candles.push(candle);
+      }
+      baseCandles = sortUnique(candles);
+    }
+
+    const timeframes = (options.timeframes ?? ALL_TIMEFRAMES)
+      .filter((tf) => TIMEFRAME_MINUTES[tf] >= TIMEFRAME_MINUTES[baseTimeframe]);
+    const alignment = options.alignment ?? BROKER_ALIGNMENT;
+    const stored: Partial<Record<Timeframe, number>> = {};
+
+    for (const timeframe of timeframes) {
+      const candles = timeframe === baseTimeframe ? baseCandles : resampleCandles(baseCandles, timeframe, alignment);
+      if (!options.dryRun) {
+        await candleCache.importCandles(candles, options.symbol, timeframe);
+      }
+      stored[timeframe] = candles.length;
+    }
+
+    const gaps = detectGaps(baseCandles, baseTimeframe).filter((gap) => !gap.weekend);
+    console.log(`[Import] ${options.symbol}: ${ticks} ticks, ${baseCandles.length} ${baseTimeframe} candles, ${gaps.length} gaps`);
+
+    return {
+      symbol: options.symbol,
+      format,
+      files: files.length,
+      ticks,
+      candles: stored,
+      from: baseCandles[0]?.time ?? null,
+      to: baseCandles[baseCandles.length - 1]?.time ?? null,
+      gaps,
+    };
+  }
+}
+
+export const historyImporter = new HistoryImporter();
+export default historyImporter;
@@ -0,0 +1,6 @@
+export * from './lzma';
+export * from './parsers';
+export * from './dukascopy';
+export * from './resample';
+export * from './importer';
+export * from './quality';
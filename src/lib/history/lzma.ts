@@ -0,0 +1,279 @@
+/**
+ * LZMA Decoder
+ * Decodes the "LZMA alone" format (13-byte header + raw LZMA stream) that Dukascopy
+ * uses for .bi5 files. Follows the reference decoder in the LZMA SDK (LzmaSpec.cpp);
+ * decompression only, whole buffer in memory.
+ */
+
+const NUM_STATES = 12;
+const POS_BITS_MAX = 4;
+const NUM_LEN_TO_POS_STATES = 4;
+const NUM_ALIGN_BITS = 4;
+const END_POS_MODEL_INDEX = 14;
+const NUM_FULL_DISTANCES = 1 << (END_POS_MODEL_INDEX >> 1);
+const MATCH_MIN_LEN = 2;
+const PROB_INIT = 1024;
+
+class RangeDecoder {
+  private range = 0xffffffff;
+  private code = 0;
+  private pos: number;
+
+  constructor(private input: Uint8Array, offset: number) {
+    this.pos = offset;
+    if (this.nextByte() !== 0) {
+      throw new Error('Invalid LZMA stream');
+    }
+    for (let i = 0; i < 4; i++) {
+      this.code = ((this.code << 8) | this.nextByte()) >>> 0;
+    }
+    if (this.code === this.range) {
+      throw new Error('Invalid LZMA stream');
+    }
+  }
+
+  private nextByte(): number {
+    if (this.pos >= this.input.length) {
+      throw new Error('Unexpected end of LZMA stream');
+    }
+    return this.input[this.pos++];
+  }
+
+  private normalize(): void {
+    if (this.range < 0x1000000) {
+      this.range = (this.range << 8) >>> 0;
+      this.code = ((this.code << 8) | this.nextByte()) >>> 0;
+    }
+  }
+
+  decodeDirectBits(numBits: number): number {
+    let result = 0;
+    for (let i = 0; i < numBits; i++) {
+      this.range >>>= 1;
+      let bit = 0;
+      if (this.code >= this.range) {
+        this.code -= this.range;
+        bit = 1;
+      }
+      result = result * 2 + bit;
+      this.normalize();
+    }
+    return result;
+  }
+
+  decodeBit(probs: Uint16Array, index: number): number {
+    const prob = probs[index];
+    const bound = (this.range >>> 11) * prob;
+    let bit: number;
+    if (this.code < bound) {
+      this.range = bound;
+      probs[index] = prob + ((2048 - prob) >>> 5);
+      bit = 0;
+    } else {
+      this.range -= bound;
+      this.code -= bound;
+      probs[index] = prob - (prob >>> 5);
+      bit = 1;
+    }
+    this.normalize();
+    return bit;
+  }
+
+  decodeBitTree(probs: Uint16Array, offset: number, numBits: number): number {
+    let m = 1;
+    for (let i = 0; i < numBits; i++) {
+      m = (m << 1) + this.decodeBit(probs, offset + m);
+    }
+    return m - (1 << numBits);
+  }
+
+  decodeReverseBitTree(probs: Uint16Array, offset: number, numBits: number): number {
+    let m = 1;
+    let symbol = 0;
+    for (let i = 0; i < numBits; i++) {
+      const bit = this.decodeBit(probs, offset + m);
+      m = (m << 1) + bit;
+      symbol |= bit << i;
+    }
+    return symbol;
+  }
+}
+
+class LengthDecoder {
+  private choice = new Uint16Array(2).fill(PROB_INIT);
+  private low = new Uint16Array((1 << POS_BITS_MAX) << 3).fill(PROB_INIT);
+  private mid = new Uint16Array((1 << POS_BITS_MAX) << 3).fill(PROB_INIT);
+  private high = new Uint16Array(256).fill(PROB_INIT);
+
+  decode(rc: RangeDecoder, posState: number): number {
+    if (rc.decodeBit(this.choice, 0) === 0) {
+      return rc.decodeBitTree(this.low, posState << 3, 3);
+    }
+    if (rc.decodeBit(this.choice, 1) === 0) {
+      return 8 + rc.decodeBitTree(this.mid, posState << 3, 3);
+    }
+    return 16 + rc.decodeBitTree(this.high, 0, 8);
+  }
+}
+
+/**
+ * Decompress an "LZMA alone" buffer (Dukascopy .bi5). Empty input - Dukascopy's
+ * hours without ticks - gives empty output.
+ */
+export function decompressLzma(input: Uint8Array): Uint8Array {
+  if (input.length === 0) return new Uint8Array(0);
+  if (input.length < 13) {
+    throw new Error('Invalid LZMA header');
+  }
+
+  let props = input[0];
+  if (props >= 9 * 5 * 5) {
+    throw new Error('Invalid LZMA properties');
+  }
+  const lc = props % 9;
+  props = Math.floor(props / 9);
+  const lp = props % 5;
+  const pb = Math.floor(props / 5);
+
+  // Unpacked size: 8 bytes little-endian, all 0xFF when unknown (end marker required)
+  let sizeKnown = false;
+  let unpackSize = 0;
+  for (let i = 0; i < 8; i++) {
+    const b = input[5 + i];
+    if (b !== 0xff) sizeKnown = true;
+    unpackSize += b * 2 ** (8 * i);
+  }
+
+  let output = new Uint8Array(sizeKnown ? unpackSize : Math.max(input.length * 4, 1024));
+  let outPos = 0;
+  const putByte = (b: number) => {
+    if (outPos >= output.length) {
+      const grown = new Uint8Array(output.length * 2);
+      grown.set(output);
+      output = grown;
+    }
+    output[outPos++] = b;
+  };
+  const getByte = (distance: number) => output[outPos - distance];
+
+  const rc = new RangeDecoder(input, 13);
+  const literalProbs = new Uint16Array(0x300 << (lc + lp)).fill(PROB_INIT);
+  const posSlotProbs = new Uint16Array(NUM_LEN_TO_POS_STATES << 6).fill(PROB_INIT);
+  const posProbs = new Uint16Array(1 + NUM_FULL_DISTANCES - END_POS_MODEL_INDEX).fill(PROB_INIT);
+  const alignProbs = new Uint16Array(1 << NUM_ALIGN_BITS).fill(PROB_INIT);
+  const isMatch = new Uint16Array(NUM_STATES << POS_BITS_MAX).fill(PROB_INIT);
+  const isRep = new Uint16Array(NUM_STATES).fill(PROB_INIT);
+  const isRepG0 = new Uint16Array(NUM_STATES).fill(PROB_INIT);
+  const isRepG1 = new Uint16Array(NUM_STATES).fill(PROB_INIT);
+  const isRepG2 = new Uint16Array(NUM_STATES).fill(PROB_INIT);
+  const isRep0Long = new Uint16Array(NUM_STATES << POS_BITS_MAX).fill(PROB_INIT);
+  const lenDecoder = new LengthDecoder();
+  const repLenDecoder = new LengthDecoder();
+
+  const decodeLiteral = (state: number, rep0: number) => {
+    const prevByte = outPos > 0 ? getByte(1) : 0;
+    const litState = ((outPos & ((1 << lp) - 1)) << lc) + (prevByte >>> (8 - lc));
+    const base = 0x300 * litState;
+    let symbol = 1;
+
+    if (state >= 7) {
+      let matchByte = getByte(rep0 + 1);
+      do {
+        const matchBit = (matchByte >>> 7) & 1;
+        matchByte <<= 1;
+        const bit = rc.decodeBit(literalProbs, base + ((1 + matchBit) << 8) + symbol);
+        symbol = (symbol << 1) | bit;
+        if (matchBit !== bit) break;
+      } while (symbol < 0x100);
+    }
+    while (symbol < 0x100) {
+      symbol = (symbol << 1) | rc.decodeBit(literalProbs, base + symbol);
+    }
+    putByte(symbol - 0x100);
+  };
+
+  const decodeDistance = (len: number) => {
+    const lenState = Math.min(len, NUM_LEN_TO_POS_STATES - 1);
+    const posSlot = rc.decodeBitTree(posSlotProbs, lenState << 6, 6);
+    if (posSlot < 4) return posSlot;
+
+    const numDirectBits = (posSlot >>> 1) - 1;
+    let dist = (2 | (posSlot & 1)) * 2 ** numDirectBits;
+    if (posSlot < END_POS_MODEL_INDEX) {
+      dist += rc.decodeReverseBitTree(posProbs, dist - posSlot, numDirectBits);
+    } else {
+      dist += rc.decodeDirectBits(numDirectBits - NUM_ALIGN_BITS) * 2 ** NUM_ALIGN_BITS;
+      dist += rc.decodeReverseBitTree(alignProbs, 0, NUM_ALIGN_BITS);
+    }
+    return dist;
+  };
+
+  let state = 0;
+  let rep0 = 0;
+  let rep1 = 0;
+  let rep2 = 0;
+  let rep3 = 0;
+
+  while (!sizeKnown || outPos < unpackSize) {
+    const posState = outPos & ((1 << pb) - 1);
+
+    if (rc.decodeBit(isMatch, (state << POS_BITS_MAX) + posState) === 0) {
+      decodeLiteral(state, rep0);
+      state = state < 4 ? 0 : state < 10 ? state - 3 : state - 6;
+      continue;
+    }
+
+    let len: number;
+    if (rc.decodeBit(isRep, state) !== 0) {
+      if (outPos === 0) {
+        throw new Error('Invalid LZMA stream');
+      }
+      if (rc.decodeBit(isRepG0, state) === 0) {
+        if (rc.decodeBit(isRep0Long, (state << POS_BITS_MAX) + posState) === 0) {
+          // Short rep: one byte from rep0
+          state = state < 7 ? 9 : 11;
+          putByte(getByte(rep0 + 1));
+          continue;
+        }
+      } else {
+        let dist: number;
+        if (rc.decodeBit(isRepG1, state) === 0) {
+          dist = rep1;
+        } else {
+          if (rc.decodeBit(isRepG2, state) === 0) {
+            dist = rep2;
+          } else {
+            dist = rep3;
+            rep3 = rep2;
+          }
+          rep2 = rep1;
+        }
+        rep1 = rep0;
+        rep0 = dist;
+      }
+      len = repLenDecoder.decode(rc, posState);
+      state = state < 7 ? 8 : 11;
+    } else {
+      rep3 = rep2;
+      rep2 = rep1;
+      rep1 = rep0;
+      len = lenDecoder.decode(rc, posState);
+      state = state < 7 ? 7 : 10;
+      rep0 = decodeDistance(len);
+      if (rep0 === 0xffffffff) break; // End marker
+      if (rep0 >= outPos) {
+        throw new Error('Invalid LZMA stream');
+      }
+    }
+
+    len += MATCH_MIN_LEN;
+    if (sizeKnown && outPos + len > unpackSize) {
+      throw new Error('Invalid LZMA stream');
+    }
+    for (let i = 0; i < len; i++) {
+      putByte(getByte(rep0 + 1));
+    }
+  }
+
+  return output.subarray(0, outPos);
+}
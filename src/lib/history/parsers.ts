@@ -0,0 +1,258 @@
+import { Candle, Tick, Timeframe } from '../types';
+
+/**
+ * History File Parsers
+ * MT5 "Export bars"/"Export ticks" CSVs and Dukascopy CSV exports, streamed line by line
+ * so multi-year files never have to fit in memory. All times come out in UTC.
+ */
+
+/**
+ * Clock the file's timestamps are written in:
+ * - 'UTC'
+ * - 'NY_CLOSE': typical MT5 server time, UTC+2 in winter and UTC+3 while US DST is on
+ *   (so the day rolls over at the New York close)
+ * - a fixed offset in minutes east of UTC
+ */
+export type SourceTimezone = 'UTC' | 'NY_CLOSE' | number;
+
+export interface ParseOptions {
+  symbol: string;
+  timezone?: SourceTimezone;
+}
+
+export interface BarParseOptions extends ParseOptions {
+  timeframe: Timeframe;
+}
+
+type Lines = AsyncIterable<string> | Iterable<string>;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * US daylight saving (second Sunday of March to first Sunday of November, 2am New York)
+ */
+export function isUSDaylightSaving(utcMs: number): boolean {
+  const year = new Date(utcMs).getUTCFullYear();
+  const nthSunday = (month: number, n: number) => {
+    const firstDay = new Date(Date.UTC(year, month, 1)).getUTCDay();
+    return 1 + ((7 - firstDay) % 7) + (n - 1) * 7;
+  };
+  // 2am EST = 07:00 UTC, 2am EDT = 06:00 UTC
+  const start = Date.UTC(year, 2, nthSunday(2, 2), 7);
+  const end = Date.UTC(year, 10, nthSunday(10, 1), 6);
+  return utcMs >= start && utcMs < end;
+}
+
+/**
+ * How far the timezone's clock is ahead of UTC at a UTC instant
+ */
+export function timezoneOffsetMs(utcMs: number, timezone: SourceTimezone): number {
+  if (timezone === 'UTC') return 0;
+  if (timezone === 'NY_CLOSE') return (isUSDaylightSaving(utcMs) ? 3 : 2) * HOUR_MS;
+  return timezone * 60 * 1000;
+}
+
+/**
+ * Convert a wall-clock time (milliseconds read as if it were UTC) to a real UTC date
+ */
+export function toUTC(wallClockMs: number, timezone: SourceTimezone = 'UTC'): Date {
+  if (timezone === 'UTC') return new Date(wallClockMs);
+  if (timezone === 'NY_CLOSE') {
+    const offset = isUSDaylightSaving(wallClockMs - 2 * HOUR_MS) ? 3 : 2;
+    return new Date(wallClockMs - offset * HOUR_MS);
+  }
+  return new Date(wallClockMs - timezone * 60 * 1000);
+}
+
+/**
+ * Parse "YYYY.MM.DD", "YYYY-MM-DD" or "DD.MM.YYYY" plus an optional "HH:MM[:SS[.mmm]]"
+ * into wall-clock milliseconds. A trailing "GMT+0200" / "UTC" zone is applied when present
+ * and reported so the caller can skip its own timezone.
+ */
+export function parseTimestamp(date: string, time: string = ''): { wallClockMs: number; zoned: boolean } {
+  let text = `${date.trim()} ${time.trim()}`.trim();
+
+  let offsetMinutes = 0;
+  let zoned = false;
+  const zone = text.match(/\s*(?:GMT|UTC)([+-]\d{2}):?(\d{2})?$/i) ?? text.match(/\s*(?:GMT|UTC|Z)$/i);
+  if (zone) {
+    zoned = true;
+    if (zone[1]) {
+      const sign = zone[1].startsWith('-') ? -1 : 1;
+      offsetMinutes = sign * (Math.abs(parseInt(zone[1], 10)) * 60 + parseInt(zone[2] ?? '0', 10));
+    }
+    text = text.slice(0, zone.index).trim();
+  }
+
+  const match = text.match(
+    /^(\d{4})[.\-/](\d{2})[.\-/](\d{2})|^(\d{2})[.\-/](\d{2})[.\-/](\d{4})/
+  );
+  if (!match) {
+    throw new Error(`Unrecognised date: ${date}`);
+  }
+  const [year, month, day] = match[1]
+    ? [match[1], match[2], match[3]]
+    : [match[6], match[5], match[4]];
+
+  const clock = text.slice(match[0].length).trim().replace(/^T/, '');
+  const timeMatch = clock.match(/^(\d{1,2}):(\d{2})(?::(\d{2})(?:[.,](\d{1,3}))?)?/);
+  if (clock && !timeMatch) {
+    throw new Error(`Unrecognised time: ${time || date}`);
+  }
+
+  const wallClockMs = Date.UTC(
+    parseInt(year, 10),
+    parseInt(month, 10) - 1,
+    parseInt(day, 10),
+    timeMatch ? parseInt(timeMatch[1], 10) : 0,
+    timeMatch ? parseInt(timeMatch[2], 10) : 0,
+    timeMatch?.[3] ? parseInt(timeMatch[3], 10) : 0,
+    timeMatch?.[4] ? parseInt(timeMatch[4].padEnd(3, '0'), 10) : 0
+  ) - offsetMinutes * 60 * 1000;
+
+  return { wallClockMs, zoned };
+}
+
+/**
+ * Column lookup from a header line - MT5 writes "<DATE>\t<TIME>\t<OPEN>..."
+ */
+export interface CsvHeader {
+  delimiter: string;
+  columns: Map<string, number>;
+}
+
+export function parseHeader(line: string): CsvHeader {
+  const delimiter = line.includes('\t') ? '\t' : line.includes(';') ? ';' : ',';
+  const columns = new Map<string, number>();
+  line.split(delimiter).forEach((name, i) => {
+    columns.set(name.trim().replace(/^\uFEFF/, '').replace(/[<>]/g, '').toLowerCase(), i);
+  });
+  return { delimiter, columns };
+}
+
+function column(header: CsvHeader, ...names: string[]): number {
+  for (const name of names) {
+    const index = header.columns.get(name);
+    if (index !== undefined) return index;
+  }
+  return -1;
+}
+
+function requireColumn(header: CsvHeader, ...names: string[]): number {
+  const index = column(header, ...names);
+  if (index < 0) {
+    throw new Error(`Missing column ${names[0]} (found: ${Array.from(header.columns.keys()).join(', ')})`);
+  }
+  return index;
+}
+
+/**
+ * Yield the header and then the data rows split into fields
+ */
+async function* rows(lines: Lines): AsyncGenerator<{ header: CsvHeader; fields: string[] }> {
+  let header: CsvHeader | null = null;
+  for await (const raw of lines) {
+    const line = raw.trim();
+    if (!line) continue;
+    if (!header) {
+      header = parseHeader(line);
+      continue;
+    }
+    yield { header, fields: line.split(header.delimiter).map((f) => f.trim()) };
+  }
+}
+
+function toNumber(value: string | undefined): number {
+  return value === undefined || value === '' ? NaN : parseFloat(value);
+}
+
+function rowTime(fields: string[], dateIndex: number, timeIndex: number, timezone: SourceTimezone): Date {
+  const { wallClockMs, zoned } = parseTimestamp(fields[dateIndex], timeIndex >= 0 ? fields[timeIndex] : '');
+  return zoned ? new Date(wallClockMs) : toUTC(wallClockMs, timezone);
+}
+
+/**
+ * MT5 "Export bars": <DATE> <TIME> <OPEN> <HIGH> <LOW> <CLOSE> <TICKVOL> <VOL> <SPREAD>,
+ * in server time (usually NY_CLOSE). Volume is the tick volume, like MetaAPI candles.
+ */
+export async function* parseMT5Bars(lines: Lines, options: BarParseOptions): AsyncGenerator<Candle> {
+  const timezone = options.timezone ?? 'NY_CLOSE';
+  for await (const { header, fields } of rows(lines)) {
+    const dateIndex = requireColumn(header, 'date');
+    const timeIndex = column(header, 'time');
+    const tickVolume = toNumber(fields[column(header, 'tickvol')]);
+    const realVolume = toNumber(fields[column(header, 'vol')]);
+
+    yield {
+      time: rowTime(fields, dateIndex, timeIndex, timezone),
+      open: toNumber(fields[requireColumn(header, 'open')]),
+      high: toNumber(fields[requireColumn(header, 'high')]),
+      low: toNumber(fields[requireColumn(header, 'low')]),
+      close: toNumber(fields[requireColumn(header, 'close')]),
+      volume: tickVolume || realVolume || 0,
+      symbol: options.symbol,
+      timeframe: options.timeframe,
+    };
+  }
+}
+
+/**
+ * MT5 "Export ticks": <DATE> <TIME> <BID> <ASK> <LAST> <VOLUME> <FLAGS>. A row only carries
+ * the prices that changed, so bid and ask are carried forward; rows before both are known
+ * (and last-price-only rows) are skipped.
+ */
+export async function* parseMT5Ticks(lines: Lines, options: ParseOptions): AsyncGenerator<Tick> {
+  const timezone = options.timezone ?? 'NY_CLOSE';
+  let bid = NaN;
+  let ask = NaN;
+  for await (const { header, fields } of rows(lines)) {
+    const rowBid = toNumber(fields[requireColumn(header, 'bid')]);
+    const rowAsk = toNumber(fields[requireColumn(header, 'ask')]);
+    if (isNaN(rowBid) && isNaN(rowAsk)) continue;
+    if (!isNaN(rowBid)) bid = rowBid;
+    if (!isNaN(rowAsk)) ask = rowAsk;
+    if (isNaN(bid) || isNaN(ask)) continue;
+
+    yield {
+      time: rowTime(fields, requireColumn(header, 'date'), column(header, 'time'), timezone),
+      bid,
+      ask,
+      symbol: options.symbol,
+    };
+  }
+}
+
+/**
+ * Dukascopy candle CSV: "Gmt time,Open,High,Low,Close,Volume" with "02.01.2024 00:00:00.000".
+ * Exports in local time carry a "GMT+0200" suffix, which takes precedence over `timezone`.
+ */
+export async function* parseDukascopyCandles(lines: Lines, options: BarParseOptions): AsyncGenerator<Candle> {
+  const timezone = options.timezone ?? 'UTC';
+  for await (const { header, fields } of rows(lines)) {
+    yield {
+      time: rowTime(fields, requireColumn(header, 'gmt time', 'local time', 'time (utc)', 'time', 'date'), -1, timezone),
+      open: toNumber(fields[requireColumn(header, 'open')]),
+      high: toNumber(fields[requireColumn(header, 'high')]),
+      low: toNumber(fields[requireColumn(header, 'low')]),
+      close: toNumber(fields[requireColumn(header, 'close')]),
+      volume: toNumber(fields[column(header, 'volume')]) || 0,
+      symbol: options.symbol,
+      timeframe: options.timeframe,
+    };
+  }
+}
+
+/**
+ * Dukascopy tick CSV: "Gmt time,Ask,Bid,AskVolume,BidVolume"
+ */
+export async function* parseDukascopyTicks(lines: Lines, options: ParseOptions): AsyncGenerator<Tick> {
+  const timezone = options.timezone ?? 'UTC';
+  for await (const { header, fields } of rows(lines)) {
+    yield {
+      time: rowTime(fields, requireColumn(header, 'gmt time', 'local time', 'time (utc)', 'time', 'date'), -1, timezone),
+      bid: toNumber(fields[requireColumn(header, 'bid')]),
+      ask: toNumber(fields[requireColumn(header, 'ask')]),
+      symbol: options.symbol,
+    };
+  }
+}
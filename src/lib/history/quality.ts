@@ -0,0 +1,367 @@
+import { prisma } from '../db';
+import { Candle, Timeframe, TIMEFRAME_MINUTES } from '../types';
+import { candleCache } from '../cache/candle-cache';
+import { SourceTimezone } from './parsers';
+import { BROKER_ALIGNMENT, GapKind, bucketStart, classifyGap, detectGaps, resampleCandles } from './resample';
+
+/**
+ * Candle Data Quality
+ * Checks cached candles for lost bars (as opposed to market closures), impossible OHLC,
+ * spikes, conflicting duplicates and disagreement with the M1 data they should aggregate,
+ * and repairs the affected ranges by refetching from the broker or rebuilding from M1.
+ */
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const PRICE_FIELDS = ['open', 'high', 'low', 'close'] as const;
+
+export interface QualityGap {
+  /** Last bar before the gap */
+  from: Date;
+  /** First bar after the gap */
+  to: Date;
+  missingBars: number;
+  kind: GapKind;
+}
+
+export type OhlcProblem = 'non-positive' | 'high-below-low' | 'high-below-body' | 'low-above-body';
+
+export interface OhlcIssue {
+  time: Date;
+  problem: OhlcProblem;
+}
+
+export interface PriceSpike {
+  time: Date;
+  /** 'range': the bar itself is huge; 'jump': it opens far from the previous close */
+  kind: 'range' | 'jump';
+  size: number;
+  medianRange: number;
+}
+
+export interface DuplicateBar {
+  time: Date;
+  /** The earlier bar closer than one interval */
+  previousTime: Date;
+  /** The two bars have different prices */
+  conflicting: boolean;
+}
+
+export interface TimeframeMismatch {
+  time: Date;
+  field: typeof PRICE_FIELDS[number];
+  value: number;
+  /** Aggregated from the complete set of M1 bars */
+  expected: number;
+}
+
+export interface QualityOptions {
+  /** Bars whose range (or open-to-previous-close jump) exceeds this many median ranges (default: 10) */
+  spikeMultiplier?: number;
+  /** Relative price difference tolerated against aggregated M1 (default: 1e-6) */
+  relativeTolerance?: number;
+  /** Clock H4/D1/W1 bars open on (default: the broker's NY close) */
+  alignment?: SourceTimezone;
+}
+
+export interface DataQualityReport {
+  symbol: string;
+  timeframe: Timeframe;
+  candles: number;
+  from: Date | null;
+  to: Date | null;
+  /** Every gap, market closures included - see `kind` */
+  gaps: QualityGap[];
+  ohlcIssues: OhlcIssue[];
+  spikes: PriceSpike[];
+  duplicates: DuplicateBar[];
+  mismatches: TimeframeMismatch[];
+  /** Bars checked against complete M1 data (0 for M1 or without M1 data) */
+  comparedBars: number;
+  /** Lost-data gaps plus every bar-level problem */
+  issueCount: number;
+}
+
+export type RepairMode = 'refetch' | 'resample';
+
+export interface RepairResult {
+  mode: RepairMode;
+  /** Ranges that needed repair */
+  ranges: number;
+  /** Ranges rewritten (the others had no replacement data) */
+  repaired: number;
+  candlesWritten: number;
+}
+
+export type FetchCandles = (symbol: string, timeframe: Timeframe, start: Date, end: Date) => Promise<Candle[]>;
+
+/**
+ * Every gap between consecutive bars, classified as closure or lost data
+ */
+export function findGaps(candles: Candle[], symbol: string, timeframe: Timeframe): QualityGap[] {
+  return detectGaps(candles, timeframe).map((gap) => ({
+    from: gap.from,
+    to: gap.to,
+    missingBars: gap.missingBars,
+    kind: classifyGap(symbol, gap.from.getTime(), gap.to.getTime(), timeframe),
+  }));
+}
+
+function ohlcProblem(candle: Candle): OhlcProblem | null {
+  if (PRICE_FIELDS.some((field) => !(candle[field] > 0))) return 'non-positive';
+  if (candle.high < candle.low) return 'high-below-low';
+  if (candle.high < Math.max(candle.open, candle.close)) return 'high-below-body';
+  if (candle.low > Math.min(candle.open, candle.close)) return 'low-above-body';
+  return null;
+}
+
+/**
+ * Bars whose prices cannot be real
+ */
+export function findOhlcIssues(candles: Candle[]): OhlcIssue[] {
+  const issues: OhlcIssue[] = [];
+  for (const candle of candles) {
+    const problem = ohlcProblem(candle);
+    if (problem) issues.push({ time: candle.time, problem });
+  }
+  return issues;
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * Bars far larger than the typical bar, or opening far from the previous close. Jumps are
+ * only checked between adjacent bars - price may legitimately gap over a closure.
+ */
+export function findSpikes(candles: Candle[], timeframe: Timeframe, multiplier: number = 10): PriceSpike[] {
+  const medianRange = median(candles.map((c) => c.high - c.low).filter((range) => range > 0));
+  if (medianRange === 0) return [];
+
+  const intervalMs = TIMEFRAME_MINUTES[timeframe] * MINUTE_MS;
+  const limit = medianRange * multiplier;
+  const spikes: PriceSpike[] = [];
+  candles.forEach((candle, i) => {
+    const range = candle.high - candle.low;
+    if (range > limit) {
+      spikes.push({ time: candle.time, kind: 'range', size: range, medianRange });
+      return;
+    }
+    const previous = candles[i - 1];
+    if (previous && candle.time.getTime() - previous.time.getTime() === intervalMs) {
+      const jump = Math.abs(candle.open - previous.close);
+      if (jump > limit) {
+        spikes.push({ time: candle.time, kind: 'jump', size: jump, medianRange });
+      }
+    }
+  });
+  return spikes;
+}
+
+/**
+ * Bars closer than one interval to the previous bar: the same time twice, or misaligned
+ * bars. H4 and above allow an hour of slack for bars shifted by a DST change.
+ */
+export function findDuplicates(candles: Candle[], timeframe: Timeframe): DuplicateBar[] {
+  const minutes = TIMEFRAME_MINUTES[timeframe];
+  const minSpacing = minutes * MINUTE_MS - (minutes >= 240 ? HOUR_MS : 0);
+  const duplicates: DuplicateBar[] = [];
+  for (let i = 1; i < candles.length; i++) {
+    const previous = candles[i - 1];
+    const candle = candles[i];
+    if (candle.time.getTime() - previous.time.getTime() < minSpacing) {
+      duplicates.push({
+        time: candle.time,
+        previousTime: previous.time,
+        conflicting: PRICE_FIELDS.some((field) => candle[field] !== previous[field]),
+      });
+    }
+  }
+  return duplicates;
+}
+
+/**
+ * Compare bars with the M1 bars they should aggregate, where all of those M1 bars exist
+ */
+export function compareWithM1(
+  candles: Candle[],
+  m1Candles: Candle[],
+  timeframe: Timeframe,
+  alignment: SourceTimezone = BROKER_ALIGNMENT,
+  relativeTolerance: number = 1e-6
+): { mismatches: TimeframeMismatch[]; comparedBars: number } {
+  const barsPerBucket = TIMEFRAME_MINUTES[timeframe];
+  const counts = new Map<number, number>();
+  for (const candle of m1Candles) {
+    const bucket = bucketStart(candle.time.getTime(), timeframe, alignment);
+    counts.set(bucket, (counts.get(bucket) ?? 0) + 1);
+  }
+  const aggregated = new Map(
+    resampleCandles(m1Candles, timeframe, alignment).map((c) => [c.time.getTime(), c])
+  );
+
+  const mismatches: TimeframeMismatch[] = [];
+  let comparedBars = 0;
+  for (const candle of candles) {
+    const time = candle.time.getTime();
+    const expected = aggregated.get(time);
+    if (!expected || counts.get(time) !== barsPerBucket) continue;
+
+    comparedBars++;
+    for (const field of PRICE_FIELDS) {
+      if (Math.abs(candle[field] - expected[field]) > Math.abs(expected[field]) * relativeTolerance) {
+        mismatches.push({ time: candle.time, field, value: candle[field], expected: expected[field] });
+      }
+    }
+  }
+  return { mismatches, comparedBars };
+}
+
+/**
+ * Run every check on ascending candles of one symbol and timeframe
+ */
+export function validateCandles(
+  candles: Candle[],
+  symbol: string,
+  timeframe: Timeframe,
+  m1Candles: Candle[] = [],
+  options: QualityOptions = {}
+): DataQualityReport {
+  const gaps = findGaps(candles, symbol, timeframe);
+  const ohlcIssues = findOhlcIssues(candles);
+  const spikes = findSpikes(candles, timeframe, options.spikeMultiplier);
+  const duplicates = findDuplicates(candles, timeframe);
+  const { mismatches, comparedBars } = timeframe === 'M1'
+    ? { mismatches: [], comparedBars: 0 }
+    : compareWithM1(candles, m1Candles, timeframe, options.alignment, options.relativeTolerance);
+
+  return {
+    symbol,
+    timeframe,
+    candles: candles.length,
+    from: candles[0]?.time ?? null,
+    to: candles[candles.length - 1]?.time ?? null,
+    gaps,
+    ohlcIssues,
+    spikes,
+    duplicates,
+    mismatches,
+    comparedBars,
+    issueCount: gaps.filter((g) => g.kind === 'missing').length
+      + ohlcIssues.length + spikes.length + duplicates.length + mismatches.length,
+  };
+}
+
+/**
+ * Time ranges to rewrite for a report: lost-data gaps and every bar with a problem,
+ * merged where they touch
+ */
+export function getRepairRanges(report: DataQualityReport): { start: Date; end: Date }[] {
+  const intervalMs = TIMEFRAME_MINUTES[report.timeframe] * MINUTE_MS;
+  const bar = (time: Date) => ({ start: time.getTime(), end: time.getTime() + intervalMs - 1 });
+
+  const ranges = [
+    ...report.gaps
+      .filter((gap) => gap.kind === 'missing')
+      .map((gap) => ({ start: gap.from.getTime() + intervalMs, end: gap.to.getTime() - 1 })),
+    ...report.ohlcIssues.map((issue) => bar(issue.time)),
+    ...report.spikes.map((spike) => bar(spike.time)),
+    ...report.duplicates.map((dup) => ({ start: dup.previousTime.getTime(), end: dup.time.getTime() + intervalMs - 1 })),
+    ...report.mismatches.map((mismatch) => bar(mismatch.time)),
+  ].sort((a, b) => a.start - b.start);
+
+  const merged: { start: number; end: number }[] = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end + 1) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+  return merged.map((range) => ({ start: new Date(range.start), end: new Date(range.end) }));
+}
+
+class DataQuality {
+  /**
+   * Symbol/timeframe pairs present in the candle cache
+   */
+  async getCachedSeries(): Promise<{ symbol: string; timeframe: Timeframe }[]> {
+    const rows = await prisma.cachedCandle.groupBy({ by: ['symbol', 'timeframe'] });
+    return rows
+      .map((row) => ({ symbol: row.symbol, timeframe: row.timeframe as Timeframe }))
+      .filter((row) => row.timeframe in TIMEFRAME_MINUTES)
+      .sort((a, b) => a.symbol.localeCompare(b.symbol) || TIMEFRAME_MINUTES[a.timeframe] - TIMEFRAME_MINUTES[b.timeframe]);
+  }
+
+  /**
+   * Check the cached candles of one symbol and timeframe (all of them by default)
+   */
+  async scan(
+    symbol: string,
+    timeframe: Timeframe,
+    startDate: Date = new Date(0),
+    endDate: Date = new Date(),
+    options: QualityOptions = {}
+  ): Promise<DataQualityReport> {
+    const candles = await candleCache.getCachedCandles(symbol, timeframe, startDate, endDate);
+    const m1Candles = timeframe !== 'M1' && candles.length > 0
+      ? await candleCache.getCachedCandles(
+        symbol,
+        'M1',
+        candles[0].time,
+        new Date(candles[candles.length - 1].time.getTime() + TIMEFRAME_MINUTES[timeframe] * MINUTE_MS - 1)
+      )
+      : [];
+
+    const report = validateCandles(candles, symbol, timeframe, m1Candles, options);
+    console.log(`[DataQuality] ${symbol} ${timeframe}: ${report.candles} candles, ${report.issueCount} issues`);
+    return report;
+  }
+
+  /**
+   * Rewrite the problem ranges of a report, from the broker (`refetch`) or from cached
+   * M1 candles (`resample`). Ranges without replacement data are left untouched.
+   */
+  async repair(
+    report: DataQualityReport,
+    mode: RepairMode,
+    fetchFromApi?: FetchCandles,
+    alignment: SourceTimezone = BROKER_ALIGNMENT
+  ): Promise<RepairResult> {
+    const { symbol, timeframe } = report;
+    if (mode === 'refetch' && !fetchFromApi) {
+      throw new Error('Refetch repair needs a fetch function');
+    }
+    if (mode === 'resample' && timeframe === 'M1') {
+      throw new Error('M1 candles cannot be rebuilt by resampling - use refetch');
+    }
+
+    const ranges = getRepairRanges(report);
+    const result: RepairResult = { mode, ranges: ranges.length, repaired: 0, candlesWritten: 0 };
+
+    for (const range of ranges) {
+      const source = mode === 'refetch'
+        ? await fetchFromApi!(symbol, timeframe, range.start, range.end)
+        : resampleCandles(await candleCache.getCachedCandles(symbol, 'M1', range.start, range.end), timeframe, alignment);
+      const candles = source
+        .filter((c) => c.time >= range.start && c.time <= range.end && ohlcProblem(c) === null)
+        .sort((a, b) => a.time.getTime() - b.time.getTime());
+      if (candles.length === 0) continue;
+
+      await candleCache.replaceRange(candles, symbol, timeframe, range.start, range.end);
+      result.repaired++;
+      result.candlesWritten += candles.length;
+    }
+
+    console.log(`[DataQuality] ${symbol} ${timeframe}: repaired ${result.repaired}/${result.ranges} ranges by ${mode}`);
+    return result;
+  }
+}
+
+export const dataQuality = new DataQuality();
+export default dataQuality;
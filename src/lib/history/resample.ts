@@ -0,0 +1,182 @@
+import { Candle, Tick, Timeframe, TIMEFRAME_MINUTES } from '../types';
+import { SourceTimezone, timezoneOffsetMs, toUTC } from './parsers';
+
+/**
+ * Resampling and Gap Detection
+ * Builds higher timeframes (and M1 from ticks) so one imported file can serve every
+ * timeframe the backtest asks for.
+ */
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+// 1970-01-04 was a Sunday - MT5 weeks open on Sunday
+const WEEK_ORIGIN_MS = 3 * DAY_MS;
+
+export const ALL_TIMEFRAMES = Object.keys(TIMEFRAME_MINUTES) as Timeframe[];
+
+// Server clock of the usual MT5 broker, so H4/D1/W1 bars built here match MetaAPI's
+export const BROKER_ALIGNMENT: SourceTimezone = 'NY_CLOSE';
+
+export interface CandleGap {
+  /** Last bar before the gap */
+  from: Date;
+  /** First bar after the gap */
+  to: Date;
+  missingBars: number;
+  /** Falls in the Friday-evening to Sunday-evening FX closure */
+  weekend: boolean;
+}
+
+/**
+ * Open time of the bar containing `utcMs`. `alignment` is the clock bars open on -
+ * H4/D1/W1 bars of an MT5 broker start on its server time, not on UTC.
+ */
+export function bucketStart(utcMs: number, timeframe: Timeframe, alignment: SourceTimezone = 'UTC'): number {
+  const intervalMs = TIMEFRAME_MINUTES[timeframe] * MINUTE_MS;
+  const wallClock = utcMs + timezoneOffsetMs(utcMs, alignment);
+  const origin = timeframe === 'W1' ? WEEK_ORIGIN_MS : 0;
+  const start = Math.floor((wallClock - origin) / intervalMs) * intervalMs + origin;
+  return toUTC(start, alignment).getTime();
+}
+
+/**
+ * Aggregate ascending candles into a higher timeframe
+ */
+export function resampleCandles(
+  candles: Candle[],
+  timeframe: Timeframe,
+  alignment: SourceTimezone = 'UTC'
+): Candle[] {
+  const source = candles[0]?.timeframe;
+  if (source && TIMEFRAME_MINUTES[timeframe] < TIMEFRAME_MINUTES[source]) {
+    throw new Error(`Cannot resample ${source} candles down to ${timeframe}`);
+  }
+
+  const result: Candle[] = [];
+  let current: Candle | null = null;
+  for (const candle of candles) {
+    const start = bucketStart(candle.time.getTime(), timeframe, alignment);
+    if (current && current.time.getTime() === start) {
+      current.high = Math.max(current.high, candle.high);
+      current.low = Math.min(current.low, candle.low);
+      current.close = candle.close;
+      current.volume += candle.volume;
+      continue;
+    }
+    current = { ...candle, time: new Date(start), timeframe };
+    result.push(current);
+  }
+  return result;
+}
+
+/**
+ * Bid OHLC candles from ascending ticks; volume is the tick count, like MT5 tick volume
+ */
+export function ticksToCandles(ticks: Tick[], timeframe: Timeframe = 'M1', alignment: SourceTimezone = 'UTC'): Candle[] {
+  const result: Candle[] = [];
+  let current: Candle | null = null;
+  for (const tick of ticks) {
+    const start = bucketStart(tick.time.getTime(), timeframe, alignment);
+    if (current && current.time.getTime() === start) {
+      current.high = Math.max(current.high, tick.bid);
+      current.low = Math.min(current.low, tick.bid);
+      current.close = tick.bid;
+      current.volume++;
+      continue;
+    }
+    current = {
+      time: new Date(start),
+      open: tick.bid,
+      high: tick.bid,
+      low: tick.bid,
+      close: tick.bid,
+      volume: 1,
+      symbol: tick.symbol,
+      timeframe,
+    };
+    result.push(current);
+  }
+  return result;
+}
+
+/**
+ * Why bars are missing: market closures are expected, 'missing' means data is lost
+ */
+export type GapKind = 'weekend' | 'daily-break' | 'holiday' | 'missing';
+
+/**
+ * Friday 20:00 UTC to Sunday 23:00 UTC covers the FX weekend in both DST regimes
+ */
+function isWeekendClosure(utcMs: number): boolean {
+  const date = new Date(utcMs);
+  const day = date.getUTCDay();
+  const hour = date.getUTCHours();
+  return day === 6 || (day === 5 && hour >= 20) || (day === 0 && hour < 23);
+}
+
+/**
+ * Missing bars between consecutive ascending candles
+ */
+export function detectGaps(candles: Candle[], timeframe: Timeframe): CandleGap[] {
+  const intervalMs = TIMEFRAME_MINUTES[timeframe] * MINUTE_MS;
+  const gaps: CandleGap[] = [];
+
+  for (let i = 1; i < candles.length; i++) {
+    const from = candles[i - 1].time.getTime();
+    const to = candles[i].time.getTime();
+    const missingBars = Math.round((to - from) / intervalMs) - 1;
+    if (missingBars < 1) continue;
+
+    const firstMissing = from + intervalMs;
+    const lastMissing = to - intervalMs;
+    gaps.push({
+      from: new Date(from),
+      to: new Date(to),
+      missingBars,
+      weekend: lastMissing - firstMissing < 3 * DAY_MS && isWeekendClosure(firstMissing) && isWeekendClosure(lastMissing),
+    });
+  }
+  return gaps;
+}
+
+/**
+ * Crypto trades through weekends and holidays, so every gap there is lost data
+ */
+export function tradesAroundTheClock(symbol: string): boolean {
+  const upper = symbol.toUpperCase();
+  return upper.includes('BTC') || upper.includes('ETH');
+}
+
+/**
+ * Classify the missing bars between `fromMs` and `toMs` (the bars either side of the gap):
+ * the weekend, the metals/FX daily break around the NY close (at most 2 hours between
+ * 20:00 and 24:00 UTC), Christmas and New Year's Day, or lost data
+ */
+export function classifyGap(symbol: string, fromMs: number, toMs: number, timeframe: Timeframe): GapKind {
+  if (tradesAroundTheClock(symbol)) return 'missing';
+
+  const intervalMs = TIMEFRAME_MINUTES[timeframe] * MINUTE_MS;
+  const firstMissing = fromMs + intervalMs;
+  const lastMissing = toMs - intervalMs;
+  if (lastMissing < firstMissing) return 'missing';
+  const span = lastMissing - firstMissing;
+
+  if (span < 3 * DAY_MS && isWeekendClosure(firstMissing) && isWeekendClosure(lastMissing)) {
+    return 'weekend';
+  }
+
+  const first = new Date(firstMissing);
+  const last = new Date(lastMissing);
+  const nextMidnight = Math.floor(firstMissing / DAY_MS) * DAY_MS + DAY_MS;
+  if (span < 2 * 60 * MINUTE_MS && first.getUTCHours() >= 20 && lastMissing < nextMidnight) {
+    return 'daily-break';
+  }
+
+  const isHoliday = (date: Date) =>
+    (date.getUTCMonth() === 11 && date.getUTCDate() === 25) || (date.getUTCMonth() === 0 && date.getUTCDate() === 1);
+  if (span < 2 * DAY_MS && (isHoliday(first) || isHoliday(last))) {
+    return 'holiday';
+  }
+
+  return 'missing';
+}
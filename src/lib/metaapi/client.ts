@@ -6,23 +6,49 @@ import {
   AccountInfo,
   Position,
   SymbolInfo,
+  TradeSession,
 } from '../types';
 import { candleCache } from '../cache/candle-cache';
+import { tickStore } from '../cache/tick-store';
 import { TradingBotSyncListener } from './sync-listener';
 import { getSymbolPipInfo } from '../risk/position-sizing';
+import {
+  AccountDealsSummary,
+  BrokerAdapter,
+  BrokerDeal,
+  BrokerEventCallbacks,
+  MarketDataSubscription,
+} from '../broker/types';
+import { summarizeDeals } from '../broker/deals';
 
 // Dynamic import to avoid 'window is not defined' error during SSR
 let MetaApi: any = null;
 
-// Market data subscription types
-export interface MarketDataSubscription {
-  type: 'quotes' | 'candles' | 'ticks' | 'marketDepth';
-  timeframe?: string;
-  intervalInMilliseconds?: number;
+export type { MarketDataSubscription } from '../broker/types';
+
+const SESSION_DAYS = ['SUNDAY', 'MONDAY', 'TUESDAY', 'WEDNESDAY', 'THURSDAY', 'FRIDAY', 'SATURDAY'];
+
+/**
+ * MetaAPI trade sessions ({ MONDAY: [{ from: '00:05:00.000', to: '23:55:00.000' }] }) as minutes of each day
+ */
+function toTradeSessions(sessions: Record<string, { from: string; to: string }[]> | undefined): TradeSession[] | undefined {
+  if (!sessions) return undefined;
+  const minutes = (time: string) => {
+    const [hours, mins] = time.split(':').map(Number);
+    return hours * 60 + mins;
+  };
+  const result: TradeSession[] = [];
+  SESSION_DAYS.forEach((name, day) => {
+    for (const session of sessions[name] ?? []) {
+      result.push({ day, from: minutes(session.from), to: minutes(session.to) });
+    }
+  });
+  return result.length > 0 ? result : undefined;
 }
 
-class MetaAPIClient {
+class MetaAPIClient implements BrokerAdapter {
   private static instance: MetaAPIClient;
+  readonly name = 'metaapi';
   private api: any = null;
   private account: any = null;
   private connection: any = null;
@@ -235,9 +261,26 @@ class MetaAPIClient {
       volumeStep: spec.volumeStep || 0.01,
       tickSize: spec.tickSize || Math.pow(10, -spec.digits),
       tickValue: spec.tickValue || 1,
+      baseCurrency: spec.baseCurrency,
+      profitCurrency: spec.profitCurrency,
+      stopsLevel: spec.stopsLevel,
+      freezeLevel: spec.freezeLevel,
+      tradeMode: spec.tradeMode,
+      tradeSessions: toTradeSessions(spec.tradeSessions),
     };
   }
 
+  async calculateMargin(symbol: string, type: 'BUY' | 'SELL', volume: number, price: number): Promise<number> {
+    this.ensureConnected();
+    const result = await this.connection.calculateMargin({
+      symbol,
+      type: type === 'BUY' ? 'ORDER_TYPE_BUY' : 'ORDER_TYPE_SELL',
+      volume,
+      openPrice: price,
+    });
+    return result.margin;
+  }
+
   async getCandles(
     symbol: string,
     timeframe: Timeframe,
@@ -569,7 +612,7 @@ class MetaAPIClient {
    * Optionally filter by time range
    * Only returns trading deals (excludes balance/credit operations)
    */
-  async getHistoricalDeals(startTime?: Date, endTime?: Date): Promise<any[]> {
+  async getHistoricalDeals(startTime?: Date, endTime?: Date): Promise<BrokerDeal[]> {
     this.ensureConnected();
     try {
       const historyStorage = this.connection.historyStorage;
@@ -606,7 +649,7 @@ class MetaAPIClient {
    * Get ALL deals from the synchronized history storage (no type filter)
    * Includes trading deals, balance operations, swaps, commissions, etc.
    */
-  async getAllDeals(startTime?: Date, endTime?: Date): Promise<any[]> {
+  async getAllDeals(startTime?: Date, endTime?: Date): Promise<BrokerDeal[]> {
     this.ensureConnected();
     try {
       const historyStorage = this.connection.historyStorage;
@@ -638,79 +681,8 @@ class MetaAPIClient {
    * Compute account summary from all deals in history storage
    * Deposits, withdrawals, swap, commission, trading profit — all from deals
    */
-  async getAccountDealsSummary(startTime?: Date, endTime?: Date): Promise<{
-    deposits: number;
-    withdrawals: number;
-    totalSwap: number;
-    totalCommission: number;
-    tradingProfit: number;
-    dealCount: number;
-    operations: Array<{ type: 'deposit' | 'withdrawal'; amount: number; time: Date; comment: string | null }>;
-    dealTimeline: Array<{
-      timestamp: Date;
-      balanceChange: number;
-      event?: 'deposit' | 'withdrawal';
-      amount?: number;
-      symbol?: string;
-    }>;
-  }> {
-    const deals = await this.getAllDeals(startTime, endTime);
-
-    let deposits = 0;
-    let withdrawals = 0;
-    let totalSwap = 0;
-    let totalCommission = 0;
-    let tradingProfit = 0;
-    const operations: Array<{ type: 'deposit' | 'withdrawal'; amount: number; time: Date; comment: string | null }> = [];
-    const dealTimeline: Array<{
-      timestamp: Date;
-      balanceChange: number;
-      event?: 'deposit' | 'withdrawal';
-      amount?: number;
-      symbol?: string;
-    }> = [];
-
-    for (const deal of deals) {
-      // Accumulate swap and commission from every deal
-      totalSwap += deal.swap || 0;
-      totalCommission += deal.commission || 0;
-
-      // Each deal's effect on balance = profit + swap + commission
-      const balanceChange = (deal.profit || 0) + (deal.swap || 0) + (deal.commission || 0);
-
-      if (deal.type === 'DEAL_TYPE_BALANCE') {
-        const profit = deal.profit || 0;
-        if (profit > 0) {
-          deposits += profit;
-          operations.push({ type: 'deposit', amount: profit, time: new Date(deal.time), comment: deal.comment || null });
-          dealTimeline.push({ timestamp: new Date(deal.time), balanceChange, event: 'deposit', amount: profit });
-        } else if (profit < 0) {
-          withdrawals += Math.abs(profit);
-          operations.push({ type: 'withdrawal', amount: Math.abs(profit), time: new Date(deal.time), comment: deal.comment || null });
-          dealTimeline.push({ timestamp: new Date(deal.time), balanceChange, event: 'withdrawal', amount: Math.abs(profit) });
-        }
-      } else if (deal.type === 'DEAL_TYPE_BUY' || deal.type === 'DEAL_TYPE_SELL') {
-        tradingProfit += deal.profit || 0;
-        // Only include deals with non-zero balance effect (skip zero-change entries)
-        if (balanceChange !== 0) {
-          dealTimeline.push({ timestamp: new Date(deal.time), balanceChange, symbol: deal.symbol });
-        }
-      }
-    }
-
-    // Sort timeline chronologically
-    dealTimeline.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
-
-    return {
-      deposits,
-      withdrawals,
-      totalSwap,
-      totalCommission,
-      tradingProfit,
-      dealCount: deals.length,
-      operations,
-      dealTimeline,
-    };
+  async getAccountDealsSummary(startTime?: Date, endTime?: Date): Promise<AccountDealsSummary> {
+    return summarizeDeals(await this.getAllDeals(startTime, endTime));
   }
 
   /**
@@ -747,7 +719,7 @@ class MetaAPIClient {
   /**
    * Get deals for a specific position ID from history storage
    */
-  getDealsByPosition(positionId: string): any[] {
+  getDealsByPosition(positionId: string): BrokerDeal[] {
     this.ensureConnected();
     try {
       const historyStorage = this.connection.historyStorage;
@@ -768,6 +740,10 @@ class MetaAPIClient {
     return this.isConnected;
   }
 
+  now(): Date {
+    return new Date();
+  }
+
   isAccountReadyForHistoricalData(): boolean {
     return this.isAccountReady;
   }
@@ -818,6 +794,18 @@ class MetaAPIClient {
     }
   }
 
+  /**
+   * Receive pushed events through a TradingBotSyncListener wrapping the callbacks
+   */
+  addEventListener(callbacks: BrokerEventCallbacks): () => void {
+    const listener = new TradingBotSyncListener(callbacks);
+    for (const symbol of this.subscribedSymbols.keys()) {
+      listener.addSubscribedSymbol(symbol);
+    }
+    this.addSynchronizationListener(listener);
+    return () => this.removeSynchronizationListener(listener);
+  }
+
   /**
    * Subscribe to real-time market data for a symbol
    * This enables push-based updates instead of polling
@@ -903,6 +891,26 @@ class MetaAPIClient {
     );
   }
 
+  /**
+   * Get historical ticks with caching support
+   * Stored days are read from the tick store; only uncovered spans are fetched from API
+   */
+  async getHistoricalTicksCached(
+    symbol: string,
+    startDate: Date,
+    endDate: Date
+  ): Promise<Tick[]> {
+    // Historical ticks only need account access, not streaming connection
+    this.ensureAccountReady();
+
+    return tickStore.getHistoricalTicks(
+      symbol,
+      startDate,
+      endDate,
+      (sym, start, end) => this.getAllHistoricalTicks(sym, start, end)
+    );
+  }
+
   /**
    * Internal method to fetch candles directly from MetaAPI (bypasses cache)
    */
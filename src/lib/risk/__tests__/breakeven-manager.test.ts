@@ -0,0 +1,82 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../../db', () => ({ prisma: { trade: { findFirst: async () => null } } }));
+vi.mock('../../metaapi/client', () => ({ metaApiClient: {} }));
+
+import { BreakevenManager } from '../breakeven-manager';
+import { BrokerAdapter } from '../../broker/types';
+import { PositionUpdate } from '../../metaapi/sync-listener';
+import { SymbolInfo } from '../../types';
+
+const XAUUSD: SymbolInfo = {
+  symbol: 'XAUUSD',
+  description: 'Gold vs USD',
+  digits: 2,
+  pipSize: 0.1,
+  contractSize: 100,
+  minVolume: 0.01,
+  maxVolume: 100,
+  volumeStep: 0.01,
+  tickSize: 0.01,
+  tickValue: 1,
+};
+
+function fakeBroker() {
+  const broker = {
+    name: 'fake',
+    getSymbolInfo: vi.fn(async () => XAUUSD),
+    modifyPosition: vi.fn(async () => {}),
+  };
+  return { broker, adapter: broker as unknown as BrokerAdapter };
+}
+
+function position(currentPrice: number, stopLoss = 2040): PositionUpdate {
+  return {
+    id: 'pos-1',
+    symbol: 'XAUUSD',
+    type: 'POSITION_TYPE_BUY',
+    volume: 0.1,
+    openPrice: 2050,
+    currentPrice,
+    stopLoss,
+    takeProfit: 2070,
+    time: new Date('2024-03-04T10:00:00Z'),
+  };
+}
+
+describe('BreakevenManager with an injected broker', () => {
+  it('modifies the position through the adapter once 1R is reached', async () => {
+    const { broker, adapter } = fakeBroker();
+    const manager = new BreakevenManager({ enabled: true, triggerR: 1.0, bufferPips: 5 }, adapter);
+
+    const result = await manager.checkAndMoveToBreakeven(position(2060));
+
+    expect(result.moved).toBe(true);
+    expect(result.newStopLoss).toBe(2050.5);
+    expect(broker.getSymbolInfo).toHaveBeenCalledWith('XAUUSD');
+    expect(broker.modifyPosition).toHaveBeenCalledWith('pos-1', 2050.5, 2070);
+  });
+
+  it('leaves the position alone below the trigger', async () => {
+    const { broker, adapter } = fakeBroker();
+    const manager = new BreakevenManager({ enabled: true, triggerR: 1.0, bufferPips: 5 }, adapter);
+
+    const result = await manager.checkAndMoveToBreakeven(position(2055));
+
+    expect(result.moved).toBe(false);
+    expect(broker.modifyPosition).not.toHaveBeenCalled();
+  });
+
+  it('retries on the next update when the broker rejects the change', async () => {
+    const { broker, adapter } = fakeBroker();
+    broker.modifyPosition.mockRejectedValueOnce(new Error('market closed'));
+    const manager = new BreakevenManager({ enabled: true, triggerR: 1.0, bufferPips: 5 }, adapter);
+
+    const first = await manager.checkAndMoveToBreakeven(position(2060));
+    const second = await manager.checkAndMoveToBreakeven(position(2060));
+
+    expect(first.moved).toBe(false);
+    expect(second.moved).toBe(true);
+    expect(broker.modifyPosition).toHaveBeenCalledTimes(2);
+  });
+});
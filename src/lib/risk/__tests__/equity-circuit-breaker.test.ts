@@ -0,0 +1,187 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { rows } = vi.hoisted(() => ({ rows: new Map<string, Record<string, unknown>>() }));
+
+vi.mock('../../db', () => ({
+  prisma: {
+    circuitBreakerState: {
+      findUnique: vi.fn(async ({ where }: { where: { id: string } }) => rows.get(where.id) ?? null),
+      upsert: vi.fn(async ({ where, update, create }: { where: { id: string }; update: object; create: object }) => {
+        rows.set(where.id, { ...(rows.get(where.id) ?? create), ...update });
+      }),
+    },
+  },
+}));
+
+import {
+  EquityCircuitBreaker,
+  EquityCircuitBreakerState,
+  equityDrawdowns,
+  evaluateEquityDrawdown,
+  tradingDayStart,
+  tradingWeekStart,
+} from '../equity-circuit-breaker';
+import { EquityCircuitBreakerConfig } from '../../types';
+
+const HOUR = 60 * 60 * 1000;
+const WEDNESDAY = new Date(Date.UTC(2024, 2, 6, 10, 0));
+
+const CONFIG: EquityCircuitBreakerConfig = {
+  enabled: true,
+  maxDailyDrawdownPercent: 5,
+  maxWeeklyDrawdownPercent: 8,
+  maxTrailingDrawdownPercent: 10,
+  flattenOnBreach: false,
+  dayStartHourUtc: 0,
+};
+
+function at(hours: number): Date {
+  return new Date(WEDNESDAY.getTime() + hours * HOUR);
+}
+
+/** Run a sequence of equity readings (balance fixed at 10000 unless given) */
+function run(
+  readings: [hours: number, equity: number, balance?: number][],
+  config: EquityCircuitBreakerConfig = CONFIG,
+  state: EquityCircuitBreakerState | null = null
+) {
+  const breaches: (string | null)[] = [];
+  for (const [hours, equity, balance = 10000] of readings) {
+    const result = evaluateEquityDrawdown(state, { balance, equity }, config, at(hours));
+    state = result.state;
+    breaches.push(result.breach);
+  }
+  return { state: state!, breaches };
+}
+
+describe('trading periods', () => {
+  it('starts days at the configured UTC hour and weeks on Monday', () => {
+    expect(tradingDayStart(WEDNESDAY, 0)).toEqual(new Date(Date.UTC(2024, 2, 6)));
+    expect(tradingDayStart(WEDNESDAY, 22)).toEqual(new Date(Date.UTC(2024, 2, 5, 22)));
+    expect(tradingWeekStart(WEDNESDAY, 0)).toEqual(new Date(Date.UTC(2024, 2, 4)));
+    expect(tradingWeekStart(new Date(Date.UTC(2024, 2, 10, 12)), 0)).toEqual(new Date(Date.UTC(2024, 2, 4)));
+    expect(tradingWeekStart(new Date(Date.UTC(2024, 2, 4, 1)), 22)).toEqual(new Date(Date.UTC(2024, 2, 3, 22)));
+  });
+});
+
+describe('evaluateEquityDrawdown', () => {
+  it('locks on floating losses past the daily limit until the next trading day', () => {
+    const { state, breaches } = run([
+      [0, 10000],
+      [1, 9600], // -4% floating
+      [2, 9500], // -5%
+      [3, 9450],
+    ]);
+
+    expect(breaches).toEqual([null, null, 'DAILY', null]);
+    expect(state).toMatchObject({
+      isLocked: true,
+      lockType: 'DAILY',
+      lockedAt: at(2),
+      lockedUntil: new Date(Date.UTC(2024, 2, 7)),
+    });
+    expect(state.lockReason).toBe(
+      'daily drawdown 5.00% reached the 5% limit (equity 9500.00) - locked until 2024-03-07T00:00:00.000Z'
+    );
+
+    // Next day: lock lifts and the day is measured from the new balance
+    const next = run([[15, 9450, 9450]], CONFIG, state);
+    expect(next.breaches).toEqual([null]);
+    expect(next.state).toMatchObject({ isLocked: false, lockType: null, dayStartEquity: 9450 });
+    expect(equityDrawdowns(next.state)).toEqual({ daily: 0, weekly: 5.5, trailing: 5.5 });
+  });
+
+  it('measures the day from the higher of balance and equity', () => {
+    const { state, breaches } = run([[0, 10400, 10000], [1, 9880, 10000]]);
+
+    expect(state.dayStartEquity).toBe(10400);
+    expect(breaches).toEqual([null, 'DAILY']);
+  });
+
+  it('escalates a daily lock to the weekly limit, which holds into next week', () => {
+    const config = { ...CONFIG, maxTrailingDrawdownPercent: 20 };
+    const { state, breaches } = run([
+      [-48, 10000], // Monday
+      [0, 9600, 9600], // Wednesday: -4% this week
+      [1, 9100, 9600], // -5.2% today, -9% this week
+    ], config);
+
+    expect(breaches).toEqual([null, null, 'WEEKLY']);
+    expect(state).toMatchObject({ lockType: 'WEEKLY', lockedUntil: new Date(Date.UTC(2024, 2, 11)) });
+
+    // A later daily breach does not shorten the weekly lock
+    const later = run([[30, 8500, 9100]], config, state);
+    expect(later.breaches).toEqual([null]);
+    expect(later.state.lockType).toBe('WEEKLY');
+  });
+
+  it('tracks the high-water mark and holds a trailing lock until reset', () => {
+    const config = { ...CONFIG, maxDailyDrawdownPercent: 0, maxWeeklyDrawdownPercent: 0 };
+    const { state, breaches } = run(
+      [
+        [0, 10000],
+        [24, 11000, 11000],
+        [48, 10000, 10000], // -9.1% from peak
+        [49, 9890, 10000], // -10.1%
+      ],
+      config
+    );
+
+    expect(state.peakEquity).toBe(11000);
+    expect(breaches).toEqual([null, null, null, 'TRAILING']);
+    expect(state).toMatchObject({ isLocked: true, lockType: 'TRAILING', lockedUntil: null });
+
+    const weeksLater = run([[24 * 30, 10500, 10500]], config, state);
+    expect(weeksLater.state.isLocked).toBe(true);
+  });
+
+  it('ignores a limit set to 0', () => {
+    const { breaches } = run([[0, 10000], [1, 5000]], {
+      ...CONFIG,
+      maxDailyDrawdownPercent: 0,
+      maxWeeklyDrawdownPercent: 0,
+      maxTrailingDrawdownPercent: 0,
+    });
+    expect(breaches).toEqual([null, null]);
+  });
+});
+
+describe('EquityCircuitBreaker', () => {
+  beforeEach(() => rows.clear());
+
+  it('persists the lock across restarts and lifts it at the end of the day', async () => {
+    const breaker = new EquityCircuitBreaker(CONFIG);
+    expect(await breaker.check(at(0))).toEqual({ locked: false });
+
+    expect(await breaker.update({ balance: 10000, equity: 10000 }, at(0))).toBeNull();
+    expect(await breaker.update({ balance: 10000, equity: 9400 }, at(1))).toBe('DAILY');
+    expect(rows.get('singleton')).toMatchObject({ isLocked: true, lockType: 'DAILY' });
+
+    const restarted = new EquityCircuitBreaker(CONFIG);
+    const check = await restarted.check(at(2));
+    expect(check.locked).toBe(true);
+    expect(check.reason).toContain('daily drawdown 6.00%');
+
+    expect(await restarted.check(at(14))).toEqual({ locked: false });
+    expect(rows.get('singleton')).toMatchObject({ isLocked: false, lockType: null });
+  });
+
+  it('reset clears a trailing lock and measures from current equity', async () => {
+    const breaker = new EquityCircuitBreaker(CONFIG);
+    await breaker.update({ balance: 10000, equity: 10000 }, at(0));
+    await breaker.update({ balance: 8900, equity: 8900 }, at(1));
+    expect((await breaker.getState())!.lockType).toBe('TRAILING');
+
+    await breaker.reset(at(2));
+    expect(await breaker.check(at(2))).toEqual({ locked: false });
+    expect(await breaker.getState()).toMatchObject({ peakEquity: 8900, dayStartEquity: 8900, weekStartEquity: 8900 });
+    expect(rows.get('singleton')).toMatchObject({ isLocked: false, peakEquity: 8900 });
+  });
+
+  it('does nothing while disabled', async () => {
+    const breaker = new EquityCircuitBreaker({ ...CONFIG, enabled: false });
+    expect(await breaker.update({ balance: 10000, equity: 1000 }, at(0))).toBeNull();
+    expect(await breaker.check(at(0))).toEqual({ locked: false });
+    expect(rows.size).toBe(0);
+  });
+});
@@ -0,0 +1,225 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  DEFAULT_PREFLIGHT_CONFIG,
+  OrderPreflight,
+  PreflightOrder,
+  estimateMarginPerLot,
+  isInTradeSession,
+  preflightOrder,
+} from '../order-preflight';
+import { BrokerAdapter } from '../../broker/types';
+import { AccountInfo, OrderPreflightConfig, SymbolInfo } from '../../types';
+
+// Monday 21:30 UTC - Tuesday 00:30 at the broker (NY close, US daylight saving)
+const NOW = new Date('2026-10-19T21:30:00Z');
+const QUOTE = { bid: 2000.0, ask: 2000.2 };
+
+const gold: SymbolInfo = {
+  symbol: 'XAUUSD.s',
+  description: 'Gold',
+  digits: 2,
+  pipSize: 0.1,
+  contractSize: 100,
+  minVolume: 0.01,
+  maxVolume: 100,
+  volumeStep: 0.01,
+  tickSize: 0.01,
+  tickValue: 1,
+};
+
+// 1 lot of gold needs 2000.20 margin at 1:100; a 300% floor leaves 3333.33 of the 10000 equity to use
+const GOLD_MARGIN = 2000.2;
+const account: AccountInfo = {
+  balance: 10000,
+  equity: 10000,
+  margin: 0,
+  freeMargin: 10000,
+  leverage: 100,
+  currency: 'USD',
+};
+
+function order(overrides: Partial<PreflightOrder> = {}): PreflightOrder {
+  return { symbol: 'XAUUSD.s', direction: 'BUY', lots: 1, stopLoss: 1990, takeProfit: 2020, ...overrides };
+}
+
+function check(
+  o: Partial<PreflightOrder> = {},
+  spec: Partial<SymbolInfo> = {},
+  config: Partial<OrderPreflightConfig> = {},
+  acct: Partial<AccountInfo> = {},
+  quote = QUOTE,
+  marginPerLot = GOLD_MARGIN
+) {
+  return preflightOrder(
+    order(o),
+    quote,
+    { ...account, ...acct },
+    { ...gold, ...spec },
+    marginPerLot,
+    { ...DEFAULT_PREFLIGHT_CONFIG, ...config },
+    NOW
+  );
+}
+
+describe('preflightOrder', () => {
+  it('places an order that passes every check unchanged', () => {
+    expect(check()).toEqual({ action: 'PLACE', lots: 1, adjustments: [] });
+  });
+
+  it('rejects by trade mode', () => {
+    expect(check({}, { tradeMode: 'SYMBOL_TRADE_MODE_DISABLED' })).toMatchObject({
+      action: 'REJECT',
+      reason: 'Trading is disabled for XAUUSD.s',
+    });
+    expect(check({}, { tradeMode: 'SYMBOL_TRADE_MODE_CLOSEONLY' }).reason).toBe('XAUUSD.s is close-only');
+    expect(check({}, { tradeMode: 'SYMBOL_TRADE_MODE_SHORTONLY' }).reason).toBe('XAUUSD.s is short-only');
+    expect(check({}, { tradeMode: 'SYMBOL_TRADE_MODE_LONGONLY' }).action).toBe('PLACE');
+  });
+
+  it('defers outside the trade sessions', () => {
+    expect(check({}, { tradeSessions: [{ day: 2, from: 60, to: 1440 }] })).toMatchObject({
+      action: 'DEFER',
+      reason: 'Market closed: outside the XAUUSD.s trade sessions',
+    });
+    expect(check({}, { tradeSessions: [{ day: 2, from: 0, to: 1440 }] }).action).toBe('PLACE');
+  });
+
+  it('defers while the spread is above the limit', () => {
+    // Typical gold spread 0.25 x 3
+    expect(check({}, {}, {}, {}, { bid: 2000, ask: 2001 })).toMatchObject({
+      action: 'DEFER',
+      reason: 'Spread 1.00 above the 0.75 limit',
+    });
+    expect(check({}, {}, { maxSpread: { 'XAUUSD.s': 0.1 } }).reason).toBe('Spread 0.20 above the 0.10 limit');
+    // No typical spread known and no explicit limit
+    expect(check({ symbol: 'EURUSD' }, { symbol: 'EURUSD' }, {}, {}, { bid: 2000, ask: 2001 }).action).toBe('PLACE');
+  });
+
+  it('rejects stops inside the broker stops or freeze level', () => {
+    expect(check({ stopLoss: 1999.7 }, { stopsLevel: 50 })).toMatchObject({
+      action: 'REJECT',
+      reason: 'SL 30 points from the price, broker minimum is 50',
+    });
+    expect(check({ takeProfit: 2000.2 }, { freezeLevel: 40 }).reason).toBe(
+      'TP 20 points from the price, broker minimum is 40'
+    );
+    expect(check({ stopLoss: 1999.4 }, { stopsLevel: 50 }).action).toBe('PLACE');
+  });
+
+  it('measures a sell from the ask and rejects stops already past the price', () => {
+    const sell = { direction: 'SELL' as const, stopLoss: 2010, takeProfit: 1990 };
+    expect(check(sell, { stopsLevel: 50 }).action).toBe('PLACE');
+    expect(check({ ...sell, stopLoss: 2000.1 }).reason).toBe('SL is already past the market price 2000.2');
+    expect(check({ stopLoss: 2000.1 }).reason).toBe('SL is already past the market price 2000');
+  });
+
+  it('rounds the volume to the step, caps it and rejects it below the minimum', () => {
+    expect(check({ lots: 0.257 })).toEqual({
+      action: 'PLACE',
+      lots: 0.25,
+      adjustments: ['Volume rounded down to the 0.01 step'],
+    });
+    expect(check({ lots: 1.5 }, { maxVolume: 1 })).toEqual({
+      action: 'PLACE',
+      lots: 1,
+      adjustments: ['Volume capped at the 1 lot maximum'],
+    });
+    expect(check({ lots: 0.005 })).toMatchObject({
+      action: 'REJECT',
+      reason: 'Volume 0.005 below the 0.01 lot minimum',
+    });
+  });
+
+  it('downsizes to keep the margin level above the floor', () => {
+    expect(check({ lots: 2 })).toEqual({
+      action: 'PLACE',
+      lots: 1.66,
+      adjustments: ['Margin: 2 lots need 4000.40, 3333.33 available above the 300% margin level, downsized to 1.66 lots'],
+    });
+    // Free margin binds before the level floor
+    expect(check({ lots: 2 }, {}, {}, { freeMargin: 2500 }).lots).toBe(1.24);
+  });
+
+  it('rejects on margin without downsizing or when even the minimum does not fit', () => {
+    expect(check({ lots: 2 }, {}, { downsizeOnMargin: false })).toMatchObject({
+      action: 'REJECT',
+      reason: 'Margin: 2 lots need 4000.40, 3333.33 available above the 300% margin level',
+    });
+    expect(check({}, {}, {}, { margin: 3330 }).action).toBe('REJECT');
+  });
+
+  it('sizes against the broker margin rather than account leverage', () => {
+    const btc = { symbol: 'BTCUSD', contractSize: 1, maxVolume: 10 };
+    const btcOrder = { symbol: 'BTCUSD', stopLoss: 59000, takeProfit: 62000 };
+    const btcQuote = { bid: 60000, ask: 60010 };
+    // 1:2 on crypto - 30005 a lot, where 1:100 would be 600
+    expect(check({ ...btcOrder, lots: 0.5 }, btc, {}, {}, btcQuote, 30005)).toMatchObject({ action: 'PLACE', lots: 0.11 });
+    expect(check({ ...btcOrder, lots: 0.5 }, btc, {}, {}, btcQuote, 600.1)).toMatchObject({ action: 'PLACE', lots: 0.5 });
+  });
+});
+
+describe('estimateMarginPerLot', () => {
+  it('converts the quote currency to the account currency', () => {
+    const usdjpy = { ...gold, symbol: 'USDJPY', contractSize: 100000, baseCurrency: 'USD', profitCurrency: 'JPY' };
+    expect(estimateMarginPerLot(usdjpy, 150, account)).toBeCloseTo(1000);
+    expect(estimateMarginPerLot({ ...gold, profitCurrency: 'USD' }, 2000, account)).toBe(2000);
+    expect(estimateMarginPerLot(gold, 2000, { ...account, leverage: 0 })).toBe(0);
+  });
+});
+
+describe('isInTradeSession', () => {
+  const sessions = [{ day: 2, from: 0, to: 60 }];
+
+  it('reads the session in broker server time', () => {
+    expect(isInTradeSession(NOW, sessions, 'NY_CLOSE')).toBe(true);
+    expect(isInTradeSession(NOW, sessions, 'UTC')).toBe(false);
+    expect(isInTradeSession(NOW, [{ day: 1, from: 21 * 60, to: 22 * 60 }], 'UTC')).toBe(true);
+  });
+
+  it('follows the NY close offset out of daylight saving', () => {
+    // 22:30 UTC in December is 00:30 at UTC+2
+    expect(isInTradeSession(new Date('2026-12-14T22:30:00Z'), sessions, 'NY_CLOSE')).toBe(true);
+    expect(isInTradeSession(new Date('2026-12-14T21:30:00Z'), sessions, 'NY_CLOSE')).toBe(false);
+  });
+});
+
+describe('OrderPreflight', () => {
+  function broker(): BrokerAdapter {
+    return {
+      now: () => NOW,
+      getAccountInfo: vi.fn().mockResolvedValue(account),
+      getSymbolInfo: vi.fn().mockResolvedValue(gold),
+      getCurrentPrice: vi.fn().mockResolvedValue(QUOTE),
+      calculateMargin: vi.fn().mockImplementation(async (_symbol, _type, volume) => volume * 4000.4),
+    } as unknown as BrokerAdapter;
+  }
+
+  it('checks with fresh broker data and the broker margin', async () => {
+    const b = broker();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const result = await new OrderPreflight().check(b, order({ lots: 2 }));
+
+    // Broker margin is twice the leverage estimate
+    expect(result.lots).toBe(0.83);
+    expect(b.getSymbolInfo).toHaveBeenCalledWith('XAUUSD.s');
+    expect(b.calculateMargin).toHaveBeenCalledWith('XAUUSD.s', 'BUY', 2, QUOTE.ask);
+  });
+
+  it('estimates the margin when the broker cannot calculate it', async () => {
+    const b = broker();
+    vi.mocked(b.calculateMargin).mockRejectedValueOnce(new Error('not supported'));
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect((await new OrderPreflight().check(b, order({ lots: 2 }))).lots).toBe(1.66);
+  });
+
+  it('places the order as-is while disabled', async () => {
+    const b = broker();
+    const preflight = new OrderPreflight();
+    preflight.updateConfig({ enabled: false });
+
+    expect(await preflight.check(b, order({ lots: 2 }))).toEqual({ action: 'PLACE', lots: 2, adjustments: [] });
+    expect(b.getAccountInfo).not.toHaveBeenCalled();
+    expect(preflight.getConfig().minMarginLevelPercent).toBe(300);
+  });
+});
@@ -0,0 +1,247 @@
+import { describe, it, expect, vi } from 'vitest';
+
+// The default candle source is the candle cache; tests pass their own
+vi.mock('../../db', () => ({ prisma: {} }));
+
+import {
+  buildExposureBuckets,
+  computeCorrelationMatrix,
+  evaluatePortfolioRisk,
+  PortfolioRiskEngine,
+  positionRisk,
+  RiskExposure,
+  ExposureBucket,
+} from '../portfolio-risk';
+import { Candle, PortfolioRiskConfig, Position, SymbolInfo } from '../../types';
+
+const HOUR = 60 * 60 * 1000;
+const START = Date.UTC(2024, 2, 4);
+
+const CONFIG: PortfolioRiskConfig = {
+  enabled: true,
+  correlationTimeframe: 'H1',
+  correlationLookback: 200,
+  correlationThreshold: 0.7,
+  minOverlap: 50,
+  staticBuckets: [['XAU', 'XAG'], ['BTC', 'ETH']],
+  maxBucketRiskPercent: 1,
+  maxBucketR: 2,
+  maxDirectionRiskPercent: 2,
+  maxDirectionR: 4,
+};
+
+const XAUUSD: SymbolInfo = {
+  symbol: 'XAUUSD',
+  description: 'Gold vs USD',
+  digits: 2,
+  pipSize: 0.1,
+  contractSize: 100,
+  minVolume: 0.01,
+  maxVolume: 100,
+  volumeStep: 0.01,
+  tickSize: 0.01,
+  tickValue: 1,
+};
+
+/** Deterministic pseudo-random returns in [-0.005, 0.005) */
+function noise(seed: number, count: number): number[] {
+  let state = seed;
+  return Array.from({ length: count }, () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return (state / 2147483648 - 0.5) / 100;
+  });
+}
+
+function series(symbol: string, returns: number[], start: number = 100): Candle[] {
+  let close = start;
+  return [start, ...returns].map((r, i) => {
+    close = i === 0 ? start : close * Math.exp(r);
+    return { time: new Date(START + i * HOUR), open: close, high: close, low: close, close, volume: 1, symbol, timeframe: 'H1' };
+  });
+}
+
+function exposure(id: string, symbol: string, direction: 'BUY' | 'SELL', riskAmount: number): RiskExposure {
+  return { id, symbol, direction, riskAmount };
+}
+
+function position(id: string, symbol: string, type: 'BUY' | 'SELL', stopLoss?: number): Position {
+  return {
+    id,
+    symbol,
+    type,
+    volume: 0.05,
+    openPrice: 2000,
+    currentPrice: 2000,
+    stopLoss,
+    profit: 0,
+    swap: 0,
+    openTime: new Date(START),
+  };
+}
+
+describe('exposure buckets', () => {
+  const base = noise(7, 300);
+  const candles = {
+    A: series('A', base),
+    B: series('B', base.map((r, i) => r * 0.8 + noise(11, 300)[i] * 0.2)),
+    C: series('C', base.map((r) => -r)),
+    D: series('D', noise(99, 300)),
+  };
+
+  it('correlates rolling returns and groups correlated symbols with their sign', () => {
+    const matrix = computeCorrelationMatrix(candles, CONFIG.correlationLookback, CONFIG.minOverlap);
+    expect(matrix.A.B).toBeGreaterThan(0.9);
+    expect(matrix.A.C).toBeCloseTo(-1, 6);
+    expect(Math.abs(matrix.A.D!)).toBeLessThan(0.3);
+
+    const buckets = buildExposureBuckets(['A', 'B', 'C', 'D'], matrix, CONFIG.correlationThreshold);
+    expect(buckets).toEqual([
+      { symbols: ['A', 'B', 'C'], signs: { A: 1, B: 1, C: -1 } },
+      { symbols: ['D'], signs: { D: 1 } },
+    ]);
+  });
+
+  it('falls back to static groups when history is too short', () => {
+    const symbols = ['XAUUSD.s', 'BTCUSD', 'XAGUSD.s', 'EURUSD', 'ETHUSD'];
+    const matrix = computeCorrelationMatrix(
+      Object.fromEntries(symbols.map((s) => [s, series(s, noise(3, 10))])),
+      CONFIG.correlationLookback,
+      CONFIG.minOverlap
+    );
+
+    expect(buildExposureBuckets(symbols, matrix, 0.7, CONFIG.staticBuckets).map((b) => b.symbols)).toEqual([
+      ['XAUUSD.s', 'XAGUSD.s'],
+      ['BTCUSD', 'ETHUSD'],
+      ['EURUSD'],
+    ]);
+  });
+});
+
+describe('positionRisk', () => {
+  it('is the loss at the stop, zero once the stop is in profit, and 1R without a stop', () => {
+    expect(positionRisk(position('1', 'XAUUSD', 'BUY', 1990), XAUUSD, 50)).toBeCloseTo(50, 6);
+    expect(positionRisk(position('2', 'XAUUSD', 'SELL', 2004), XAUUSD, 50)).toBeCloseTo(20, 6);
+    expect(positionRisk(position('3', 'XAUUSD', 'BUY', 2001), XAUUSD, 50)).toBe(0);
+    expect(positionRisk(position('4', 'XAUUSD', 'BUY'), XAUUSD, 50)).toBe(50);
+  });
+});
+
+describe('evaluatePortfolioRisk', () => {
+  const buckets: ExposureBucket[] = [
+    { symbols: ['XAUUSD', 'XAGUSD'], signs: { XAUUSD: 1, XAGUSD: 1 } },
+    { symbols: ['EURUSD', 'USDCHF'], signs: { EURUSD: 1, USDCHF: -1 } },
+    { symbols: ['BTCUSD'], signs: { BTCUSD: 1 } },
+    { symbols: ['GBPJPY'], signs: { GBPJPY: 1 } },
+  ];
+  // Balance 10000 at 0.5% risk: 1R = 50, bucket cap 100, direction cap 200
+  const check = (proposed: RiskExposure, open: RiskExposure[], config: PortfolioRiskConfig = CONFIG) =>
+    evaluatePortfolioRisk(proposed, open, buckets, 10000, 0.5, config);
+
+  it('caps risk in account currency per bucket and direction', () => {
+    const open = [exposure('p1', 'XAUUSD', 'BUY', 60)];
+
+    expect(check(exposure('new', 'XAGUSD', 'BUY', 40), open).allowed).toBe(true);
+    expect(check(exposure('new', 'XAGUSD', 'SELL', 50), open).allowed).toBe(true);
+    expect(check(exposure('new', 'BTCUSD', 'BUY', 50), open).allowed).toBe(true);
+
+    const result = check(exposure('new', 'XAGUSD', 'BUY', 50), open);
+    expect(result.allowed).toBe(false);
+    expect(result.rejection).toEqual({
+      code: 'BUCKET_RISK',
+      message:
+        'Portfolio risk: BUY exposure in bucket [XAUUSD, XAGUSD] would be 110.00 (open 60.00 + 50.00), limit 100.00',
+      symbol: 'XAGUSD',
+      direction: 'BUY',
+      bucket: ['XAUUSD', 'XAGUSD'],
+      positionIds: ['p1'],
+      unit: 'currency',
+      current: 60,
+      proposed: 50,
+      limit: 100,
+    });
+  });
+
+  it('counts inversely correlated members in the opposite direction', () => {
+    const open = [exposure('p1', 'USDCHF', 'SELL', 60), exposure('p2', 'USDCHF', 'BUY', 60)];
+
+    const result = check(exposure('new', 'EURUSD', 'BUY', 50), open);
+    expect(result.rejection).toMatchObject({ code: 'BUCKET_RISK', positionIds: ['p1'], current: 60 });
+    expect(check(exposure('new', 'EURUSD', 'SELL', 40), open).allowed).toBe(true);
+  });
+
+  it('caps risk in R per bucket', () => {
+    const config = { ...CONFIG, maxBucketRiskPercent: 10, maxBucketR: 1.5 };
+    const result = check(exposure('new', 'XAGUSD', 'BUY', 50), [exposure('p1', 'XAUUSD', 'BUY', 50)], config);
+
+    expect(result.rejection).toMatchObject({ code: 'BUCKET_R', unit: 'R', current: 1, proposed: 1, limit: 1.5 });
+  });
+
+  it('caps same-direction risk across buckets', () => {
+    const open = [
+      exposure('p1', 'XAUUSD', 'BUY', 50),
+      exposure('p2', 'BTCUSD', 'BUY', 50),
+      exposure('p3', 'EURUSD', 'BUY', 50),
+      exposure('p4', 'BTCUSD', 'SELL', 50),
+    ];
+
+    expect(check(exposure('new', 'GBPJPY', 'BUY', 50), open).allowed).toBe(true);
+    const result = check(exposure('new', 'GBPJPY', 'BUY', 60), open);
+    expect(result.rejection).toMatchObject({
+      code: 'DIRECTION_RISK',
+      bucket: undefined,
+      positionIds: ['p1', 'p2', 'p3'],
+      current: 150,
+      limit: 200,
+    });
+    expect(result.rejection!.message).toBe(
+      'Portfolio risk: BUY exposure would be 210.00 (open 150.00 + 60.00), limit 200.00'
+    );
+
+    const inR = check(exposure('new', 'GBPJPY', 'BUY', 60), open, { ...CONFIG, maxDirectionRiskPercent: 10, maxDirectionR: 3 });
+    expect(inR.rejection).toMatchObject({ code: 'DIRECTION_R', current: 3, proposed: 1.2, limit: 3 });
+  });
+});
+
+describe('PortfolioRiskEngine', () => {
+  it('buckets from loaded candles, sizes open positions and caches the buckets', async () => {
+    const base = noise(5, 300);
+    const loadCandles = vi.fn(async (symbol: string) =>
+      symbol === 'USOIL' ? series(symbol, noise(42, 300)) : series(symbol, base, symbol === 'XAUUSD' ? 2000 : 25)
+    );
+    const engine = new PortfolioRiskEngine(CONFIG, loadCandles);
+    const getSymbolInfo = vi.fn(async () => XAUUSD);
+    const now = new Date(START + 300 * HOUR);
+
+    // 0.05 lots with a 10-point stop risks 50
+    const positions = [position('p1', 'XAUUSD', 'BUY', 1990)];
+    const rejected = await engine.checkTrade(
+      { symbol: 'XAGUSD', direction: 'BUY', riskAmount: 60 },
+      positions,
+      10000,
+      0.5,
+      getSymbolInfo,
+      now
+    );
+    expect(rejected.rejection).toMatchObject({ code: 'BUCKET_RISK', bucket: ['XAGUSD', 'XAUUSD'], current: 50 });
+
+    const allowed = await engine.checkTrade(
+      { symbol: 'USOIL', direction: 'BUY', riskAmount: 60 },
+      positions,
+      10000,
+      0.5,
+      getSymbolInfo,
+      now
+    );
+    expect(allowed.allowed).toBe(true);
+    expect(loadCandles).toHaveBeenCalledTimes(4);
+
+    // Same symbols within the refresh window: no reload
+    await engine.getBuckets(['USOIL', 'XAUUSD'], new Date(now.getTime() + HOUR));
+    expect(loadCandles).toHaveBeenCalledTimes(4);
+
+    engine.updateConfig({ ...CONFIG, enabled: false });
+    expect(
+      await engine.checkTrade({ symbol: 'XAGUSD', direction: 'BUY', riskAmount: 500 }, positions, 10000, 0.5, getSymbolInfo)
+    ).toEqual({ allowed: true });
+  });
+});
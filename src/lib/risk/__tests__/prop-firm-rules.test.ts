@@ -0,0 +1,231 @@
+import { describe, it, expect, vi } from 'vitest';
+
+// News comes from the EconomicEvent table by default; tests pass their own
+vi.mock('../../db', () => ({ prisma: {} }));
+
+import {
+  ComplianceSnapshot,
+  evaluatePropFirmRules,
+  PropFirmRulesEngine,
+  serverDayStart,
+  serverWeekendStart,
+  symbolCurrencies,
+} from '../prop-firm-rules';
+import { BrokerAdapter, BrokerDeal } from '../../broker/types';
+import { PropFirmConfig, PROP_FIRM_PRESETS, Position, SymbolInfo } from '../../types';
+
+const MINUTE = 60 * 1000;
+const WEDNESDAY = new Date(Date.UTC(2024, 2, 6, 12, 0));
+
+const FTMO: PropFirmConfig = {
+  enabled: true,
+  ...PROP_FIRM_PRESETS['FTMO'],
+  initialBalance: 100000,
+  serverTimezone: 'NY_CLOSE',
+  safetyBufferPercent: 0.5,
+  weekendCutoffMinutes: 60,
+};
+
+const XAUUSD: SymbolInfo = {
+  symbol: 'XAUUSD',
+  description: 'Gold vs USD',
+  digits: 2,
+  pipSize: 0.1,
+  contractSize: 100,
+  minVolume: 0.01,
+  maxVolume: 100,
+  volumeStep: 0.01,
+  tickSize: 0.01,
+  tickValue: 1,
+};
+
+function snapshot(overrides: Partial<ComplianceSnapshot> = {}): ComplianceSnapshot {
+  return {
+    now: WEDNESDAY,
+    balance: 98000,
+    equity: 97500,
+    dayStartBalance: 100000,
+    openRisk: 1000,
+    openLots: 1,
+    openPositions: 1,
+    tradingDays: 2,
+    news: [],
+    ...overrides,
+  };
+}
+
+function order(riskAmount: number, symbol: string = 'XAUUSD.s', lots: number = 1) {
+  return { symbol, direction: 'BUY' as const, lots, riskAmount };
+}
+
+describe('server time', () => {
+  it('starts the day and the weekend at server midnight', () => {
+    // NY_CLOSE is UTC+2 before US daylight saving starts on 10 March
+    expect(serverDayStart(new Date(Date.UTC(2024, 2, 6, 21, 30)), 'NY_CLOSE')).toEqual(new Date(Date.UTC(2024, 2, 5, 22)));
+    expect(serverDayStart(new Date(Date.UTC(2024, 2, 6, 22, 30)), 'NY_CLOSE')).toEqual(new Date(Date.UTC(2024, 2, 6, 22)));
+    expect(serverDayStart(WEDNESDAY, 60)).toEqual(new Date(Date.UTC(2024, 2, 5, 23)));
+
+    const fridayClose = new Date(Date.UTC(2024, 2, 8, 22));
+    expect(serverWeekendStart(WEDNESDAY, 'NY_CLOSE')).toEqual(fridayClose);
+    expect(serverWeekendStart(new Date(Date.UTC(2024, 2, 9, 10)), 'NY_CLOSE')).toEqual(fridayClose);
+    expect(serverWeekendStart(new Date(Date.UTC(2024, 2, 10, 12)), 'NY_CLOSE')).toEqual(fridayClose);
+  });
+
+  it('maps symbols to the currencies whose news moves them', () => {
+    expect(symbolCurrencies('XAUUSD.s')).toEqual(['XAU', 'USD']);
+    expect(symbolCurrencies('btcusd')).toEqual(['BTC', 'USD']);
+    expect(symbolCurrencies('US30.cash')).toEqual(['USD']);
+    expect(symbolCurrencies('UKOIL')).toEqual([]);
+  });
+});
+
+describe('evaluatePropFirmRules', () => {
+  it('reports headroom against each rule of the preset', () => {
+    const { allowed, rules } = evaluatePropFirmRules(snapshot(), FTMO);
+
+    expect(allowed).toBe(true);
+    expect(rules.map((r) => [r.rule, r.state])).toEqual([
+      ['DAILY_LOSS', 'OK'],
+      ['MAX_LOSS', 'OK'],
+      ['MIN_TRADING_DAYS', 'PENDING'],
+      ['NEWS_TRADING', 'OK'],
+      ['WEEKEND_HOLDING', 'OK'],
+    ]);
+    expect(rules[0]).toMatchObject({ current: 2500, limit: 5000, headroom: 2500 });
+    expect(rules[1]).toMatchObject({ current: 2500, limit: 10000, headroom: 7500 });
+    expect(rules[2]).toMatchObject({ current: 2, limit: 4, headroom: 2, message: '2/4 trading days, 2 to go' });
+    expect(rules[4]).toMatchObject({ current: 58 * 60, headroom: 58 * 60 - 60 });
+  });
+
+  it('refuses an order whose stop-out would come within the buffer of the daily floor', () => {
+    // Worst case with open stops is 97000; the floor is 95000 plus a 500 buffer
+    expect(evaluatePropFirmRules(snapshot(), FTMO, order(1500)).allowed).toBe(true);
+
+    const refused = evaluatePropFirmRules(snapshot(), FTMO, order(1600));
+    expect(refused.allowed).toBe(false);
+    expect(refused.violation).toMatchObject({ rule: 'DAILY_LOSS', state: 'OK', headroom: 2500 });
+    expect(refused.violation!.message).toBe(
+      'Daily loss: stopping out would leave equity at 95400.00, within 0.5% of the 95000.00 floor (5% of 100000.00)'
+    );
+  });
+
+  it('flags a breached or threatened loss floor', () => {
+    const breached = evaluatePropFirmRules(snapshot({ equity: 94900 }), FTMO);
+    expect(breached.rules[0]).toMatchObject({ state: 'BREACHED', headroom: -100 });
+
+    // Equity is fine but the open stops reach below the floor
+    const threatened = evaluatePropFirmRules(snapshot({ openRisk: 3500 }), FTMO);
+    expect(threatened.rules[0].state).toBe('WARNING');
+    expect(threatened.rules[0].message).toBe('Open stops would leave equity at 94500.00 against the 95000.00 floor');
+  });
+
+  it('bans new trades around high-impact news on the symbol currencies', () => {
+    const news = [{ time: new Date(WEDNESDAY.getTime() + MINUTE), currency: 'USD', impact: 'HIGH' as const, title: 'Non-Farm Payrolls' }];
+    const state = snapshot({ news });
+
+    const refused = evaluatePropFirmRules(state, FTMO, order(100));
+    expect(refused.violation).toMatchObject({ rule: 'NEWS_TRADING', state: 'WARNING' });
+    expect(refused.violation!.message).toBe(
+      'News trading: USD Non-Farm Payrolls at 2024-03-06T12:01:00.000Z, no new XAUUSD.s trades within 2m'
+    );
+    expect(evaluatePropFirmRules(state, FTMO, order(100, 'EURGBP')).allowed).toBe(true);
+    expect(evaluatePropFirmRules(snapshot({ news, now: new Date(WEDNESDAY.getTime() + 4 * MINUTE) }), FTMO, order(100)).allowed).toBe(true);
+  });
+
+  it('stops opening trades before the weekend and flags positions held into it', () => {
+    const fridayEvening = new Date(Date.UTC(2024, 2, 8, 21, 30));
+    const refused = evaluatePropFirmRules(snapshot({ now: fridayEvening }), FTMO, order(100));
+    expect(refused.violation).toMatchObject({ rule: 'WEEKEND_HOLDING', state: 'WARNING', current: 30 });
+    expect(refused.violation!.message).toBe('Weekend holding: Friday close in 30m, no new trades within 60m');
+
+    const saturday = evaluatePropFirmRules(snapshot({ now: new Date(Date.UTC(2024, 2, 9, 10)) }), FTMO);
+    expect(saturday.rules.find((r) => r.rule === 'WEEKEND_HOLDING')).toMatchObject({
+      state: 'BREACHED',
+      message: 'Weekend: 1 positions open',
+    });
+    expect(
+      evaluatePropFirmRules(snapshot({ now: fridayEvening }), { ...FTMO, ...PROP_FIRM_PRESETS['FTMO_SWING'] }, order(100)).allowed
+    ).toBe(true);
+  });
+
+  it('caps total open lots', () => {
+    const strict = { ...FTMO, ...PROP_FIRM_PRESETS['STRICT'] };
+    const state = snapshot({ openLots: 4.5 });
+
+    expect(evaluatePropFirmRules(state, strict, order(100, 'XAUUSD.s', 0.5)).allowed).toBe(true);
+    const refused = evaluatePropFirmRules(state, strict, order(100, 'XAUUSD.s', 1));
+    expect(refused.violation).toMatchObject({ rule: 'MAX_LOT_EXPOSURE', headroom: 0.5 });
+    expect(refused.violation!.message).toBe('Lot exposure: 1 lots would bring open volume to 5.50, limit 5');
+  });
+
+  it('warns instead of guessing when the initial balance is not set', () => {
+    const result = evaluatePropFirmRules(snapshot({ equity: 50000 }), { ...FTMO, initialBalance: 0, maxDailyLossPercent: 0 }, order(100));
+    expect(result.allowed).toBe(true);
+    expect(result.rules[0]).toMatchObject({ rule: 'MAX_LOSS', state: 'WARNING' });
+  });
+});
+
+describe('PropFirmRulesEngine', () => {
+  const MONDAY = new Date(Date.UTC(2024, 2, 4, 9));
+  const deals: BrokerDeal[] = [
+    { id: '1', type: 'DEAL_TYPE_BUY', entryType: 'DEAL_ENTRY_IN', time: MONDAY, commission: -5 },
+    { id: '2', type: 'DEAL_TYPE_SELL', entryType: 'DEAL_ENTRY_OUT', time: MONDAY, profit: 300 },
+    { id: '3', type: 'DEAL_TYPE_BALANCE', time: new Date(WEDNESDAY.getTime() - 60 * MINUTE), profit: 5000 },
+    { id: '4', type: 'DEAL_TYPE_BUY', entryType: 'DEAL_ENTRY_IN', time: new Date(WEDNESDAY.getTime() - 30 * MINUTE), commission: -5 },
+    { id: '5', type: 'DEAL_TYPE_SELL', entryType: 'DEAL_ENTRY_OUT', time: new Date(WEDNESDAY.getTime() - 10 * MINUTE), profit: -200, swap: -1, commission: -5 },
+  ];
+  const positions: Position[] = [
+    { id: 'p1', symbol: 'XAUUSD', type: 'BUY', volume: 0.1, openPrice: 2000, currentPrice: 1995, stopLoss: 1990, profit: -50, swap: 0, openTime: WEDNESDAY },
+    { id: 'p2', symbol: 'XAUUSD', type: 'SELL', volume: 0.2, openPrice: 2000, currentPrice: 1995, profit: 100, swap: 0, openTime: WEDNESDAY },
+  ];
+  const broker = {
+    now: () => WEDNESDAY,
+    getAccountInfo: async () => ({ balance: 10000, equity: 10050, margin: 0, freeMargin: 10050, leverage: 100, currency: 'USD' }),
+    getPositions: async () => positions,
+    getHistoricalDeals: vi.fn(async () => deals),
+    getSymbolInfo: async () => XAUUSD,
+  } as unknown as BrokerAdapter;
+
+  it('builds the snapshot from the broker account, deals and positions', async () => {
+    const loadNews = vi.fn(async () => []);
+    const engine = new PropFirmRulesEngine({ ...FTMO, initialBalance: 10000, startDate: '2024-03-04' }, loadNews);
+
+    const state = await engine.snapshot(broker);
+    expect(state).toMatchObject({
+      balance: 10000,
+      equity: 10050,
+      dayStartBalance: 10000 + 5 + 206,
+      openRisk: 100 + 100, // 10 points on 0.1 lots, plus 1% of balance for the stopless position
+      openPositions: 2,
+      tradingDays: 2,
+    });
+    expect(state.openLots).toBeCloseTo(0.3);
+    expect(broker.getHistoricalDeals).toHaveBeenCalledWith(new Date('2024-03-04'), WEDNESDAY);
+    expect(loadNews).toHaveBeenCalledWith(new Date(WEDNESDAY.getTime() - 2 * MINUTE), new Date(WEDNESDAY.getTime() + 24 * 60 * MINUTE));
+  });
+
+  it('applies presets on config updates and allows everything while disabled', async () => {
+    const engine = new PropFirmRulesEngine({ ...FTMO, enabled: false });
+    expect(await engine.checkOrder(broker, order(1e9))).toEqual({ allowed: true, rules: [] });
+
+    engine.updateConfig({ preset: 'STRICT', enabled: true });
+    expect(engine.getConfig()).toMatchObject({ enabled: true, maxOpenLots: 5, maxDailyLossPercent: 4, initialBalance: 100000 });
+
+    engine.updateConfig({ maxOpenLots: 0.2 });
+    expect(engine.getConfig()).toMatchObject({ preset: 'STRICT', maxOpenLots: 0.2 });
+  });
+
+  it('restores the saved rules on first use, unless updated first', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const loadSaved = vi.fn(async () => ({ preset: 'STRICT' as const, enabled: true }));
+    const engine = new PropFirmRulesEngine({ ...FTMO, enabled: false }, async () => [], loadSaved);
+
+    expect(await engine.loadConfig()).toMatchObject({ preset: 'STRICT', enabled: true, maxOpenLots: 5 });
+    expect((await engine.getCompliance(broker)).rules.length).toBeGreaterThan(0);
+    expect(loadSaved).toHaveBeenCalledTimes(1);
+
+    const updated = new PropFirmRulesEngine({ ...FTMO, enabled: false }, async () => [], loadSaved);
+    updated.updateConfig({ maxOpenLots: 1 });
+    expect(await updated.loadConfig()).toMatchObject({ preset: 'FTMO', enabled: false, maxOpenLots: 1 });
+  });
+});
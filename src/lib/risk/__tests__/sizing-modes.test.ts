@@ -0,0 +1,184 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { findMany } = vi.hoisted(() => ({ findMany: vi.fn() }));
+
+vi.mock('../../db', () => ({ prisma: { trade: { findMany } } }));
+
+import {
+  DEFAULT_SIZING_CONFIG,
+  atrRatio,
+  balanceCurveFrom,
+  currentStreak,
+  equityCurveState,
+  kellyStats,
+  loadSizingHistory,
+  resolveRiskPercent,
+  resolveSizingConfig,
+} from '../sizing-modes';
+import { Candle, PositionSizingConfig } from '../../types';
+
+function candles(ranges: number[]): Candle[] {
+  return ranges.map((range, i) => ({
+    time: new Date(Date.UTC(2024, 2, 6, i)),
+    open: 100,
+    high: 100 + range / 2,
+    low: 100 - range / 2,
+    close: 100,
+    volume: 0,
+    symbol: 'XAUUSD.s',
+    timeframe: 'M15',
+  }));
+}
+
+function config(overrides: Partial<PositionSizingConfig>): PositionSizingConfig {
+  return resolveSizingConfig({ atrPeriod: 2, atrLookback: 3, maxRiskMultiplier: 3 }, overrides);
+}
+
+const results = (wins: number, win: number, losses: number, loss: number) => [
+  ...Array(wins).fill(win),
+  ...Array(losses).fill(-loss),
+];
+
+describe('mode inputs', () => {
+  it('compares the current ATR with its recent average', () => {
+    // ATRs over period 2 end 1, 1.5, 2: baseline 1.5 against current 2
+    expect(atrRatio(candles([...Array(10).fill(1), 2, 2]), 2, 3)).toBeCloseTo(0.75);
+    expect(atrRatio(candles(Array(10).fill(1)), 2, 3)).toBe(1);
+    expect(atrRatio(candles([1, 1, 1, 1]), 2, 3)).toBeNull();
+  });
+
+  it('derives the Kelly fraction from win rate and payoff', () => {
+    expect(kellyStats(results(12, 200, 8, 100))).toEqual({ winRate: 0.6, payoff: 2, kelly: 0.6 - 0.4 / 2 });
+    expect(kellyStats([100, 0, -100, -100]).winRate).toBe(0.25);
+    expect(kellyStats([-50, -50]).kelly).toBe(0);
+    expect(kellyStats([50, 50]).kelly).toBe(1);
+  });
+
+  it('reduces after a drawdown and restores only at a new high', () => {
+    expect(equityCurveState([10000, 10200, 9650], 5)).toMatchObject({ reduced: true });
+    expect(equityCurveState([10000, 10200, 9650, 9900], 5)).toMatchObject({ reduced: true });
+    expect(equityCurveState([10000, 10200, 9650, 9900, 10300], 5)).toEqual({ reduced: false, drawdownPercent: 0 });
+    expect(equityCurveState([10000, 9800], 5)).toMatchObject({ reduced: false });
+  });
+
+  it('counts the streak ending with the latest result', () => {
+    expect(currentStreak([-10, 20, 30, 40])).toBe(3);
+    expect(currentStreak([40, -10, -20])).toBe(-2);
+    expect(currentStreak([40, 0])).toBe(0);
+    expect(currentStreak([])).toBe(0);
+  });
+
+  it('builds the balance curve from a start balance', () => {
+    expect(balanceCurveFrom(1000, [50, -20])).toEqual([1000, 1050, 1030]);
+  });
+});
+
+describe('resolveRiskPercent', () => {
+  it('keeps the base risk in fixed mode', () => {
+    expect(resolveRiskPercent(1, DEFAULT_SIZING_CONFIG, { pairResults: [100, 100, 100] })).toEqual({
+      mode: 'FIXED',
+      riskPercent: 1,
+      multiplier: 1,
+      reason: 'fixed risk',
+    });
+  });
+
+  it('scales risk inversely with volatility', () => {
+    const decision = resolveRiskPercent(1, config({ mode: 'ATR' }), { candles: candles([...Array(10).fill(1), 2, 2]) });
+    expect(decision.riskPercent).toBeCloseTo(0.75);
+    expect(decision.reason).toBe('ATR at 1.33x its 3-bar average');
+
+    expect(resolveRiskPercent(1, config({ mode: 'ATR' }), { candles: [] })).toMatchObject({
+      riskPercent: 1,
+      reason: 'not enough candles for ATR',
+    });
+  });
+
+  it('risks fractional Kelly within the multiplier bounds', () => {
+    const edge = resolveRiskPercent(1, config({ mode: 'KELLY', kellyFraction: 0.05 }), {
+      pairResults: results(12, 200, 8, 100),
+    });
+    expect(edge.riskPercent).toBeCloseTo(2);
+    expect(edge.reason).toBe('Kelly 40.0% x 0.05 (win rate 60.0%, payoff 2.00, 20 trades)');
+
+    // Quarter Kelly would be 10% - capped at 3x
+    expect(resolveRiskPercent(1, config({ mode: 'KELLY' }), { pairResults: results(12, 200, 8, 100) }).riskPercent).toBe(3);
+    // No edge - the floor
+    expect(resolveRiskPercent(1, config({ mode: 'KELLY' }), { pairResults: results(5, 100, 15, 100) }).riskPercent).toBe(0.25);
+  });
+
+  it('uses only the rolling Kelly window and falls back without enough trades', () => {
+    const cfg = config({ mode: 'KELLY', kellyFraction: 0.05, kellyLookback: 20 });
+    // Old losers fall out of the window
+    const decision = resolveRiskPercent(1, cfg, { pairResults: [...results(0, 0, 30, 100), ...results(12, 200, 8, 100)] });
+    expect(decision.riskPercent).toBeCloseTo(2);
+
+    expect(resolveRiskPercent(1, cfg, { pairResults: results(5, 100, 5, 100) })).toMatchObject({
+      riskPercent: 1,
+      reason: '10/20 trades for Kelly',
+    });
+  });
+
+  it('reduces risk while the equity curve is in drawdown', () => {
+    const cfg = config({ mode: 'EQUITY_CURVE' });
+    expect(resolveRiskPercent(1, cfg, { balanceCurve: [10000, 10200, 9650, 9900] })).toMatchObject({
+      riskPercent: 0.5,
+      reason: '2.94% below the equity high, reduced until a new high',
+    });
+    expect(resolveRiskPercent(1, cfg, { balanceCurve: [10000, 10200, 9650, 10300] }).riskPercent).toBe(1);
+  });
+
+  it('steps risk up on winning streaks and down on losing streaks', () => {
+    const cfg = config({ mode: 'ANTI_MARTINGALE' });
+    expect(resolveRiskPercent(1, cfg, { pairResults: [-10, 20, 30] })).toMatchObject({
+      riskPercent: 1.5,
+      reason: '2 wins in a row',
+    });
+    // Capped at maxStreakSteps
+    expect(resolveRiskPercent(1, cfg, { pairResults: [10, 10, 10, 10, 10] }).riskPercent).toBe(1.75);
+    expect(resolveRiskPercent(1, cfg, { pairResults: [-10, -10, -10, -10] }).riskPercent).toBe(0.25);
+  });
+});
+
+describe('resolveSizingConfig', () => {
+  it('layers symbol overrides over the profile over the defaults', () => {
+    expect(resolveSizingConfig({ mode: 'KELLY', kellyFraction: 0.5 }, { kellyFraction: 0.1 })).toEqual({
+      ...DEFAULT_SIZING_CONFIG,
+      mode: 'KELLY',
+      kellyFraction: 0.1,
+    });
+  });
+});
+
+describe('loadSizingHistory', () => {
+  beforeEach(() => findMany.mockReset());
+
+  it('reads the strategy-symbol results oldest first', async () => {
+    findMany.mockResolvedValue([{ pnl: 30 }, { pnl: -10 }]);
+    const history = await loadSizingHistory(config({ mode: 'KELLY' }), 'ORDER_BLOCK', 'XAUUSD.s', 10000);
+
+    expect(history).toEqual({ pairResults: [-10, 30] });
+    expect(findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { status: 'CLOSED', strategy: 'ORDER_BLOCK', symbol: 'XAUUSD.s', pnl: { not: null } },
+        take: DEFAULT_SIZING_CONFIG.kellyLookback,
+      })
+    );
+  });
+
+  it('rebuilds the balance curve back from the current balance', async () => {
+    findMany.mockResolvedValue([{ pnl: 100 }, { pnl: -300 }]);
+    const history = await loadSizingHistory(config({ mode: 'EQUITY_CURVE' }), 'ORDER_BLOCK', 'XAUUSD.s', 10000);
+
+    expect(history).toEqual({ balanceCurve: [10200, 9900, 10000] });
+  });
+
+  it('loads nothing for modes without trade history, or when the DB fails', async () => {
+    expect(await loadSizingHistory(config({ mode: 'ATR' }), 'ORDER_BLOCK', 'XAUUSD.s', 10000)).toEqual({});
+    expect(findMany).not.toHaveBeenCalled();
+
+    findMany.mockRejectedValueOnce(new Error('connection refused'));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    expect(await loadSizingHistory(config({ mode: 'KELLY' }), 'ORDER_BLOCK', 'XAUUSD.s', 10000)).toEqual({});
+  });
+});
@@ -11,7 +11,8 @@
  * - Handles external trades (uses current SL as fallback)
  */
 
-import { metaApiClient } from '../metaapi/client';
+import { activeBroker } from '../broker/active';
+import { BrokerAdapter } from '../broker/types';
 import { prisma } from '../db';
 import { BreakevenConfig, Direction } from '../types';
 import { PositionUpdate } from '../metaapi/sync-listener';
@@ -39,9 +40,11 @@ export class BreakevenManager {
   private config: BreakevenConfig;
   private movedPositions: Set<string> = new Set(); // Position IDs already at breakeven
   private riskInfoCache: Map<string, PositionRiskInfo> = new Map(); // Position ID -> risk info
+  private broker: BrokerAdapter;
 
-  constructor(config: BreakevenConfig) {
+  constructor(config: BreakevenConfig, broker: BrokerAdapter = activeBroker) {
     this.config = config;
+    this.broker = broker;
   }
 
   /**
@@ -136,7 +139,7 @@ export class BreakevenManager {
     try {
       console.log(`[Breakeven] Moving ${position.symbol} (${position.id}) SL from ${position.stopLoss} to ${newStopLoss}`);
 
-      await metaApiClient.modifyPosition(position.id, newStopLoss, position.takeProfit);
+      await this.broker.modifyPosition(position.id, newStopLoss, position.takeProfit);
 
       // Mark as moved
       this.movedPositions.add(position.id);
@@ -251,7 +254,7 @@ export class BreakevenManager {
     riskInfo: PositionRiskInfo
   ): Promise<number | null> {
     try {
-      const symbolInfo = await metaApiClient.getSymbolInfo(position.symbol);
+      const symbolInfo = await this.broker.getSymbolInfo(position.symbol);
       const pipSize = symbolInfo.pipSize;
       const bufferInPrice = this.config.bufferPips * pipSize;
 
@@ -0,0 +1,332 @@
+import { prisma } from '../db';
+import { DrawdownLimitType, EquityCircuitBreakerConfig, DEFAULT_BOT_CONFIG } from '../types';
+
+/**
+ * Equity Circuit Breaker
+ * Account-level drawdown limits in the style of prop-firm rules.
+ *
+ * - Driven by account equity, so floating losses count as they happen
+ * - Daily and weekly limits measure from the higher of balance and equity at the period start;
+ *   their locks lift when the next day or week starts
+ * - The trailing limit measures from the equity high-water mark and holds until reset
+ * - State is persisted in CircuitBreakerState, so locks survive restarts
+ */
+
+export const DEFAULT_CIRCUIT_BREAKER_CONFIG: EquityCircuitBreakerConfig = DEFAULT_BOT_CONFIG.circuitBreaker!;
+
+export interface EquityCircuitBreakerState {
+  isLocked: boolean;
+  lockType: DrawdownLimitType | null;
+  lockReason: string | null;
+  lockedAt: Date | null;
+  /** When the lock lifts; null while locked means until reset */
+  lockedUntil: Date | null;
+  dayStart: Date;
+  dayStartEquity: number;
+  weekStart: Date;
+  weekStartEquity: number;
+  peakEquity: number;
+  lastBalance: number;
+  lastEquity: number;
+}
+
+export interface EquityDrawdowns {
+  /** Drawdown in %, floored at 0 */
+  daily: number;
+  weekly: number;
+  trailing: number;
+}
+
+export interface EquityUpdateResult {
+  state: EquityCircuitBreakerState;
+  /** Set when this update locked trading (or escalated an existing lock) */
+  breach: DrawdownLimitType | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PERSIST_INTERVAL_MS = 60 * 1000;
+
+// Longer locks win when several limits are breached at once
+const LOCK_SEVERITY: Record<DrawdownLimitType, number> = { DAILY: 1, WEEKLY: 2, TRAILING: 3 };
+
+// ============================================
+// Periods and Drawdowns
+// ============================================
+
+/** Start of the trading day containing `now` */
+export function tradingDayStart(now: Date, dayStartHourUtc: number): Date {
+  const start = new Date(now);
+  start.setUTCHours(dayStartHourUtc, 0, 0, 0);
+  if (start.getTime() > now.getTime()) {
+    start.setTime(start.getTime() - DAY_MS);
+  }
+  return start;
+}
+
+/** Start of the trading week (Monday's trading day) containing `now` */
+export function tradingWeekStart(now: Date, dayStartHourUtc: number): Date {
+  const day = tradingDayStart(now, dayStartHourUtc);
+  // A day starting at 22:00 Sunday is Monday's trading day: name days by their midpoint
+  const weekday = new Date(day.getTime() + DAY_MS / 2).getUTCDay();
+  const daysSinceMonday = (weekday + 6) % 7;
+  return new Date(day.getTime() - daysSinceMonday * DAY_MS);
+}
+
+function drawdownPercent(reference: number, equity: number): number {
+  if (reference <= 0) return 0;
+  return Math.max(0, ((reference - equity) / reference) * 100);
+}
+
+export function equityDrawdowns(
+  state: Pick<EquityCircuitBreakerState, 'dayStartEquity' | 'weekStartEquity' | 'peakEquity' | 'lastEquity'>
+): EquityDrawdowns {
+  return {
+    daily: drawdownPercent(state.dayStartEquity, state.lastEquity),
+    weekly: drawdownPercent(state.weekStartEquity, state.lastEquity),
+    trailing: drawdownPercent(state.peakEquity, state.lastEquity),
+  };
+}
+
+// ============================================
+// Evaluation
+// ============================================
+
+/**
+ * Apply an account update to the breaker state: roll the day and week, lift expired locks,
+ * track the high-water mark and lock when a limit is breached.
+ */
+export function evaluateEquityDrawdown(
+  previous: EquityCircuitBreakerState | null,
+  account: { balance: number; equity: number },
+  config: EquityCircuitBreakerConfig,
+  now: Date
+): EquityUpdateResult {
+  const reference = Math.max(account.balance, account.equity);
+  const dayStart = tradingDayStart(now, config.dayStartHourUtc);
+  const weekStart = tradingWeekStart(now, config.dayStartHourUtc);
+
+  const state: EquityCircuitBreakerState = previous
+    ? { ...previous }
+    : {
+        isLocked: false,
+        lockType: null,
+        lockReason: null,
+        lockedAt: null,
+        lockedUntil: null,
+        dayStart,
+        dayStartEquity: reference,
+        weekStart,
+        weekStartEquity: reference,
+        peakEquity: account.equity,
+        lastBalance: account.balance,
+        lastEquity: account.equity,
+      };
+
+  if (state.dayStart.getTime() < dayStart.getTime()) {
+    state.dayStart = dayStart;
+    state.dayStartEquity = reference;
+  }
+  if (state.weekStart.getTime() < weekStart.getTime()) {
+    state.weekStart = weekStart;
+    state.weekStartEquity = reference;
+  }
+  liftExpiredLock(state, now);
+
+  state.peakEquity = Math.max(state.peakEquity, account.equity);
+  state.lastBalance = account.balance;
+  state.lastEquity = account.equity;
+
+  const drawdowns = equityDrawdowns(state);
+  const breaches: { type: DrawdownLimitType; value: number; limit: number; until: Date | null }[] = [
+    {
+      type: 'TRAILING',
+      value: drawdowns.trailing,
+      limit: config.maxTrailingDrawdownPercent,
+      until: null,
+    },
+    {
+      type: 'WEEKLY',
+      value: drawdowns.weekly,
+      limit: config.maxWeeklyDrawdownPercent,
+      until: new Date(weekStart.getTime() + 7 * DAY_MS),
+    },
+    {
+      type: 'DAILY',
+      value: drawdowns.daily,
+      limit: config.maxDailyDrawdownPercent,
+      until: new Date(dayStart.getTime() + DAY_MS),
+    },
+  ];
+  const breach = breaches.find((b) => b.limit > 0 && b.value >= b.limit);
+
+  if (breach && (!state.isLocked || LOCK_SEVERITY[breach.type] > LOCK_SEVERITY[state.lockType ?? 'DAILY'])) {
+    state.isLocked = true;
+    state.lockType = breach.type;
+    state.lockedAt = now;
+    state.lockedUntil = breach.until;
+    state.lockReason =
+      `${breach.type.toLowerCase()} drawdown ${breach.value.toFixed(2)}% reached the ${breach.limit}% limit ` +
+      `(equity ${account.equity.toFixed(2)})` +
+      (breach.until ? ` - locked until ${breach.until.toISOString()}` : ' - locked until reset');
+    return { state, breach: breach.type };
+  }
+
+  return { state, breach: null };
+}
+
+/** Clear a daily or weekly lock whose period has ended */
+function liftExpiredLock(state: EquityCircuitBreakerState, now: Date): boolean {
+  if (state.isLocked && state.lockedUntil && now.getTime() >= state.lockedUntil.getTime()) {
+    state.isLocked = false;
+    state.lockType = null;
+    state.lockReason = null;
+    state.lockedAt = null;
+    state.lockedUntil = null;
+    return true;
+  }
+  return false;
+}
+
+// ============================================
+// Persistent Breaker
+// ============================================
+
+export class EquityCircuitBreaker {
+  private config: EquityCircuitBreakerConfig;
+  private state: EquityCircuitBreakerState | null = null;
+  private loading: Promise<void> | null = null;
+  private lastPersistAt = 0;
+
+  constructor(config: EquityCircuitBreakerConfig = DEFAULT_CIRCUIT_BREAKER_CONFIG) {
+    this.config = config;
+  }
+
+  updateConfig(config: EquityCircuitBreakerConfig): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  isEnabled(): boolean {
+    return this.config.enabled;
+  }
+
+  /**
+   * Current state, loaded from the DB on first use. Null before the first account update.
+   */
+  async getState(): Promise<EquityCircuitBreakerState | null> {
+    await this.load();
+    return this.state;
+  }
+
+  /**
+   * Feed an account update. Returns the limit that was breached by this update, if any.
+   */
+  async update(account: { balance: number; equity: number }, now: Date = new Date()): Promise<DrawdownLimitType | null> {
+    if (!this.config.enabled) return null;
+    await this.load();
+
+    const before = this.state;
+    const { state, breach } = evaluateEquityDrawdown(before, account, this.config, now);
+    this.state = state;
+
+    // Equity ticks are frequent: write on lock changes and period rolls, otherwise once a minute
+    const changed =
+      !before ||
+      before.isLocked !== state.isLocked ||
+      before.lockType !== state.lockType ||
+      before.dayStart.getTime() !== state.dayStart.getTime() ||
+      before.weekStart.getTime() !== state.weekStart.getTime();
+    if (changed || now.getTime() - this.lastPersistAt >= PERSIST_INTERVAL_MS) {
+      await this.persist(now);
+    }
+
+    if (breach) {
+      console.log(`[CircuitBreaker] Trading locked: ${state.lockReason}`);
+    }
+    return breach;
+  }
+
+  /**
+   * Whether new trades are blocked. Lifts a daily or weekly lock whose period has ended.
+   */
+  async check(now: Date = new Date()): Promise<{ locked: boolean; reason?: string }> {
+    if (!this.config.enabled) return { locked: false };
+    await this.load();
+    if (!this.state) return { locked: false };
+
+    if (liftExpiredLock(this.state, now)) {
+      console.log('[CircuitBreaker] Lock expired, trading unlocked');
+      await this.persist(now);
+    }
+    return this.state.isLocked ? { locked: true, reason: this.state.lockReason ?? undefined } : { locked: false };
+  }
+
+  /**
+   * Clear any lock and measure all limits from current equity again
+   */
+  async reset(now: Date = new Date()): Promise<void> {
+    await this.load();
+    if (!this.state) return;
+
+    const reference = Math.max(this.state.lastBalance, this.state.lastEquity);
+    this.state = {
+      ...this.state,
+      isLocked: false,
+      lockType: null,
+      lockReason: null,
+      lockedAt: null,
+      lockedUntil: null,
+      dayStartEquity: reference,
+      weekStartEquity: reference,
+      peakEquity: this.state.lastEquity,
+    };
+    await this.persist(now);
+    console.log('[CircuitBreaker] Reset: limits measured from current equity');
+  }
+
+  private async load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = (async () => {
+        try {
+          const row = await prisma.circuitBreakerState.findUnique({ where: { id: 'singleton' } });
+          if (row && !this.state) {
+            this.state = {
+              isLocked: row.isLocked,
+              lockType: row.lockType as DrawdownLimitType | null,
+              lockReason: row.lockReason,
+              lockedAt: row.lockedAt,
+              lockedUntil: row.lockedUntil,
+              dayStart: row.dayStart,
+              dayStartEquity: row.dayStartEquity,
+              weekStart: row.weekStart,
+              weekStartEquity: row.weekStartEquity,
+              peakEquity: row.peakEquity,
+              lastBalance: row.lastBalance,
+              lastEquity: row.lastEquity,
+            };
+          }
+        } catch (error) {
+          console.error('[CircuitBreaker] Failed to load state:', error);
+        }
+      })();
+    }
+    await this.loading;
+  }
+
+  private async persist(now: Date): Promise<void> {
+    if (!this.state) return;
+    this.lastPersistAt = now.getTime();
+    const data = { ...this.state };
+    try {
+      await prisma.circuitBreakerState.upsert({
+        where: { id: 'singleton' },
+        update: data,
+        create: { id: 'singleton', ...data },
+      });
+    } catch (error) {
+      console.error('[CircuitBreaker] Failed to persist state:', error);
+    }
+  }
+}
+
+// One account lock, fed by the bot and checked by the bot and the Telegram executor
+export const equityCircuitBreaker = new EquityCircuitBreaker();
@@ -1,3 +1,8 @@
 export * from './position-sizing';
 export * from './trade-manager';
 export * from './breakeven-manager';
+export * from './portfolio-risk';
+export * from './equity-circuit-breaker';
+export * from './prop-firm-rules';
+export * from './sizing-modes';
+export * from './order-preflight';
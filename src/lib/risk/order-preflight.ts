@@ -0,0 +1,256 @@
+import { BrokerAdapter } from '../broker/types';
+import { getQuoteToAccountRate } from '../backtest/symbol-specs';
+import { timezoneOffsetMs } from '../history/parsers';
+import { SYMBOL_TRADING_LIMITS } from '../strategies/strategy-profiles';
+import {
+  AccountInfo,
+  Direction,
+  OrderPreflightConfig,
+  SymbolInfo,
+  TradeSession,
+  DEFAULT_BOT_CONFIG,
+} from '../types';
+
+/**
+ * Order Pre-flight
+ * Validates an order against what the broker would check, just before it is sent:
+ *
+ * - Trade mode and trade sessions: disabled or close-only symbols are rejected,
+ *   a closed market defers the order
+ * - Spread: wider than the limit defers the order
+ * - Stops: SL/TP closer to the price than the broker stops level (or freeze level, so the
+ *   position can still be managed later) are rejected
+ * - Volume: rounded down to the step, capped at the maximum, rejected below the minimum
+ * - Margin: the margin level after the fill must stay above the floor; the volume is cut
+ *   to fit when downsizing is on, otherwise the order is rejected. The margin comes from the
+ *   broker, which knows the symbol's margin rate (crypto is often far below account leverage).
+ */
+
+export const DEFAULT_PREFLIGHT_CONFIG: OrderPreflightConfig = DEFAULT_BOT_CONFIG.preflight!;
+
+export interface PreflightOrder {
+  symbol: string;
+  direction: Direction;
+  lots: number;
+  stopLoss: number;
+  takeProfit?: number;
+}
+
+export type PreflightAction = 'PLACE' | 'DEFER' | 'REJECT';
+
+export interface PreflightResult {
+  action: PreflightAction;
+  /** Volume to send - below the requested volume when it was downsized */
+  lots: number;
+  /** Why the order was deferred or rejected */
+  reason?: string;
+  /** Volume changes made on the way */
+  adjustments: string[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+
+// ============================================
+// Checks
+// ============================================
+
+/** Whether `now` falls in one of the symbol's trade sessions (server time) */
+export function isInTradeSession(now: Date, sessions: TradeSession[], timezone: OrderPreflightConfig['serverTimezone']): boolean {
+  const wallClock = now.getTime() + timezoneOffsetMs(now.getTime(), timezone);
+  const day = new Date(wallClock).getUTCDay();
+  const minutes = (((wallClock % DAY_MS) + DAY_MS) % DAY_MS) / MINUTE_MS;
+  return sessions.some((s) => s.day === day && minutes >= s.from && minutes < s.to);
+}
+
+/**
+ * Margin per lot at account leverage - only a fallback for when the broker can't be asked,
+ * as it misses per-symbol margin rates
+ */
+export function estimateMarginPerLot(symbolInfo: SymbolInfo, price: number, account: AccountInfo): number {
+  if (account.leverage <= 0) return 0;
+  const rate = getQuoteToAccountRate(symbolInfo, account.currency, price);
+  return (symbolInfo.contractSize * price * rate) / account.leverage;
+}
+
+function floorToStep(lots: number, step: number): number {
+  return parseFloat((Math.floor(lots / step + 1e-9) * step).toFixed(8));
+}
+
+function formatVolume(lots: number): string {
+  return String(parseFloat(lots.toFixed(8)));
+}
+
+/**
+ * Validate an order against the account, symbol spec, current quote and the broker's margin per lot
+ */
+export function preflightOrder(
+  order: PreflightOrder,
+  quote: { bid: number; ask: number },
+  account: AccountInfo,
+  symbolInfo: SymbolInfo,
+  marginPerLot: number,
+  config: OrderPreflightConfig,
+  now: Date
+): PreflightResult {
+  const adjustments: string[] = [];
+  const stop = (action: PreflightAction, reason: string): PreflightResult => ({
+    action,
+    lots: order.lots,
+    reason,
+    adjustments,
+  });
+  const { symbol, direction } = order;
+
+  // Trade mode
+  switch (symbolInfo.tradeMode) {
+    case 'SYMBOL_TRADE_MODE_DISABLED':
+      return stop('REJECT', `Trading is disabled for ${symbol}`);
+    case 'SYMBOL_TRADE_MODE_CLOSEONLY':
+      return stop('REJECT', `${symbol} is close-only`);
+    case 'SYMBOL_TRADE_MODE_LONGONLY':
+      if (direction === 'SELL') return stop('REJECT', `${symbol} is long-only`);
+      break;
+    case 'SYMBOL_TRADE_MODE_SHORTONLY':
+      if (direction === 'BUY') return stop('REJECT', `${symbol} is short-only`);
+      break;
+  }
+
+  // Market hours
+  if (symbolInfo.tradeSessions?.length && !isInTradeSession(now, symbolInfo.tradeSessions, config.serverTimezone)) {
+    return stop('DEFER', `Market closed: outside the ${symbol} trade sessions`);
+  }
+
+  // Spread
+  const spread = quote.ask - quote.bid;
+  const typicalSpread = SYMBOL_TRADING_LIMITS[symbol]?.typicalSpread;
+  const maxSpread =
+    config.maxSpread[symbol] ??
+    (typicalSpread && config.maxSpreadMultiplier > 0 ? typicalSpread * config.maxSpreadMultiplier : undefined);
+  if (maxSpread !== undefined && spread > maxSpread) {
+    return stop(
+      'DEFER',
+      `Spread ${spread.toFixed(symbolInfo.digits)} above the ${maxSpread.toFixed(symbolInfo.digits)} limit`
+    );
+  }
+
+  // Stops - a buy closes at the bid and a sell at the ask, so SL/TP are measured from there
+  const point = Math.pow(10, -symbolInfo.digits);
+  const minPoints = Math.max(symbolInfo.stopsLevel ?? 0, symbolInfo.freezeLevel ?? 0);
+  const closePrice = direction === 'BUY' ? quote.bid : quote.ask;
+  const stops: [label: string, distance: number][] = [
+    ['SL', direction === 'BUY' ? closePrice - order.stopLoss : order.stopLoss - closePrice],
+  ];
+  if (order.takeProfit) {
+    stops.push(['TP', direction === 'BUY' ? order.takeProfit - closePrice : closePrice - order.takeProfit]);
+  }
+  for (const [label, distance] of stops) {
+    if (distance <= 0) {
+      return stop('REJECT', `${label} is already past the market price ${closePrice}`);
+    }
+    const points = Math.round(distance / point);
+    if (minPoints > 0 && points < minPoints) {
+      return stop('REJECT', `${label} ${points} points from the price, broker minimum is ${minPoints}`);
+    }
+  }
+
+  // Volume
+  let lots = floorToStep(order.lots, symbolInfo.volumeStep);
+  if (lots > symbolInfo.maxVolume) {
+    adjustments.push(`Volume capped at the ${symbolInfo.maxVolume} lot maximum`);
+    lots = symbolInfo.maxVolume;
+  }
+  if (lots < symbolInfo.minVolume) {
+    return stop('REJECT', `Volume ${formatVolume(order.lots)} below the ${symbolInfo.minVolume} lot minimum`);
+  }
+  if (lots !== order.lots && adjustments.length === 0) {
+    adjustments.push(`Volume rounded down to the ${symbolInfo.volumeStep} step`);
+  }
+
+  // Margin - keep the margin level (equity / margin) above the floor once filled
+  if (marginPerLot > 0) {
+    const levelBudget =
+      config.minMarginLevelPercent > 0
+        ? (account.equity * 100) / config.minMarginLevelPercent - account.margin
+        : Infinity;
+    const budget = Math.max(0, Math.min(account.freeMargin, levelBudget));
+    const required = lots * marginPerLot;
+
+    if (required > budget) {
+      const reason =
+        `Margin: ${formatVolume(lots)} lots need ${required.toFixed(2)}, ` +
+        `${budget.toFixed(2)} available above the ${config.minMarginLevelPercent}% margin level`;
+      const maxLots = floorToStep(budget / marginPerLot, symbolInfo.volumeStep);
+      if (!config.downsizeOnMargin || maxLots < symbolInfo.minVolume) {
+        return stop('REJECT', reason);
+      }
+      adjustments.push(`${reason}, downsized to ${formatVolume(maxLots)} lots`);
+      lots = maxLots;
+    }
+  }
+
+  return { action: 'PLACE', lots: parseFloat(lots.toFixed(8)), adjustments };
+}
+
+// ============================================
+// Pre-flight Service
+// ============================================
+
+export class OrderPreflight {
+  private config: OrderPreflightConfig;
+
+  constructor(config: OrderPreflightConfig = DEFAULT_PREFLIGHT_CONFIG) {
+    this.config = config;
+  }
+
+  updateConfig(config: Partial<OrderPreflightConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  getConfig(): OrderPreflightConfig {
+    return this.config;
+  }
+
+  isEnabled(): boolean {
+    return this.config.enabled;
+  }
+
+  /**
+   * Check an order with fresh account, symbol and quote data. Always placed as-is while disabled.
+   */
+  async check(broker: BrokerAdapter, order: PreflightOrder, now: Date = broker.now()): Promise<PreflightResult> {
+    if (!this.config.enabled) return { action: 'PLACE', lots: order.lots, adjustments: [] };
+
+    const [account, symbolInfo, quote] = await Promise.all([
+      broker.getAccountInfo(),
+      broker.getSymbolInfo(order.symbol),
+      broker.getCurrentPrice(order.symbol),
+    ]);
+    const price = order.direction === 'BUY' ? quote.ask : quote.bid;
+    const marginPerLot = await this.getMarginPerLot(broker, order, price, account, symbolInfo);
+    const result = preflightOrder(order, quote, account, symbolInfo, marginPerLot, this.config, now);
+    for (const adjustment of result.adjustments) {
+      console.log(`[Preflight] ${order.symbol}: ${adjustment}`);
+    }
+    return result;
+  }
+
+  private async getMarginPerLot(
+    broker: BrokerAdapter,
+    order: PreflightOrder,
+    price: number,
+    account: AccountInfo,
+    symbolInfo: SymbolInfo
+  ): Promise<number> {
+    const lots = order.lots > 0 ? order.lots : symbolInfo.minVolume;
+    try {
+      return (await broker.calculateMargin(order.symbol, order.direction, lots, price)) / lots;
+    } catch (error) {
+      console.warn(`[Preflight] ${order.symbol}: broker margin unavailable, estimating at account leverage:`, error);
+      return estimateMarginPerLot(symbolInfo, price, account);
+    }
+  }
+}
+
+// One set of checks for every order, shared by the bot and the Telegram executor
+export const orderPreflight = new OrderPreflight();
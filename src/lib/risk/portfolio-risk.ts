@@ -0,0 +1,398 @@
+import { candleCache } from '../cache/candle-cache';
+import {
+  Candle,
+  Direction,
+  PortfolioRiskConfig,
+  Position,
+  RiskRejection,
+  SymbolInfo,
+  Timeframe,
+  TIMEFRAME_MINUTES,
+  DEFAULT_BOT_CONFIG,
+} from '../types';
+import { calculatePotentialPnL } from './position-sizing';
+
+/**
+ * Portfolio Risk Engine
+ * Caps open risk across symbols that are effectively the same bet.
+ *
+ * - Rolling log-return correlations from cached candles group symbols into exposure buckets
+ *   (static groups stand in when history is too short)
+ * - A negatively correlated member counts in the opposite direction: SELL EURUSD with
+ *   BUY USDCHF is one long-USD bet
+ * - Open risk is what each position loses at its stop, in account currency and in R
+ * - Limits apply per bucket and direction, and across all symbols per direction
+ */
+
+export const DEFAULT_PORTFOLIO_RISK_CONFIG: PortfolioRiskConfig = DEFAULT_BOT_CONFIG.portfolioRisk!;
+
+export type CorrelationMatrix = Record<string, Record<string, number | null>>;
+
+export interface ExposureBucket {
+  symbols: string[];
+  /** +1 when the symbol moves with the bucket's first symbol, -1 when against it */
+  signs: Record<string, 1 | -1>;
+}
+
+/** Open risk of one position, or of the proposed trade */
+export interface RiskExposure {
+  id: string;
+  symbol: string;
+  direction: Direction;
+  /** Loss at the stop, account currency */
+  riskAmount: number;
+}
+
+export interface PortfolioRiskCheck {
+  allowed: boolean;
+  rejection?: RiskRejection;
+}
+
+// ============================================
+// Correlations and Buckets
+// ============================================
+
+function logReturns(candles: Candle[]): Map<number, number> {
+  const returns = new Map<number, number>();
+  const sorted = [...candles].sort((a, b) => a.time.getTime() - b.time.getTime());
+  for (let i = 1; i < sorted.length; i++) {
+    const prev = sorted[i - 1].close;
+    const close = sorted[i].close;
+    if (prev > 0 && close > 0) returns.set(sorted[i].time.getTime(), Math.log(close / prev));
+  }
+  return returns;
+}
+
+/**
+ * Pearson correlation of two return series over their shared timestamps
+ * @returns null when fewer than minOverlap returns line up or a series is flat
+ */
+export function returnCorrelation(a: Map<number, number>, b: Map<number, number>, minOverlap: number): number | null {
+  const xs: number[] = [];
+  const ys: number[] = [];
+  for (const [time, x] of a) {
+    const y = b.get(time);
+    if (y !== undefined) {
+      xs.push(x);
+      ys.push(y);
+    }
+  }
+  if (xs.length < Math.max(minOverlap, 2)) return null;
+
+  const meanX = xs.reduce((s, v) => s + v, 0) / xs.length;
+  const meanY = ys.reduce((s, v) => s + v, 0) / ys.length;
+  let cov = 0;
+  let varX = 0;
+  let varY = 0;
+  for (let i = 0; i < xs.length; i++) {
+    cov += (xs[i] - meanX) * (ys[i] - meanY);
+    varX += (xs[i] - meanX) ** 2;
+    varY += (ys[i] - meanY) ** 2;
+  }
+  if (varX === 0 || varY === 0) return null;
+  return cov / Math.sqrt(varX * varY);
+}
+
+/**
+ * Pairwise return correlations, using the last `lookback` returns of each symbol
+ */
+export function computeCorrelationMatrix(
+  candlesBySymbol: Record<string, Candle[]>,
+  lookback: number,
+  minOverlap: number
+): CorrelationMatrix {
+  const symbols = Object.keys(candlesBySymbol);
+  const returns = new Map<string, Map<number, number>>();
+  for (const symbol of symbols) {
+    const all = Array.from(logReturns(candlesBySymbol[symbol]).entries());
+    returns.set(symbol, new Map(all.slice(-lookback)));
+  }
+
+  const matrix: CorrelationMatrix = {};
+  for (const a of symbols) {
+    matrix[a] = {};
+    for (const b of symbols) {
+      matrix[a][b] = a === b ? 1 : returnCorrelation(returns.get(a)!, returns.get(b)!, minOverlap);
+    }
+  }
+  return matrix;
+}
+
+/**
+ * Group symbols whose absolute correlation reaches the threshold (transitively).
+ * Pairs without a correlation fall back to the static groups, matched by substring
+ * (e.g. 'XAU' matches XAUUSD.s).
+ */
+export function buildExposureBuckets(
+  symbols: string[],
+  matrix: CorrelationMatrix,
+  threshold: number,
+  staticBuckets: string[][] = []
+): ExposureBucket[] {
+  const staticGroup = (symbol: string) =>
+    staticBuckets.findIndex((group) => group.some((key) => symbol.toUpperCase().includes(key.toUpperCase())));
+
+  // Edges with the sign of the relationship
+  const edges = new Map<string, Array<{ to: string; sign: 1 | -1 }>>();
+  for (const symbol of symbols) edges.set(symbol, []);
+  for (let i = 0; i < symbols.length; i++) {
+    for (let j = i + 1; j < symbols.length; j++) {
+      const a = symbols[i];
+      const b = symbols[j];
+      const corr = matrix[a]?.[b] ?? null;
+      let sign: 1 | -1 | null = null;
+      if (corr !== null) {
+        if (Math.abs(corr) >= threshold) sign = corr > 0 ? 1 : -1;
+      } else if (staticGroup(a) !== -1 && staticGroup(a) === staticGroup(b)) {
+        sign = 1;
+      }
+      if (sign !== null) {
+        edges.get(a)!.push({ to: b, sign });
+        edges.get(b)!.push({ to: a, sign });
+      }
+    }
+  }
+
+  // Connected components; signs relative to the first symbol reached
+  const buckets: ExposureBucket[] = [];
+  const seen = new Set<string>();
+  for (const root of symbols) {
+    if (seen.has(root)) continue;
+    const bucket: ExposureBucket = { symbols: [], signs: {} };
+    const queue: Array<[string, 1 | -1]> = [[root, 1]];
+    seen.add(root);
+    while (queue.length) {
+      const [symbol, sign] = queue.shift()!;
+      bucket.symbols.push(symbol);
+      bucket.signs[symbol] = sign;
+      for (const edge of edges.get(symbol)!) {
+        if (seen.has(edge.to)) continue;
+        seen.add(edge.to);
+        queue.push([edge.to, (sign * edge.sign) as 1 | -1]);
+      }
+    }
+    buckets.push(bucket);
+  }
+  return buckets;
+}
+
+// ============================================
+// Exposure
+// ============================================
+
+/**
+ * What an open position loses if its stop is hit (0 once the stop locks in profit).
+ * A position without a stop counts as one full R.
+ */
+export function positionRisk(position: Position, symbolInfo: SymbolInfo, oneR: number): number {
+  if (!position.stopLoss) return oneR;
+  const { pnl } = calculatePotentialPnL(position.volume, position.openPrice, position.stopLoss, position.type, symbolInfo);
+  return Math.max(0, -pnl);
+}
+
+function opposite(direction: Direction): Direction {
+  return direction === 'BUY' ? 'SELL' : 'BUY';
+}
+
+function round(value: number, digits: number = 2): number {
+  return Number(value.toFixed(digits));
+}
+
+/**
+ * Check a proposed trade against the bucket and direction limits.
+ * Positions on the other side of a bucket are not netted against it: a hedge's stop can be hit too.
+ */
+export function evaluatePortfolioRisk(
+  proposed: RiskExposure,
+  open: RiskExposure[],
+  buckets: ExposureBucket[],
+  balance: number,
+  riskPercent: number,
+  config: PortfolioRiskConfig
+): PortfolioRiskCheck {
+  const oneR = balance * (riskPercent / 100);
+  const bucket = buckets.find((b) => b.symbols.includes(proposed.symbol)) ?? {
+    symbols: [proposed.symbol],
+    signs: { [proposed.symbol]: 1 as const },
+  };
+
+  // Direction relative to the bucket, so inversely correlated members add up
+  const bucketDirection = (e: RiskExposure) =>
+    bucket.signs[e.symbol] === -1 ? opposite(e.direction) : e.direction;
+  const side = bucketDirection(proposed);
+
+  const groups: Array<{
+    exposures: RiskExposure[];
+    bucket?: string[];
+    limits: Array<{ code: RiskRejection['code']; unit: RiskRejection['unit']; limit: number }>;
+  }> = [
+    {
+      exposures: open.filter((e) => e.symbol in bucket.signs && bucketDirection(e) === side),
+      bucket: bucket.symbols,
+      limits: [
+        { code: 'BUCKET_RISK', unit: 'currency', limit: balance * (config.maxBucketRiskPercent / 100) },
+        { code: 'BUCKET_R', unit: 'R', limit: config.maxBucketR },
+      ],
+    },
+    {
+      exposures: open.filter((e) => e.direction === proposed.direction),
+      limits: [
+        { code: 'DIRECTION_RISK', unit: 'currency', limit: balance * (config.maxDirectionRiskPercent / 100) },
+        { code: 'DIRECTION_R', unit: 'R', limit: config.maxDirectionR },
+      ],
+    },
+  ];
+
+  for (const group of groups) {
+    const currentAmount = group.exposures.reduce((sum, e) => sum + e.riskAmount, 0);
+    for (const { code, unit, limit } of group.limits) {
+      const toUnit = (amount: number) => (unit === 'R' ? (oneR > 0 ? amount / oneR : 0) : amount);
+      const current = toUnit(currentAmount);
+      const added = toUnit(proposed.riskAmount);
+      // Small tolerance so a trade sized exactly to the limit passes
+      if (current + added <= limit * (1 + 1e-6)) continue;
+
+      const scope = group.bucket
+        ? `${side} exposure in bucket [${group.bucket.join(', ')}]`
+        : `${proposed.direction} exposure`;
+      const format = (v: number) => (unit === 'R' ? `${round(v)}R` : round(v).toFixed(2));
+      return {
+        allowed: false,
+        rejection: {
+          code,
+          message: `Portfolio risk: ${scope} would be ${format(current + added)} (open ${format(current)} + ${format(added)}), limit ${format(limit)}`,
+          symbol: proposed.symbol,
+          direction: proposed.direction,
+          bucket: group.bucket,
+          positionIds: group.exposures.map((e) => e.id),
+          unit,
+          current: round(current, 4),
+          proposed: round(added, 4),
+          limit: round(limit, 4),
+        },
+      };
+    }
+  }
+
+  return { allowed: true };
+}
+
+// ============================================
+// Engine
+// ============================================
+
+/** Cached candles for the correlations, e.g. the candle cache or a broker */
+export type CorrelationCandleSource = (
+  symbol: string,
+  timeframe: Timeframe,
+  startDate: Date,
+  endDate: Date
+) => Promise<Candle[]>;
+
+const BUCKET_REFRESH_MS = 6 * 60 * 60 * 1000;
+
+export class PortfolioRiskEngine {
+  private config: PortfolioRiskConfig;
+  private loadCandles: CorrelationCandleSource;
+  private buckets: ExposureBucket[] = [];
+  private bucketSymbols = '';
+  private bucketsAt = 0;
+
+  constructor(
+    config: PortfolioRiskConfig = DEFAULT_PORTFOLIO_RISK_CONFIG,
+    loadCandles: CorrelationCandleSource = (symbol, timeframe, start, end) =>
+      candleCache.getCachedCandles(symbol, timeframe, start, end)
+  ) {
+    this.config = config;
+    this.loadCandles = loadCandles;
+  }
+
+  /**
+   * Update configuration (for profile changes)
+   */
+  updateConfig(config: PortfolioRiskConfig): void {
+    this.config = config;
+    this.bucketsAt = 0;
+  }
+
+  isEnabled(): boolean {
+    return this.config.enabled;
+  }
+
+  /**
+   * Exposure buckets for these symbols, recomputed from cached candles when the symbol set
+   * changes or every few hours
+   */
+  async getBuckets(symbols: string[], now: Date = new Date()): Promise<ExposureBucket[]> {
+    const key = Array.from(new Set(symbols)).sort().join(',');
+    if (key === this.bucketSymbols && now.getTime() - this.bucketsAt < BUCKET_REFRESH_MS) {
+      return this.buckets;
+    }
+
+    const { correlationTimeframe: timeframe, correlationLookback, minOverlap } = this.config;
+    // Twice the span covers weekends and session gaps
+    const span = (correlationLookback + 1) * TIMEFRAME_MINUTES[timeframe] * 60 * 1000 * 2;
+    const start = new Date(now.getTime() - span);
+
+    const candlesBySymbol: Record<string, Candle[]> = {};
+    for (const symbol of key.split(',').filter(Boolean)) {
+      try {
+        candlesBySymbol[symbol] = await this.loadCandles(symbol, timeframe, start, now);
+      } catch (error) {
+        console.error(`[PortfolioRisk] Failed to load ${symbol} ${timeframe} candles:`, error);
+        candlesBySymbol[symbol] = [];
+      }
+    }
+
+    const matrix = computeCorrelationMatrix(candlesBySymbol, correlationLookback, minOverlap);
+    this.buckets = buildExposureBuckets(
+      Object.keys(candlesBySymbol),
+      matrix,
+      this.config.correlationThreshold,
+      this.config.staticBuckets
+    );
+    this.bucketSymbols = key;
+    this.bucketsAt = now.getTime();
+
+    const grouped = this.buckets.filter((b) => b.symbols.length > 1).map((b) => `[${b.symbols.join(', ')}]`);
+    console.log(`[PortfolioRisk] Exposure buckets: ${grouped.length ? grouped.join(' ') : 'none correlated'}`);
+    return this.buckets;
+  }
+
+  /**
+   * Check a trade sized to `riskAmount` against the open positions
+   */
+  async checkTrade(
+    trade: { symbol: string; direction: Direction; riskAmount: number },
+    positions: Position[],
+    balance: number,
+    riskPercent: number,
+    getSymbolInfo: (symbol: string) => Promise<SymbolInfo>,
+    now: Date = new Date()
+  ): Promise<PortfolioRiskCheck> {
+    if (!this.config.enabled) return { allowed: true };
+
+    const oneR = balance * (riskPercent / 100);
+    const symbolInfos = new Map<string, SymbolInfo>();
+    const open: RiskExposure[] = [];
+    for (const position of positions) {
+      if (!symbolInfos.has(position.symbol)) {
+        try {
+          symbolInfos.set(position.symbol, await getSymbolInfo(position.symbol));
+        } catch (error) {
+          console.error(`[PortfolioRisk] No symbol info for ${position.symbol}, counting 1R:`, error);
+        }
+      }
+      const symbolInfo = symbolInfos.get(position.symbol);
+      open.push({
+        id: position.id,
+        symbol: position.symbol,
+        direction: position.type,
+        riskAmount: symbolInfo ? positionRisk(position, symbolInfo, oneR) : oneR,
+      });
+    }
+
+    const buckets = await this.getBuckets([trade.symbol, ...positions.map((p) => p.symbol)], now);
+    return evaluatePortfolioRisk({ id: 'proposed', ...trade }, open, buckets, balance, riskPercent, this.config);
+  }
+}
@@ -13,7 +13,8 @@ export function calculatePositionSize(
   riskPercent: number,
   entryPrice: number,
   stopLoss: number,
-  symbolInfo: SymbolInfo
+  symbolInfo: SymbolInfo,
+  quoteToAccountRate?: number
 ): {
   lotSize: number;
   riskAmount: number;
@@ -36,7 +37,10 @@ export function calculatePositionSize(
   // pipValue = (pipSize * contractSize) / entryPrice for non-USD-quoted pairs (e.g. USDJPY)
   let pipValuePerLot: number;
 
-  if (symbolInfo.symbol.includes('JPY')) {
+  if (quoteToAccountRate !== undefined) {
+    // Caller knows the quote -> account currency rate (e.g. backtests with symbol specs)
+    pipValuePerLot = symbolInfo.pipSize * symbolInfo.contractSize * quoteToAccountRate;
+  } else if (symbolInfo.symbol.includes('JPY')) {
     // JPY-quoted pairs: convert from JPY to USD by dividing by entry price
     pipValuePerLot = (symbolInfo.pipSize * symbolInfo.contractSize) / entryPrice;
   } else {
@@ -0,0 +1,521 @@
+import { prisma } from '../db';
+import { BrokerAdapter, BrokerDeal } from '../broker/types';
+import { timezoneOffsetMs, toUTC } from '../history/parsers';
+import {
+  Direction,
+  NewsEvent,
+  PropFirmConfig,
+  PropFirmRuleStatus,
+  PROP_FIRM_PRESETS,
+  DEFAULT_BOT_CONFIG,
+} from '../types';
+import { positionRisk } from './portfolio-risk';
+
+/**
+ * Prop-Firm Rules Engine
+ * Checks every order against a funded-account challenge's rules, and reports the
+ * headroom left on each rule for the compliance panel.
+ *
+ * - Daily loss: equity may not fall below the server-day starting balance minus the limit
+ * - Max loss: equity may not fall below the initial balance minus the limit
+ * - Orders are refused when a stop-out of every open position plus the new one would cross
+ *   a loss floor (less the safety buffer)
+ * - Minimum trading days are tracked, never enforced
+ * - News bans, lot caps and weekend holding bans refuse orders outright
+ */
+
+export const DEFAULT_PROP_FIRM_CONFIG: PropFirmConfig = DEFAULT_BOT_CONFIG.propFirm!;
+
+export interface ProposedOrder {
+  symbol: string;
+  direction: Direction;
+  lots: number;
+  /** Loss at the stop, account currency */
+  riskAmount: number;
+}
+
+/** Account state the rules are evaluated against */
+export interface ComplianceSnapshot {
+  now: Date;
+  balance: number;
+  equity: number;
+  /** Balance at the start of the server-time day */
+  dayStartBalance: number;
+  /** Loss if every open position hits its stop, from entry */
+  openRisk: number;
+  openLots: number;
+  openPositions: number;
+  tradingDays: number;
+  /** High-impact releases around now */
+  news: NewsEvent[];
+}
+
+export interface PropFirmEvaluation {
+  allowed: boolean;
+  /** The rule the order would break, with the reason as its message */
+  violation?: PropFirmRuleStatus;
+  rules: PropFirmRuleStatus[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+// Positions without a stop (or without symbol info) count as this share of balance at risk
+const NO_STOP_RISK_PERCENT = 1;
+const NEWS_LOOKAHEAD_MS = DAY_MS;
+
+// Symbols that are not a currency pair, by the currency whose news moves them
+const INDEX_CURRENCIES: Record<string, string> = {
+  US30: 'USD',
+  US100: 'USD',
+  NAS100: 'USD',
+  US500: 'USD',
+  SPX500: 'USD',
+  GER40: 'EUR',
+  DE40: 'EUR',
+  UK100: 'GBP',
+  JP225: 'JPY',
+};
+
+// ============================================
+// Server Time
+// ============================================
+
+type ServerTimezone = PropFirmConfig['serverTimezone'];
+
+/** Start of the server-time day containing `now` */
+export function serverDayStart(now: Date, timezone: ServerTimezone): Date {
+  const wallClock = now.getTime() + timezoneOffsetMs(now.getTime(), timezone);
+  return toUTC(Math.floor(wallClock / DAY_MS) * DAY_MS, timezone);
+}
+
+function serverDayKey(time: Date, timezone: ServerTimezone): string {
+  return new Date(time.getTime() + timezoneOffsetMs(time.getTime(), timezone)).toISOString().slice(0, 10);
+}
+
+/**
+ * Start of the server-time weekend (Saturday 00:00) on or before the coming Saturday.
+ * On a Saturday or Sunday this is the weekend already under way.
+ */
+export function serverWeekendStart(now: Date, timezone: ServerTimezone): Date {
+  const wallClock = now.getTime() + timezoneOffsetMs(now.getTime(), timezone);
+  const wallDay = Math.floor(wallClock / DAY_MS) * DAY_MS;
+  const weekday = new Date(wallDay).getUTCDay();
+  const daysToSaturday = weekday === 0 ? -1 : 6 - weekday;
+  return toUTC(wallDay + daysToSaturday * DAY_MS, timezone);
+}
+
+/** Currencies whose news moves a symbol, e.g. XAUUSD.s -> [XAU, USD] */
+export function symbolCurrencies(symbol: string): string[] {
+  const code = symbol.split('.')[0].toUpperCase().replace(/[^A-Z0-9]/g, '');
+  if (INDEX_CURRENCIES[code]) return [INDEX_CURRENCIES[code]];
+  if (/^[A-Z]{6}$/.test(code)) return [code.slice(0, 3), code.slice(3, 6)];
+  return [];
+}
+
+// ============================================
+// Rules
+// ============================================
+
+interface RuleResult {
+  status: PropFirmRuleStatus;
+  /** Why the proposed order is refused */
+  refusal?: string;
+}
+
+function formatAmount(value: number): string {
+  return value.toFixed(2);
+}
+
+function lossRule(
+  rule: 'DAILY_LOSS' | 'MAX_LOSS',
+  label: string,
+  reference: number,
+  limitPercent: number,
+  snapshot: ComplianceSnapshot,
+  config: PropFirmConfig,
+  order?: ProposedOrder
+): RuleResult {
+  const limit = (reference * limitPercent) / 100;
+  const floor = reference - limit;
+  const buffer = (reference * config.safetyBufferPercent) / 100;
+  const headroom = snapshot.equity - floor;
+  const worstEquity = Math.min(snapshot.equity, snapshot.balance - snapshot.openRisk);
+
+  let state: PropFirmRuleStatus['state'] = 'OK';
+  let message = `${formatAmount(headroom)} left above the ${formatAmount(floor)} equity floor`;
+  if (headroom <= 0) {
+    state = 'BREACHED';
+    message = `Equity ${formatAmount(snapshot.equity)} is below the ${formatAmount(floor)} floor`;
+  } else if (headroom < buffer || worstEquity < floor) {
+    state = 'WARNING';
+    message = `Open stops would leave equity at ${formatAmount(worstEquity)} against the ${formatAmount(floor)} floor`;
+  }
+
+  const status: PropFirmRuleStatus = {
+    rule,
+    label,
+    state,
+    unit: 'currency',
+    current: Math.max(0, reference - snapshot.equity),
+    limit,
+    headroom,
+    message,
+  };
+
+  if (order && worstEquity - order.riskAmount < floor + buffer) {
+    return {
+      status,
+      refusal:
+        `${label}: stopping out would leave equity at ${formatAmount(worstEquity - order.riskAmount)}, ` +
+        `within ${config.safetyBufferPercent}% of the ${formatAmount(floor)} floor (${limitPercent}% of ${formatAmount(reference)})`,
+    };
+  }
+  return { status };
+}
+
+function tradingDaysRule(snapshot: ComplianceSnapshot, config: PropFirmConfig): RuleResult {
+  const remaining = Math.max(0, config.minTradingDays - snapshot.tradingDays);
+  return {
+    status: {
+      rule: 'MIN_TRADING_DAYS',
+      label: 'Trading days',
+      state: remaining === 0 ? 'OK' : 'PENDING',
+      unit: 'days',
+      current: snapshot.tradingDays,
+      limit: config.minTradingDays,
+      headroom: remaining,
+      message: remaining === 0
+        ? `${snapshot.tradingDays} trading days, minimum met`
+        : `${snapshot.tradingDays}/${config.minTradingDays} trading days, ${remaining} to go`,
+    },
+  };
+}
+
+function newsRule(snapshot: ComplianceSnapshot, config: PropFirmConfig, order?: ProposedOrder): RuleResult {
+  const windowMs = config.newsBlackoutMinutes * MINUTE_MS;
+  const now = snapshot.now.getTime();
+  const upcoming = snapshot.news
+    .filter((event) => event.time.getTime() >= now - windowMs)
+    .sort((a, b) => a.time.getTime() - b.time.getTime());
+  const next = upcoming[0];
+  const minutesToNext = next ? (next.time.getTime() - now) / MINUTE_MS : 0;
+  const inWindow = !!next && Math.abs(next.time.getTime() - now) <= windowMs;
+
+  const status: PropFirmRuleStatus = {
+    rule: 'NEWS_TRADING',
+    label: 'News trading',
+    state: inWindow ? 'WARNING' : 'OK',
+    unit: 'minutes',
+    current: minutesToNext,
+    limit: config.newsBlackoutMinutes,
+    headroom: next ? Math.abs(minutesToNext) - config.newsBlackoutMinutes : 0,
+    message: next
+      ? `${next.currency} ${next.title} at ${next.time.toISOString()}`
+      : 'No high-impact news in the next 24h',
+  };
+
+  if (order) {
+    const currencies = symbolCurrencies(order.symbol);
+    const blocking = upcoming.find(
+      (event) => currencies.includes(event.currency) && Math.abs(event.time.getTime() - now) <= windowMs
+    );
+    if (blocking) {
+      return {
+        status,
+        refusal:
+          `News trading: ${blocking.currency} ${blocking.title} at ${blocking.time.toISOString()}, ` +
+          `no new ${order.symbol} trades within ${config.newsBlackoutMinutes}m`,
+      };
+    }
+  }
+  return { status };
+}
+
+function lotExposureRule(snapshot: ComplianceSnapshot, config: PropFirmConfig, order?: ProposedOrder): RuleResult {
+  const headroom = config.maxOpenLots - snapshot.openLots;
+  const status: PropFirmRuleStatus = {
+    rule: 'MAX_LOT_EXPOSURE',
+    label: 'Lot exposure',
+    state: headroom < 0 ? 'BREACHED' : 'OK',
+    unit: 'lots',
+    current: snapshot.openLots,
+    limit: config.maxOpenLots,
+    headroom,
+    message: `${snapshot.openLots.toFixed(2)} of ${config.maxOpenLots} lots open`,
+  };
+
+  if (order && snapshot.openLots + order.lots > config.maxOpenLots + 1e-9) {
+    return {
+      status,
+      refusal: `Lot exposure: ${order.lots} lots would bring open volume to ${(snapshot.openLots + order.lots).toFixed(2)}, limit ${config.maxOpenLots}`,
+    };
+  }
+  return { status };
+}
+
+function weekendRule(snapshot: ComplianceSnapshot, config: PropFirmConfig, order?: ProposedOrder): RuleResult {
+  const weekendStart = serverWeekendStart(snapshot.now, config.serverTimezone);
+  const minutesToClose = (weekendStart.getTime() - snapshot.now.getTime()) / MINUTE_MS;
+  const isWeekend = minutesToClose <= 0;
+  const pastCutoff = minutesToClose < config.weekendCutoffMinutes;
+
+  let state: PropFirmRuleStatus['state'] = 'OK';
+  if (snapshot.openPositions > 0 && isWeekend) state = 'BREACHED';
+  else if (snapshot.openPositions > 0 && pastCutoff) state = 'WARNING';
+
+  const status: PropFirmRuleStatus = {
+    rule: 'WEEKEND_HOLDING',
+    label: 'Weekend holding',
+    state,
+    unit: 'minutes',
+    current: minutesToClose,
+    limit: config.weekendCutoffMinutes,
+    headroom: minutesToClose - config.weekendCutoffMinutes,
+    message: isWeekend
+      ? `Weekend: ${snapshot.openPositions} positions open`
+      : `Friday close in ${Math.round(minutesToClose)}m`,
+  };
+
+  if (order && pastCutoff) {
+    return {
+      status,
+      refusal: isWeekend
+        ? 'Weekend holding: no new trades over the weekend'
+        : `Weekend holding: Friday close in ${Math.round(minutesToClose)}m, no new trades within ${config.weekendCutoffMinutes}m`,
+    };
+  }
+  return { status };
+}
+
+/**
+ * Evaluate every configured rule. With an order, the first rule it would break refuses it.
+ */
+export function evaluatePropFirmRules(
+  snapshot: ComplianceSnapshot,
+  config: PropFirmConfig,
+  order?: ProposedOrder
+): PropFirmEvaluation {
+  const results: RuleResult[] = [];
+
+  if (config.maxDailyLossPercent > 0) {
+    results.push(lossRule('DAILY_LOSS', 'Daily loss', snapshot.dayStartBalance, config.maxDailyLossPercent, snapshot, config, order));
+  }
+  if (config.maxLossPercent > 0) {
+    if (config.initialBalance > 0) {
+      results.push(lossRule('MAX_LOSS', 'Max loss', config.initialBalance, config.maxLossPercent, snapshot, config, order));
+    } else {
+      results.push({
+        status: {
+          rule: 'MAX_LOSS',
+          label: 'Max loss',
+          state: 'WARNING',
+          unit: 'currency',
+          current: 0,
+          limit: 0,
+          headroom: 0,
+          message: 'Set the challenge initial balance to track max loss',
+        },
+      });
+    }
+  }
+  if (config.minTradingDays > 0) {
+    results.push(tradingDaysRule(snapshot, config));
+  }
+  if (config.newsBlackoutMinutes > 0) {
+    results.push(newsRule(snapshot, config, order));
+  }
+  if (config.maxOpenLots > 0) {
+    results.push(lotExposureRule(snapshot, config, order));
+  }
+  if (config.noWeekendHolding) {
+    results.push(weekendRule(snapshot, config, order));
+  }
+
+  const refused = results.find((r) => r.refusal);
+  return {
+    allowed: !refused,
+    violation: refused ? { ...refused.status, message: refused.refusal! } : undefined,
+    rules: results.map((r) => r.status),
+  };
+}
+
+// ============================================
+// Engine
+// ============================================
+
+export type NewsSource = (from: Date, to: Date) => Promise<NewsEvent[]>;
+
+/** High-impact releases from the EconomicEvent table */
+export async function loadNewsEvents(from: Date, to: Date): Promise<NewsEvent[]> {
+  const events = await prisma.economicEvent.findMany({
+    where: { time: { gte: from, lte: to }, impact: 'HIGH' },
+    orderBy: { time: 'asc' },
+  });
+  return events.map((e) => ({
+    time: e.time,
+    currency: e.currency,
+    impact: e.impact as NewsEvent['impact'],
+    title: e.title,
+  }));
+}
+
+export type SavedConfigSource = () => Promise<Partial<PropFirmConfig> | null>;
+
+/** Rules saved with the bot config in the BotState row */
+export async function loadSavedPropFirmConfig(): Promise<Partial<PropFirmConfig> | null> {
+  const state = await prisma.botState.findUnique({ where: { id: 'singleton' } });
+  if (!state?.config) return null;
+  return JSON.parse(state.config).propFirm ?? null;
+}
+
+function isTradingDeal(deal: BrokerDeal): boolean {
+  return deal.type === 'DEAL_TYPE_BUY' || deal.type === 'DEAL_TYPE_SELL';
+}
+
+export class PropFirmRulesEngine {
+  private config: PropFirmConfig;
+  private loadNews: NewsSource;
+  private loadSaved: SavedConfigSource | null;
+  private restoring: Promise<void> | null = null;
+  private configured = false;
+
+  /**
+   * @param loadSaved - Where the saved rules are restored from on first use (null: keep `config`)
+   */
+  constructor(
+    config: PropFirmConfig = DEFAULT_PROP_FIRM_CONFIG,
+    loadNews: NewsSource = loadNewsEvents,
+    loadSaved: SavedConfigSource | null = null
+  ) {
+    this.config = config;
+    this.loadNews = loadNews;
+    this.loadSaved = loadSaved;
+  }
+
+  /**
+   * Update config; switching preset starts from that preset's rules.
+   * An update made before the saved rules are restored wins over them.
+   */
+  updateConfig(config: Partial<PropFirmConfig>): void {
+    this.configured = true;
+    this.applyConfig(config);
+  }
+
+  /**
+   * Config with the saved rules restored (once, whether or not the bot is running)
+   */
+  async loadConfig(): Promise<PropFirmConfig> {
+    if (!this.restoring) {
+      this.restoring = this.restoreSaved();
+    }
+    await this.restoring;
+    return this.config;
+  }
+
+  getConfig(): PropFirmConfig {
+    return this.config;
+  }
+
+  isEnabled(): boolean {
+    return this.config.enabled;
+  }
+
+  /**
+   * Gather balance, day-start balance, open risk, trading days and news from the broker
+   */
+  async snapshot(broker: BrokerAdapter, now: Date = broker.now()): Promise<ComplianceSnapshot> {
+    const [account, positions] = await Promise.all([broker.getAccountInfo(), broker.getPositions()]);
+
+    const dayStart = serverDayStart(now, this.config.serverTimezone);
+    const challengeStart = this.config.startDate ? new Date(this.config.startDate) : dayStart;
+    const since = challengeStart < dayStart ? challengeStart : dayStart;
+    const deals = (await broker.getHistoricalDeals(since, now)).filter(isTradingDeal);
+
+    // Balance moved by today's closed trades since the server-day start
+    const closedToday = deals
+      .filter((d) => new Date(d.time) >= dayStart)
+      .reduce((sum, d) => sum + (d.profit || 0) + (d.swap || 0) + (d.commission || 0), 0);
+
+    const tradingDays = new Set(
+      deals
+        .filter((d) => d.entryType === 'DEAL_ENTRY_IN' && new Date(d.time) >= challengeStart)
+        .map((d) => serverDayKey(new Date(d.time), this.config.serverTimezone))
+    );
+
+    const noStopRisk = (account.balance * NO_STOP_RISK_PERCENT) / 100;
+    let openRisk = 0;
+    for (const position of positions) {
+      try {
+        const symbolInfo = await broker.getSymbolInfo(position.symbol);
+        openRisk += positionRisk(position, symbolInfo, noStopRisk);
+      } catch {
+        openRisk += noStopRisk;
+      }
+    }
+
+    let news: NewsEvent[] = [];
+    if (this.config.newsBlackoutMinutes > 0) {
+      try {
+        const windowMs = this.config.newsBlackoutMinutes * MINUTE_MS;
+        news = await this.loadNews(new Date(now.getTime() - windowMs), new Date(now.getTime() + NEWS_LOOKAHEAD_MS));
+      } catch (error) {
+        console.error('[PropFirm] Failed to load news events:', error);
+      }
+    }
+
+    return {
+      now,
+      balance: account.balance,
+      equity: account.equity,
+      dayStartBalance: account.balance - closedToday,
+      openRisk,
+      openLots: positions.reduce((sum, p) => sum + p.volume, 0),
+      openPositions: positions.length,
+      tradingDays: tradingDays.size,
+      news,
+    };
+  }
+
+  /**
+   * Check an order before it is placed. Always allowed while the rules are disabled.
+   */
+  async checkOrder(broker: BrokerAdapter, order: ProposedOrder, now: Date = broker.now()): Promise<PropFirmEvaluation> {
+    await this.loadConfig();
+    if (!this.config.enabled) return { allowed: true, rules: [] };
+    const snapshot = await this.snapshot(broker, now);
+    return evaluatePropFirmRules(snapshot, this.config, order);
+  }
+
+  /**
+   * Headroom against each rule, for the compliance panel
+   */
+  async getCompliance(broker: BrokerAdapter, now: Date = broker.now()): Promise<PropFirmEvaluation> {
+    await this.loadConfig();
+    if (!this.config.enabled) return { allowed: true, rules: [] };
+    const snapshot = await this.snapshot(broker, now);
+    return evaluatePropFirmRules(snapshot, this.config);
+  }
+
+  private applyConfig(config: Partial<PropFirmConfig>): void {
+    const preset = config.preset && config.preset !== this.config.preset ? PROP_FIRM_PRESETS[config.preset] : undefined;
+    this.config = { ...this.config, ...preset, ...config };
+  }
+
+  private async restoreSaved(): Promise<void> {
+    if (!this.loadSaved || this.configured) return;
+    try {
+      const saved = await this.loadSaved();
+      // Challenge rules must survive deploys: losing them could end a funded account
+      if (saved && !this.configured) {
+        this.applyConfig(saved);
+        console.log(`[PropFirm] Restored rules (${this.config.preset}, enabled=${this.config.enabled}) from DB`);
+      }
+    } catch (error) {
+      console.error('[PropFirm] Failed to restore saved rules:', error);
+      this.restoring = null; // retry on next use
+    }
+  }
+}
+
+// One rule set for the account, shared by the bot and the Telegram executor
+export const propFirmRules = new PropFirmRulesEngine(DEFAULT_PROP_FIRM_CONFIG, loadNewsEvents, loadSavedPropFirmConfig);
@@ -0,0 +1,253 @@
+import { prisma } from '../db';
+import { Candle, PositionSizingConfig, SizingMode, DEFAULT_BOT_CONFIG } from '../types';
+import { trueRange } from '../analysis/atr';
+
+/**
+ * Position Sizing Modes
+ * Turns the base riskPercent into the risk for the next trade, which calculatePositionSize
+ * then converts to lots.
+ *
+ * The live bot and the backtest engine build the same SizingContext (MTF candles, closed
+ * results of the strategy on the symbol, balance after each closed trade) and share
+ * resolveRiskPercent, so a profile sizes alike in both.
+ */
+
+export const DEFAULT_SIZING_CONFIG: PositionSizingConfig = DEFAULT_BOT_CONFIG.sizing!;
+
+export interface SizingContext {
+  /** MTF candles, oldest first (ATR) */
+  candles?: Candle[];
+  /** P&L of each closed trade of the strategy on the symbol, oldest first (Kelly, anti-martingale) */
+  pairResults?: number[];
+  /** Account balance before the first and after each closed trade, oldest first (equity curve) */
+  balanceCurve?: number[];
+}
+
+export interface SizingDecision {
+  mode: SizingMode;
+  riskPercent: number;
+  /** Resolved risk as a multiple of the base riskPercent */
+  multiplier: number;
+  reason: string;
+}
+
+// Closed trades read back for the live equity curve
+const EQUITY_CURVE_TRADES = 500;
+
+/**
+ * Profile sizing with symbol overrides on top, filled in from the defaults
+ */
+export function resolveSizingConfig(
+  base?: Partial<PositionSizingConfig>,
+  override?: Partial<PositionSizingConfig>
+): PositionSizingConfig {
+  return { ...DEFAULT_SIZING_CONFIG, ...base, ...override };
+}
+
+/**
+ * Balance after each of `results`, starting from `startBalance`
+ */
+export function balanceCurveFrom(startBalance: number, results: number[]): number[] {
+  const curve = [startBalance];
+  let balance = startBalance;
+  for (const pnl of results) {
+    balance += pnl;
+    curve.push(balance);
+  }
+  return curve;
+}
+
+// ============================================
+// Mode Inputs
+// ============================================
+
+/**
+ * Baseline ATR (mean of the last `lookback` ATR values) over the current ATR.
+ * Above 1 when volatility is below normal. Null without enough candles.
+ */
+export function atrRatio(candles: Candle[], period: number, lookback: number): number | null {
+  if (period < 1 || lookback < 1 || candles.length < period + lookback) return null;
+
+  const ranges: number[] = [];
+  for (let i = 1; i < candles.length; i++) {
+    ranges.push(trueRange(candles[i], candles[i - 1].close));
+  }
+
+  const atrs: number[] = [];
+  let sum = 0;
+  for (let i = 0; i < ranges.length; i++) {
+    sum += ranges[i];
+    if (i >= period) sum -= ranges[i - period];
+    if (i >= period - 1) atrs.push(sum / period);
+  }
+
+  const current = atrs[atrs.length - 1];
+  const baseline = atrs.slice(-lookback).reduce((total, atr) => total + atr, 0) / lookback;
+  return current > 0 ? baseline / current : null;
+}
+
+/**
+ * Full Kelly fraction from trade results: winRate - lossRate / payoff.
+ * Breakeven trades count toward the trade total but are neither wins nor losses.
+ */
+export function kellyStats(results: number[]): { winRate: number; payoff: number; kelly: number } {
+  const wins = results.filter((r) => r > 0);
+  const losses = results.filter((r) => r < 0);
+  const winRate = results.length > 0 ? wins.length / results.length : 0;
+  if (wins.length === 0) return { winRate, payoff: 0, kelly: 0 };
+  if (losses.length === 0) return { winRate, payoff: Infinity, kelly: winRate };
+
+  const averageWin = wins.reduce((sum, r) => sum + r, 0) / wins.length;
+  const averageLoss = -losses.reduce((sum, r) => sum + r, 0) / losses.length;
+  const payoff = averageWin / averageLoss;
+  return { winRate, payoff, kelly: winRate - (1 - winRate) / payoff };
+}
+
+/**
+ * Walk the balance curve: reduced once the drawdown from the high reaches the threshold,
+ * restored when the balance makes a new high.
+ */
+export function equityCurveState(
+  balanceCurve: number[],
+  drawdownPercent: number
+): { reduced: boolean; drawdownPercent: number } {
+  let peak = balanceCurve[0] ?? 0;
+  let reduced = false;
+  let drawdown = 0;
+  for (const balance of balanceCurve) {
+    if (balance >= peak) {
+      peak = balance;
+      reduced = false;
+      drawdown = 0;
+    } else {
+      drawdown = peak > 0 ? ((peak - balance) / peak) * 100 : 0;
+      if (drawdown >= drawdownPercent) reduced = true;
+    }
+  }
+  return { reduced, drawdownPercent: drawdown };
+}
+
+/**
+ * Consecutive wins (positive) or losses (negative) ending with the latest result.
+ * A breakeven trade ends the streak.
+ */
+export function currentStreak(results: number[]): number {
+  let streak = 0;
+  for (let i = results.length - 1; i >= 0; i--) {
+    const sign = Math.sign(results[i]);
+    if (sign === 0 || (streak !== 0 && sign !== Math.sign(streak))) break;
+    streak += sign;
+  }
+  return streak;
+}
+
+// ============================================
+// Resolution
+// ============================================
+
+/**
+ * Risk for the next trade. Modes without enough history fall back to the base riskPercent.
+ */
+export function resolveRiskPercent(
+  baseRiskPercent: number,
+  config: PositionSizingConfig,
+  context: SizingContext = {}
+): SizingDecision {
+  if (config.mode === 'FIXED' || baseRiskPercent <= 0) {
+    return { mode: config.mode, riskPercent: baseRiskPercent, multiplier: 1, reason: 'fixed risk' };
+  }
+
+  let multiplier = 1;
+  let reason: string;
+
+  switch (config.mode) {
+    case 'ATR': {
+      const ratio = context.candles ? atrRatio(context.candles, config.atrPeriod, config.atrLookback) : null;
+      if (ratio === null) {
+        reason = 'not enough candles for ATR';
+      } else {
+        multiplier = ratio;
+        reason = `ATR at ${(1 / ratio).toFixed(2)}x its ${config.atrLookback}-bar average`;
+      }
+      break;
+    }
+    case 'KELLY': {
+      const results = (context.pairResults ?? []).slice(-config.kellyLookback);
+      if (results.length < config.kellyMinTrades) {
+        reason = `${results.length}/${config.kellyMinTrades} trades for Kelly`;
+      } else {
+        const { winRate, payoff, kelly } = kellyStats(results);
+        multiplier = (Math.max(0, kelly) * config.kellyFraction * 100) / baseRiskPercent;
+        reason =
+          `Kelly ${(kelly * 100).toFixed(1)}% x ${config.kellyFraction} ` +
+          `(win rate ${(winRate * 100).toFixed(1)}%, payoff ${payoff.toFixed(2)}, ${results.length} trades)`;
+      }
+      break;
+    }
+    case 'EQUITY_CURVE': {
+      const curve = context.balanceCurve ?? [];
+      if (curve.length < 2) {
+        reason = 'no closed trades for the equity curve';
+      } else {
+        const state = equityCurveState(curve, config.equityDrawdownPercent);
+        if (state.reduced) multiplier = config.equityReduceFactor;
+        reason = state.reduced
+          ? `${state.drawdownPercent.toFixed(2)}% below the equity high, reduced until a new high`
+          : `${state.drawdownPercent.toFixed(2)}% below the equity high`;
+      }
+      break;
+    }
+    case 'ANTI_MARTINGALE': {
+      const streak = currentStreak(context.pairResults ?? []);
+      const steps = Math.max(-config.maxStreakSteps, Math.min(config.maxStreakSteps, streak));
+      multiplier = 1 + config.streakStep * steps;
+      reason = streak === 0 ? 'no streak' : `${Math.abs(streak)} ${streak > 0 ? 'wins' : 'losses'} in a row`;
+      break;
+    }
+  }
+
+  const bounded = Math.max(config.minRiskMultiplier, Math.min(config.maxRiskMultiplier, multiplier));
+  return { mode: config.mode, riskPercent: baseRiskPercent * bounded, multiplier: bounded, reason };
+}
+
+// ============================================
+// Live History
+// ============================================
+
+/**
+ * Closed-trade history the mode needs, from the Trade table.
+ * Deposits and withdrawals are not trades, so the balance curve is rebuilt back from the current balance.
+ */
+export async function loadSizingHistory(
+  config: PositionSizingConfig,
+  strategy: string,
+  symbol: string,
+  balance: number
+): Promise<Omit<SizingContext, 'candles'>> {
+  try {
+    if (config.mode === 'KELLY' || config.mode === 'ANTI_MARTINGALE') {
+      const trades = await prisma.trade.findMany({
+        where: { status: 'CLOSED', strategy, symbol, pnl: { not: null } },
+        orderBy: { closeTime: 'desc' },
+        take: config.mode === 'KELLY' ? config.kellyLookback : config.maxStreakSteps,
+        select: { pnl: true },
+      });
+      return { pairResults: trades.map((t) => t.pnl!).reverse() };
+    }
+
+    if (config.mode === 'EQUITY_CURVE') {
+      const trades = await prisma.trade.findMany({
+        where: { status: 'CLOSED', pnl: { not: null } },
+        orderBy: { closeTime: 'desc' },
+        take: EQUITY_CURVE_TRADES,
+        select: { pnl: true },
+      });
+      const results = trades.map((t) => t.pnl!).reverse();
+      const startBalance = balance - results.reduce((sum, pnl) => sum + pnl, 0);
+      return { balanceCurve: balanceCurveFrom(startBalance, results) };
+    }
+  } catch (error) {
+    console.error('[Sizing] Failed to load trade history:', error);
+  }
+  return {};
+}
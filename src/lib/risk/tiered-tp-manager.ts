@@ -6,13 +6,14 @@
  *
  * Features:
  * - Tracks which TP levels have been hit for each position
- * - Executes partial closes using MetaAPI closePositionPartially()
+ * - Executes partial closes through the broker adapter's closePositionPartially()
  * - Moves SL to breakeven after TP1, and to TP1 level after TP2
  * - Handles position volume tracking after partial closes
  * - Sends Telegram notifications for each TP hit
  */
 
-import { metaApiClient } from '../metaapi/client';
+import { activeBroker } from '../broker/active';
+import { BrokerAdapter } from '../broker/types';
 import { prisma } from '../db';
 import { TieredTPConfig, Direction, TIERED_TP_PROFILES } from '../types';
 import { PositionUpdate } from '../metaapi/sync-listener';
@@ -55,9 +56,11 @@ export interface TieredTPResult {
 export class TieredTPManager {
   private config: TieredTPConfig;
   private positionStates: Map<string, TieredTPState> = new Map();
+  private broker: BrokerAdapter;
 
-  constructor(config: TieredTPConfig) {
+  constructor(config: TieredTPConfig, broker: BrokerAdapter = activeBroker) {
     this.config = config;
+    this.broker = broker;
   }
 
   /**
@@ -246,7 +249,7 @@ export class TieredTPManager {
    */
   private async executeTP1Close(position: PositionUpdate, state: TieredTPState): Promise<TieredTPResult> {
     const closeVolume = state.originalVolume * (this.config.tp1.percent / 100);
-    const symbolInfo = await metaApiClient.getSymbolInfo(state.symbol);
+    const symbolInfo = await this.broker.getSymbolInfo(state.symbol);
 
     // Round to volume step
     const roundedVolume = Math.round(closeVolume / symbolInfo.volumeStep) * symbolInfo.volumeStep;
@@ -260,7 +263,7 @@ export class TieredTPManager {
       console.log(`[TieredTP] Executing TP1 partial close: ${state.symbol} ${roundedVolume} lots at ${state.tp1Price}`);
 
       // Execute partial close
-      await metaApiClient.closePositionPartially(position.id, roundedVolume);
+      await this.broker.closePositionPartially(position.id, roundedVolume);
 
       // Calculate P&L for this partial close
       const pnl = this.calculatePartialPnL(state.entryPrice, state.tp1Price, roundedVolume, state.direction, symbolInfo);
@@ -277,7 +280,7 @@ export class TieredTPManager {
           ? state.entryPrice + bufferInPrice
           : state.entryPrice - bufferInPrice;
 
-        await metaApiClient.modifyPosition(position.id, newStopLoss, undefined);
+        await this.broker.modifyPosition(position.id, newStopLoss, undefined);
         console.log(`[TieredTP] Moved SL to breakeven: ${newStopLoss}`);
       }
 
@@ -307,7 +310,7 @@ export class TieredTPManager {
   private async executeTP2Close(position: PositionUpdate, state: TieredTPState): Promise<TieredTPResult> {
     // Calculate volume for TP2 (percentage of original, not remaining)
     const closeVolume = state.originalVolume * (this.config.tp2.percent / 100);
-    const symbolInfo = await metaApiClient.getSymbolInfo(state.symbol);
+    const symbolInfo = await this.broker.getSymbolInfo(state.symbol);
 
     const roundedVolume = Math.round(closeVolume / symbolInfo.volumeStep) * symbolInfo.volumeStep;
 
@@ -319,7 +322,7 @@ export class TieredTPManager {
     try {
       console.log(`[TieredTP] Executing TP2 partial close: ${state.symbol} ${roundedVolume} lots at ${state.tp2Price}`);
 
-      await metaApiClient.closePositionPartially(position.id, roundedVolume);
+      await this.broker.closePositionPartially(position.id, roundedVolume);
 
       const pnl = this.calculatePartialPnL(state.entryPrice, state.tp2Price, roundedVolume, state.direction, symbolInfo);
 
@@ -331,7 +334,7 @@ export class TieredTPManager {
       let newStopLoss: number | undefined;
       if (this.config.moveSlOnTP2) {
         newStopLoss = state.tp1Price;
-        await metaApiClient.modifyPosition(position.id, newStopLoss, undefined);
+        await this.broker.modifyPosition(position.id, newStopLoss, undefined);
         console.log(`[TieredTP] Moved SL to TP1 level: ${newStopLoss}`);
       }
 
@@ -362,9 +365,9 @@ export class TieredTPManager {
       console.log(`[TieredTP] Executing TP3 full close: ${state.symbol} ${state.currentVolume} lots at ${state.tp3Price}`);
 
       // Close entire remaining position
-      await metaApiClient.closePosition(position.id);
+      await this.broker.closePosition(position.id);
 
-      const symbolInfo = await metaApiClient.getSymbolInfo(state.symbol);
+      const symbolInfo = await this.broker.getSymbolInfo(state.symbol);
       const pnl = this.calculatePartialPnL(state.entryPrice, state.tp3Price, state.currentVolume, state.direction, symbolInfo);
 
       state.tp3Hit = true;
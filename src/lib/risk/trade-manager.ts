@@ -1,6 +1,7 @@
 import { prisma } from '../db';
-import { Direction, Signal, Trade, Position, StrategyType, KillZoneType } from '../types';
+import { Direction, Signal, Trade, Position, StrategyType, KillZoneType, PerformanceMetrics, RiskRejection } from '../types';
 import { isInKillZone, KILL_ZONES } from '../analysis/kill-zones';
+import { calculatePerformanceMetrics } from '../backtest/performance';
 
 /**
  * Trade Manager
@@ -8,40 +9,27 @@ import { isInKillZone, KILL_ZONES } from '../analysis/kill-zones';
  * and manages position lifecycle.
  *
  * Enhanced with backtest-optimized parameters:
- * - Drawdown limits (12-hour rolling window, symbol-specific)
  * - Kill zone filtering
  * - Confirmation candle tracking
+ *
+ * Drawdown limits live in the equity circuit breaker, which locks the whole account
+ * from live equity for the bot and the Telegram executor alike.
  */
 
 export interface TradeManagerConfig {
   maxOpenTrades: number;
   maxTradesPerSymbol: number;
   allowContraryTrades: boolean;
-  maxDailyLossPercent?: number;
-}
-
-/**
- * Drawdown tracking per symbol (12-hour rolling window)
- */
-export interface DailyDrawdownState {
-  lockTime: number | null; // Timestamp when locked (null if not locked)
-  startBalance: number;
-  currentLoss: number;
-  isLocked: boolean;
-  lockReason?: string;
 }
 
 const DEFAULT_CONFIG: TradeManagerConfig = {
   maxOpenTrades: 5,
   maxTradesPerSymbol: 1,
   allowContraryTrades: false,
-  maxDailyLossPercent: 5,
 };
 
 export class TradeManager {
   private config: TradeManagerConfig;
-  private dailyDrawdown: Map<string, DailyDrawdownState> = new Map(); // symbol -> state
-  private globalDrawdown: DailyDrawdownState | null = null;
 
   constructor(config: Partial<TradeManagerConfig> = {}) {
     this.config = { ...DEFAULT_CONFIG, ...config };
@@ -54,109 +42,6 @@ export class TradeManager {
     this.config = { ...this.config, ...config };
   }
 
-  /**
-   * Reset drawdown tracking for a symbol
-   */
-  resetDailyDrawdown(symbol: string, startBalance: number): void {
-    this.dailyDrawdown.set(symbol, {
-      lockTime: null,
-      startBalance,
-      currentLoss: 0,
-      isLocked: false,
-    });
-  }
-
-  /**
-   * Reset global drawdown
-   */
-  resetGlobalDrawdown(startBalance: number): void {
-    this.globalDrawdown = {
-      lockTime: null,
-      startBalance,
-      currentLoss: 0,
-      isLocked: false,
-    };
-  }
-
-  /**
-   * Record a loss and check if DD limit is hit (12-hour rolling window)
-   */
-  recordLoss(symbol: string, lossAmount: number, maxDailyDD: number): boolean {
-    const now = Date.now();
-    const TWELVE_HOURS_MS = 12 * 60 * 60 * 1000;
-    let state = this.dailyDrawdown.get(symbol);
-
-    // Check if existing lock has expired (12 hours passed)
-    if (state?.isLocked && state.lockTime) {
-      if (now - state.lockTime >= TWELVE_HOURS_MS) {
-        // Lock expired, reset state
-        state = {
-          lockTime: null,
-          startBalance: state.startBalance,
-          currentLoss: 0,
-          isLocked: false,
-        };
-        this.dailyDrawdown.set(symbol, state);
-      }
-    }
-
-    // Initialize if no state
-    if (!state) {
-      state = {
-        lockTime: null,
-        startBalance: 0, // Will be set properly when balance is available
-        currentLoss: 0,
-        isLocked: false,
-      };
-      this.dailyDrawdown.set(symbol, state);
-    }
-
-    state.currentLoss += lossAmount;
-
-    // Check against limit
-    if (state.startBalance > 0) {
-      const ddPercent = (state.currentLoss / state.startBalance) * 100;
-      if (ddPercent >= maxDailyDD) {
-        state.isLocked = true;
-        state.lockTime = now;
-        state.lockReason = `DD limit ${maxDailyDD}% reached (${ddPercent.toFixed(2)}%) - locked for 12h`;
-        return false;
-      }
-    }
-
-    return true;
-  }
-
-  /**
-   * Check if symbol is locked due to DD (12-hour rolling window)
-   */
-  isSymbolLocked(symbol: string): { locked: boolean; reason?: string } {
-    const now = Date.now();
-    const TWELVE_HOURS_MS = 12 * 60 * 60 * 1000;
-    const state = this.dailyDrawdown.get(symbol);
-
-    if (!state) {
-      return { locked: false };
-    }
-
-    // Check if lock has expired (12 hours passed)
-    if (state.isLocked && state.lockTime) {
-      if (now - state.lockTime >= TWELVE_HOURS_MS) {
-        // Lock expired, clear it
-        state.isLocked = false;
-        state.lockTime = null;
-        state.lockReason = undefined;
-        state.currentLoss = 0;
-        return { locked: false };
-      }
-    }
-
-    return {
-      locked: state.isLocked,
-      reason: state.lockReason,
-    };
-  }
-
   /**
    * Check if current time is in allowed kill zones
    */
@@ -165,13 +50,6 @@ export class TradeManager {
     return isInKillZone(new Date(), killZones);
   }
 
-  /**
-   * Get daily drawdown status for all symbols
-   */
-  getDailyDrawdownStatus(): Map<string, DailyDrawdownState> {
-    return new Map(this.dailyDrawdown);
-  }
-
   /**
    * Check if a new trade can be opened
    */
@@ -208,26 +86,6 @@ export class TradeManager {
       }
     }
 
-    // Check loss limit (12-hour rolling window)
-    if (this.config.maxDailyLossPercent) {
-      const lossLimitOk = await this.checkDailyLossLimit();
-      if (!lossLimitOk) {
-        return {
-          canOpen: false,
-          reason: `Loss limit reached in last 12h (${this.config.maxDailyLossPercent}%)`,
-        };
-      }
-    }
-
-    // Check symbol-specific daily DD lock
-    const symbolLock = this.isSymbolLocked(symbol);
-    if (symbolLock.locked) {
-      return {
-        canOpen: false,
-        reason: symbolLock.reason || `${symbol} locked due to daily drawdown`,
-      };
-    }
-
     return { canOpen: true };
   }
 
@@ -241,7 +99,6 @@ export class TradeManager {
     options: {
       useKillZones: boolean;
       killZones: KillZoneType[];
-      maxDailyDrawdown: number;
     }
   ): Promise<{ canOpen: boolean; reason?: string }> {
     // First do basic checks
@@ -260,40 +117,9 @@ export class TradeManager {
       }
     }
 
-    // Symbol-specific daily DD check
-    const symbolLock = this.isSymbolLocked(symbol);
-    if (symbolLock.locked) {
-      return {
-        canOpen: false,
-        reason: symbolLock.reason,
-      };
-    }
-
     return { canOpen: true };
   }
 
-  /**
-   * Check if loss limit has been reached (12-hour rolling window)
-   */
-  private async checkDailyLossLimit(): Promise<boolean> {
-    const twelveHoursAgo = new Date(Date.now() - 12 * 60 * 60 * 1000);
-
-    const recentTrades = await prisma.trade.findMany({
-      where: {
-        closeTime: {
-          gte: twelveHoursAgo,
-        },
-        status: 'CLOSED',
-      },
-    });
-
-    const totalLoss = recentTrades
-      .filter((t) => t.pnlPercent && t.pnlPercent < 0)
-      .reduce((sum, t) => sum + Math.abs(t.pnlPercent || 0), 0);
-
-    return totalLoss < (this.config.maxDailyLossPercent || 100);
-  }
-
   /**
    * Record a new trade in the database
    */
@@ -385,18 +211,21 @@ export class TradeManager {
   }
 
   /**
-   * Update signal status
+   * Update signal status, with the structured rejection when a risk check refused it.
+   * PENDING keeps a deferred signal open with the reason it is waiting.
    */
   async updateSignalStatus(
     signalId: string,
-    status: 'TAKEN' | 'REJECTED' | 'EXPIRED',
-    reason?: string
+    status: 'PENDING' | 'TAKEN' | 'REJECTED' | 'EXPIRED',
+    reason?: string,
+    rejection?: RiskRejection
   ): Promise<void> {
     await prisma.signal.update({
       where: { id: signalId },
       data: {
         status,
         reason: reason || undefined,
+        rejection: rejection ? JSON.stringify(rejection) : undefined,
       },
     });
   }
@@ -441,7 +270,8 @@ export class TradeManager {
   }
 
   /**
-   * Get trading statistics
+   * Get trading statistics. `performance` measures R against each trade's riskAmount; its
+   * daily ratios need an account snapshot from before the period to start the equity curve.
    * @param source - Filter by trade source: 'auto' (SMC strategies), 'telegram' (EXTERNAL), 'all' (no filter)
    */
   async getStatistics(days: number = 30, source?: 'all' | 'auto' | 'telegram'): Promise<{
@@ -454,6 +284,7 @@ export class TradeManager {
     averageLoss: number;
     profitFactor: number;
     byStrategy: Record<string, { trades: number; winRate: number; pnl: number }>;
+    performance: PerformanceMetrics;
   }> {
     const startDate = new Date();
     startDate.setDate(startDate.getDate() - days);
@@ -505,6 +336,38 @@ export class TradeManager {
       };
     }
 
+    // Equity curve from the balance at the start of the period plus closed-trade P&L
+    const startSnapshot = await prisma.accountSnapshot.findFirst({
+      where: { timestamp: { lte: startDate } },
+      orderBy: { timestamp: 'desc' },
+    });
+    const closedTrades = trades
+      .filter((t) => t.closeTime)
+      .sort((a, b) => (a.closeTime as Date).getTime() - (b.closeTime as Date).getTime());
+    const endDate = new Date();
+
+    const equityCurve: { date: Date; equity: number }[] = [];
+    if (startSnapshot) {
+      let equity = startSnapshot.balance;
+      equityCurve.push({ date: startDate, equity });
+      for (const trade of closedTrades) {
+        equity += trade.pnl || 0;
+        equityCurve.push({ date: trade.closeTime as Date, equity });
+      }
+      equityCurve.push({ date: endDate, equity });
+    }
+
+    const performance = calculatePerformanceMetrics({
+      trades: closedTrades.map((t) => ({
+        entryTime: t.openTime,
+        exitTime: t.closeTime as Date,
+        r: t.riskAmount > 0 ? (t.pnl || 0) / t.riskAmount : undefined,
+      })),
+      equityCurve,
+      startDate,
+      endDate,
+    });
+
     return {
       totalTrades: trades.length,
       winningTrades: winningTrades.length,
@@ -515,6 +378,7 @@ export class TradeManager {
       averageLoss: avgLoss,
       profitFactor,
       byStrategy,
+      performance,
     };
   }
 
@@ -952,11 +816,6 @@ export class TradeManager {
 
     console.log(`[TradeManager] Trade ${trade.id} closed: ${trade.symbol} ${trade.direction} @ ${closePrice}, PnL: $${profit.toFixed(2)}`);
 
-    // Record loss for daily DD tracking if negative
-    if (profit < 0) {
-      this.recordLoss(trade.symbol, Math.abs(profit), this.config.maxDailyLossPercent || 5);
-    }
-
     return updated as Trade;
   }
 }
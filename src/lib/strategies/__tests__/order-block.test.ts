@@ -0,0 +1,108 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { OrderBlockStrategy } from '../order-block';
+import { StrategyContext } from '../base';
+import { calculateATR, scoreOrderBlock } from '../../analysis';
+import { Candle, MarketStructure, MultiTimeframeAnalysis, OrderBlock, Timeframe } from '../../types';
+
+function makeCandle(hour: number, open: number, high: number, low: number, close: number): Candle {
+  return {
+    time: new Date(Date.UTC(2026, 1, 16, hour)),
+    open,
+    high,
+    low,
+    close,
+    volume: 100,
+    symbol: 'XAUUSD',
+    timeframe: 'H1' as Timeframe,
+  };
+}
+
+// Baseline, a bearish OB candle at index 20, an impulse up and a pullback that stays above the OB
+function buildMTFCandles(): Candle[] {
+  const candles: Candle[] = [];
+  for (let i = 0; i < 20; i++) {
+    const base = 2000 + i * 2;
+    candles.push(makeCandle(i, base, base + 5, base - 5, base + 1));
+  }
+  candles.push(makeCandle(20, 2042, 2044, 2035, 2036));
+  candles.push(makeCandle(21, 2037, 2060, 2036, 2058));
+  candles.push(makeCandle(22, 2058, 2070, 2055, 2068));
+  candles.push(makeCandle(23, 2068, 2080, 2065, 2078));
+  candles.push(makeCandle(24, 2078, 2090, 2075, 2088));
+  candles.push(makeCandle(25, 2088, 2089, 2060, 2062));
+  candles.push(makeCandle(26, 2062, 2064, 2049, 2050));
+  return candles;
+}
+
+const ob: OrderBlock = {
+  id: 'ob',
+  symbol: 'XAUUSD',
+  timeframe: 'H1',
+  type: 'BULLISH',
+  high: 2044,
+  low: 2035,
+  open: 2042,
+  close: 2036,
+  candleTime: new Date(Date.UTC(2026, 1, 16, 20)),
+  isValid: true,
+};
+
+const structure: MarketStructure = { bias: 'BULLISH', lastStructure: 'HL', swingPoints: [] };
+
+function makeContext(overrides: Partial<StrategyContext> = {}): StrategyContext {
+  const mtfCandles = buildMTFCandles();
+  const analysis = {
+    htf: { timeframe: 'H4', bias: 'BULLISH', structure, orderBlocks: [], liquidityZones: [] },
+    mtf: {
+      timeframe: 'H1',
+      bias: 'BULLISH',
+      structure,
+      orderBlocks: [ob],
+      fvgs: [],
+      liquidityZones: [
+        { id: 'liq', symbol: 'XAUUSD', timeframe: 'H1', type: 'HIGH', price: 2120, candleTime: ob.candleTime, isSwept: false },
+      ],
+    },
+    ltf: { timeframe: 'M15', bias: 'BULLISH', structure },
+  } as unknown as MultiTimeframeAnalysis;
+
+  return {
+    symbol: 'XAUUSD',
+    currentPrice: 2050,
+    bid: 2050,
+    ask: 2050.2,
+    analysis,
+    htfCandles: [],
+    mtfCandles,
+    ltfCandles: [],
+    ...overrides,
+  };
+}
+
+describe('OrderBlockStrategy', () => {
+  const strategy = new OrderBlockStrategy();
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('should skip order blocks scoring below minOBScore', () => {
+    const score = scoreOrderBlock(ob, buildMTFCandles());
+
+    expect(strategy.analyze(makeContext({ minOBScore: score }))).not.toBeNull();
+    expect(strategy.analyze(makeContext({ minOBScore: score + 1 }))).toBeNull();
+  });
+
+  it('should buffer the stop by 20% of the OB range without an ATR multiplier', () => {
+    const signal = strategy.analyze(makeContext());
+
+    expect(signal?.stopLoss).toBeCloseTo(2035 - 9 * 0.2);
+  });
+
+  it('should buffer the stop by atrMultiplier x MTF ATR', () => {
+    const atr = calculateATR(buildMTFCandles());
+    const signal = strategy.analyze(makeContext({ atrMultiplier: 1.5 }));
+
+    expect(signal?.stopLoss).toBeCloseTo(2035 - atr * 1.5);
+  });
+});
@@ -29,6 +29,10 @@ export interface StrategyContext {
   htfCandles: Candle[];
   mtfCandles: Candle[];
   ltfCandles: Candle[];
+  /** Order blocks scoring below this (0-100, see scoreOrderBlock) are skipped */
+  minOBScore?: number;
+  /** Stop buffer beyond the order block in MTF ATRs (default: 20% of the OB range) */
+  atrMultiplier?: number;
 }
 
 export abstract class BaseStrategy {
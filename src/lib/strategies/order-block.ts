@@ -1,6 +1,7 @@
 import { BaseStrategy, StrategySignal, StrategyContext } from './base';
 import { StrategyType, Direction, OrderBlock, FairValueGap } from '../types';
-import { isPriceAtOrderBlock, getNearestOrderBlock } from '../analysis/order-blocks';
+import { isPriceAtOrderBlock, getNearestOrderBlock, scoreOrderBlock } from '../analysis/order-blocks';
+import { calculateATR } from '../analysis/atr';
 import { getNearestFVG, isPriceInFVG } from '../analysis/fvg';
 import { getOverallBias, getLiquidityTarget } from '../analysis/multi-timeframe';
 import { findNearestSwingHigh, findNearestSwingLow, isPriceInDiscount, isPriceInPremium } from '../analysis/market-structure';
@@ -14,7 +15,8 @@ import { findNearestSwingHigh, findNearestSwingLow, isPriceInDiscount, isPriceIn
  * 3. FVG confluence with the Order Block (extra confirmation)
  * 4. Entry on LTF when price enters the OB zone
  *
- * Stop Loss: Below/above the Order Block
+ * Order blocks scoring below context.minOBScore are skipped.
+ * Stop Loss: Below/above the Order Block, buffered by context.atrMultiplier x MTF ATR
  * Take Profit: Next liquidity zone or swing high/low
  */
 export class OrderBlockStrategy extends BaseStrategy {
@@ -67,7 +69,7 @@ export class OrderBlockStrategy extends BaseStrategy {
     const { analysis, currentPrice } = context;
 
     // Find nearest bullish Order Block below current price
-    const mtfOrderBlocks = analysis.mtf.orderBlocks.filter((ob) => ob.type === 'BULLISH');
+    const mtfOrderBlocks = this.scoredOrderBlocks(context, 'BULLISH');
 
     if (mtfOrderBlocks.length === 0) {
       return null;
@@ -109,7 +111,7 @@ export class OrderBlockStrategy extends BaseStrategy {
     }
 
     // Calculate stop loss (below OB with buffer)
-    const stopLoss = activeOB.low - (activeOB.high - activeOB.low) * 0.2;
+    const stopLoss = activeOB.low - this.stopBuffer(activeOB, context);
 
     // Calculate take profit (target liquidity or swing high)
     let takeProfit = getLiquidityTarget(currentPrice, analysis, 'BUY');
@@ -190,7 +192,7 @@ export class OrderBlockStrategy extends BaseStrategy {
     const { analysis, currentPrice } = context;
 
     // Find nearest bearish Order Block above current price
-    const mtfOrderBlocks = analysis.mtf.orderBlocks.filter((ob) => ob.type === 'BEARISH');
+    const mtfOrderBlocks = this.scoredOrderBlocks(context, 'BEARISH');
 
     if (mtfOrderBlocks.length === 0) {
       return null;
@@ -232,7 +234,7 @@ export class OrderBlockStrategy extends BaseStrategy {
     }
 
     // Calculate stop loss (above OB with buffer)
-    const stopLoss = activeOB.high + (activeOB.high - activeOB.low) * 0.2;
+    const stopLoss = activeOB.high + this.stopBuffer(activeOB, context);
 
     // Calculate take profit (target liquidity or swing low)
     let takeProfit = getLiquidityTarget(currentPrice, analysis, 'SELL');
@@ -305,6 +307,36 @@ export class OrderBlockStrategy extends BaseStrategy {
       reason: reasons.join(' + '),
     };
   }
+
+  /**
+   * MTF order blocks of one type that pass the minOBScore filter
+   */
+  private scoredOrderBlocks(context: StrategyContext, type: OrderBlock['type']): OrderBlock[] {
+    const { analysis, mtfCandles, minOBScore } = context;
+    const orderBlocks = analysis.mtf.orderBlocks.filter((ob) => ob.type === type);
+
+    if (!minOBScore) {
+      return orderBlocks;
+    }
+
+    return orderBlocks.filter(
+      (ob) => scoreOrderBlock(ob, mtfCandles, analysis.mtf.fvgs) >= minOBScore
+    );
+  }
+
+  /**
+   * Distance between the order block edge and the stop loss
+   */
+  private stopBuffer(ob: OrderBlock, context: StrategyContext): number {
+    const { mtfCandles, atrMultiplier } = context;
+    const atr = atrMultiplier !== undefined ? calculateATR(mtfCandles) : 0;
+
+    if (atrMultiplier === undefined || atr === 0) {
+      return (ob.high - ob.low) * 0.2;
+    }
+
+    return atr * atrMultiplier;
+  }
 }
 
 export const orderBlockStrategy = new OrderBlockStrategy();
@@ -17,7 +17,17 @@
  * - XAGUSD.s: TIERED 50@0.5R|30@1R|20@1.5R -> $3,066, 80.5% WR, PF 2.95
  */
 
-import { StrategyType, Timeframe, KillZoneType, BreakevenConfig, TieredTPConfig, TIERED_TP_PROFILES } from '../types';
+import {
+  StrategyType,
+  Timeframe,
+  KillZoneType,
+  BreakevenConfig,
+  TieredTPConfig,
+  TIERED_TP_PROFILES,
+  BacktestConfig,
+  PositionSizingConfig,
+  DEFAULT_BOT_CONFIG,
+} from '../types';
 
 /**
  * Confirmation candle types for Order Block entries
@@ -70,6 +80,8 @@ export interface StrategyProfile {
   breakeven?: BreakevenConfig;
   /** Tiered take-profit configuration for partial closes */
   tieredTP?: TieredTPConfig;
+  /** Position sizing mode and settings (default: fixed riskPercent) */
+  sizing?: Partial<PositionSizingConfig>;
 }
 
 /**
@@ -90,6 +102,8 @@ export interface SymbolOverrides {
   riskReward?: number;
   /** Override ATR multiplier for this symbol */
   atrMultiplier?: number;
+  /** Override position sizing settings for this symbol (merged over the profile's) */
+  sizing?: Partial<PositionSizingConfig>;
 }
 
 /**
@@ -104,7 +118,7 @@ export interface LiveStrategyConfig {
     enabled: boolean;
     overrides?: SymbolOverrides;
   }[];
-  /** Whether live trading is enabled (false = paper mode) */
+  /** Whether live trading is enabled (a label: false still trades the broker account) */
   liveTrading: boolean;
   /** HTF timeframe for bias */
   htfTimeframe: Timeframe;
@@ -475,7 +489,8 @@ export const SYMBOL_DEFAULTS: Record<string, SymbolOverrides> = {
 /**
  * Default live strategy configuration
  *
- * IMPORTANT: liveTrading is FALSE by default - must be explicitly enabled
+ * IMPORTANT: liveTrading is FALSE by default - must be explicitly enabled. It is not a
+ * paper mode: the bot trades the broker account either way.
  * Updated Feb 2026: All symbols now use Scalp (H1/M15/M1) timeframe
  * Use symbol-specific profiles via getSymbolTimeframes() for best performance
  */
@@ -487,7 +502,7 @@ export const DEFAULT_LIVE_CONFIG: LiveStrategyConfig = {
     { symbol: 'XAGUSD.s', enabled: true, overrides: SYMBOL_DEFAULTS['XAGUSD.s'] }, // Tiered 50@0.5R|30@1R|20@1.5R
     { symbol: 'ETHUSD', enabled: false, overrides: SYMBOL_DEFAULTS['ETHUSD'] },    // DISABLED - not re-tested
   ],
-  liveTrading: false, // Paper mode by default
+  liveTrading: false, // Label only - orders still go to the broker account
   // Default timeframes - all symbols now use scalp
   htfTimeframe: 'H1',
   mtfTimeframe: 'M15',
@@ -510,6 +525,7 @@ export function getSymbolConfig(
   useKillZones: boolean;
   killZones: KillZoneType[];
   atrMultiplier: number;
+  sizing: PositionSizingConfig;
 } {
   const symbolConfig = config.symbols.find(s => s.symbol === symbol);
   const profile = config.profile;
@@ -525,6 +541,36 @@ export function getSymbolConfig(
     useKillZones: overrides.useKillZones ?? profile.useKillZones,
     killZones: profile.killZones,
     atrMultiplier: overrides.atrMultiplier ?? profile.atrMultiplier,
+    sizing: { ...DEFAULT_BOT_CONFIG.sizing!, ...profile.sizing, ...overrides.sizing },
+  };
+}
+
+/**
+ * Backtest options that replay a profile - fixed RR at the profile's riskReward,
+ * with the symbol default sizing overrides the live config starts from
+ */
+export function getProfileBacktestOptions(profile: StrategyProfile): Partial<BacktestConfig> {
+  const symbolSizing: Record<string, Partial<PositionSizingConfig>> = {};
+  for (const [symbol, overrides] of Object.entries(SYMBOL_DEFAULTS)) {
+    if (overrides.sizing) symbolSizing[symbol] = overrides.sizing;
+  }
+
+  return {
+    strategy: profile.strategy,
+    minOBScore: profile.minOBScore,
+    useKillZones: profile.useKillZones,
+    killZones: profile.killZones,
+    maxDailyDrawdownPercent: profile.maxDailyDrawdown,
+    confirmationType: profile.confirmationType,
+    rrMode: 'fixed',
+    fixedRR: profile.riskReward,
+    riskPercent: profile.riskPercent,
+    atrMultiplier: profile.atrMultiplier,
+    maxConcurrentTrades: profile.maxConcurrentTrades,
+    breakeven: profile.breakeven,
+    tieredTP: profile.tieredTP,
+    sizing: profile.sizing,
+    symbolSizing,
   };
 }
 
@@ -594,6 +640,16 @@ export function validateProfile(profile: StrategyProfile): { valid: boolean; err
     errors.push('maxConcurrentTrades must be between 1 and 10');
   }
 
+  if (profile.sizing) {
+    const { kellyFraction, minRiskMultiplier, maxRiskMultiplier } = { ...DEFAULT_BOT_CONFIG.sizing!, ...profile.sizing };
+    if (kellyFraction <= 0 || kellyFraction > 1) {
+      errors.push('sizing.kellyFraction must be above 0 and at most 1');
+    }
+    if (minRiskMultiplier < 0 || minRiskMultiplier > maxRiskMultiplier) {
+      errors.push('sizing.minRiskMultiplier must be between 0 and maxRiskMultiplier');
+    }
+  }
+
   return {
     valid: errors.length === 0,
     errors,
@@ -98,6 +98,8 @@ export interface Signal {
   confidence: number;
   status: SignalStatus;
   reason?: string;
+  /** Structured reason when a risk check rejected the signal */
+  rejection?: RiskRejection;
   htfBias: Bias;
   mtfStructure: string;
   createdAt: Date;
@@ -165,6 +167,25 @@ export interface SymbolInfo {
   tickValue: number;
   /** Minimum stop loss distance in pips - signals with smaller SL are rejected */
   minSlPips?: number;
+  baseCurrency?: string;
+  /** Currency P&L is quoted in (e.g. JPY for GBPJPY) */
+  profitCurrency?: string;
+  /** Broker minimum distance of SL/TP from the market price, in points (10^-digits) */
+  stopsLevel?: number;
+  /** Distance from the market price inside which orders and positions can't be modified, in points */
+  freezeLevel?: number;
+  /** MT5 SYMBOL_TRADE_MODE_* (DISABLED, LONGONLY, SHORTONLY, CLOSEONLY, FULL) */
+  tradeMode?: string;
+  /** Trade sessions in broker server time; always open when absent */
+  tradeSessions?: TradeSession[];
+}
+
+export interface TradeSession {
+  /** Day of week, 0 = Sunday */
+  day: number;
+  /** Minutes from server midnight; `to` may be 1440 */
+  from: number;
+  to: number;
 }
 
 // Kill zone and session types for SMC trading
@@ -195,6 +216,112 @@ export interface InducementLevel {
   isSwept: boolean;
 }
 
+/**
+ * Spread model for backtest fills (all values in price units)
+ * Candle prices are treated as bid; the ask is bid + spread
+ */
+export interface SpreadModelConfig {
+  /** 'fixed' uses `spread` at all times, 'session' looks up the active session */
+  mode: 'fixed' | 'session';
+  /** Fixed spread, also the fallback for sessions without an explicit value */
+  spread: number;
+  /** Spread per trading session (session mode only) */
+  sessionSpreads?: Partial<Record<Session, number>>;
+}
+
+/**
+ * Slippage model for market entries and stop-loss exits (always adverse)
+ */
+export interface SlippageModelConfig {
+  /** 'random' draws uniformly up to maxSlippage, 'atr' up to atrFraction × ATR */
+  mode: 'none' | 'random' | 'atr';
+  /** Maximum slippage in price units (random mode) */
+  maxSlippage?: number;
+  /** Fraction of ATR used as maximum slippage (atr mode, default 0.1) */
+  atrFraction?: number;
+  /** ATR period on entry timeframe candles (atr mode, default 14) */
+  atrPeriod?: number;
+  /** Seed for reproducible slippage draws (default 1) */
+  seed?: number;
+}
+
+/**
+ * Overnight swap rates for a symbol, in account currency per lot per night
+ * Negative values are charged, positive values are credited
+ */
+export interface SwapRates {
+  long: number;
+  short: number;
+  /** UTC weekday whose rollover is charged 3x to cover the weekend (default 3 = Wednesday, null = charge every night) */
+  tripleSwapDay?: number | null;
+}
+
+/**
+ * Execution cost model for backtests
+ */
+export interface ExecutionCostConfig {
+  spread?: SpreadModelConfig;
+  /** Commission per lot per side in account currency (charged on entry and exit) */
+  commissionPerLot?: number;
+  slippage?: SlippageModelConfig;
+  /** Swap rates keyed by symbol */
+  swap?: Record<string, SwapRates>;
+  /** UTC hour at which swap is charged (default 22, broker midnight on GMT+2 servers) */
+  rolloverHourUTC?: number;
+}
+
+/**
+ * Limit-order entries for backtests: the signal becomes a pending order instead of a market fill
+ */
+export interface LimitEntryConfig {
+  enabled: boolean;
+  /** Candles the order stays pending before it is cancelled (default 8) */
+  expiryCandles?: number;
+  /** Place the limit this fraction of the stop distance better than the signal entry (default 0) */
+  pullbackR?: number;
+}
+
+/**
+ * Pending order outcomes for a limit-entry backtest
+ */
+export interface LimitOrderStats {
+  placed: number;
+  filled: number;
+  expired: number;
+  /** Cancelled because price reached the target before the fill (the stop lies beyond the limit, so it cannot come first) */
+  invalidated: number;
+  /** Filled orders as a percentage of placed orders */
+  fillRate: number;
+}
+
+/**
+ * Who wins when a backtest candle touches both stop loss and target and finer data can't tell
+ */
+export type IntrabarFallback = 'pessimistic' | 'optimistic';
+
+/**
+ * Candles on which a position's stop loss and target were both touched
+ */
+export interface IntrabarStats {
+  ambiguousBars: number;
+  /** Decided from ticks or lower-timeframe candles */
+  resolvedBars: number;
+  /** Decided by the fallback */
+  fallbackBars: number;
+}
+
+/**
+ * Costs attributed to a backtest trade, in account currency (positive = cost)
+ */
+export interface TradeCostBreakdown {
+  spread: number;
+  commission: number;
+  slippage: number;
+  /** Net swap charged (negative when swap was credited) */
+  swap: number;
+  total: number;
+}
+
 export interface BacktestConfig {
   strategy: StrategyType;
   symbol: string;
@@ -212,19 +339,41 @@ export interface BacktestConfig {
   requireOTE?: boolean;
   oteThreshold?: number; // Fib level (0.618, 0.705, 0.786)
   // Entry quality tiers
-  minOBScore?: number;
+  minOBScore?: number; // Order-block strategy skips OBs scoring below this (0-100)
   relaxedScoreThreshold?: number; // Score above which simple touch entry is allowed
+  confirmationType?: ConfirmationType; // Entry candle must confirm the signal direction
   // Risk/Reward modes
   rrMode?: 'fixed' | 'atr_trailing' | 'structure';
   fixedRR?: number;
-  atrMultiplier?: number;
-  // Position management
+  atrMultiplier?: number; // Order-block stop buffer in MTF ATRs (default: 20% of the OB range)
+  // Position management (maxConcurrentTrades is the portfolio-wide open trade limit)
   maxConcurrentTrades?: number;
+  maxTradesPerSymbol?: number;
+  allowContraryTrades?: boolean;
   maxDrawdownPercent?: number;
   maxDailyDrawdownPercent?: number;
   // Session filters
   tradingSessions?: string[];
   useCooldowns?: boolean;
+  // Portfolio mode - symbols traded together on one account (defaults to the data provided)
+  symbols?: string[];
+  // Execution costs (spread, commission, slippage, swap) - zero-cost fills when omitted
+  executionCosts?: ExecutionCostConfig;
+  // Contract specs by symbol (overrides the symbol spec registry) and the currency P&L is reported in
+  symbolSpecs?: Record<string, SymbolInfo>;
+  accountCurrency?: string; // Default: USD
+  // Trade management (mirrors the live bot - breakeven only applies when tiered TP is disabled)
+  tieredTP?: TieredTPConfig;
+  breakeven?: BreakevenConfig;
+  // Entry mode - pending limit orders instead of market entries (candle backtests only)
+  limitEntry?: LimitEntryConfig;
+  // SL vs target on one candle when intrabar data can't decide (default: pessimistic)
+  intrabarFallback?: IntrabarFallback;
+  // Replay - keep the analysis and signal reason behind each entry on its trades
+  captureSnapshots?: boolean;
+  // Position sizing mode (default: fixed riskPercent) and per-symbol overrides, as in the live bot
+  sizing?: Partial<PositionSizingConfig>;
+  symbolSizing?: Record<string, Partial<PositionSizingConfig>>;
 }
 
 export interface BacktestMetrics {
@@ -242,6 +391,63 @@ export interface BacktestMetrics {
   totalPnl: number;
   totalPnlPercent: number;
   finalBalance: number;
+  /** Total execution costs across all trades */
+  costs?: TradeCostBreakdown;
+  /** Pending order outcomes (limit-entry mode only) */
+  limitOrders?: LimitOrderStats;
+  /** Candles where SL and target were both touched (candle backtests) */
+  intrabar?: IntrabarStats;
+  /** Time-based ratios, R statistics and benchmark (sharpeRatio above is the daily Sharpe) */
+  performance?: PerformanceMetrics;
+}
+
+/**
+ * Extended performance report (src/lib/backtest/performance.ts).
+ * R is the trade result as a multiple of its initial stop-loss risk.
+ */
+export interface PerformanceMetrics {
+  /** Annualised from daily equity returns */
+  sharpeRatio: number;
+  /** Like Sharpe, but only downside deviation counts as risk */
+  sortinoRatio: number;
+  /** Annualised return over max drawdown percent */
+  calmarRatio: number;
+  annualizedReturnPercent: number;
+  expectancyR: number;
+  averageWinR: number;
+  averageLossR: number;
+  /** Mean maximum adverse/favourable excursion in R (null without excursion data) */
+  averageMAER: number | null;
+  averageMFER: number | null;
+  /** Share of the period with at least one position open */
+  exposurePercent: number;
+  averageHoldingMinutes: number;
+  benchmark: BenchmarkComparison | null;
+  significance: RSignificance;
+}
+
+export interface BenchmarkComparison {
+  /** Equal-weight buy and hold of the traded symbols over the same period */
+  buyAndHoldReturnPercent: number;
+  strategyReturnPercent: number;
+  excessReturnPercent: number;
+}
+
+/**
+ * Is mean R distinguishable from zero?
+ */
+export interface RSignificance {
+  sampleSize: number;
+  meanR: number;
+  stdDevR: number;
+  /** One-sample t-test against 0 */
+  tStatistic: number;
+  /** Two-sided */
+  pValue: number;
+  /** Bootstrapped confidence interval for mean R */
+  confidenceLevel: number;
+  lowerR: number;
+  upperR: number;
 }
 
 export interface BacktestTrade {
@@ -258,6 +464,27 @@ export interface BacktestTrade {
   pnlPercent: number;
   isWinner: boolean;
   exitReason: 'TP' | 'SL' | 'SIGNAL';
+  /** Execution costs included in pnl */
+  costs?: TradeCostBreakdown;
+  /** Simulated position this fill belongs to (shared by partial-close legs) */
+  positionId?: string;
+  /** Tiered TP leg - REMAINDER is the volume left after partials, closed by SL/TP/end of data */
+  leg?: BacktestTradeLeg;
+  /** What the strategy saw at entry (config.captureSnapshots) - shared by partial-close legs */
+  snapshot?: BacktestEntrySnapshot;
+  /** Maximum adverse/favourable excursion from entry in price, up to this fill */
+  mae?: number;
+  mfe?: number;
+}
+
+export type BacktestTradeLeg = 'TP1' | 'TP2' | 'TP3' | 'REMAINDER';
+
+export interface BacktestEntrySnapshot {
+  /** LTF candle the signal fired on */
+  time: Date;
+  reason: string;
+  confidence: number;
+  analysis: MultiTimeframeAnalysis;
 }
 
 export interface MultiTimeframeAnalysis {
@@ -315,6 +542,8 @@ export interface SymbolStrategySettings {
   minOBScore?: number;
   /** Confirmation type for entries */
   confirmationType?: ConfirmationType;
+  /** Position sizing overrides (merged over the profile's) */
+  sizing?: Partial<PositionSizingConfig>;
 }
 
 /**
@@ -366,6 +595,199 @@ export interface TieredTPConfig {
   moveSlOnTP2: boolean;
 }
 
+/**
+ * How the risk per trade is set from the base riskPercent
+ * - FIXED: riskPercent of balance
+ * - ATR: scaled by average ATR / current ATR, so risk shrinks when volatility expands
+ * - KELLY: fractional Kelly from the rolling win rate and payoff of the strategy on the symbol
+ * - EQUITY_CURVE: reduced after a drawdown from the equity high, restored at a new high
+ * - ANTI_MARTINGALE: raised after consecutive wins, lowered after consecutive losses
+ */
+export type SizingMode = 'FIXED' | 'ATR' | 'KELLY' | 'EQUITY_CURVE' | 'ANTI_MARTINGALE';
+
+export interface PositionSizingConfig {
+  mode: SizingMode;
+  /** ATR period, on the MTF candles */
+  atrPeriod: number;
+  /** Bars the baseline ATR is averaged over */
+  atrLookback: number;
+  /** Share of the full Kelly fraction to risk (0.25 = quarter Kelly) */
+  kellyFraction: number;
+  /** Closed trades in the rolling Kelly window */
+  kellyLookback: number;
+  /** Fewer closed trades than this falls back to riskPercent */
+  kellyMinTrades: number;
+  /** Drawdown from the equity high, %, at which risk is reduced */
+  equityDrawdownPercent: number;
+  /** Risk multiplier while reduced */
+  equityReduceFactor: number;
+  /** Risk added per consecutive win (and removed per consecutive loss), as a multiple of riskPercent */
+  streakStep: number;
+  /** Most streak steps counted */
+  maxStreakSteps: number;
+  /** Bounds on the resolved risk, as multiples of riskPercent */
+  minRiskMultiplier: number;
+  maxRiskMultiplier: number;
+}
+
+/**
+ * Order pre-flight: broker-side checks run just before an order is sent, so it is not
+ * rejected by the broker after the signal was already accepted
+ */
+export interface OrderPreflightConfig {
+  /** Whether orders are validated before they are sent */
+  enabled: boolean;
+  /** Lowest margin level (equity / margin, %) allowed once the order fills */
+  minMarginLevelPercent: number;
+  /** Cut the volume to what margin allows instead of rejecting */
+  downsizeOnMargin: boolean;
+  /** Widest spread accepted, as a multiple of the symbol's typical spread (0 = no limit) */
+  maxSpreadMultiplier: number;
+  /** Widest spread accepted by symbol, in price (overrides the multiplier) */
+  maxSpread: Record<string, number>;
+  /** Minutes a deferred signal (market closed, spread too wide) is retried before it is rejected */
+  deferMinutes: number;
+  /** Timezone the broker's trade sessions are in */
+  serverTimezone: 'UTC' | 'NY_CLOSE' | number;
+}
+
+/**
+ * Portfolio risk limits across correlated symbols
+ * Symbols whose returns move together share an exposure bucket, so BUY XAUUSD + BUY XAGUSD
+ * counts as one bet. Risk is what open positions lose at their stops.
+ */
+export interface PortfolioRiskConfig {
+  /** Whether portfolio risk checks run before opening a trade */
+  enabled: boolean;
+  /** Candle timeframe for return correlations (read from the candle cache) */
+  correlationTimeframe: Timeframe;
+  /** Returns used per correlation */
+  correlationLookback: number;
+  /** Absolute correlation at or above which two symbols share a bucket */
+  correlationThreshold: number;
+  /** Fewest overlapping returns for a correlation to count */
+  minOverlap: number;
+  /** Symbols grouped when there is not enough cached history to correlate them */
+  staticBuckets: string[][];
+  /** Max open risk per bucket and direction, % of balance */
+  maxBucketRiskPercent: number;
+  /** Max open risk per bucket and direction, in R (one R = riskPercent of balance) */
+  maxBucketR: number;
+  /** Max open risk across all symbols in one direction, % of balance */
+  maxDirectionRiskPercent: number;
+  /** Max open risk across all symbols in one direction, in R */
+  maxDirectionR: number;
+}
+
+export type DrawdownLimitType = 'DAILY' | 'WEEKLY' | 'TRAILING';
+
+export interface EquityCircuitBreakerConfig {
+  /** Whether equity drawdown limits block new trades */
+  enabled: boolean;
+  /** Max equity drop from the start of the trading day, % of the higher of balance and equity then */
+  maxDailyDrawdownPercent: number;
+  /** Max equity drop from the start of the trading week (Monday), same reference as daily */
+  maxWeeklyDrawdownPercent: number;
+  /** Max equity drop from the equity high-water mark; this lock holds until reset */
+  maxTrailingDrawdownPercent: number;
+  /** Close every open position when a limit is breached */
+  flattenOnBreach: boolean;
+  /** UTC hour at which the trading day starts (prop firms often use broker midnight) */
+  dayStartHourUtc: number;
+}
+
+export type RiskRejectionCode = 'BUCKET_RISK' | 'BUCKET_R' | 'DIRECTION_RISK' | 'DIRECTION_R';
+
+/**
+ * Why a risk check refused a trade; persisted on the Signal as JSON
+ */
+export interface RiskRejection {
+  code: RiskRejectionCode;
+  message: string;
+  symbol: string;
+  direction: Direction;
+  /** Exposure bucket the limit applies to (absent for portfolio-wide limits) */
+  bucket?: string[];
+  /** Open positions counted against the limit */
+  positionIds: string[];
+  unit: 'currency' | 'R';
+  /** Open risk before the trade */
+  current: number;
+  /** Risk the trade would add */
+  proposed: number;
+  limit: number;
+}
+
+export type PropFirmRuleId =
+  | 'DAILY_LOSS'
+  | 'MAX_LOSS'
+  | 'MIN_TRADING_DAYS'
+  | 'NEWS_TRADING'
+  | 'MAX_LOT_EXPOSURE'
+  | 'WEEKEND_HOLDING';
+
+/**
+ * Funded-account challenge rules; breaking one ends the account
+ */
+export interface PropFirmRules {
+  /** Preset the rules came from, e.g. 'FTMO' */
+  preset: string;
+  /** Max loss within a server-time day, % of that day's starting balance (floating losses count); 0 = no rule */
+  maxDailyLossPercent: number;
+  /** Max loss overall, % of the initial balance (equity floor); 0 = no rule */
+  maxLossPercent: number;
+  /** Days with at least one opened trade needed to pass */
+  minTradingDays: number;
+  /** No new orders this many minutes either side of high-impact news on the symbol's currencies; 0 = allowed */
+  newsBlackoutMinutes: number;
+  /** Max total open volume in lots, including the new order; 0 = no rule */
+  maxOpenLots: number;
+  /** Positions may not be held over the weekend */
+  noWeekendHolding: boolean;
+}
+
+export interface PropFirmConfig extends PropFirmRules {
+  /** Whether orders are checked against the rules */
+  enabled: boolean;
+  /** Account balance at the start of the challenge */
+  initialBalance: number;
+  /** Challenge start (ISO date); trading days count from here, or from today when unset */
+  startDate?: string;
+  /** Broker server clock for trading days: 'NY_CLOSE' (UTC+2/+3), 'UTC' or minutes east of UTC */
+  serverTimezone: 'UTC' | 'NY_CLOSE' | number;
+  /** Stop this far short of the loss limits, % of the limit's reference balance */
+  safetyBufferPercent: number;
+  /** With noWeekendHolding, no new orders this many minutes before the Friday close */
+  weekendCutoffMinutes: number;
+}
+
+export type PropFirmRuleState = 'OK' | 'WARNING' | 'BREACHED' | 'PENDING';
+
+/**
+ * One rule's standing, shown in the compliance panel and returned when an order is refused
+ */
+export interface PropFirmRuleStatus {
+  rule: PropFirmRuleId;
+  label: string;
+  state: PropFirmRuleState;
+  unit: 'currency' | 'lots' | 'days' | 'minutes';
+  /** Loss so far, open lots, trading days, or minutes to the next event */
+  current: number;
+  limit: number;
+  /** Room left before the rule is broken (days still needed for MIN_TRADING_DAYS) */
+  headroom: number;
+  message: string;
+}
+
+/** Scheduled economic release, for news-trading bans */
+export interface NewsEvent {
+  time: Date;
+  /** ISO currency code the release moves, e.g. 'USD' */
+  currency: string;
+  impact: 'HIGH' | 'MEDIUM' | 'LOW';
+  title: string;
+}
+
 /**
  * Predefined tiered TP profiles based on backtest results
  */
@@ -432,6 +854,42 @@ export const TIERED_TP_PROFILES: Record<string, TieredTPConfig> = {
   },
 };
 
+/**
+ * Rule presets modelled on common funded-account programs (check your firm's current terms)
+ */
+export const PROP_FIRM_PRESETS: Record<string, PropFirmRules> = {
+  /** FTMO-style funded account: news and weekend restrictions */
+  'FTMO': {
+    preset: 'FTMO',
+    maxDailyLossPercent: 5,
+    maxLossPercent: 10,
+    minTradingDays: 4,
+    newsBlackoutMinutes: 2,
+    maxOpenLots: 0,
+    noWeekendHolding: true,
+  },
+  /** FTMO-style swing account: news trading and weekend holding allowed */
+  'FTMO_SWING': {
+    preset: 'FTMO_SWING',
+    maxDailyLossPercent: 5,
+    maxLossPercent: 10,
+    minTradingDays: 4,
+    newsBlackoutMinutes: 0,
+    maxOpenLots: 0,
+    noWeekendHolding: false,
+  },
+  /** Tighter limits for firms with lower drawdown allowances and lot caps */
+  'STRICT': {
+    preset: 'STRICT',
+    maxDailyLossPercent: 4,
+    maxLossPercent: 8,
+    minTradingDays: 5,
+    newsBlackoutMinutes: 5,
+    maxOpenLots: 5,
+    noWeekendHolding: true,
+  },
+};
+
 export interface BotConfig {
   symbols: string[];
   riskPercent: number;
@@ -447,7 +905,10 @@ export interface BotConfig {
   };
   /** Selected strategy profile name */
   strategyProfile?: string;
-  /** Whether live trading is enabled (false = paper mode) */
+  /**
+   * Whether live trading is enabled. Only a label: with false the bot still trades the
+   * broker account; paper trading runs scripts/paper-trade.ts on a SimulatedBroker.
+   */
   liveTrading?: boolean;
   /** Use kill zones filter */
   useKillZones?: boolean;
@@ -470,6 +931,16 @@ export interface BotConfig {
   /** Whether automated SMC signal analysis and execution is enabled (default: true).
    *  When false, the bot still runs for position monitoring, BE, tiered TP, and Telegram trade execution. */
   autoTrading?: boolean;
+  /** Correlated exposure limits */
+  portfolioRisk?: PortfolioRiskConfig;
+  /** Account-level equity drawdown limits */
+  circuitBreaker?: EquityCircuitBreakerConfig;
+  /** Funded-account challenge rules */
+  propFirm?: PropFirmConfig;
+  /** Position sizing mode; symbolSettings[].sizing overrides it per symbol */
+  sizing?: PositionSizingConfig;
+  /** Margin, stops level, volume, market hours and spread checks before each order */
+  preflight?: OrderPreflightConfig;
 }
 
 export const DEFAULT_BOT_CONFIG: BotConfig = {
@@ -483,7 +954,7 @@ export const DEFAULT_BOT_CONFIG: BotConfig = {
   maxTradesPerSymbol: 1,
   // Updated Feb 2026: align with backtest-optimal profiles
   strategyProfile: 'BTC_OPTIMAL',
-  liveTrading: false, // Paper mode by default
+  liveTrading: false, // Label only - orders still go to the broker account
   useKillZones: false, // All-session outperforms KZ in backtests
   killZones: ['LONDON_OPEN', 'NY_OPEN', 'LONDON_NY_OVERLAP'],
   riskReward: 2,
@@ -508,6 +979,62 @@ export const DEFAULT_BOT_CONFIG: BotConfig = {
     moveSlOnTP2: true,
   },
   autoTrading: true,
+  // Metals and crypto each move as one bet: cap them together
+  portfolioRisk: {
+    enabled: true,
+    correlationTimeframe: 'H1',
+    correlationLookback: 500,
+    correlationThreshold: 0.7,
+    minOverlap: 100,
+    staticBuckets: [['XAU', 'XAG'], ['BTC', 'ETH']],
+    maxBucketRiskPercent: 1,
+    maxBucketR: 2,
+    maxDirectionRiskPercent: 2,
+    maxDirectionR: 4,
+  },
+  // Prop-firm style equity limits; floating losses count
+  circuitBreaker: {
+    enabled: true,
+    maxDailyDrawdownPercent: 5,
+    maxWeeklyDrawdownPercent: 8,
+    maxTrailingDrawdownPercent: 10,
+    flattenOnBreach: false,
+    dayStartHourUtc: 0,
+  },
+  // Off unless the account is on a challenge; set initialBalance when enabling
+  propFirm: {
+    enabled: false,
+    ...PROP_FIRM_PRESETS['FTMO'],
+    initialBalance: 0,
+    serverTimezone: 'NY_CLOSE',
+    safetyBufferPercent: 0.5,
+    weekendCutoffMinutes: 60,
+  },
+  // Fixed riskPercent; the other modes' settings apply when a profile selects them
+  sizing: {
+    mode: 'FIXED',
+    atrPeriod: 14,
+    atrLookback: 100,
+    kellyFraction: 0.25,
+    kellyLookback: 50,
+    kellyMinTrades: 20,
+    equityDrawdownPercent: 5,
+    equityReduceFactor: 0.5,
+    streakStep: 0.25,
+    maxStreakSteps: 3,
+    minRiskMultiplier: 0.25,
+    maxRiskMultiplier: 2,
+  },
+  // Keep a 300% margin level after entry; spreads past 3x typical wait for the market to settle
+  preflight: {
+    enabled: true,
+    minMarginLevelPercent: 300,
+    downsizeOnMargin: true,
+    maxSpreadMultiplier: 3,
+    maxSpread: {},
+    deferMinutes: 15,
+    serverTimezone: 'NY_CLOSE',
+  },
 };
 
 // MetaAPI timeframe mapping
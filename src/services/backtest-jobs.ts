@@ -0,0 +1,147 @@
+import { v4 as uuidv4 } from 'uuid';
+import { BacktestConfig, Candle, Tick, Timeframe } from '@/lib/types';
+import { runBacktest, BacktestProgress } from '@/lib/backtest/engine';
+import { backtestStore } from '@/lib/backtest/backtest-store';
+import { symbolSpecStore } from '@/lib/backtest/symbol-spec-store';
+import { activeBroker } from '@/lib/broker/active';
+import { BrokerAdapter } from '@/lib/broker/types';
+import { BROKER_ALIGNMENT, ticksToCandles } from '@/lib/history/resample';
+
+export type BacktestJobStatus = 'PENDING' | 'RUNNING' | 'COMPLETED' | 'FAILED';
+
+export interface BacktestJob {
+  /** Also the BacktestResult id once the run is stored */
+  id: string;
+  status: BacktestJobStatus;
+  config: BacktestConfig;
+  progress: BacktestProgress | null;
+  error: string | null;
+  createdAt: Date;
+  startedAt: Date | null;
+  completedAt: Date | null;
+}
+
+// Finished jobs kept for polling; their results live in the database
+const MAX_FINISHED_JOBS = 50;
+
+/**
+ * Runs backtests in the server process, one at a time.
+ * Progress is kept in memory for polling, finished runs are saved by backtestStore.
+ */
+class BacktestJobManager {
+  private jobs: Map<string, BacktestJob> = new Map();
+  private broker: BrokerAdapter;
+
+  constructor(broker: BrokerAdapter = activeBroker) {
+    this.broker = broker;
+  }
+
+  /**
+   * The job currently loading data or simulating, if any
+   */
+  getActive(): BacktestJob | undefined {
+    return Array.from(this.jobs.values()).find((job) => job.status === 'PENDING' || job.status === 'RUNNING');
+  }
+
+  get(id: string): BacktestJob | undefined {
+    return this.jobs.get(id);
+  }
+
+  list(): BacktestJob[] {
+    return Array.from(this.jobs.values()).sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  /**
+   * Queue a backtest - throws when another one is still running
+   */
+  start(config: BacktestConfig): BacktestJob {
+    const active = this.getActive();
+    if (active) {
+      throw new Error(`Backtest ${active.id} is already running`);
+    }
+
+    const job: BacktestJob = {
+      id: uuidv4(),
+      status: 'PENDING',
+      config,
+      progress: null,
+      error: null,
+      createdAt: new Date(),
+      startedAt: null,
+      completedAt: null,
+    };
+    this.jobs.set(job.id, job);
+    this.pruneFinished();
+
+    // Run in the background - callers poll get()
+    this.run(job).catch((error) => {
+      console.error(`[BacktestJobs] Job ${job.id} crashed:`, error);
+    });
+    return job;
+  }
+
+  private async run(job: BacktestJob): Promise<void> {
+    const { config } = job;
+    try {
+      job.status = 'RUNNING';
+      job.startedAt = new Date();
+      console.log(`[BacktestJobs] Starting ${job.id}: ${config.strategy} on ${config.symbol}`);
+
+      await this.broker.connectAccountOnly();
+      try {
+        await symbolSpecStore.load([config.symbol]);
+      } catch (error) {
+        console.warn('[BacktestJobs] Could not load symbol specs from database:', error);
+      }
+
+      let ticks: Tick[] | undefined;
+      let htfCandles: Candle[];
+      let mtfCandles: Candle[];
+      let ltfCandles: Candle[];
+      if (config.useTickData) {
+        // Candles come from the same stored ticks the fills are simulated on
+        ticks = await this.broker.getHistoricalTicksCached(config.symbol, config.startDate, config.endDate);
+        if (ticks.length === 0) {
+          throw new Error(`No tick data for ${config.symbol} in the requested range`);
+        }
+        htfCandles = ticksToCandles(ticks, 'H4', BROKER_ALIGNMENT);
+        mtfCandles = ticksToCandles(ticks, 'H1', BROKER_ALIGNMENT);
+        ltfCandles = ticksToCandles(ticks, 'M15', BROKER_ALIGNMENT);
+      } else {
+        htfCandles = await this.broker.getHistoricalCandlesCached(config.symbol, 'H4' as Timeframe, config.startDate, config.endDate);
+        mtfCandles = await this.broker.getHistoricalCandlesCached(config.symbol, 'H1' as Timeframe, config.startDate, config.endDate);
+        ltfCandles = await this.broker.getHistoricalCandlesCached(config.symbol, 'M15' as Timeframe, config.startDate, config.endDate);
+      }
+
+      const result = await runBacktest(config, htfCandles, mtfCandles, ltfCandles, ticks, (progress) => {
+        job.progress = progress;
+      });
+
+      await backtestStore.save(result, {
+        id: job.id,
+        durationMs: Date.now() - job.startedAt.getTime(),
+      });
+      job.status = 'COMPLETED';
+      console.log(`[BacktestJobs] Completed ${job.id}: ${result.metrics.totalTrades} trades, PnL ${result.metrics.totalPnl.toFixed(2)}`);
+    } catch (error) {
+      job.status = 'FAILED';
+      job.error = error instanceof Error ? error.message : String(error);
+      console.error(`[BacktestJobs] Job ${job.id} failed:`, job.error);
+    } finally {
+      job.completedAt = new Date();
+    }
+  }
+
+  private pruneFinished(): void {
+    const finished = this.list().filter((job) => job.status === 'COMPLETED' || job.status === 'FAILED');
+    for (const job of finished.slice(MAX_FINISHED_JOBS)) {
+      this.jobs.delete(job.id);
+    }
+  }
+}
+
+// Survive Next.js dev hot reloads so running jobs stay pollable
+const globalForJobs = globalThis as unknown as { backtestJobs: BacktestJobManager | undefined };
+
+export const backtestJobs = globalForJobs.backtestJobs ?? new BacktestJobManager();
+globalForJobs.backtestJobs = backtestJobs;
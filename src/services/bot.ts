@@ -1,4 +1,5 @@
-import { metaApiClient, MarketDataSubscription } from '../lib/metaapi/client';
+import { activeBroker } from '../lib/broker/active';
+import { BrokerAdapter, MarketDataSubscription } from '../lib/broker/types';
 import { prisma } from '../lib/db';
 import {
   Candle,
@@ -14,12 +15,17 @@ import {
   TieredTPConfig,
   TIERED_TP_PROFILES,
 } from '../lib/types';
-import { performMTFAnalysis } from '../lib/analysis/multi-timeframe';
+import { IncrementalMTFAnalyzer } from '../lib/analysis/incremental';
 import { runAllStrategies, StrategyContext } from '../lib/strategies';
 import { calculatePositionSize } from '../lib/risk/position-sizing';
 import { tradeManager } from '../lib/risk/trade-manager';
 import { BreakevenManager } from '../lib/risk/breakeven-manager';
 import { TieredTPManager } from '../lib/risk/tiered-tp-manager';
+import { PortfolioRiskEngine, DEFAULT_PORTFOLIO_RISK_CONFIG } from '../lib/risk/portfolio-risk';
+import { equityCircuitBreaker, DEFAULT_CIRCUIT_BREAKER_CONFIG } from '../lib/risk/equity-circuit-breaker';
+import { propFirmRules, PropFirmEvaluation } from '../lib/risk/prop-firm-rules';
+import { resolveSizingConfig, resolveRiskPercent, loadSizingHistory } from '../lib/risk/sizing-modes';
+import { orderPreflight } from '../lib/risk/order-preflight';
 import { analysisStore } from './analysis-store';
 import { telegramNotifier } from './telegram';
 import { analysisScheduler } from './analysis-scheduler';
@@ -29,10 +35,10 @@ import { telegramTradeExecutor } from './telegram-trade-executor';
 import { telegramTPMonitor } from './telegram-tp-monitor';
 import { v4 as uuidv4 } from 'uuid';
 import {
-  TradingBotSyncListener,
   SymbolPrice,
   CandleUpdate,
   PositionUpdate,
+  AccountInfoUpdate,
 } from '../lib/metaapi/sync-listener';
 import {
   getSymbolTimeframes,
@@ -49,15 +55,20 @@ export class TradingBot {
   private static instance: TradingBot;
   private isRunning = false;
   private config: BotConfig;
+  private broker: BrokerAdapter;
   private heartbeatInterval: NodeJS.Timeout | null = null;
   private lastAnalysisTime: Map<string, number> = new Map();
-  private syncListener: TradingBotSyncListener | null = null;
+  private analyzers: Map<string, IncrementalMTFAnalyzer> = new Map(); // symbol -> cached HTF/MTF analysis
+  private removeEventListener: (() => void) | null = null;
   private latestPrices: Map<string, SymbolPrice> = new Map();
   private candleBuffers: Map<string, Map<string, Candle[]>> = new Map(); // symbol -> timeframe -> candles
   private lastKnownPositions: Map<string, PositionUpdate> = new Map(); // positionId -> last known state
   private notifiedClosePositions: Set<string> = new Set(); // dedup close notifications
   private breakevenManager: BreakevenManager;
   private tieredTPManager: TieredTPManager;
+  private portfolioRisk: PortfolioRiskEngine;
+  // Signals the order pre-flight held back (market closed, spread too wide), retried on the heartbeat
+  private deferredSignals: Map<string, { signal: Signal; mtfCandles: Candle[]; until: Date; reason: string }> = new Map();
   private heartbeatCount = 0;
   private pauseStateCache: { isPaused: boolean; reason: string | null; checkedAt: number } = {
     isPaused: false,
@@ -65,28 +76,46 @@ export class TradingBot {
     checkedAt: 0,
   };
 
-  private constructor(config?: Partial<BotConfig>) {
+  private constructor(config?: Partial<BotConfig>, broker: BrokerAdapter = activeBroker) {
     this.config = { ...DEFAULT_BOT_CONFIG, ...config };
+    this.broker = broker;
     // Initialize breakeven manager with config
     const beConfig: BreakevenConfig = this.config.breakeven || {
       enabled: true,
       triggerR: 1.0,
       bufferPips: 5,
     };
-    this.breakevenManager = new BreakevenManager(beConfig);
+    this.breakevenManager = new BreakevenManager(beConfig, broker);
 
     // Initialize tiered TP manager with config
     const tieredConfig: TieredTPConfig = this.config.tieredTP || TIERED_TP_PROFILES['RUNNER'];
-    this.tieredTPManager = new TieredTPManager(tieredConfig);
+    this.tieredTPManager = new TieredTPManager(tieredConfig, broker);
+
+    // Initialize portfolio risk engine with config; correlations come from broker candles
+    // (cached), since the live bot never fills the backtest candle cache
+    this.portfolioRisk = new PortfolioRiskEngine(
+      this.config.portfolioRisk || DEFAULT_PORTFOLIO_RISK_CONFIG,
+      (symbol, timeframe, start, end) => this.broker.getHistoricalCandlesCached(symbol, timeframe, start, end)
+    );
+
+    // Apply the configured drawdown limits to the shared equity circuit breaker
+    equityCircuitBreaker.updateConfig(this.config.circuitBreaker || DEFAULT_CIRCUIT_BREAKER_CONFIG);
   }
 
-  static getInstance(config?: Partial<BotConfig>): TradingBot {
+  static getInstance(config?: Partial<BotConfig>, broker?: BrokerAdapter): TradingBot {
     if (!TradingBot.instance) {
-      TradingBot.instance = new TradingBot(config);
+      TradingBot.instance = new TradingBot(config, broker);
     }
     return TradingBot.instance;
   }
 
+  /**
+   * A bot outside the app singleton, e.g. paper trading on a SimulatedBroker
+   */
+  static create(config?: Partial<BotConfig>, broker?: BrokerAdapter): TradingBot {
+    return new TradingBot(config, broker);
+  }
+
   async start(): Promise<void> {
     if (this.isRunning) {
       console.log('Bot is already running');
@@ -109,6 +138,8 @@ export class TradingBot {
     } catch (err) {
       console.error('[Bot] Failed to restore config from DB:', err);
     }
+    // Prop-firm rules restore themselves from the same row on first use
+    this.config.propFirm = await propFirmRules.loadConfig();
 
     // Initialize Telegram notifications
     telegramNotifier.initialize();
@@ -127,8 +158,8 @@ export class TradingBot {
     }
 
     try {
-      // Connect to MetaAPI
-      await metaApiClient.connect();
+      // Connect to the broker
+      await this.broker.connect();
 
       // Sync historical trades from MT5 to ensure all past trades are known
       const historicalDeals = await this.syncHistoricalTradesOnStartup();
@@ -172,7 +203,7 @@ export class TradingBot {
       const startTime = new Date();
       startTime.setDate(startTime.getDate() - 30);
 
-      const deals = await metaApiClient.getHistoricalDeals(startTime, endTime);
+      const deals = await this.broker.getHistoricalDeals(startTime, endTime);
       console.log(`[Bot] Found ${deals.length} historical deals from MT5`);
 
       if (deals.length > 0) {
@@ -203,7 +234,7 @@ export class TradingBot {
 
     try {
       // Get current positions from MT5 (already converted to our Position type)
-      const positions = await metaApiClient.getPositions();
+      const positions = await this.broker.getPositions();
       console.log(`[Bot] Found ${positions.length} open positions on MT5`);
 
       // Sync with trade manager (pass historical deals for close data recovery)
@@ -218,7 +249,7 @@ export class TradingBot {
       // Backfill any remaining closed trades with missing close data
       // Use ALL deals from history storage (not just 30-day window) for complete coverage
       try {
-        const allDeals = await metaApiClient.getAllDeals();
+        const allDeals = await this.broker.getAllDeals();
         if (allDeals.length > 0) {
           const backfilled = await tradeManager.backfillMissingCloseData(allDeals);
           if (backfilled > 0) {
@@ -297,16 +328,15 @@ export class TradingBot {
    * Set up the synchronization listener for real-time events
    */
   private async setupEventListener(): Promise<void> {
-    this.syncListener = new TradingBotSyncListener({
+    this.removeEventListener = this.broker.addEventListener({
       onPriceUpdate: (symbol, price) => this.handlePriceUpdate(symbol, price),
       onCandleUpdate: (candles) => this.handleCandleUpdate(candles),
       onPositionUpdate: (positions, removedIds) => this.handlePositionUpdate(positions, removedIds),
-      onConnected: () => console.log('[Bot] MetaAPI connected'),
-      onDisconnected: () => console.log('[Bot] MetaAPI disconnected'),
+      onAccountUpdate: (accountInfo) => this.handleAccountUpdate(accountInfo),
+      onConnected: () => console.log(`[Bot] ${this.broker.name} connected`),
+      onDisconnected: () => console.log(`[Bot] ${this.broker.name} disconnected`),
       onRateLimitWarning: (symbol, message) => console.warn(`[Bot] Rate limit warning: ${symbol} - ${message}`),
     });
-
-    metaApiClient.addSynchronizationListener(this.syncListener);
     console.log('[Bot] Event listener set up');
   }
 
@@ -326,7 +356,7 @@ export class TradingBot {
       ];
 
       try {
-        await metaApiClient.subscribeToMarketData(symbol, subscriptions);
+        await this.broker.subscribeToMarketData(symbol, subscriptions);
         console.log(`[Bot] Subscribed to market data for ${symbol} (LTF: ${symbolTf.ltf})`);
       } catch (error) {
         console.error(`[Bot] Failed to subscribe to ${symbol}:`, error);
@@ -400,16 +430,16 @@ export class TradingBot {
             removedId,
             lastKnown.currentPrice,
             lastKnown.profit,
-            new Date()
+            this.broker.now()
           );
         } else {
           // Fallback: look up exit deal from history storage when lastKnown data is incomplete
           console.log(`[Bot] Position ${removedId} missing price/profit, looking up exit deal...`);
           try {
-            const posDeals = metaApiClient.getDealsByPosition(removedId);
+            const posDeals = this.broker.getDealsByPosition(removedId);
             const exitDeal = posDeals.find((d: any) => d.entryType === 'DEAL_ENTRY_OUT');
             if (exitDeal) {
-              const closePrice = exitDeal.price;
+              const closePrice = exitDeal.price!;
               const profit = exitDeal.profit || 0;
               console.log(`[Bot] Found exit deal for ${removedId}: @ ${closePrice}, Profit: $${profit.toFixed(2)}`);
               await tradeManager.closeTradeFromBroker(removedId, closePrice, profit, new Date(exitDeal.time));
@@ -420,7 +450,7 @@ export class TradingBot {
                 removedId,
                 lastKnown.currentPrice || lastKnown.openPrice,
                 lastKnown.profit || 0,
-                new Date()
+                this.broker.now()
               );
             }
           } catch (dealError) {
@@ -430,7 +460,7 @@ export class TradingBot {
               removedId,
               lastKnown.currentPrice || lastKnown.openPrice,
               lastKnown.profit || 0,
-              new Date()
+              this.broker.now()
             );
           }
         }
@@ -517,6 +547,51 @@ export class TradingBot {
     await tradeManager.syncWithBrokerPositions(convertedPositions);
   }
 
+  /**
+   * Handle account updates (pushed by the broker): feed equity to the circuit breaker
+   */
+  private async handleAccountUpdate(accountInfo: AccountInfoUpdate): Promise<void> {
+    try {
+      const breach = await equityCircuitBreaker.update(accountInfo, this.broker.now());
+      if (breach) {
+        await this.onCircuitBreakerTripped();
+      }
+    } catch (error) {
+      console.error('[Bot] Error handling account update:', error);
+    }
+  }
+
+  /**
+   * A drawdown limit was breached: optionally flatten the account and notify
+   */
+  private async onCircuitBreakerTripped(): Promise<void> {
+    const state = await equityCircuitBreaker.getState();
+    const reason = state?.lockReason || 'drawdown limit reached';
+
+    let closed = 0;
+    if (this.config.circuitBreaker?.flattenOnBreach) {
+      const positions = await this.broker.getPositions();
+      for (const position of positions) {
+        try {
+          await this.broker.closePosition(position.id);
+          closed++;
+        } catch (error) {
+          console.error(`[Bot] Circuit breaker failed to close ${position.id}:`, error);
+        }
+      }
+      console.log(`[Bot] Circuit breaker flattened ${closed}/${positions.length} positions`);
+    }
+
+    if (telegramNotifier.isEnabled()) {
+      const flattened = this.config.circuitBreaker?.flattenOnBreach
+        ? `\nClosed positions: ${closed}`
+        : '';
+      await telegramNotifier.sendMessage(
+        `🛑 <b>Circuit Breaker Tripped</b>\n\nReason: ${reason}${flattened}\n\n<i>No new trades will be opened while the lock holds.</i>`
+      );
+    }
+  }
+
   /**
    * Start heartbeat for maintenance tasks (signal expiration, health checks)
    * This runs less frequently since data is pushed to us
@@ -529,9 +604,19 @@ export class TradingBot {
       try {
         await this.updateBotState(true);
 
+        // Poll equity for the circuit breaker (not every broker pushes account updates)
+        if (equityCircuitBreaker.isEnabled()) {
+          await this.broker.getAccountInfo()
+            .then((accountInfo) => this.handleAccountUpdate(accountInfo))
+            .catch((err) => console.error('[Bot] Failed to poll account for circuit breaker:', err));
+        }
+
         // Expire old signals
         await tradeManager.expireOldSignals();
 
+        // Retry signals the order pre-flight deferred
+        await this.retryDeferredSignals();
+
         // Periodic cleanup of close notification dedup set (keeps last 5 min)
         // Safe to clear since MetaAPI won't re-send removals after this long
         this.heartbeatCount++;
@@ -593,16 +678,16 @@ export class TradingBot {
     // Unsubscribe from market data
     for (const symbol of this.config.symbols) {
       try {
-        await metaApiClient.unsubscribeFromMarketData(symbol);
+        await this.broker.unsubscribeFromMarketData(symbol);
       } catch (error) {
         console.error(`Failed to unsubscribe from ${symbol}:`, error);
       }
     }
 
     // Remove synchronization listener
-    if (this.syncListener) {
-      metaApiClient.removeSynchronizationListener(this.syncListener);
-      this.syncListener = null;
+    if (this.removeEventListener) {
+      this.removeEventListener();
+      this.removeEventListener = null;
     }
 
     // Clear local state
@@ -724,13 +809,15 @@ export class TradingBot {
   private async analyzeSymbol(symbol: string): Promise<void> {
     try {
       // Rate limit analysis per symbol (minimum 30 seconds between analysis)
+      // Broker clock, so replays on a simulated broker are limited in replay time
+      const now = this.broker.now().getTime();
       const lastTime = this.lastAnalysisTime.get(symbol) || 0;
-      const elapsed = Date.now() - lastTime;
+      const elapsed = now - lastTime;
       if (elapsed < 30000) {
         console.log(`[Bot] Skipping ${symbol} analysis (${Math.round(elapsed / 1000)}s since last, need 30s)`);
         return;
       }
-      this.lastAnalysisTime.set(symbol, Date.now());
+      this.lastAnalysisTime.set(symbol, now);
 
       console.log(`[Bot] Analyzing ${symbol}...`);
 
@@ -744,9 +831,9 @@ export class TradingBot {
       // Fetch candle data for all timeframes sequentially
       // MetaAPI limits to 5 concurrent requests per account — parallel fetches
       // across multiple symbols easily exceed that, causing 429 errors.
-      const htfCandles = await metaApiClient.getCandles(symbol, htfTimeframe, 200);
-      const mtfCandles = await metaApiClient.getCandles(symbol, mtfTimeframe, 300);
-      const ltfCandles = await metaApiClient.getCandles(symbol, ltfTimeframe, 200);
+      const htfCandles = await this.broker.getCandles(symbol, htfTimeframe, 200);
+      const mtfCandles = await this.broker.getCandles(symbol, mtfTimeframe, 300);
+      const ltfCandles = await this.broker.getCandles(symbol, ltfTimeframe, 200);
 
       if (!htfCandles.length || !mtfCandles.length || !ltfCandles.length) {
         console.log(`[Bot] Insufficient data for ${symbol}`);
@@ -759,17 +846,21 @@ export class TradingBot {
       if (cachedPrice) {
         price = { bid: cachedPrice.bid, ask: cachedPrice.ask };
       } else {
-        price = await metaApiClient.getCurrentPrice(symbol);
+        price = await this.broker.getCurrentPrice(symbol);
       }
 
-      // Perform MTF analysis
-      const analysis = performMTFAnalysis(
+      // Perform MTF analysis - HTF/MTF results are reused until their candles change
+      let analyzer = this.analyzers.get(symbol);
+      if (!analyzer) {
+        analyzer = new IncrementalMTFAnalyzer(symbol);
+        this.analyzers.set(symbol, analyzer);
+      }
+      const analysis = analyzer.analyze(
         {
           htfCandles,
           mtfCandles,
           ltfCandles,
         },
-        symbol,
         htfTimeframe,
         mtfTimeframe,
         ltfTimeframe
@@ -825,7 +916,7 @@ export class TradingBot {
           console.log(`[Bot] Signal for ${symbol} suppressed (trading paused: ${pauseState.reason || 'no reason'})`);
         } else {
           console.log(`[Bot] Signal generated for ${symbol}: ${signal.direction} via ${signal.strategy}`);
-          await this.processSignal(signal, price.bid, price.ask);
+          await this.processSignal(signal, price.bid, price.ask, mtfCandles);
         }
       }
 
@@ -834,10 +925,32 @@ export class TradingBot {
     }
   }
 
+  /**
+   * Re-run signals the order pre-flight deferred, rejecting those deferred past their deadline
+   */
+  private async retryDeferredSignals(): Promise<void> {
+    const now = this.broker.now();
+    for (const [id, deferred] of Array.from(this.deferredSignals)) {
+      if (now >= deferred.until) {
+        this.deferredSignals.delete(id);
+        console.log(`[Bot] Deferred signal ${id} expired: ${deferred.reason}`);
+        await tradeManager.updateSignalStatus(id, 'REJECTED', `Deferred until ${deferred.until.toISOString()}: ${deferred.reason}`);
+        continue;
+      }
+      try {
+        const { bid, ask } = await this.broker.getCurrentPrice(deferred.signal.symbol);
+        await this.processSignal(deferred.signal, bid, ask, deferred.mtfCandles);
+      } catch (error) {
+        console.error(`[Bot] Error retrying deferred signal ${id}:`, error);
+      }
+    }
+  }
+
   private async processSignal(
     signal: Signal,
     bid: number,
-    ask: number
+    ask: number,
+    mtfCandles: Candle[] = []
   ): Promise<void> {
     try {
       // Gate on autoTrading config — when disabled, skip signal processing
@@ -847,11 +960,24 @@ export class TradingBot {
         return;
       }
 
-      // Record the signal
-      await tradeManager.recordSignal(signal);
+      // Record the signal (a deferred signal being retried is already recorded)
+      const deferred = this.deferredSignals.get(signal.id);
+      this.deferredSignals.delete(signal.id);
+      if (!deferred) {
+        await tradeManager.recordSignal(signal);
+      }
+
+      // Equity drawdown limits lock the whole account
+      const breakerState = await equityCircuitBreaker.check(this.broker.now());
+      if (breakerState.locked) {
+        const reason = `Circuit breaker: ${breakerState.reason || 'drawdown limit reached'}`;
+        console.log(`Signal rejected: ${reason}`);
+        await tradeManager.updateSignalStatus(signal.id, 'REJECTED', reason);
+        return;
+      }
 
       // Get current positions
-      const positions = await metaApiClient.getPositions();
+      const positions = await this.broker.getPositions();
 
       // Check if we can open a trade
       const canOpen = await tradeManager.canOpenTrade(
@@ -867,8 +993,8 @@ export class TradingBot {
       }
 
       // Get account info for position sizing
-      const accountInfo = await metaApiClient.getAccountInfo();
-      const symbolInfo = await metaApiClient.getSymbolInfo(signal.symbol);
+      const accountInfo = await this.broker.getAccountInfo();
+      const symbolInfo = await this.broker.getSymbolInfo(signal.symbol);
 
       // Validate minimum stop loss distance (prevents being stopped by spread/noise)
       const tradingLimits = SYMBOL_TRADING_LIMITS[signal.symbol];
@@ -883,10 +1009,24 @@ export class TradingBot {
         }
       }
 
+      // Risk for this trade from the sizing mode (profile settings, symbol overrides on top)
+      const sizingConfig = resolveSizingConfig(
+        this.config.sizing,
+        this.config.symbolSettings?.find((s) => s.symbol === signal.symbol)?.sizing
+      );
+      const sizingHistory = await loadSizingHistory(sizingConfig, signal.strategy, signal.symbol, accountInfo.balance);
+      const sizing = resolveRiskPercent(this.config.riskPercent, sizingConfig, {
+        candles: mtfCandles,
+        ...sizingHistory,
+      });
+      if (sizing.mode !== 'FIXED') {
+        console.log(`[Bot] Sizing ${sizing.mode}: ${sizing.riskPercent.toFixed(2)}% risk (${sizing.multiplier.toFixed(2)}x, ${sizing.reason})`);
+      }
+
       // Calculate position size
       const positionInfo = calculatePositionSize(
         accountInfo.balance,
-        this.config.riskPercent,
+        sizing.riskPercent,
         signal.entryPrice,
         signal.stopLoss,
         symbolInfo
@@ -903,11 +1043,77 @@ export class TradingBot {
         return;
       }
 
+      // Correlated exposure: don't stack the same bet across symbols
+      const portfolioCheck = await this.portfolioRisk.checkTrade(
+        { symbol: signal.symbol, direction: signal.direction, riskAmount: positionInfo.riskAmount },
+        positions,
+        accountInfo.balance,
+        this.config.riskPercent,
+        (symbol) => this.broker.getSymbolInfo(symbol),
+        this.broker.now()
+      );
+      if (!portfolioCheck.allowed && portfolioCheck.rejection) {
+        console.log(`Signal rejected: ${portfolioCheck.rejection.message}`);
+        await tradeManager.updateSignalStatus(
+          signal.id,
+          'REJECTED',
+          portfolioCheck.rejection.message,
+          portfolioCheck.rejection
+        );
+        return;
+      }
+
+      // Funded-account challenge rules
+      const ruleCheck = await propFirmRules.checkOrder(
+        this.broker,
+        {
+          symbol: signal.symbol,
+          direction: signal.direction,
+          lots: positionInfo.lotSize,
+          riskAmount: positionInfo.riskAmount,
+        },
+        this.broker.now()
+      );
+      if (!ruleCheck.allowed && ruleCheck.violation) {
+        console.log(`Signal rejected: ${ruleCheck.violation.message}`);
+        await tradeManager.updateSignalStatus(signal.id, 'REJECTED', ruleCheck.violation.message);
+        return;
+      }
+
+      // Broker-side checks the order would otherwise fail on after the signal was accepted
+      const preflight = await orderPreflight.check(
+        this.broker,
+        {
+          symbol: signal.symbol,
+          direction: signal.direction,
+          lots: positionInfo.lotSize,
+          stopLoss: signal.stopLoss,
+          takeProfit: signal.takeProfit,
+        },
+        this.broker.now()
+      );
+      if (preflight.action === 'DEFER') {
+        const now = this.broker.now();
+        let until = deferred?.until ?? new Date(now.getTime() + orderPreflight.getConfig().deferMinutes * 60 * 1000);
+        if (signal.expiresAt && signal.expiresAt < until) until = signal.expiresAt;
+        this.deferredSignals.set(signal.id, { signal, mtfCandles, until, reason: preflight.reason! });
+        console.log(`Signal deferred until ${until.toISOString()}: ${preflight.reason}`);
+        await tradeManager.updateSignalStatus(signal.id, 'PENDING', `Deferred: ${preflight.reason}`);
+        return;
+      }
+      if (preflight.action === 'REJECT') {
+        console.log(`Signal rejected: ${preflight.reason}`);
+        await tradeManager.updateSignalStatus(signal.id, 'REJECTED', preflight.reason);
+        return;
+      }
+      const lotSize = preflight.lots;
+      const riskAmount = positionInfo.riskAmount * (lotSize / positionInfo.lotSize);
+
       // Execute the trade
-      const orderResult = await metaApiClient.placeMarketOrder(
+      const orderResult = await this.broker.placeMarketOrder(
         signal.symbol,
         signal.direction,
-        positionInfo.lotSize,
+        lotSize,
         signal.stopLoss,
         signal.takeProfit,
         `SMC ${signal.strategy}`
@@ -924,12 +1130,12 @@ export class TradingBot {
         entryPrice: signal.direction === 'BUY' ? ask : bid,
         stopLoss: signal.stopLoss,
         takeProfit: signal.takeProfit,
-        lotSize: positionInfo.lotSize,
-        openTime: new Date(),
+        lotSize,
+        openTime: this.broker.now(),
         status: 'OPEN',
         mt5OrderId: orderResult.orderId,
         mt5PositionId: orderResult.positionId,
-        riskAmount: positionInfo.riskAmount,
+        riskAmount,
         riskRewardRatio: Math.abs(signal.takeProfit - signal.entryPrice) /
                          Math.abs(signal.entryPrice - signal.stopLoss),
       };
@@ -945,7 +1151,7 @@ export class TradingBot {
           signal.direction,
           trade.entryPrice,
           signal.stopLoss,
-          positionInfo.lotSize
+          lotSize
         );
         console.log(`[Bot] Tiered TP initialized for position ${orderResult.positionId}`);
       }
@@ -1005,8 +1211,8 @@ export class TradingBot {
   async getClosedTradesFromDeals(limit: number = 50, offset: number = 0, symbolFilter?: string): Promise<{ trades: any[]; total: number }> {
     // Fetch ALL deals (includes balance operations) and trading deals separately
     const [allDeals, tradingDeals] = await Promise.all([
-      metaApiClient.getAllDeals(),
-      metaApiClient.getHistoricalDeals(),
+      this.broker.getAllDeals(),
+      this.broker.getHistoricalDeals(),
     ]);
 
     // --- Build closed trades from trading deals ---
@@ -1147,7 +1353,7 @@ export class TradingBot {
    * Returns deposits, withdrawals, swap, commission, trading profit
    */
   async getAccountSummary() {
-    return metaApiClient.getAccountDealsSummary();
+    return this.broker.getAccountDealsSummary();
   }
 
   getStatus(): {
@@ -1179,10 +1385,42 @@ export class TradingBot {
     if (config.tieredTP) {
       this.tieredTPManager.updateConfig(config.tieredTP);
     }
+    // Update portfolio risk limits if config changed
+    if (config.portfolioRisk) {
+      this.portfolioRisk.updateConfig(config.portfolioRisk);
+    }
+    // Update equity drawdown limits if config changed
+    if (config.circuitBreaker) {
+      equityCircuitBreaker.updateConfig(config.circuitBreaker);
+    }
+    // Update prop-firm rules if config changed (partial updates keep the other rules)
+    if (config.propFirm) {
+      propFirmRules.updateConfig(config.propFirm);
+      this.config.propFirm = propFirmRules.getConfig();
+    }
+    // Update order pre-flight checks if config changed
+    if (config.preflight) {
+      orderPreflight.updateConfig(config.preflight);
+      this.config.preflight = orderPreflight.getConfig();
+    }
+  }
+
+  /**
+   * Headroom against each prop-firm rule, for the compliance panel
+   */
+  async getCompliance(): Promise<PropFirmEvaluation> {
+    return propFirmRules.getCompliance(this.broker);
+  }
+
+  /**
+   * Clear a circuit breaker lock and measure limits from current equity
+   */
+  async resetCircuitBreaker(): Promise<void> {
+    await equityCircuitBreaker.reset(this.broker.now());
   }
 
   async getAccountInfo() {
-    return metaApiClient.getAccountInfo();
+    return this.broker.getAccountInfo();
   }
 
   async getPositions(): Promise<Position[]> {
@@ -1204,7 +1442,7 @@ export class TradingBot {
         comment: pos.comment,
       }));
     }
-    return metaApiClient.getPositions();
+    return this.broker.getPositions();
   }
 }
 
@@ -14,7 +14,8 @@
  *   - Reactive fires first → calls markTPHitExternally() → monitor skips
  */
 
-import { metaApiClient } from '@/lib/metaapi/client';
+import { activeBroker } from '@/lib/broker/active';
+import { BrokerAdapter } from '@/lib/broker/types';
 import { prisma } from '@/lib/db';
 import { PositionUpdate } from '@/lib/metaapi/sync-listener';
 import { telegramNotifier } from './telegram';
@@ -53,6 +54,11 @@ export interface TelegramTPNotes {
 
 class TelegramTPMonitor {
   private positionStates: Map<string, TelegramTPState> = new Map();
+  private broker: BrokerAdapter;
+
+  constructor(broker: BrokerAdapter = activeBroker) {
+    this.broker = broker;
+  }
 
   /**
    * Register a new trade for proactive TP monitoring.
@@ -265,13 +271,13 @@ class TelegramTPMonitor {
     try {
       console.log(`[TelegramTP] TP1 hit: ${state.symbol} closing ${closeVolume} lots (${state.tp1Percent}%)`);
 
-      await metaApiClient.closePositionPartially(position.id, closeVolume);
+      await this.broker.closePositionPartially(position.id, closeVolume);
       state.tp1Hit = true;
 
       // Move SL to breakeven
       const beSL = this.computeBreakevenSL(state);
       try {
-        await metaApiClient.modifyPosition(position.id, beSL, undefined);
+        await this.broker.modifyPosition(position.id, beSL, undefined);
         await prisma.trade.update({
           where: { id: state.tradeId },
           data: { stopLoss: beSL },
@@ -295,12 +301,12 @@ class TelegramTPMonitor {
     try {
       console.log(`[TelegramTP] TP2 hit: ${state.symbol} closing ${closeVolume} lots (${state.tp2Percent}%)`);
 
-      await metaApiClient.closePositionPartially(position.id, closeVolume);
+      await this.broker.closePositionPartially(position.id, closeVolume);
       state.tp2Hit = true;
 
       // Move SL to TP1 level
       try {
-        await metaApiClient.modifyPosition(position.id, state.tp1Price, undefined);
+        await this.broker.modifyPosition(position.id, state.tp1Price, undefined);
         await prisma.trade.update({
           where: { id: state.tradeId },
           data: { stopLoss: state.tp1Price },
@@ -321,7 +327,7 @@ class TelegramTPMonitor {
     try {
       console.log(`[TelegramTP] TP3 hit: ${state.symbol} fully closing remaining position`);
 
-      await metaApiClient.closePosition(position.id);
+      await this.broker.closePosition(position.id);
       state.tp3Hit = true;
 
       await this.persistState(state);
@@ -346,7 +352,7 @@ class TelegramTPMonitor {
     percent: number,
     position: PositionUpdate,
   ): Promise<number | null> {
-    const symbolInfo = await metaApiClient.getSymbolInfo(state.symbol);
+    const symbolInfo = await this.broker.getSymbolInfo(state.symbol);
     const rawVolume = state.originalVolume * (percent / 100);
     let volume = Math.round(rawVolume / symbolInfo.volumeStep) * symbolInfo.volumeStep;
 
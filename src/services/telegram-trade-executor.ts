@@ -5,9 +5,13 @@
  */
 
 import { prisma } from '@/lib/db';
-import { metaApiClient } from '@/lib/metaapi/client';
+import { activeBroker } from '@/lib/broker/active';
+import { BrokerAdapter } from '@/lib/broker/types';
 import { calculatePositionSize } from '@/lib/risk/position-sizing';
 import { tradeManager } from '@/lib/risk/trade-manager';
+import { propFirmRules } from '@/lib/risk/prop-firm-rules';
+import { equityCircuitBreaker } from '@/lib/risk/equity-circuit-breaker';
+import { orderPreflight } from '@/lib/risk/order-preflight';
 import { telegramSignalAnalyzer, SignalAnalysis, SignalCategory } from './telegram-signal-analyzer';
 import { telegramNotifier } from './telegram';
 import { telegramTPMonitor, TelegramTPNotes } from './telegram-tp-monitor';
@@ -25,6 +29,11 @@ const DEFAULT_SL_DISTANCES: Record<string, number> = {
 
 class TelegramTradeExecutor {
   private enabled = false;
+  private broker: BrokerAdapter;
+
+  constructor(broker: BrokerAdapter = activeBroker) {
+    this.broker = broker;
+  }
 
   initialize(): void {
     this.enabled = true;
@@ -262,10 +271,17 @@ class TelegramTradeExecutor {
     }
 
     try {
+      // Equity drawdown limits lock the whole account (the bot feeds the breaker its equity)
+      const breakerState = await equityCircuitBreaker.check(this.broker.now());
+      if (breakerState.locked) {
+        await this.markSkipped(analysisId, `Circuit breaker: ${breakerState.reason || 'drawdown limit reached'}`);
+        return;
+      }
+
       // Get account info and symbol info
-      const accountInfo = await metaApiClient.getAccountInfo();
-      const symbolInfo = await metaApiClient.getSymbolInfo(analysis.symbol);
-      const price = await metaApiClient.getCurrentPrice(analysis.symbol);
+      const accountInfo = await this.broker.getAccountInfo();
+      const symbolInfo = await this.broker.getSymbolInfo(analysis.symbol);
+      const price = await this.broker.getCurrentPrice(analysis.symbol);
 
       const currentPrice = analysis.direction === 'BUY' ? price.ask : price.bid;
       const entryPrice = analysis.entryPrice || currentPrice;
@@ -295,18 +311,45 @@ class TelegramTradeExecutor {
         return;
       }
 
+      // Funded-account challenge rules
+      const ruleCheck = await propFirmRules.checkOrder(this.broker, {
+        symbol: analysis.symbol,
+        direction: analysis.direction,
+        lots: positionInfo.lotSize,
+        riskAmount: positionInfo.riskAmount,
+      });
+      if (!ruleCheck.allowed && ruleCheck.violation) {
+        await this.markSkipped(analysisId, ruleCheck.violation.message);
+        return;
+      }
+
       // Detect multi-TP signal: if tp2 or tp3 exists, skip native MT5 TP
       // so the position isn't fully closed at TP1 by the broker
       const isMultiTP = analysis.tp2 !== null || analysis.tp3 !== null;
       const nativeTP = isMultiTP ? undefined : (analysis.takeProfit || undefined);
 
-      console.log(`[TradeExecutor] Placing order: ${analysis.direction} ${analysis.symbol} ${positionInfo.lotSize} lots, SL: ${stopLoss}, TP: ${isMultiTP ? 'multi-TP (monitor)' : (analysis.takeProfit || 'none')}`);
+      // Broker-side checks - a deferral is a skip, the signal is stale by the time the market allows it
+      const preflight = await orderPreflight.check(this.broker, {
+        symbol: analysis.symbol,
+        direction: analysis.direction,
+        lots: positionInfo.lotSize,
+        stopLoss,
+        takeProfit: nativeTP,
+      });
+      if (preflight.action !== 'PLACE') {
+        await this.markSkipped(analysisId, preflight.reason!);
+        return;
+      }
+      const lotSize = preflight.lots;
+      const riskAmount = positionInfo.riskAmount * (lotSize / positionInfo.lotSize);
+
+      console.log(`[TradeExecutor] Placing order: ${analysis.direction} ${analysis.symbol} ${lotSize} lots, SL: ${stopLoss}, TP: ${isMultiTP ? 'multi-TP (monitor)' : (analysis.takeProfit || 'none')}`);
 
       // Execute the trade
-      const orderResult = await metaApiClient.placeMarketOrder(
+      const orderResult = await this.broker.placeMarketOrder(
         analysis.symbol,
         analysis.direction,
-        positionInfo.lotSize,
+        lotSize,
         stopLoss,
         nativeTP,
         `TG_KASPER ${analysis.direction}`
@@ -339,12 +382,12 @@ class TelegramTradeExecutor {
         entryPrice: analysis.direction === 'BUY' ? price.ask : price.bid,
         stopLoss,
         takeProfit: analysis.takeProfit || 0,
-        lotSize: positionInfo.lotSize,
+        lotSize,
         openTime: new Date(),
         status: 'OPEN',
         mt5OrderId: orderResult.orderId,
         mt5PositionId: orderResult.positionId,
-        riskAmount: positionInfo.riskAmount,
+        riskAmount,
         riskRewardRatio: analysis.takeProfit
           ? Math.abs(analysis.takeProfit - entryPrice) / Math.abs(entryPrice - stopLoss)
           : 0,
@@ -361,7 +404,7 @@ class TelegramTradeExecutor {
           analysis.symbol,
           analysis.direction,
           trade.entryPrice,
-          positionInfo.lotSize,
+          lotSize,
           analysis.tp1 || analysis.takeProfit || 0,
           analysis.tp2,
           analysis.tp3,
@@ -398,8 +441,8 @@ class TelegramTradeExecutor {
           `Entry: ${trade.entryPrice}\n` +
           `SL: ${stopLoss}\n` +
           `${tpLines}\n` +
-          `Size: ${positionInfo.lotSize} lots\n` +
-          `Risk: $${positionInfo.riskAmount.toFixed(2)} (20%)`
+          `Size: ${lotSize} lots\n` +
+          `Risk: $${riskAmount.toFixed(2)} (20%)`
         );
       }
 
@@ -426,7 +469,7 @@ class TelegramTradeExecutor {
       return;
     }
 
-    await metaApiClient.modifyPosition(trade.mt5PositionId, trade.stopLoss, analysis.takeProfit);
+    await this.broker.modifyPosition(trade.mt5PositionId, trade.stopLoss, analysis.takeProfit);
 
     await prisma.trade.update({
       where: { id: trade.id },
@@ -461,7 +504,7 @@ class TelegramTradeExecutor {
       return;
     }
 
-    await metaApiClient.modifyPosition(trade.mt5PositionId, analysis.stopLoss, trade.takeProfit);
+    await this.broker.modifyPosition(trade.mt5PositionId, analysis.stopLoss, trade.takeProfit);
 
     await prisma.trade.update({
       where: { id: trade.id },
@@ -534,7 +577,7 @@ class TelegramTradeExecutor {
     if (closePercent < 100) {
       // Partial close - calculate volume from ORIGINAL lot size
       const closeVolume = trade.lotSize * (closePercent / 100);
-      const symbolInfo = await metaApiClient.getSymbolInfo(trade.symbol);
+      const symbolInfo = await this.broker.getSymbolInfo(trade.symbol);
       const roundedVolume = Math.round(closeVolume / symbolInfo.volumeStep) * symbolInfo.volumeStep;
 
       if (roundedVolume < symbolInfo.minVolume) {
@@ -544,7 +587,7 @@ class TelegramTradeExecutor {
 
       // Safety: check remaining volume from MT5 position
       try {
-        const positions: Position[] = await metaApiClient.getPositions();
+        const positions: Position[] = await this.broker.getPositions();
         const mt5Position = positions.find((p) => p.id === trade.mt5PositionId);
         if (!mt5Position) {
           await this.markSkipped(analysisId, `Position ${trade.mt5PositionId} no longer open in MT5`);
@@ -557,27 +600,27 @@ class TelegramTradeExecutor {
           const adjustedVolume = Math.round(remainingVolume / symbolInfo.volumeStep) * symbolInfo.volumeStep;
           if (adjustedVolume < symbolInfo.minVolume) {
             // Remaining is too small to partial close, do a full close instead
-            await metaApiClient.closePosition(trade.mt5PositionId);
+            await this.broker.closePosition(trade.mt5PositionId);
             console.log(`[TradeExecutor] Remaining volume too small for partial, fully closed trade ${trade.id}`);
           } else {
-            await metaApiClient.closePositionPartially(trade.mt5PositionId, adjustedVolume);
+            await this.broker.closePositionPartially(trade.mt5PositionId, adjustedVolume);
             console.log(`[TradeExecutor] Partial close ${closePercent}% (${adjustedVolume} lots, adjusted) for trade ${trade.id}`);
           }
         } else {
-          await metaApiClient.closePositionPartially(trade.mt5PositionId, roundedVolume);
+          await this.broker.closePositionPartially(trade.mt5PositionId, roundedVolume);
           console.log(`[TradeExecutor] Partial close ${closePercent}% (${roundedVolume} lots) for trade ${trade.id}`);
         }
       } catch (posError) {
         // If we can't check positions, proceed with calculated volume (original behavior)
         console.warn(`[TradeExecutor] Could not check MT5 position, proceeding with calculated volume:`, posError);
-        await metaApiClient.closePositionPartially(trade.mt5PositionId, roundedVolume);
+        await this.broker.closePositionPartially(trade.mt5PositionId, roundedVolume);
         console.log(`[TradeExecutor] Partial close ${closePercent}% (${roundedVolume} lots) for trade ${trade.id}`);
       }
 
       // After partial close, move SL to breakeven to protect remaining position
       try {
         const beSL = this.computeBreakevenSL(trade.entryPrice, trade.symbol, trade.direction);
-        await metaApiClient.modifyPosition(trade.mt5PositionId, beSL, trade.takeProfit);
+        await this.broker.modifyPosition(trade.mt5PositionId, beSL, trade.takeProfit);
         await prisma.trade.update({
           where: { id: trade.id },
           data: { stopLoss: beSL },
@@ -601,7 +644,7 @@ class TelegramTradeExecutor {
       }
     } else {
       // Full close
-      await metaApiClient.closePosition(trade.mt5PositionId);
+      await this.broker.closePosition(trade.mt5PositionId);
       console.log(`[TradeExecutor] Position fully closed for trade ${trade.id}`);
 
       if (telegramNotifier.isEnabled()) {
@@ -645,7 +688,7 @@ class TelegramTradeExecutor {
 
     const beSL = this.computeBreakevenSL(trade.entryPrice, trade.symbol, trade.direction);
 
-    await metaApiClient.modifyPosition(trade.mt5PositionId, beSL, trade.takeProfit);
+    await this.broker.modifyPosition(trade.mt5PositionId, beSL, trade.takeProfit);
     await prisma.trade.update({
       where: { id: trade.id },
       data: { stopLoss: beSL },